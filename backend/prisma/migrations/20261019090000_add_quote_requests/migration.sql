@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "QuoteStatus" AS ENUM ('NEW', 'SITE_VISIT_BOOKED', 'ESTIMATED', 'WON', 'LOST');
+
+-- CreateTable
+CREATE TABLE "QuoteRequest" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT,
+    "serviceType" TEXT NOT NULL,
+    "propertyType" TEXT,
+    "roomCount" INTEGER,
+    "areaSqm" DOUBLE PRECISION,
+    "surfaces" TEXT[],
+    "preferredDates" TIMESTAMP(3)[],
+    "message" TEXT,
+    "status" "QuoteStatus" NOT NULL DEFAULT 'NEW',
+    "statusChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "staffNotes" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuoteRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_QuoteRequestPhotos" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_QuoteRequestPhotos_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "QuoteRequest_status_createdAt_idx" ON "QuoteRequest"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "QuoteRequest_email_idx" ON "QuoteRequest"("email");
+
+-- CreateIndex
+CREATE INDEX "_QuoteRequestPhotos_B_index" ON "_QuoteRequestPhotos"("B");
+
+-- AddForeignKey
+ALTER TABLE "_QuoteRequestPhotos" ADD CONSTRAINT "_QuoteRequestPhotos_A_fkey" FOREIGN KEY ("A") REFERENCES "Media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_QuoteRequestPhotos" ADD CONSTRAINT "_QuoteRequestPhotos_B_fkey" FOREIGN KEY ("B") REFERENCES "QuoteRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "estimateRateCard" JSONB;
+
+-- CreateTable
+CREATE TABLE "Estimate" (
+    "id" TEXT NOT NULL,
+    "contactMessageId" TEXT,
+    "quoteRequestId" TEXT,
+    "customerName" TEXT,
+    "customerEmail" TEXT,
+    "input" JSONB NOT NULL,
+    "lineItems" JSONB NOT NULL,
+    "currency" TEXT NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "taxAmount" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Estimate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Estimate_contactMessageId_idx" ON "Estimate"("contactMessageId");
+
+-- CreateIndex
+CREATE INDEX "Estimate_quoteRequestId_idx" ON "Estimate"("quoteRequestId");
+
+-- CreateIndex
+CREATE INDEX "Estimate_createdAt_idx" ON "Estimate"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Estimate" ADD CONSTRAINT "Estimate_contactMessageId_fkey" FOREIGN KEY ("contactMessageId") REFERENCES "ContactMessage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Estimate" ADD CONSTRAINT "Estimate_quoteRequestId_fkey" FOREIGN KEY ("quoteRequestId") REFERENCES "QuoteRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Estimate" ADD CONSTRAINT "Estimate_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
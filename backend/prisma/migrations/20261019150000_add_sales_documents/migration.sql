@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "DocumentType" AS ENUM ('ESTIMATE', 'INVOICE');
+
+-- CreateEnum
+CREATE TYPE "DocumentStatus" AS ENUM ('DRAFT', 'SENT', 'ACCEPTED', 'DECLINED', 'PAID', 'VOID');
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "type" "DocumentType" NOT NULL,
+    "lastValue" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("type")
+);
+
+-- CreateTable
+CREATE TABLE "SalesDocument" (
+    "id" TEXT NOT NULL,
+    "type" "DocumentType" NOT NULL,
+    "number" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "status" "DocumentStatus" NOT NULL DEFAULT 'DRAFT',
+    "customerName" TEXT NOT NULL,
+    "customerEmail" TEXT,
+    "customerPhone" TEXT,
+    "customerAddress" TEXT,
+    "lineItems" JSONB NOT NULL,
+    "currency" TEXT NOT NULL,
+    "subtotal" DOUBLE PRECISION NOT NULL,
+    "taxRate" DOUBLE PRECISION NOT NULL,
+    "taxAmount" DOUBLE PRECISION NOT NULL,
+    "total" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "validUntil" TIMESTAMP(3),
+    "dueDate" TIMESTAMP(3),
+    "supersededAt" TIMESTAMP(3),
+    "sentAt" TIMESTAMP(3),
+    "estimateId" TEXT,
+    "quoteRequestId" TEXT,
+    "sourceDocumentId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SalesDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SalesDocument_type_status_idx" ON "SalesDocument"("type", "status");
+
+-- CreateIndex
+CREATE INDEX "SalesDocument_customerEmail_idx" ON "SalesDocument"("customerEmail");
+
+-- CreateIndex
+CREATE INDEX "SalesDocument_quoteRequestId_idx" ON "SalesDocument"("quoteRequestId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalesDocument_type_number_version_key" ON "SalesDocument"("type", "number", "version");
+
+-- AddForeignKey
+ALTER TABLE "SalesDocument" ADD CONSTRAINT "SalesDocument_estimateId_fkey" FOREIGN KEY ("estimateId") REFERENCES "Estimate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesDocument" ADD CONSTRAINT "SalesDocument_quoteRequestId_fkey" FOREIGN KEY ("quoteRequestId") REFERENCES "QuoteRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesDocument" ADD CONSTRAINT "SalesDocument_sourceDocumentId_fkey" FOREIGN KEY ("sourceDocumentId") REFERENCES "SalesDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesDocument" ADD CONSTRAINT "SalesDocument_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
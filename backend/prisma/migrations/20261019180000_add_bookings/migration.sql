@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "BookingType" AS ENUM ('SITE_VISIT', 'JOB');
+
+-- CreateEnum
+CREATE TYPE "BookingStatus" AS ENUM ('TENTATIVE', 'CONFIRMED', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "bookingConfig" JSONB;
+
+-- CreateTable
+CREATE TABLE "Crew" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#3B82F6',
+    "members" TEXT[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "workingHours" JSONB,
+    "takesSiteVisits" BOOLEAN NOT NULL DEFAULT true,
+    "leadUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Crew_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CrewBlackout" (
+    "id" TEXT NOT NULL,
+    "crewId" TEXT,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CrewBlackout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Booking" (
+    "id" TEXT NOT NULL,
+    "type" "BookingType" NOT NULL,
+    "status" "BookingStatus" NOT NULL DEFAULT 'CONFIRMED',
+    "title" TEXT NOT NULL,
+    "crewId" TEXT NOT NULL,
+    "quoteRequestId" TEXT,
+    "customerName" TEXT NOT NULL,
+    "customerEmail" TEXT,
+    "customerPhone" TEXT,
+    "address" TEXT,
+    "notes" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reminderSentAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Booking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Crew_active_idx" ON "Crew"("active");
+
+-- CreateIndex
+CREATE INDEX "CrewBlackout_crewId_startDate_idx" ON "CrewBlackout"("crewId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "CrewBlackout_startDate_endDate_idx" ON "CrewBlackout"("startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "Booking_crewId_startsAt_idx" ON "Booking"("crewId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "Booking_status_startsAt_idx" ON "Booking"("status", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "Booking_quoteRequestId_idx" ON "Booking"("quoteRequestId");
+
+-- AddForeignKey
+ALTER TABLE "Crew" ADD CONSTRAINT "Crew_leadUserId_fkey" FOREIGN KEY ("leadUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CrewBlackout" ADD CONSTRAINT "CrewBlackout_crewId_fkey" FOREIGN KEY ("crewId") REFERENCES "Crew"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_crewId_fkey" FOREIGN KEY ("crewId") REFERENCES "Crew"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_quoteRequestId_fkey" FOREIGN KEY ("quoteRequestId") REFERENCES "QuoteRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
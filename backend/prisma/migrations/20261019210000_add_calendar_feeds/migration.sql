@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN "scheduleNotifiedFor" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN "scheduleNotifiedFor" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CalendarFeed" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "includeContent" BOOLEAN NOT NULL DEFAULT true,
+    "includeCampaigns" BOOLEAN NOT NULL DEFAULT true,
+    "includeBookings" BOOLEAN NOT NULL DEFAULT true,
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CalendarFeed_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarFeed_userId_key" ON "CalendarFeed"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarFeed_token_key" ON "CalendarFeed"("token");
+
+-- AddForeignKey
+ALTER TABLE "CalendarFeed" ADD CONSTRAINT "CalendarFeed_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,82 @@
+-- CreateEnum
+CREATE TYPE "ProjectPhotoStage" AS ENUM ('BEFORE', 'AFTER');
+
+-- AlterTable
+ALTER TABLE "QuoteRequest" ADD COLUMN "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "ContactMessage" ADD COLUMN "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "SalesDocument" ADD COLUMN "signatureName" TEXT,
+ADD COLUMN "signatureImage" TEXT,
+ADD COLUMN "signedAt" TIMESTAMP(3),
+ADD COLUMN "signedIp" TEXT,
+ADD COLUMN "signedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "EnquiryReply" (
+    "id" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "fromCustomer" BOOLEAN NOT NULL DEFAULT false,
+    "quoteRequestId" TEXT,
+    "contactMessageId" TEXT,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EnquiryReply_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProjectPhoto" (
+    "id" TEXT NOT NULL,
+    "stage" "ProjectPhotoStage" NOT NULL,
+    "caption" TEXT,
+    "quoteRequestId" TEXT NOT NULL,
+    "mediaId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectPhoto_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuoteRequest_userId_idx" ON "QuoteRequest"("userId");
+
+-- CreateIndex
+CREATE INDEX "ContactMessage_email_idx" ON "ContactMessage"("email");
+
+-- CreateIndex
+CREATE INDEX "ContactMessage_userId_idx" ON "ContactMessage"("userId");
+
+-- CreateIndex
+CREATE INDEX "EnquiryReply_quoteRequestId_createdAt_idx" ON "EnquiryReply"("quoteRequestId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EnquiryReply_contactMessageId_createdAt_idx" ON "EnquiryReply"("contactMessageId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProjectPhoto_quoteRequestId_stage_idx" ON "ProjectPhoto"("quoteRequestId", "stage");
+
+-- AddForeignKey
+ALTER TABLE "QuoteRequest" ADD CONSTRAINT "QuoteRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContactMessage" ADD CONSTRAINT "ContactMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SalesDocument" ADD CONSTRAINT "SalesDocument_signedById_fkey" FOREIGN KEY ("signedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EnquiryReply" ADD CONSTRAINT "EnquiryReply_quoteRequestId_fkey" FOREIGN KEY ("quoteRequestId") REFERENCES "QuoteRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EnquiryReply" ADD CONSTRAINT "EnquiryReply_contactMessageId_fkey" FOREIGN KEY ("contactMessageId") REFERENCES "ContactMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EnquiryReply" ADD CONSTRAINT "EnquiryReply_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectPhoto" ADD CONSTRAINT "ProjectPhoto_quoteRequestId_fkey" FOREIGN KEY ("quoteRequestId") REFERENCES "QuoteRequest"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectPhoto" ADD CONSTRAINT "ProjectPhoto_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "Media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
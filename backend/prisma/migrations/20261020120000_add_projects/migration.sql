@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "ProjectStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'ARCHIVED');
+
+-- CreateTable
+CREATE TABLE "Project" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "summary" TEXT,
+    "description" TEXT,
+    "status" "ProjectStatus" NOT NULL DEFAULT 'DRAFT',
+    "featured" BOOLEAN NOT NULL DEFAULT false,
+    "location" TEXT,
+    "serviceType" TEXT,
+    "propertyType" TEXT,
+    "coloursUsed" TEXT[],
+    "paintBrands" TEXT[],
+    "durationDays" INTEGER,
+    "completedAt" TIMESTAMP(3),
+    "customerName" TEXT,
+    "customerQuote" TEXT,
+    "seoTitle" TEXT,
+    "seoDescription" TEXT,
+    "publishedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Project_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProjectImagePair" (
+    "id" TEXT NOT NULL,
+    "caption" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "projectId" TEXT NOT NULL,
+    "beforeId" TEXT NOT NULL,
+    "afterId" TEXT NOT NULL,
+
+    CONSTRAINT "ProjectImagePair_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_slug_key" ON "Project"("slug");
+
+-- CreateIndex
+CREATE INDEX "Project_status_publishedAt_idx" ON "Project"("status", "publishedAt");
+
+-- CreateIndex
+CREATE INDEX "Project_serviceType_idx" ON "Project"("serviceType");
+
+-- CreateIndex
+CREATE INDEX "Project_location_idx" ON "Project"("location");
+
+-- CreateIndex
+CREATE INDEX "ProjectImagePair_projectId_position_idx" ON "ProjectImagePair"("projectId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectImagePair" ADD CONSTRAINT "ProjectImagePair_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectImagePair" ADD CONSTRAINT "ProjectImagePair_beforeId_fkey" FOREIGN KEY ("beforeId") REFERENCES "Media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectImagePair" ADD CONSTRAINT "ProjectImagePair_afterId_fkey" FOREIGN KEY ("afterId") REFERENCES "Media"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- Trigram matching for typo-tolerant title/name lookups
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Map a Post/Tag language code (ISO 639-1) to a text search configuration.
+-- Languages without a stemmer fall back to 'simple'.
+CREATE OR REPLACE FUNCTION search_config(lang TEXT) RETURNS regconfig
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT CASE lower(coalesce(lang, ''))
+    WHEN 'en' THEN 'english'::regconfig
+    WHEN 'ar' THEN 'arabic'::regconfig
+    WHEN 'es' THEN 'spanish'::regconfig
+    WHEN 'fr' THEN 'french'::regconfig
+    WHEN 'de' THEN 'german'::regconfig
+    WHEN 'it' THEN 'italian'::regconfig
+    WHEN 'pt' THEN 'portuguese'::regconfig
+    WHEN 'nl' THEN 'dutch'::regconfig
+    WHEN 'ru' THEN 'russian'::regconfig
+    WHEN 'tr' THEN 'turkish'::regconfig
+    ELSE 'simple'::regconfig
+  END
+$$;
+
+-- Plain text from HTML, used for search snippets
+CREATE OR REPLACE FUNCTION search_strip_html(html TEXT) RETURNS TEXT
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT regexp_replace(regexp_replace(coalesce(html, ''), '<[^>]*>', ' ', 'g'), '\s+', ' ', 'g')
+$$;
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector(search_config("language"), coalesce("title", '')), 'A') ||
+    setweight(to_tsvector(search_config("language"), coalesce("excerpt", '')), 'B') ||
+    setweight(to_tsvector(search_config("language"), search_strip_html("content")), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '') || ' ' || coalesce("seoTitle", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '') || ' ' || coalesce("seoDescription", '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', "content", '["string"]'), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Post_searchVector_idx" ON "Post" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Post_title_trgm_idx" ON "Post" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Page_searchVector_idx" ON "Page" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Page_title_trgm_idx" ON "Page" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Category_name_trgm_idx" ON "Category" USING GIN ("name" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Tag_name_trgm_idx" ON "Tag" USING GIN ("name" gin_trgm_ops);
@@ -0,0 +1,17 @@
+-- Failed jobs are now retried; jobs that run out of attempts are dead-lettered
+ALTER TYPE "JobStatus" RENAME VALUE 'FAILED' TO 'DEAD_LETTER';
+
+-- AlterTable
+ALTER TABLE "QueueJob" ADD COLUMN "priority" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "lockedBy" TEXT;
+
+-- Existing jobs become eligible in their original order
+UPDATE "QueueJob" SET "runAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "QueueJob_status_runAt_priority_idx" ON "QueueJob"("status", "runAt", "priority");
+
+-- CreateIndex
+CREATE INDEX "QueueJob_type_status_idx" ON "QueueJob"("type", "status");
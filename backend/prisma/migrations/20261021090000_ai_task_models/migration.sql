@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "aiTaskModels" JSONB;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "aiBudget" JSONB;
+
+-- CreateTable
+CREATE TABLE "AiUsage" (
+    "id" TEXT NOT NULL,
+    "task" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "requestedModel" TEXT,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "estimated" BOOLEAN NOT NULL DEFAULT false,
+    "cost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL DEFAULT 0,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "error" TEXT,
+    "postId" TEXT,
+    "jobId" TEXT,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AiUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AiUsage_createdAt_idx" ON "AiUsage"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_userId_createdAt_idx" ON "AiUsage"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AiUsage_postId_idx" ON "AiUsage"("postId");
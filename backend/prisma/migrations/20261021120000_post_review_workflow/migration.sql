@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "ReviewCommentStatus" AS ENUM ('OPEN', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "ReviewAction" AS ENUM ('COMMENTED', 'SUGGESTION_APPLIED', 'CHANGES_REQUESTED', 'REVISED', 'REVISION_FAILED', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "PostReviewComment" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "blockIndex" INTEGER NOT NULL,
+    "quote" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "suggestion" TEXT,
+    "status" "ReviewCommentStatus" NOT NULL DEFAULT 'OPEN',
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PostReviewComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PostReviewEvent" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" "ReviewAction" NOT NULL,
+    "notes" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostReviewEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PostReviewComment_postId_status_idx" ON "PostReviewComment"("postId", "status");
+
+-- CreateIndex
+CREATE INDEX "PostReviewEvent_postId_createdAt_idx" ON "PostReviewEvent"("postId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PostReviewComment" ADD CONSTRAINT "PostReviewComment_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostReviewComment" ADD CONSTRAINT "PostReviewComment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostReviewEvent" ADD CONSTRAINT "PostReviewEvent_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostReviewEvent" ADD CONSTRAINT "PostReviewEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "RefreshStatus" AS ENUM ('PENDING', 'APPLIED', 'DISCARDED', 'ROLLED_BACK');
+
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "refreshRollbackHours" INTEGER NOT NULL DEFAULT 72;
+
+-- CreateTable
+CREATE TABLE "PostRefresh" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "status" "RefreshStatus" NOT NULL DEFAULT 'PENDING',
+    "originalContent" TEXT NOT NULL,
+    "originalExcerpt" TEXT,
+    "originalSeoDescription" TEXT,
+    "originalSeoKeywords" TEXT[],
+    "proposedExcerpt" TEXT,
+    "proposedSeoDescription" TEXT,
+    "proposedSeoKeywords" TEXT[],
+    "sections" JSONB NOT NULL,
+    "appliedContent" TEXT,
+    "seoScoreBefore" INTEGER,
+    "seoScoreAfter" INTEGER,
+    "createdById" TEXT,
+    "reviewedById" TEXT,
+    "appliedAt" TIMESTAMP(3),
+    "rollbackUntil" TIMESTAMP(3),
+    "rolledBackAt" TIMESTAMP(3),
+    "rollbackReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PostRefresh_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PostRefresh_postId_status_idx" ON "PostRefresh"("postId", "status");
+
+-- CreateIndex
+CREATE INDEX "PostRefresh_status_rollbackUntil_idx" ON "PostRefresh"("status", "rollbackUntil");
+
+-- AddForeignKey
+ALTER TABLE "PostRefresh" ADD CONSTRAINT "PostRefresh_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostRefresh" ADD CONSTRAINT "PostRefresh_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostRefresh" ADD CONSTRAINT "PostRefresh_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "PostRevisionSource" AS ENUM ('EDITOR', 'AI', 'REFRESH', 'REVIEW', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "PostRevision" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "excerpt" TEXT,
+    "seoTitle" TEXT,
+    "seoDescription" TEXT,
+    "seoKeywords" TEXT[],
+    "categoryIds" TEXT[],
+    "tagIds" TEXT[],
+    "wordCount" INTEGER NOT NULL DEFAULT 0,
+    "source" "PostRevisionSource" NOT NULL DEFAULT 'EDITOR',
+    "reason" TEXT,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PostRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PostRevision_postId_revisionNumber_key" ON "PostRevision"("postId", "revisionNumber");
+
+-- CreateIndex
+CREATE INDEX "PostRevision_postId_idx" ON "PostRevision"("postId");
+
+-- AddForeignKey
+ALTER TABLE "PostRevision" ADD CONSTRAINT "PostRevision_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PostRevision" ADD CONSTRAINT "PostRevision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "EditResource" AS ENUM ('POST', 'PAGE');
+
+-- CreateTable
+CREATE TABLE "EditDraft" (
+    "id" TEXT NOT NULL,
+    "resource" "EditResource" NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "baseVersion" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EditDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EditPresence" (
+    "id" TEXT NOT NULL,
+    "resource" "EditResource" NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EditPresence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EditDraft_resource_resourceId_userId_key" ON "EditDraft"("resource", "resourceId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EditPresence_resource_resourceId_userId_key" ON "EditPresence"("resource", "resourceId", "userId");
+
+-- CreateIndex
+CREATE INDEX "EditPresence_resource_resourceId_lastSeenAt_idx" ON "EditPresence"("resource", "resourceId", "lastSeenAt");
+
+-- AddForeignKey
+ALTER TABLE "EditDraft" ADD CONSTRAINT "EditDraft_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EditPresence" ADD CONSTRAINT "EditPresence_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "embeddingProvider" TEXT NOT NULL DEFAULT 'builtin',
+ADD COLUMN "embeddingModel" TEXT,
+ADD COLUMN "similarityThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.35;
+
+-- CreateTable
+CREATE TABLE "PostEmbedding" (
+    "postId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "vector" DOUBLE PRECISION[],
+    "contentHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PostEmbedding_pkey" PRIMARY KEY ("postId")
+);
+
+-- CreateIndex
+CREATE INDEX "PostEmbedding_provider_model_idx" ON "PostEmbedding"("provider", "model");
+
+-- AddForeignKey
+ALTER TABLE "PostEmbedding" ADD CONSTRAINT "PostEmbedding_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
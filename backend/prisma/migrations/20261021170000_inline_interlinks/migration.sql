@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "PostRevisionSource" ADD VALUE 'INTERLINK';
+
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "maxInterlinksPerParagraph" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "InternalLink" ADD COLUMN "targetPostId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "InternalLink_targetPostId_idx" ON "InternalLink"("targetPostId");
+
+-- AddForeignKey
+ALTER TABLE "InternalLink" ADD CONSTRAINT "InternalLink_targetPostId_fkey" FOREIGN KEY ("targetPostId") REFERENCES "Post"("id") ON DELETE SET NULL ON UPDATE CASCADE;
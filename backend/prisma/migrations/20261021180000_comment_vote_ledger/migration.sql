@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "commentReactions" TEXT[] DEFAULT ARRAY['👍', '❤️', '😂', '🎉', '🤔']::TEXT[],
+ADD COLUMN "anonymousVotingEnabled" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "CommentVote" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "voterKey" TEXT NOT NULL,
+    "userId" TEXT,
+    "value" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommentVote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CommentReaction" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "voterKey" TEXT NOT NULL,
+    "userId" TEXT,
+    "emoji" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommentReaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommentVote_commentId_voterKey_key" ON "CommentVote"("commentId", "voterKey");
+
+-- CreateIndex
+CREATE INDEX "CommentVote_userId_idx" ON "CommentVote"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommentReaction_commentId_voterKey_emoji_key" ON "CommentReaction"("commentId", "voterKey", "emoji");
+
+-- CreateIndex
+CREATE INDEX "CommentReaction_userId_idx" ON "CommentReaction"("userId");
+
+-- AddForeignKey
+ALTER TABLE "CommentVote" ADD CONSTRAINT "CommentVote_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentVote" ADD CONSTRAINT "CommentVote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentReaction" ADD CONSTRAINT "CommentReaction_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentReaction" ADD CONSTRAINT "CommentReaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "CommentSpamLabel" AS ENUM ('SPAM', 'HAM');
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN "spamScore" DOUBLE PRECISION,
+ADD COLUMN "spamReasons" JSONB;
+
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "commentSpamKeywords" TEXT[] DEFAULT ARRAY['viagra', 'casino', 'lottery', 'click here', 'buy now', 'limited offer', 'act now']::TEXT[],
+ADD COLUMN "commentSpamThreshold" DOUBLE PRECISION NOT NULL DEFAULT 5,
+ADD COLUMN "commentSpamWeights" JSONB,
+ADD COLUMN "commentMinSubmitSeconds" INTEGER NOT NULL DEFAULT 3;
+
+-- CreateTable
+CREATE TABLE "CommentSpamVerdict" (
+    "commentId" TEXT NOT NULL,
+    "label" "CommentSpamLabel" NOT NULL,
+    "tokens" TEXT[],
+    "moderatorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommentSpamVerdict_pkey" PRIMARY KEY ("commentId")
+);
+
+-- CreateTable
+CREATE TABLE "CommentSpamToken" (
+    "token" TEXT NOT NULL,
+    "spamCount" INTEGER NOT NULL DEFAULT 0,
+    "hamCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommentSpamToken_pkey" PRIMARY KEY ("token")
+);
+
+-- CreateIndex
+CREATE INDEX "CommentSpamVerdict_label_idx" ON "CommentSpamVerdict"("label");
+
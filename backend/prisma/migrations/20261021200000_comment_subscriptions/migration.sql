@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "CommentNotificationFrequency" AS ENUM ('INSTANT', 'DAILY');
+
+-- CreateEnum
+CREATE TYPE "CommentNotificationKind" AS ENUM ('NEW_COMMENT', 'REPLY', 'MODERATOR_RESPONSE');
+
+-- CreateTable
+CREATE TABLE "CommentSubscription" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "threadId" TEXT,
+    "userId" TEXT,
+    "frequency" "CommentNotificationFrequency" NOT NULL DEFAULT 'INSTANT',
+    "confirmedAt" TIMESTAMP(3),
+    "confirmationSentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommentSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CommentNotification" (
+    "id" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "kind" "CommentNotificationKind" NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommentNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommentSubscription_email_target_key" ON "CommentSubscription"("email", "target");
+
+-- CreateIndex
+CREATE INDEX "CommentSubscription_target_confirmedAt_idx" ON "CommentSubscription"("target", "confirmedAt");
+
+-- CreateIndex
+CREATE INDEX "CommentSubscription_userId_idx" ON "CommentSubscription"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommentNotification_subscriptionId_commentId_key" ON "CommentNotification"("subscriptionId", "commentId");
+
+-- CreateIndex
+CREATE INDEX "CommentNotification_sentAt_idx" ON "CommentNotification"("sentAt");
+
+-- CreateIndex
+CREATE INDEX "CommentNotification_commentId_idx" ON "CommentNotification"("commentId");
+
+-- AddForeignKey
+ALTER TABLE "CommentSubscription" ADD CONSTRAINT "CommentSubscription_postId_fkey" FOREIGN KEY ("postId") REFERENCES "Post"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentSubscription" ADD CONSTRAINT "CommentSubscription_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentSubscription" ADD CONSTRAINT "CommentSubscription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentNotification" ADD CONSTRAINT "CommentNotification_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "CommentSubscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommentNotification" ADD CONSTRAINT "CommentNotification_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "Comment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "CommentModerationMode" AS ENUM ('SITE_DEFAULT', 'HOLD_ALL', 'APPROVE_ALL');
+
+-- CreateEnum
+CREATE TYPE "CommentModerationAction" AS ENUM ('AUTO_APPROVED', 'HELD', 'BLOCKED', 'MARKED_SPAM', 'APPROVED', 'REJECTED', 'FLAGGED', 'PINNED', 'UNPINNED', 'RESOLVED', 'UNRESOLVED', 'EDITED');
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN "commentModeration" "CommentModerationMode" NOT NULL DEFAULT 'SITE_DEFAULT',
+ADD COLUMN "commentAutoCloseDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "SiteSettings" ADD COLUMN "commentTrustedRoles" "Role"[] DEFAULT ARRAY['SUPER_ADMIN', 'ADMINISTRATOR', 'EDITOR']::"Role"[],
+ADD COLUMN "commentRequireApproval" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "commentHoldFirstTime" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "commentAutoApproveAfter" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN "commentBlockedWords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "commentBlockedDomains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "commentBlockedIps" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "commentAutoCloseDays" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CommentModerationEvent" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "action" "CommentModerationAction" NOT NULL,
+    "moderatorId" TEXT,
+    "reason" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CommentModerationEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommentModerationEvent_commentId_createdAt_idx" ON "CommentModerationEvent"("commentId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CommentModerationEvent_moderatorId_createdAt_idx" ON "CommentModerationEvent"("moderatorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CommentModerationEvent" ADD CONSTRAINT "CommentModerationEvent_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "CommentImportFormat" AS ENUM ('WXR', 'DISQUS');
+
+-- CreateEnum
+CREATE TYPE "CommentImportStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN "importFormat" "CommentImportFormat",
+ADD COLUMN "importedId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CommentImport" (
+    "id" TEXT NOT NULL,
+    "format" "CommentImportFormat" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "dryRun" BOOLEAN NOT NULL DEFAULT true,
+    "status" "CommentImportStatus" NOT NULL DEFAULT 'QUEUED',
+    "jobId" TEXT,
+    "report" JSONB,
+    "error" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CommentImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Comment_importFormat_importedId_key" ON "Comment"("importFormat", "importedId");
+
+-- CreateIndex
+CREATE INDEX "CommentImport_createdAt_idx" ON "CommentImport"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CommentImport" ADD CONSTRAINT "CommentImport_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
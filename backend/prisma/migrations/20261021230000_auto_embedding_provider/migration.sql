@@ -0,0 +1,4 @@
+-- Default to a real embedding model when an AI provider is configured; builtin becomes the fallback.
+-- 'builtin' was only ever the column default, so existing rows move to auto as well.
+ALTER TABLE "SiteSettings" ALTER COLUMN "embeddingProvider" SET DEFAULT 'auto';
+UPDATE "SiteSettings" SET "embeddingProvider" = 'auto' WHERE "embeddingProvider" = 'builtin';
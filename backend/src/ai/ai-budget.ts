@@ -0,0 +1,119 @@
+import { AiTokenUsage } from './interfaces/ai-provider.interface';
+
+export type AiBudgetAction = 'block' | 'degrade';
+
+/** USD per million tokens */
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+export type AiBudget = {
+  /** Site-wide spend per calendar month (UTC), null for no limit */
+  monthlyLimit: number | null;
+  /** Spend per user per calendar month for calls made on a user's behalf */
+  perUserMonthlyLimit: number | null;
+  /** Refuse further calls, or switch to the provider's fallback model */
+  onExceeded: AiBudgetAction;
+  /** Cheaper model per provider id, used when onExceeded is "degrade" */
+  fallbackModels: Record<string, string>;
+  /** Price overrides keyed by model name or prefix */
+  pricing: Record<string, ModelPrice>;
+};
+
+// List prices at the time of writing; admins can override them in aiBudget.pricing
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+};
+
+export const DEFAULT_AI_BUDGET: AiBudget = {
+  monthlyLimit: null,
+  perUserMonthlyLimit: null,
+  onExceeded: 'block',
+  fallbackModels: {
+    openai: 'gpt-4o-mini',
+    anthropic: 'claude-3-5-haiku-latest',
+  },
+  pricing: {},
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const toLimit = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const toPrice = (value: unknown): number => {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+};
+
+export function parseAiBudget(value: unknown): AiBudget {
+  if (!isRecord(value)) return DEFAULT_AI_BUDGET;
+
+  const fallbackModels = { ...DEFAULT_AI_BUDGET.fallbackModels };
+  if (isRecord(value.fallbackModels)) {
+    for (const [provider, model] of Object.entries(value.fallbackModels)) {
+      if (typeof model === 'string' && model.trim()) fallbackModels[provider] = model.trim();
+      else delete fallbackModels[provider];
+    }
+  }
+
+  const pricing: Record<string, ModelPrice> = {};
+  if (isRecord(value.pricing)) {
+    for (const [model, price] of Object.entries(value.pricing)) {
+      if (!model.trim() || !isRecord(price)) continue;
+      pricing[model.trim()] = { input: toPrice(price.input), output: toPrice(price.output) };
+    }
+  }
+
+  return {
+    monthlyLimit: toLimit(value.monthlyLimit),
+    perUserMonthlyLimit: toLimit(value.perUserMonthlyLimit),
+    onExceeded: value.onExceeded === 'degrade' ? 'degrade' : 'block',
+    fallbackModels,
+    pricing,
+  };
+}
+
+/**
+ * Price for a model: an exact match first, then the longest matching prefix
+ * so dated releases ("gpt-4o-2024-08-06") use their family's price.
+ * Local, mock and unknown models cost nothing.
+ */
+export function findModelPrice(model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...overrides };
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : { input: 0, output: 0 };
+}
+
+export function estimateCost(model: string, usage: AiTokenUsage, overrides?: Record<string, ModelPrice>): number {
+  const price = findModelPrice(model, overrides);
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  // Ledger precision: a millionth of a dollar
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/** Rough token count (about four characters per token) for providers that report none */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function startOfMonthUtc(date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
@@ -0,0 +1,29 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AiProvider } from './interfaces/ai-provider.interface';
+
+/**
+ * AI Provider Registry
+ * Maps SiteSettings.aiProvider to the adapter that talks to it. Adapters
+ * register themselves on module init, so a new backend only needs a
+ * provider class added to AiModule.
+ */
+@Injectable()
+export class AiProviderRegistry {
+  private readonly logger = new Logger(AiProviderRegistry.name);
+  private readonly providers = new Map<string, AiProvider>();
+
+  register(provider: AiProvider) {
+    if (this.providers.has(provider.id)) {
+      this.logger.warn(`AI provider ${provider.id} replaced`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): AiProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): AiProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
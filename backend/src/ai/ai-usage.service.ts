@@ -0,0 +1,283 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { AiBudget, estimateCost, parseAiBudget, startOfMonthUtc } from './ai-budget';
+import { AiBudgetExceededError } from './ai.errors';
+import { AiUsageReportQueryDto, UpdateAiBudgetDto } from './dto/ai-usage.dto';
+import { AiCallContext, AiTask, AiTokenUsage } from './interfaces/ai-provider.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_REPORT_DAYS = 365;
+const TOP_USERS = 10;
+const RECENT_CALLS = 25;
+
+export type BudgetDecision = {
+  model: string;
+  /** The model the task asked for, when the budget switched it to a fallback */
+  requestedModel?: string;
+};
+
+export type AiUsageEntry = AiCallContext & {
+  task: AiTask;
+  provider: string;
+  model: string;
+  requestedModel?: string;
+  usage?: AiTokenUsage;
+  latencyMs: number;
+  error?: string;
+};
+
+type DailyRow = {
+  day: Date;
+  calls: number;
+  cost: number;
+  tokens: number;
+};
+
+const roundUsd = (value: number) => Math.round(value * 1_000_000) / 1_000_000;
+
+/**
+ * Ledger of every AI provider call and the budgets checked against it.
+ * Spend is summed from AiUsage per calendar month (UTC).
+ */
+@Injectable()
+export class AiUsageService {
+  private readonly logger = new Logger(AiUsageService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+  ) {}
+
+  async getBudget(): Promise<AiBudget> {
+    const settings = await this.settingsService.getSettings();
+    return parseAiBudget(settings.aiBudget);
+  }
+
+  async updateBudget(body: UpdateAiBudgetDto) {
+    const budget = parseAiBudget({ ...(await this.getBudget()), ...body });
+    await this.settingsService.updateSettings({
+      aiBudget: budget,
+    });
+    this.logger.log('AI budget updated');
+    return budget;
+  }
+
+  /** Spend since the start of the month, site-wide or for one user */
+  async getMonthSpend(userId?: string): Promise<number> {
+    const result = await this.prisma.aiUsage.aggregate({
+      where: { createdAt: { gte: startOfMonthUtc() }, ...(userId ? { userId } : {}) },
+      _sum: { cost: true },
+    });
+    return roundUsd(result._sum.cost ?? 0);
+  }
+
+  /**
+   * Check the budgets before a call. Returns the model to use, which is the
+   * provider's fallback model when a limit is reached and the budget degrades.
+   * Throws AiBudgetExceededError when the budget blocks instead.
+   */
+  async applyBudget(providerId: string, model: string, context: AiCallContext, budget: AiBudget): Promise<BudgetDecision> {
+    if (budget.monthlyLimit === null && budget.perUserMonthlyLimit === null) {
+      return { model };
+    }
+
+    let exceeded: string | null = null;
+    if (budget.monthlyLimit !== null && await this.getMonthSpend() >= budget.monthlyLimit) {
+      exceeded = `Monthly AI budget of $${budget.monthlyLimit.toFixed(2)} reached`;
+    } else if (
+      budget.perUserMonthlyLimit !== null
+      && context.userId
+      && await this.getMonthSpend(context.userId) >= budget.perUserMonthlyLimit
+    ) {
+      exceeded = `Monthly AI budget of $${budget.perUserMonthlyLimit.toFixed(2)} per user reached`;
+    }
+    if (!exceeded) {
+      return { model };
+    }
+
+    const fallback = budget.fallbackModels[providerId];
+    if (budget.onExceeded === 'degrade' && fallback) {
+      if (fallback !== model) {
+        this.logger.warn(`${exceeded}; using ${fallback} instead of ${model}`);
+      }
+      return fallback === model ? { model } : { model: fallback, requestedModel: model };
+    }
+    throw new AiBudgetExceededError(exceeded);
+  }
+
+  /** Write one ledger row. Never throws, so metering cannot fail a call. */
+  async record(entry: AiUsageEntry, budget: AiBudget) {
+    const usage = entry.usage ?? { promptTokens: 0, completionTokens: 0 };
+    try {
+      await this.prisma.aiUsage.create({
+        data: {
+          task: entry.task,
+          provider: entry.provider,
+          model: entry.model,
+          requestedModel: entry.requestedModel,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          estimated: Boolean(usage.estimated),
+          cost: estimateCost(entry.model, usage, budget.pricing),
+          latencyMs: Math.round(entry.latencyMs),
+          success: !entry.error,
+          error: entry.error?.slice(0, 1000),
+          postId: entry.postId,
+          jobId: entry.jobId,
+          userId: entry.userId,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record AI usage: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async getReport(query: AiUsageReportQueryDto) {
+    const days = Math.min(MAX_REPORT_DAYS, Math.max(1, query.days ?? 30));
+    const today = new Date();
+    const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()) - (days - 1) * DAY_MS);
+    const where: Prisma.AiUsageWhereInput = { createdAt: { gte: start } };
+
+    const [budget, monthSpend, totals, failed, byTask, byModel, byUser, daily, recent] = await Promise.all([
+      this.getBudget(),
+      this.getMonthSpend(),
+      this.prisma.aiUsage.aggregate({
+        where,
+        _count: { _all: true },
+        _sum: { cost: true, promptTokens: true, completionTokens: true },
+        _avg: { latencyMs: true },
+      }),
+      this.prisma.aiUsage.count({ where: { ...where, success: false } }),
+      this.prisma.aiUsage.groupBy({
+        by: ['task'],
+        where,
+        _count: { _all: true },
+        _sum: { cost: true, promptTokens: true, completionTokens: true },
+      }),
+      this.prisma.aiUsage.groupBy({
+        by: ['provider', 'model'],
+        where,
+        _count: { _all: true },
+        _sum: { cost: true, promptTokens: true, completionTokens: true },
+      }),
+      this.prisma.aiUsage.groupBy({
+        by: ['userId'],
+        where: { ...where, userId: { not: null } },
+        _count: { _all: true },
+        _sum: { cost: true },
+        orderBy: { _sum: { cost: 'desc' } },
+        take: TOP_USERS,
+      }),
+      this.prisma.$queryRaw<DailyRow[]>`
+        SELECT date_trunc('day', "createdAt") AS day,
+               COUNT(*)::int AS calls,
+               COALESCE(SUM(cost), 0)::float AS cost,
+               COALESCE(SUM("promptTokens" + "completionTokens"), 0)::int AS tokens
+        FROM "AiUsage"
+        WHERE "createdAt" >= ${start}
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      this.prisma.aiUsage.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: RECENT_CALLS,
+      }),
+    ]);
+
+    const userIds = byUser.map((row) => row.userId).filter((id): id is string => Boolean(id));
+    const users = userIds.length
+      ? await this.prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, username: true, displayName: true },
+      })
+      : [];
+    const userNames = new Map(users.map((user) => [user.id, user.displayName || user.username]));
+    const userSpend = await Promise.all(
+      userIds.map(async (id) => [id, await this.getMonthSpend(id)] as const),
+    );
+    const monthSpendByUser = new Map(userSpend);
+
+    // Fill empty days so the chart has a continuous axis
+    const byDay = new Map(daily.map((row) => [new Date(row.day).getTime(), row]));
+    const series: Array<{ date: string; calls: number; cost: number; tokens: number }> = [];
+    for (let time = start.getTime(); time <= today.getTime(); time += DAY_MS) {
+      const row = byDay.get(time);
+      series.push({
+        date: new Date(time).toISOString().slice(0, 10),
+        calls: row?.calls ?? 0,
+        cost: roundUsd(row?.cost ?? 0),
+        tokens: row?.tokens ?? 0,
+      });
+    }
+
+    return {
+      days,
+      since: start.toISOString(),
+      budget: {
+        ...budget,
+        monthSpend,
+        remaining: budget.monthlyLimit === null ? null : roundUsd(Math.max(0, budget.monthlyLimit - monthSpend)),
+        exceeded: budget.monthlyLimit !== null && monthSpend >= budget.monthlyLimit,
+      },
+      totals: {
+        calls: totals._count._all,
+        failed,
+        cost: roundUsd(totals._sum.cost ?? 0),
+        promptTokens: totals._sum.promptTokens ?? 0,
+        completionTokens: totals._sum.completionTokens ?? 0,
+        avgLatencyMs: Math.round(totals._avg.latencyMs ?? 0),
+      },
+      byTask: byTask
+        .map((row) => ({
+          task: row.task,
+          calls: row._count._all,
+          cost: roundUsd(row._sum.cost ?? 0),
+          promptTokens: row._sum.promptTokens ?? 0,
+          completionTokens: row._sum.completionTokens ?? 0,
+        }))
+        .sort((a, b) => b.cost - a.cost || b.calls - a.calls),
+      byModel: byModel
+        .map((row) => ({
+          provider: row.provider,
+          model: row.model,
+          calls: row._count._all,
+          cost: roundUsd(row._sum.cost ?? 0),
+          promptTokens: row._sum.promptTokens ?? 0,
+          completionTokens: row._sum.completionTokens ?? 0,
+        }))
+        .sort((a, b) => b.cost - a.cost || b.calls - a.calls),
+      topUsers: byUser.map((row) => {
+        const userId = row.userId as string;
+        return {
+          userId,
+          name: userNames.get(userId) ?? 'Deleted user',
+          calls: row._count._all,
+          cost: roundUsd(row._sum.cost ?? 0),
+          monthSpend: monthSpendByUser.get(userId) ?? 0,
+        };
+      }),
+      daily: series,
+      recent: recent.map((row) => ({
+        id: row.id,
+        task: row.task,
+        provider: row.provider,
+        model: row.model,
+        requestedModel: row.requestedModel,
+        promptTokens: row.promptTokens,
+        completionTokens: row.completionTokens,
+        estimated: row.estimated,
+        cost: row.cost,
+        latencyMs: row.latencyMs,
+        success: row.success,
+        error: row.error,
+        postId: row.postId,
+        jobId: row.jobId,
+        userId: row.userId,
+        createdAt: row.createdAt.toISOString(),
+      })),
+    };
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Thrown before a provider call when the monthly or per-user AI budget is
+ * spent and SiteSettings.aiBudget.onExceeded is "block".
+ */
+export class AiBudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiBudgetExceededError';
+  }
+}
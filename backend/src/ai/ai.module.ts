@@ -1,9 +1,41 @@
 import { Module } from '@nestjs/common';
 import { AiService } from './ai.service';
+import { AiProviderRegistry } from './ai-provider.registry';
+import { EmbeddingService } from './embedding.service';
+import { EmbeddingProviderRegistry } from './embedding-provider.registry';
+import { AiUsageService } from './ai-usage.service';
+import { PromptTemplateService } from './prompt-template.service';
+import { PromptTemplateController } from './prompt-template.controller';
 import { OpenAiProvider } from './providers/openai.provider';
+import { CustomAiProvider } from './providers/custom.provider';
+import { LocalAiProvider } from './providers/local.provider';
+import { AnthropicProvider } from './providers/anthropic.provider';
+import { MockAiProvider } from './providers/mock.provider';
+import { BuiltinEmbeddingProvider } from './providers/builtin.embedding';
+import { OpenAiEmbeddingProvider } from './providers/openai.embedding';
+import { LocalEmbeddingProvider } from './providers/local.embedding';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
 
 @Module({
-  providers: [AiService, OpenAiProvider],
-  exports: [AiService],
+  imports: [PrismaModule, SettingsModule],
+  controllers: [PromptTemplateController],
+  providers: [
+    AiService,
+    AiUsageService,
+    PromptTemplateService,
+    AiProviderRegistry,
+    OpenAiProvider,
+    CustomAiProvider,
+    LocalAiProvider,
+    AnthropicProvider,
+    MockAiProvider,
+    EmbeddingService,
+    EmbeddingProviderRegistry,
+    BuiltinEmbeddingProvider,
+    OpenAiEmbeddingProvider,
+    LocalEmbeddingProvider,
+  ],
+  exports: [AiService, AiUsageService, PromptTemplateService, AiProviderRegistry, EmbeddingService],
 })
 export class AiModule {}
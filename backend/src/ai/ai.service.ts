@@ -1,42 +1,105 @@
-import { Injectable } from '@nestjs/common';
-import { OpenAiProvider } from './providers/openai.provider';
-
-interface BlogGenerationOptions {
-  minWords?: number;
-  maxWords?: number;
-  tone?: string;
-  keywords?: string[];
-}
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SettingsService } from '../settings/settings.service';
+import { AiProviderRegistry } from './ai-provider.registry';
+import { AiUsageService } from './ai-usage.service';
+import { AiBudgetExceededError } from './ai.errors';
+import { estimateTokens } from './ai-budget';
+import {
+  AI_TASKS,
+  AiCallContext,
+  AiProvider,
+  AiProviderOptions,
+  AiResponse,
+  AiTask,
+  AiTextStream,
+  AiTokenUsage,
+  BlockRevisionRequest,
+  BlockRevisionResult,
+  BlogGenerationOptions,
+  BlogGenerationResult,
+  DraftOutlineRequest,
+  DraftSectionRequest,
+  PostGenerationRequest,
+  SelectionEditRequest,
+} from './interfaces/ai-provider.interface';
 
-interface BlogGenerationResult {
-  title: string;
-  content: string;
-  excerpt: string;
-  metaDescription: string;
-  seoTitle: string;
-  keywords: string[];
-  tags: string[];
-}
+export const MOCK_PROVIDER_ID = 'mock';
+
+export type ResolvedAiProvider = {
+  provider: AiProvider;
+  options: AiProviderOptions;
+};
+
+// Per-provider entry of SiteSettings.aiConfig, as saved by the AI settings screen
+export type ProviderSettings = {
+  apiKey: string;
+  baseUrl: string;
+  defaultModel: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+export const findProviderSettings = (aiConfig: unknown, id: string): ProviderSettings => {
+  const entry = Array.isArray(aiConfig)
+    ? aiConfig.find((item) => isRecord(item) && item.id === id)
+    : undefined;
+  const data = isRecord(entry) ? entry : {};
+  return {
+    apiKey: readString(data.apiKey),
+    baseUrl: readString(data.baseUrl),
+    defaultModel: readString(data.defaultModel),
+  };
+};
+
+export const parseTaskModels = (value: unknown): Partial<Record<AiTask, string>> => {
+  const data = isRecord(value) ? value : {};
+  const models: Partial<Record<AiTask, string>> = {};
+  for (const task of AI_TASKS) {
+    const model = readString(data[task]);
+    if (model) models[task] = model;
+  }
+  return models;
+};
 
 @Injectable()
 export class AiService {
-  constructor(private provider: OpenAiProvider) {}
+  private readonly logger = new Logger(AiService.name);
 
-  async generatePost(topic: string) {
-    return this.provider.generatePost(topic);
+  constructor(
+    private registry: AiProviderRegistry,
+    private settingsService: SettingsService,
+    private config: ConfigService,
+    private usageService: AiUsageService,
+  ) {}
+
+  async generatePost(request: PostGenerationRequest, context: AiCallContext = {}) {
+    return this.run('generatePost', context, (provider, options) => provider.generatePost(request, options));
   }
 
-  async optimizeSeo(content: string) {
-    return this.provider.optimizeSeo(content);
+  async optimizeSeo(content: string, context: AiCallContext = {}) {
+    return this.run('optimizeSeo', context, (provider, options) => provider.optimizeSeo(content, options));
   }
 
   /**
    * Generate a comprehensive blog post with full SEO optimization
    */
-  async generateBlogPost(prompt: string, options: BlogGenerationOptions): Promise<BlogGenerationResult> {
+  async generateBlogPost(
+    prompt: string,
+    options: BlogGenerationOptions,
+    context: AiCallContext = {},
+  ): Promise<BlogGenerationResult> {
     try {
-      const result = await this.provider.generateBlogPost(prompt, options);
-      
+      const result = await this.run(
+        'generateBlogPost',
+        context,
+        (provider, resolved) => provider.generateBlogPost(prompt, options, resolved),
+      );
+
       // Validate the result has all required fields
       if (!result.title || !result.content) {
         throw new Error('AI did not return valid blog post structure');
@@ -44,7 +107,134 @@ export class AiService {
 
       return result;
     } catch (error) {
+      if (error instanceof AiBudgetExceededError) throw error;
       throw new Error(`Blog generation failed: ${error.message}`);
     }
   }
+
+  async reviseBlocks(request: BlockRevisionRequest, context: AiCallContext = {}): Promise<BlockRevisionResult> {
+    return this.run('reviseContent', context, (provider, options) => provider.reviseBlocks(request, options));
+  }
+
+  streamOutline(request: DraftOutlineRequest, context: AiCallContext = {}): AiTextStream {
+    return this.runStream('draftPost', context, (provider, options) => provider.streamOutline(request, options));
+  }
+
+  streamSection(request: DraftSectionRequest, context: AiCallContext = {}): AiTextStream {
+    return this.runStream('draftPost', context, (provider, options) => provider.streamSection(request, options));
+  }
+
+  streamEdit(request: SelectionEditRequest, context: AiCallContext = {}): AiTextStream {
+    return this.runStream('editSelection', context, (provider, options) => provider.streamEdit(request, options));
+  }
+
+  /**
+   * Pick the provider and model for a task.
+   * Provider: AI_PROVIDER=mock (forces offline mode) > SiteSettings.aiProvider.
+   * Model: SiteSettings.aiTaskModels[task] > provider's aiConfig defaultModel
+   *   > SiteSettings.aiModel > the adapter's default.
+   * API keys and base URLs come from aiConfig first, then the adapter's env vars.
+   * A provider that is missing its key falls back to the mock provider.
+   */
+  async resolve(task: AiTask): Promise<ResolvedAiProvider> {
+    const settings = await this.settingsService.getSettings();
+    const providerId = this.config.get<string>('AI_PROVIDER') === MOCK_PROVIDER_ID
+      ? MOCK_PROVIDER_ID
+      : settings.aiProvider || 'openai';
+
+    const provider = this.registry.get(providerId);
+    if (!provider) {
+      throw new Error(`Unknown AI provider "${providerId}"`);
+    }
+
+    const providerSettings = findProviderSettings(settings.aiConfig, providerId);
+    const options: AiProviderOptions = {
+      model: parseTaskModels(settings.aiTaskModels)[task]
+        || providerSettings.defaultModel
+        || settings.aiModel
+        || provider.defaultModel,
+      apiKey: providerSettings.apiKey || undefined,
+      baseUrl: providerSettings.baseUrl || undefined,
+    };
+
+    if (!provider.isConfigured(options)) {
+      this.logger.warn(`AI provider "${providerId}" is not configured. Using mock mode.`);
+      const mock = this.registry.get(MOCK_PROVIDER_ID);
+      return { provider: mock, options: { model: mock.defaultModel } };
+    }
+
+    return { provider, options };
+  }
+
+  /**
+   * Resolve the provider, apply the AI budget, then make the call and record
+   * it in the usage ledger whether it succeeds or fails.
+   * Budget refusals (AiBudgetExceededError) are thrown before any call is made.
+   */
+  private async run<T>(
+    task: AiTask,
+    context: AiCallContext,
+    call: (provider: AiProvider, options: AiProviderOptions) => Promise<AiResponse<T>>,
+  ): Promise<T> {
+    const { provider, options } = await this.resolve(task);
+    const budget = await this.usageService.getBudget();
+    const { model, requestedModel } = await this.usageService.applyBudget(provider.id, options.model, context, budget);
+
+    const entry = { ...context, task, provider: provider.id, model, requestedModel };
+    const startedAt = Date.now();
+    try {
+      const response = await call(provider, { ...options, model });
+      await this.usageService.record({ ...entry, usage: response.usage, latencyMs: Date.now() - startedAt }, budget);
+      return response.data;
+    } catch (error) {
+      await this.usageService.record({
+        ...entry,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      }, budget);
+      throw error;
+    }
+  }
+
+  /**
+   * Streaming counterpart of run(). The ledger row is written when the
+   * stream ends; if the consumer stops reading early the completion tokens
+   * are estimated from the text sent so far.
+   */
+  private async *runStream(
+    task: AiTask,
+    context: AiCallContext,
+    call: (provider: AiProvider, options: AiProviderOptions) => AiTextStream,
+  ): AiTextStream {
+    const { provider, options } = await this.resolve(task);
+    const budget = await this.usageService.getBudget();
+    const { model, requestedModel } = await this.usageService.applyBudget(provider.id, options.model, context, budget);
+
+    const entry = { ...context, task, provider: provider.id, model, requestedModel };
+    const startedAt = Date.now();
+    const stream = call(provider, { ...options, model });
+    let text = '';
+    let usage: AiTokenUsage | undefined;
+    let error: string | undefined;
+    try {
+      while (true) {
+        const next = await stream.next();
+        if (next.done === true) {
+          usage = next.value;
+          return usage;
+        }
+        text += next.value;
+        yield next.value;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      if (!usage && !error) {
+        await stream.return(undefined);
+        usage = { promptTokens: 0, completionTokens: estimateTokens(text), estimated: true };
+      }
+      await this.usageService.record({ ...entry, usage, latencyMs: Date.now() - startedAt, error }, budget);
+    }
+  }
 }
@@ -0,0 +1,34 @@
+import { IsIn, IsInt, IsNumber, IsObject, IsOptional, ValidateIf } from 'class-validator';
+import { AiBudgetAction, ModelPrice } from '../ai-budget';
+
+const isPresent = (_: unknown, value: unknown) => value !== null && value !== undefined;
+
+export class AiUsageReportQueryDto {
+  @IsOptional()
+  @IsInt()
+  days?: number;
+}
+
+/** Fields left out keep their current value; null removes a limit */
+export class UpdateAiBudgetDto {
+  @ValidateIf(isPresent)
+  @IsNumber()
+  monthlyLimit?: number | null;
+
+  @ValidateIf(isPresent)
+  @IsNumber()
+  perUserMonthlyLimit?: number | null;
+
+  @IsOptional()
+  @IsIn(['block', 'degrade'], { message: 'onExceeded must be "block" or "degrade"' })
+  onExceeded?: AiBudgetAction;
+
+  // Model per provider id; an empty string removes the provider's fallback
+  @IsOptional()
+  @IsObject()
+  fallbackModels?: Record<string, string>;
+
+  @IsOptional()
+  @IsObject()
+  pricing?: Record<string, ModelPrice>;
+}
@@ -0,0 +1,59 @@
+import { IsBoolean, IsNotEmpty, IsObject, IsOptional, IsString, ValidateIf } from 'class-validator';
+
+const isPresent = (_: unknown, value: unknown) => value !== null && value !== undefined;
+
+/** Length limits are applied by the service after trimming */
+export class CreatePromptVersionDto {
+  @IsString({ message: 'Prompt text is required' })
+  body: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  /** Defaults to true */
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean;
+}
+
+/** Fields left out keep their current value */
+export class UpdatePromptTemplateDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Template name is required' })
+  name?: string;
+
+  // null or '' clears the description
+  @ValidateIf(isPresent)
+  @IsString()
+  description?: string | null;
+
+  @IsOptional()
+  @IsString()
+  activeVersionId?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  abTestEnabled?: boolean;
+
+  // Version id to weight; both are checked against the template by the service
+  @IsOptional()
+  @IsObject({ message: 'trafficWeights must map version ids to weights' })
+  trafficWeights?: Record<string, number>;
+}
+
+/** Renders `body` when given, otherwise the chosen or active version */
+export class PreviewPromptDto {
+  @IsOptional()
+  @IsString()
+  body?: string;
+
+  @IsOptional()
+  @IsString()
+  versionId?: string;
+
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+}
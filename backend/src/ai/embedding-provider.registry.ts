@@ -0,0 +1,28 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EmbeddingProvider } from './interfaces/embedding-provider.interface';
+
+/**
+ * Embedding Provider Registry
+ * Maps SiteSettings.embeddingProvider to its adapter. Adapters register
+ * themselves on module init, the same way as AiProviderRegistry.
+ */
+@Injectable()
+export class EmbeddingProviderRegistry {
+  private readonly logger = new Logger(EmbeddingProviderRegistry.name);
+  private readonly providers = new Map<string, EmbeddingProvider>();
+
+  register(provider: EmbeddingProvider) {
+    if (this.providers.has(provider.id)) {
+      this.logger.warn(`Embedding provider ${provider.id} replaced`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): EmbeddingProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): EmbeddingProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
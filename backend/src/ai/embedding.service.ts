@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SettingsService } from '../settings/settings.service';
+import { EmbeddingProviderRegistry } from './embedding-provider.registry';
+import { MOCK_PROVIDER_ID, findProviderSettings } from './ai.service';
+import { AiProviderOptions } from './interfaces/ai-provider.interface';
+import { EmbeddingProvider } from './interfaces/embedding-provider.interface';
+
+export const BUILTIN_EMBEDDING_PROVIDER_ID = 'builtin';
+/** Use the embedding model of the configured AI provider, or OpenAI's, before the builtin one */
+export const AUTO_EMBEDDING_PROVIDER_ID = 'auto';
+// Tried by auto after the chat provider; local is only used when it is the chat provider
+const AUTO_FALLBACK_PROVIDER_ID = 'openai';
+
+export type ResolvedEmbeddingProvider = {
+  provider: EmbeddingProvider;
+  options: AiProviderOptions;
+};
+
+@Injectable()
+export class EmbeddingService {
+  private readonly logger = new Logger(EmbeddingService.name);
+
+  constructor(
+    private registry: EmbeddingProviderRegistry,
+    private settingsService: SettingsService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * Pick the embedding adapter from SiteSettings.embeddingProvider.
+   * With `auto` (the default) that is the embedding model of the chat
+   * provider (SiteSettings.aiProvider) when it has one, then OpenAI's; the
+   * builtin lexical embeddings are only the fallback when neither has a key.
+   * The model is SiteSettings.embeddingModel or the adapter's default; API
+   * keys and base URLs are shared with the chat provider of the same id in
+   * aiConfig. A provider that is missing its key falls back to the builtin one.
+   */
+  async resolve(): Promise<ResolvedEmbeddingProvider> {
+    const settings = await this.settingsService.getSettings();
+    const providerId = settings.embeddingProvider || AUTO_EMBEDDING_PROVIDER_ID;
+
+    if (providerId === AUTO_EMBEDDING_PROVIDER_ID) {
+      const offline = this.config.get<string>('AI_PROVIDER') === MOCK_PROVIDER_ID;
+      const candidates = offline ? [] : [...new Set([settings.aiProvider, AUTO_FALLBACK_PROVIDER_ID])];
+      for (const candidate of candidates) {
+        const provider = this.registry.get(candidate);
+        if (!provider) continue;
+        const options = this.optionsFor(provider, settings.aiConfig, settings.embeddingModel);
+        if (provider.isConfigured(options)) return { provider, options };
+      }
+      return this.builtin();
+    }
+
+    const provider = this.registry.get(providerId);
+    if (!provider) {
+      throw new Error(`Unknown embedding provider "${providerId}"`);
+    }
+
+    const options = this.optionsFor(provider, settings.aiConfig, settings.embeddingModel);
+    if (!provider.isConfigured(options)) {
+      this.logger.warn(`Embedding provider "${providerId}" is not configured. Using builtin embeddings.`);
+      return this.builtin();
+    }
+
+    return { provider, options };
+  }
+
+  private optionsFor(provider: EmbeddingProvider, aiConfig: unknown, model: string | null): AiProviderOptions {
+    const providerSettings = findProviderSettings(aiConfig, provider.id);
+    return {
+      model: model?.trim() || provider.defaultModel,
+      apiKey: providerSettings.apiKey || undefined,
+      baseUrl: providerSettings.baseUrl || undefined,
+    };
+  }
+
+  private builtin(): ResolvedEmbeddingProvider {
+    const builtin = this.registry.get(BUILTIN_EMBEDDING_PROVIDER_ID);
+    return { provider: builtin, options: { model: builtin.defaultModel } };
+  }
+}
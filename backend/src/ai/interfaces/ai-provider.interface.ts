@@ -1,7 +1,109 @@
 
+/** AiService operations that can be given their own model in SiteSettings.aiTaskModels */
+export type AiTask = 'generatePost' | 'generateBlogPost' | 'optimizeSeo' | 'draftPost' | 'editSelection' | 'reviseContent';
+
+export const AI_TASKS: AiTask[] = ['generatePost', 'generateBlogPost', 'optimizeSeo', 'draftPost', 'editSelection', 'reviseContent'];
+
+/** Connection details resolved from SiteSettings and env for a single call */
+export interface AiProviderOptions {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/** Where a call came from, recorded in the AiUsage ledger */
+export interface AiCallContext {
+  userId?: string;
+  postId?: string;
+  jobId?: string;
+}
+
+export interface AiTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** True when the provider reported no usage and the counts were estimated from text length */
+  estimated?: boolean;
+}
+
+export interface AiResponse<T> {
+  data: T;
+  usage: AiTokenUsage;
+}
+
 export interface AiProvider {
-  generatePost(topic: string): Promise<GeneratedPostContent>;
-  optimizeSeo(content: string): Promise<SeoOptimizationResult>;
+  /** Value stored in SiteSettings.aiProvider */
+  readonly id: string;
+  /** Model used when neither the task, the provider config nor SiteSettings.aiModel names one */
+  readonly defaultModel: string;
+
+  /** False when a required API key or endpoint is missing */
+  isConfigured(options: AiProviderOptions): boolean;
+  generatePost(request: PostGenerationRequest, options: AiProviderOptions): Promise<AiResponse<GeneratedPostContent>>;
+  optimizeSeo(content: string, options: AiProviderOptions): Promise<AiResponse<SeoOptimizationResult>>;
+  generateBlogPost(
+    prompt: string,
+    generation: BlogGenerationOptions,
+    options: AiProviderOptions,
+  ): Promise<AiResponse<BlogGenerationResult>>;
+  /** Rewrite selected blocks of a post to address reviewer feedback */
+  reviseBlocks(request: BlockRevisionRequest, options: AiProviderOptions): Promise<AiResponse<BlockRevisionResult>>;
+
+  /**
+   * Streaming methods yield text as it arrives and return the token usage
+   * when the stream ends. Aborting `request.signal` ends the stream early.
+   */
+  streamOutline(request: DraftOutlineRequest, options: AiProviderOptions): AiTextStream;
+  streamSection(request: DraftSectionRequest, options: AiProviderOptions): AiTextStream;
+  streamEdit(request: SelectionEditRequest, options: AiProviderOptions): AiTextStream;
+}
+
+export type AiTextStream = AsyncGenerator<string, AiTokenUsage, undefined>;
+
+export interface DraftOutlineRequest {
+  topic: string;
+  keywords: string[];
+  signal?: AbortSignal;
+}
+
+export interface DraftSectionRequest {
+  topic: string;
+  /** H2 heading of the section to write */
+  heading: string;
+  /** Every heading of the draft, so the section does not repeat its neighbours */
+  outline: string[];
+  instructions?: string;
+  signal?: AbortSignal;
+}
+
+export type SelectionEditAction = 'expand' | 'shorten' | 'rewrite';
+
+export const SELECTION_EDIT_ACTIONS: SelectionEditAction[] = ['expand', 'shorten', 'rewrite'];
+
+export interface SelectionEditRequest {
+  action: SelectionEditAction;
+  /** Selected HTML from the editor */
+  html: string;
+  topic?: string;
+  signal?: AbortSignal;
+}
+
+export interface PostGenerationRequest {
+  topic: string;
+  /** Rendered "generatePost" prompt template; the provider appends the output format */
+  prompt: string;
+}
+
+export interface BlockRevisionRequest {
+  title: string;
+  /** Reviewer notes that apply to the whole post */
+  notes?: string;
+  /** Top-level HTML blocks of the post (see blog/html-blocks.ts) and the feedback on each */
+  blocks: Array<{ index: number; html: string; feedback: string[] }>;
+}
+
+export interface BlockRevisionResult {
+  /** Only blocks from the request; a block the model skipped is left unchanged */
+  blocks: Array<{ index: number; html: string }>;
 }
 
 export interface GeneratedPostContent {
@@ -17,3 +119,20 @@ export interface SeoOptimizationResult {
   score: number;
   suggestions: string[];
 }
+
+export interface BlogGenerationOptions {
+  minWords?: number;
+  maxWords?: number;
+  tone?: string;
+  keywords?: string[];
+}
+
+export interface BlogGenerationResult {
+  title: string;
+  content: string;
+  excerpt: string;
+  metaDescription: string;
+  seoTitle: string;
+  keywords: string[];
+  tags: string[];
+}
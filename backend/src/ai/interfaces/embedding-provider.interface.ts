@@ -0,0 +1,14 @@
+import { AiProviderOptions } from './ai-provider.interface';
+
+/** Turns text into vectors for semantic similarity (related posts, interlinking) */
+export interface EmbeddingProvider {
+  /** Value stored in SiteSettings.embeddingProvider */
+  readonly id: string;
+  /** Model used when SiteSettings.embeddingModel is empty */
+  readonly defaultModel: string;
+
+  /** False when a required API key or endpoint is missing */
+  isConfigured(options: AiProviderOptions): boolean;
+  /** One unit-length vector per text, in the same order */
+  embed(texts: string[], options: AiProviderOptions): Promise<number[][]>;
+}
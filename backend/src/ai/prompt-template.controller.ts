@@ -0,0 +1,39 @@
+import { Body, Controller, Get, Param, Post, Put, Request, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import { PromptTemplateService } from './prompt-template.service';
+import { CreatePromptVersionDto, PreviewPromptDto, UpdatePromptTemplateDto } from './dto/prompt-template.dto';
+
+@Controller('ai/prompts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+export class PromptTemplateController {
+  constructor(private readonly promptTemplateService: PromptTemplateService) {}
+
+  @Get()
+  list() {
+    return this.promptTemplateService.list();
+  }
+
+  @Get(':id')
+  getTemplate(@Param('id') id: string) {
+    return this.promptTemplateService.getTemplate(id);
+  }
+
+  @Put(':id')
+  updateTemplate(@Param('id') id: string, @Body() dto: UpdatePromptTemplateDto) {
+    return this.promptTemplateService.updateTemplate(id, dto);
+  }
+
+  @Post(':id/versions')
+  createVersion(@Param('id') id: string, @Body() dto: CreatePromptVersionDto, @Request() req: AuthenticatedRequest) {
+    return this.promptTemplateService.createVersion(id, dto, req.user.id);
+  }
+
+  @Post(':id/preview')
+  preview(@Param('id') id: string, @Body() dto: PreviewPromptDto) {
+    return this.promptTemplateService.preview(id, dto);
+  }
+}
@@ -0,0 +1,317 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, PromptTemplate, PromptVersion } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { CreatePromptVersionDto, PreviewPromptDto, UpdatePromptTemplateDto } from './dto/prompt-template.dto';
+import {
+  DEFAULT_PROMPTS,
+  PROMPT_KEYS,
+  PromptKey,
+  SAMPLE_VARIABLES,
+  SETTINGS_VARIABLES,
+  listVariables,
+  pickWeighted,
+  renderPrompt,
+} from './prompt-template';
+
+const MAX_BODY_LENGTH = 20_000;
+const MAX_TRAFFIC_WEIGHT = 100;
+
+export type RenderedPrompt = {
+  prompt: string;
+  /** Null when the template could not be loaded and the built-in default was used */
+  versionId: string | null;
+};
+
+type VersionOutcomeRow = {
+  versionId: string;
+  posts: number;
+  pending: number;
+  approved: number;
+  rejected: number;
+  avgSeoScore: number | null;
+};
+
+type TemplateWithVersions = PromptTemplate & { versions: PromptVersion[] };
+
+const optionalText = (value: string | null | undefined, maxLength: number): string | undefined => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : undefined;
+};
+
+const isPromptKey = (value: string): value is PromptKey => (PROMPT_KEYS as string[]).includes(value);
+
+/**
+ * Prompt templates stored in the database with immutable versions.
+ * The built-in prompts are created as version 1 the first time a template
+ * is needed. With A/B testing on, each render picks a version by
+ * trafficWeight and the generated post records it (Post.promptVersionId).
+ */
+@Injectable()
+export class PromptTemplateService {
+  private readonly logger = new Logger(PromptTemplateService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+  ) {}
+
+  async list() {
+    await this.ensureDefaults();
+    const templates = await this.prisma.promptTemplate.findMany({
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { versions: true } } },
+    });
+    return templates.map(({ _count, ...template }) => ({
+      ...template,
+      versionCount: _count.versions,
+      variables: this.variablesFor(template.key),
+    }));
+  }
+
+  async getTemplate(id: string) {
+    const template = await this.getTemplateOrFail(id);
+    const outcomes = await this.getOutcomes(template.versions.map((version) => version.id));
+
+    return {
+      ...template,
+      variables: this.variablesFor(template.key),
+      versions: template.versions.map((version) => {
+        const outcome = outcomes.get(version.id);
+        const reviewed = (outcome?.approved ?? 0) + (outcome?.rejected ?? 0);
+        return {
+          ...version,
+          active: version.id === template.activeVersionId,
+          outcomes: {
+            posts: outcome?.posts ?? 0,
+            pendingReview: outcome?.pending ?? 0,
+            approved: outcome?.approved ?? 0,
+            rejected: outcome?.rejected ?? 0,
+            approvalRate: reviewed > 0 ? Math.round(((outcome?.approved ?? 0) / reviewed) * 1000) / 10 : null,
+            avgSeoScore: outcome?.avgSeoScore === null || outcome?.avgSeoScore === undefined
+              ? null
+              : Math.round(outcome.avgSeoScore * 10) / 10,
+          },
+        };
+      }),
+    };
+  }
+
+  /** Save an edited prompt as the next version; it becomes active unless `activate` is false */
+  async createVersion(id: string, body: CreatePromptVersionDto, userId?: string) {
+    const text = body.body.trim();
+    if (!text) {
+      throw new BadRequestException('Prompt text is required');
+    }
+    if (text.length > MAX_BODY_LENGTH) {
+      throw new BadRequestException(`Prompt text must be at most ${MAX_BODY_LENGTH} characters`);
+    }
+
+    const template = await this.getTemplateOrFail(id);
+    const latest = template.versions[0]?.version ?? 0;
+    const version = await this.prisma.promptVersion.create({
+      data: {
+        templateId: template.id,
+        version: latest + 1,
+        body: text,
+        notes: optionalText(body.notes, 500),
+        createdById: userId,
+      },
+    });
+
+    if (body.activate !== false) {
+      await this.prisma.promptTemplate.update({
+        where: { id: template.id },
+        data: { activeVersionId: version.id },
+      });
+    }
+    this.logger.log(`Prompt template "${template.key}" saved as version ${version.version}`);
+    return this.getTemplate(template.id);
+  }
+
+  /** Name, description, active version, A/B switch and per-version traffic weights */
+  async updateTemplate(id: string, body: UpdatePromptTemplateDto) {
+    const template = await this.getTemplateOrFail(id);
+    const versionIds = new Set(template.versions.map((version) => version.id));
+
+    const data: Prisma.PromptTemplateUpdateInput = {};
+    if (body.name !== undefined) {
+      const name = optionalText(body.name, 100);
+      if (!name) throw new BadRequestException('Template name is required');
+      data.name = name;
+    }
+    if (body.description !== undefined) {
+      data.description = optionalText(body.description, 500) ?? null;
+    }
+    if (body.activeVersionId !== undefined) {
+      if (!versionIds.has(body.activeVersionId)) {
+        throw new BadRequestException('Active version must belong to this template');
+      }
+      data.activeVersionId = body.activeVersionId;
+    }
+    if (body.abTestEnabled !== undefined) {
+      data.abTestEnabled = body.abTestEnabled;
+    }
+
+    const weights: Array<[string, number]> = [];
+    if (body.trafficWeights) {
+      for (const [versionId, weight] of Object.entries(body.trafficWeights)) {
+        if (!versionIds.has(versionId)) {
+          throw new BadRequestException(`Version ${versionId} does not belong to this template`);
+        }
+        if (!Number.isInteger(weight) || weight < 0 || weight > MAX_TRAFFIC_WEIGHT) {
+          throw new BadRequestException(`Traffic weights must be whole numbers from 0 to ${MAX_TRAFFIC_WEIGHT}`);
+        }
+        weights.push([versionId, weight]);
+      }
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.promptTemplate.update({ where: { id: template.id }, data }),
+      ...weights.map(([versionId, trafficWeight]) => this.prisma.promptVersion.update({
+        where: { id: versionId },
+        data: { trafficWeight },
+      })),
+    ]);
+
+    const updated = await this.getTemplate(template.id);
+    if (updated.abTestEnabled && !updated.versions.some((version) => version.trafficWeight > 0)) {
+      this.logger.warn(`A/B test on "${updated.key}" has no weighted versions; the active version is used`);
+    }
+    return updated;
+  }
+
+  /**
+   * Render a version, or unsaved text from the editor, with sample input.
+   * Settings variables come from SiteSettings; the rest fall back to SAMPLE_VARIABLES.
+   */
+  async preview(id: string, input: PreviewPromptDto) {
+    const template = await this.getTemplateOrFail(id);
+
+    let text = input.body ?? '';
+    if (!text) {
+      const versionId = input.versionId ?? template.activeVersionId;
+      text = template.versions.find((version) => version.id === versionId)?.body ?? template.versions[0]?.body ?? '';
+    }
+
+    const overrides: Record<string, string> = {};
+    if (input.variables) {
+      for (const [name, value] of Object.entries(input.variables)) {
+        if (typeof value === 'string' && value.trim()) overrides[name] = value;
+      }
+    }
+
+    const variables = { ...SAMPLE_VARIABLES, ...(await this.getSettingsVariables()), ...overrides };
+    const { prompt, missing } = renderPrompt(text, variables);
+    const known = new Set(this.variablesFor(template.key));
+    return {
+      prompt,
+      variables,
+      used: listVariables(text),
+      missing,
+      unknown: listVariables(text).filter((name) => !known.has(name)),
+    };
+  }
+
+  /**
+   * Build the prompt for a generation. Falls back to the built-in prompt if
+   * the templates cannot be loaded so generation keeps working.
+   */
+  async render(key: PromptKey, variables: Record<string, string>): Promise<RenderedPrompt> {
+    const values = { ...(await this.getSettingsVariables()), ...variables };
+    try {
+      const template = await this.ensureTemplate(key);
+      const version = this.chooseVersion(template);
+      if (version) {
+        return { prompt: renderPrompt(version.body, values).prompt, versionId: version.id };
+      }
+    } catch (error) {
+      this.logger.error(`Failed to load prompt template "${key}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { prompt: renderPrompt(DEFAULT_PROMPTS[key].body, values).prompt, versionId: null };
+  }
+
+  private chooseVersion(template: TemplateWithVersions): PromptVersion | null {
+    if (template.abTestEnabled) {
+      const picked = pickWeighted(template.versions);
+      if (picked) return picked;
+    }
+    return template.versions.find((version) => version.id === template.activeVersionId) ?? template.versions[0] ?? null;
+  }
+
+  private variablesFor(key: string): string[] {
+    const own = isPromptKey(key) ? DEFAULT_PROMPTS[key].variables : [];
+    return [...own, ...SETTINGS_VARIABLES];
+  }
+
+  // Defaults mirror the fallbacks the prompts used before they were editable
+  private async getSettingsVariables(): Promise<Record<string, string>> {
+    const settings = await this.settingsService.getSettings();
+    return {
+      siteKeywords: (settings.siteKeywords ?? []).join(', '),
+      targetAudience: settings.targetAudience || 'Homeowners and businesses seeking professional painting services',
+      contentTone: settings.contentTone || 'professional, informative, and engaging',
+      contentFocus: settings.contentFocus || 'wall painting services',
+    };
+  }
+
+  private async getOutcomes(versionIds: string[]): Promise<Map<string, VersionOutcomeRow>> {
+    if (versionIds.length === 0) return new Map();
+    // Approval counts only posts from the AI review workflow (aiGenerated);
+    // queued generations are saved as plain drafts and never reviewed
+    const rows = await this.prisma.$queryRaw<VersionOutcomeRow[]>`
+      SELECT "promptVersionId" AS "versionId",
+             COUNT(*)::int AS posts,
+             COUNT(*) FILTER (WHERE "aiGenerated" AND status = 'AI_REVIEW')::int AS pending,
+             COUNT(*) FILTER (WHERE "aiGenerated" AND status IN ('APPROVED_DRAFT', 'SCHEDULED', 'PUBLISHED'))::int AS approved,
+             COUNT(*) FILTER (WHERE "aiGenerated" AND status IN ('DRAFT', 'ARCHIVED'))::int AS rejected,
+             AVG(("aiMetadata"->>'seoAuditScore')::float)::float AS "avgSeoScore"
+      FROM "Post"
+      WHERE "promptVersionId" IN (${Prisma.join(versionIds)})
+      GROUP BY 1
+    `;
+    return new Map(rows.map((row) => [row.versionId, row]));
+  }
+
+  private async getTemplateOrFail(id: string): Promise<TemplateWithVersions> {
+    const template = await this.prisma.promptTemplate.findUnique({
+      where: { id },
+      include: { versions: { orderBy: { version: 'desc' } } },
+    });
+    if (!template) {
+      throw new NotFoundException('Prompt template not found');
+    }
+    return template;
+  }
+
+  private async ensureDefaults() {
+    for (const key of PROMPT_KEYS) {
+      await this.ensureTemplate(key);
+    }
+  }
+
+  private async ensureTemplate(key: PromptKey): Promise<TemplateWithVersions> {
+    const include = { versions: { orderBy: { version: 'desc' as const } } };
+    const existing = await this.prisma.promptTemplate.findUnique({ where: { key }, include });
+    if (existing) return existing;
+
+    const definition = DEFAULT_PROMPTS[key];
+    const created = await this.prisma.promptTemplate.upsert({
+      where: { key },
+      create: {
+        key,
+        name: definition.name,
+        description: definition.description,
+        versions: { create: { version: 1, body: definition.body, notes: 'Built-in prompt' } },
+      },
+      update: {},
+      include,
+    });
+    if (created.activeVersionId || created.versions.length === 0) return created;
+    return this.prisma.promptTemplate.update({
+      where: { id: created.id },
+      data: { activeVersionId: created.versions[created.versions.length - 1].id },
+      include,
+    });
+  }
+}
@@ -0,0 +1,112 @@
+/** Places in the code that build a prompt from a PromptTemplate */
+export type PromptKey = 'blogPost' | 'generatePost';
+
+export const PROMPT_KEYS: PromptKey[] = ['blogPost', 'generatePost'];
+
+export type PromptDefinition = {
+  name: string;
+  description: string;
+  /** Variables the caller fills in; settings variables are always available */
+  variables: string[];
+  body: string;
+};
+
+/** Filled from SiteSettings on every render */
+export const SETTINGS_VARIABLES = ['siteKeywords', 'targetAudience', 'contentTone', 'contentFocus'];
+
+// Used by the preview screen when the admin leaves a variable empty
+export const SAMPLE_VARIABLES: Record<string, string> = {
+  topic: 'interior wall painting',
+  keywords: 'interior wall painting, paint finishes, colour selection',
+  minWords: '3000',
+  modeBlock: 'AI MODE: STANDARD\nSTANDARD MODE: balanced SEO coverage with practical guidance and clarity.',
+};
+
+// Version 1 of each template. The JSON output format is appended in code so
+// an edited prompt cannot break response parsing.
+export const DEFAULT_PROMPTS: Record<PromptKey, PromptDefinition> = {
+  blogPost: {
+    name: 'Blog post generation',
+    description: 'Scheduled and batch generation of long-form posts that go to AI review.',
+    variables: ['topic', 'keywords', 'minWords', 'modeBlock'],
+    body: `You are an expert content writer for a {{contentFocus}} website.
+
+TARGET AUDIENCE: {{targetAudience}}
+TONE: {{contentTone}}
+KEYWORDS: {{keywords}}
+{{modeBlock}}
+
+Write a comprehensive, SEO-optimized blog post (minimum {{minWords}} words) that:
+
+1. TITLE: Create an engaging, keyword-rich title (60-70 characters)
+2. STRUCTURE:
+   - Introduction (2-3 paragraphs)
+   - 5-7 main sections with H2 headings
+   - Each section should have 3-5 paragraphs with H3 subheadings
+   - Include bullet points and numbered lists where appropriate
+   - Conclusion with clear call-to-action
+
+3. CONTENT REQUIREMENTS:
+   - Natural keyword integration (don't stuff)
+   - Practical examples and actionable advice
+   - Address common questions and concerns
+   - Include statistics or data points when relevant
+   - Write in an authoritative but accessible style
+
+4. SEO ELEMENTS:
+   - Meta description (150-160 characters)
+   - 5-10 relevant keywords
+   - Suggest 5-8 tags
+
+Focus on providing genuine value to readers while naturally incorporating these keywords: {{keywords}}`,
+  },
+  generatePost: {
+    name: 'Queued post generation',
+    description: 'Posts requested from the AI Content Generation screen, saved as drafts.',
+    variables: ['topic'],
+    body: `Write a comprehensive, SEO-optimized blog post about "{{topic}}".
+Write for {{targetAudience}} in a {{contentTone}} tone.`,
+  },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+
+/** Variable names used in a template body, in order of first use */
+export function listVariables(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Replace {{name}} placeholders. Variables without a value render as an
+ * empty string and are reported in `missing`.
+ */
+export function renderPrompt(body: string, variables: Record<string, string>): { prompt: string; missing: string[] } {
+  const missing = new Set<string>();
+  const prompt = body.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const value = variables[name];
+    if (value === undefined || value === '') {
+      missing.add(name);
+      return '';
+    }
+    return value;
+  });
+  return { prompt, missing: Array.from(missing) };
+}
+
+/** Weighted random choice; returns null when no option has a positive weight */
+export function pickWeighted<T extends { trafficWeight: number }>(options: T[], random = Math.random()): T | null {
+  const eligible = options.filter((option) => option.trafficWeight > 0);
+  const total = eligible.reduce((sum, option) => sum + option.trafficWeight, 0);
+  if (total <= 0) return null;
+
+  let threshold = random * total;
+  for (const option of eligible) {
+    threshold -= option.trafficWeight;
+    if (threshold < 0) return option;
+  }
+  return eligible[eligible.length - 1];
+}
@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import { AiProviderOptions, AiTextStream } from '../interfaces/ai-provider.interface';
+import { ChatAiProvider, ChatCompletion, ChatRequest, ChatStreamRequest } from './chat.provider';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+const MAX_OUTPUT_TOKENS = 8192;
+
+type MessagesResponse = {
+  content?: Array<{ type?: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+};
+
+type MessageStreamEvent = {
+  type?: string;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+};
+
+@Injectable()
+export class AnthropicProvider extends ChatAiProvider {
+  readonly id = 'anthropic';
+  readonly defaultModel = 'claude-3-5-sonnet-latest';
+
+  isConfigured(options: AiProviderOptions): boolean {
+    return Boolean(this.getApiKey(options));
+  }
+
+  private getApiKey(options: AiProviderOptions): string {
+    return options.apiKey || this.config.get<string>('ANTHROPIC_API_KEY') || '';
+  }
+
+  private getBaseUrl(options: AiProviderOptions): string {
+    return (options.baseUrl || 'https://api.anthropic.com/v1').replace(/\/+$/, '');
+  }
+
+  private getHeaders(options: AiProviderOptions): Record<string, string> {
+    return {
+      'x-api-key': this.getApiKey(options),
+      'anthropic-version': ANTHROPIC_VERSION,
+    };
+  }
+
+  protected async complete(request: ChatRequest, options: AiProviderOptions): Promise<ChatCompletion> {
+    const data = await this.postJson(
+      `${this.getBaseUrl(options)}/messages`,
+      this.getHeaders(options),
+      {
+        model: options.model,
+        max_tokens: Math.min(request.maxTokens ?? DEFAULT_MAX_TOKENS, MAX_OUTPUT_TOKENS),
+        system: 'Reply with a single JSON object and nothing else.',
+        messages: [{ role: 'user', content: request.prompt }],
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      },
+    ) as MessagesResponse;
+
+    const text = (data.content ?? [])
+      .filter((block) => block.type === 'text' && typeof block.text === 'string')
+      .map((block) => block.text)
+      .join('');
+    if (!text) {
+      throw new Error('anthropic returned an empty message');
+    }
+    return {
+      text,
+      usage: this.toUsage(request.prompt, text, data.usage?.input_tokens, data.usage?.output_tokens),
+    };
+  }
+
+  protected async *streamComplete(request: ChatStreamRequest, options: AiProviderOptions): AiTextStream {
+    const events = this.postEventStream(
+      `${this.getBaseUrl(options)}/messages`,
+      this.getHeaders(options),
+      {
+        model: options.model,
+        max_tokens: Math.min(request.maxTokens ?? DEFAULT_MAX_TOKENS, MAX_OUTPUT_TOKENS),
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: true,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      },
+      request.signal,
+    );
+
+    let text = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    for await (const data of events) {
+      const event = JSON.parse(data) as MessageStreamEvent;
+      if (event.type === 'error') {
+        throw new Error(`anthropic stream error: ${event.error?.message ?? 'unknown error'}`);
+      }
+      if (event.type === 'message_start') {
+        inputTokens = event.message?.usage?.input_tokens;
+        outputTokens = event.message?.usage?.output_tokens;
+      } else if (event.type === 'message_delta' && event.usage?.output_tokens !== undefined) {
+        // Cumulative count for the whole message
+        outputTokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        text += event.delta.text;
+        yield event.delta.text;
+      }
+    }
+    return this.toUsage(request.prompt, text, inputTokens, outputTokens);
+  }
+}
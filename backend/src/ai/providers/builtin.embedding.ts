@@ -0,0 +1,89 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { EmbeddingProvider } from '../interfaces/embedding-provider.interface';
+import { EmbeddingProviderRegistry } from '../embedding-provider.registry';
+import { normalizeVector } from '../embedding-math';
+
+const DIMENSIONS = 512;
+// Word pairs carry phrase meaning ("exterior paint") but are noisier than single words
+const BIGRAM_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'all', 'also', 'and', 'any', 'are', 'because', 'been',
+  'before', 'being', 'below', 'between', 'both', 'but', 'can', 'could', 'did', 'does', 'doing', 'down',
+  'during', 'each', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'her', 'here', 'him', 'his',
+  'how', 'into', 'its', 'just', 'more', 'most', 'not', 'now', 'off', 'once', 'only', 'other', 'our', 'out',
+  'over', 'own', 'same', 'she', 'should', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'very', 'was', 'were',
+  'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+/** Crude suffix stripping so "painting", "painted" and "paints" share a bucket */
+const stem = (word: string): string => {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.length > suffix.length + 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+};
+
+const tokenize = (text: string): string[] => (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+  .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  .map(stem);
+
+/** 32-bit FNV-1a */
+const hash = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * In-process embeddings that need no model download or external service:
+ * stemmed words and word pairs are hashed into a fixed-size vector with
+ * log-scaled counts. Similarity is lexical rather than truly semantic, so
+ * use the local or OpenAI provider when a real embedding model is available.
+ */
+@Injectable()
+export class BuiltinEmbeddingProvider implements EmbeddingProvider, OnModuleInit {
+  readonly id: string = 'builtin';
+  readonly defaultModel: string = `hashed-bow-${DIMENSIONS}`;
+
+  constructor(private registry: EmbeddingProviderRegistry) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    const words = tokenize(text);
+    words.forEach((word, index) => {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+      if (index > 0) {
+        const pair = `${words[index - 1]} ${word}`;
+        counts.set(pair, (counts.get(pair) ?? 0) + BIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    counts.forEach((count, feature) => {
+      const h = hash(feature);
+      // A sign bit keeps colliding features from always adding up
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % DIMENSIONS] += sign * (1 + Math.log(count));
+    });
+    return normalizeVector(vector);
+  }
+}
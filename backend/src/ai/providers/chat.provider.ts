@@ -0,0 +1,305 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AiProvider,
+  AiProviderOptions,
+  AiResponse,
+  AiTextStream,
+  AiTokenUsage,
+  BlockRevisionRequest,
+  BlockRevisionResult,
+  BlogGenerationOptions,
+  BlogGenerationResult,
+  DraftOutlineRequest,
+  DraftSectionRequest,
+  GeneratedPostContent,
+  PostGenerationRequest,
+  SelectionEditAction,
+  SelectionEditRequest,
+  SeoOptimizationResult,
+} from '../interfaces/ai-provider.interface';
+import { AiProviderRegistry } from '../ai-provider.registry';
+import { estimateTokens } from '../ai-budget';
+
+export const AI_REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Long articles are cut before SEO review so the prompt stays within context limits
+const SEO_REVIEW_MAX_CHARS = 12_000;
+
+const DRAFT_HTML_RULES = 'Reply with HTML only (p, h3, ul, ol, li, strong, em), no code fences and no commentary.';
+
+const SELECTION_EDIT_INSTRUCTIONS: Record<SelectionEditAction, string> = {
+  expand: 'Expand the passage below with more detail, examples and practical advice. Roughly double its length.',
+  shorten: 'Shorten the passage below to about half its length, keeping the key points.',
+  rewrite: 'Rewrite the passage below so it reads more clearly. Keep the meaning and roughly the same length.',
+};
+
+export type ChatRequest = {
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export type ChatCompletion = {
+  text: string;
+  usage: AiTokenUsage;
+};
+
+/** Settings for a streamed reply; streams are plain text, not JSON */
+export type ChatStreamRequest = ChatRequest & {
+  signal?: AbortSignal;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readStrings = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+/**
+ * Base for providers that are reached through a chat completion endpoint.
+ * Prompts and response parsing live here; adapters only implement the
+ * HTTP call and return the raw text of the reply.
+ */
+@Injectable()
+export abstract class ChatAiProvider implements AiProvider, OnModuleInit {
+  abstract readonly id: string;
+  abstract readonly defaultModel: string;
+
+  protected readonly logger = new Logger(this.constructor.name);
+
+  constructor(
+    protected config: ConfigService,
+    private registry: AiProviderRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  abstract isConfigured(options: AiProviderOptions): boolean;
+
+  /** Send one user message and return the reply text, which should be a JSON object */
+  protected abstract complete(request: ChatRequest, options: AiProviderOptions): Promise<ChatCompletion>;
+
+  /** Send one user message and yield the reply text as the provider streams it */
+  protected abstract streamComplete(request: ChatStreamRequest, options: AiProviderOptions): AiTextStream;
+
+  async generatePost(request: PostGenerationRequest, options: AiProviderOptions): Promise<AiResponse<GeneratedPostContent>> {
+    this.logger.log(`[${this.id.toUpperCase()}] Generating post for topic: ${request.topic} (${options.model})`);
+    const prompt = `${request.prompt.trim()}
+Return JSON with fields: title, content (HTML h2/p), summary, tags (array of strings), seoTitle, seoDescription.`;
+
+    const completion = await this.complete({ prompt }, options);
+    const result = this.parseJson(completion.text);
+    return {
+      data: {
+        title: readString(result.title),
+        content: readString(result.content),
+        summary: readString(result.summary) || readString(result.seoDescription),
+        tags: readStrings(result.tags),
+        seoTitle: readString(result.seoTitle),
+        seoDescription: readString(result.seoDescription),
+      },
+      usage: completion.usage,
+    };
+  }
+
+  async optimizeSeo(content: string, options: AiProviderOptions): Promise<AiResponse<SeoOptimizationResult>> {
+    const prompt = `Review the following HTML article for on-page SEO.
+Return JSON with fields: score (integer 0-100), suggestions (array of short, actionable strings).
+
+${content.slice(0, SEO_REVIEW_MAX_CHARS)}`;
+
+    const completion = await this.complete({ prompt, temperature: 0.2 }, options);
+    const result = this.parseJson(completion.text);
+    const score = typeof result.score === 'number' && Number.isFinite(result.score) ? result.score : 0;
+    return {
+      data: {
+        score: Math.max(0, Math.min(100, Math.round(score))),
+        suggestions: readStrings(result.suggestions),
+      },
+      usage: completion.usage,
+    };
+  }
+
+  async generateBlogPost(
+    prompt: string,
+    generation: BlogGenerationOptions,
+    options: AiProviderOptions,
+  ): Promise<AiResponse<BlogGenerationResult>> {
+    this.logger.log(
+      `[${this.id.toUpperCase()}] Generating blog post with ${generation.minWords}-${generation.maxWords} words (${options.model})`,
+    );
+
+    // Roughly 1.5 tokens per word leaves room for HTML markup
+    const maxTokens = generation.maxWords ? Math.ceil(generation.maxWords * 1.5) + 1000 : undefined;
+    const completion = await this.complete({ prompt, temperature: 0.7, maxTokens }, options);
+    const result = this.parseJson(completion.text);
+    return {
+      data: {
+        title: readString(result.title),
+        content: readString(result.content),
+        excerpt: readString(result.excerpt),
+        metaDescription: readString(result.metaDescription),
+        seoTitle: readString(result.seoTitle),
+        keywords: readStrings(result.keywords),
+        tags: readStrings(result.tags),
+      },
+      usage: completion.usage,
+    };
+  }
+
+  async reviseBlocks(request: BlockRevisionRequest, options: AiProviderOptions): Promise<AiResponse<BlockRevisionResult>> {
+    const blocks = request.blocks.map((block) => `BLOCK ${block.index}
+HTML: ${block.html}
+${block.feedback.length ? `Feedback:\n${block.feedback.map((item) => `- ${item}`).join('\n')}` : 'Feedback: apply the general notes'}`).join('\n\n');
+    const prompt = `You are revising parts of the blog post "${request.title}" after editorial review.
+${request.notes ? `General reviewer notes: ${request.notes}\n` : ''}Rewrite each block below to address its feedback. Keep each block's outer HTML tag and keep its links and images.
+Return JSON with field: blocks (array of objects with index (number) and html (string)), one entry per block.
+
+${blocks}`;
+
+    const completion = await this.complete({ prompt, temperature: 0.4 }, options);
+    const result = this.parseJson(completion.text);
+    const requested = new Set(request.blocks.map((block) => block.index));
+    const revised = Array.isArray(result.blocks) ? result.blocks.filter(isRecord) : [];
+    return {
+      data: {
+        blocks: revised
+          .filter((block) => typeof block.index === 'number' && requested.has(block.index) && readString(block.html).trim())
+          .map((block) => ({ index: block.index as number, html: readString(block.html) })),
+      },
+      usage: completion.usage,
+    };
+  }
+
+  streamOutline(request: DraftOutlineRequest, options: AiProviderOptions): AiTextStream {
+    const prompt = `Plan a blog post about "${request.topic}".
+${request.keywords.length ? `Keywords to cover: ${request.keywords.join(', ')}\n` : ''}Reply with 5-7 section headings, one per line, in reading order.
+No numbering, no markdown and no other text.`;
+    return this.streamComplete({ prompt, temperature: 0.5, maxTokens: 400, signal: request.signal }, options);
+  }
+
+  streamSection(request: DraftSectionRequest, options: AiProviderOptions): AiTextStream {
+    const prompt = `You are writing a blog post about "${request.topic}".
+Full outline:
+${request.outline.map((heading) => `- ${heading}`).join('\n')}
+
+Write the body of the section "${request.heading}" in 2-4 paragraphs. Do not repeat the heading and do not cover the other sections.
+${request.instructions ? `Additional instructions: ${request.instructions}\n` : ''}${DRAFT_HTML_RULES}`;
+    return this.streamComplete({ prompt, temperature: 0.7, maxTokens: 1500, signal: request.signal }, options);
+  }
+
+  streamEdit(request: SelectionEditRequest, options: AiProviderOptions): AiTextStream {
+    const prompt = `${SELECTION_EDIT_INSTRUCTIONS[request.action]}
+${request.topic ? `The passage is part of a blog post about "${request.topic}".\n` : ''}${DRAFT_HTML_RULES}
+
+${request.html}`;
+    const maxTokens = Math.max(300, Math.ceil(estimateTokens(request.html) * (request.action === 'expand' ? 3 : 1.5)));
+    return this.streamComplete({ prompt, temperature: 0.6, maxTokens, signal: request.signal }, options);
+  }
+
+  /** Token counts from the provider, or an estimate when it sent none */
+  protected toUsage(prompt: string, text: string, promptTokens?: number, completionTokens?: number): AiTokenUsage {
+    if (typeof promptTokens === 'number' && typeof completionTokens === 'number') {
+      return { promptTokens, completionTokens };
+    }
+    return { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text), estimated: true };
+  }
+
+  /**
+   * Models without a JSON mode sometimes wrap the object in a code fence or
+   * a sentence, so parse from the first "{" to the last "}".
+   */
+  protected parseJson(text: string): Record<string, unknown> {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error(`${this.id} returned no JSON object`);
+    }
+    const parsed: unknown = JSON.parse(text.slice(start, end + 1));
+    if (!isRecord(parsed)) {
+      throw new Error(`${this.id} returned an unexpected JSON value`);
+    }
+    return parsed;
+  }
+
+  /**
+   * POST a streaming request and yield the data of each server-sent event.
+   * Ends without an error when `signal` is aborted.
+   */
+  protected async *postEventStream(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal,
+  ): AsyncGenerator<string, void, undefined> {
+    const timeout = AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', ...headers },
+        body: JSON.stringify(body),
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    }
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${this.id} error ${response.status}: ${detail.slice(0, 300) || response.statusText}`);
+    }
+
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    let buffer = '';
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line; keep the incomplete tail
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() ?? '';
+        for (const event of events) {
+          const data = event
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).trimStart())
+            .join('\n');
+          if (data && data !== '[DONE]') yield data;
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    } finally {
+      // Closes the connection when the consumer stops reading early
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+
+  protected async postJson(url: string, headers: Record<string, string>, body: unknown): Promise<unknown> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${this.id} error ${response.status}: ${detail.slice(0, 300) || response.statusText}`);
+    }
+    return response.json();
+  }
+}
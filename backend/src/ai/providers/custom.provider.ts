@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+import { OpenAiProvider } from './openai.provider';
+
+/**
+ * Hosted OpenAI-compatible endpoint (OpenRouter, Groq, Together, Azure
+ * proxies...). Unlike the OpenAI adapter there is no default base URL.
+ */
+@Injectable()
+export class CustomAiProvider extends OpenAiProvider {
+  readonly id: string = 'custom';
+  readonly defaultModel: string = 'gpt-4o-mini';
+
+  protected readonly defaultBaseUrl: string = '';
+  protected readonly apiKeyEnv: string = 'CUSTOM_AI_API_KEY';
+  protected readonly baseUrlEnv: string = 'CUSTOM_AI_BASE_URL';
+}
@@ -14,7 +14,7 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { AiProvider, GeneratedPostContent, SeoOptimizationResult } from '../interfaces/ai-provider.interface';
+import { GeneratedPostContent, SeoOptimizationResult } from '../interfaces/ai-provider.interface';
 import { SanitizationUtil } from '../../common/utils/sanitization.util';
 
 enum CircuitState {
@@ -95,7 +95,7 @@ const getApiErrorMessage = (value: unknown, fallback: string): string => {
 };
 
 @Injectable()
-export class EnhancedOpenAiProvider implements AiProvider {
+export class EnhancedOpenAiProvider {
   private readonly logger = new Logger(EnhancedOpenAiProvider.name);
   private readonly apiKey: string;
   private readonly baseUrl: string = 'https://api.openai.com/v1';
@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { OpenAiEmbeddingProvider } from './openai.embedding';
+
+/**
+ * Embedding model served on the CPU by Ollama (or llama.cpp with
+ * --embedding) through its OpenAI-compatible endpoint. Pull the model first,
+ * e.g. `ollama pull nomic-embed-text`.
+ */
+@Injectable()
+export class LocalEmbeddingProvider extends OpenAiEmbeddingProvider {
+  readonly id: string = 'local';
+  readonly defaultModel: string = 'nomic-embed-text';
+
+  protected readonly defaultBaseUrl: string = 'http://localhost:11434/v1';
+  protected readonly apiKeyEnv: string = 'LOCAL_AI_API_KEY';
+  protected readonly baseUrlEnv: string = 'LOCAL_AI_BASE_URL';
+  protected readonly requiresApiKey: boolean = false;
+}
@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { OpenAiProvider } from './openai.provider';
+
+/**
+ * Self-hosted model behind an OpenAI-compatible server such as Ollama or
+ * the llama.cpp server. No API key is needed.
+ */
+@Injectable()
+export class LocalAiProvider extends OpenAiProvider {
+  readonly id: string = 'local';
+  readonly defaultModel: string = 'llama3.1';
+
+  // Ollama's default port; llama.cpp serves on :8080/v1
+  protected readonly defaultBaseUrl: string = 'http://localhost:11434/v1';
+  protected readonly apiKeyEnv: string = 'LOCAL_AI_API_KEY';
+  protected readonly baseUrlEnv: string = 'LOCAL_AI_BASE_URL';
+  protected readonly requiresApiKey: boolean = false;
+}
@@ -0,0 +1,251 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import {
+  AiProvider,
+  AiResponse,
+  AiTextStream,
+  AiTokenUsage,
+  BlockRevisionRequest,
+  BlockRevisionResult,
+  BlogGenerationOptions,
+  BlogGenerationResult,
+  DraftOutlineRequest,
+  DraftSectionRequest,
+  GeneratedPostContent,
+  PostGenerationRequest,
+  SelectionEditRequest,
+  SeoOptimizationResult,
+} from '../interfaces/ai-provider.interface';
+import { AiProviderRegistry } from '../ai-provider.registry';
+import { SanitizationUtil } from '../../common/utils/sanitization.util';
+import { estimateTokens } from '../ai-budget';
+
+const STOP_WORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'also', 'because', 'been', 'before', 'being', 'below',
+  'between', 'both', 'could', 'does', 'doing', 'down', 'during', 'each', 'from', 'further', 'have',
+  'having', 'here', 'into', 'just', 'more', 'most', 'other', 'over', 'some', 'such', 'than', 'that',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'under', 'until',
+  'very', 'were', 'what', 'when', 'where', 'which', 'while', 'with', 'your',
+]);
+
+const SECTION_TEMPLATES: Array<{ heading: string; body: string }> = [
+  {
+    heading: 'Why {topic} matters',
+    body: 'Getting {topic} right protects the surfaces underneath, lifts the look of a room and saves money on repairs later. Homeowners and property managers who plan {topic} carefully get a finish that lasts for years instead of months.',
+  },
+  {
+    heading: 'Preparing for {topic}',
+    body: 'Good preparation is most of the work. Clean the surfaces, fill cracks and holes, sand glossy areas and prime bare patches before any colour goes on. Protect floors and furniture and make sure the room is well ventilated while the work is under way.',
+  },
+  {
+    heading: 'Choosing materials for {topic}',
+    body: 'Pick products that suit the room and the surface. Moisture resistant finishes belong in kitchens and bathrooms, washable finishes in hallways and children\'s rooms, and breathable coatings on older plaster. Low odour, low VOC paints make it easier to live in the space while the work is done.',
+  },
+  {
+    heading: 'Step by step approach to {topic}',
+    body: 'Work from the top of the room down: ceilings first, then walls, then woodwork. Cut in along edges before rolling the open areas, keep a wet edge to avoid lap marks and allow each coat to dry fully before applying the next one.',
+  },
+  {
+    heading: 'Common {topic} mistakes',
+    body: 'The most common problems come from rushing. Skipping primer, painting over damp or dusty walls, overloading the roller and applying a second coat too soon all shorten the life of the finish and leave visible marks.',
+  },
+  {
+    heading: 'Keeping {topic} results looking fresh',
+    body: 'Wipe marks away with a soft cloth and mild soap, touch up chips before moisture gets behind the paint and check exterior walls after each season. A small amount of maintenance keeps the finish looking new for much longer.',
+  },
+];
+
+const countWords = (html: string): number => SanitizationUtil.sanitizeText(html).split(/\s+/).filter(Boolean).length;
+
+const fill = (template: string, topic: string) => template.replace(/\{topic\}/g, topic);
+
+const usageFor = (input: string, output: unknown): AiTokenUsage => ({
+  promptTokens: estimateTokens(input),
+  completionTokens: estimateTokens(JSON.stringify(output)),
+  estimated: true,
+});
+
+// Pause between streamed chunks so the editor shows text arriving as it would from a real provider
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const slugWords = (value: string): string[] => value
+  .toLowerCase()
+  .replace(/[^a-z0-9\s]/g, ' ')
+  .split(/\s+/)
+  .filter((word) => word.length > 2);
+
+/**
+ * Offline provider with deterministic output: the same input always gives
+ * the same result. Selected with AI_PROVIDER=mock (tests, local development)
+ * and used when the configured provider has no API key.
+ */
+@Injectable()
+export class MockAiProvider implements AiProvider, OnModuleInit {
+  readonly id = 'mock';
+  readonly defaultModel = 'mock';
+
+  constructor(private registry: AiProviderRegistry) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generatePost({ topic, prompt }: PostGenerationRequest): Promise<AiResponse<GeneratedPostContent>> {
+    const content = this.buildArticle(topic, 0);
+    const data: GeneratedPostContent = {
+      title: `The Complete Guide to ${topic}`,
+      content,
+      summary: `A practical guide to ${topic}: preparation, materials, technique, common mistakes and upkeep.`,
+      tags: [topic, 'Guide', 'How-To'],
+      seoTitle: `${topic}: Complete Guide and Best Practices`,
+      seoDescription: `Everything you need to know about ${topic}, from preparation and materials to technique and maintenance.`,
+    };
+    return { data, usage: usageFor(prompt, data) };
+  }
+
+  async generateBlogPost(prompt: string, generation: BlogGenerationOptions): Promise<AiResponse<BlogGenerationResult>> {
+    const keywords = generation.keywords?.length ? generation.keywords : slugWords(prompt).slice(0, 3);
+    const topic = keywords[0] || 'wall painting';
+    const title = `Professional ${topic.charAt(0).toUpperCase()}${topic.slice(1)}: A Complete Guide`;
+    const content = this.buildArticle(topic, generation.minWords ?? 0);
+
+    const data: BlogGenerationResult = {
+      title,
+      content,
+      excerpt: `A practical guide to ${topic}: preparation, materials, technique, common mistakes and upkeep.`,
+      metaDescription: `Complete guide to ${topic}. Learn how to prepare, choose materials, avoid common mistakes and keep the finish looking new.`,
+      seoTitle: title,
+      keywords,
+      tags: [topic, 'Guide', 'Home Improvement', ...keywords.slice(1, 4)],
+    };
+    return { data, usage: usageFor(prompt, data) };
+  }
+
+  /** Adds a sentence to the end of each block that has feedback */
+  async reviseBlocks(request: BlockRevisionRequest): Promise<AiResponse<BlockRevisionResult>> {
+    const data: BlockRevisionResult = {
+      blocks: request.blocks.map((block) => {
+        const closing = block.html.lastIndexOf('</');
+        const sentence = ' This passage was revised after editorial review.';
+        return {
+          index: block.index,
+          html: closing === -1 ? `${block.html}${sentence}` : `${block.html.slice(0, closing)}${sentence}${block.html.slice(closing)}`,
+        };
+      }),
+    };
+    return { data, usage: usageFor(JSON.stringify(request), data) };
+  }
+
+  streamOutline({ topic, signal }: DraftOutlineRequest): AiTextStream {
+    const outline = SECTION_TEMPLATES.map((section) => fill(section.heading, topic)).join('\n');
+    return this.streamText(topic, outline, signal);
+  }
+
+  streamSection({ topic, heading, signal }: DraftSectionRequest): AiTextStream {
+    const section = SECTION_TEMPLATES.find((item) => fill(item.heading, topic) === heading);
+    const body = section
+      ? fill(section.body, topic)
+      : `This section looks at ${heading.toLowerCase()} and what it means for ${topic}.`;
+    return this.streamText(heading, `<p>${body}</p>\n`, signal);
+  }
+
+  /** Expand appends a paragraph, shorten keeps the first sentence, rewrite returns the text unchanged */
+  streamEdit({ action, html, signal }: SelectionEditRequest): AiTextStream {
+    const text = SanitizationUtil.sanitizeText(html).trim();
+    let output: string;
+    if (action === 'expand') {
+      output = `${html}\n<p>In practice this means planning ahead, using the right materials and taking the time to do each step properly.</p>`;
+    } else if (action === 'shorten') {
+      output = `<p>${text.match(/^[^.!?]*[.!?]?/)?.[0] ?? text}</p>`;
+    } else {
+      output = `<p>${text}</p>`;
+    }
+    return this.streamText(html, output, signal);
+  }
+
+  /**
+   * Rule-based score from word count, headings, images, links, paragraph
+   * length and keyword density.
+   */
+  async optimizeSeo(content: string): Promise<AiResponse<SeoOptimizationResult>> {
+    const data = this.scoreSeo(content);
+    return { data, usage: usageFor(content, data) };
+  }
+
+  private scoreSeo(content: string): SeoOptimizationResult {
+    const words = SanitizationUtil.sanitizeText(content).split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return { score: 0, suggestions: ['Add meaningful content before running SEO optimization.'] };
+    }
+
+    const suggestions: string[] = [];
+    let score = 50;
+
+    const checks: Array<[boolean, number, string]> = [
+      [words.length >= 300, 10, 'Increase word count to at least 300 words.'],
+      [(content.match(/<h[1-6][^>]*>/gi) || []).length >= 2, 10, 'Add clear H2/H3 headings to improve structure.'],
+      [(content.match(/<img\s/gi) || []).length >= 1, 5, 'Add at least one relevant image with descriptive alt text.'],
+      [(content.match(/<a\s+[^>]*href=/gi) || []).length >= 2, 5, 'Add internal and external links where relevant.'],
+      [
+        !content.split(/<\/p>/i).some((segment) => countWords(segment) > 120),
+        5,
+        'Break up long paragraphs to improve readability.',
+      ],
+    ];
+    for (const [passed, points, suggestion] of checks) {
+      if (passed) score += points;
+      else suggestions.push(suggestion);
+    }
+
+    const counts = new Map<string, number>();
+    for (const word of words) {
+      const normalized = word.toLowerCase().replace(/[^a-z0-9]/g, '');
+      if (normalized.length < 4 || STOP_WORDS.has(normalized)) continue;
+      counts.set(normalized, (counts.get(normalized) ?? 0) + 1);
+    }
+    // Ties break alphabetically so the suggestion does not depend on word order
+    const [primary] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    if (!primary) {
+      suggestions.push('Add a clear primary keyword and repeat it naturally in headings and body.');
+    } else {
+      const density = primary[1] / words.length;
+      if (density < 0.005) suggestions.push(`Increase usage of primary keyword "${primary[0]}".`);
+      else if (density > 0.03) suggestions.push(`Reduce overuse of keyword "${primary[0]}" to avoid stuffing.`);
+      else score += 5;
+    }
+
+    return { score: Math.max(0, Math.min(100, score)), suggestions };
+  }
+
+  /** Yields the output a few words at a time */
+  private async *streamText(input: string, output: string, signal?: AbortSignal): AiTextStream {
+    const chunks = output.match(/\S+\s*/g) ?? [];
+    let sent = '';
+    for (let i = 0; i < chunks.length && !signal?.aborted; i += 3) {
+      const chunk = chunks.slice(i, i + 3).join('');
+      sent += chunk;
+      yield chunk;
+      await sleep(STREAM_CHUNK_DELAY_MS);
+    }
+    return usageFor(input, sent);
+  }
+
+  /** Cycles through the section templates until the article reaches minWords */
+  private buildArticle(topic: string, minWords: number): string {
+    let html = `<p>This guide covers ${topic} from start to finish.</p>\n`;
+    let round = 0;
+    do {
+      for (const section of SECTION_TEMPLATES) {
+        const heading = fill(section.heading, topic);
+        html += `<h2>${round > 0 ? `${heading} (part ${round + 1})` : heading}</h2>\n<p>${fill(section.body, topic)}</p>\n`;
+      }
+      round += 1;
+    } while (countWords(html) < minWords);
+    return html;
+  }
+}
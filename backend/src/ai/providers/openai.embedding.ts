@@ -0,0 +1,86 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AiProviderOptions } from '../interfaces/ai-provider.interface';
+import { EmbeddingProvider } from '../interfaces/embedding-provider.interface';
+import { EmbeddingProviderRegistry } from '../embedding-provider.registry';
+import { normalizeVector } from '../embedding-math';
+import { AI_REQUEST_TIMEOUT_MS } from './chat.provider';
+
+// Inputs sent per request; the API accepts more, but large batches of long posts time out
+const BATCH_SIZE = 32;
+
+type EmbeddingsResponse = {
+  data?: Array<{ index?: number; embedding?: number[] }>;
+};
+
+/**
+ * Adapter for the OpenAI embeddings API, and the base for servers that speak
+ * the same protocol (see LocalEmbeddingProvider).
+ */
+@Injectable()
+export class OpenAiEmbeddingProvider implements EmbeddingProvider, OnModuleInit {
+  readonly id: string = 'openai';
+  readonly defaultModel: string = 'text-embedding-3-small';
+
+  protected readonly defaultBaseUrl: string = 'https://api.openai.com/v1';
+  protected readonly apiKeyEnv: string = 'AI_API_KEY';
+  protected readonly baseUrlEnv: string = 'OPENAI_BASE_URL';
+  protected readonly requiresApiKey: boolean = true;
+
+  constructor(
+    protected config: ConfigService,
+    private registry: EmbeddingProviderRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  isConfigured(options: AiProviderOptions): boolean {
+    return Boolean(this.getBaseUrl(options)) && (!this.requiresApiKey || Boolean(this.getApiKey(options)));
+  }
+
+  async embed(texts: string[], options: AiProviderOptions): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      vectors.push(...await this.embedBatch(texts.slice(start, start + BATCH_SIZE), options));
+    }
+    return vectors;
+  }
+
+  protected getApiKey(options: AiProviderOptions): string {
+    const apiKey = options.apiKey || this.config.get<string>(this.apiKeyEnv) || '';
+    // The example env ships with a placeholder key
+    return apiKey === 'mock' ? '' : apiKey;
+  }
+
+  protected getBaseUrl(options: AiProviderOptions): string {
+    const baseUrl = options.baseUrl || this.config.get<string>(this.baseUrlEnv) || this.defaultBaseUrl;
+    return baseUrl.replace(/\/+$/, '');
+  }
+
+  private async embedBatch(input: string[], options: AiProviderOptions): Promise<number[][]> {
+    const apiKey = this.getApiKey(options);
+    const response = await fetch(`${this.getBaseUrl(options)}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: options.model, input }),
+      signal: AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${this.id} embeddings error ${response.status}: ${detail.slice(0, 300) || response.statusText}`);
+    }
+
+    const data = await response.json() as EmbeddingsResponse;
+    const items = [...(data.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    if (items.length !== input.length || items.some((item) => !Array.isArray(item.embedding))) {
+      throw new Error(`${this.id} returned ${items.length} embeddings for ${input.length} inputs`);
+    }
+    return items.map((item) => normalizeVector(item.embedding as number[]));
+  }
+}
@@ -26,6 +26,16 @@ import { CategoryModule } from './category/category.module';
 import { FeedbackModule } from './feedback/feedback.module';
 import { NotificationsModule } from './notifications/notifications.module';
 import { DashboardModule } from './dashboard/dashboard.module';
+import { QuoteModule } from './quote/quote.module';
+import { EstimateModule } from './estimate/estimate.module';
+import { DocumentsModule } from './documents/documents.module';
+import { BookingsModule } from './bookings/bookings.module';
+import { CalendarModule } from './calendar/calendar.module';
+import { PortalModule } from './portal/portal.module';
+import { ProjectsModule } from './projects/projects.module';
+import { SearchModule } from './search/search.module';
+import { ReviewModule } from './review/review.module';
+import { EditingModule } from './editing/editing.module';
 
 /**
  * Main application module
@@ -65,6 +75,16 @@ import { DashboardModule } from './dashboard/dashboard.module';
     FeedbackModule,
     NotificationsModule,
     DashboardModule,
+    QuoteModule,
+    EstimateModule,
+    DocumentsModule,
+    BookingsModule,
+    CalendarModule,
+    PortalModule,
+    ProjectsModule,
+    SearchModule,
+    ReviewModule,
+    EditingModule,
   ],
   controllers: [],
   providers: [
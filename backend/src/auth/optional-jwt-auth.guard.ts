@@ -0,0 +1,14 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * For @Public() routes that behave differently for signed-in users: sets
+ * request.user when a valid token is present and lets the request through
+ * either way.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser>(_err: unknown, user: TUser): TUser {
+    return (user || undefined) as TUser;
+  }
+}
@@ -1,13 +1,52 @@
-import { Controller, Post, Get, Body, Param, UseGuards, Query } from '@nestjs/common';
+import { Controller, Post, Get, Put, Body, Param, UseGuards, Query, Request, Res } from '@nestjs/common';
+import { Response } from 'express';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
 import { AiBlogService } from './ai-blog.service';
+import { AiDraftService, DraftStream } from './ai-draft.service';
+import { PostEmbeddingService } from './post-embedding.service';
+import { InterlinkService } from './interlink.service';
+import { AiUsageService } from '../ai/ai-usage.service';
+import { AiUsageReportQueryDto, UpdateAiBudgetDto } from '../ai/dto/ai-usage.dto';
+import { DraftRequestDto, SectionRequestDto, SelectionRequestDto } from './dto/ai-draft.dto';
+import { InterlinkPreviewDto } from './dto/interlink.dto';
+
+/** Aborted when the client disconnects, which stops the provider stream */
+const disconnectSignal = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
+
+/** Write each event as a server-sent event; no-transform keeps compression from buffering it */
+const sendEvents = async (res: Response, stream: DraftStream) => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  for await (const event of stream) {
+    if (res.destroyed) break;
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  }
+  res.end();
+};
 
 @Controller('blog/ai')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class AiBlogController {
-  constructor(private readonly aiBlogService: AiBlogService) {}
+  constructor(
+    private readonly aiBlogService: AiBlogService,
+    private readonly aiUsageService: AiUsageService,
+    private readonly aiDraftService: AiDraftService,
+    private readonly postEmbeddingService: PostEmbeddingService,
+    private readonly interlinkService: InterlinkService,
+  ) {}
 
   /**
    * Generate batch of AI blog posts
@@ -60,6 +99,61 @@ export class AiBlogController {
     };
   }
 
+  /**
+   * Links the next interlinking run would insert, per post, without saving
+   * POST /blog/ai/interlink/preview
+   */
+  @Post('interlink/preview')
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  async previewInterlinking() {
+    const posts = await this.interlinkService.previewAll();
+    return {
+      posts,
+      linkCount: posts.reduce((sum, post) => sum + post.links.length, 0),
+    };
+  }
+
+  /**
+   * Preview links for one post; body.content previews unsaved editor HTML
+   * POST /blog/ai/interlink/preview/:postId
+   */
+  @Post('interlink/preview/:postId')
+  @Roles('EDITOR', 'ADMINISTRATOR', 'SUPER_ADMIN')
+  async previewPostInterlinks(@Param('postId') postId: string, @Body() dto: InterlinkPreviewDto) {
+    return this.interlinkService.preview(postId, dto);
+  }
+
+  /**
+   * Remove every generated link from post content
+   * POST /blog/ai/interlink/strip
+   */
+  @Post('interlink/strip')
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  async stripInterlinks(@Request() req: AuthenticatedRequest) {
+    const result = await this.interlinkService.stripAll(req.user.id);
+    return {
+      success: true,
+      ...result,
+      message: `Removed ${result.linksRemoved} generated links from ${result.postsUpdated} posts`,
+    };
+  }
+
+  /**
+   * Embed published posts that are new or changed since the last run
+   * POST /blog/ai/embeddings/reindex
+   */
+  @Post('embeddings/reindex')
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  async reindexEmbeddings() {
+    const result = await this.postEmbeddingService.indexPosts();
+    return {
+      success: result.failed === 0,
+      ...result,
+      message: `Indexed ${result.indexed} posts with ${result.provider}/${result.model}`
+        + (result.failed ? `, ${result.failed} failed` : ''),
+    };
+  }
+
   /**
    * Get interlinking statistics
    * GET /blog/ai/interlink/stats
@@ -99,13 +193,13 @@ export class AiBlogController {
   }
 
   /**
-   * Refresh old content for a specific post
+   * Generate a content refresh for a specific post; review it under /blog/refreshes
    * POST /blog/ai/refresh/:postId
    */
   @Post('refresh/:postId')
   @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
-  async refreshPost(@Param('postId') postId: string) {
-    const result = await this.aiBlogService.refreshOldContent(postId);
+  async refreshPost(@Param('postId') postId: string, @Request() req: AuthenticatedRequest) {
+    const result = await this.aiBlogService.refreshOldContent(postId, req.user.id);
     return result;
   }
 
@@ -136,4 +230,70 @@ export class AiBlogController {
       statistics: stats,
     };
   }
+
+  /**
+   * AI usage report: spend, tokens and calls by task, model and user
+   * GET /blog/ai/usage?days=30
+   */
+  @Get('usage')
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  async getUsage(@Query() query: AiUsageReportQueryDto) {
+    return this.aiUsageService.getReport(query);
+  }
+
+  /**
+   * GET /blog/ai/budget
+   */
+  @Get('budget')
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  async getBudget() {
+    return this.aiUsageService.getBudget();
+  }
+
+  /**
+   * Update monthly and per-user AI budgets
+   * PUT /blog/ai/budget
+   */
+  @Put('budget')
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  async updateBudget(@Body() dto: UpdateAiBudgetDto) {
+    return this.aiUsageService.updateBudget(dto);
+  }
+
+  /**
+   * Stream an outline, then each section's HTML, as server-sent events.
+   * Send `outline` and `startAt` to continue a stopped draft.
+   * POST /blog/ai/draft
+   */
+  @Post('draft')
+  @Roles('AUTHOR', 'EDITOR', 'ADMINISTRATOR', 'SUPER_ADMIN')
+  async streamDraft(@Body() dto: DraftRequestDto, @Request() req: AuthenticatedRequest, @Res() res: Response) {
+    const signal = disconnectSignal(res);
+    const stream = this.aiDraftService.draft(dto, signal, { userId: req.user.id });
+    await sendEvents(res, stream);
+  }
+
+  /**
+   * Stream a replacement for one section of the draft
+   * POST /blog/ai/draft/section
+   */
+  @Post('draft/section')
+  @Roles('AUTHOR', 'EDITOR', 'ADMINISTRATOR', 'SUPER_ADMIN')
+  async streamSection(@Body() dto: SectionRequestDto, @Request() req: AuthenticatedRequest, @Res() res: Response) {
+    const signal = disconnectSignal(res);
+    const stream = this.aiDraftService.section(dto, signal, { userId: req.user.id });
+    await sendEvents(res, stream);
+  }
+
+  /**
+   * Stream an expanded, shortened or rewritten version of the selected HTML
+   * POST /blog/ai/draft/selection
+   */
+  @Post('draft/selection')
+  @Roles('AUTHOR', 'EDITOR', 'ADMINISTRATOR', 'SUPER_ADMIN')
+  async streamSelection(@Body() dto: SelectionRequestDto, @Request() req: AuthenticatedRequest, @Res() res: Response) {
+    const signal = disconnectSignal(res);
+    const stream = this.aiDraftService.selection(dto, signal, { userId: req.user.id });
+    await sendEvents(res, stream);
+  }
 }
@@ -1,7 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AiService } from '../ai/ai.service';
-import { PostStatus, SiteSettings } from '@prisma/client';
+import { PromptTemplateService } from '../ai/prompt-template.service';
+import { SEOAuditService } from './seo-audit.service';
+import { ContentRefreshService } from './content-refresh.service';
+import { PostRevisionService } from './post-revision.service';
+import { InterlinkService } from './interlink.service';
+import { PostRevisionSource, PostStatus, SiteSettings } from '@prisma/client';
 
 export interface GenerationResult {
   success: boolean;
@@ -9,8 +14,22 @@ export interface GenerationResult {
   title?: string;
   error?: string;
   wordCount?: number;
+  /** PostRefresh awaiting review, for content refreshes */
+  refreshId?: string;
 }
 
+// Appended to the editable "blogPost" prompt template so responses always parse
+const BLOG_POST_FORMAT = `FORMAT: Return as JSON with this structure:
+{
+  "title": "Blog post title",
+  "content": "Full HTML content with proper headings, paragraphs, lists",
+  "excerpt": "Brief summary for preview",
+  "metaDescription": "SEO meta description",
+  "seoTitle": "SEO-optimized title",
+  "keywords": ["keyword1", "keyword2", ...],
+  "tags": ["tag1", "tag2", ...]
+}`;
+
 @Injectable()
 export class AiBlogService {
   private readonly logger = new Logger(AiBlogService.name);
@@ -19,6 +38,11 @@ export class AiBlogService {
   constructor(
     private prisma: PrismaService,
     private aiService: AiService,
+    private promptTemplates: PromptTemplateService,
+    private seoAuditService: SEOAuditService,
+    private contentRefreshService: ContentRefreshService,
+    private postRevisionService: PostRevisionService,
+    private interlinkService: InterlinkService,
   ) {}
 
   /**
@@ -67,8 +91,10 @@ export class AiBlogService {
     // Get AI system user or create one
     const aiUser = await this.getOrCreateAiUser();
 
-    // Build comprehensive prompt
-    const prompt = this.buildPrompt(keywords, settings);
+    // Build comprehensive prompt from the active (or A/B-selected) template version
+    const { prompt, versionId } = await this.buildPrompt(keywords, settings);
+    // Record the model that will actually run, which may be a per-task override
+    const { provider, options: aiOptions } = await this.aiService.resolve('generateBlogPost');
 
     // Update post status to generating
     const post = await this.prisma.post.create({
@@ -78,8 +104,9 @@ export class AiBlogService {
         slug: `generating-${Date.now()}`,
         status: PostStatus.AI_GENERATING,
         aiGenerated: true,
-        aiModel: settings.aiModel || 'gpt-4',
+        aiModel: aiOptions.model,
         aiPrompt: prompt,
+        promptVersionId: versionId,
         authorId: aiUser.id,
         generationAttempts: 1,
       },
@@ -92,7 +119,7 @@ export class AiBlogService {
         maxWords: settings.aiMaxWordCount || 5000,
         tone: settings.contentTone || 'professional',
         keywords: keywords,
-      });
+      }, { postId: post.id });
 
       // Validate word count
       const wordCount = this.countWords(aiResult.content);
@@ -128,7 +155,8 @@ export class AiBlogService {
           lastGeneratedAt: new Date(),
           aiMetadata: {
             generatedAt: new Date(),
-            model: settings.aiModel,
+            provider: provider.id,
+            model: aiOptions.model,
             prompt: prompt,
             keywords: keywords,
             mode: settings.aiMode || 'standard',
@@ -141,6 +169,12 @@ export class AiBlogService {
 
       // Create tags and link them
       await this.createAndLinkTags(updatedPost.id, autoTags);
+      await this.seoAuditService.recordGenerationScore(updatedPost.id);
+      await this.postRevisionService.record(updatedPost.id, {
+        source: PostRevisionSource.AI,
+        reason: `Generated with ${aiOptions.model}`,
+        authorId: aiUser.id,
+      });
 
       this.logger.log(`[AI-BLOG] Generated: "${updatedPost.title}" (${wordCount} words, ${autoTags.length} tags)`);
 
@@ -169,51 +203,17 @@ export class AiBlogService {
   /**
    * Build comprehensive prompt for AI
    */
-  private buildPrompt(keywords: string[], settings: SiteSettings): string {
+  private async buildPrompt(keywords: string[], settings: SiteSettings): Promise<{ prompt: string; versionId: string | null }> {
     const keywordsList = keywords.slice(0, 5).join(', ');
     const modeBlock = this.buildModeBlock(settings);
     
-    return `You are an expert content writer for a ${settings.contentFocus || 'wall painting services'} website.
-
-TARGET AUDIENCE: ${settings.targetAudience || 'Homeowners and businesses seeking professional painting services'}
-TONE: ${settings.contentTone || 'professional, informative, and engaging'}
-KEYWORDS: ${keywordsList}
-${modeBlock}
-
-Write a comprehensive, SEO-optimized blog post (minimum ${settings.aiMinWordCount || 3000} words) that:
-
-1. TITLE: Create an engaging, keyword-rich title (60-70 characters)
-2. STRUCTURE:
-   - Introduction (2-3 paragraphs)
-   - 5-7 main sections with H2 headings
-   - Each section should have 3-5 paragraphs with H3 subheadings
-   - Include bullet points and numbered lists where appropriate
-   - Conclusion with clear call-to-action
-
-3. CONTENT REQUIREMENTS:
-   - Natural keyword integration (don't stuff)
-   - Practical examples and actionable advice
-   - Address common questions and concerns
-   - Include statistics or data points when relevant
-   - Write in an authoritative but accessible style
-
-4. SEO ELEMENTS:
-   - Meta description (150-160 characters)
-   - 5-10 relevant keywords
-   - Suggest 5-8 tags
-
-5. FORMAT: Return as JSON with this structure:
-{
-  "title": "Blog post title",
-  "content": "Full HTML content with proper headings, paragraphs, lists",
-  "excerpt": "Brief summary for preview",
-  "metaDescription": "SEO meta description",
-  "seoTitle": "SEO-optimized title",
-  "keywords": ["keyword1", "keyword2", ...],
-  "tags": ["tag1", "tag2", ...]
-}
-
-Focus on providing genuine value to readers while naturally incorporating these keywords: ${keywordsList}`;
+    const rendered = await this.promptTemplates.render('blogPost', {
+      topic: keywords[0] || '',
+      keywords: keywordsList,
+      minWords: String(settings.aiMinWordCount || 3000),
+      modeBlock,
+    });
+    return { prompt: `${rendered.prompt.trim()}\n\n${BLOG_POST_FORMAT}`, versionId: rendered.versionId };
   }
 
   private getModeSettings(settings: SiteSettings) {
@@ -377,7 +377,7 @@ ${selfLearningInstruction}
 
   /**
    * AUTO-INTERLINKING SYSTEM
-   * Analyzes all posts and creates intelligent internal links
+   * Regenerates the internal links woven into every published post
    */
   async performAutoInterlinking(): Promise<number> {
     this.logger.log('[AI-BLOG] Starting auto-interlinking process...');
@@ -388,66 +388,10 @@ ${selfLearningInstruction}
       return 0;
     }
 
-    // Get all published posts
-    const posts = await this.prisma.post.findMany({
-      where: { status: PostStatus.PUBLISHED },
-      select: {
-        id: true,
-        title: true,
-        slug: true,
-        content: true,
-        tags: { select: { name: true } },
-        categories: { select: { name: true } },
-      },
-    });
-
-    let totalLinksCreated = 0;
-
-    for (const sourcePost of posts) {
-      // Find related posts by tags and categories
-      const relatedPosts = posts.filter(p => 
-        p.id !== sourcePost.id && (
-          p.tags.some(t => sourcePost.tags.some(st => st.name === t.name)) ||
-          p.categories.some(c => sourcePost.categories.some(sc => sc.name === c.name))
-        )
-      );
-
-      // Delete existing auto-generated links
-      await this.prisma.internalLink.deleteMany({
-        where: {
-          sourcePostId: sourcePost.id,
-          autoGenerated: true,
-        },
-      });
-
-      // Create new internal links
-      const minLinks = settings.minInterlinksPerPost || 3;
-      const maxLinks = settings.maxInterlinksPerPost || 8;
-      const targetLinks = Math.min(relatedPosts.length, maxLinks);
-
-      for (let i = 0; i < Math.min(targetLinks, relatedPosts.length); i++) {
-        const targetPost = relatedPosts[i];
-        
-        try {
-          await this.prisma.internalLink.create({
-            data: {
-              sourcePostId: sourcePost.id,
-              targetUrl: `/blog/${targetPost.slug}`,
-              anchorText: targetPost.title,
-              context: this.extractContext(sourcePost.content, targetPost.title),
-              autoGenerated: true,
-            },
-          });
-
-          totalLinksCreated++;
-        } catch (error) {
-          this.logger.warn(`Failed to create link from ${sourcePost.slug} to ${targetPost.slug}`);
-        }
-      }
-    }
+    const { postsUpdated, linksCreated } = await this.interlinkService.applyAll();
 
-    this.logger.log(`[AI-BLOG] Auto-interlinking complete: ${totalLinksCreated} links created`);
-    return totalLinksCreated;
+    this.logger.log(`[AI-BLOG] Auto-interlinking complete: ${linksCreated} links in ${postsUpdated} posts`);
+    return linksCreated;
   }
 
   /**
@@ -504,9 +448,11 @@ ${selfLearningInstruction}
   }
 
   /**
-   * Refresh old content with new AI-generated updates
+   * Generate updated content for an old post. The result is stored as a
+   * pending PostRefresh for section-by-section review; the post itself is
+   * only changed when the refresh is applied.
    */
-  async refreshOldContent(postId: string): Promise<GenerationResult> {
+  async refreshOldContent(postId: string, userId?: string): Promise<GenerationResult> {
     this.logger.log(`[AI-BLOG] Refreshing content for post: ${postId}`);
 
     const post = await this.prisma.post.findUnique({
@@ -524,7 +470,8 @@ ${selfLearningInstruction}
     const refreshPrompt = `Update and modernize this existing blog post with latest trends and information:
 
 ORIGINAL TITLE: ${post.title}
-ORIGINAL CONTENT: ${post.content.substring(0, 500)}...
+ORIGINAL CONTENT:
+${post.content}
 EXISTING TAGS: ${post.tags.map(t => t.name).join(', ')}
 
 Requirements:
@@ -538,6 +485,8 @@ Requirements:
 3. Preserve existing URL structure and SEO optimization
 4. Make content more engaging and valuable
 5. Add new keywords while keeping existing ones
+6. Keep the existing section headings wherever a section still applies, and leave sections that are still accurate unchanged; each section is reviewed separately
+7. Keep existing internal links and images
 
 Return updated content in the same JSON format.`;
 
@@ -546,29 +495,19 @@ Return updated content in the same JSON format.`;
         minWords: settings.aiMinWordCount || this.MIN_WORD_COUNT,
         maxWords: settings.aiMaxWordCount || 5000,
         tone: settings.contentTone || 'professional',
-      });
-
+      }, { postId, userId });
+
+      const refresh = await this.contentRefreshService.propose(post, {
+        content: aiResult.content,
+        excerpt: aiResult.excerpt || aiResult.metaDescription,
+        seoDescription: aiResult.metaDescription,
+        seoKeywords: aiResult.keywords,
+      }, userId);
       const wordCount = this.countWords(aiResult.content);
 
-      await this.prisma.post.update({
-        where: { id: postId },
-        data: {
-          content: aiResult.content,
-          excerpt: aiResult.excerpt || aiResult.metaDescription,
-          seoDescription: aiResult.metaDescription,
-          seoKeywords: aiResult.keywords,
-          wordCount: wordCount,
-          readingTime: Math.ceil(wordCount / 200),
-          lastRefreshedAt: new Date(),
-          needsRefresh: false,
-          refreshReason: null,
-          contentAge: 0,
-        },
-      });
-
-      this.logger.log(`[AI-BLOG] Content refreshed: "${post.title}" (${wordCount} words)`);
+      this.logger.log(`[AI-BLOG] Refresh ready for review: "${post.title}" (${wordCount} words)`);
 
-      return { success: true, postId: postId, title: post.title, wordCount: wordCount };
+      return { success: true, postId: postId, title: post.title, wordCount: wordCount, refreshId: refresh.id };
     } catch (error) {
       this.logger.error(`[AI-BLOG] Refresh failed: ${error.message}`);
       return { success: false, error: error.message };
@@ -769,7 +708,8 @@ Return updated content in the same JSON format.`;
       settings: {
         enabled: settings?.autoInterlinkEnabled ?? false,
         minLinks: settings?.minInterlinksPerPost ?? 3,
-        maxLinks: settings?.maxInterlinksPerPost ?? 8
+        maxLinks: settings?.maxInterlinksPerPost ?? 8,
+        maxPerParagraph: settings?.maxInterlinksPerParagraph ?? 1
       }
     };
   }
@@ -796,21 +736,4 @@ Return updated content in the same JSON format.`;
       totalPages: Math.ceil(total / limit)
     };
   }
-
-  private extractContext(content: string, anchorText: string): string {
-    const cleanContent = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ');
-    const index = cleanContent.toLowerCase().indexOf(anchorText.toLowerCase());
-    
-    if (index === -1) {
-      return cleanContent.substring(0, 150);
-    }
-
-    const start = Math.max(0, index - 75);
-    const end = Math.min(cleanContent.length, index + anchorText.length + 75);
-    return cleanContent.substring(start, end).trim();
-  }
 }
-
-
-
-
@@ -0,0 +1,190 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { AiService } from '../ai/ai.service';
+import { AiBudgetExceededError } from '../ai/ai.errors';
+import { AiCallContext, SelectionEditAction } from '../ai/interfaces/ai-provider.interface';
+import { DraftRequestDto, SectionRequestDto, SelectionRequestDto } from './dto/ai-draft.dto';
+
+const MAX_TOPIC_LENGTH = 200;
+const MAX_HEADINGS = 12;
+const MAX_INSTRUCTIONS_LENGTH = 500;
+const MAX_SELECTION_LENGTH = 10_000;
+
+/** Events sent to the editor over server-sent events, one JSON object per event */
+export type DraftEvent =
+  | { type: 'outline-delta'; text: string }
+  | { type: 'outline'; headings: string[] }
+  | { type: 'section-start'; index: number; heading: string }
+  | { type: 'delta'; index: number; html: string }
+  | { type: 'section-end'; index: number }
+  | { type: 'done'; stopped: boolean }
+  | { type: 'error'; message: string };
+
+export type DraftStream = AsyncGenerator<DraftEvent, void, undefined>;
+
+type DraftRequest = {
+  topic: string;
+  keywords: string[];
+  /** Headings from an earlier run; skips the outline step */
+  outline: string[] | null;
+  /** First section to write, used to continue a stopped draft */
+  startAt: number;
+};
+
+type SectionRequest = {
+  topic: string;
+  heading: string;
+  outline: string[];
+  index: number;
+  instructions?: string;
+};
+
+type SelectionRequest = {
+  action: SelectionEditAction;
+  html: string;
+  topic?: string;
+};
+
+const readText = (value: string | undefined, maxLength: number): string => (value ?? '').trim().slice(0, maxLength);
+
+const readHeadings = (value: string[] | undefined): string[] | null => {
+  if (!value) return null;
+  const headings = value
+    .map((item) => readText(item, MAX_TOPIC_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_HEADINGS);
+  return headings.length ? headings : null;
+};
+
+/** One heading per line; strips the numbering and markdown models add anyway */
+export const parseOutline = (text: string): string[] => text
+  .split(/\r?\n/)
+  .map((line) => line.replace(/^\s*(?:[-*#]+|\d+[.)])\s*/, '').replace(/\*\*/g, '').trim())
+  .filter(Boolean)
+  .slice(0, MAX_HEADINGS);
+
+/**
+ * Streamed drafting for the post editor: an outline followed by each
+ * section's HTML, plus rewrites of a single section or a selection.
+ * Request bodies are validated before the stream starts so a bad request
+ * is an ordinary 400 rather than an error event.
+ */
+@Injectable()
+export class AiDraftService {
+  private readonly logger = new Logger(AiDraftService.name);
+
+  constructor(private aiService: AiService) {}
+
+  draft(data: DraftRequestDto, signal: AbortSignal, context: AiCallContext): DraftStream {
+    const topic = readText(data.topic, MAX_TOPIC_LENGTH);
+    if (!topic) {
+      throw new BadRequestException('Topic is required');
+    }
+    const outline = readHeadings(data.outline);
+    const startAt = data.startAt ?? 0;
+    if (outline && startAt >= outline.length) {
+      throw new BadRequestException('startAt must point at a heading in the outline');
+    }
+    const keywords = (data.keywords ?? []).map((item) => readText(item, 100)).filter(Boolean).slice(0, 10);
+
+    return this.guard(this.streamDraft({ topic, keywords, outline, startAt }, signal, context), signal);
+  }
+
+  section(data: SectionRequestDto, signal: AbortSignal, context: AiCallContext): DraftStream {
+    const topic = readText(data.topic, MAX_TOPIC_LENGTH);
+    const heading = readText(data.heading, MAX_TOPIC_LENGTH);
+    if (!topic || !heading) {
+      throw new BadRequestException('Topic and heading are required');
+    }
+    const request: SectionRequest = {
+      topic,
+      heading,
+      outline: readHeadings(data.outline) ?? [heading],
+      index: data.index ?? 0,
+      instructions: readText(data.instructions, MAX_INSTRUCTIONS_LENGTH) || undefined,
+    };
+    return this.guard(this.streamSection(request, signal, context), signal);
+  }
+
+  selection(data: SelectionRequestDto, signal: AbortSignal, context: AiCallContext): DraftStream {
+    const { action } = data;
+    const html = data.html.trim();
+    if (!html) {
+      throw new BadRequestException('Select some text first');
+    }
+    if (html.length > MAX_SELECTION_LENGTH) {
+      throw new BadRequestException(`Selection must be at most ${MAX_SELECTION_LENGTH} characters`);
+    }
+    const request: SelectionRequest = { action, html, topic: readText(data.topic, MAX_TOPIC_LENGTH) || undefined };
+    return this.guard(this.streamSelection(request, signal, context), signal);
+  }
+
+  private async *streamDraft(request: DraftRequest, signal: AbortSignal, context: AiCallContext): DraftStream {
+    let headings = request.outline;
+    if (!headings) {
+      let text = '';
+      for await (const chunk of this.aiService.streamOutline({ topic: request.topic, keywords: request.keywords, signal }, context)) {
+        text += chunk;
+        yield { type: 'outline-delta', text: chunk };
+      }
+      headings = parseOutline(text);
+      if (signal.aborted) {
+        yield { type: 'done', stopped: true };
+        return;
+      }
+      if (headings.length === 0) {
+        throw new Error('The AI provider returned an empty outline');
+      }
+    }
+    yield { type: 'outline', headings };
+
+    for (let index = request.startAt; index < headings.length; index += 1) {
+      if (signal.aborted) break;
+      yield* this.streamSection({ topic: request.topic, heading: headings[index], outline: headings, index }, signal, context, false);
+    }
+    yield { type: 'done', stopped: signal.aborted };
+  }
+
+  private async *streamSection(
+    request: SectionRequest,
+    signal: AbortSignal,
+    context: AiCallContext,
+    finish = true,
+  ): DraftStream {
+    const { index } = request;
+    yield { type: 'section-start', index, heading: request.heading };
+    const stream = this.aiService.streamSection({
+      topic: request.topic,
+      heading: request.heading,
+      outline: request.outline,
+      instructions: request.instructions,
+      signal,
+    }, context);
+    for await (const html of stream) {
+      yield { type: 'delta', index, html };
+    }
+    // A stopped section is incomplete, so Continue writes it again
+    if (!signal.aborted) yield { type: 'section-end', index };
+    if (finish) yield { type: 'done', stopped: signal.aborted };
+  }
+
+  private async *streamSelection(request: SelectionRequest, signal: AbortSignal, context: AiCallContext): DraftStream {
+    for await (const html of this.aiService.streamEdit({ ...request, signal }, context)) {
+      yield { type: 'delta', index: 0, html };
+    }
+    yield { type: 'done', stopped: signal.aborted };
+  }
+
+  /** Once the response has started, failures are reported as an error event */
+  private async *guard(stream: DraftStream, signal: AbortSignal): DraftStream {
+    try {
+      yield* stream;
+    } catch (error) {
+      if (signal.aborted) return;
+      const message = error instanceof AiBudgetExceededError
+        ? error.message
+        : `Draft generation failed: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(message);
+      yield { type: 'error', message };
+    }
+  }
+}
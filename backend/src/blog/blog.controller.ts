@@ -3,13 +3,15 @@ import { Controller, Get, Post, Body, Param, Delete, Put, Patch, UseGuards, Quer
 import { BlogService } from './blog.service';
 import { EnhancedBlogService } from './enhanced-blog.service';
 import { SEOAuditService } from './seo-audit.service';
+import { PostRevisionService } from './post-revision.service';
+import { EditingService } from '../editing/editing.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
 import { Public } from '../auth/public.decorator';
 import { SanitizationUtil } from '../common/utils/sanitization.util';
 import { AuthenticatedRequest } from '../common/types';
-import { Prisma, PostStatus } from '@prisma/client';
+import { EditResource, Prisma, PostStatus } from '@prisma/client';
 
 type CreateEnhancedPostPayload = {
   title: string;
@@ -66,6 +68,14 @@ const parseDate = (value: unknown): Date | undefined => {
   return undefined;
 };
 
+const parseRevisionNumber = (value: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new BadRequestException('Invalid revision number');
+  }
+  return parsed;
+};
+
 const parsePostStatus = (value: unknown): PostStatus | undefined => {
   if (value === PostStatus.DRAFT || value === PostStatus.PUBLISHED || value === PostStatus.SCHEDULED || value === PostStatus.ARCHIVED) {
     return value;
@@ -155,6 +165,8 @@ export class BlogController {
     private readonly blogService: BlogService,
     private readonly enhancedBlogService: EnhancedBlogService,
     private readonly seoAuditService: SEOAuditService,
+    private readonly postRevisionService: PostRevisionService,
+    private readonly editingService: EditingService,
   ) {}
 
   // Public: Read All
@@ -275,10 +287,14 @@ export class BlogController {
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
   @Put(':id')
-  async update(@Param('id') id: string, @Body() postData: unknown) {
+  async update(@Param('id') id: string, @Body() postData: unknown, @Request() req: AuthenticatedRequest) {
     const payload = isRecord(postData) ? postData : {};
-    // Extract categoryIds and tagIds if present
-    const { categoryIds, tagIds, ...updateData } = payload;
+    // Extract categoryIds, tagIds, the revision note and version token if present
+    const { categoryIds, tagIds, revisionNote, baseVersion, ...updateData } = payload;
+    const revision = {
+      authorId: req.user.id,
+      reason: typeof revisionNote === 'string' ? revisionNote.slice(0, 200) : null,
+    };
     
     // Build the update object with proper relations
     const data: Prisma.PostUpdateInput = { ...updateData } as Prisma.PostUpdateInput;
@@ -300,14 +316,19 @@ export class BlogController {
     }
     
     // Use enhanced service if content or title changed
-    if (typeof data.content === 'string' || typeof data.title === 'string') {
-      return this.enhancedBlogService.updateEnhancedPost(id, { ...data, tagIds: parsedTagIds });
-    }
-    
-    return this.blogService.updatePost({
-      where: { id },
-      data,
-    });
+    const post = await this.editingService.saveIfCurrent(EditResource.POST, id, baseVersion, () => (
+      typeof data.content === 'string' || typeof data.title === 'string'
+        ? this.enhancedBlogService.updateEnhancedPost(id, { ...data, tagIds: parsedTagIds }, revision)
+        : this.blogService.updatePost({
+          where: { id },
+          data,
+          revision,
+        })
+    ));
+
+    // The autosaved draft is now part of the post
+    await this.editingService.discardDraft(EditResource.POST, id, req.user.id);
+    return post;
   }
 
   // Admin: Get single post by ID (for edit screen)
@@ -323,6 +344,34 @@ export class BlogController {
     return post;
   }
 
+  // Admin: Revision history of a post (newest first)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR', 'AUTHOR')
+  @Get('admin/posts/:id/revisions')
+  async getRevisions(@Param('id') id: string) {
+    return this.postRevisionService.list(id);
+  }
+
+  // Admin: Full snapshot of one revision, for diffing
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR', 'AUTHOR')
+  @Get('admin/posts/:id/revisions/:revisionNumber')
+  async getRevision(@Param('id') id: string, @Param('revisionNumber') revisionNumber: string) {
+    return this.postRevisionService.get(id, parseRevisionNumber(revisionNumber));
+  }
+
+  // Admin: Restore a revision (recorded as a new revision)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Post('admin/posts/:id/revisions/:revisionNumber/restore')
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('revisionNumber') revisionNumber: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.postRevisionService.restore(id, parseRevisionNumber(revisionNumber), req.user.id);
+  }
+
   // Admin: Delete
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
@@ -8,13 +8,20 @@ import { TagsController } from './tags.controller';
 import { EnhancedBlogService } from './enhanced-blog.service';
 import { SEOAuditService } from './seo-audit.service';
 import { AiBlogService } from './ai-blog.service';
+import { AiDraftService } from './ai-draft.service';
+import { ContentRefreshService } from './content-refresh.service';
+import { ContentRefreshController } from './content-refresh.controller';
+import { PostRevisionService } from './post-revision.service';
+import { PostEmbeddingService } from './post-embedding.service';
+import { InterlinkService } from './interlink.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AiModule } from '../ai/ai.module';
+import { EditingModule } from '../editing/editing.module';
 
 @Module({
-  imports: [PrismaModule, AiModule],
-  controllers: [BlogController, BlogSEOController, AiBlogController, TagsController],
-  providers: [BlogService, EnhancedBlogService, SEOAuditService, AiBlogService],
-  exports: [BlogService, EnhancedBlogService, SEOAuditService, AiBlogService], // Export for Queue and Tasks
+  imports: [PrismaModule, AiModule, EditingModule],
+  controllers: [BlogController, BlogSEOController, AiBlogController, TagsController, ContentRefreshController],
+  providers: [BlogService, EnhancedBlogService, SEOAuditService, AiBlogService, AiDraftService, ContentRefreshService, PostRevisionService, PostEmbeddingService, InterlinkService],
+  exports: [BlogService, EnhancedBlogService, SEOAuditService, AiBlogService, ContentRefreshService, PostRevisionService, PostEmbeddingService], // Export for Queue and Tasks
 })
 export class BlogModule {}
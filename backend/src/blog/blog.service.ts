@@ -3,13 +3,17 @@ import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { Prisma } from '@prisma/client';
 import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { PostRevisionService, RevisionMeta } from './post-revision.service';
 
 @Injectable()
 export class BlogService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private postRevisionService: PostRevisionService,
+  ) {}
 
   // Create
-  async createPost(data: Prisma.PostCreateInput) {
+  async createPost(data: Prisma.PostCreateInput, revision: RevisionMeta = {}) {
     // SECURITY FIX: Sanitize HTML content before saving
     if (data.content && typeof data.content === 'string') {
       data.content = SanitizationUtil.sanitizeHTML(data.content);
@@ -18,7 +22,9 @@ export class BlogService {
       data.excerpt = SanitizationUtil.sanitizeText(data.excerpt);
     }
     
-    return this.prisma.post.create({ data });
+    const post = await this.prisma.post.create({ data });
+    await this.postRevisionService.record(post.id, { authorId: post.authorId, ...revision });
+    return post;
   }
 
   // Read
@@ -65,8 +71,9 @@ export class BlogService {
   async updatePost(params: {
     where: Prisma.PostWhereUniqueInput;
     data: Prisma.PostUpdateInput;
+    revision?: RevisionMeta;
   }) {
-    const { where, data } = params;
+    const { where, data, revision } = params;
     
     // SECURITY FIX: Sanitize HTML content before saving
     if (data.content && typeof data.content === 'string') {
@@ -76,10 +83,15 @@ export class BlogService {
       data.excerpt = SanitizationUtil.sanitizeText(data.excerpt);
     }
     
-    return this.prisma.post.update({
+    if (where.id) {
+      await this.postRevisionService.ensureBaseline(where.id);
+    }
+    const post = await this.prisma.post.update({
       data,
       where,
     });
+    await this.postRevisionService.record(post.id, revision);
+    return post;
   }
 
   // Delete
@@ -0,0 +1,66 @@
+import { Body, Controller, Get, Param, Patch, Post, Query, Request, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import { ContentRefreshService } from './content-refresh.service';
+import { ListRefreshesQueryDto, RefreshDecisionsDto } from './dto/content-refresh.dto';
+
+@Controller('blog/refreshes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('EDITOR', 'ADMINISTRATOR', 'SUPER_ADMIN')
+export class ContentRefreshController {
+  constructor(private readonly contentRefreshService: ContentRefreshService) {}
+
+  /**
+   * Refreshes (optionally by status) and posts flagged for refresh
+   * GET /blog/refreshes?status=PENDING
+   */
+  @Get()
+  async list(@Query() query: ListRefreshesQueryDto) {
+    return this.contentRefreshService.list(query);
+  }
+
+  /**
+   * Refresh with its section-by-section diff
+   * GET /blog/refreshes/:id
+   */
+  @Get(':id')
+  async get(@Param('id') id: string) {
+    return this.contentRefreshService.get(id);
+  }
+
+  /**
+   * Accept or reject sections
+   * PATCH /blog/refreshes/:id/sections
+   */
+  @Patch(':id/sections')
+  async decide(@Param('id') id: string, @Body() dto: RefreshDecisionsDto) {
+    return this.contentRefreshService.decide(id, dto);
+  }
+
+  /**
+   * POST /blog/refreshes/:id/apply
+   */
+  @Post(':id/apply')
+  async apply(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.contentRefreshService.apply(id, req.user.id);
+  }
+
+  /**
+   * POST /blog/refreshes/:id/discard
+   */
+  @Post(':id/discard')
+  async discard(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.contentRefreshService.discard(id, req.user.id);
+  }
+
+  /**
+   * Restore the post as it was before the refresh, while the rollback window is open
+   * POST /blog/refreshes/:id/rollback
+   */
+  @Post(':id/rollback')
+  async rollback(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.contentRefreshService.rollback(id, req.user.id);
+  }
+}
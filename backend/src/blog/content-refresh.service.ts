@@ -0,0 +1,491 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Post, PostRefresh, PostRevisionSource, PostStatus, Prisma, RefreshStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SEOAuditService } from './seo-audit.service';
+import { PostRevisionService } from './post-revision.service';
+import { blockText, countHtmlWords, joinHtmlBlocks, splitHtmlBlocks } from './html-blocks';
+import { ListRefreshesQueryDto, RefreshDecisionsDto } from './dto/content-refresh.dto';
+
+const DEFAULT_ROLLBACK_HOURS = 72;
+/** SEO score drop during the rollback window that rolls a refresh back automatically */
+const AUTO_ROLLBACK_SCORE_DROP = 10;
+
+export type SectionDecision = 'pending' | 'accepted' | 'rejected';
+
+export type RefreshSection = {
+  key: string;
+  heading: string;
+  /** Current HTML of the section, null when the refresh adds it */
+  before: string | null;
+  /** Proposed HTML, null when the refresh drops the section */
+  after: string | null;
+  decision: SectionDecision;
+  /** Internal links and images from `before` that were put back into `after` */
+  preserved: { links: string[]; images: string[] };
+};
+
+export type RefreshProposal = {
+  content: string;
+  excerpt?: string | null;
+  seoDescription?: string | null;
+  seoKeywords?: string[];
+};
+
+type Section = { heading: string; html: string };
+
+const USER_SELECT = { id: true, username: true, displayName: true } as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const headingLevel = (block: string): number => {
+  const match = block.match(/^<h([1-6])\b/i);
+  return match ? Number(match[1]) : 0;
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Split post HTML into sections at its top heading level (h2, or h3 when a
+ * post has no h2). Content before the first heading is an untitled intro.
+ */
+export const splitSections = (html: string): Section[] => {
+  const blocks = splitHtmlBlocks(html);
+  const levels = blocks.map(headingLevel).filter((level) => level >= 2);
+  const level = levels.length ? Math.min(...levels) : 0;
+
+  const sections: Array<{ heading: string; blocks: string[] }> = [];
+  for (const block of blocks) {
+    if (level && headingLevel(block) === level) {
+      sections.push({ heading: blockText(block), blocks: [block] });
+    } else if (sections.length === 0) {
+      sections.push({ heading: '', blocks: [block] });
+    } else {
+      sections[sections.length - 1].blocks.push(block);
+    }
+  }
+  return sections.map((section) => ({ heading: section.heading, html: joinHtmlBlocks(section.blocks) }));
+};
+
+const INTERNAL_LINK_PATTERN = /<a\b[^>]*\bhref\s*=\s*["'](\/(?!\/)[^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi;
+const IMAGE_PATTERN = /<img\b[^>]*\bsrc\s*=\s*["']([^"']+)["'][^>]*>/gi;
+
+const hasHref = (html: string, href: string) => (
+  Array.from(html.matchAll(INTERNAL_LINK_PATTERN)).some((match) => match[1] === href)
+);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Put internal links and images from the current section back into the
+ * proposed one. A dropped link is re-attached to its anchor text when the
+ * new copy still contains it, otherwise it is listed at the section end.
+ */
+export const preserveManualContent = (before: string, after: string) => {
+  let html = after;
+  const links: string[] = [];
+  const images: string[] = [];
+  const orphanLinks: string[] = [];
+
+  for (const match of Array.from(before.matchAll(INTERNAL_LINK_PATTERN))) {
+    const [anchor, href, inner] = match;
+    if (hasHref(html, href)) continue;
+    links.push(href);
+    const text = blockText(inner);
+    // Only touch text outside tags so attributes are never rewritten
+    const pattern = text ? new RegExp(`(>[^<]*?)\\b(${escapeRegExp(text)})\\b`, 'i') : null;
+    if (pattern && pattern.test(html)) {
+      html = html.replace(pattern, (_, prefix: string, found: string) => `${prefix}<a href="${href}">${found}</a>`);
+    } else {
+      orphanLinks.push(anchor);
+    }
+  }
+  if (orphanLinks.length) {
+    html = joinHtmlBlocks([html, `<p>${orphanLinks.join(' · ')}</p>`]);
+  }
+
+  for (const match of Array.from(before.matchAll(IMAGE_PATTERN))) {
+    const [tag, src] = match;
+    if (html.includes(src)) continue;
+    images.push(src);
+    html = joinHtmlBlocks([html, tag]);
+  }
+
+  return { html, preserved: { links, images } };
+};
+
+/**
+ * Pair current and proposed sections by heading. Sections the proposal
+ * drops stay next to the section they followed so the merged post keeps
+ * its order whichever way each one is decided.
+ */
+export const alignSections = (current: Section[], proposed: Section[]): RefreshSection[] => {
+  const matched = new Map<number, number>();
+  const used = new Set<number>();
+  proposed.forEach((section, proposedIndex) => {
+    const key = normalize(section.heading);
+    const currentIndex = current.findIndex((candidate, index) => !used.has(index) && normalize(candidate.heading) === key);
+    if (currentIndex !== -1) {
+      used.add(currentIndex);
+      matched.set(proposedIndex, currentIndex);
+    }
+  });
+
+  const entries: Array<{ heading: string; before: string | null; after: string | null; currentIndex: number | null }> = proposed
+    .map((section, index) => {
+      const currentIndex = matched.get(index);
+      return {
+        heading: section.heading,
+        before: currentIndex === undefined ? null : current[currentIndex].html,
+        after: section.html,
+        currentIndex: currentIndex ?? null,
+      };
+    });
+
+  current.forEach((section, currentIndex) => {
+    if (used.has(currentIndex)) return;
+    let position = 0;
+    for (let previous = currentIndex - 1; previous >= 0; previous -= 1) {
+      const found = entries.findIndex((entry) => entry.currentIndex === previous);
+      if (found !== -1) {
+        position = found + 1;
+        break;
+      }
+    }
+    entries.splice(position, 0, { heading: section.heading, before: section.html, after: null, currentIndex });
+  });
+
+  return entries.map((entry, index) => {
+    const base = { key: `s${index}`, heading: entry.heading, before: entry.before, decision: 'pending' as SectionDecision };
+    if (entry.before === null || entry.after === null) {
+      return { ...base, after: entry.after, preserved: { links: [], images: [] } };
+    }
+    const { html, preserved } = preserveManualContent(entry.before, entry.after);
+    // Sections the refresh left alone need no decision
+    const unchanged = blockText(entry.before) === blockText(html);
+    return { ...base, after: html, decision: unchanged ? 'accepted' : 'pending', preserved };
+  });
+};
+
+/** Accepted sections take the proposal, everything else keeps the current HTML */
+export const mergeSections = (sections: RefreshSection[]): string => joinHtmlBlocks(
+  sections
+    .map((section) => (section.decision === 'accepted' ? section.after : section.before))
+    .filter((html): html is string => Boolean(html)),
+);
+
+const parseSections = (value: Prisma.JsonValue): RefreshSection[] => {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown[]).filter(isRecord).map((item, index) => ({
+    key: typeof item.key === 'string' ? item.key : `s${index}`,
+    heading: typeof item.heading === 'string' ? item.heading : '',
+    before: typeof item.before === 'string' ? item.before : null,
+    after: typeof item.after === 'string' ? item.after : null,
+    decision: item.decision === 'accepted' || item.decision === 'rejected' ? item.decision : 'pending',
+    preserved: {
+      links: isRecord(item.preserved) && Array.isArray(item.preserved.links)
+        ? item.preserved.links.filter((link): link is string => typeof link === 'string')
+        : [],
+      images: isRecord(item.preserved) && Array.isArray(item.preserved.images)
+        ? item.preserved.images.filter((src): src is string => typeof src === 'string')
+        : [],
+    },
+  }));
+};
+
+/**
+ * AI content refreshes as pending revisions: the proposal is split into
+ * sections that are accepted or rejected one by one, applied as a merge,
+ * and can be rolled back during a window after it goes live.
+ */
+@Injectable()
+export class ContentRefreshService {
+  private readonly logger = new Logger(ContentRefreshService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private seoAuditService: SEOAuditService,
+    private postRevisionService: PostRevisionService,
+  ) {}
+
+  /** Store a refresh for review; replaces any refresh still pending for the post */
+  async propose(post: Post, proposal: RefreshProposal, createdById?: string): Promise<PostRefresh> {
+    const sections = alignSections(splitSections(post.content), splitSections(proposal.content));
+    await this.prisma.postRefresh.updateMany({
+      where: { postId: post.id, status: RefreshStatus.PENDING },
+      data: { status: RefreshStatus.DISCARDED },
+    });
+    return this.prisma.postRefresh.create({
+      data: {
+        postId: post.id,
+        originalContent: post.content,
+        originalExcerpt: post.excerpt,
+        originalSeoDescription: post.seoDescription,
+        originalSeoKeywords: post.seoKeywords,
+        proposedExcerpt: proposal.excerpt ?? null,
+        proposedSeoDescription: proposal.seoDescription ?? null,
+        proposedSeoKeywords: proposal.seoKeywords ?? [],
+        sections,
+        createdById: createdById ?? null,
+      },
+    });
+  }
+
+  async list({ status }: ListRefreshesQueryDto) {
+    const where: Prisma.PostRefreshWhereInput = status ? { status } : {};
+    const [refreshes, candidates] = await Promise.all([
+      this.prisma.postRefresh.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+        select: {
+          id: true,
+          status: true,
+          sections: true,
+          appliedAt: true,
+          rollbackUntil: true,
+          rolledBackAt: true,
+          rollbackReason: true,
+          seoScoreBefore: true,
+          seoScoreAfter: true,
+          createdAt: true,
+          post: { select: { id: true, title: true, slug: true, status: true } },
+        },
+      }),
+      this.prisma.post.findMany({
+        where: { needsRefresh: true, refreshes: { none: { status: RefreshStatus.PENDING } } },
+        orderBy: { contentAge: 'desc' },
+        take: 50,
+        select: { id: true, title: true, slug: true, refreshReason: true, contentAge: true },
+      }),
+    ]);
+
+    return {
+      refreshes: refreshes.map(({ sections, ...refresh }) => {
+        const parsed = parseSections(sections);
+        return {
+          ...refresh,
+          sectionCount: parsed.length,
+          pendingSections: parsed.filter((section) => section.decision === 'pending').length,
+          canRollback: this.canRollback(refresh),
+        };
+      }),
+      candidates,
+    };
+  }
+
+  async get(id: string) {
+    const refresh = await this.prisma.postRefresh.findUnique({
+      where: { id },
+      include: {
+        post: { select: { id: true, title: true, slug: true, status: true, content: true } },
+        createdBy: { select: USER_SELECT },
+        reviewedBy: { select: USER_SELECT },
+      },
+    });
+    if (!refresh) {
+      throw new NotFoundException('Refresh not found');
+    }
+    const { post, sections, ...rest } = refresh;
+    return {
+      ...rest,
+      post: { id: post.id, title: post.title, slug: post.slug, status: post.status },
+      sections: parseSections(sections),
+      // The post was edited after the refresh was generated; applying would discard those edits
+      stale: refresh.status === RefreshStatus.PENDING && post.content !== refresh.originalContent,
+      canRollback: this.canRollback(refresh),
+    };
+  }
+
+  async decide(id: string, { decisions }: RefreshDecisionsDto) {
+    const refresh = await this.getPending(id);
+    const sections = parseSections(refresh.sections).map((section) => {
+      const decision = decisions[section.key];
+      return decision === 'accepted' || decision === 'rejected' || decision === 'pending'
+        ? { ...section, decision }
+        : section;
+    });
+    await this.prisma.postRefresh.update({
+      where: { id },
+      data: { sections },
+    });
+    return this.get(id);
+  }
+
+  /**
+   * Merge the accepted sections into the post. Undecided sections keep the
+   * current HTML. SEO fields are taken from the proposal only when at least
+   * one section is accepted.
+   */
+  async apply(id: string, userId: string) {
+    const refresh = await this.getPending(id);
+    const post = await this.prisma.post.findUnique({ where: { id: refresh.postId } });
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+    if (post.content !== refresh.originalContent) {
+      throw new BadRequestException('The post was edited after this refresh was generated; generate a new refresh');
+    }
+
+    const sections = parseSections(refresh.sections);
+    const accepted = sections.some((section) => section.decision === 'accepted' && section.before !== section.after);
+    if (!accepted) {
+      throw new BadRequestException('Accept at least one changed section, or discard the refresh');
+    }
+
+    const seoScoreBefore = await this.auditScore(post.id);
+    const content = mergeSections(sections);
+    const wordCount = countHtmlWords(content);
+    const settings = await this.prisma.siteSettings.findFirst();
+    const rollbackHours = settings?.refreshRollbackHours ?? DEFAULT_ROLLBACK_HOURS;
+    const now = new Date();
+
+    await this.postRevisionService.ensureBaseline(post.id);
+    await this.prisma.post.update({
+      where: { id: post.id },
+      data: {
+        content,
+        excerpt: refresh.proposedExcerpt || post.excerpt,
+        seoDescription: refresh.proposedSeoDescription || post.seoDescription,
+        seoKeywords: refresh.proposedSeoKeywords.length ? refresh.proposedSeoKeywords : post.seoKeywords,
+        wordCount,
+        readingTime: Math.ceil(wordCount / 200),
+        lastRefreshedAt: now,
+        needsRefresh: false,
+        refreshReason: null,
+        contentAge: 0,
+      },
+    });
+    await this.postRevisionService.record(post.id, {
+      source: PostRevisionSource.REFRESH,
+      reason: 'Content refresh applied',
+      authorId: userId,
+    });
+    const seoScoreAfter = await this.auditScore(post.id);
+    await this.prisma.postRefresh.update({
+      where: { id },
+      data: {
+        status: RefreshStatus.APPLIED,
+        appliedContent: content,
+        appliedAt: now,
+        reviewedById: userId,
+        seoScoreBefore,
+        seoScoreAfter,
+        rollbackUntil: rollbackHours > 0 ? new Date(now.getTime() + rollbackHours * 60 * 60 * 1000) : null,
+      },
+    });
+    this.logger.log(`Refresh ${id} applied to post ${post.id} (SEO ${seoScoreBefore ?? '?'} -> ${seoScoreAfter ?? '?'})`);
+    return this.get(id);
+  }
+
+  /** Drop the refresh; the post counts as refreshed so it is not flagged again next week */
+  async discard(id: string, userId: string) {
+    const refresh = await this.getPending(id);
+    await this.prisma.$transaction([
+      this.prisma.postRefresh.update({
+        where: { id },
+        data: { status: RefreshStatus.DISCARDED, reviewedById: userId },
+      }),
+      this.prisma.post.update({
+        where: { id: refresh.postId },
+        data: { needsRefresh: false, refreshReason: null, lastRefreshedAt: new Date(), contentAge: 0 },
+      }),
+    ]);
+    return this.get(id);
+  }
+
+  async rollback(id: string, userId: string | null, reason?: string) {
+    const refresh = await this.prisma.postRefresh.findUnique({ where: { id } });
+    if (!refresh) {
+      throw new NotFoundException('Refresh not found');
+    }
+    if (!this.canRollback(refresh)) {
+      throw new BadRequestException('The rollback window for this refresh has closed');
+    }
+    const post = await this.prisma.post.findUnique({ where: { id: refresh.postId }, select: { content: true } });
+    if (post && post.content !== refresh.appliedContent) {
+      throw new BadRequestException('The post was edited after the refresh was applied; restore it from the editor instead');
+    }
+
+    const wordCount = countHtmlWords(refresh.originalContent);
+    await this.prisma.$transaction([
+      this.prisma.post.update({
+        where: { id: refresh.postId },
+        data: {
+          content: refresh.originalContent,
+          excerpt: refresh.originalExcerpt,
+          seoDescription: refresh.originalSeoDescription,
+          seoKeywords: refresh.originalSeoKeywords,
+          wordCount,
+          readingTime: Math.ceil(wordCount / 200),
+        },
+      }),
+      this.prisma.postRefresh.update({
+        where: { id },
+        data: {
+          status: RefreshStatus.ROLLED_BACK,
+          rolledBackAt: new Date(),
+          rollbackReason: reason ?? null,
+          ...(userId ? { reviewedById: userId } : {}),
+        },
+      }),
+    ]);
+    await this.postRevisionService.record(refresh.postId, {
+      source: PostRevisionSource.REFRESH,
+      reason: reason ? `Content refresh rolled back: ${reason}` : 'Content refresh rolled back',
+      authorId: userId,
+    });
+    this.logger.log(`Refresh ${id} rolled back${reason ? `: ${reason}` : ''}`);
+    return this.get(id);
+  }
+
+  /**
+   * Re-audit refreshes still inside their rollback window and roll back the
+   * ones whose SEO score dropped. Run hourly by TasksService.
+   */
+  async checkRollbackWindows(): Promise<number> {
+    const open = await this.prisma.postRefresh.findMany({
+      where: { status: RefreshStatus.APPLIED, rollbackUntil: { gt: new Date() }, seoScoreBefore: { not: null } },
+      include: { post: { select: { status: true, content: true } } },
+    });
+
+    let rolledBack = 0;
+    for (const refresh of open) {
+      // Manual edits since the refresh make the post the editor's responsibility
+      if (refresh.post.status !== PostStatus.PUBLISHED || refresh.post.content !== refresh.appliedContent) continue;
+      const score = await this.auditScore(refresh.postId);
+      if (score === null || refresh.seoScoreBefore === null) continue;
+      if (refresh.seoScoreBefore - score >= AUTO_ROLLBACK_SCORE_DROP) {
+        await this.rollback(refresh.id, null, `SEO score dropped from ${refresh.seoScoreBefore} to ${score}`);
+        rolledBack += 1;
+      }
+    }
+    return rolledBack;
+  }
+
+  private canRollback(refresh: Pick<PostRefresh, 'status' | 'rollbackUntil'>): boolean {
+    return refresh.status === RefreshStatus.APPLIED
+      && refresh.rollbackUntil !== null
+      && refresh.rollbackUntil.getTime() > Date.now();
+  }
+
+  private async getPending(id: string) {
+    const refresh = await this.prisma.postRefresh.findUnique({ where: { id } });
+    if (!refresh) {
+      throw new NotFoundException('Refresh not found');
+    }
+    if (refresh.status !== RefreshStatus.PENDING) {
+      throw new BadRequestException('This refresh has already been reviewed');
+    }
+    return refresh;
+  }
+
+  private async auditScore(postId: string): Promise<number | null> {
+    try {
+      return (await this.seoAuditService.auditPost(postId)).score;
+    } catch {
+      return null;
+    }
+  }
+}
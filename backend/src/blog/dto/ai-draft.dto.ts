@@ -0,0 +1,60 @@
+import { IsArray, IsIn, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { SELECTION_EDIT_ACTIONS, SelectionEditAction } from '../../ai/interfaces/ai-provider.interface';
+
+// Text fields are trimmed and truncated by AiDraftService
+
+export class DraftRequestDto {
+  @IsString({ message: 'Topic is required' })
+  topic: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  keywords?: string[];
+
+  /** Headings from an earlier run; skips the outline step */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  outline?: string[];
+
+  /** First section to write, used to continue a stopped draft */
+  @IsOptional()
+  @IsInt({ message: 'startAt must point at a heading in the outline' })
+  @Min(0, { message: 'startAt must point at a heading in the outline' })
+  startAt?: number;
+}
+
+export class SectionRequestDto {
+  @IsString({ message: 'Topic is required' })
+  topic: string;
+
+  @IsString({ message: 'Heading is required' })
+  heading: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  outline?: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  index?: number;
+
+  @IsOptional()
+  @IsString()
+  instructions?: string;
+}
+
+export class SelectionRequestDto {
+  @IsIn(SELECTION_EDIT_ACTIONS, { message: `action must be one of: ${SELECTION_EDIT_ACTIONS.join(', ')}` })
+  action: SelectionEditAction;
+
+  @IsString({ message: 'Select some text first' })
+  html: string;
+
+  @IsOptional()
+  @IsString()
+  topic?: string;
+}
@@ -0,0 +1,15 @@
+import { IsEnum, IsObject, IsOptional } from 'class-validator';
+import { RefreshStatus } from '@prisma/client';
+import { SectionDecision } from '../content-refresh.service';
+
+export class ListRefreshesQueryDto {
+  @IsOptional()
+  @IsEnum(RefreshStatus, { message: `status must be one of: ${Object.values(RefreshStatus).join(', ')}` })
+  status?: RefreshStatus;
+}
+
+export class RefreshDecisionsDto {
+  // Section key to decision; unknown keys and values are ignored by the service
+  @IsObject({ message: 'decisions must map section keys to accepted, rejected or pending' })
+  decisions: Record<string, SectionDecision>;
+}
@@ -0,0 +1,14 @@
+import { IsArray, IsOptional, IsString } from 'class-validator';
+
+export class InterlinkPreviewDto {
+  /** Unsaved editor HTML; the saved content is used when left out */
+  @IsOptional()
+  @IsString()
+  content?: string;
+
+  /** Target post ids the editor chose not to link to */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  skip?: string[];
+}
@@ -3,6 +3,9 @@ import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { Prisma, PostStatus } from '@prisma/client';
 import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { PostRevisionService, RevisionMeta } from './post-revision.service';
+import { PostEmbeddingService } from './post-embedding.service';
+import { InterlinkService } from './interlink.service';
 
 type UpdateEnhancedPostInput = Prisma.PostUpdateInput & {
   tagIds?: string[];
@@ -59,7 +62,12 @@ const extractTagIdsFromTagsInput = (value: unknown): string[] | undefined => {
 
 @Injectable()
 export class EnhancedBlogService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private postRevisionService: PostRevisionService,
+    private postEmbeddingService: PostEmbeddingService,
+    private interlinkService: InterlinkService,
+  ) {}
 
   // =========== AUTO-TAGGING SYSTEM ===========
   /**
@@ -143,83 +151,24 @@ export class EnhancedBlogService {
 
   // =========== AUTO-INTERLINKING SYSTEM ===========
   /**
-   * Automatically creates internal links to related posts
-   * Scans content for keywords matching other posts' titles/slugs
+   * Record the generated anchors in the content being saved as InternalLink rows.
+   * Anchors are inserted by the interlinking run or from the editor's preview.
    */
-  async autoGenerateInterlinks(postId: string, content: string, title: string) {
-    // Find all published posts except current one
-    const otherPosts = await this.prisma.post.findMany({
-      where: {
-        id: { not: postId },
-        status: PostStatus.PUBLISHED,
-      },
-      select: { id: true, title: true, slug: true, seoKeywords: true },
-    });
-    
-    const interlinks: Array<{ targetUrl: string; anchorText: string; context: string }> = [];
-    
-    // Create a map of keywords to posts
-    for (const post of otherPosts) {
-      // Check if post title appears in content (case-insensitive)
-      const titlePattern = new RegExp(`\\b${post.title}\\b`, 'gi');
-      const matches = content.match(titlePattern);
-      
-      if (matches && matches.length > 0) {
-        // Find context around the match
-        const contextMatch = content.match(new RegExp(`(.{50})${post.title}(.{50})`, 'i'));
-        const context = contextMatch ? contextMatch[0] : '';
-        
-        interlinks.push({
-          targetUrl: `/blog/${post.slug}`,
-          anchorText: post.title,
-          context,
-        });
-      }
-      
-      // Also check SEO keywords
-      if (post.seoKeywords && post.seoKeywords.length > 0) {
-        post.seoKeywords.forEach(keyword => {
-          const keywordPattern = new RegExp(`\\b${keyword}\\b`, 'gi');
-          if (keywordPattern.test(content)) {
-            const contextMatch = content.match(new RegExp(`(.{30})${keyword}(.{30})`, 'i'));
-            interlinks.push({
-              targetUrl: `/blog/${post.slug}`,
-              anchorText: keyword,
-              context: contextMatch ? contextMatch[0] : '',
-            });
-          }
-        });
-      }
-    }
-    
-    // Remove duplicates
-    const uniqueInterlinks = interlinks.filter((link, index, self) =>
-      index === self.findIndex((t) => t.targetUrl === link.targetUrl)
-    );
-    
-    // Store internal links
-    await this.prisma.internalLink.deleteMany({ where: { sourcePostId: postId } });
-    
-    for (const link of uniqueInterlinks.slice(0, 10)) { // Limit to 10 links
-      await this.prisma.internalLink.create({
-        data: {
-          sourcePostId: postId,
-          targetUrl: link.targetUrl,
-          anchorText: link.anchorText,
-          context: link.context,
-          autoGenerated: true,
-        },
-      });
-    }
-    
-    return uniqueInterlinks;
+  async autoGenerateInterlinks(postId: string, content: string) {
+    return this.interlinkService.syncRecordedLinks(postId, content);
   }
 
   // =========== RELATED POSTS ALGORITHM ===========
   /**
-   * Find related posts based on shared tags, categories, and content similarity
+   * Find related posts by embedding similarity above SiteSettings.similarityThreshold.
+   * Posts missing from the embeddings index fall back to shared tags, categories and recency.
    */
   async findRelatedPosts(postId: string, limit: number = 5): Promise<string[]> {
+    const similar = await this.postEmbeddingService.findSimilar(postId, { limit });
+    if (similar) {
+      return similar.map(item => item.postId);
+    }
+
     const post = await this.prisma.post.findUnique({
       where: { id: postId },
       include: { tags: true, categories: true },
@@ -332,7 +281,7 @@ export class EnhancedBlogService {
     tagIds?: string[];
     scheduledFor?: Date;
     aiGenerated?: boolean;
-  }) {
+  }, revision: RevisionMeta = {}) {
     const sanitizedTitle = SanitizationUtil.sanitizeText(data.title);
     const sanitizedContent = SanitizationUtil.sanitizeHTML(data.content);
     const sanitizedExcerpt = data.excerpt ? SanitizationUtil.sanitizeText(data.excerpt) : undefined;
@@ -381,21 +330,23 @@ export class EnhancedBlogService {
       include: { tags: true, categories: true, author: true },
     });
     
-    // Generate interlinks (async, don't wait)
-    this.autoGenerateInterlinks(post.id, sanitizedContent, sanitizedTitle);
+    // Record generated interlinks (async, don't wait)
+    this.autoGenerateInterlinks(post.id, sanitizedContent);
     
     // Find and store related posts
+    await this.postEmbeddingService.indexPost(post.id);
     const relatedPostIds = await this.findRelatedPosts(post.id);
     await this.prisma.post.update({
       where: { id: post.id },
       data: { relatedPostIds },
     });
+    await this.postRevisionService.record(post.id, { authorId: data.authorId, ...revision });
     
     return post;
   }
 
   // =========== UPDATE POST WITH AUTO-FEATURES ===========
-  async updateEnhancedPost(id: string, data: UpdateEnhancedPostInput) {
+  async updateEnhancedPost(id: string, data: UpdateEnhancedPostInput, revision: RevisionMeta = {}) {
     const existingPost = await this.prisma.post.findUnique({ where: { id }, include: { tags: true } });
     
     if (!existingPost) {
@@ -421,10 +372,15 @@ export class EnhancedBlogService {
       // Recalculate reading time
       const readingTime = this.calculateReadingTime(content);
 
-      // Regenerate interlinks
-      await this.autoGenerateInterlinks(id, content, title);
+      // Record generated interlinks
+      await this.autoGenerateInterlinks(id, content);
 
-      // Update related posts
+      // Update related posts, embedding the content about to be saved
+      await this.postEmbeddingService.indexPost(id, {
+        title,
+        content,
+        excerpt: typeof updateData.excerpt === 'string' ? updateData.excerpt : existingPost.excerpt,
+      });
       const relatedPostIds = await this.findRelatedPosts(id);
 
       const manualTagIds = Array.isArray(tagIds)
@@ -448,11 +404,14 @@ export class EnhancedBlogService {
       updateData.slug = SanitizationUtil.sanitizeSlug(updateData.slug);
     }
 
-    return this.prisma.post.update({
+    await this.postRevisionService.ensureBaseline(id);
+    const post = await this.prisma.post.update({
       where: { id },
       data: updateData,
       include: { tags: true, categories: true, author: true },
     });
+    await this.postRevisionService.record(id, revision);
+    return post;
   }
 
   // =========== SCHEDULED PUBLISHING ===========
@@ -0,0 +1,153 @@
+import { anchorPhrases, findAutoLinks, insertInterlinks, InterlinkTarget, stripAutoLinks } from './interlink-engine';
+
+const OPTIONS = { maxLinks: 10, maxPerParagraph: 2 };
+
+const target = (postId: string, phrases: string[]): InterlinkTarget => ({ postId, url: `/blog/${postId}`, phrases });
+
+const MASONRY = target('masonry', ['exterior masonry paint']);
+const PRIMER = target('primer', ['stain blocking primer']);
+
+describe('anchorPhrases', () => {
+  it('uses the title, its parts and multi-word keywords, longest first', () => {
+    expect(anchorPhrases('Exterior Painting: A Complete Guide', ['masonry paint', 'paint', 'exterior painting']))
+      .toEqual(['Exterior Painting: A Complete Guide', 'Exterior Painting', 'A Complete Guide', 'masonry paint']);
+  });
+
+  it('leaves out single words and short phrases', () => {
+    expect(anchorPhrases('Primer', ['a b', 'undercoat'])).toEqual([]);
+  });
+
+  it('splits titles on dashes and pipes', () => {
+    expect(anchorPhrases('Damp walls - causes and fixes | Wall Painting Services')).toEqual([
+      'Damp walls - causes and fixes | Wall Painting Services',
+      'Wall Painting Services',
+      'causes and fixes',
+      'Damp walls',
+    ]);
+  });
+
+  it('keeps at most eight phrases', () => {
+    const keywords = Array.from({ length: 12 }, (_, index) => `keyword phrase ${index}`);
+    expect(anchorPhrases('Short title', keywords)).toHaveLength(8);
+  });
+});
+
+describe('stripAutoLinks', () => {
+  it('removes generated links and keeps their text and author links', () => {
+    const html = '<p>Try <a href="/blog/masonry" data-interlink="masonry">masonry paint</a> or <a href="/shop">our shop</a>.</p>';
+
+    expect(stripAutoLinks(html)).toEqual({
+      html: '<p>Try masonry paint or <a href="/shop">our shop</a>.</p>',
+      removed: 1,
+    });
+  });
+});
+
+describe('findAutoLinks', () => {
+  it('lists generated links with their context', () => {
+    const html = [
+      '<h2>Choosing paint</h2>',
+      '<p>For render, use <a href="/blog/masonry" data-interlink="masonry"><em>exterior masonry paint</em></a> every time.</p>',
+    ].join('\n');
+
+    expect(findAutoLinks(html)).toEqual([{
+      targetPostId: 'masonry',
+      targetUrl: '/blog/masonry',
+      anchorText: 'exterior masonry paint',
+      context: 'For render, use exterior masonry paint every time.',
+    }]);
+  });
+});
+
+describe('insertInterlinks', () => {
+  it('links the first whole-word mention and keeps the original casing', () => {
+    const html = '<p>Exterior masonry paints differ. Exterior Masonry Paint lasts longer.</p>';
+    const plan = insertInterlinks(html, [MASONRY], OPTIONS);
+
+    expect(plan.html).toBe(
+      '<p>Exterior masonry paints differ. <a href="/blog/masonry" data-interlink="masonry">Exterior Masonry Paint</a> lasts longer.</p>',
+    );
+    expect(plan.links).toEqual([{
+      targetPostId: 'masonry',
+      targetUrl: '/blog/masonry',
+      anchorText: 'Exterior Masonry Paint',
+      blockIndex: 0,
+      context: 'Exterior masonry paints differ. Exterior Masonry Paint lasts longer.',
+    }]);
+  });
+
+  it('never links inside headings, code or existing links', () => {
+    const html = [
+      '<h2>Exterior masonry paint</h2>',
+      '<p><a href="/shop">exterior masonry paint</a> and <code>exterior masonry paint</code></p>',
+      '<p>Then apply exterior masonry paint.</p>',
+    ].join('\n');
+    const plan = insertInterlinks(html, [MASONRY], OPTIONS);
+
+    expect(plan.links).toHaveLength(1);
+    expect(plan.links[0].blockIndex).toBe(2);
+    expect(plan.html.split('\n')[2]).toBe(
+      '<p>Then apply <a href="/blog/masonry" data-interlink="masonry">exterior masonry paint</a>.</p>',
+    );
+  });
+
+  it('links text inside inline formatting', () => {
+    const plan = insertInterlinks('<p>Use <strong>exterior masonry paint</strong> outside.</p>', [MASONRY], OPTIONS);
+
+    expect(plan.html).toBe(
+      '<p>Use <strong><a href="/blog/masonry" data-interlink="masonry">exterior masonry paint</a></strong> outside.</p>',
+    );
+  });
+
+  it('skips targets the author already links to', () => {
+    const html = '<p>See <a href="/blog/masonry">our guide</a> on exterior masonry paint.</p>';
+
+    expect(insertInterlinks(html, [MASONRY], OPTIONS)).toEqual({ html, links: [], removed: 0 });
+  });
+
+  it('links each target once', () => {
+    const html = '<p>Exterior masonry paint is tough.</p>\n<p>Buy exterior masonry paint in spring.</p>';
+    const plan = insertInterlinks(html, [MASONRY], OPTIONS);
+
+    expect(plan.links.map((link) => link.blockIndex)).toEqual([0]);
+  });
+
+  it('counts existing links against the per-paragraph limit', () => {
+    const html = '<p><a href="/shop">Shop</a> for exterior masonry paint and stain blocking primer.</p>';
+    const plan = insertInterlinks(html, [MASONRY, PRIMER], OPTIONS);
+
+    expect(plan.links.map((link) => link.targetPostId)).toEqual(['masonry']);
+  });
+
+  it('stops at the maximum number of links', () => {
+    const html = '<p>Exterior masonry paint first.</p>\n<p>Stain blocking primer second.</p>';
+    const plan = insertInterlinks(html, [MASONRY, PRIMER], { ...OPTIONS, maxLinks: 1 });
+
+    expect(plan.links.map((link) => link.targetPostId)).toEqual(['masonry']);
+  });
+
+  it('matches phrases containing characters that are escaped in HTML', () => {
+    const plan = insertInterlinks('<p>Pick a paint &amp; primer in one.</p>', [target('combo', ['paint & primer'])], OPTIONS);
+
+    expect(plan.html).toBe('<p>Pick a <a href="/blog/combo" data-interlink="combo">paint &amp; primer</a> in one.</p>');
+    expect(plan.links[0].anchorText).toBe('paint & primer');
+  });
+
+  it('regenerates generated links from scratch', () => {
+    const first = insertInterlinks('<p>Apply exterior masonry paint.</p>', [MASONRY], OPTIONS);
+    const second = insertInterlinks(first.html, [MASONRY], OPTIONS);
+
+    expect(second.html).toBe(first.html);
+    expect(second.removed).toBe(1);
+    expect(second.links).toHaveLength(1);
+
+    const stripped = insertInterlinks(first.html, [], OPTIONS);
+    expect(stripped).toEqual({ html: '<p>Apply exterior masonry paint.</p>', links: [], removed: 1 });
+  });
+
+  it('returns the HTML untouched when nothing changes', () => {
+    const html = '<p>No mentions here.</p>\n\n\n<p>Still none.</p>';
+
+    expect(insertInterlinks(html, [MASONRY], OPTIONS).html).toBe(html);
+  });
+});
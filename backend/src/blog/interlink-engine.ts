@@ -0,0 +1,209 @@
+import { blockText, joinHtmlBlocks, splitHtmlBlocks } from './html-blocks';
+
+// Inserted anchors carry the target post id in this attribute, which marks
+// them as generated: stripping removes exactly these and nothing an author wrote.
+const AUTO_LINK_PATTERN = /<a\b[^>]*\bdata-interlink="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi;
+const HREF_PATTERN = /\bhref="([^"]*)"/i;
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b[^>]*?(\/?)>/g;
+
+// Blocks that never receive links, and elements whose text is never linked
+const SKIPPED_BLOCKS = /^<(h[1-6]|pre|figure|table|code)\b/i;
+const NO_LINK_ELEMENTS = new Set(['a', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'code', 'pre', 'button', 'figcaption']);
+
+const MIN_PHRASE_LENGTH = 6;
+const MAX_PHRASES_PER_TARGET = 8;
+const CONTEXT_CHARS = 60;
+
+export type InterlinkTarget = {
+  postId: string;
+  url: string;
+  /** Anchor phrases to look for, most specific first */
+  phrases: string[];
+};
+
+export type InterlinkOptions = {
+  maxLinks: number;
+  maxPerParagraph: number;
+};
+
+export type PlannedLink = {
+  targetPostId: string;
+  targetUrl: string;
+  anchorText: string;
+  blockIndex: number;
+  context: string;
+};
+
+export type InterlinkPlan = {
+  html: string;
+  links: PlannedLink[];
+  /** Generated links removed from the input before new ones were placed */
+  removed: number;
+};
+
+export type AutoLink = {
+  targetPostId: string;
+  targetUrl: string;
+  anchorText: string;
+  context: string;
+};
+
+type Part = { html: string; linkable: boolean };
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Candidate anchors for a target post: its title, the parts of a title
+ * like "Main topic: subtitle", and its multi-word SEO keywords. Single
+ * words are left out because they match too much unrelated text.
+ */
+export function anchorPhrases(title: string, keywords: string[] = []): string[] {
+  const candidates = [title, ...title.split(/\s*(?::|\||\s[-–—]\s)\s*/), ...keywords];
+  const seen = new Set<string>();
+  const phrases: string[] = [];
+  for (const candidate of candidates) {
+    const phrase = candidate.replace(/\s+/g, ' ').trim();
+    const key = phrase.toLowerCase();
+    if (phrase.length < MIN_PHRASE_LENGTH || !phrase.includes(' ') || seen.has(key)) continue;
+    seen.add(key);
+    phrases.push(phrase);
+  }
+  return phrases.sort((a, b) => b.length - a.length).slice(0, MAX_PHRASES_PER_TARGET);
+}
+
+/** Remove generated links, keeping their text */
+export function stripAutoLinks(html: string): { html: string; removed: number } {
+  let removed = 0;
+  const stripped = html.replace(AUTO_LINK_PATTERN, (_link, _target, text: string) => {
+    removed++;
+    return text;
+  });
+  return { html: stripped, removed };
+}
+
+/** Split a block into tags and text, marking text that sits outside links, headings and code */
+const splitParts = (block: string): Part[] => {
+  const parts: Part[] = [];
+  const open: string[] = [];
+  let cursor = 0;
+  for (const match of Array.from(block.matchAll(TAG_PATTERN))) {
+    const [tag, closing, rawName, selfClosing] = match;
+    const index = match.index ?? 0;
+    if (index > cursor) parts.push({ html: block.slice(cursor, index), linkable: open.length === 0 });
+    parts.push({ html: tag, linkable: false });
+    cursor = index + tag.length;
+
+    const name = rawName.toLowerCase();
+    if (!NO_LINK_ELEMENTS.has(name) || selfClosing) continue;
+    if (closing) {
+      const at = open.lastIndexOf(name);
+      if (at !== -1) open.splice(at, 1);
+    } else {
+      open.push(name);
+    }
+  }
+  if (cursor < block.length) parts.push({ html: block.slice(cursor), linkable: open.length === 0 });
+  return parts;
+};
+
+const countLinks = (block: string) => (block.match(/<a\b/gi) ?? []).length;
+
+const contextOf = (block: string, anchorText: string) => {
+  const text = blockText(block);
+  const index = text.toLowerCase().indexOf(anchorText.toLowerCase());
+  if (index === -1) return text.slice(0, CONTEXT_CHARS * 2);
+  return text.slice(Math.max(0, index - CONTEXT_CHARS), index + anchorText.length + CONTEXT_CHARS).trim();
+};
+
+/** Generated links currently in the HTML */
+export function findAutoLinks(html: string): AutoLink[] {
+  return splitHtmlBlocks(html).flatMap((block) => Array.from(block.matchAll(AUTO_LINK_PATTERN)).map((match) => {
+    const anchorText = blockText(match[2]);
+    return {
+      targetPostId: match[1],
+      targetUrl: HREF_PATTERN.exec(match[0])?.[1] ?? '',
+      anchorText,
+      context: contextOf(block, anchorText),
+    };
+  }));
+}
+
+/** Wrap the first whole-word match of the target's phrases; returns the anchor text */
+const placeLink = (parts: Part[], target: InterlinkTarget): string | null => {
+  for (const phrase of target.phrases) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(escapeHtml(phrase))}(?![\\p{L}\\p{N}])`, 'iu');
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (!part.linkable) continue;
+      const match = pattern.exec(part.html);
+      if (!match) continue;
+
+      const start = match.index;
+      const end = start + match[0].length;
+      const anchor = `<a href="${escapeHtml(target.url)}" data-interlink="${escapeHtml(target.postId)}">${match[0]}</a>`;
+      parts.splice(
+        i,
+        1,
+        { html: part.html.slice(0, start), linkable: true },
+        { html: anchor, linkable: false },
+        { html: part.html.slice(end), linkable: true },
+      );
+      return blockText(match[0]);
+    }
+  }
+  return null;
+};
+
+/**
+ * Link the first natural mention of each target in the post HTML.
+ * Previously generated links are stripped first, so running this again
+ * regenerates them from scratch. Targets the author already links to are
+ * skipped, each target is linked at most once, and no link is placed in a
+ * heading, code, or inside another link. Targets earlier in the list win
+ * when two compete for the same paragraph.
+ */
+export function insertInterlinks(html: string, targets: InterlinkTarget[], options: InterlinkOptions): InterlinkPlan {
+  const { html: clean, removed } = stripAutoLinks(html);
+  const existingHrefs = new Set(Array.from(clean.matchAll(/<a\b[^>]*\bhref="([^"]*)"/gi)).map((match) => match[1]));
+  const pending = targets.filter((target) => !existingHrefs.has(target.url) && target.phrases.length > 0);
+  const links: PlannedLink[] = [];
+
+  const blocks = splitHtmlBlocks(clean).map((block, blockIndex) => {
+    if (links.length >= options.maxLinks || pending.length === 0 || SKIPPED_BLOCKS.test(block)) return block;
+
+    let budget = Math.min(options.maxPerParagraph - countLinks(block), options.maxLinks - links.length);
+    if (budget <= 0) return block;
+
+    const parts = splitParts(block);
+    for (let t = 0; t < pending.length && budget > 0;) {
+      const target = pending[t];
+      const placed = placeLink(parts, target);
+      if (!placed) {
+        t++;
+        continue;
+      }
+      pending.splice(t, 1);
+      budget--;
+      links.push({
+        targetPostId: target.postId,
+        targetUrl: target.url,
+        anchorText: placed,
+        blockIndex,
+        context: '',
+      });
+    }
+    return parts.map((part) => part.html).join('');
+  });
+
+  const result = joinHtmlBlocks(blocks);
+  for (const link of links) {
+    link.context = contextOf(blocks[link.blockIndex], link.anchorText);
+  }
+  return { html: links.length > 0 || removed > 0 ? result : html, links, removed };
+}
@@ -0,0 +1,263 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PostRevisionSource, PostStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { PostEmbeddingService } from './post-embedding.service';
+import { PostRevisionService } from './post-revision.service';
+import { InterlinkPreviewDto } from './dto/interlink.dto';
+import {
+  InterlinkOptions,
+  InterlinkPlan,
+  InterlinkTarget,
+  PlannedLink,
+  anchorPhrases,
+  findAutoLinks,
+  insertInterlinks,
+  stripAutoLinks,
+} from './interlink-engine';
+
+// Similar posts considered per source; most have no natural anchor in the text
+const MAX_CANDIDATES = 20;
+const DEFAULT_MAX_LINKS = 8;
+const DEFAULT_MAX_PER_PARAGRAPH = 1;
+
+const TARGET_SELECT = {
+  id: true,
+  slug: true,
+  title: true,
+  seoKeywords: true,
+} as const;
+
+type TargetPost = { id: string; slug: string; title: string; seoKeywords: string[] };
+
+type SourcePost = TargetPost & {
+  content: string;
+  tags: Array<{ id: string }>;
+  categories: Array<{ id: string }>;
+};
+
+export type PreviewLink = PlannedLink & { targetTitle: string };
+
+export type PostInterlinkPlan = {
+  postId: string;
+  title: string;
+  slug: string;
+  links: PreviewLink[];
+  removed: number;
+};
+
+const toTarget = (post: TargetPost): InterlinkTarget => ({
+  postId: post.id,
+  url: `/blog/${post.slug}`,
+  phrases: anchorPhrases(post.title, post.seoKeywords),
+});
+
+const sharesTaxonomy = (a: SourcePost, b: SourcePost) => (
+  a.tags.some((tag) => b.tags.some((other) => other.id === tag.id))
+  || a.categories.some((category) => b.categories.some((other) => other.id === category.id))
+);
+
+const withTitles = (plan: InterlinkPlan, titles: Map<string, string>): PreviewLink[] => (
+  plan.links.map((link) => ({ ...link, targetTitle: titles.get(link.targetPostId) ?? link.anchorText }))
+);
+
+/**
+ * Weaves internal links into post content. Targets come from the embeddings
+ * index (shared tags and categories when a post is not indexed); anchors are
+ * inserted by the interlink engine and mirrored as autoGenerated InternalLink rows.
+ */
+@Injectable()
+export class InterlinkService {
+  private readonly logger = new Logger(InterlinkService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private postEmbeddingService: PostEmbeddingService,
+    private postRevisionService: PostRevisionService,
+  ) {}
+
+  /**
+   * Links that would be inserted into one post, without saving anything.
+   * `content` previews unsaved editor HTML instead of the stored content;
+   * targets listed in `skip` are left out.
+   */
+  async preview(postId: string, payload: InterlinkPreviewDto) {
+    const post = await this.prisma.post.findUnique({ where: { id: postId }, select: { id: true, content: true } });
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+    const skip = new Set(payload.skip ?? []);
+    const content = payload.content !== undefined ? SanitizationUtil.sanitizeHTML(payload.content) : post.content;
+
+    const targets = (await this.findTargets(postId)).filter((target) => !skip.has(target.id));
+    const plan = insertInterlinks(content, targets.map(toTarget), await this.getOptions());
+    return {
+      content: plan.html,
+      links: withTitles(plan, new Map(targets.map((target) => [target.id, target.title]))),
+      removed: plan.removed,
+    };
+  }
+
+  /** Links the next interlinking run would insert, for every published post it would change */
+  async previewAll(): Promise<PostInterlinkPlan[]> {
+    const plans = await this.planAll();
+    return plans.map(({ summary }) => summary);
+  }
+
+  /**
+   * Regenerate the inserted links of every published post. Posts whose
+   * content comes out unchanged are not saved.
+   */
+  async applyAll() {
+    const plans = await this.planAll();
+    let linksCreated = 0;
+    for (const { post, plan } of plans) {
+      await this.saveContent(post.id, plan.html, {
+        source: PostRevisionSource.INTERLINK,
+        reason: plan.links.length > 0 ? `Inserted ${plan.links.length} internal links` : 'Removed generated internal links',
+      });
+      linksCreated += plan.links.length;
+    }
+    this.logger.log(`Interlinking updated ${plans.length} posts with ${linksCreated} links`);
+    return { postsUpdated: plans.length, linksCreated };
+  }
+
+  /** Remove every generated link from every post, keeping the anchor text */
+  async stripAll(userId?: string) {
+    const posts = await this.prisma.post.findMany({
+      where: { content: { contains: 'data-interlink=' } },
+      select: { id: true, content: true },
+    });
+    let linksRemoved = 0;
+    let postsUpdated = 0;
+    for (const post of posts) {
+      const { html, removed } = stripAutoLinks(post.content);
+      if (removed === 0) continue;
+      await this.saveContent(post.id, html, {
+        source: PostRevisionSource.INTERLINK,
+        reason: 'Removed generated internal links',
+        authorId: userId,
+      });
+      linksRemoved += removed;
+      postsUpdated++;
+    }
+    return { postsUpdated, linksRemoved };
+  }
+
+  /** Replace the post's autoGenerated InternalLink rows with the generated anchors in `html` */
+  async syncRecordedLinks(postId: string, html: string) {
+    const links = findAutoLinks(html);
+    const known = links.length > 0
+      ? new Set((await this.prisma.post.findMany({
+        where: { id: { in: links.map((link) => link.targetPostId) } },
+        select: { id: true },
+      })).map((post) => post.id))
+      : new Set<string>();
+
+    await this.prisma.$transaction([
+      this.prisma.internalLink.deleteMany({ where: { sourcePostId: postId, autoGenerated: true } }),
+      this.prisma.internalLink.createMany({
+        data: links.map((link) => ({
+          sourcePostId: postId,
+          targetPostId: known.has(link.targetPostId) ? link.targetPostId : null,
+          targetUrl: link.targetUrl,
+          anchorText: link.anchorText,
+          context: link.context,
+          autoGenerated: true,
+        })),
+      }),
+    ]);
+    return links.length;
+  }
+
+  private async getOptions(): Promise<InterlinkOptions> {
+    const settings = await this.prisma.siteSettings.findFirst({
+      select: { maxInterlinksPerPost: true, maxInterlinksPerParagraph: true },
+    });
+    return {
+      maxLinks: settings?.maxInterlinksPerPost || DEFAULT_MAX_LINKS,
+      maxPerParagraph: settings?.maxInterlinksPerParagraph || DEFAULT_MAX_PER_PARAGRAPH,
+    };
+  }
+
+  /** Published posts to link to from one post, most similar first */
+  private async findTargets(postId: string): Promise<TargetPost[]> {
+    const similar = await this.postEmbeddingService.findSimilar(postId, { limit: MAX_CANDIDATES });
+    if (similar) {
+      const posts = await this.prisma.post.findMany({
+        where: { id: { in: similar.map((item) => item.postId) }, status: PostStatus.PUBLISHED },
+        select: TARGET_SELECT,
+      });
+      const byId = new Map(posts.map((post) => [post.id, post]));
+      return similar.flatMap((item) => byId.get(item.postId) ?? []);
+    }
+
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId },
+      select: { tags: { select: { id: true } }, categories: { select: { id: true } } },
+    });
+    if (!post) return [];
+    return this.prisma.post.findMany({
+      where: {
+        id: { not: postId },
+        status: PostStatus.PUBLISHED,
+        OR: [
+          { tags: { some: { id: { in: post.tags.map((tag) => tag.id) } } } },
+          { categories: { some: { id: { in: post.categories.map((category) => category.id) } } } },
+        ],
+      },
+      orderBy: { publishedAt: 'desc' },
+      take: MAX_CANDIDATES,
+      select: TARGET_SELECT,
+    });
+  }
+
+  /** Plan every published post against the refreshed embeddings index, keeping only posts that change */
+  private async planAll() {
+    const options = await this.getOptions();
+    const posts: SourcePost[] = await this.prisma.post.findMany({
+      where: { status: PostStatus.PUBLISHED },
+      select: {
+        ...TARGET_SELECT,
+        content: true,
+        tags: { select: { id: true } },
+        categories: { select: { id: true } },
+      },
+    });
+
+    await this.postEmbeddingService.indexPosts();
+    const similarByPost = await this.postEmbeddingService.findSimilarForAll({ limit: MAX_CANDIDATES });
+    const byId = new Map(posts.map((post) => [post.id, post]));
+    const titles = new Map(posts.map((post) => [post.id, post.title]));
+
+    return posts.flatMap((post) => {
+      // Posts the embedding provider could not index fall back to shared tags and categories
+      const similar = similarByPost.get(post.id);
+      const targets = similar
+        ? similar.flatMap((item) => byId.get(item.postId) ?? [])
+        : posts.filter((other) => other.id !== post.id && sharesTaxonomy(post, other)).slice(0, MAX_CANDIDATES);
+
+      const plan = insertInterlinks(post.content, targets.map(toTarget), options);
+      if (plan.html === post.content) return [];
+      const summary: PostInterlinkPlan = {
+        postId: post.id,
+        title: post.title,
+        slug: post.slug,
+        links: withTitles(plan, titles),
+        removed: plan.removed,
+      };
+      return [{ post, plan, summary }];
+    });
+  }
+
+  private async saveContent(
+    postId: string,
+    content: string,
+    revision: { source: PostRevisionSource; reason: string; authorId?: string },
+  ) {
+    await this.postRevisionService.ensureBaseline(postId);
+    await this.prisma.post.update({ where: { id: postId }, data: { content } });
+    await this.syncRecordedLinks(postId, content);
+    await this.postRevisionService.record(postId, revision);
+  }
+}
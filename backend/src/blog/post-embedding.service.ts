@@ -0,0 +1,210 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PostStatus } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { EmbeddingService } from '../ai/embedding.service';
+import { cosineSimilarity } from '../ai/embedding-math';
+import { blockText } from './html-blocks';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.35;
+
+// Roughly 2k tokens: the title, excerpt and opening sections carry the topic
+const MAX_EMBED_CHARS = 8000;
+const INDEX_BATCH_SIZE = 16;
+// Ranking compares against the whole index, so it is kept in memory between requests
+const INDEX_CACHE_TTL = 5 * 60 * 1000;
+
+export type SimilarPost = {
+  postId: string;
+  similarity: number;
+};
+
+export type IndexResult = {
+  indexed: number;
+  unchanged: number;
+  failed: number;
+  provider: string;
+  model: string;
+};
+
+type SimilarityOptions = {
+  limit: number;
+  /** Defaults to SiteSettings.similarityThreshold */
+  threshold?: number;
+  excludeIds?: string[];
+};
+
+type IndexEntry = { postId: string; vector: number[] };
+
+type EmbeddableFields = { title: string; excerpt: string | null; content: string };
+
+const POST_SELECT = {
+  id: true,
+  title: true,
+  excerpt: true,
+  content: true,
+  embedding: { select: { provider: true, model: true, contentHash: true } },
+} as const;
+
+type IndexablePost = EmbeddableFields & {
+  id: string;
+  embedding: { provider: string; model: string; contentHash: string } | null;
+};
+
+const embeddingText = (post: EmbeddableFields) => (
+  [post.title, post.excerpt ?? '', blockText(post.content)]
+    .filter(Boolean)
+    .join('\n\n')
+    .slice(0, MAX_EMBED_CHARS)
+);
+
+const hashText = (text: string) => createHash('sha256').update(text).digest('hex');
+
+const rank = (source: IndexEntry, candidates: IndexEntry[], threshold: number, options: SimilarityOptions) => {
+  const excluded = new Set([source.postId, ...(options.excludeIds ?? [])]);
+  return candidates
+    .filter((candidate) => !excluded.has(candidate.postId))
+    .map((candidate) => ({ postId: candidate.postId, similarity: cosineSimilarity(source.vector, candidate.vector) }))
+    .filter((item) => item.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit);
+};
+
+/**
+ * Embeddings index of post content for related posts and interlinking.
+ * Vectors live in PostEmbedding and are compared in memory, which is fine
+ * for a blog-sized corpus; only vectors from the current provider and model
+ * are compared. The published index is cached for INDEX_CACHE_TTL and
+ * dropped whenever posts are (re)indexed, so a request does not reload
+ * every vector.
+ */
+@Injectable()
+export class PostEmbeddingService {
+  private readonly logger = new Logger(PostEmbeddingService.name);
+  private indexCache: { key: string; entries: Promise<IndexEntry[]>; loadedAt: number } | null = null;
+
+  constructor(
+    private prisma: PrismaService,
+    private embeddingService: EmbeddingService,
+  ) {}
+
+  /**
+   * Embed the given posts (all published posts by default) whose text,
+   * provider or model changed since they were last indexed. Provider errors
+   * are logged and counted rather than thrown, so saving a post never fails
+   * because of the index.
+   */
+  async indexPosts(postIds?: string[]): Promise<IndexResult> {
+    const posts = await this.prisma.post.findMany({
+      where: postIds ? { id: { in: postIds } } : { status: PostStatus.PUBLISHED },
+      select: POST_SELECT,
+    });
+    return this.embedStale(posts);
+  }
+
+  /** Index one post using fields that are about to be saved in place of the stored ones */
+  async indexPost(postId: string, pending: Partial<EmbeddableFields> = {}): Promise<IndexResult> {
+    const post = await this.prisma.post.findUnique({ where: { id: postId }, select: POST_SELECT });
+    return this.embedStale(post ? [{ ...post, ...pending }] : []);
+  }
+
+  /**
+   * Published posts most similar to the given one, best first. Null when the
+   * post has no embedding from the current model, so callers can fall back
+   * to tag and category overlap. Reads the index only; index the post first
+   * when its content just changed.
+   */
+  async findSimilar(postId: string, options: SimilarityOptions): Promise<SimilarPost[] | null> {
+    const { provider, options: resolved } = await this.embeddingService.resolve();
+    const source = await this.prisma.postEmbedding.findUnique({
+      where: { postId },
+      select: { postId: true, vector: true, provider: true, model: true },
+    });
+    if (!source || source.provider !== provider.id || source.model !== resolved.model) return null;
+
+    const candidates = await this.loadIndex(provider.id, resolved.model);
+    return rank(source, candidates, options.threshold ?? await this.getThreshold(), options);
+  }
+
+  /** findSimilar for every indexed published post, loading the index once */
+  async findSimilarForAll(options: SimilarityOptions): Promise<Map<string, SimilarPost[]>> {
+    const { provider, options: resolved } = await this.embeddingService.resolve();
+    const index = await this.loadIndex(provider.id, resolved.model);
+    const threshold = options.threshold ?? await this.getThreshold();
+    return new Map(index.map((source) => [source.postId, rank(source, index, threshold, options)]));
+  }
+
+  async getThreshold(): Promise<number> {
+    const settings = await this.prisma.siteSettings.findFirst({ select: { similarityThreshold: true } });
+    const threshold = settings?.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    return Math.max(0, Math.min(1, threshold));
+  }
+
+  private async embedStale(posts: IndexablePost[]): Promise<IndexResult> {
+    // Saving or publishing a post reindexes it, which can also change whether it is in the published index
+    if (posts.length > 0) this.indexCache = null;
+    const { provider, options } = await this.embeddingService.resolve();
+    const stale = posts
+      .map((post) => {
+        const text = embeddingText(post);
+        return { id: post.id, text, hash: hashText(text), current: post.embedding };
+      })
+      .filter(({ hash, current }) => (
+        !current || current.provider !== provider.id || current.model !== options.model || current.contentHash !== hash
+      ));
+
+    let indexed = 0;
+    let failed = 0;
+    for (let start = 0; start < stale.length; start += INDEX_BATCH_SIZE) {
+      const batch = stale.slice(start, start + INDEX_BATCH_SIZE);
+      try {
+        const vectors = await provider.embed(batch.map((post) => post.text), options);
+        for (const [index, post] of batch.entries()) {
+          const data = {
+            provider: provider.id,
+            model: options.model,
+            dimensions: vectors[index].length,
+            vector: vectors[index],
+            contentHash: post.hash,
+          };
+          await this.prisma.postEmbedding.upsert({
+            where: { postId: post.id },
+            create: { postId: post.id, ...data },
+            update: data,
+          });
+          indexed++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to embed ${batch.length} post(s) with ${provider.id}/${options.model}: ${message}`);
+        failed += batch.length;
+      }
+    }
+
+    return { indexed, unchanged: posts.length - stale.length, failed, provider: provider.id, model: options.model };
+  }
+
+  private loadIndex(provider: string, model: string): Promise<IndexEntry[]> {
+    const key = `${provider}/${model}`;
+    const now = Date.now();
+    if (this.indexCache?.key === key && now - this.indexCache.loadedAt < INDEX_CACHE_TTL) {
+      return this.indexCache.entries;
+    }
+
+    const entries = this.queryIndex(provider, model);
+    const cache = { key, entries, loadedAt: now };
+    this.indexCache = cache;
+    // A failed load is not cached
+    entries.catch(() => {
+      if (this.indexCache === cache) this.indexCache = null;
+    });
+    return entries;
+  }
+
+  private async queryIndex(provider: string, model: string): Promise<IndexEntry[]> {
+    return this.prisma.postEmbedding.findMany({
+      where: { provider, model, post: { status: PostStatus.PUBLISHED } },
+      select: { postId: true, vector: true },
+    });
+  }
+}
@@ -0,0 +1,174 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PostRevisionSource } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { countHtmlWords } from './html-blocks';
+
+export type RevisionMeta = {
+  source?: PostRevisionSource;
+  reason?: string | null;
+  authorId?: string | null;
+};
+
+const AUTHOR_SELECT = { id: true, username: true, displayName: true } as const;
+
+const SNAPSHOT_INCLUDE = {
+  tags: { select: { id: true } },
+  categories: { select: { id: true } },
+} as const;
+
+type Snapshot = {
+  title: string;
+  content: string;
+  excerpt: string | null;
+  seoTitle: string | null;
+  seoDescription: string | null;
+  seoKeywords: string[];
+  categoryIds: string[];
+  tagIds: string[];
+};
+
+const sameList = (a: string[], b: string[]) => (
+  a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n')
+);
+
+const sameSnapshot = (a: Snapshot, b: Snapshot) => (
+  a.title === b.title
+  && a.content === b.content
+  && a.excerpt === b.excerpt
+  && a.seoTitle === b.seoTitle
+  && a.seoDescription === b.seoDescription
+  && sameList(a.seoKeywords, b.seoKeywords)
+  && sameList(a.categoryIds, b.categoryIds)
+  && sameList(a.tagIds, b.tagIds)
+);
+
+@Injectable()
+export class PostRevisionService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Snapshot the post as it is now. Called after every save; a save that
+   * left the tracked fields unchanged (status or slug only) adds nothing.
+   */
+  async record(postId: string, meta: RevisionMeta = {}) {
+    const post = await this.prisma.post.findUnique({ where: { id: postId }, include: SNAPSHOT_INCLUDE });
+    if (!post) return null;
+
+    const snapshot: Snapshot = {
+      title: post.title,
+      content: post.content,
+      excerpt: post.excerpt,
+      seoTitle: post.seoTitle,
+      seoDescription: post.seoDescription,
+      seoKeywords: post.seoKeywords,
+      categoryIds: post.categories.map((category) => category.id),
+      tagIds: post.tags.map((tag) => tag.id),
+    };
+
+    const latest = await this.prisma.postRevision.findFirst({
+      where: { postId },
+      orderBy: { revisionNumber: 'desc' },
+    });
+    if (latest && sameSnapshot(latest, snapshot)) return latest;
+
+    return this.prisma.postRevision.create({
+      data: {
+        postId,
+        revisionNumber: (latest?.revisionNumber || 0) + 1,
+        ...snapshot,
+        wordCount: countHtmlWords(post.content),
+        source: meta.source ?? PostRevisionSource.EDITOR,
+        reason: meta.reason?.trim() || null,
+        authorId: meta.authorId ?? null,
+      },
+    });
+  }
+
+  /**
+   * Posts written before revisions were tracked have no history; keep their
+   * current state as revision 1 before the first tracked save replaces it.
+   */
+  async ensureBaseline(postId: string) {
+    const existing = await this.prisma.postRevision.count({ where: { postId } });
+    if (existing > 0) return;
+
+    const post = await this.prisma.post.findUnique({ where: { id: postId }, select: { authorId: true } });
+    if (!post) return;
+
+    await this.record(postId, { reason: 'Before revision history', authorId: post.authorId });
+  }
+
+  async list(postId: string) {
+    const post = await this.prisma.post.findUnique({ where: { id: postId }, select: { id: true } });
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    return this.prisma.postRevision.findMany({
+      where: { postId },
+      orderBy: { revisionNumber: 'desc' },
+      select: {
+        id: true,
+        revisionNumber: true,
+        title: true,
+        wordCount: true,
+        source: true,
+        reason: true,
+        createdAt: true,
+        author: { select: AUTHOR_SELECT },
+      },
+    });
+  }
+
+  async get(postId: string, revisionNumber: number) {
+    const revision = await this.prisma.postRevision.findUnique({
+      where: { postId_revisionNumber: { postId, revisionNumber } },
+      include: { author: { select: AUTHOR_SELECT } },
+    });
+    if (!revision) {
+      throw new NotFoundException('Revision not found');
+    }
+
+    const [categories, tags] = await Promise.all([
+      this.prisma.category.findMany({ where: { id: { in: revision.categoryIds } }, select: { id: true, name: true } }),
+      this.prisma.tag.findMany({ where: { id: { in: revision.tagIds } }, select: { id: true, name: true } }),
+    ]);
+
+    return { ...revision, categories, tags };
+  }
+
+  /**
+   * Put a revision's fields back on the post and record the result as a new
+   * revision. Categories and tags deleted since the revision are skipped.
+   */
+  async restore(postId: string, revisionNumber: number, userId: string) {
+    const revision = await this.get(postId, revisionNumber);
+    const wordCount = countHtmlWords(revision.content);
+
+    await this.ensureBaseline(postId);
+    const post = await this.prisma.post.update({
+      where: { id: postId },
+      data: {
+        title: revision.title,
+        content: revision.content,
+        excerpt: revision.excerpt,
+        seoTitle: revision.seoTitle,
+        seoDescription: revision.seoDescription,
+        seoKeywords: revision.seoKeywords,
+        categories: { set: revision.categories.map((category) => ({ id: category.id })) },
+        tags: { set: revision.tags.map((tag) => ({ id: tag.id })) },
+        wordCount,
+        readingTime: Math.max(1, Math.ceil(wordCount / 200)),
+      },
+      include: { tags: true, categories: true, author: true },
+    });
+
+    await this.record(postId, {
+      source: PostRevisionSource.RESTORE,
+      reason: `Restored from revision ${revisionNumber}`,
+      authorId: userId,
+    });
+
+    return post;
+  }
+}
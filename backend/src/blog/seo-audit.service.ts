@@ -81,6 +81,27 @@ export class SEOAuditService {
     };
   }
 
+  /**
+   * Audit a freshly generated post and keep the score in aiMetadata.seoAuditScore,
+   * the SEO outcome tracked per prompt version. Returns null when the audit fails.
+   */
+  async recordGenerationScore(postId: string): Promise<number | null> {
+    try {
+      const audit = await this.auditPost(postId);
+      const post = await this.prisma.post.findUnique({ where: { id: postId }, select: { aiMetadata: true } });
+      const metadata = post?.aiMetadata && typeof post.aiMetadata === 'object' && !Array.isArray(post.aiMetadata)
+        ? post.aiMetadata
+        : {};
+      await this.prisma.post.update({
+        where: { id: postId },
+        data: { aiMetadata: { ...metadata, seoAuditScore: audit.score } },
+      });
+      return audit.score;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Site-wide SEO audit
    */
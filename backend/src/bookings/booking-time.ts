@@ -0,0 +1,175 @@
+import { JsonValue } from '../common/types/json';
+
+export type BookingConfig = {
+  timezone: string;
+  siteVisitMinutes: number;
+  slotIntervalMinutes: number;
+  minNoticeHours: number;
+  horizonDays: number;
+  reminderHours: number;
+};
+
+export type DayHours = { start: string; end: string };
+export type WorkingHours = Record<number, DayHours | null>;
+
+export const DEFAULT_BOOKING_CONFIG: BookingConfig = {
+  timezone: 'Asia/Dubai',
+  siteVisitMinutes: 60,
+  slotIntervalMinutes: 60,
+  minNoticeHours: 24,
+  horizonDays: 21,
+  reminderHours: 24,
+};
+
+const DEFAULT_DAY: DayHours = { start: '08:00', end: '17:00' };
+
+// Monday to Saturday when a crew has no hours configured
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  0: null,
+  1: DEFAULT_DAY,
+  2: DEFAULT_DAY,
+  3: DEFAULT_DAY,
+  4: DEFAULT_DAY,
+  5: DEFAULT_DAY,
+  6: DEFAULT_DAY,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const toNumber = (value: unknown, fallback: number) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return fallback;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export function parseBookingConfig(value: unknown): BookingConfig {
+  if (!isRecord(value)) return DEFAULT_BOOKING_CONFIG;
+  const timezone = typeof value.timezone === 'string' && isValidTimezone(value.timezone)
+    ? value.timezone
+    : DEFAULT_BOOKING_CONFIG.timezone;
+  return {
+    timezone,
+    siteVisitMinutes: clamp(Math.round(toNumber(value.siteVisitMinutes, DEFAULT_BOOKING_CONFIG.siteVisitMinutes)), 15, 480),
+    slotIntervalMinutes: clamp(Math.round(toNumber(value.slotIntervalMinutes, DEFAULT_BOOKING_CONFIG.slotIntervalMinutes)), 15, 480),
+    minNoticeHours: clamp(toNumber(value.minNoticeHours, DEFAULT_BOOKING_CONFIG.minNoticeHours), 0, 24 * 14),
+    horizonDays: clamp(Math.round(toNumber(value.horizonDays, DEFAULT_BOOKING_CONFIG.horizonDays)), 1, 120),
+    reminderHours: clamp(toNumber(value.reminderHours, DEFAULT_BOOKING_CONFIG.reminderHours), 1, 24 * 7),
+  };
+}
+
+const parseDayHours = (value: unknown): DayHours | null => {
+  if (!isRecord(value)) return null;
+  const start = typeof value.start === 'string' ? value.start : '';
+  const end = typeof value.end === 'string' ? value.end : '';
+  if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || start >= end) return null;
+  return { start, end };
+};
+
+export function parseWorkingHours(value: unknown): WorkingHours {
+  if (!isRecord(value)) return DEFAULT_WORKING_HOURS;
+  const hours: WorkingHours = {};
+  for (let day = 0; day < 7; day += 1) {
+    hours[day] = parseDayHours(value[String(day)]);
+  }
+  return hours;
+}
+
+export function serializeWorkingHours(hours: WorkingHours): Record<string, JsonValue> {
+  const result: Record<string, JsonValue> = {};
+  for (let day = 0; day < 7; day += 1) {
+    const entry = hours[day];
+    result[String(day)] = entry ? { start: entry.start, end: entry.end } : null;
+  }
+  return result;
+}
+
+export const isDateString = (value: unknown): value is string => (
+  typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`))
+);
+
+export const addDays = (date: string, days: number) => {
+  const base = new Date(`${date}T00:00:00Z`);
+  base.setUTCDate(base.getUTCDate() + days);
+  return base.toISOString().slice(0, 10);
+};
+
+export const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const zonedParts = (date: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value || 0);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+const timezoneOffset = (date: Date, timezone: string) => {
+  const parts = zonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Converts a wall-clock date and time in the business timezone to a UTC instant.
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const first = guess - timezoneOffset(new Date(guess), timezone);
+  // Re-check once so instants either side of a DST change land correctly
+  return new Date(guess - timezoneOffset(new Date(first), timezone));
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the business timezone.
+ */
+export function zonedDateOf(date: Date, timezone: string): string {
+  const parts = zonedParts(date, timezone);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+export function formatZoned(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+}
@@ -0,0 +1,177 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { Request as ExpressRequest } from 'express';
+import { Throttle, minutes } from '@nestjs/throttler';
+import { BookingsService } from './bookings.service';
+import { Public } from '../auth/public.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import { CaptchaService } from '../captcha/captcha.service';
+import {
+  BookSiteVisitDto,
+  BookingDto,
+  BookingStatusDto,
+  CreateBlackoutDto,
+  CreateCrewDto,
+  ListBlackoutsQueryDto,
+  ListBookingsQueryDto,
+  ListCrewsQueryDto,
+  SiteVisitSlotsQueryDto,
+  UpdateBookingConfigDto,
+  UpdateCrewDto,
+} from './dto/booking.dto';
+
+// Each booking holds a crew slot and sends an email, so visitors get only a few tries
+const SITE_VISIT_THROTTLE = { default: { limit: 5, ttl: minutes(1) } };
+
+@Controller('bookings')
+export class BookingsController {
+  constructor(
+    private readonly bookingsService: BookingsService,
+    private readonly captchaService: CaptchaService,
+  ) {}
+
+  @Public()
+  @Get('site-visit-slots')
+  getSiteVisitSlots(@Query() query: SiteVisitSlotsQueryDto) {
+    return this.bookingsService.getSiteVisitSlots(query);
+  }
+
+  @Public()
+  @Throttle(SITE_VISIT_THROTTLE)
+  @Post('site-visit')
+  async bookSiteVisit(@Body() dto: BookSiteVisitDto, @Request() req: ExpressRequest) {
+    if (dto.captchaToken) {
+      // req.ip honours the 'trust proxy' setting in main.ts; X-Forwarded-For itself is client-controlled
+      const ip = req.ip || req.socket?.remoteAddress || '0.0.0.0';
+      const valid = await this.captchaService.verify(dto.captchaToken, ip, dto.captchaId, dto.captchaType);
+      if (!valid) throw new BadRequestException('Invalid Captcha');
+    }
+    return this.bookingsService.bookSiteVisit(dto);
+  }
+
+  @Public()
+  @Post('site-visit/:id/confirm')
+  confirmSiteVisit(@Param('id') id: string, @Query('token') token: string) {
+    return this.bookingsService.confirmSiteVisit(id, token);
+  }
+
+  @Get('config')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  getConfig() {
+    return this.bookingsService.getConfig();
+  }
+
+  @Put('config')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  updateConfig(@Body() dto: UpdateBookingConfigDto) {
+    return this.bookingsService.updateConfig(dto);
+  }
+
+  @Get('crews')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  listCrews(@Query() query: ListCrewsQueryDto) {
+    return this.bookingsService.listCrews(query);
+  }
+
+  @Post('crews')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  createCrew(@Body() dto: CreateCrewDto) {
+    return this.bookingsService.createCrew(dto);
+  }
+
+  @Put('crews/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  updateCrew(@Param('id') id: string, @Body() dto: UpdateCrewDto) {
+    return this.bookingsService.updateCrew(id, dto);
+  }
+
+  @Delete('crews/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  deleteCrew(@Param('id') id: string) {
+    return this.bookingsService.deleteCrew(id);
+  }
+
+  @Get('blackouts')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  listBlackouts(@Query() query: ListBlackoutsQueryDto) {
+    return this.bookingsService.listBlackouts(query);
+  }
+
+  @Post('blackouts')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  createBlackout(@Body() dto: CreateBlackoutDto) {
+    return this.bookingsService.createBlackout(dto);
+  }
+
+  @Delete('blackouts/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  deleteBlackout(@Param('id') id: string) {
+    return this.bookingsService.deleteBlackout(id);
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  listBookings(@Query() query: ListBookingsQueryDto) {
+    return this.bookingsService.listBookings(query);
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  createBooking(@Body() dto: BookingDto, @Request() req: AuthenticatedRequest) {
+    return this.bookingsService.createBooking(dto, req.user?.id || req.user?.userId);
+  }
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  getBooking(@Param('id') id: string) {
+    return this.bookingsService.getBooking(id);
+  }
+
+  @Put(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  updateBooking(@Param('id') id: string, @Body() dto: BookingDto) {
+    return this.bookingsService.updateBooking(id, dto);
+  }
+
+  @Patch(':id/status')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  updateStatus(@Param('id') id: string, @Body() dto: BookingStatusDto) {
+    return this.bookingsService.updateStatus(id, dto);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  deleteBooking(@Param('id') id: string) {
+    return this.bookingsService.deleteBooking(id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { BookingsService } from './bookings.service';
+import { BookingsController } from './bookings.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { CaptchaModule } from '../captcha/captcha.module';
+
+@Module({
+  imports: [PrismaModule, SettingsModule, NotificationsModule, CaptchaModule],
+  controllers: [BookingsController],
+  providers: [BookingsService],
+  exports: [BookingsService],
+})
+export class BookingsModule {}
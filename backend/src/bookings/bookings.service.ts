@@ -0,0 +1,896 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Booking,
+  BookingStatus,
+  BookingType,
+  Crew,
+  CrewBlackout,
+  Prisma,
+  QuoteStatus,
+  Role,
+} from '@prisma/client';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { MailService } from '../mail/mail.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import {
+  BookingConfig,
+  addDays,
+  formatZoned,
+  isDateString,
+  isValidTimezone,
+  parseBookingConfig,
+  parseWorkingHours,
+  serializeWorkingHours,
+  weekdayOf,
+  zonedDateOf,
+  zonedTimeToUtc,
+} from './booking-time';
+import {
+  BookSiteVisitDto,
+  BookingDto,
+  BookingStatusDto,
+  CreateBlackoutDto,
+  CreateCrewDto,
+  ListBlackoutsQueryDto,
+  ListBookingsQueryDto,
+  ListCrewsQueryDto,
+  SiteVisitSlotsQueryDto,
+  UpdateBookingConfigDto,
+  UpdateCrewDto,
+} from './dto/booking.dto';
+
+const MAX_CALENDAR_DAYS = 62;
+const MAX_SLOT_DAYS = 14;
+const MAX_JOB_DAYS = 60;
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// How long a self-booked site visit holds its slot while waiting for the emailed confirmation
+const SITE_VISIT_HOLD_MS = 2 * HOUR_MS;
+
+const ACTIVE_STATUSES: BookingStatus[] = [BookingStatus.TENTATIVE, BookingStatus.CONFIRMED];
+
+const STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  [BookingStatus.TENTATIVE]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+  [BookingStatus.CONFIRMED]: [BookingStatus.TENTATIVE, BookingStatus.COMPLETED, BookingStatus.CANCELLED],
+  [BookingStatus.COMPLETED]: [BookingStatus.CONFIRMED],
+  [BookingStatus.CANCELLED]: [BookingStatus.TENTATIVE, BookingStatus.CONFIRMED],
+};
+
+const overlaps = (startA: Date, endA: Date, startB: Date, endB: Date) => (
+  startA < endB && startB < endA
+);
+
+type BookingWindow = Pick<Booking, 'id' | 'crewId' | 'startsAt' | 'endsAt'>;
+
+type SiteVisitSlot = { startsAt: Date; endsAt: Date; crewIds: string[] };
+
+/** Crew columns a create or update payload may set; only those present are written */
+type CrewFields = {
+  name?: string;
+  color?: string;
+  members?: string[];
+  active?: boolean;
+  takesSiteVisits?: boolean;
+  workingHours?: Prisma.InputJsonValue | Prisma.NullTypes.DbNull;
+  leadUserId?: string | null;
+};
+
+const LEAD_USER_SELECT = { id: true, username: true, firstName: true, lastName: true, email: true } as const;
+
+const CREW_SUMMARY = { select: { id: true, name: true, color: true } } as const;
+
+const frontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+/**
+ * Bookings Service
+ * Schedules site visits and jobs against crew working hours, blackout days
+ * and existing bookings, and sends reminders ahead of each appointment.
+ */
+@Injectable()
+export class BookingsService {
+  private readonly logger = new Logger(BookingsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+    private mailService: MailService,
+    private notificationsService: NotificationsService,
+    private config: ConfigService,
+  ) {}
+
+  private optionalText(value: string | null | undefined, maxLength: number): string | null {
+    if (!value) return null;
+    const text = SanitizationUtil.sanitizeText(value).slice(0, maxLength);
+    return text || null;
+  }
+
+  private parseDate(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return null;
+    return date;
+  }
+
+  private normalizeStringArray(value: string[], maxItems: number): string[] {
+    return value
+      .map((item) => this.optionalText(item, 100))
+      .filter((item): item is string => Boolean(item))
+      .slice(0, maxItems);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Configuration
+  // ---------------------------------------------------------------------------
+
+  async getConfig(): Promise<BookingConfig> {
+    const settings = await this.settingsService.getSettings();
+    return parseBookingConfig(settings.bookingConfig);
+  }
+
+  async updateConfig(body: UpdateBookingConfigDto) {
+    if (body.timezone !== undefined && !isValidTimezone(body.timezone)) {
+      throw new BadRequestException(`Unknown timezone "${body.timezone}"`);
+    }
+    const config = parseBookingConfig({ ...(await this.getConfig()), ...body });
+    await this.settingsService.updateSettings({
+      bookingConfig: config,
+    });
+    this.logger.log('Booking configuration updated');
+    return config;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Crews
+  // ---------------------------------------------------------------------------
+
+  private parseCrewData(body: CreateCrewDto | UpdateCrewDto, partial: boolean): CrewFields {
+    const data: CrewFields = {};
+
+    if (!partial || body.name !== undefined) {
+      const name = this.optionalText(body.name, 100);
+      if (!name) throw new BadRequestException('Crew name is required');
+      data.name = name;
+    }
+    if (body.color !== undefined) {
+      data.color = body.color;
+    }
+    if (body.members !== undefined) {
+      data.members = this.normalizeStringArray(body.members, 20);
+    }
+    if (body.active !== undefined) {
+      data.active = body.active;
+    }
+    if (body.takesSiteVisits !== undefined) {
+      data.takesSiteVisits = body.takesSiteVisits;
+    }
+    if (body.workingHours !== undefined) {
+      data.workingHours = body.workingHours === null
+        ? Prisma.DbNull
+        : serializeWorkingHours(parseWorkingHours(body.workingHours));
+    }
+    if (body.leadUserId !== undefined) {
+      data.leadUserId = body.leadUserId || null;
+    }
+
+    return data;
+  }
+
+  private async ensureLeadUser(leadUserId: string | null | undefined) {
+    if (!leadUserId) return;
+    const user = await this.prisma.user.findUnique({ where: { id: leadUserId }, select: { id: true } });
+    if (!user) throw new BadRequestException('Crew lead user not found');
+  }
+
+  private serializeCrew(crew: Crew & { leadUser?: { id: string; username: string; firstName: string | null; lastName: string | null; email: string } | null }) {
+    return {
+      ...crew,
+      workingHours: serializeWorkingHours(parseWorkingHours(crew.workingHours)),
+    };
+  }
+
+  async listCrews(query: ListCrewsQueryDto = {}) {
+    const includeInactive = query.includeInactive === 'true';
+    const crews = await this.prisma.crew.findMany({
+      where: includeInactive ? {} : { active: true },
+      orderBy: { name: 'asc' },
+      include: { leadUser: { select: LEAD_USER_SELECT } },
+    });
+    return crews.map((crew) => this.serializeCrew(crew));
+  }
+
+  async createCrew(body: CreateCrewDto) {
+    const { name, ...data } = this.parseCrewData(body, false);
+    if (!name) throw new BadRequestException('Crew name is required');
+    await this.ensureLeadUser(data.leadUserId);
+    const crew = await this.prisma.crew.create({
+      data: { ...data, name },
+      include: { leadUser: { select: LEAD_USER_SELECT } },
+    });
+    return this.serializeCrew(crew);
+  }
+
+  async updateCrew(id: string, body: UpdateCrewDto) {
+    const existing = await this.prisma.crew.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) throw new NotFoundException('Crew not found');
+
+    const data = this.parseCrewData(body, true);
+    await this.ensureLeadUser(data.leadUserId);
+    const crew = await this.prisma.crew.update({
+      where: { id },
+      data,
+      include: { leadUser: { select: LEAD_USER_SELECT } },
+    });
+    return this.serializeCrew(crew);
+  }
+
+  async deleteCrew(id: string) {
+    const crew = await this.prisma.crew.findUnique({
+      where: { id },
+      include: { _count: { select: { bookings: true } } },
+    });
+    if (!crew) throw new NotFoundException('Crew not found');
+    if (crew._count.bookings > 0) {
+      throw new BadRequestException('Crew has bookings. Deactivate it instead of deleting.');
+    }
+    await this.prisma.crew.delete({ where: { id } });
+    return { success: true };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Blackouts
+  // ---------------------------------------------------------------------------
+
+  async listBlackouts(query: ListBlackoutsQueryDto = {}) {
+    const from = isDateString(query.from) ? new Date(`${query.from}T00:00:00Z`) : null;
+    const to = isDateString(query.to) ? new Date(`${query.to}T00:00:00Z`) : null;
+    return this.prisma.crewBlackout.findMany({
+      where: {
+        ...(from ? { endDate: { gte: from } } : {}),
+        ...(to ? { startDate: { lte: to } } : {}),
+      },
+      orderBy: { startDate: 'asc' },
+      include: { crew: CREW_SUMMARY },
+    });
+  }
+
+  async createBlackout(body: CreateBlackoutDto) {
+    if (!isDateString(body.startDate)) {
+      throw new BadRequestException('Start date must be in YYYY-MM-DD format');
+    }
+    const endDate = isDateString(body.endDate) ? body.endDate : body.startDate;
+    if (endDate < body.startDate) {
+      throw new BadRequestException('End date must be on or after the start date');
+    }
+
+    const crewId = body.crewId || null;
+    if (crewId) {
+      const crew = await this.prisma.crew.findUnique({ where: { id: crewId }, select: { id: true } });
+      if (!crew) throw new BadRequestException('Crew not found');
+    }
+
+    return this.prisma.crewBlackout.create({
+      data: {
+        crewId,
+        startDate: new Date(`${body.startDate}T00:00:00Z`),
+        endDate: new Date(`${endDate}T00:00:00Z`),
+        reason: this.optionalText(body.reason, 200),
+      },
+      include: { crew: CREW_SUMMARY },
+    });
+  }
+
+  async deleteBlackout(id: string) {
+    const blackout = await this.prisma.crewBlackout.findUnique({ where: { id }, select: { id: true } });
+    if (!blackout) throw new NotFoundException('Blackout not found');
+    await this.prisma.crewBlackout.delete({ where: { id } });
+    return { success: true };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Availability
+  // ---------------------------------------------------------------------------
+
+  private isBlackedOut(crewId: string, date: string, blackouts: CrewBlackout[]) {
+    return blackouts.some((blackout) => (
+      (!blackout.crewId || blackout.crewId === crewId)
+      && blackout.startDate.toISOString().slice(0, 10) <= date
+      && blackout.endDate.toISOString().slice(0, 10) >= date
+    ));
+  }
+
+  private async loadBlackouts(fromDate: string, toDate: string) {
+    return this.prisma.crewBlackout.findMany({
+      where: {
+        startDate: { lte: new Date(`${toDate}T00:00:00Z`) },
+        endDate: { gte: new Date(`${fromDate}T00:00:00Z`) },
+      },
+    });
+  }
+
+  private async loadActiveBookings(from: Date, to: Date, crewIds?: string[]): Promise<BookingWindow[]> {
+    return this.prisma.booking.findMany({
+      where: {
+        status: { in: ACTIVE_STATUSES },
+        startsAt: { lt: to },
+        endsAt: { gt: from },
+        ...(crewIds ? { crewId: { in: crewIds } } : {}),
+      },
+      select: { id: true, crewId: true, startsAt: true, endsAt: true },
+    });
+  }
+
+  /**
+   * Builds the site-visit slots for a range of days. A slot is offered when at
+   * least one site-visit crew is working, not blacked out and not booked.
+   */
+  private async computeSiteVisitSlots(config: BookingConfig, fromDate: string, days: number) {
+    const crews = await this.prisma.crew.findMany({
+      where: { active: true, takesSiteVisits: true },
+      orderBy: { name: 'asc' },
+    });
+    const toDate = addDays(fromDate, days - 1);
+    const rangeStart = zonedTimeToUtc(fromDate, '00:00', config.timezone);
+    const rangeEnd = zonedTimeToUtc(addDays(toDate, 1), '00:00', config.timezone);
+    const [blackouts, bookings] = await Promise.all([
+      this.loadBlackouts(fromDate, toDate),
+      this.loadActiveBookings(rangeStart, rangeEnd, crews.map((crew) => crew.id)),
+    ]);
+
+    const earliest = new Date(Date.now() + config.minNoticeHours * HOUR_MS);
+    const duration = config.siteVisitMinutes * MINUTE_MS;
+    const interval = config.slotIntervalMinutes * MINUTE_MS;
+    const result: Array<{ date: string; slots: SiteVisitSlot[] }> = [];
+
+    for (let offset = 0; offset < days; offset += 1) {
+      const date = addDays(fromDate, offset);
+      const weekday = weekdayOf(date);
+      const slots = new Map<number, SiteVisitSlot>();
+
+      for (const crew of crews) {
+        const hours = parseWorkingHours(crew.workingHours)[weekday];
+        if (!hours || this.isBlackedOut(crew.id, date, blackouts)) continue;
+
+        const dayStart = zonedTimeToUtc(date, hours.start, config.timezone).getTime();
+        const dayEnd = zonedTimeToUtc(date, hours.end, config.timezone).getTime();
+        const crewBookings = bookings.filter((booking) => booking.crewId === crew.id);
+
+        for (let start = dayStart; start + duration <= dayEnd; start += interval) {
+          const startsAt = new Date(start);
+          const endsAt = new Date(start + duration);
+          if (startsAt < earliest) continue;
+          if (crewBookings.some((booking) => overlaps(startsAt, endsAt, booking.startsAt, booking.endsAt))) continue;
+
+          const slot = slots.get(start) || { startsAt, endsAt, crewIds: [] };
+          slot.crewIds.push(crew.id);
+          slots.set(start, slot);
+        }
+      }
+
+      result.push({
+        date,
+        slots: Array.from(slots.values()).sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime()),
+      });
+    }
+
+    return result;
+  }
+
+  async getSiteVisitSlots(query: SiteVisitSlotsQueryDto) {
+    const config = await this.getConfig();
+    const today = zonedDateOf(new Date(), config.timezone);
+    const lastDate = addDays(today, config.horizonDays - 1);
+    const fromDate = isDateString(query.from) && query.from > today ? query.from : today;
+    if (fromDate > lastDate) {
+      return { timezone: config.timezone, durationMinutes: config.siteVisitMinutes, days: [] };
+    }
+
+    const requestedDays = Math.min(Math.max(query.days || 7, 1), MAX_SLOT_DAYS);
+    const remaining = Math.round((Date.parse(`${lastDate}T00:00:00Z`) - Date.parse(`${fromDate}T00:00:00Z`)) / (24 * HOUR_MS)) + 1;
+    const days = await this.computeSiteVisitSlots(config, fromDate, Math.min(requestedDays, remaining));
+
+    return {
+      timezone: config.timezone,
+      durationMinutes: config.siteVisitMinutes,
+      days: days.map((day) => ({
+        date: day.date,
+        slots: day.slots.map((slot) => ({
+          startsAt: slot.startsAt.toISOString(),
+          endsAt: slot.endsAt.toISOString(),
+          label: formatZoned(slot.startsAt, config.timezone),
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Holds a slot for a visitor as a TENTATIVE booking and emails them a link
+   * to confirm it. Holds not confirmed within SITE_VISIT_HOLD_MS are
+   * cancelled, so a typed-in address cannot keep a crew booked.
+   */
+  async bookSiteVisit(body: BookSiteVisitDto) {
+    const config = await this.getConfig();
+
+    const startsAt = this.parseDate(body.startsAt);
+    if (!startsAt) throw new BadRequestException('Please choose a time slot');
+
+    let name = this.optionalText(body.name, 100);
+    let email = body.email ? SanitizationUtil.sanitizeEmail(body.email) || '' : '';
+    let phone = this.optionalText(body.phone, 30);
+    const address = this.optionalText(body.address, 300);
+    const notes = this.optionalText(body.notes, 2000);
+
+    const quoteRequestId = body.quoteRequestId || null;
+    let quote: { id: string; name: string; email: string; phone: string | null } | null = null;
+    if (quoteRequestId) {
+      quote = await this.prisma.quoteRequest.findUnique({
+        where: { id: quoteRequestId },
+        select: { id: true, name: true, email: true, phone: true },
+      });
+      // The email acts as a lightweight proof that the visitor owns the enquiry
+      if (!quote || !email || quote.email.toLowerCase() !== email.toLowerCase()) {
+        throw new BadRequestException('Quote request not found');
+      }
+      name = name || quote.name;
+      email = quote.email;
+      phone = phone || quote.phone;
+    }
+
+    if (!name) throw new BadRequestException('Name is required');
+    if (!email) throw new BadRequestException('A valid email is required');
+
+    const date = zonedDateOf(startsAt, config.timezone);
+    const [day] = await this.computeSiteVisitSlots(config, date, 1);
+    const slot = day.slots.find((item) => item.startsAt.getTime() === startsAt.getTime());
+    const today = zonedDateOf(new Date(), config.timezone);
+    if (!slot || date > addDays(today, config.horizonDays - 1)) {
+      throw new ConflictException('That time is no longer available. Please pick another slot.');
+    }
+
+    const booking = await this.prisma.$transaction(async (tx) => {
+      // Re-check inside the transaction so two visitors cannot take the same crew slot
+      let crewId: string | null = null;
+      for (const candidate of slot.crewIds) {
+        const clash = await tx.booking.count({
+          where: {
+            crewId: candidate,
+            status: { in: ACTIVE_STATUSES },
+            startsAt: { lt: slot.endsAt },
+            endsAt: { gt: slot.startsAt },
+          },
+        });
+        if (clash === 0) {
+          crewId = candidate;
+          break;
+        }
+      }
+      if (!crewId) {
+        throw new ConflictException('That time is no longer available. Please pick another slot.');
+      }
+
+      return tx.booking.create({
+        data: {
+          type: BookingType.SITE_VISIT,
+          status: BookingStatus.TENTATIVE,
+          title: `Site visit: ${name}`,
+          crewId,
+          quoteRequestId: quote?.id || null,
+          customerName: name,
+          customerEmail: email,
+          customerPhone: phone,
+          address,
+          notes,
+          startsAt: slot.startsAt,
+          endsAt: slot.endsAt,
+          confirmBy: new Date(Date.now() + SITE_VISIT_HOLD_MS),
+        },
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    try {
+      await this.mailService.sendBookingEmail(email, {
+        kind: 'REQUEST',
+        title: 'Site visit',
+        when: formatZoned(booking.startsAt, config.timezone),
+        address,
+        confirmUrl: this.siteVisitConfirmUrl(booking.id),
+      }, name);
+    } catch (error: unknown) {
+      // Without the link the hold can never be confirmed, so give the slot back now
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Site visit ${booking.id} released: confirmation email failed: ${message}`);
+      await this.prisma.booking.update({
+        where: { id: booking.id },
+        data: { status: BookingStatus.CANCELLED, confirmBy: null },
+      });
+      throw new ServiceUnavailableException('We could not email you a confirmation link. Please try again later.');
+    }
+
+    return {
+      id: booking.id,
+      startsAt: booking.startsAt,
+      endsAt: booking.endsAt,
+      label: formatZoned(booking.startsAt, config.timezone),
+      confirmBy: booking.confirmBy,
+    };
+  }
+
+  /** Confirms a held site visit from the emailed link; repeat clicks are harmless */
+  async confirmSiteVisit(id: string, token: string) {
+    this.assertConfirmToken(id, token);
+    const booking = await this.prisma.booking.findUnique({ where: { id } });
+    if (!booking) throw new NotFoundException('Booking not found');
+
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      const confirmed = await this.prisma.booking.updateMany({
+        where: { id, status: BookingStatus.TENTATIVE, confirmBy: { gt: new Date() } },
+        data: { status: BookingStatus.CONFIRMED, confirmBy: null },
+      });
+      if (confirmed.count === 0) {
+        throw new BadRequestException('This booking has expired. Please choose a new time.');
+      }
+      if (booking.quoteRequestId) {
+        await this.prisma.quoteRequest.updateMany({
+          where: { id: booking.quoteRequestId, status: QuoteStatus.NEW },
+          data: { status: QuoteStatus.SITE_VISIT_BOOKED, statusChangedAt: new Date() },
+        });
+      }
+    }
+
+    const config = await this.getConfig();
+    return {
+      id: booking.id,
+      startsAt: booking.startsAt,
+      endsAt: booking.endsAt,
+      label: formatZoned(booking.startsAt, config.timezone),
+      address: booking.address,
+    };
+  }
+
+  /** Cancels self-booked site visits whose confirmation window has passed */
+  async expireUnconfirmedSiteVisits(now = new Date()): Promise<number> {
+    const result = await this.prisma.booking.updateMany({
+      where: { status: BookingStatus.TENTATIVE, confirmBy: { lt: now } },
+      data: { status: BookingStatus.CANCELLED, confirmBy: null },
+    });
+    return result.count;
+  }
+
+  private siteVisitConfirmUrl(id: string) {
+    return `${frontendUrl()}/bookings/confirm?id=${encodeURIComponent(id)}&token=${this.signConfirmToken(id)}`;
+  }
+
+  private assertConfirmToken(id: string, token: string) {
+    const expected = Buffer.from(this.signConfirmToken(id));
+    const actual = Buffer.from(token ?? '');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new BadRequestException('This link is invalid');
+    }
+  }
+
+  private signConfirmToken(id: string) {
+    const secret = this.config.get<string>('JWT_SECRET') ?? '';
+    return createHmac('sha256', secret).update(`site-visit:confirm:${id}`).digest('hex').slice(0, 32);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Bookings
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lists overlapping bookings and blackout days for a crew and time range.
+   */
+  private async findConflicts(
+    crewId: string,
+    startsAt: Date,
+    endsAt: Date,
+    timezone: string,
+    excludeId?: string,
+  ): Promise<string[]> {
+    const firstDate = zonedDateOf(startsAt, timezone);
+    const lastDate = zonedDateOf(new Date(endsAt.getTime() - 1), timezone);
+    const [bookings, blackouts] = await Promise.all([
+      this.prisma.booking.findMany({
+        where: {
+          crewId,
+          status: { in: ACTIVE_STATUSES },
+          startsAt: { lt: endsAt },
+          endsAt: { gt: startsAt },
+          ...(excludeId ? { id: { not: excludeId } } : {}),
+        },
+        orderBy: { startsAt: 'asc' },
+        select: { title: true, startsAt: true },
+      }),
+      this.loadBlackouts(firstDate, lastDate),
+    ]);
+
+    const conflicts = bookings.map((booking) => (
+      `overlaps "${booking.title}" (${formatZoned(booking.startsAt, timezone)})`
+    ));
+    for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+      if (this.isBlackedOut(crewId, date, blackouts)) {
+        conflicts.push(`crew is unavailable on ${date}`);
+      }
+    }
+    return conflicts;
+  }
+
+  private async parseBookingData(body: BookingDto, existing?: Booking) {
+    const type = body.type || existing?.type;
+    if (!type) throw new BadRequestException('Booking type is required');
+
+    const crewId = body.crewId || existing?.crewId;
+    if (!crewId) throw new BadRequestException('Crew is required');
+    const crew = await this.prisma.crew.findUnique({ where: { id: crewId }, select: { id: true, active: true } });
+    if (!crew) throw new BadRequestException('Crew not found');
+    if (!crew.active && crewId !== existing?.crewId) {
+      throw new BadRequestException('Crew is inactive');
+    }
+
+    const startsAt = body.startsAt !== undefined ? this.parseDate(body.startsAt) : existing?.startsAt;
+    const endsAt = body.endsAt !== undefined ? this.parseDate(body.endsAt) : existing?.endsAt;
+    if (!startsAt || !endsAt) throw new BadRequestException('Start and end times are required');
+    if (endsAt <= startsAt) throw new BadRequestException('End time must be after the start time');
+    if (endsAt.getTime() - startsAt.getTime() > MAX_JOB_DAYS * 24 * HOUR_MS) {
+      throw new BadRequestException(`Bookings cannot span more than ${MAX_JOB_DAYS} days`);
+    }
+
+    const pick = (
+      key: 'title' | 'customerName' | 'customerPhone' | 'address' | 'notes',
+      maxLength: number,
+      current: string | null | undefined,
+    ) => (
+      body[key] !== undefined ? this.optionalText(body[key], maxLength) : current ?? null
+    );
+
+    let quoteRequestId = existing?.quoteRequestId ?? null;
+    if (body.quoteRequestId !== undefined) {
+      quoteRequestId = body.quoteRequestId || null;
+    }
+    const quote = quoteRequestId
+      ? await this.prisma.quoteRequest.findUnique({
+          where: { id: quoteRequestId },
+          select: { id: true, name: true, email: true, phone: true },
+        })
+      : null;
+    if (quoteRequestId && !quote) throw new BadRequestException('Quote request not found');
+
+    const customerName = pick('customerName', 100, existing?.customerName) || quote?.name;
+    if (!customerName) throw new BadRequestException('Customer name is required');
+
+    let customerEmail = existing?.customerEmail ?? null;
+    if (body.customerEmail !== undefined) {
+      customerEmail = body.customerEmail?.trim()
+        ? SanitizationUtil.sanitizeEmail(body.customerEmail) || null
+        : null;
+    }
+
+    const title = pick('title', 200, existing?.title)
+      || `${type === BookingType.SITE_VISIT ? 'Site visit' : 'Job'}: ${customerName}`;
+
+    return {
+      type,
+      title,
+      crewId,
+      quoteRequestId,
+      customerName,
+      customerEmail: customerEmail || quote?.email || null,
+      customerPhone: pick('customerPhone', 30, existing?.customerPhone) || quote?.phone || null,
+      address: pick('address', 300, existing?.address),
+      notes: pick('notes', 2000, existing?.notes),
+      startsAt,
+      endsAt,
+    };
+  }
+
+  async listBookings(query: ListBookingsQueryDto) {
+    const from = this.parseDate(query.from) || new Date(Date.now() - 7 * 24 * HOUR_MS);
+    let to = this.parseDate(query.to) || new Date(from.getTime() + 35 * 24 * HOUR_MS);
+    if (to <= from) throw new BadRequestException('"to" must be after "from"');
+    if (to.getTime() - from.getTime() > MAX_CALENDAR_DAYS * 24 * HOUR_MS) {
+      to = new Date(from.getTime() + MAX_CALENDAR_DAYS * 24 * HOUR_MS);
+    }
+
+    const where: Prisma.BookingWhereInput = {
+      startsAt: { lt: to },
+      endsAt: { gt: from },
+    };
+    if (query.crewId) where.crewId = query.crewId;
+    if (query.status) where.status = query.status;
+    else if (query.includeCancelled !== 'true') where.status = { not: BookingStatus.CANCELLED };
+    if (query.type) where.type = query.type;
+
+    const data = await this.prisma.booking.findMany({
+      where,
+      orderBy: { startsAt: 'asc' },
+      include: { crew: CREW_SUMMARY },
+    });
+    return { data, from, to };
+  }
+
+  async getBooking(id: string) {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id },
+      include: {
+        crew: CREW_SUMMARY,
+        quoteRequest: { select: { id: true, name: true, email: true, serviceType: true, status: true } },
+        createdBy: { select: LEAD_USER_SELECT },
+      },
+    });
+    if (!booking) throw new NotFoundException('Booking not found');
+    return booking;
+  }
+
+  async createBooking(body: BookingDto, userId?: string) {
+    const config = await this.getConfig();
+    const data = await this.parseBookingData(body);
+    const status = body.status === BookingStatus.TENTATIVE ? BookingStatus.TENTATIVE : BookingStatus.CONFIRMED;
+
+    if (body.force !== true) {
+      const conflicts = await this.findConflicts(data.crewId, data.startsAt, data.endsAt, config.timezone);
+      if (conflicts.length > 0) {
+        throw new ConflictException(`Booking conflicts: ${conflicts.join('; ')}`);
+      }
+    }
+
+    const booking = await this.prisma.booking.create({
+      data: { ...data, status, createdById: userId || null },
+      include: { crew: CREW_SUMMARY },
+    });
+
+    if (data.type === BookingType.SITE_VISIT && data.quoteRequestId) {
+      await this.prisma.quoteRequest.updateMany({
+        where: { id: data.quoteRequestId, status: QuoteStatus.NEW },
+        data: { status: QuoteStatus.SITE_VISIT_BOOKED, statusChangedAt: new Date() },
+      });
+    }
+
+    return booking;
+  }
+
+  async updateBooking(id: string, body: BookingDto) {
+    const existing = await this.prisma.booking.findUnique({ where: { id } });
+    if (!existing) throw new NotFoundException('Booking not found');
+    if (existing.status === BookingStatus.CANCELLED || existing.status === BookingStatus.COMPLETED) {
+      throw new BadRequestException('Reopen the booking before editing it');
+    }
+
+    const config = await this.getConfig();
+    const data = await this.parseBookingData(body, existing);
+    const moved = data.crewId !== existing.crewId
+      || data.startsAt.getTime() !== existing.startsAt.getTime()
+      || data.endsAt.getTime() !== existing.endsAt.getTime();
+
+    if (moved && body.force !== true) {
+      const conflicts = await this.findConflicts(data.crewId, data.startsAt, data.endsAt, config.timezone, id);
+      if (conflicts.length > 0) {
+        throw new ConflictException(`Booking conflicts: ${conflicts.join('; ')}`);
+      }
+    }
+
+    return this.prisma.booking.update({
+      where: { id },
+      data: {
+        ...data,
+        // A rescheduled booking should be reminded again
+        ...(data.startsAt.getTime() !== existing.startsAt.getTime() ? { reminderSentAt: null } : {}),
+      },
+      include: { crew: CREW_SUMMARY },
+    });
+  }
+
+  async updateStatus(id: string, { status, force }: BookingStatusDto) {
+    const booking = await this.prisma.booking.findUnique({ where: { id } });
+    if (!booking) throw new NotFoundException('Booking not found');
+    if (booking.status === status) return this.getBooking(id);
+    if (!STATUS_TRANSITIONS[booking.status].includes(status)) {
+      throw new BadRequestException(`Cannot move a booking from ${booking.status} to ${status}`);
+    }
+
+    if (!ACTIVE_STATUSES.includes(booking.status) && ACTIVE_STATUSES.includes(status) && force !== true) {
+      const config = await this.getConfig();
+      const conflicts = await this.findConflicts(booking.crewId, booking.startsAt, booking.endsAt, config.timezone, id);
+      if (conflicts.length > 0) {
+        throw new ConflictException(`Booking conflicts: ${conflicts.join('; ')}`);
+      }
+    }
+
+    return this.prisma.booking.update({
+      where: { id },
+      // Staff have decided, so a pending self-booking hold no longer expires
+      data: { status, confirmBy: null },
+      include: { crew: CREW_SUMMARY },
+    });
+  }
+
+  async deleteBooking(id: string) {
+    const booking = await this.prisma.booking.findUnique({ where: { id }, select: { id: true } });
+    if (!booking) throw new NotFoundException('Booking not found');
+    await this.prisma.booking.delete({ where: { id } });
+    return { success: true };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Reminders
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Emails customers and notifies crew leads about confirmed bookings that
+   * start within the configured reminder window.
+   */
+  async sendDueReminders(): Promise<number> {
+    const config = await this.getConfig();
+    const now = new Date();
+    const bookings = await this.prisma.booking.findMany({
+      where: {
+        status: BookingStatus.CONFIRMED,
+        reminderSentAt: null,
+        startsAt: { gt: now, lte: new Date(now.getTime() + config.reminderHours * HOUR_MS) },
+      },
+      orderBy: { startsAt: 'asc' },
+      take: 100,
+      include: { crew: { select: { name: true, leadUserId: true } } },
+    });
+    if (bookings.length === 0) return 0;
+
+    const admin = await this.prisma.user.findFirst({
+      where: { role: { in: [Role.SUPER_ADMIN, Role.ADMINISTRATOR] } },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    let sent = 0;
+    for (const booking of bookings) {
+      const when = formatZoned(booking.startsAt, config.timezone);
+      try {
+        if (booking.customerEmail) {
+          await this.mailService.sendBookingEmail(booking.customerEmail, {
+            kind: 'REMINDER',
+            title: booking.type === BookingType.SITE_VISIT ? 'Site visit' : booking.title,
+            when,
+            address: booking.address,
+          }, booking.customerName);
+        }
+
+        const createdById = booking.createdById || admin?.id;
+        if (createdById) {
+          const leadUserId = booking.crew.leadUserId;
+          await this.notificationsService.createNotification({
+            title: `Upcoming: ${booking.title}`,
+            message: `${booking.crew.name} is booked for ${when}${booking.address ? ` at ${booking.address}` : ''}.`,
+            type: 'INFO',
+            priority: 'HIGH',
+            status: 'SENT',
+            channels: ['IN_APP', 'EMAIL'],
+            audience: leadUserId ? 'USER' : 'ROLE',
+            targetUserIds: leadUserId ? [leadUserId] : [],
+            targetRoles: leadUserId ? [] : [Role.ADMINISTRATOR, Role.SUPER_ADMIN],
+            actionLabel: 'Open calendar',
+            actionUrl: '/dashboard/bookings',
+          }, createdById);
+        }
+
+        await this.prisma.booking.update({
+          where: { id: booking.id },
+          data: { reminderSentAt: new Date() },
+        });
+        sent += 1;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn(`Reminder for booking ${booking.id} failed: ${message}`);
+      }
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,284 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsBooleanString,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { BookingStatus, BookingType } from '@prisma/client';
+import { DayHours } from '../booking-time';
+
+const isPresent = (_: unknown, value: unknown) => value !== null && value !== undefined;
+// The admin form sends '' for a time it has not filled in yet
+const isFilled = (_: unknown, value: unknown) => value !== null && value !== undefined && value !== '';
+
+export class SiteVisitSlotsQueryDto {
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  @IsOptional()
+  @IsInt()
+  days?: number;
+}
+
+export class BookSiteVisitDto {
+  @IsDateString({}, { message: 'Please choose a time slot' })
+  startsAt: string;
+
+  // Optional when booking against a quote request, which supplies the contact details
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  phone?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  address?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+
+  @ValidateIf(isPresent)
+  @IsString()
+  quoteRequestId?: string | null;
+
+  @IsOptional()
+  @IsString()
+  captchaToken?: string;
+
+  @IsOptional()
+  @IsString()
+  captchaId?: string;
+
+  @IsOptional()
+  @IsString()
+  captchaType?: string;
+}
+
+/** Fields left out keep their current value; the timezone is checked by the service */
+export class UpdateBookingConfigDto {
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @IsOptional()
+  @IsNumber()
+  siteVisitMinutes?: number;
+
+  @IsOptional()
+  @IsNumber()
+  slotIntervalMinutes?: number;
+
+  @IsOptional()
+  @IsNumber()
+  minNoticeHours?: number;
+
+  @IsOptional()
+  @IsNumber()
+  horizonDays?: number;
+
+  @IsOptional()
+  @IsNumber()
+  reminderHours?: number;
+}
+
+export class ListCrewsQueryDto {
+  // Kept as a 'true' / 'false' string: implicit conversion would turn 'false' into true
+  @IsOptional()
+  @IsBooleanString()
+  includeInactive?: string;
+}
+
+class CrewFieldsDto {
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'Colour must be a hex value like #3B82F6' })
+  color?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  members?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  takesSiteVisits?: boolean;
+
+  // Keyed by weekday, 0 for Sunday; null falls back to the default hours
+  @ValidateIf(isPresent)
+  @IsObject()
+  workingHours?: Record<string, DayHours | null> | null;
+
+  // null or '' removes the crew lead
+  @ValidateIf(isPresent)
+  @IsString()
+  leadUserId?: string | null;
+}
+
+export class CreateCrewDto extends CrewFieldsDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Crew name is required' })
+  name: string;
+}
+
+/** Fields left out keep their current value */
+export class UpdateCrewDto extends CrewFieldsDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty({ message: 'Crew name is required' })
+  name?: string;
+}
+
+export class ListBlackoutsQueryDto {
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  @IsOptional()
+  @IsString()
+  to?: string;
+}
+
+/** Dates are YYYY-MM-DD; the end date defaults to the start date */
+export class CreateBlackoutDto {
+  @IsString({ message: 'Start date must be in YYYY-MM-DD format' })
+  startDate: string;
+
+  @IsOptional()
+  @IsString()
+  endDate?: string;
+
+  // null applies the blackout to every crew
+  @ValidateIf(isPresent)
+  @IsString()
+  crewId?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  reason?: string;
+}
+
+export class ListBookingsQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  crewId?: string;
+
+  @IsOptional()
+  @IsEnum(BookingStatus)
+  status?: BookingStatus;
+
+  @IsOptional()
+  @IsEnum(BookingType)
+  type?: BookingType;
+
+  @IsOptional()
+  @IsBooleanString()
+  includeCancelled?: string;
+}
+
+/** Fields left out keep their current value on update */
+export class BookingDto {
+  @IsOptional()
+  @IsEnum(BookingType, { message: 'Invalid booking type' })
+  type?: BookingType;
+
+  // Only TENTATIVE or CONFIRMED are used when creating; later changes go through the status endpoint
+  @IsOptional()
+  @IsEnum(BookingStatus, { message: 'Invalid status' })
+  status?: BookingStatus;
+
+  @IsOptional()
+  @IsString()
+  crewId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+
+  // null unlinks the quote request
+  @ValidateIf(isPresent)
+  @IsString()
+  quoteRequestId?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  customerName?: string;
+
+  // An empty string clears the address, so the format is checked by the service
+  @IsOptional()
+  @IsString()
+  customerEmail?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  customerPhone?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  address?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+
+  @ValidateIf(isFilled)
+  @IsDateString()
+  startsAt?: string;
+
+  @ValidateIf(isFilled)
+  @IsDateString()
+  endsAt?: string;
+
+  /** Saves even when the booking overlaps another booking or a blackout */
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
+
+export class BookingStatusDto {
+  @IsEnum(BookingStatus, { message: 'Invalid status' })
+  status: BookingStatus;
+
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
@@ -0,0 +1,49 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  Param,
+  Post,
+  Put,
+  Request,
+} from '@nestjs/common';
+import { CalendarService } from './calendar.service';
+import { Public } from '../auth/public.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import { CalendarFeedScopesDto } from './dto/calendar-feed.dto';
+
+@Controller('calendar')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get('feed')
+  getFeed(@Request() req: AuthenticatedRequest) {
+    return this.calendarService.getFeed(req.user?.id || req.user?.userId);
+  }
+
+  @Post('feed')
+  rotateFeed(@Body() dto: CalendarFeedScopesDto, @Request() req: AuthenticatedRequest) {
+    return this.calendarService.rotateFeed(req.user?.id || req.user?.userId, dto);
+  }
+
+  @Put('feed')
+  updateFeed(@Body() dto: CalendarFeedScopesDto, @Request() req: AuthenticatedRequest) {
+    return this.calendarService.updateFeed(req.user?.id || req.user?.userId, dto);
+  }
+
+  @Delete('feed')
+  revokeFeed(@Request() req: AuthenticatedRequest) {
+    return this.calendarService.revokeFeed(req.user?.id || req.user?.userId);
+  }
+
+  // Calendar apps cannot send cookies or headers, so the token in the URL is the credential
+  @Public()
+  @Get('feeds/:token')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Cache-Control', 'private, max-age=300')
+  renderFeed(@Param('token') token: string) {
+    return this.calendarService.renderFeed(token);
+  }
+}
@@ -0,0 +1,417 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  BookingStatus,
+  NotificationStatus,
+  PageStatus,
+  PostStatus,
+  Prisma,
+  Role,
+} from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { IcsEvent, buildCalendar } from './ics';
+import { CalendarFeedScopesDto } from './dto/calendar-feed.dto';
+
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const MAX_FEED_EVENTS = 1000;
+const CONTENT_EVENT_MINUTES = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Roles that see every scheduled item rather than only their own
+const EDITORIAL_ROLES: Role[] = [Role.EDITOR, Role.ADMINISTRATOR, Role.SUPER_ADMIN];
+
+const frontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+const backendUrl = () => (process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+
+// Stable across reschedules; SEQUENCE tells clients which copy is newer
+const sequenceOf = (date: Date) => Math.floor(date.getTime() / 1000);
+
+type FeedOwner = { id: string; role: Role };
+
+/**
+ * Calendar Service
+ * Publishes per-user iCalendar feeds of scheduled content, notification
+ * campaigns and bookings, and emails authors an .ics when content is scheduled.
+ */
+@Injectable()
+export class CalendarService {
+  private readonly logger = new Logger(CalendarService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+  ) {}
+
+  private generateToken() {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private feedUrl(token: string) {
+    return `${backendUrl()}/calendar/feeds/${token}.ics`;
+  }
+
+  private serializeFeed(feed: {
+    token: string;
+    includeContent: boolean;
+    includeCampaigns: boolean;
+    includeBookings: boolean;
+    lastAccessedAt: Date | null;
+    createdAt: Date;
+  }) {
+    return {
+      url: this.feedUrl(feed.token),
+      includeContent: feed.includeContent,
+      includeCampaigns: feed.includeCampaigns,
+      includeBookings: feed.includeBookings,
+      lastAccessedAt: feed.lastAccessedAt,
+      createdAt: feed.createdAt,
+    };
+  }
+
+  private parseScopes(body: CalendarFeedScopesDto) {
+    const scopes: CalendarFeedScopesDto = {};
+    for (const key of ['includeContent', 'includeCampaigns', 'includeBookings'] as const) {
+      if (body[key] !== undefined) scopes[key] = body[key];
+    }
+    return scopes;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Feed management
+  // ---------------------------------------------------------------------------
+
+  async getFeed(userId: string) {
+    const feed = await this.prisma.calendarFeed.findUnique({ where: { userId } });
+    return { feed: feed ? this.serializeFeed(feed) : null };
+  }
+
+  /**
+   * Creates the user's feed, or issues a new token when one already exists so
+   * any previously shared URL stops working.
+   */
+  async rotateFeed(userId: string, body: CalendarFeedScopesDto) {
+    const scopes = this.parseScopes(body);
+    const token = this.generateToken();
+    const feed = await this.prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId, token, ...scopes },
+      update: { token, lastAccessedAt: null, ...scopes },
+    });
+    this.logger.log(`Calendar feed token issued for user ${userId}`);
+    return { feed: this.serializeFeed(feed) };
+  }
+
+  async updateFeed(userId: string, body: CalendarFeedScopesDto) {
+    const existing = await this.prisma.calendarFeed.findUnique({ where: { userId }, select: { id: true } });
+    if (!existing) throw new NotFoundException('Calendar feed not found');
+    const scopes = this.parseScopes(body);
+    if (Object.keys(scopes).length === 0) {
+      throw new BadRequestException('Nothing to update');
+    }
+    const feed = await this.prisma.calendarFeed.update({ where: { userId }, data: scopes });
+    return { feed: this.serializeFeed(feed) };
+  }
+
+  async revokeFeed(userId: string) {
+    await this.prisma.calendarFeed.deleteMany({ where: { userId } });
+    return { success: true };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Feed rendering
+  // ---------------------------------------------------------------------------
+
+  private async contentEvents(owner: FeedOwner, from: Date, to: Date): Promise<IcsEvent[]> {
+    const ownOnly = !EDITORIAL_ROLES.includes(owner.role);
+    const window = { gte: from, lte: to };
+    const [posts, pages] = await Promise.all([
+      this.prisma.post.findMany({
+        where: {
+          scheduledFor: window,
+          status: { in: [PostStatus.SCHEDULED, PostStatus.APPROVED_DRAFT, PostStatus.DRAFT, PostStatus.PUBLISHED] },
+          ...(ownOnly ? { authorId: owner.id } : {}),
+        },
+        orderBy: { scheduledFor: 'asc' },
+        take: MAX_FEED_EVENTS,
+        select: { id: true, title: true, slug: true, excerpt: true, status: true, scheduledFor: true, updatedAt: true },
+      }),
+      this.prisma.page.findMany({
+        where: {
+          scheduledFor: window,
+          status: { in: [PageStatus.SCHEDULED, PageStatus.DRAFT, PageStatus.PUBLISHED] },
+          ...(ownOnly ? { authorId: owner.id } : {}),
+        },
+        orderBy: { scheduledFor: 'asc' },
+        take: MAX_FEED_EVENTS,
+        select: { id: true, title: true, slug: true, description: true, status: true, scheduledFor: true, updatedAt: true },
+      }),
+    ]);
+
+    const events: IcsEvent[] = [];
+    for (const post of posts) {
+      events.push(this.postEvent(post));
+    }
+    for (const page of pages) {
+      events.push(this.pageEvent(page));
+    }
+    return events;
+  }
+
+  private postEvent(post: {
+    id: string;
+    title: string;
+    excerpt: string | null;
+    status: PostStatus;
+    scheduledFor: Date | null;
+    updatedAt: Date;
+  }): IcsEvent {
+    const start = post.scheduledFor as Date;
+    return {
+      uid: `post-${post.id}@calendar`,
+      start,
+      end: new Date(start.getTime() + CONTENT_EVENT_MINUTES * 60 * 1000),
+      summary: `Publish: ${post.title}`,
+      description: [post.excerpt, `Status: ${post.status}`].filter(Boolean).join('\n\n'),
+      url: `${frontendUrl()}/dashboard/posts/edit/${post.id}`,
+      categories: ['Blog post'],
+      // Drafts with a date are still only a plan
+      status: post.status === PostStatus.SCHEDULED || post.status === PostStatus.PUBLISHED ? 'CONFIRMED' : 'TENTATIVE',
+      sequence: sequenceOf(post.updatedAt),
+      updatedAt: post.updatedAt,
+    };
+  }
+
+  private pageEvent(page: {
+    id: string;
+    title: string;
+    description: string | null;
+    status: PageStatus;
+    scheduledFor: Date | null;
+    updatedAt: Date;
+  }): IcsEvent {
+    const start = page.scheduledFor as Date;
+    return {
+      uid: `page-${page.id}@calendar`,
+      start,
+      end: new Date(start.getTime() + CONTENT_EVENT_MINUTES * 60 * 1000),
+      summary: `Publish page: ${page.title}`,
+      description: [page.description, `Status: ${page.status}`].filter(Boolean).join('\n\n'),
+      url: `${frontendUrl()}/dashboard/pages/${page.id}/edit`,
+      categories: ['Page'],
+      status: page.status === PageStatus.DRAFT ? 'TENTATIVE' : 'CONFIRMED',
+      sequence: sequenceOf(page.updatedAt),
+      updatedAt: page.updatedAt,
+    };
+  }
+
+  private async campaignEvents(owner: FeedOwner, from: Date, to: Date): Promise<IcsEvent[]> {
+    // Campaigns are managed from the notifications dashboard, which is editorial-only
+    if (!EDITORIAL_ROLES.includes(owner.role)) return [];
+    const notifications = await this.prisma.notification.findMany({
+      where: {
+        sendAt: { gte: from, lte: to },
+        status: { in: [NotificationStatus.SCHEDULED, NotificationStatus.SENT, NotificationStatus.DRAFT] },
+      },
+      orderBy: { sendAt: 'asc' },
+      take: MAX_FEED_EVENTS,
+      select: { id: true, title: true, message: true, status: true, audience: true, channels: true, sendAt: true, updatedAt: true },
+    });
+
+    return notifications.map((notification) => {
+      const start = notification.sendAt as Date;
+      return {
+        uid: `notification-${notification.id}@calendar`,
+        start,
+        end: new Date(start.getTime() + CONTENT_EVENT_MINUTES * 60 * 1000),
+        summary: `Campaign: ${notification.title}`,
+        description: `${notification.message}\n\nAudience: ${notification.audience}\nChannels: ${notification.channels.join(', ')}`,
+        url: `${frontendUrl()}/dashboard/notifications`,
+        categories: ['Notification campaign'],
+        status: notification.status === NotificationStatus.DRAFT ? 'TENTATIVE' : 'CONFIRMED',
+        sequence: sequenceOf(notification.updatedAt),
+        updatedAt: notification.updatedAt,
+      };
+    });
+  }
+
+  private async bookingEvents(owner: FeedOwner, from: Date, to: Date): Promise<IcsEvent[]> {
+    // Office staff see every crew; anyone else sees the crews they lead
+    const where: Prisma.BookingWhereInput = {
+      startsAt: { lt: to },
+      endsAt: { gt: from },
+    };
+    if (!EDITORIAL_ROLES.includes(owner.role)) {
+      where.crew = { leadUserId: owner.id };
+    }
+    const bookings = await this.prisma.booking.findMany({
+      where,
+      orderBy: { startsAt: 'asc' },
+      take: MAX_FEED_EVENTS,
+      include: { crew: { select: { name: true } } },
+    });
+
+    return bookings.map((booking) => ({
+      uid: `booking-${booking.id}@calendar`,
+      start: booking.startsAt,
+      end: booking.endsAt,
+      summary: `${booking.title} (${booking.crew.name})`,
+      description: [
+        `Customer: ${booking.customerName}`,
+        booking.customerPhone ? `Phone: ${booking.customerPhone}` : null,
+        booking.notes,
+      ].filter(Boolean).join('\n'),
+      location: booking.address,
+      url: `${frontendUrl()}/dashboard/bookings`,
+      categories: [booking.type === 'SITE_VISIT' ? 'Site visit' : 'Job'],
+      status: booking.status === BookingStatus.CANCELLED
+        ? 'CANCELLED'
+        : booking.status === BookingStatus.TENTATIVE ? 'TENTATIVE' : 'CONFIRMED',
+      sequence: sequenceOf(booking.updatedAt),
+      updatedAt: booking.updatedAt,
+    }));
+  }
+
+  /**
+   * Renders the feed behind a secret token. Unknown tokens look the same as a
+   * missing feed so tokens cannot be probed.
+   */
+  async renderFeed(token: string): Promise<string> {
+    const normalized = token.replace(/\.ics$/i, '');
+    if (!/^[A-Za-z0-9_-]{20,100}$/.test(normalized)) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const feed = await this.prisma.calendarFeed.findUnique({
+      where: { token: normalized },
+      include: { user: { select: { id: true, role: true } } },
+    });
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const now = new Date();
+    const from = new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS);
+    const to = new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS);
+    const owner: FeedOwner = { id: feed.user.id, role: feed.user.role };
+
+    const groups = await Promise.all([
+      feed.includeContent ? this.contentEvents(owner, from, to) : Promise.resolve([]),
+      feed.includeCampaigns ? this.campaignEvents(owner, from, to) : Promise.resolve([]),
+      feed.includeBookings ? this.bookingEvents(owner, from, to) : Promise.resolve([]),
+    ]);
+
+    await this.prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: now },
+    });
+
+    const siteName = process.env.SITE_NAME || 'Wall Painting Services';
+    return buildCalendar({
+      name: `${siteName} Calendar`,
+      description: 'Scheduled content, campaigns and bookings',
+      events: groups.flat().sort((a, b) => a.start.getTime() - b.start.getTime()),
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Scheduled publication emails
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Emails authors an .ics invite whenever a post or page is newly scheduled
+   * or moved to a different publication time.
+   */
+  async sendScheduledPublicationNotices(): Promise<number> {
+    const now = new Date();
+    const authorSelect = { select: { email: true, firstName: true, displayName: true, username: true } };
+    const [posts, pages] = await Promise.all([
+      this.prisma.post.findMany({
+        where: { status: PostStatus.SCHEDULED, scheduledFor: { gt: now } },
+        take: 200,
+        select: {
+          id: true,
+          title: true,
+          excerpt: true,
+          status: true,
+          scheduledFor: true,
+          scheduleNotifiedFor: true,
+          updatedAt: true,
+          author: authorSelect,
+        },
+      }),
+      this.prisma.page.findMany({
+        where: { status: PageStatus.SCHEDULED, scheduledFor: { gt: now } },
+        take: 200,
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          status: true,
+          scheduledFor: true,
+          scheduleNotifiedFor: true,
+          updatedAt: true,
+          author: authorSelect,
+        },
+      }),
+    ]);
+
+    const isPending = (item: { scheduledFor: Date | null; scheduleNotifiedFor: Date | null }) => (
+      !!item.scheduledFor && item.scheduledFor.getTime() !== item.scheduleNotifiedFor?.getTime()
+    );
+
+    let sent = 0;
+    for (const post of posts.filter(isPending)) {
+      const delivered = await this.sendPublicationNotice(post.author, this.postEvent(post), post.title, 'post');
+      if (delivered) {
+        await this.prisma.post.update({ where: { id: post.id }, data: { scheduleNotifiedFor: post.scheduledFor } });
+        sent += 1;
+      }
+    }
+    for (const page of pages.filter(isPending)) {
+      const delivered = await this.sendPublicationNotice(page.author, this.pageEvent(page), page.title, 'page');
+      if (delivered) {
+        await this.prisma.page.update({ where: { id: page.id }, data: { scheduleNotifiedFor: page.scheduledFor } });
+        sent += 1;
+      }
+    }
+    return sent;
+  }
+
+  private async sendPublicationNotice(
+    author: { email: string; firstName: string | null; displayName: string | null; username: string },
+    event: IcsEvent,
+    title: string,
+    kind: 'post' | 'page',
+  ): Promise<boolean> {
+    // Nothing to deliver, but mark as handled so it is not retried every run
+    if (!author.email) return true;
+
+    const when = event.start.toUTCString();
+    try {
+      await this.mailService.sendNotificationEmail(author.email, {
+        title: `"${title}" is scheduled`,
+        message: `Your ${kind} "${title}" is scheduled to publish on ${when}. The attached calendar file adds it to your calendar and updates it if the time changes.`,
+        actionLabel: `Open ${kind}`,
+        actionUrl: event.url || undefined,
+        category: 'UPDATE',
+        attachments: [{
+          filename: `${kind}-schedule.ics`,
+          content: buildCalendar({ name: 'Scheduled publication', events: [event] }),
+          contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+        }],
+      }, author.firstName || author.displayName || author.username);
+      return true;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Could not email schedule for ${kind} "${title}": ${message}`);
+      return false;
+    }
+  }
+}
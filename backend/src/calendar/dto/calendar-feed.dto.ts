@@ -0,0 +1,16 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+/** Which kinds of events the feed includes; fields left out keep their current value */
+export class CalendarFeedScopesDto {
+  @IsOptional()
+  @IsBoolean()
+  includeContent?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  includeCampaigns?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  includeBookings?: boolean;
+}
@@ -0,0 +1,120 @@
+import { buildCalendar, escapeText, foldLine, formatUtc, IcsEvent } from './ics';
+
+const event = (overrides: Partial<IcsEvent> = {}): IcsEvent => ({
+  uid: 'post-1@example.com',
+  start: new Date('2026-03-01T09:30:00.000Z'),
+  end: new Date('2026-03-01T10:00:00.000Z'),
+  summary: 'Spring colour trends',
+  ...overrides,
+});
+
+/** Undo folding so content lines can be asserted whole */
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('escapeText', () => {
+  it('escapes backslashes, semicolons, commas and newlines', () => {
+    expect(escapeText('a\\b; c, d\ne\r\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+
+  it('escapes backslashes before adding its own', () => {
+    expect(escapeText('\\,')).toBe('\\\\\\,');
+  });
+});
+
+describe('formatUtc', () => {
+  it('formats a date as a UTC basic date-time', () => {
+    expect(formatUtc(new Date('2026-03-01T09:30:05.123Z'))).toBe('20260301T093005Z');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = 'x'.repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('folds longer lines into 75 octet lines with a leading space', () => {
+    const folded = foldLine('x'.repeat(200));
+    const lines = folded.split('\r\n');
+
+    expect(lines.map((line) => line.length)).toEqual([75, 75, 52]);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe('x'.repeat(200));
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const folded = foldLine(line);
+
+    // 'é' is two octets, so a split inside one would leave a line at 74 octets plus half a character
+    expect(folded.split('\r\n').every((part) => Buffer.byteLength(part, 'utf8') <= 75)).toBe(true);
+    expect(folded.split('\r\n').slice(1).every((part) => /^ é+$/.test(part))).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+});
+
+describe('buildCalendar', () => {
+  it('wraps events in a published calendar with CRLF line endings', () => {
+    const ics = buildCalendar({ name: 'Editorial, calendar', events: [event()] });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/\n/);
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Editorial\\, calendar',
+      'BEGIN:VEVENT',
+      'UID:post-1@example.com',
+      'DTSTART:20260301T093000Z',
+      'DTEND:20260301T100000Z',
+      'SUMMARY:Spring colour trends',
+      'END:VEVENT',
+    ]));
+  });
+
+  it('escapes event text and leaves out empty fields', () => {
+    const lines = unfold(buildCalendar({
+      name: 'Feed',
+      events: [event({
+        summary: 'Prep; prime, paint',
+        description: 'Line one\nLine two',
+        location: null,
+        categories: ['Posts', 'Tips, tricks'],
+        status: 'CONFIRMED',
+        sequence: 0,
+      })],
+    }));
+
+    expect(lines).toContain('SUMMARY:Prep\\; prime\\, paint');
+    expect(lines).toContain('DESCRIPTION:Line one\\nLine two');
+    expect(lines).toContain('CATEGORIES:Posts,Tips\\, tricks');
+    expect(lines).toContain('STATUS:CONFIRMED');
+    expect(lines).toContain('SEQUENCE:0');
+    expect(lines.some((line) => line.startsWith('LOCATION:'))).toBe(false);
+    expect(lines.some((line) => line.startsWith('URL:'))).toBe(false);
+  });
+
+  it('gives events without a usable end a 30 minute duration', () => {
+    const start = new Date('2026-03-01T09:30:00.000Z');
+    const lines = unfold(buildCalendar({ name: 'Feed', events: [event({ start, end: start })] }));
+
+    expect(lines).toContain('DTEND:20260301T100000Z');
+  });
+
+  it('stamps events with their last update', () => {
+    const lines = unfold(buildCalendar({
+      name: 'Feed',
+      events: [event({ updatedAt: new Date('2026-02-20T08:00:00.000Z') })],
+    }));
+
+    expect(lines).toContain('DTSTAMP:20260220T080000Z');
+  });
+
+  it('folds long descriptions', () => {
+    const description = 'Scheduled publication of a long post about choosing exterior masonry paint for coastal homes';
+    const ics = buildCalendar({ name: 'Feed', events: [event({ description })] });
+
+    expect(ics.split('\r\n').every((line) => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`);
+  });
+});
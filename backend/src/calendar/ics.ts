@@ -0,0 +1,98 @@
+export type IcsEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  categories?: string[];
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  // Bump when an event moves so calendar apps replace their copy
+  sequence?: number;
+  updatedAt?: Date;
+};
+
+export type IcsCalendar = {
+  name: string;
+  description?: string;
+  // PUBLISH for feeds and one-off attachments; REQUEST would turn them into invitations
+  method?: 'PUBLISH';
+  events: IcsEvent[];
+};
+
+const PRODUCT_ID = '-//Wall Painting Services//Calendar//EN';
+
+/**
+ * Escapes TEXT values (RFC 5545 section 3.3.11).
+ */
+export const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+export const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Folds content lines longer than 75 octets onto continuation lines.
+ */
+export const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const eventLines = (event: IcsEvent, stamp: Date) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(event.updatedAt || stamp)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end > event.start ? event.end : new Date(event.start.getTime() + 30 * 60 * 1000))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  }
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export function buildCalendar(calendar: IcsCalendar): string {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${calendar.method || 'PUBLISH'}`,
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeText(calendar.description)}`);
+  // Ask subscribing clients to refresh hourly
+  lines.push('REFRESH-INTERVAL;VALUE=DURATION:PT1H', 'X-PUBLISHED-TTL:PT1H');
+  for (const event of calendar.events) {
+    lines.push(...eventLines(event, stamp));
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { CommentModerationAction, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const MAX_PAGE_SIZE = 100;
+
+export type AuditEntry = {
+  /** Omitted for decisions the moderation rules made on their own */
+  moderatorId?: string;
+  reason?: string;
+  details?: Prisma.InputJsonValue;
+};
+
+const moderatorSelect = { select: { id: true, username: true, displayName: true } };
+
+/**
+ * History of every moderation decision on comments: what the rules did
+ * with each new comment and every moderator action since.
+ */
+@Injectable()
+export class CommentAuditService {
+  constructor(private prisma: PrismaService) {}
+
+  async record(commentId: string, action: CommentModerationAction, entry: AuditEntry = {}) {
+    return this.prisma.commentModerationEvent.create({
+      data: {
+        commentId,
+        action,
+        moderatorId: entry.moderatorId,
+        reason: entry.reason,
+        details: entry.details,
+      },
+    });
+  }
+
+  async recordMany(commentIds: string[], action: CommentModerationAction, moderatorId: string) {
+    if (commentIds.length === 0) return;
+    await this.prisma.commentModerationEvent.createMany({
+      data: commentIds.map((commentId) => ({ commentId, action, moderatorId, reason: 'Bulk action' })),
+    });
+  }
+
+  /** Oldest first, so the list reads as the comment's story */
+  async historyFor(commentId: string) {
+    return this.prisma.commentModerationEvent.findMany({
+      where: { commentId },
+      include: { moderator: moderatorSelect },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Newest actions across all comments, optionally by one moderator, with
+   * an excerpt of each comment that still exists and a per-moderator tally.
+   */
+  async list(options: { moderatorId?: string; skip?: number; take?: number } = {}) {
+    const where: Prisma.CommentModerationEventWhereInput = options.moderatorId
+      ? { moderatorId: options.moderatorId }
+      : { moderatorId: { not: null } };
+    const [events, total, tally] = await Promise.all([
+      this.prisma.commentModerationEvent.findMany({
+        where,
+        include: { moderator: moderatorSelect },
+        orderBy: { createdAt: 'desc' },
+        skip: options.skip || 0,
+        take: Math.min(options.take || 50, MAX_PAGE_SIZE),
+      }),
+      this.prisma.commentModerationEvent.count({ where }),
+      this.prisma.commentModerationEvent.groupBy({
+        by: ['moderatorId'],
+        where: { moderatorId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const moderatorIds = tally.map((row) => row.moderatorId).filter((id): id is string => Boolean(id));
+    const [comments, moderators] = await Promise.all([
+      this.prisma.comment.findMany({
+        where: { id: { in: [...new Set(events.map((event) => event.commentId))] } },
+        select: { id: true, content: true, authorName: true, post: { select: { id: true, title: true, slug: true } } },
+      }),
+      this.prisma.user.findMany({
+        where: { id: { in: moderatorIds } },
+        select: { id: true, username: true, displayName: true },
+      }),
+    ]);
+    const commentById = new Map(comments.map((comment) => [comment.id, comment]));
+    const actionsBy = new Map(tally.map((row) => [row.moderatorId, row._count._all]));
+
+    return {
+      events: events.map((event) => ({ ...event, comment: commentById.get(event.commentId) ?? null })),
+      total,
+      moderators: moderators
+        .map((moderator) => ({ ...moderator, actions: actionsBy.get(moderator.id) ?? 0 }))
+        .sort((a, b) => b.actions - a.actions),
+    };
+  }
+}
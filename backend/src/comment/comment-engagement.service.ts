@@ -0,0 +1,196 @@
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { createHmac } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+
+export const DEFAULT_COMMENT_REACTIONS = ['👍', '❤️', '😂', '🎉', '🤔'];
+
+export type VoteDirection = 'up' | 'down' | 'none';
+
+/** Who is voting: ledger rows are unique per comment and voter key */
+export type Voter = {
+  key: string;
+  userId?: string;
+};
+
+export type CommentEngagement = {
+  upvotes: number;
+  downvotes: number;
+  reactions: Record<string, number>;
+  viewerVote: VoteDirection;
+  viewerReactions: string[];
+};
+
+type EngagementSettings = {
+  reactions: string[];
+  anonymousVoting: boolean;
+};
+
+const VOTE_VALUES: Record<Exclude<VoteDirection, 'none'>, number> = { up: 1, down: -1 };
+
+const directionOf = (value: number | undefined): VoteDirection => (
+  value === 1 ? 'up' : value === -1 ? 'down' : 'none'
+);
+
+/**
+ * Votes and emoji reactions on comments. Every vote and reaction is a ledger
+ * row keyed on the voter, so repeating one toggles it instead of counting
+ * twice; Comment.upvotes, downvotes and reactions are recomputed from the
+ * ledger after each change.
+ */
+@Injectable()
+export class CommentEngagementService {
+  constructor(
+    private prisma: PrismaService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * Signed-in voters are keyed on their user id. Anonymous voters are keyed
+   * on a keyed hash of their IP address, so the raw value is never stored.
+   * Nothing the client sends (headers, user agent) goes into the key, so it
+   * cannot be rotated to vote again; people behind one NAT share a vote.
+   */
+  resolveVoter(userId: string | undefined, ipAddress: string): Voter {
+    if (userId) {
+      return { key: `user:${userId}`, userId };
+    }
+    const secret = this.config.get<string>('JWT_SECRET') ?? '';
+    const hash = createHmac('sha256', secret).update(ipAddress).digest('hex');
+    return { key: `anon:${hash.slice(0, 32)}` };
+  }
+
+  async getSettings(): Promise<EngagementSettings> {
+    const settings = await this.prisma.siteSettings.findFirst({
+      select: { commentReactions: true, anonymousVotingEnabled: true },
+    });
+    return {
+      reactions: settings?.commentReactions?.length ? settings.commentReactions : DEFAULT_COMMENT_REACTIONS,
+      anonymousVoting: settings?.anonymousVotingEnabled ?? true,
+    };
+  }
+
+  /**
+   * Cast, change or withdraw a vote. Voting the same direction twice
+   * withdraws the vote; voting the other direction changes it.
+   */
+  async vote(commentId: string, voter: Voter, direction: VoteDirection): Promise<CommentEngagement> {
+    await this.assertCanEngage(commentId, voter);
+    const where = { commentId_voterKey: { commentId, voterKey: voter.key } };
+
+    await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.commentVote.findUnique({ where, select: { value: true } });
+      const value = direction === 'none' ? undefined : VOTE_VALUES[direction];
+
+      if (!value || existing?.value === value) {
+        if (existing) await tx.commentVote.delete({ where });
+      } else {
+        await tx.commentVote.upsert({
+          where,
+          create: { commentId, voterKey: voter.key, userId: voter.userId, value },
+          update: { value },
+        });
+      }
+      await this.recount(tx, commentId);
+    });
+
+    return this.getEngagement(commentId, voter);
+  }
+
+  /** Add the reaction, or remove it when the voter already reacted with that emoji */
+  async react(commentId: string, voter: Voter, emoji: string): Promise<CommentEngagement> {
+    const { reactions } = await this.assertCanEngage(commentId, voter);
+    if (!reactions.includes(emoji)) {
+      throw new BadRequestException('This reaction is not available');
+    }
+    const where = { commentId_voterKey_emoji: { commentId, voterKey: voter.key, emoji } };
+
+    await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.commentReaction.findUnique({ where, select: { id: true } });
+      if (existing) {
+        await tx.commentReaction.delete({ where });
+      } else {
+        await tx.commentReaction.create({ data: { commentId, voterKey: voter.key, userId: voter.userId, emoji } });
+      }
+      await this.recount(tx, commentId);
+    });
+
+    return this.getEngagement(commentId, voter);
+  }
+
+  /** The voter's own vote and reactions on each comment, for highlighting them */
+  async getViewerState(commentIds: string[], voter: Voter) {
+    const [votes, reactions] = await Promise.all([
+      this.prisma.commentVote.findMany({
+        where: { commentId: { in: commentIds }, voterKey: voter.key },
+        select: { commentId: true, value: true },
+      }),
+      this.prisma.commentReaction.findMany({
+        where: { commentId: { in: commentIds }, voterKey: voter.key },
+        select: { commentId: true, emoji: true },
+      }),
+    ]);
+
+    const state = new Map<string, Pick<CommentEngagement, 'viewerVote' | 'viewerReactions'>>();
+    for (const id of commentIds) {
+      state.set(id, { viewerVote: 'none', viewerReactions: [] });
+    }
+    for (const vote of votes) {
+      const entry = state.get(vote.commentId);
+      if (entry) entry.viewerVote = directionOf(vote.value);
+    }
+    for (const reaction of reactions) {
+      state.get(reaction.commentId)?.viewerReactions.push(reaction.emoji);
+    }
+    return state;
+  }
+
+  private async getEngagement(commentId: string, voter: Voter): Promise<CommentEngagement> {
+    const comment = await this.prisma.comment.findUnique({
+      where: { id: commentId },
+      select: { upvotes: true, downvotes: true, reactions: true },
+    });
+    const viewer = (await this.getViewerState([commentId], voter)).get(commentId);
+    return {
+      upvotes: comment?.upvotes ?? 0,
+      downvotes: comment?.downvotes ?? 0,
+      reactions: (comment?.reactions ?? {}) as Record<string, number>,
+      viewerVote: viewer?.viewerVote ?? 'none',
+      viewerReactions: viewer?.viewerReactions ?? [],
+    };
+  }
+
+  /** Only visible comments can be voted on; anonymous voting can be switched off */
+  private async assertCanEngage(commentId: string, voter: Voter) {
+    const comment = await this.prisma.comment.findUnique({
+      where: { id: commentId },
+      select: { isApproved: true, isSpam: true },
+    });
+    if (!comment || !comment.isApproved || comment.isSpam) {
+      throw new NotFoundException('Comment not found');
+    }
+    const settings = await this.getSettings();
+    if (!voter.userId && !settings.anonymousVoting) {
+      throw new ForbiddenException('Sign in to vote or react');
+    }
+    return settings;
+  }
+
+  private async recount(tx: Prisma.TransactionClient, commentId: string) {
+    const [votes, reactions] = await Promise.all([
+      tx.commentVote.groupBy({ by: ['value'], where: { commentId }, _count: { _all: true } }),
+      tx.commentReaction.groupBy({ by: ['emoji'], where: { commentId }, _count: { _all: true } }),
+    ]);
+    const countOf = (value: number) => votes.find((row) => row.value === value)?._count._all ?? 0;
+
+    await tx.comment.update({
+      where: { id: commentId },
+      data: {
+        upvotes: countOf(1),
+        downvotes: countOf(-1),
+        reactions: Object.fromEntries(reactions.map((row) => [row.emoji, row._count._all])),
+      },
+    });
+  }
+}
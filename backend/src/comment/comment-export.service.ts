@@ -0,0 +1,78 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { CommentImportFormat } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ExportSite, ExportThread } from './interfaces/comment-migration.interface';
+import { buildDisqus } from './migration/disqus.format';
+import { buildWxr } from './migration/wxr.format';
+
+const frontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+/**
+ * Writes comments as WordPress (WXR) or Disqus XML, the same formats the
+ * importer reads. Pending and spam comments are included with their status.
+ */
+@Injectable()
+export class CommentExportService {
+  constructor(private prisma: PrismaService) {}
+
+  async export(format: CommentImportFormat, postId?: string) {
+    if (postId && !(await this.prisma.post.findUnique({ where: { id: postId }, select: { id: true } }))) {
+      throw new NotFoundException('Post not found');
+    }
+
+    const [settings, posts] = await Promise.all([
+      this.prisma.siteSettings.findFirst({ select: { siteName: true } }),
+      this.prisma.post.findMany({
+        where: { ...(postId ? { id: postId } : {}), comments: { some: {} } },
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          publishedAt: true,
+          allowComments: true,
+          comments: {
+            select: {
+              id: true,
+              parentId: true,
+              content: true,
+              authorName: true,
+              authorEmail: true,
+              authorWebsite: true,
+              ipAddress: true,
+              createdAt: true,
+              isApproved: true,
+              isSpam: true,
+              user: { select: { email: true, username: true, displayName: true } },
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const site: ExportSite = { title: settings?.siteName || 'Blog', url: frontendUrl() };
+    const threads: ExportThread[] = posts.map((post) => ({
+      postId: post.id,
+      title: post.title,
+      slug: post.slug,
+      url: `${site.url}/blog/${post.slug}`,
+      publishedAt: post.publishedAt,
+      commentsOpen: post.allowComments,
+      comments: post.comments.map((comment) => ({
+        id: comment.id,
+        parentId: comment.parentId,
+        authorName: comment.authorName || comment.user?.displayName || comment.user?.username || 'Anonymous',
+        authorEmail: comment.authorEmail ?? comment.user?.email ?? null,
+        authorWebsite: comment.authorWebsite,
+        ipAddress: comment.ipAddress,
+        content: comment.content,
+        createdAt: comment.createdAt,
+        isApproved: comment.isApproved,
+        isSpam: comment.isSpam,
+      })),
+    }));
+
+    return format === CommentImportFormat.WXR ? buildWxr(site, threads) : buildDisqus(site, threads);
+  }
+}
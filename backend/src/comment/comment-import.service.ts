@@ -0,0 +1,418 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { CommentImportFormat, CommentImportStatus, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueService } from '../queue/queue.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { MigrationComment, MigrationThread } from './interfaces/comment-migration.interface';
+import { htmlToCommentText } from './migration/comment-text';
+import { parseDisqus } from './migration/disqus.format';
+import { parseWxr } from './migration/wxr.format';
+
+export const IMPORT_COMMENTS_JOB = 'IMPORT_COMMENTS';
+
+const MAX_LISTED_THREADS = 100;
+const MAX_WARNINGS = 50;
+const MAX_RECENT_IMPORTS = 20;
+const LOOKUP_BATCH_SIZE = 5000;
+const INSERT_BATCH_SIZE = 500;
+
+export const FORMAT_LABELS: Record<CommentImportFormat, string> = {
+  [CommentImportFormat.WXR]: 'WordPress (WXR)',
+  [CommentImportFormat.DISQUS]: 'Disqus',
+};
+
+// Everything but the uploaded file, which can be tens of megabytes
+const IMPORT_SELECT = {
+  id: true,
+  format: true,
+  fileName: true,
+  dryRun: true,
+  status: true,
+  jobId: true,
+  report: true,
+  error: true,
+  createdAt: true,
+  completedAt: true,
+  createdBy: { select: { id: true, username: true, displayName: true } },
+} satisfies Prisma.CommentImportSelect;
+
+export type CommentImportReport = {
+  format: CommentImportFormat;
+  dryRun: boolean;
+  threads: { total: number; matched: number; unmatched: number };
+  /** Up to MAX_LISTED_THREADS source threads no post matched */
+  unmatchedThreads: Array<{ title: string; url: string | null; comments: number }>;
+  /** Posts that receive comments, with how many */
+  posts: Array<{ postId: string; title: string; slug: string; comments: number }>;
+  comments: {
+    total: number;
+    /** Created, or that would be created by a dry run */
+    imported: number;
+    approved: number;
+    pending: number;
+    spam: number;
+    alreadyImported: number;
+    unmatchedPost: number;
+    deleted: number;
+    pingbacks: number;
+    empty: number;
+    /** Replies whose parent was not imported, attached to the nearest imported ancestor */
+    reattached: number;
+  };
+  warnings: string[];
+};
+
+type PlannedComment = Prisma.CommentCreateManyInput & { id: string };
+
+/** Which format a file is, from its root element */
+export const detectExportFormat = (source: string): CommentImportFormat | null => {
+  const head = source.slice(0, 4096);
+  if (/<disqus[\s>]/.test(head)) return CommentImportFormat.DISQUS;
+  if (/<rss[\s>]/.test(head) && /wordpress\.org\/export/.test(head)) return CommentImportFormat.WXR;
+  return null;
+};
+
+/**
+ * Slugs a source thread may have here: the source's own slug and the last
+ * segment of its URL, so /2015/03/hello-world/ and /blog/hello-world both
+ * find the post "hello-world".
+ */
+export const slugCandidates = (thread: Pick<MigrationThread, 'slug' | 'url'>) => {
+  const candidates = new Set<string>();
+  const add = (value: string | undefined) => {
+    if (!value) return;
+    let decoded = value;
+    try {
+      decoded = decodeURIComponent(value);
+    } catch {
+      // keep it encoded
+    }
+    for (const candidate of [decoded, decoded.toLowerCase()]) {
+      const slug = candidate.replace(/\.html?$/i, '').trim();
+      if (slug) candidates.add(slug);
+    }
+  };
+  add(thread.slug);
+  if (thread.url) {
+    try {
+      add(new URL(thread.url).pathname.split('/').filter(Boolean).pop());
+    } catch {
+      // not a URL; the slug alone decides
+    }
+  }
+  return [...candidates];
+};
+
+const chunk = <T>(items: T[], size: number) => {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) chunks.push(items.slice(index, index + size));
+  return chunks;
+};
+
+const parseExport = (format: CommentImportFormat, source: string) => (
+  format === CommentImportFormat.WXR ? parseWxr(source) : parseDisqus(source)
+);
+
+/**
+ * Imports comments from WordPress (WXR) and Disqus exports. An upload is
+ * stored as a CommentImport and processed by the IMPORT_COMMENTS job: a dry
+ * run only writes the report, and a finished dry run can then be applied.
+ * Threads are matched to posts by slug, replies keep their parents, and
+ * dates, author details and spam verdicts carry over. Imported comments
+ * remember their source ID, so importing the same file twice adds nothing.
+ */
+@Injectable()
+export class CommentImportService {
+  private readonly logger = new Logger(CommentImportService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private queueService: QueueService,
+  ) {}
+
+  async create(file: Express.Multer.File | undefined, options: { format?: string; dryRun: boolean }, userId: string) {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('Upload a WordPress (WXR) or Disqus XML export');
+    }
+    // Postgres text cannot hold NUL characters
+    const source = file.buffer.toString('utf8').replace(/\u0000/g, '');
+    const format = detectExportFormat(source);
+    if (!format) {
+      throw new BadRequestException('The file is not a WordPress (WXR) or Disqus XML export');
+    }
+    const requested = options.format?.toUpperCase();
+    if (requested && requested !== format) {
+      throw new BadRequestException(`The file is a ${FORMAT_LABELS[format]} export`);
+    }
+
+    const record = await this.prisma.commentImport.create({
+      data: {
+        format,
+        fileName: file.originalname || 'comments.xml',
+        source,
+        dryRun: options.dryRun,
+        createdById: userId,
+      },
+      select: { id: true },
+    });
+    return this.enqueue(record.id);
+  }
+
+  async list() {
+    return this.prisma.commentImport.findMany({
+      select: IMPORT_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_RECENT_IMPORTS,
+    });
+  }
+
+  async get(id: string) {
+    const record = await this.prisma.commentImport.findUnique({ where: { id }, select: IMPORT_SELECT });
+    if (!record) throw new NotFoundException('Import not found');
+    return record;
+  }
+
+  /** Run a finished dry run for real, from the file it already has */
+  async apply(id: string) {
+    const result = await this.prisma.commentImport.updateMany({
+      where: { id, dryRun: true, status: CommentImportStatus.COMPLETED },
+      data: {
+        dryRun: false,
+        status: CommentImportStatus.QUEUED,
+        report: Prisma.DbNull,
+        error: null,
+        completedAt: null,
+      },
+    });
+    if (result.count === 0) {
+      await this.get(id);
+      throw new BadRequestException('Only a finished dry run can be applied');
+    }
+    return this.enqueue(id);
+  }
+
+  /** Process an import; called by the IMPORT_COMMENTS job */
+  async run(id: string): Promise<CommentImportReport> {
+    const record = await this.prisma.commentImport.findUnique({ where: { id } });
+    if (!record) throw new NotFoundException(`Import ${id} not found`);
+    // A retried job after the report was saved has nothing left to do
+    if (record.status === CommentImportStatus.COMPLETED && record.report) {
+      return record.report as CommentImportReport;
+    }
+
+    await this.prisma.commentImport.update({ where: { id }, data: { status: CommentImportStatus.RUNNING } });
+    const report = await this.importThreads(record.format, parseExport(record.format, record.source), record.dryRun);
+    await this.prisma.commentImport.update({
+      where: { id },
+      data: {
+        status: CommentImportStatus.COMPLETED,
+        report,
+        error: null,
+        completedAt: new Date(),
+        // Applied imports no longer need the file
+        ...(record.dryRun ? {} : { source: '' }),
+      },
+    });
+    this.logger.log(
+      `${record.dryRun ? 'Dry run of' : 'Imported'} ${record.fileName}: ` +
+      `${report.comments.imported} of ${report.comments.total} comments`,
+    );
+    return report;
+  }
+
+  async markFailed(id: string, message: string) {
+    await this.prisma.commentImport.updateMany({
+      where: { id },
+      data: { status: CommentImportStatus.FAILED, error: message, completedAt: new Date() },
+    });
+  }
+
+  private async enqueue(id: string) {
+    const job = await this.queueService.addJob(IMPORT_COMMENTS_JOB, { importId: id });
+    return this.prisma.commentImport.update({ where: { id }, data: { jobId: job.id }, select: IMPORT_SELECT });
+  }
+
+  private async importThreads(format: CommentImportFormat, threads: MigrationThread[], dryRun: boolean) {
+    const report: CommentImportReport = {
+      format,
+      dryRun,
+      threads: { total: threads.length, matched: 0, unmatched: 0 },
+      unmatchedThreads: [],
+      posts: [],
+      comments: {
+        total: 0,
+        imported: 0,
+        approved: 0,
+        pending: 0,
+        spam: 0,
+        alreadyImported: 0,
+        unmatchedPost: 0,
+        deleted: 0,
+        pingbacks: 0,
+        empty: 0,
+        reattached: 0,
+      },
+      warnings: [],
+    };
+    const warn = (message: string) => {
+      if (report.warnings.length < MAX_WARNINGS) report.warnings.push(message);
+    };
+
+    const candidates = threads.map(slugCandidates);
+    const posts = await this.prisma.post.findMany({
+      where: { slug: { in: [...new Set(candidates.flat())] } },
+      select: { id: true, title: true, slug: true },
+    });
+    const postBySlug = new Map(posts.map((post) => [post.slug, post]));
+
+    // Comments an earlier run created, so replies to them still attach
+    const existing = new Map<string, string>();
+    const sourceIds = threads.flatMap((thread) => thread.comments.map((comment) => comment.sourceId));
+    for (const ids of chunk(sourceIds, LOOKUP_BATCH_SIZE)) {
+      const rows = await this.prisma.comment.findMany({
+        where: { importFormat: format, importedId: { in: ids } },
+        select: { id: true, importedId: true },
+      });
+      for (const row of rows) if (row.importedId) existing.set(row.importedId, row.id);
+    }
+
+    const planned: Array<{ row: PlannedComment; depth: number }> = [];
+    const seen = new Set<string>();
+    threads.forEach((thread, index) => {
+      report.comments.total += thread.comments.length;
+      const post = candidates[index].map((slug) => postBySlug.get(slug)).find(Boolean);
+      if (!post) {
+        report.threads.unmatched++;
+        report.comments.unmatchedPost += thread.comments.length;
+        if (report.unmatchedThreads.length < MAX_LISTED_THREADS) {
+          report.unmatchedThreads.push({ title: thread.title, url: thread.url ?? null, comments: thread.comments.length });
+        }
+        return;
+      }
+      report.threads.matched++;
+
+      const comments = thread.comments.filter((comment) => {
+        if (seen.has(comment.sourceId)) {
+          warn(`Comment ${comment.sourceId} appears more than once; only the first was used`);
+          return false;
+        }
+        seen.add(comment.sourceId);
+        return true;
+      });
+      const rows = this.planThread(format, post.id, comments, existing, report, warn);
+      if (rows.length === 0) return;
+      planned.push(...rows);
+      const existingPost = report.posts.find((entry) => entry.postId === post.id);
+      if (existingPost) existingPost.comments += rows.length;
+      else report.posts.push({ postId: post.id, title: post.title, slug: post.slug, comments: rows.length });
+    });
+
+    if (!dryRun) {
+      // Parents are inserted before their replies
+      planned.sort((a, b) => a.depth - b.depth);
+      for (const batch of chunk(planned.map((entry) => entry.row), INSERT_BATCH_SIZE)) {
+        await this.prisma.comment.createMany({ data: batch });
+      }
+    }
+    return report;
+  }
+
+  private planThread(
+    format: CommentImportFormat,
+    postId: string,
+    comments: MigrationComment[],
+    existing: Map<string, string>,
+    report: CommentImportReport,
+    warn: (message: string) => void,
+  ) {
+    const bySource = new Map(comments.map((comment) => [comment.sourceId, comment]));
+    // Source ID to Comment ID, for everything a reply can attach to
+    const ids = new Map<string, string>();
+    const importable: Array<{ comment: MigrationComment; content: string }> = [];
+
+    for (const comment of comments) {
+      if (comment.isPingback) {
+        report.comments.pingbacks++;
+      } else if (comment.status === 'deleted') {
+        report.comments.deleted++;
+      } else if (existing.has(comment.sourceId)) {
+        ids.set(comment.sourceId, existing.get(comment.sourceId) as string);
+        report.comments.alreadyImported++;
+      } else {
+        const content = htmlToCommentText(comment.content);
+        if (!content) {
+          report.comments.empty++;
+          continue;
+        }
+        ids.set(comment.sourceId, randomUUID());
+        importable.push({ comment, content });
+      }
+    }
+
+    // A reply whose parent is skipped attaches to the nearest ancestor that is not
+    const parentOf = new Map<string, string | null>();
+    for (const { comment } of importable) {
+      const visited = new Set([comment.sourceId]);
+      let parent = comment.parentSourceId;
+      while (parent && !ids.has(parent) && !visited.has(parent)) {
+        visited.add(parent);
+        parent = bySource.get(parent)?.parentSourceId;
+      }
+      const resolved = parent && ids.has(parent) && parent !== comment.sourceId ? parent : null;
+      if (comment.parentSourceId && resolved !== comment.parentSourceId) report.comments.reattached++;
+      parentOf.set(comment.sourceId, resolved);
+    }
+
+    const depths = new Map<string, number>();
+    const depthOf = (sourceId: string, path: Set<string>): number => {
+      const known = depths.get(sourceId);
+      if (known !== undefined) return known;
+      const parent = parentOf.get(sourceId);
+      let depth = 0;
+      // Parents created by an earlier run are already in place
+      if (parent && parentOf.has(parent)) {
+        if (path.has(parent)) {
+          warn(`Comment ${sourceId} is its own ancestor; imported as a top-level comment`);
+          parentOf.set(sourceId, null);
+        } else {
+          path.add(sourceId);
+          depth = depthOf(parent, path) + 1;
+        }
+      }
+      depths.set(sourceId, depth);
+      return depth;
+    };
+
+    const now = new Date();
+    return importable.map(({ comment, content }) => {
+      const depth = depthOf(comment.sourceId, new Set());
+      const parent = parentOf.get(comment.sourceId);
+      if (!comment.createdAt) warn(`Comment ${comment.sourceId} has no readable date; the import time is used`);
+      const createdAt = comment.createdAt ?? now;
+
+      report.comments.imported++;
+      if (comment.status === 'spam') report.comments.spam++;
+      else if (comment.status === 'approved') report.comments.approved++;
+      else report.comments.pending++;
+
+      const row: PlannedComment = {
+        id: ids.get(comment.sourceId) as string,
+        postId,
+        parentId: parent ? ids.get(parent) ?? null : null,
+        content,
+        authorName: SanitizationUtil.sanitizeText(comment.authorName) || 'Anonymous',
+        authorEmail: comment.authorEmail ? SanitizationUtil.sanitizeEmail(comment.authorEmail) : null,
+        authorWebsite: comment.authorWebsite ? SanitizationUtil.sanitizeURL(comment.authorWebsite) : null,
+        ipAddress: comment.ipAddress || null,
+        isApproved: comment.status === 'approved',
+        isSpam: comment.status === 'spam',
+        createdAt,
+        updatedAt: createdAt,
+        importFormat: format,
+        importedId: comment.sourceId,
+      };
+      return { row, depth };
+    });
+  }
+}
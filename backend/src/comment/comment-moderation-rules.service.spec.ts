@@ -0,0 +1,120 @@
+import { commentHosts, findBlockReason, ipMatchesRule, ModerationInput } from './comment-moderation-rules.service';
+
+const NO_RULES = { blockedWords: [], blockedDomains: [], blockedIps: [] };
+
+const input = (overrides: Partial<ModerationInput> = {}): ModerationInput => ({
+  postId: 'post-1',
+  content: 'Which primer did you use on the ceiling?',
+  ...overrides,
+});
+
+describe('ipMatchesRule', () => {
+  it('matches exact addresses', () => {
+    expect(ipMatchesRule('203.0.113.7', '203.0.113.7')).toBe(true);
+    expect(ipMatchesRule('203.0.113.7', ' 203.0.113.7 ')).toBe(true);
+    expect(ipMatchesRule('203.0.113.70', '203.0.113.7')).toBe(false);
+    expect(ipMatchesRule('2001:db8::1', '2001:db8::1')).toBe(true);
+  });
+
+  it('ignores the IPv4-mapped IPv6 prefix', () => {
+    expect(ipMatchesRule('::ffff:203.0.113.7', '203.0.113.7')).toBe(true);
+    expect(ipMatchesRule('203.0.113.7', '::ffff:203.0.113.7')).toBe(true);
+    expect(ipMatchesRule('::ffff:203.0.113.7', '203.0.113.0/24')).toBe(true);
+  });
+
+  it.each([
+    ['203.0.113.0', '203.0.113.0/24', true],
+    ['203.0.113.255', '203.0.113.0/24', true],
+    ['203.0.114.0', '203.0.113.0/24', false],
+    ['203.0.112.255', '203.0.113.0/24', false],
+    // The base need not be the first address of the range
+    ['10.1.200.3', '10.1.5.9/16', true],
+    ['10.2.0.1', '10.1.5.9/16', false],
+    ['192.168.1.1', '0.0.0.0/0', true],
+    ['198.51.100.9', '198.51.100.9/32', true],
+    ['198.51.100.10', '198.51.100.9/32', false],
+    ['198.51.100.200', '198.51.100.128/25', true],
+    ['198.51.100.127', '198.51.100.128/25', false],
+  ])('%s in %s is %s', (ip, rule, expected) => {
+    expect(ipMatchesRule(ip, rule)).toBe(expected);
+  });
+
+  it.each([
+    ['an out-of-range prefix', '203.0.113.0/33'],
+    ['a negative prefix', '203.0.113.0/-1'],
+    ['a fractional prefix', '203.0.113.0/24.5'],
+    ['an empty prefix', '203.0.113.0/'],
+    ['an invalid base', '203.0.113.256/24'],
+    ['an IPv6 range', '2001:db8::/32'],
+  ])('never matches %s', (_, rule) => {
+    expect(ipMatchesRule('203.0.113.7', rule)).toBe(false);
+  });
+
+  it('never matches an IPv6 address against an IPv4 range', () => {
+    expect(ipMatchesRule('2001:db8::1', '0.0.0.0/0')).toBe(false);
+  });
+});
+
+describe('commentHosts', () => {
+  it('collects the email domain, the website and linked hosts', () => {
+    expect(commentHosts({
+      content: 'Compare https://shop.example/primer, www.paints.example and http://Blog.Example/post.',
+      authorEmail: 'sam@Mail.Example',
+      authorWebsite: 'sam.example/about',
+    })).toEqual(['mail.example', 'sam.example', 'shop.example', 'www.paints.example', 'blog.example']);
+  });
+
+  it('skips values that are not hosts', () => {
+    expect(commentHosts({ content: 'No links here', authorEmail: 'not-an-email', authorWebsite: '' })).toEqual([]);
+  });
+});
+
+describe('findBlockReason', () => {
+  it('returns null when nothing is blocked', () => {
+    expect(findBlockReason(input({ ipAddress: '203.0.113.7' }), NO_RULES)).toBeNull();
+  });
+
+  it('blocks addresses in a blocked range', () => {
+    const rules = { ...NO_RULES, blockedIps: ['198.51.100.1', '203.0.113.0/24'] };
+
+    expect(findBlockReason(input({ ipAddress: '203.0.113.7' }), rules)).toBe('IP address 203.0.113.7 is blocked (203.0.113.0/24)');
+    expect(findBlockReason(input({ ipAddress: '203.0.114.7' }), rules)).toBeNull();
+    expect(findBlockReason(input(), rules)).toBeNull();
+  });
+
+  it('blocks domains and their subdomains wherever they appear', () => {
+    const rules = { ...NO_RULES, blockedDomains: ['https://www.spam.example/'] };
+
+    expect(findBlockReason(input({ authorEmail: 'bot@spam.example' }), rules)).toBe('Domain spam.example is blocked');
+    expect(findBlockReason(input({ authorWebsite: 'http://deals.spam.example' }), rules)).toBe('Domain deals.spam.example is blocked');
+    expect(findBlockReason(input({ content: 'Cheap paint at https://shop.spam.example/x' }), rules))
+      .toBe('Domain shop.spam.example is blocked');
+    expect(findBlockReason(input({ content: 'Visit spam.example today' }), rules)).toBe('Domain spam.example is blocked');
+    expect(findBlockReason(input({ content: 'Visit mail.spam.example.' }), rules)).toBe('Domain spam.example is blocked');
+  });
+
+  it('leaves look-alike domains alone', () => {
+    const rules = { ...NO_RULES, blockedDomains: ['spam.example'] };
+
+    expect(findBlockReason(input({ authorEmail: 'sam@notspam.example' }), rules)).toBeNull();
+    expect(findBlockReason(input({ content: 'See https://spam.example.org/page' }), rules)).toBeNull();
+    expect(findBlockReason(input({ content: 'Try antispam.example instead' }), rules)).toBeNull();
+  });
+
+  it('blocks whole words only, ignoring case', () => {
+    const rules = { ...NO_RULES, blockedWords: ['ass', ' ', 'c++'] };
+
+    expect(findBlockReason(input({ content: 'A first-class finish' }), rules)).toBeNull();
+    expect(findBlockReason(input({ content: 'What an ASS!' }), rules)).toBe('Contains blocked word "ass"');
+    expect(findBlockReason(input({ authorName: 'Ass Hat' }), rules)).toBe('Contains blocked word "ass"');
+    expect(findBlockReason(input({ content: 'Written in C++ of course' }), rules)).toBe('Contains blocked word "c++"');
+  });
+
+  it('reports the IP before domains and words', () => {
+    const rules = { blockedWords: ['primer'], blockedDomains: ['spam.example'], blockedIps: ['203.0.113.7'] };
+
+    expect(findBlockReason(input({ ipAddress: '203.0.113.7', authorEmail: 'a@spam.example' }), rules))
+      .toBe('IP address 203.0.113.7 is blocked (203.0.113.7)');
+    expect(findBlockReason(input({ authorEmail: 'a@spam.example' }), rules)).toBe('Domain spam.example is blocked');
+  });
+});
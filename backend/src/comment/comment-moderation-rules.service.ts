@@ -0,0 +1,253 @@
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { CommentModerationMode, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export const DEFAULT_TRUSTED_ROLES: Role[] = [Role.SUPER_ADMIN, Role.ADMINISTRATOR, Role.EDITOR];
+const DEFAULT_AUTO_APPROVE_AFTER = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ModerationRules = {
+  trustedRoles: Role[];
+  requireApproval: boolean;
+  holdFirstTime: boolean;
+  autoApproveAfter: number;
+  blockedWords: string[];
+  blockedDomains: string[];
+  blockedIps: string[];
+  autoCloseDays: number;
+};
+
+export type ModerationInput = {
+  postId: string;
+  content: string;
+  authorName?: string;
+  authorEmail?: string;
+  authorWebsite?: string;
+  ipAddress?: string;
+  userId?: string;
+};
+
+/** What the rules say about a new comment; spam scoring can still send an approved one to Spam */
+export type ModerationDecision = {
+  outcome: 'approve' | 'hold' | 'block';
+  reason: string;
+};
+
+export type PostCommentSettings = {
+  allowComments?: boolean;
+  commentModeration?: CommentModerationMode;
+  /** null falls back to the site setting */
+  commentAutoCloseDays?: number | null;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const hostOf = (value: string) => {
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+const normalizeDomain = (value: string) => hostOf(value.trim()).replace(/^www\./, '');
+
+const ipv4ToNumber = (value: string): number | null => {
+  const parts = value.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((total, part) => total * 256 + Number(part), 0);
+};
+
+/** Exact match, or an IPv4 CIDR range such as 203.0.113.0/24 */
+export const ipMatchesRule = (ip: string, rule: string) => {
+  const address = ip.replace(/^::ffff:/, '');
+  const [base, bitsText] = rule.trim().split('/');
+  if (bitsText === undefined) return address === base.replace(/^::ffff:/, '');
+
+  const bits = Number(bitsText);
+  const addressValue = ipv4ToNumber(address);
+  const baseValue = ipv4ToNumber(base);
+  if (addressValue === null || baseValue === null || !/^\d{1,2}$/.test(bitsText) || bits > 32) return false;
+  const blockSize = 2 ** (32 - bits);
+  return Math.floor(addressValue / blockSize) === Math.floor(baseValue / blockSize);
+};
+
+/** Hosts a comment points at: the email domain, the website and every link in the text */
+export const commentHosts = (input: Pick<ModerationInput, 'content' | 'authorEmail' | 'authorWebsite'>) => {
+  const hosts = new Set<string>();
+  const emailDomain = input.authorEmail?.split('@')[1];
+  if (emailDomain) hosts.add(emailDomain.toLowerCase());
+  if (input.authorWebsite) hosts.add(hostOf(input.authorWebsite));
+  for (const match of input.content.matchAll(/\b(?:https?:\/\/|www\.)[^\s<>"')]+/gi)) {
+    hosts.add(hostOf(match[0].replace(/[.,;:!?]+$/, '')));
+  }
+  hosts.delete('');
+  return [...hosts];
+};
+
+/** Why the block lists reject a comment, or null when they do not */
+export const findBlockReason = (input: ModerationInput, rules: Pick<ModerationRules, 'blockedWords' | 'blockedDomains' | 'blockedIps'>) => {
+  const ip = input.ipAddress;
+  if (ip) {
+    const rule = rules.blockedIps.find((candidate) => ipMatchesRule(ip, candidate));
+    if (rule) return `IP address ${ip} is blocked (${rule})`;
+  }
+
+  const blockedDomains = rules.blockedDomains.map(normalizeDomain).filter(Boolean);
+  for (const host of commentHosts(input)) {
+    const domain = blockedDomains.find((blocked) => host === blocked || host.endsWith(`.${blocked}`));
+    if (domain) return `Domain ${host} is blocked`;
+  }
+  // Bare mentions too ("visit evil.example"), which are not links
+  for (const domain of blockedDomains) {
+    if (new RegExp(`(^|[^\\w.-])([\\w-]+\\.)*${escapeRegExp(domain)}(?![\\w-]|\\.[\\w-])`, 'i').test(input.content)) {
+      return `Domain ${domain} is blocked`;
+    }
+  }
+
+  const text = [input.content, input.authorName, input.authorEmail, input.authorWebsite].filter(Boolean).join('\n');
+  for (const word of rules.blockedWords) {
+    const trimmed = word.trim();
+    if (!trimmed) continue;
+    // Whole words only, so blocking "ass" leaves "class" alone
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(trimmed)}($|[^\\p{L}\\p{N}])`, 'iu').test(text)) {
+      return `Contains blocked word "${trimmed}"`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Admin-configurable rules deciding whether a new comment is published,
+ * held for review or blocked. Site-wide rules live on SiteSettings; a post
+ * can hold or approve everything and override when comments close.
+ */
+@Injectable()
+export class CommentModerationRulesService {
+  constructor(private prisma: PrismaService) {}
+
+  async getRules(): Promise<ModerationRules> {
+    const settings = await this.prisma.siteSettings.findFirst({
+      select: {
+        commentTrustedRoles: true,
+        commentRequireApproval: true,
+        commentHoldFirstTime: true,
+        commentAutoApproveAfter: true,
+        commentBlockedWords: true,
+        commentBlockedDomains: true,
+        commentBlockedIps: true,
+        commentAutoCloseDays: true,
+      },
+    });
+    return {
+      trustedRoles: settings?.commentTrustedRoles ?? DEFAULT_TRUSTED_ROLES,
+      requireApproval: settings?.commentRequireApproval ?? true,
+      holdFirstTime: settings?.commentHoldFirstTime ?? true,
+      autoApproveAfter: settings?.commentAutoApproveAfter ?? DEFAULT_AUTO_APPROVE_AFTER,
+      blockedWords: settings?.commentBlockedWords ?? [],
+      blockedDomains: settings?.commentBlockedDomains ?? [],
+      blockedIps: settings?.commentBlockedIps ?? [],
+      autoCloseDays: settings?.commentAutoCloseDays ?? 0,
+    };
+  }
+
+  /** Apply the rules to a comment about to be saved; throws when the post no longer takes comments */
+  async evaluate(input: ModerationInput): Promise<ModerationDecision> {
+    const [rules, post] = await Promise.all([this.getRules(), this.findPost(input.postId)]);
+    const closesAt = this.closesAt(post, rules);
+    if (!post.allowComments || (closesAt && closesAt.getTime() <= Date.now())) {
+      throw new ForbiddenException('Comments are closed on this post');
+    }
+
+    const blockReason = findBlockReason(input, rules);
+    if (blockReason) return { outcome: 'block', reason: blockReason };
+
+    if (post.commentModeration === CommentModerationMode.HOLD_ALL) {
+      return { outcome: 'hold', reason: 'This post holds every comment for review' };
+    }
+    if (post.commentModeration === CommentModerationMode.APPROVE_ALL) {
+      return { outcome: 'approve', reason: 'This post publishes comments without review' };
+    }
+
+    const user = input.userId
+      ? await this.prisma.user.findUnique({ where: { id: input.userId }, select: { role: true } })
+      : null;
+    if (user && rules.trustedRoles.includes(user.role)) {
+      return { outcome: 'approve', reason: `Trusted role (${user.role})` };
+    }
+
+    const approvedCount = await this.approvedCountFor(input);
+    if (rules.holdFirstTime && approvedCount === 0) {
+      return { outcome: 'hold', reason: 'First comment from this commenter' };
+    }
+    // History only counts for signed-in commenters; a guest's email is unverified
+    if (user && rules.autoApproveAfter > 0 && approvedCount >= rules.autoApproveAfter) {
+      return { outcome: 'approve', reason: `${approvedCount} approved comments` };
+    }
+    if (!rules.requireApproval) {
+      return { outcome: 'approve', reason: 'Approval not required' };
+    }
+    return { outcome: 'hold', reason: 'Awaiting moderation' };
+  }
+
+  async getPostSettings(postId: string) {
+    const [rules, post] = await Promise.all([this.getRules(), this.findPost(postId)]);
+    return {
+      allowComments: post.allowComments,
+      commentModeration: post.commentModeration,
+      commentAutoCloseDays: post.commentAutoCloseDays,
+      siteAutoCloseDays: rules.autoCloseDays,
+      closesAt: this.closesAt(post, rules),
+    };
+  }
+
+  async updatePostSettings(postId: string, settings: PostCommentSettings) {
+    await this.findPost(postId);
+    await this.prisma.post.update({
+      where: { id: postId },
+      data: {
+        allowComments: settings.allowComments,
+        commentModeration: settings.commentModeration,
+        commentAutoCloseDays: settings.commentAutoCloseDays,
+      },
+    });
+    return this.getPostSettings(postId);
+  }
+
+  private async findPost(postId: string) {
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId },
+      select: {
+        allowComments: true,
+        publishedAt: true,
+        createdAt: true,
+        commentModeration: true,
+        commentAutoCloseDays: true,
+      },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+    return post;
+  }
+
+  /** When comments close on their own, or null when they stay open */
+  private closesAt(
+    post: { publishedAt: Date | null; createdAt: Date; commentAutoCloseDays: number | null },
+    rules: ModerationRules,
+  ) {
+    const days = post.commentAutoCloseDays ?? rules.autoCloseDays;
+    if (days <= 0) return null;
+    return new Date((post.publishedAt ?? post.createdAt).getTime() + days * DAY_MS);
+  }
+
+  private async approvedCountFor(input: ModerationInput) {
+    if (input.userId) {
+      return this.prisma.comment.count({ where: { userId: input.userId, isApproved: true, isSpam: false } });
+    }
+    if (input.authorEmail) {
+      return this.prisma.comment.count({
+        where: { authorEmail: { equals: input.authorEmail, mode: 'insensitive' }, isApproved: true, isSpam: false },
+      });
+    }
+    return 0;
+  }
+}
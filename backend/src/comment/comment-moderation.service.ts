@@ -1,17 +1,35 @@
 // backend/src/comment/comment-moderation.service.ts
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { CommentModerationAction, CommentSpamLabel } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { CommentEngagementService, Voter } from './comment-engagement.service';
+import { CommentSpamService } from './comment-spam.service';
+import { CommentSpamClassifierService } from './comment-spam-classifier.service';
+import { CommentSubscriptionService } from './comment-subscription.service';
+import { CommentNotificationService } from './comment-notification.service';
+import { CommentModerationRulesService } from './comment-moderation-rules.service';
+import { CommentAuditService } from './comment-audit.service';
 
 @Injectable()
 export class CommentModerationService {
-  constructor(private prisma: PrismaService) {}
+  private readonly logger = new Logger(CommentModerationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private engagementService: CommentEngagementService,
+    private spamService: CommentSpamService,
+    private spamClassifier: CommentSpamClassifierService,
+    private subscriptionService: CommentSubscriptionService,
+    private notificationService: CommentNotificationService,
+    private rulesService: CommentModerationRulesService,
+    private auditService: CommentAuditService,
+  ) {}
 
-  // Simple spam detection keywords
-  private spamKeywords = ['viagra', 'casino', 'lottery', 'click here', 'buy now', 'limited offer', 'act now'];
-  
   /**
-   * Create comment with automatic spam detection
+   * Create comment, published, held or blocked by the moderation rules and
+   * spam scoring. With `subscribe`, the author is subscribed to replies in
+   * the comment's thread.
    */
   async createComment(data: {
     postId: string;
@@ -23,31 +41,41 @@ export class CommentModerationService {
     ipAddress?: string;
     userAgent?: string;
     parentId?: string;
+    honeypot?: string;
+    formToken?: string;
+    subscribe?: boolean;
   }) {
     const sanitizedContent = SanitizationUtil.sanitizeText(data.content);
     const sanitizedName = data.authorName ? SanitizationUtil.sanitizeText(data.authorName) : undefined;
     const sanitizedEmail = data.authorEmail ? SanitizationUtil.sanitizeEmail(data.authorEmail) : undefined;
     const sanitizedWebsite = data.authorWebsite ? SanitizationUtil.sanitizeURL(data.authorWebsite) : undefined;
 
-    // Check for spam
-    const isSpam = this.detectSpam(sanitizedContent);
-    
-    // Auto-approve for logged-in users with good history
-    let isApproved = false;
-    if (data.userId) {
-      const userComments = await this.prisma.comment.count({
-        where: {
-          userId: data.userId,
-          isApproved: true,
-          isSpam: false,
-        },
-      });
-      
-      // Auto-approve if user has 3+ approved comments
-      isApproved = userComments >= 3;
-    }
-    
-    return this.prisma.comment.create({
+    const decision = await this.rulesService.evaluate({
+      postId: data.postId,
+      content: sanitizedContent,
+      authorName: sanitizedName,
+      authorEmail: sanitizedEmail || undefined,
+      authorWebsite: sanitizedWebsite || undefined,
+      ipAddress: data.ipAddress,
+      userId: data.userId,
+    });
+    const spam = await this.spamService.assess({
+      content: sanitizedContent,
+      authorName: sanitizedName,
+      authorEmail: sanitizedEmail || undefined,
+      authorWebsite: sanitizedWebsite || undefined,
+      ipAddress: data.ipAddress,
+      userAgent: data.userAgent,
+      userId: data.userId,
+      honeypot: data.honeypot,
+      elapsedMs: this.spamService.elapsedSince(data.formToken),
+    });
+    // Blocked comments go to Spam too, where moderators can still rescue them
+    const isBlocked = decision.outcome === 'block';
+    const isSpam = isBlocked || spam.isSpam;
+    const isApproved = !isSpam && decision.outcome === 'approve';
+
+    const comment = await this.prisma.comment.create({
       data: {
         content: sanitizedContent,
         post: { connect: { id: data.postId } },
@@ -60,41 +88,52 @@ export class CommentModerationService {
         parent: data.parentId ? { connect: { id: data.parentId } } : undefined,
         isApproved,
         isSpam,
+        spamScore: spam.score,
+        spamReasons: spam.reasons,
         upvotes: 0,
         downvotes: 0,
         reactions: {},
       },
+      // The score and reasons are for moderators, not for tuning spam against
+      omit: { spamScore: true, spamReasons: true },
       include: {
         user: { select: { username: true, displayName: true } },
         replies: { where: { isApproved: true } },
       },
     });
-  }
 
-  /**
-   * Simple spam detection
-   */
-  private detectSpam(content: string): boolean {
-    const lowerContent = content.toLowerCase();
-    
-    // Check for spam keywords
-    if (this.spamKeywords.some(keyword => lowerContent.includes(keyword))) {
-      return true;
+    if (isBlocked) {
+      await this.auditService.record(comment.id, CommentModerationAction.BLOCKED, { reason: decision.reason });
+    } else if (isSpam) {
+      await this.auditService.record(comment.id, CommentModerationAction.MARKED_SPAM, {
+        reason: `Spam score ${spam.score} reached the threshold of ${spam.threshold}`,
+      });
+    } else {
+      await this.auditService.record(
+        comment.id,
+        isApproved ? CommentModerationAction.AUTO_APPROVED : CommentModerationAction.HELD,
+        { reason: decision.reason },
+      );
     }
-    
-    // Check for excessive links
-    const linkCount = (content.match(/https?:\/\//g) || []).length;
-    if (linkCount > 3) {
-      return true;
+
+    // Spam never gets to send confirmation emails
+    if (data.subscribe && !isSpam && (data.userId || sanitizedEmail)) {
+      try {
+        await this.subscriptionService.subscribe({
+          postId: data.postId,
+          threadId: comment.id,
+          email: sanitizedEmail || undefined,
+          userId: data.userId,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Subscribing the author of comment ${comment.id} failed: ${message}`);
+      }
     }
-    
-    // Check for excessive capital letters (shouting)
-    const capsRatio = (content.match(/[A-Z]/g) || []).length / content.length;
-    if (capsRatio > 0.5 && content.length > 20) {
-      return true;
+    if (comment.isApproved) {
+      await this.notificationService.notifyPublished(comment.id, data.userId);
     }
-    
-    return false;
+    return comment;
   }
 
   /**
@@ -180,7 +219,8 @@ export class CommentModerationService {
    * Approve comment
    */
   async approveComment(id: string, moderatorId: string) {
-    return this.prisma.comment.update({
+    const before = await this.prisma.comment.findUnique({ where: { id }, select: { isApproved: true, isSpam: true } });
+    const comment = await this.prisma.comment.update({
       where: { id },
       data: {
         isApproved: true,
@@ -189,13 +229,19 @@ export class CommentModerationService {
         moderatedAt: new Date(),
       },
     });
+    await this.auditService.record(id, CommentModerationAction.APPROVED, { moderatorId });
+    await this.spamClassifier.train(id, CommentSpamLabel.HAM, moderatorId);
+    if (!before?.isApproved || before.isSpam) {
+      await this.notificationService.notifyPublished(id, moderatorId);
+    }
+    return comment;
   }
 
   /**
    * Reject/delete comment
    */
   async rejectComment(id: string, moderatorId: string) {
-    return this.prisma.comment.update({
+    const comment = await this.prisma.comment.update({
       where: { id },
       data: {
         isApproved: false,
@@ -204,26 +250,57 @@ export class CommentModerationService {
         moderatedAt: new Date(),
       },
     });
+    await this.auditService.record(id, CommentModerationAction.REJECTED, { moderatorId });
+    await this.spamClassifier.train(id, CommentSpamLabel.SPAM, moderatorId);
+    return comment;
   }
 
   /**
    * Flag comment for review
    */
-  async flagComment(id: string, reason: string) {
-    return this.prisma.comment.update({
+  async flagComment(id: string, reason: string, moderatorId: string) {
+    const comment = await this.prisma.comment.update({
       where: { id },
       data: {
         isFlagged: true,
         flagReason: reason,
       },
     });
+    await this.auditService.record(id, CommentModerationAction.FLAGGED, { moderatorId, reason });
+    return comment;
+  }
+
+  /**
+   * Edit a comment's text; the previous text is kept in the audit trail
+   */
+  async editComment(id: string, content: string, moderatorId: string) {
+    const existing = await this.prisma.comment.findUnique({ where: { id }, select: { content: true } });
+    if (!existing) throw new NotFoundException('Comment not found');
+
+    const comment = await this.prisma.comment.update({
+      where: { id },
+      data: {
+        content: SanitizationUtil.sanitizeText(content),
+        editedAt: new Date(),
+        editedBy: moderatorId,
+      },
+    });
+    await this.auditService.record(id, CommentModerationAction.EDITED, {
+      moderatorId,
+      details: { previousContent: existing.content },
+    });
+    return comment;
   }
 
   /**
    * Bulk approve comments
    */
   async bulkApprove(ids: string[], moderatorId: string) {
-    return this.prisma.comment.updateMany({
+    const unpublished = await this.prisma.comment.findMany({
+      where: { id: { in: ids }, OR: [{ isApproved: false }, { isSpam: true }] },
+      select: { id: true },
+    });
+    const result = await this.prisma.comment.updateMany({
       where: { id: { in: ids } },
       data: {
         isApproved: true,
@@ -232,13 +309,19 @@ export class CommentModerationService {
         moderatedAt: new Date(),
       },
     });
+    await this.auditService.recordMany(ids, CommentModerationAction.APPROVED, moderatorId);
+    await this.spamClassifier.trainMany(ids, CommentSpamLabel.HAM, moderatorId);
+    for (const comment of unpublished) {
+      await this.notificationService.notifyPublished(comment.id, moderatorId);
+    }
+    return result;
   }
 
   /**
    * Bulk delete/spam comments
    */
   async bulkReject(ids: string[], moderatorId: string) {
-    return this.prisma.comment.updateMany({
+    const result = await this.prisma.comment.updateMany({
       where: { id: { in: ids } },
       data: {
         isApproved: false,
@@ -247,6 +330,9 @@ export class CommentModerationService {
         moderatedAt: new Date(),
       },
     });
+    await this.auditService.recordMany(ids, CommentModerationAction.REJECTED, moderatorId);
+    await this.spamClassifier.trainMany(ids, CommentSpamLabel.SPAM, moderatorId);
+    return result;
   }
 
   /**
@@ -265,20 +351,23 @@ export class CommentModerationService {
   }
 
   /**
-   * Get comments by post (public, only approved)
+   * Get comments by post (public, only approved). With a voter, each
+   * comment carries that voter's own vote and reactions.
    */
-  async getCommentsForPost(postId: string) {
-    return this.prisma.comment.findMany({
+  async getCommentsForPost(postId: string, voter?: Voter) {
+    const comments = await this.prisma.comment.findMany({
       where: {
         postId,
         isApproved: true,
         isSpam: false,
         parentId: null, // Only root comments
       },
+      omit: { spamScore: true, spamReasons: true },
       include: {
         user: { select: { username: true, displayName: true } },
         replies: {
           where: { isApproved: true, isSpam: false },
+          omit: { spamScore: true, spamReasons: true },
           include: {
             user: { select: { username: true, displayName: true } },
           },
@@ -287,20 +376,19 @@ export class CommentModerationService {
       },
       orderBy: { createdAt: 'desc' },
     });
-  }
+    if (!voter) return comments;
 
-  async vote(commentId: string, deltaUp: number, deltaDown: number) {
-    return this.prisma.comment.update({
-      where: { id: commentId },
-      data: {
-        upvotes: { increment: deltaUp },
-        downvotes: { increment: deltaDown },
-      },
-    });
+    const ids = comments.flatMap((comment) => [comment.id, ...comment.replies.map((reply) => reply.id)]);
+    const viewer = await this.engagementService.getViewerState(ids, voter);
+    return comments.map((comment) => ({
+      ...comment,
+      ...viewer.get(comment.id),
+      replies: comment.replies.map((reply) => ({ ...reply, ...viewer.get(reply.id) })),
+    }));
   }
 
   async togglePin(commentId: string, pinned: boolean, moderatorId: string) {
-    return this.prisma.comment.update({
+    const comment = await this.prisma.comment.update({
       where: { id: commentId },
       data: {
         isPinned: pinned,
@@ -308,10 +396,16 @@ export class CommentModerationService {
         moderatedAt: new Date(),
       },
     });
+    await this.auditService.record(
+      commentId,
+      pinned ? CommentModerationAction.PINNED : CommentModerationAction.UNPINNED,
+      { moderatorId },
+    );
+    return comment;
   }
 
   async markResolved(commentId: string, resolved: boolean, moderatorId: string) {
-    return this.prisma.comment.update({
+    const comment = await this.prisma.comment.update({
       where: { id: commentId },
       data: {
         isResolved: resolved,
@@ -319,6 +413,12 @@ export class CommentModerationService {
         moderatedAt: new Date(),
       },
     });
+    await this.auditService.record(
+      commentId,
+      resolved ? CommentModerationAction.RESOLVED : CommentModerationAction.UNRESOLVED,
+      { moderatorId },
+    );
+    return comment;
   }
 
   /**
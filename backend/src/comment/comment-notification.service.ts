@@ -0,0 +1,241 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CommentNotificationFrequency, CommentNotificationKind, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CommentSubscriptionService } from './comment-subscription.service';
+
+export type DigestRun = 'instant' | 'daily';
+
+const STAFF_ROLES: Role[] = [Role.ADMINISTRATOR, Role.SUPER_ADMIN, Role.EDITOR];
+const EXCERPT_LENGTH = 280;
+const SEND_BATCH_SIZE = 500;
+// Sent (or undeliverable) queue rows are kept this long
+const QUEUE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const excerpt = (content: string) => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1)}…` : text;
+};
+
+const frontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const commentPath = (slug: string, commentId: string) => `/blog/${slug}#comment-${commentId}`;
+
+const headlineFor = (kind: CommentNotificationKind, author: string, postTitle: string) => {
+  if (kind === CommentNotificationKind.MODERATOR_RESPONSE) return `A moderator responded on "${postTitle}"`;
+  if (kind === CommentNotificationKind.REPLY) return `${author} replied on "${postTitle}"`;
+  return `${author} commented on "${postTitle}"`;
+};
+
+/**
+ * Tells subscribers about newly published comments. Publishing a comment
+ * queues one CommentNotification per subscribed address (and an in-app
+ * notification for signed-in readers); the queue is mailed in batches, every
+ * few minutes for instant subscriptions and once a day for digests.
+ * Moderator responses skip the daily wait.
+ */
+@Injectable()
+export class CommentNotificationService {
+  private readonly logger = new Logger(CommentNotificationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+    private notificationsService: NotificationsService,
+    private subscriptions: CommentSubscriptionService,
+  ) {}
+
+  /** Call once a comment becomes visible; failures are logged so moderation is never blocked */
+  async notifyPublished(commentId: string, actorId?: string) {
+    try {
+      await this.fanOut(commentId, actorId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Notifications for comment ${commentId} failed: ${message}`);
+    }
+  }
+
+  /** Mail queued notifications: one email per subscription per run */
+  async sendDue(run: DigestRun) {
+    const pending = await this.prisma.commentNotification.findMany({
+      where: {
+        sentAt: null,
+        ...(run === 'instant'
+          ? {
+              OR: [
+                { subscription: { frequency: CommentNotificationFrequency.INSTANT } },
+                { kind: CommentNotificationKind.MODERATOR_RESPONSE },
+              ],
+            }
+          : {}),
+      },
+      include: {
+        subscription: {
+          select: { id: true, email: true, threadId: true, post: { select: { title: true, slug: true } } },
+        },
+        comment: {
+          select: {
+            id: true,
+            content: true,
+            authorName: true,
+            isApproved: true,
+            isSpam: true,
+            user: { select: { displayName: true, username: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: SEND_BATCH_SIZE,
+    });
+
+    const bySubscription = new Map<string, typeof pending>();
+    for (const item of pending) {
+      const items = bySubscription.get(item.subscriptionId) ?? [];
+      items.push(item);
+      bySubscription.set(item.subscriptionId, items);
+    }
+
+    let sent = 0;
+    for (const items of bySubscription.values()) {
+      const { subscription } = items[0];
+      // Comments hidden since they were queued are dropped, not mailed
+      const visible = items.filter((item) => item.comment.isApproved && !item.comment.isSpam);
+      try {
+        if (visible.length > 0) {
+          await this.mailService.sendCommentNotificationEmail(subscription.email, {
+            subject: visible.length === 1
+              ? headlineFor(visible[0].kind, this.authorOf(visible[0].comment), subscription.post.title)
+              : `${visible.length} new comments on "${subscription.post.title}"`,
+            text: this.digestText(subscription.post, visible),
+            unsubscribeUrl: this.subscriptions.linkFor('unsubscribe', subscription.id),
+            oneClickUnsubscribeUrl: this.subscriptions.oneClickUnsubscribeUrl(subscription.id),
+          });
+          sent++;
+        }
+        await this.prisma.commentNotification.updateMany({
+          where: { id: { in: items.map((item) => item.id) } },
+          data: { sentAt: new Date() },
+        });
+      } catch (error) {
+        // Left unsent, so the next run retries
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Comment notification email for subscription ${subscription.id} failed: ${message}`);
+      }
+    }
+    return sent;
+  }
+
+  /** Drop old queue rows and never-confirmed subscription requests */
+  async purge(now = Date.now()) {
+    const [notifications, subscriptions] = await Promise.all([
+      this.prisma.commentNotification.deleteMany({ where: { createdAt: { lt: new Date(now - QUEUE_RETENTION_MS) } } }),
+      this.subscriptions.purgeUnconfirmed(now),
+    ]);
+    return { notifications: notifications.count, subscriptions: subscriptions.count };
+  }
+
+  private async fanOut(commentId: string, actorId?: string) {
+    const comment = await this.prisma.comment.findUnique({
+      where: { id: commentId },
+      select: {
+        id: true,
+        postId: true,
+        parentId: true,
+        userId: true,
+        content: true,
+        authorName: true,
+        authorEmail: true,
+        isApproved: true,
+        isSpam: true,
+        post: { select: { title: true, slug: true } },
+        user: { select: { email: true, role: true, displayName: true, username: true } },
+        parent: { select: { userId: true } },
+      },
+    });
+    if (!comment || !comment.isApproved || comment.isSpam) return;
+    // Already fanned out when it was first published
+    if (await this.prisma.commentNotification.count({ where: { commentId } }) > 0) return;
+
+    const threadId = comment.parentId ? await this.subscriptions.threadRootOf(comment.parentId) : undefined;
+    const kind = !comment.parentId
+      ? CommentNotificationKind.NEW_COMMENT
+      : comment.user && STAFF_ROLES.includes(comment.user.role)
+        ? CommentNotificationKind.MODERATOR_RESPONSE
+        : CommentNotificationKind.REPLY;
+
+    const subscriptions = await this.prisma.commentSubscription.findMany({
+      where: {
+        target: { in: [`post:${comment.postId}`, ...(threadId ? [`thread:${threadId}`] : [])] },
+        confirmedAt: { not: null },
+      },
+      select: { id: true, email: true, userId: true, threadId: true },
+    });
+
+    // One email per address, and none to the comment's own author; a
+    // thread subscription wins over the post-wide one
+    const authorEmail = (comment.user?.email ?? comment.authorEmail ?? '').toLowerCase();
+    const byEmail = new Map<string, (typeof subscriptions)[number]>();
+    for (const subscription of subscriptions) {
+      if (subscription.email === authorEmail || (comment.userId && subscription.userId === comment.userId)) continue;
+      const current = byEmail.get(subscription.email);
+      if (!current || (!current.threadId && subscription.threadId)) byEmail.set(subscription.email, subscription);
+    }
+    const recipients = [...byEmail.values()];
+    if (recipients.length > 0) {
+      await this.prisma.commentNotification.createMany({
+        data: recipients.map((subscription) => ({ subscriptionId: subscription.id, commentId, kind })),
+        skipDuplicates: true,
+      });
+    }
+
+    // Signed-in readers also hear in the app, including about replies to
+    // their own comments when they did not subscribe by email
+    const userIds = new Set(recipients.map((subscription) => subscription.userId).filter((id): id is string => Boolean(id)));
+    if (comment.parent?.userId) userIds.add(comment.parent.userId);
+    if (comment.userId) userIds.delete(comment.userId);
+    if (userIds.size === 0) return;
+
+    const createdById = comment.userId ?? actorId ?? (await this.fallbackCreatorId());
+    if (!createdById) return;
+    await this.notificationsService.createNotification({
+      title: headlineFor(kind, this.authorOf(comment), comment.post.title),
+      message: excerpt(comment.content),
+      type: 'INFO',
+      priority: kind === CommentNotificationKind.MODERATOR_RESPONSE ? 'HIGH' : 'NORMAL',
+      status: 'SENT',
+      channels: ['IN_APP'],
+      audience: 'USER',
+      targetUserIds: [...userIds],
+      category: 'UPDATE',
+      actionLabel: 'View comment',
+      actionUrl: commentPath(comment.post.slug, comment.id),
+    }, createdById);
+  }
+
+  private digestText(
+    post: { title: string; slug: string },
+    items: Array<{ kind: CommentNotificationKind; comment: { id: string; content: string; authorName: string | null; user: { displayName: string | null; username: string } | null } }>,
+  ) {
+    const entries = items.map((item) => [
+      headlineFor(item.kind, this.authorOf(item.comment), post.title),
+      excerpt(item.comment.content),
+      `${frontendUrl()}${commentPath(post.slug, item.comment.id)}`,
+    ].join('\n'));
+    return `Hello,\n\n${entries.join('\n\n')}`;
+  }
+
+  private authorOf(comment: { authorName: string | null; user: { displayName: string | null; username: string } | null }) {
+    return comment.authorName || comment.user?.displayName || comment.user?.username || 'Someone';
+  }
+
+  // Notifications need a creator; guest comments published automatically have none
+  private async fallbackCreatorId() {
+    const admin = await this.prisma.user.findFirst({
+      where: { role: { in: [Role.SUPER_ADMIN, Role.ADMINISTRATOR] } },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+    return admin?.id;
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CommentSpamLabel, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SpamCheckInput } from './interfaces/spam-check.interface';
+import { TokenCounts, spamProbability, spamTokens } from './spam-classifier';
+
+// Below this many examples of either label the classifier abstains
+const MIN_TRAINING_PER_LABEL = 5;
+const RETRAIN_BATCH_SIZE = 200;
+
+/**
+ * Locally trained naive Bayes spam classifier. Every time a moderator
+ * approves a comment or marks it as spam, its tokens are counted under
+ * that label; changing the verdict moves them to the other label.
+ */
+@Injectable()
+export class CommentSpamClassifierService {
+  private readonly logger = new Logger(CommentSpamClassifierService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /** Spam probability of an unsaved comment, or null while there is too little training */
+  async probability(input: SpamCheckInput): Promise<number | null> {
+    const totals = await this.getTotals();
+    if (totals.spam < MIN_TRAINING_PER_LABEL || totals.ham < MIN_TRAINING_PER_LABEL) return null;
+
+    const tokens = spamTokens(input);
+    const rows = await this.prisma.commentSpamToken.findMany({
+      where: { token: { in: tokens } },
+      select: { token: true, spamCount: true, hamCount: true },
+    });
+    const counts = new Map<string, TokenCounts>(rows.map((row) => [row.token, { spam: row.spamCount, ham: row.hamCount }]));
+    return spamProbability(tokens, counts, totals);
+  }
+
+  /** Learn a moderator verdict; repeating the same verdict is a no-op */
+  async train(commentId: string, label: CommentSpamLabel, moderatorId?: string) {
+    const comment = await this.prisma.comment.findUnique({
+      where: { id: commentId },
+      select: { content: true, authorName: true, authorEmail: true, authorWebsite: true },
+    });
+    if (!comment) return;
+
+    const tokens = spamTokens(comment);
+    await this.prisma.$transaction(async (tx) => {
+      const previous = await tx.commentSpamVerdict.findUnique({ where: { commentId } });
+      if (previous?.label === label) return;
+      if (previous) {
+        await this.count(tx, previous.tokens, previous.label, -1);
+      }
+      await this.count(tx, tokens, label, 1);
+      await tx.commentSpamVerdict.upsert({
+        where: { commentId },
+        create: { commentId, label, tokens, moderatorId },
+        update: { label, tokens, moderatorId },
+      });
+    }, { timeout: 20000 });
+  }
+
+  async trainMany(commentIds: string[], label: CommentSpamLabel, moderatorId?: string) {
+    for (const commentId of commentIds) {
+      await this.train(commentId, label, moderatorId);
+    }
+  }
+
+  /**
+   * Train on every comment a moderator has already ruled on, so the
+   * classifier is useful on a site with existing moderation history.
+   */
+  async trainFromHistory() {
+    let trained = 0;
+    let cursor: string | undefined;
+    for (;;) {
+      const comments = await this.prisma.comment.findMany({
+        where: { moderatedAt: { not: null } },
+        select: { id: true, isSpam: true, moderatedBy: true },
+        orderBy: { id: 'asc' },
+        take: RETRAIN_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+      if (comments.length === 0) break;
+      for (const comment of comments) {
+        await this.train(comment.id, comment.isSpam ? CommentSpamLabel.SPAM : CommentSpamLabel.HAM, comment.moderatedBy ?? undefined);
+        trained++;
+      }
+      cursor = comments[comments.length - 1].id;
+    }
+    this.logger.log(`Spam classifier trained on ${trained} moderated comments`);
+    return { trained, ...(await this.getStats()) };
+  }
+
+  async getStats() {
+    const [totals, tokens] = await Promise.all([this.getTotals(), this.prisma.commentSpamToken.count()]);
+    return {
+      spamExamples: totals.spam,
+      hamExamples: totals.ham,
+      tokens,
+      active: totals.spam >= MIN_TRAINING_PER_LABEL && totals.ham >= MIN_TRAINING_PER_LABEL,
+      minExamples: MIN_TRAINING_PER_LABEL,
+    };
+  }
+
+  private async getTotals() {
+    const groups = await this.prisma.commentSpamVerdict.groupBy({ by: ['label'], _count: { _all: true } });
+    const countOf = (label: CommentSpamLabel) => groups.find((group) => group.label === label)?._count._all ?? 0;
+    return { spam: countOf(CommentSpamLabel.SPAM), ham: countOf(CommentSpamLabel.HAM) };
+  }
+
+  private async count(tx: Prisma.TransactionClient, tokens: string[], label: CommentSpamLabel, delta: 1 | -1) {
+    const field = label === CommentSpamLabel.SPAM ? 'spamCount' : 'hamCount';
+    for (const token of tokens) {
+      await tx.commentSpamToken.upsert({
+        where: { token },
+        create: { token, [field]: Math.max(0, delta) },
+        update: { [field]: { increment: delta } },
+      });
+    }
+  }
+}
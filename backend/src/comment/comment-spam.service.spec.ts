@@ -0,0 +1,208 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { CommentSpamService } from './comment-spam.service';
+import { CommentSpamClassifierService } from './comment-spam-classifier.service';
+import { SpamCheckRegistry } from './spam-check.registry';
+import { SpamCheck, SpamCheckInput } from './interfaces/spam-check.interface';
+import { ClassifierSpamCheck } from './spam-checks/classifier.check';
+import { HoneypotSpamCheck } from './spam-checks/honeypot.check';
+import { KeywordSpamCheck } from './spam-checks/keyword.check';
+import { LinkDensitySpamCheck } from './spam-checks/link-density.check';
+import { ReputationSpamCheck } from './spam-checks/reputation.check';
+import { ShoutingSpamCheck } from './spam-checks/shouting.check';
+import { SubmitTimeSpamCheck } from './spam-checks/submit-time.check';
+
+type Fixture = {
+  settings?: Record<string, unknown> | null;
+  /** Spam and approved comments from the sender */
+  history?: { spam: number; approved: number };
+  /** Classifier verdict; null while it is untrained */
+  probability?: number | null;
+};
+
+const setup = ({ settings = null, history = { spam: 0, approved: 0 }, probability = null }: Fixture = {}) => {
+  const prisma = {
+    siteSettings: { findFirst: async () => settings },
+    comment: {
+      count: async ({ where }: { where: { isSpam: boolean } }) => (where.isSpam ? history.spam : history.approved),
+    },
+  } as unknown as PrismaService;
+  const classifier = { probability: async () => probability } as unknown as CommentSpamClassifierService;
+  const config = { get: () => 'test-secret' } as unknown as ConfigService;
+
+  const registry = new SpamCheckRegistry();
+  const checks = [
+    new HoneypotSpamCheck(registry),
+    new KeywordSpamCheck(registry),
+    new LinkDensitySpamCheck(registry),
+    new ShoutingSpamCheck(registry),
+    new SubmitTimeSpamCheck(registry),
+    new ReputationSpamCheck(registry, prisma),
+    new ClassifierSpamCheck(registry, classifier),
+  ];
+  checks.forEach((check) => check.onModuleInit());
+
+  return { service: new CommentSpamService(prisma, registry, config), registry };
+};
+
+const comment = (overrides: Partial<SpamCheckInput> = {}): SpamCheckInput => ({
+  content: 'Thanks, the tip about sanding between coats saved our hallway.',
+  authorName: 'Sam',
+  authorEmail: 'sam@example.com',
+  elapsedMs: 45_000,
+  ...overrides,
+});
+
+describe('CommentSpamService', () => {
+  describe('assess', () => {
+    it('passes an ordinary comment with no reasons', async () => {
+      const { service } = setup();
+
+      expect(await service.assess(comment())).toEqual({ score: 0, threshold: 5, isSpam: false, reasons: [] });
+    });
+
+    it('marks a filled-in honeypot as spam on its own', async () => {
+      const { service } = setup();
+      const result = await service.assess(comment({ honeypot: 'http://bot.example' }));
+
+      expect(result.isSpam).toBe(true);
+      expect(result.reasons).toEqual([
+        { check: 'honeypot', label: 'Hidden field filled in', points: 10, detail: 'The hidden form field was filled in' },
+      ]);
+    });
+
+    it('scores default keywords, counting two hits in full', async () => {
+      const { service } = setup();
+      const one = await service.assess(comment({ content: 'Great casino' }));
+      const two = await service.assess(comment({ content: 'Casino lottery, click here' }));
+
+      expect(one.reasons).toEqual([expect.objectContaining({ check: 'keywords', points: 1.5, detail: 'Contains "casino"' })]);
+      expect(two.reasons[0]).toMatchObject({ check: 'keywords', points: 3 });
+    });
+
+    it('uses the keyword list from the settings', async () => {
+      const { service } = setup({ settings: { commentSpamKeywords: ['cheap render'] } });
+
+      expect((await service.assess(comment({ content: 'Great casino' }))).reasons).toEqual([]);
+      expect((await service.assess(comment({ content: 'Cheap Render quotes' }))).reasons[0])
+        .toMatchObject({ check: 'keywords', detail: 'Contains "cheap render"' });
+    });
+
+    it('scores link density', async () => {
+      const { service } = setup();
+      const result = await service.assess(comment({
+        content: 'See https://a.example https://b.example https://c.example https://d.example',
+      }));
+
+      expect(result.reasons).toEqual([
+        expect.objectContaining({ check: 'links', points: 2, detail: '4 links in 13 words' }),
+      ]);
+    });
+
+    it('scores comments that are mostly capitals', async () => {
+      const { service } = setup();
+      const result = await service.assess(comment({ content: 'THIS IS THE BEST PAINT ADVICE ON THE WHOLE INTERNET' }));
+
+      expect(result.reasons).toEqual([expect.objectContaining({ check: 'shouting', points: 1.5 })]);
+    });
+
+    it('scores fast submissions and missing form tokens', async () => {
+      const { service } = setup();
+
+      expect((await service.assess(comment({ elapsedMs: 1200 }))).reasons)
+        .toEqual([expect.objectContaining({ check: 'submitTime', points: 3, detail: 'Submitted 1.2s after the form loaded' })]);
+      expect((await service.assess(comment({ elapsedMs: undefined }))).reasons)
+        .toEqual([expect.objectContaining({ check: 'submitTime', points: 1.5 })]);
+    });
+
+    it('lowers the score for senders with approved comments', async () => {
+      const { service } = setup({ history: { spam: 0, approved: 3 } });
+      const result = await service.assess(comment({ content: 'Great casino' }));
+
+      // 1.5 for the keyword, -3 for three approved comments
+      expect(result.reasons.map((reason) => [reason.check, reason.points])).toEqual([['keywords', 1.5], ['reputation', -3]]);
+      expect(result.score).toBe(-1.5);
+    });
+
+    it('raises the score for senders with spam history', async () => {
+      const { service } = setup({ history: { spam: 4, approved: 0 } });
+      const result = await service.assess(comment());
+
+      expect(result.reasons).toEqual([expect.objectContaining({ check: 'reputation', points: 3.2 })]);
+    });
+
+    it('uses the classifier once it is trained', async () => {
+      const { service } = setup({ probability: 0.9 });
+      const result = await service.assess(comment());
+
+      expect(result.reasons).toEqual([
+        expect.objectContaining({ check: 'classifier', points: 3.2, detail: '90% likely spam based on past moderation' }),
+      ]);
+    });
+
+    it('applies weight overrides, skipping checks weighted zero', async () => {
+      const { service } = setup({
+        settings: { commentSpamThreshold: 2, commentSpamWeights: { submitTime: 0, keywords: 4, links: 'heavy' } },
+      });
+      const result = await service.assess(comment({
+        content: 'Casino https://a.example',
+        elapsedMs: 100,
+      }));
+
+      expect(result.reasons.map((reason) => [reason.check, reason.points])).toEqual([['keywords', 2], ['links', 1.5]]);
+      expect(result).toMatchObject({ score: 3.5, threshold: 2, isSpam: true });
+    });
+
+    it('sums the reasons, highest first, and compares with the threshold', async () => {
+      const { service } = setup({ probability: 0.75 });
+      const result = await service.assess(comment({ content: 'Visit the casino', elapsedMs: 500 }));
+
+      expect(result.reasons.map((reason) => [reason.check, reason.points])).toEqual([
+        ['submitTime', 3],
+        ['classifier', 2],
+        ['keywords', 1.5],
+      ]);
+      expect(result).toMatchObject({ score: 6.5, isSpam: true });
+    });
+
+    it('keeps scoring when a check fails', async () => {
+      const { service, registry } = setup();
+      const broken: SpamCheck = {
+        id: 'broken',
+        label: 'Broken',
+        defaultWeight: 5,
+        evaluate: async () => {
+          throw new Error('lookup failed');
+        },
+      };
+      registry.register(broken);
+      const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+      const result = await service.assess(comment({ honeypot: 'x' }));
+      expect(result.reasons.map((reason) => reason.check)).toEqual(['honeypot']);
+      expect(warn).toHaveBeenCalledWith('Spam check broken failed: lookup failed');
+      warn.mockRestore();
+    });
+  });
+
+  describe('form tokens', () => {
+    it('measures the time since a token was issued', () => {
+      const { service } = setup();
+      const token = service.issueFormToken(1_000_000);
+
+      expect(service.elapsedSince(token, 1_004_500)).toBe(4500);
+    });
+
+    it('rejects missing, forged and stale tokens', () => {
+      const { service } = setup();
+      const token = service.issueFormToken(1_000_000);
+
+      expect(service.elapsedSince(undefined)).toBeUndefined();
+      expect(service.elapsedSince('1000000')).toBeUndefined();
+      expect(service.elapsedSince(token.replace('1000000', '999000'), 1_004_500)).toBeUndefined();
+      expect(service.elapsedSince(token, 999_000)).toBeUndefined();
+      expect(service.elapsedSince(token, 1_000_000 + 25 * 60 * 60 * 1000)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { SpamCheckRegistry } from './spam-check.registry';
+import { SpamCheckInput, SpamCheckSettings } from './interfaces/spam-check.interface';
+
+export const DEFAULT_SPAM_KEYWORDS = ['viagra', 'casino', 'lottery', 'click here', 'buy now', 'limited offer', 'act now'];
+export const DEFAULT_SPAM_THRESHOLD = 5;
+const DEFAULT_MIN_SUBMIT_SECONDS = 3;
+// Form tokens older than this are treated as missing
+const FORM_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type SpamReason = {
+  check: string;
+  label: string;
+  points: number;
+  detail: string;
+};
+
+export type SpamAssessment = {
+  score: number;
+  threshold: number;
+  isSpam: boolean;
+  reasons: SpamReason[];
+};
+
+type SpamSettings = SpamCheckSettings & {
+  threshold: number;
+  weights: Record<string, number>;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Comment spam scoring. Each registered check reports a strength from -1
+ * to 1, which is multiplied by its weight (SiteSettings.commentSpamWeights,
+ * falling back to the check's default); comments whose summed points reach
+ * SiteSettings.commentSpamThreshold are marked as spam.
+ */
+@Injectable()
+export class CommentSpamService {
+  private readonly logger = new Logger(CommentSpamService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private registry: SpamCheckRegistry,
+    private config: ConfigService,
+  ) {}
+
+  async assess(input: SpamCheckInput): Promise<SpamAssessment> {
+    const settings = await this.getSettings();
+    const reasons: SpamReason[] = [];
+
+    for (const check of this.registry.list()) {
+      const weight = settings.weights[check.id] ?? check.defaultWeight;
+      if (weight === 0) continue;
+      try {
+        const signal = await check.evaluate(input, settings);
+        if (!signal || signal.strength === 0) continue;
+        const strength = Math.max(-1, Math.min(1, signal.strength));
+        reasons.push({ check: check.id, label: check.label, points: round(strength * weight), detail: signal.detail });
+      } catch (error) {
+        // One broken check must not block commenting
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Spam check ${check.id} failed: ${message}`);
+      }
+    }
+
+    const score = round(reasons.reduce((sum, reason) => sum + reason.points, 0));
+    return {
+      score,
+      threshold: settings.threshold,
+      isSpam: score >= settings.threshold,
+      reasons: reasons.sort((a, b) => b.points - a.points),
+    };
+  }
+
+  /** Registered checks with their effective weights, for the settings screen */
+  async listChecks() {
+    const { weights } = await this.getSettings();
+    return this.registry.list().map((check) => ({
+      id: check.id,
+      label: check.label,
+      defaultWeight: check.defaultWeight,
+      weight: weights[check.id] ?? check.defaultWeight,
+    }));
+  }
+
+  /** Signed timestamp handed to the comment form, so time-to-submit cannot be faked by the client */
+  issueFormToken(now = Date.now()) {
+    return `${now}.${this.sign(String(now))}`;
+  }
+
+  /** Milliseconds since the token was issued, or undefined when it is missing, forged or stale */
+  elapsedSince(token: string | undefined, now = Date.now()): number | undefined {
+    const [issued, signature] = (token ?? '').split('.');
+    const issuedAt = Number(issued);
+    if (!signature || !Number.isFinite(issuedAt)) return undefined;
+
+    const expected = Buffer.from(this.sign(issued));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return undefined;
+
+    const elapsed = now - issuedAt;
+    return elapsed >= 0 && elapsed <= FORM_TOKEN_MAX_AGE_MS ? elapsed : undefined;
+  }
+
+  private sign(value: string) {
+    const secret = this.config.get<string>('JWT_SECRET') ?? '';
+    return createHmac('sha256', secret).update(`comment-form:${value}`).digest('hex').slice(0, 32);
+  }
+
+  private async getSettings(): Promise<SpamSettings> {
+    const settings = await this.prisma.siteSettings.findFirst({
+      select: {
+        commentSpamKeywords: true,
+        commentSpamThreshold: true,
+        commentSpamWeights: true,
+        commentMinSubmitSeconds: true,
+      },
+    });
+
+    const weights: Record<string, number> = {};
+    if (isRecord(settings?.commentSpamWeights)) {
+      for (const [id, weight] of Object.entries(settings.commentSpamWeights)) {
+        if (typeof weight === 'number' && Number.isFinite(weight)) weights[id] = weight;
+      }
+    }
+    return {
+      keywords: settings?.commentSpamKeywords ?? DEFAULT_SPAM_KEYWORDS,
+      threshold: settings?.commentSpamThreshold ?? DEFAULT_SPAM_THRESHOLD,
+      minSubmitSeconds: settings?.commentMinSubmitSeconds ?? DEFAULT_MIN_SUBMIT_SECONDS,
+      weights,
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CommentNotificationFrequency } from '@prisma/client';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+
+// An unconfirmed request is not mailed again sooner than this
+const CONFIRMATION_RESEND_MS = 10 * 60 * 1000;
+// Unconfirmed requests older than this are deleted by the digest job
+const UNCONFIRMED_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Guards against parent cycles when walking up to a thread's root
+const MAX_THREAD_DEPTH = 50;
+
+export type SubscriptionLinkAction = 'confirm' | 'unsubscribe';
+
+export type SubscribeInput = {
+  postId: string;
+  /** Any comment in the thread; omit to follow every comment on the post */
+  threadId?: string;
+  /** Required for guests; signed-in readers use their account address */
+  email?: string;
+  userId?: string;
+  frequency?: CommentNotificationFrequency;
+};
+
+const frontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+const backendUrl = () => (process.env.BACKEND_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+
+/**
+ * Email subscriptions to a post's comments or to one comment thread.
+ * Requests are double opt-in unless they come from a signed-in reader with
+ * a verified address. Confirm and unsubscribe links carry an HMAC of the
+ * subscription id, so they work without signing in and cannot be guessed.
+ */
+@Injectable()
+export class CommentSubscriptionService {
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+    private config: ConfigService,
+  ) {}
+
+  async subscribe(input: SubscribeInput): Promise<{ status: 'subscribed' | 'pending' }> {
+    const post = await this.prisma.post.findUnique({
+      where: { id: input.postId },
+      select: { id: true, title: true },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+
+    let threadId: string | undefined;
+    if (input.threadId) {
+      threadId = await this.threadRootOf(input.threadId);
+      const root = await this.prisma.comment.findUnique({ where: { id: threadId }, select: { postId: true } });
+      if (root?.postId !== post.id) throw new BadRequestException('Comment is not on this post');
+    }
+
+    const user = input.userId
+      ? await this.prisma.user.findUnique({ where: { id: input.userId }, select: { email: true, isEmailVerified: true } })
+      : null;
+    const email = (user?.email ?? input.email ?? '').trim().toLowerCase();
+    if (!email) throw new BadRequestException('An email address is required to subscribe');
+    const ownsAddress = Boolean(user?.isEmailVerified);
+
+    const target = threadId ? `thread:${threadId}` : `post:${post.id}`;
+    const frequency = input.frequency ?? CommentNotificationFrequency.INSTANT;
+    const now = new Date();
+    const existing = await this.prisma.commentSubscription.findUnique({
+      where: { email_target: { email, target } },
+    });
+
+    let subscription = existing;
+    if (!subscription) {
+      subscription = await this.prisma.commentSubscription.create({
+        data: {
+          email,
+          target,
+          postId: post.id,
+          threadId,
+          userId: input.userId,
+          frequency,
+          confirmedAt: ownsAddress ? now : null,
+        },
+      });
+    } else if (ownsAddress || !subscription.confirmedAt) {
+      // Someone else typing a confirmed address must not change its settings
+      subscription = await this.prisma.commentSubscription.update({
+        where: { id: subscription.id },
+        data: {
+          frequency,
+          userId: input.userId ?? subscription.userId,
+          confirmedAt: subscription.confirmedAt ?? (ownsAddress ? now : null),
+        },
+      });
+    }
+
+    if (subscription.confirmedAt) return { status: 'subscribed' };
+
+    const sentAt = subscription.confirmationSentAt?.getTime() ?? 0;
+    if (now.getTime() - sentAt >= CONFIRMATION_RESEND_MS) {
+      await this.mailService.sendCommentSubscriptionConfirmation(email, {
+        postTitle: post.title,
+        scope: threadId ? 'thread' : 'post',
+        confirmUrl: this.linkFor('confirm', subscription.id),
+      });
+      await this.prisma.commentSubscription.update({
+        where: { id: subscription.id },
+        data: { confirmationSentAt: now },
+      });
+    }
+    return { status: 'pending' };
+  }
+
+  async confirm(id: string, token: string) {
+    this.assertToken('confirm', id, token);
+    const subscription = await this.prisma.commentSubscription.findUnique({
+      where: { id },
+      include: { post: { select: { title: true, slug: true } } },
+    });
+    if (!subscription) throw new NotFoundException('Subscription not found');
+
+    if (!subscription.confirmedAt) {
+      await this.prisma.commentSubscription.update({ where: { id }, data: { confirmedAt: new Date() } });
+    }
+    return {
+      confirmed: true,
+      scope: subscription.threadId ? 'thread' : 'post',
+      post: subscription.post,
+    };
+  }
+
+  /** Remove one subscription, or with `all` every subscription of its address; repeat calls are harmless */
+  async unsubscribe(id: string, token: string, all = false) {
+    this.assertToken('unsubscribe', id, token);
+    const subscription = await this.prisma.commentSubscription.findUnique({ where: { id }, select: { email: true } });
+    if (!subscription) return { removed: 0 };
+
+    const result = await this.prisma.commentSubscription.deleteMany({
+      where: all ? { email: subscription.email } : { id },
+    });
+    return { removed: result.count };
+  }
+
+  async purgeUnconfirmed(now = Date.now()) {
+    return this.prisma.commentSubscription.deleteMany({
+      where: { confirmedAt: null, createdAt: { lt: new Date(now - UNCONFIRMED_MAX_AGE_MS) } },
+    });
+  }
+
+  /** Id of the top-level comment a comment belongs to */
+  async threadRootOf(commentId: string) {
+    let currentId = commentId;
+    for (let depth = 0; depth < MAX_THREAD_DEPTH; depth++) {
+      const comment = await this.prisma.comment.findUnique({ where: { id: currentId }, select: { parentId: true } });
+      if (!comment) throw new NotFoundException('Comment not found');
+      if (!comment.parentId) return currentId;
+      currentId = comment.parentId;
+    }
+    return currentId;
+  }
+
+  /** Page on the site that confirms or unsubscribes when the reader clicks its button */
+  linkFor(action: SubscriptionLinkAction, id: string) {
+    return `${frontendUrl()}/comments/${action}?id=${encodeURIComponent(id)}&token=${this.sign(action, id)}`;
+  }
+
+  /** Target of the List-Unsubscribe header: mail clients POST here directly */
+  oneClickUnsubscribeUrl(id: string) {
+    return `${backendUrl()}/comments/subscriptions/${encodeURIComponent(id)}/unsubscribe?token=${this.sign('unsubscribe', id)}`;
+  }
+
+  private assertToken(action: SubscriptionLinkAction, id: string, token: string) {
+    const expected = Buffer.from(this.sign(action, id));
+    const actual = Buffer.from(token ?? '');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new BadRequestException('This link is invalid');
+    }
+  }
+
+  private sign(action: SubscriptionLinkAction, id: string) {
+    const secret = this.config.get<string>('JWT_SECRET') ?? '';
+    return createHmac('sha256', secret).update(`comment-subscription:${action}:${id}`).digest('hex').slice(0, 32);
+  }
+}
@@ -1,43 +1,130 @@
 // src/comment/comment.controller.ts
-import { Body, Controller, Get, Param, Post, Patch, UseGuards, Request, Query } from '@nestjs/common';
-import { Request as ExpressRequest } from 'express';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Patch,
+  Put,
+  UseGuards,
+  Request,
+  Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { CommentImportFormat } from '@prisma/client';
+import { Request as ExpressRequest, Response } from 'express';
+import { Throttle, minutes } from '@nestjs/throttler';
 import { CommentService } from './comment.service';
 import { CommentModerationService } from './comment-moderation.service';
+import { CommentEngagementService } from './comment-engagement.service';
+import { CommentSpamService } from './comment-spam.service';
+import { CommentSpamClassifierService } from './comment-spam-classifier.service';
+import { CommentSubscriptionService } from './comment-subscription.service';
+import { CommentModerationRulesService } from './comment-moderation-rules.service';
+import { CommentAuditService } from './comment-audit.service';
+import { CommentImportService } from './comment-import.service';
+import { CommentExportService } from './comment-export.service';
 import { Public } from '../auth/public.decorator';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/optional-jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
 import { CreateCommentDto } from './dto/create-comment.dto';
+import { VoteCommentDto } from './dto/vote-comment.dto';
+import { ReactCommentDto } from './dto/react-comment.dto';
+import { SubscribeCommentsDto } from './dto/subscribe-comments.dto';
+import { EditCommentDto } from './dto/edit-comment.dto';
+import { PostCommentSettingsDto } from './dto/post-comment-settings.dto';
 import { AuthenticatedRequest } from '../common/types';
 
+// req.ip honours the 'trust proxy' setting in main.ts; X-Forwarded-For itself is client-controlled
+const clientIp = (req: ExpressRequest) => req.ip || req.socket?.remoteAddress || '0.0.0.0';
+
+// Votes and reactions per client per minute, on top of the global limit
+const ENGAGEMENT_THROTTLE = { default: { limit: 30, ttl: minutes(1) } };
+// Subscribing can send a confirmation email, so it is limited much harder
+const SUBSCRIBE_THROTTLE = { default: { limit: 5, ttl: minutes(1) } };
+// Years of comments from a large site fit well within this
+const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
 @Controller('comments')
 export class CommentController {
   constructor(
     private readonly commentService: CommentService,
     private readonly moderationService: CommentModerationService,
+    private readonly engagementService: CommentEngagementService,
+    private readonly spamService: CommentSpamService,
+    private readonly spamClassifier: CommentSpamClassifierService,
+    private readonly subscriptionService: CommentSubscriptionService,
+    private readonly rulesService: CommentModerationRulesService,
+    private readonly auditService: CommentAuditService,
+    private readonly importService: CommentImportService,
+    private readonly exportService: CommentExportService,
   ) {}
 
   @Public()
+  @UseGuards(OptionalJwtAuthGuard)
   @Post()
-  async createComment(@Body() body: CreateCommentDto, @Request() req: ExpressRequest) {
-    const ipAddress =
-      (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() ||
-      req.ip ||
-      req.connection?.remoteAddress ||
-      '0.0.0.0';
+  async createComment(@Body() body: CreateCommentDto, @Request() req: AuthenticatedRequest) {
+    const ipAddress = clientIp(req);
     const userAgent = req.headers['user-agent'];
 
     return this.moderationService.createComment({
       ...body,
+      userId: req.user?.id,
       ipAddress,
       userAgent,
     });
   }
 
+  /** Follow a post's comments or one thread by email; guests confirm from their inbox first */
+  @Public()
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle(SUBSCRIBE_THROTTLE)
+  @Post('subscriptions')
+  async subscribe(@Body() body: SubscribeCommentsDto, @Request() req: AuthenticatedRequest) {
+    return this.subscriptionService.subscribe({ ...body, userId: req.user?.id });
+  }
+
   @Public()
+  @Post('subscriptions/:id/confirm')
+  async confirmSubscription(@Param('id') id: string, @Query('token') token: string) {
+    return this.subscriptionService.confirm(id, token);
+  }
+
+  /** Also the List-Unsubscribe target, so mail clients can one-click POST here */
+  @Public()
+  @Post('subscriptions/:id/unsubscribe')
+  async unsubscribe(@Param('id') id: string, @Query('token') token: string, @Query('all') all?: string) {
+    return this.subscriptionService.unsubscribe(id, token, all === 'true');
+  }
+
+  /** Signed load time for the comment form; the spam filter checks how fast it was submitted */
+  @Public()
+  @Get('form-token')
+  getFormToken() {
+    return { token: this.spamService.issueFormToken() };
+  }
+
+  /** Approved comments, each with the requesting voter's own vote and reactions */
+  @Public()
+  @UseGuards(OptionalJwtAuthGuard)
   @Get('post/:postId')
-  async getComments(@Param('postId') postId: string) {
-    return this.moderationService.getCommentsForPost(postId);
+  async getComments(@Param('postId') postId: string, @Request() req: AuthenticatedRequest) {
+    return this.moderationService.getCommentsForPost(postId, this.voterFor(req));
+  }
+
+  /** Emoji readers can react with */
+  @Public()
+  @Get('reactions')
+  async getReactions() {
+    const { reactions, anonymousVoting } = await this.engagementService.getSettings();
+    return { reactions, anonymousVoting };
   }
 
   // Admin moderation endpoints
@@ -98,6 +185,124 @@ export class CommentController {
     return this.moderationService.getCommentStats();
   }
 
+  /** Spam checks with their weights, and how much the classifier has learned */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get('moderation/spam-filter')
+  async getSpamFilter() {
+    const [checks, classifier] = await Promise.all([this.spamService.listChecks(), this.spamClassifier.getStats()]);
+    return { checks, classifier };
+  }
+
+  /** Train the classifier on every comment moderators have already approved or rejected */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Post('moderation/spam-filter/train')
+  async trainSpamFilter() {
+    return this.spamClassifier.trainFromHistory();
+  }
+
+  /** Moderator actions across all comments, newest first, optionally for one moderator */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get('moderation/history')
+  async getModerationHistory(
+    @Query('moderatorId') moderatorId?: string,
+    @Query('skip') skip?: string,
+    @Query('take') take?: string,
+  ) {
+    return this.auditService.list({
+      moderatorId: moderatorId || undefined,
+      skip: skip ? parseInt(skip) : undefined,
+      take: take ? parseInt(take) : undefined,
+    });
+  }
+
+  /** A post's overrides of the site moderation rules and when its comments close */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get('moderation/posts/:postId/settings')
+  async getPostCommentSettings(@Param('postId') postId: string) {
+    return this.rulesService.getPostSettings(postId);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Put('moderation/posts/:postId/settings')
+  async updatePostCommentSettings(@Param('postId') postId: string, @Body() body: PostCommentSettingsDto) {
+    return this.rulesService.updatePostSettings(postId, body);
+  }
+
+  /** Upload a WordPress (WXR) or Disqus export; dryRun defaults to true */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Post('imports')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_BYTES } }))
+  async createImport(
+    @UploadedFile() file: Express.Multer.File,
+    @Body('format') format: string,
+    @Body('dryRun') dryRun: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.importService.create(file, { format: format || undefined, dryRun: dryRun !== 'false' }, req.user.id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Get('imports')
+  async listImports() {
+    return this.importService.list();
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Get('imports/:id')
+  async getImport(@Param('id') id: string) {
+    return this.importService.get(id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Post('imports/:id/apply')
+  async applyImport(@Param('id') id: string) {
+    return this.importService.apply(id);
+  }
+
+  /** Download comments as WordPress (format=wxr) or Disqus (format=disqus) XML */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Get('export')
+  async exportComments(
+    @Query('format') format: string,
+    @Query('postId') postId: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const exportFormat = format?.toUpperCase();
+    if (exportFormat !== CommentImportFormat.WXR && exportFormat !== CommentImportFormat.DISQUS) {
+      throw new BadRequestException('format must be wxr or disqus');
+    }
+    const xml = await this.exportService.export(exportFormat, postId || undefined);
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="comments-${exportFormat.toLowerCase()}-${date}.xml"`);
+    return xml;
+  }
+
+  /** Everything the rules and moderators did with one comment, oldest first */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get(':id/history')
+  async getCommentHistory(@Param('id') id: string) {
+    return this.auditService.historyFor(id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Patch(':id')
+  async editComment(@Param('id') id: string, @Body() body: EditCommentDto, @Request() req: AuthenticatedRequest) {
+    return this.moderationService.editComment(id, body.content, req.user.id);
+  }
+
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
   @Patch(':id/approve')
@@ -115,8 +320,8 @@ export class CommentController {
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles('ADMINISTRATOR', 'EDITOR')
   @Patch(':id/flag')
-  async flagComment(@Param('id') id: string, @Body() body: { reason: string }) {
-    return this.moderationService.flagComment(id, body.reason);
+  async flagComment(@Param('id') id: string, @Body() body: { reason: string }, @Request() req: AuthenticatedRequest) {
+    return this.moderationService.flagComment(id, body.reason, req.user.id);
   }
 
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -133,12 +338,22 @@ export class CommentController {
     return this.moderationService.markResolved(id, body.resolved ?? true, req.user.id);
   }
 
+  /** Cast, change or withdraw (same direction again, or "none") the voter's vote */
   @Public()
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle(ENGAGEMENT_THROTTLE)
   @Patch(':id/vote')
-  async voteComment(@Param('id') id: string, @Body() body: { up?: boolean; down?: boolean }) {
-    const deltaUp = body.up ? 1 : 0;
-    const deltaDown = body.down ? 1 : 0;
-    return this.moderationService.vote(id, deltaUp, deltaDown);
+  async voteComment(@Param('id') id: string, @Body() body: VoteCommentDto, @Request() req: AuthenticatedRequest) {
+    return this.engagementService.vote(id, this.voterFor(req), body.direction);
+  }
+
+  /** Toggle one of the configured emoji reactions */
+  @Public()
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle(ENGAGEMENT_THROTTLE)
+  @Post(':id/reactions')
+  async reactToComment(@Param('id') id: string, @Body() body: ReactCommentDto, @Request() req: AuthenticatedRequest) {
+    return this.engagementService.react(id, this.voterFor(req), body.emoji);
   }
 
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -154,4 +369,8 @@ export class CommentController {
   async bulkReject(@Body() body: { ids: string[] }, @Request() req: AuthenticatedRequest) {
     return this.moderationService.bulkReject(body.ids, req.user.id);
   }
+
+  private voterFor(req: AuthenticatedRequest) {
+    return this.engagementService.resolveVoter(req.user?.id, clientIp(req));
+  }
 }
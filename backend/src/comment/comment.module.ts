@@ -2,12 +2,59 @@ import { Module } from '@nestjs/common';
 import { CommentService } from './comment.service';
 import { CommentController } from './comment.controller';
 import { CommentModerationService } from './comment-moderation.service';
+import { CommentEngagementService } from './comment-engagement.service';
+import { CommentSpamService } from './comment-spam.service';
+import { CommentSpamClassifierService } from './comment-spam-classifier.service';
+import { CommentSubscriptionService } from './comment-subscription.service';
+import { CommentNotificationService } from './comment-notification.service';
+import { CommentModerationRulesService } from './comment-moderation-rules.service';
+import { CommentAuditService } from './comment-audit.service';
+import { CommentImportService } from './comment-import.service';
+import { CommentExportService } from './comment-export.service';
+import { ImportCommentsHandler } from './import-comments.handler';
+import { SpamCheckRegistry } from './spam-check.registry';
+import { KeywordSpamCheck } from './spam-checks/keyword.check';
+import { LinkDensitySpamCheck } from './spam-checks/link-density.check';
+import { HoneypotSpamCheck } from './spam-checks/honeypot.check';
+import { SubmitTimeSpamCheck } from './spam-checks/submit-time.check';
+import { ReputationSpamCheck } from './spam-checks/reputation.check';
+import { ClassifierSpamCheck } from './spam-checks/classifier.check';
+import { ShoutingSpamCheck } from './spam-checks/shouting.check';
 import { PrismaModule } from '../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { QueueModule } from '../queue/queue.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, NotificationsModule, QueueModule],
   controllers: [CommentController],
-  providers: [CommentService, CommentModerationService],
-  exports: [CommentService, CommentModerationService],
+  providers: [
+    CommentService,
+    CommentModerationService,
+    CommentEngagementService,
+    CommentSpamService,
+    CommentSpamClassifierService,
+    CommentSubscriptionService,
+    CommentNotificationService,
+    CommentModerationRulesService,
+    CommentAuditService,
+    CommentImportService,
+    CommentExportService,
+    ImportCommentsHandler,
+    SpamCheckRegistry,
+    HoneypotSpamCheck,
+    SubmitTimeSpamCheck,
+    KeywordSpamCheck,
+    LinkDensitySpamCheck,
+    ShoutingSpamCheck,
+    ReputationSpamCheck,
+    ClassifierSpamCheck,
+  ],
+  exports: [
+    CommentService,
+    CommentModerationService,
+    CommentEngagementService,
+    CommentNotificationService,
+    SpamCheckRegistry,
+  ],
 })
 export class CommentModule {}
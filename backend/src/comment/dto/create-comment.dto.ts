@@ -1,4 +1,4 @@
-import { IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { IsBoolean, IsEmail, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
 
 export class CreateCommentDto {
   @IsString()
@@ -28,4 +28,21 @@ export class CreateCommentDto {
   @IsOptional()
   @IsString()
   parentId?: string;
+
+  // Hidden from people in the form; anything here counts towards spam
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  honeypot?: string;
+
+  // Issued by GET /comments/form-token when the form loads
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  formToken?: string;
+
+  // Email the author when someone replies (double opt-in for guests)
+  @IsOptional()
+  @IsBoolean()
+  subscribe?: boolean;
 }
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class EditCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(3000)
+  content: string;
+}
@@ -0,0 +1,19 @@
+import { IsBoolean, IsEnum, IsInt, IsOptional, Max, Min, ValidateIf } from 'class-validator';
+import { CommentModerationMode } from '@prisma/client';
+
+export class PostCommentSettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  allowComments?: boolean;
+
+  @IsOptional()
+  @IsEnum(CommentModerationMode)
+  commentModeration?: CommentModerationMode;
+
+  // null goes back to the site setting; 0 keeps comments open for good
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsInt()
+  @Min(0)
+  @Max(3650)
+  commentAutoCloseDays?: number | null;
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ReactCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(16)
+  emoji: string;
+}
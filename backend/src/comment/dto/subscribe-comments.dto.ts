@@ -0,0 +1,23 @@
+import { IsEmail, IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { CommentNotificationFrequency } from '@prisma/client';
+
+export class SubscribeCommentsDto {
+  @IsString()
+  @IsNotEmpty()
+  postId: string;
+
+  // Any comment in the thread to follow; omit for every comment on the post
+  @IsOptional()
+  @IsString()
+  threadId?: string;
+
+  // Ignored for signed-in readers, who are subscribed at their account address
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(150)
+  email?: string;
+
+  @IsOptional()
+  @IsEnum(CommentNotificationFrequency)
+  frequency?: CommentNotificationFrequency;
+}
@@ -0,0 +1,7 @@
+import { IsIn } from 'class-validator';
+import { VoteDirection } from '../comment-engagement.service';
+
+export class VoteCommentDto {
+  @IsIn(['up', 'down', 'none'])
+  direction: VoteDirection;
+}
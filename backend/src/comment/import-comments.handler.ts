@@ -0,0 +1,60 @@
+import { Injectable, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { Prisma, QueueJob } from '@prisma/client';
+import { JobHandler } from '../queue/interfaces/job-handler.interface';
+import { PermanentJobError } from '../queue/queue.errors';
+import { QueueRegistry } from '../queue/queue.registry';
+import { CommentImportService, IMPORT_COMMENTS_JOB } from './comment-import.service';
+import { UnreadableExportError } from './migration/migration.errors';
+
+export type ImportCommentsPayload = {
+  importId: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+/**
+ * IMPORT_COMMENTS
+ * Reads an uploaded WordPress or Disqus export and imports its comments,
+ * or only reports what it would import for a dry run.
+ */
+@Injectable()
+export class ImportCommentsHandler implements JobHandler<ImportCommentsPayload>, OnModuleInit {
+  readonly type = IMPORT_COMMENTS_JOB;
+  readonly maxAttempts = 3;
+  readonly concurrency = 1;
+  readonly lockTimeoutMs = 30 * 60 * 1000;
+  readonly backoff = { baseDelayMs: 60_000, maxDelayMs: 15 * 60 * 1000 };
+
+  constructor(
+    private importService: CommentImportService,
+    private registry: QueueRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  parse(value: Prisma.JsonValue): ImportCommentsPayload {
+    const payload = isRecord(value) ? value : {};
+    if (typeof payload.importId !== 'string' || !payload.importId) {
+      throw new PermanentJobError('Missing importId in IMPORT_COMMENTS payload');
+    }
+    return { importId: payload.importId };
+  }
+
+  async handle(payload: ImportCommentsPayload, job: QueueJob): Promise<Prisma.InputJsonValue> {
+    try {
+      const report = await this.importService.run(payload.importId);
+      return { importId: payload.importId, dryRun: report.dryRun, comments: report.comments };
+    } catch (error) {
+      const permanent = error instanceof UnreadableExportError || error instanceof NotFoundException;
+      if (permanent || job.attempts >= job.maxAttempts) {
+        await this.importService.markFailed(payload.importId, error instanceof Error ? error.message : String(error));
+      }
+      if (permanent) throw new PermanentJobError(error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/** A comment as read from a WordPress or Disqus export, before it is matched to a post */
+export interface MigrationComment {
+  /** ID in the source system; rebuilds the threads and makes re-imports skip it */
+  sourceId: string;
+  parentSourceId?: string;
+  authorName: string;
+  authorEmail?: string;
+  authorWebsite?: string;
+  ipAddress?: string;
+  /** HTML or plain text, as exported */
+  content: string;
+  /** Null when the export's date could not be read */
+  createdAt: Date | null;
+  status: 'approved' | 'pending' | 'spam' | 'deleted';
+  /** Pingbacks and trackbacks are links from other sites, not comments */
+  isPingback: boolean;
+}
+
+/** A post (or page) of the source site and its comments */
+export interface MigrationThread {
+  sourceId: string;
+  title: string;
+  url?: string;
+  /** Slug the source system gave the post, when it has one */
+  slug?: string;
+  comments: MigrationComment[];
+}
+
+export interface ExportComment {
+  id: string;
+  parentId: string | null;
+  authorName: string;
+  authorEmail: string | null;
+  authorWebsite: string | null;
+  ipAddress: string | null;
+  /** Plain text, as stored */
+  content: string;
+  createdAt: Date;
+  isApproved: boolean;
+  isSpam: boolean;
+}
+
+export interface ExportThread {
+  postId: string;
+  title: string;
+  slug: string;
+  url: string;
+  publishedAt: Date | null;
+  commentsOpen: boolean;
+  comments: ExportComment[];
+}
+
+/** Site details written at the top of an export */
+export interface ExportSite {
+  title: string;
+  url: string;
+}
@@ -0,0 +1,40 @@
+/** A comment as seen by the spam checks, before it is saved */
+export interface SpamCheckInput {
+  content: string;
+  authorName?: string;
+  authorEmail?: string;
+  authorWebsite?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  userId?: string;
+  /** Value of the hidden form field people never fill in */
+  honeypot?: string;
+  /** Milliseconds between the form loading and the comment arriving; undefined when unknown */
+  elapsedMs?: number;
+}
+
+export interface SpamCheckSettings {
+  keywords: string[];
+  minSubmitSeconds: number;
+}
+
+/**
+ * What one check concluded. `strength` runs from -1 (clearly legitimate)
+ * to 1 (clearly spam) and is multiplied by the check's weight.
+ */
+export interface SpamSignal {
+  strength: number;
+  detail: string;
+}
+
+/** One weighted step of the comment spam pipeline */
+export interface SpamCheck {
+  /** Key in SiteSettings.commentSpamWeights */
+  readonly id: string;
+  readonly label: string;
+  /** Weight used when SiteSettings.commentSpamWeights has none for this check */
+  readonly defaultWeight: number;
+
+  /** Null when the check has nothing to say about this comment */
+  evaluate(input: SpamCheckInput, settings: SpamCheckSettings): Promise<SpamSignal | null>;
+}
@@ -0,0 +1,43 @@
+import { decodeXmlEntities, escapeXml } from './xml';
+
+// HTML entities common in exported comments beyond the five XML ones
+const HTML_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+/**
+ * Exported comment HTML as the plain text comments are stored as. Line
+ * and paragraph breaks are kept, since comments are shown pre-wrapped.
+ */
+export const htmlToCommentText = (html: string) => {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(?:p|div|blockquote|li|h[1-6]|pre)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&([a-z]+);/gi, (match, name: string) => HTML_ENTITIES[name.toLowerCase()] ?? match);
+  return decodeXmlEntities(text)
+    .replace(/\r\n?/g, '\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/** Stored plain text as HTML paragraphs, for formats that expect markup */
+export const commentTextToHtml = (text: string) => text
+  .split(/\n{2,}/)
+  .filter((paragraph) => paragraph.trim())
+  .map((paragraph) => `<p>${escapeXml(paragraph).replace(/\n/g, '<br>')}</p>`)
+  .join('');
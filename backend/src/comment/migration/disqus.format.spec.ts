@@ -0,0 +1,152 @@
+import { ExportComment, ExportThread } from '../interfaces/comment-migration.interface';
+import { buildDisqus, parseDisqus } from './disqus.format';
+import { UnreadableExportError } from './migration.errors';
+
+const SITE = { title: 'Paint & Decor', url: 'https://paint.example' };
+
+const disqus = (elements: string[]) => [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  '<disqus xmlns="http://disqus.com" xmlns:dsq="http://disqus.com/disqus-internals">',
+  ...elements,
+  '</disqus>',
+].join('\n');
+
+const post = (id: string, threadId: string, extra = '') => (
+  `<post dsq:id="${id}"><message><![CDATA[<p>Comment ${id}</p>]]></message>${extra}<thread dsq:id="${threadId}"/></post>`
+);
+
+const exportComment = (overrides: Partial<ExportComment> = {}): ExportComment => ({
+  id: 'c1',
+  parentId: null,
+  authorName: 'Sam',
+  authorEmail: 'sam@example.com',
+  authorWebsite: 'https://sam.example',
+  ipAddress: '203.0.113.7',
+  content: 'First paragraph\nwith a break\n\nSecond <one>',
+  createdAt: new Date('2024-05-01T12:30:00.250Z'),
+  isApproved: true,
+  isSpam: false,
+  ...overrides,
+});
+
+const exportThread = (overrides: Partial<ExportThread> = {}): ExportThread => ({
+  postId: 'post-1',
+  title: 'Priming & sealing',
+  slug: 'priming-and-sealing',
+  url: 'https://paint.example/blog/priming-and-sealing',
+  publishedAt: null,
+  commentsOpen: false,
+  comments: [exportComment()],
+  ...overrides,
+});
+
+describe('parseDisqus', () => {
+  it('groups posts under their threads with parents and authors', () => {
+    const threads = parseDisqus(disqus([
+      '<thread dsq:id="t1"><title>Priming plaster</title><link>https://old.example/priming</link></thread>',
+      post('p1', 't1', [
+        '<createdAt>2019-06-01T13:00:00Z</createdAt><ipAddress>203.0.113.7</ipAddress>',
+        '<author><name>Sam</name><email>sam@example.com</email><link>https://sam.example</link></author>',
+      ].join('')),
+      post('p2', 't1', '<author><username>jo_paints</username></author><parent dsq:id="p1"/>'),
+    ]));
+
+    expect(threads).toEqual([{
+      sourceId: 't1',
+      title: 'Priming plaster',
+      url: 'https://old.example/priming',
+      comments: [
+        {
+          sourceId: 'p1',
+          parentSourceId: undefined,
+          authorName: 'Sam',
+          authorEmail: 'sam@example.com',
+          authorWebsite: 'https://sam.example',
+          ipAddress: '203.0.113.7',
+          content: '<p>Comment p1</p>',
+          createdAt: new Date('2019-06-01T13:00:00.000Z'),
+          status: 'approved',
+          isPingback: false,
+        },
+        expect.objectContaining({ sourceId: 'p2', parentSourceId: 'p1', authorName: 'jo_paints', createdAt: null }),
+      ],
+    }]);
+  });
+
+  it.each([
+    ['deleted posts', '<isDeleted>true</isDeleted><isSpam>true</isSpam>', 'deleted'],
+    ['spam', '<isSpam>TRUE</isSpam><isApproved>false</isApproved>', 'spam'],
+    ['unapproved posts', '<isSpam>false</isSpam><isApproved>false</isApproved>', 'pending'],
+    ['posts without flags', '', 'approved'],
+  ])('maps %s', (_, flags, status) => {
+    const [thread] = parseDisqus(disqus([post('p1', 't1', flags)]));
+
+    expect(thread.comments[0].status).toBe(status);
+  });
+
+  it('keeps posts of threads missing from the file and drops threads without posts', () => {
+    const threads = parseDisqus(disqus([
+      '<thread dsq:id="empty"><title>No comments</title></thread>',
+      '<thread><title>No ID</title></thread>',
+      post('p1', 'elsewhere'),
+      '<post><message>No ID</message><thread dsq:id="elsewhere"/></post>',
+    ]));
+
+    expect(threads).toEqual([{ sourceId: 'elsewhere', title: '', comments: [expect.objectContaining({ sourceId: 'p1' })] }]);
+  });
+
+  it('ignores unreadable dates', () => {
+    const [thread] = parseDisqus(disqus([post('p1', 't1', '<createdAt>not a date</createdAt>')]));
+
+    expect(thread.comments[0].createdAt).toBeNull();
+  });
+
+  it('rejects files that are not Disqus exports', () => {
+    expect(() => parseDisqus('<rss><channel/></rss>')).toThrow(UnreadableExportError);
+    expect(() => parseDisqus('<disqus><post></disqus>')).toThrow('Malformed XML: Unexpected </disqus>');
+  });
+});
+
+describe('buildDisqus', () => {
+  it('names the forum after the site host', () => {
+    expect(buildDisqus(SITE, [])).toContain('<forum>paint-example</forum>');
+    expect(buildDisqus({ ...SITE, url: 'not a url' }, [])).toContain('<forum>site</forum>');
+  });
+
+  it('writes comments as HTML paragraphs with second-precision dates', () => {
+    const xml = buildDisqus(SITE, [exportThread()]);
+
+    expect(xml).toContain('<message><![CDATA[<p>First paragraph<br>with a break</p><p>Second &lt;one&gt;</p>]]></message>');
+    expect(xml).toContain('<createdAt>2024-05-01T12:30:00Z</createdAt>');
+    expect(xml).toContain('<isClosed>true</isClosed>');
+    expect(xml).toContain('<title>Priming &amp; sealing</title>');
+  });
+
+  it('reads back what it writes', () => {
+    const comments = [
+      exportComment({ id: 'a' }),
+      exportComment({ id: 'b', parentId: 'a', authorEmail: null, authorWebsite: null, ipAddress: null, isApproved: false }),
+      exportComment({ id: 'c', isApproved: false, isSpam: true }),
+    ];
+    const threads = parseDisqus(buildDisqus(SITE, [exportThread({ comments }), exportThread({ postId: 'post-2', comments: [] })]));
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0]).toMatchObject({ sourceId: 'post-1', title: 'Priming & sealing', url: 'https://paint.example/blog/priming-and-sealing' });
+    expect(threads[0].comments).toEqual([
+      {
+        sourceId: 'a',
+        parentSourceId: undefined,
+        authorName: 'Sam',
+        authorEmail: 'sam@example.com',
+        authorWebsite: 'https://sam.example',
+        ipAddress: '203.0.113.7',
+        content: '<p>First paragraph<br>with a break</p><p>Second &lt;one&gt;</p>',
+        createdAt: new Date('2024-05-01T12:30:00.000Z'),
+        status: 'approved',
+        isPingback: false,
+      },
+      expect.objectContaining({ sourceId: 'b', parentSourceId: 'a', authorEmail: undefined, ipAddress: undefined, status: 'pending' }),
+      expect.objectContaining({ sourceId: 'c', status: 'spam' }),
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  ExportSite,
+  ExportThread,
+  MigrationComment,
+  MigrationThread,
+} from '../interfaces/comment-migration.interface';
+import { commentTextToHtml } from './comment-text';
+import { UnreadableExportError } from './migration.errors';
+import { attributeValue, cdata, childElement, childElements, childText, escapeXml, parseXml } from './xml';
+
+/**
+ * Disqus XML, the format of a Disqus forum export. Threads and comments
+ * ("posts") are siblings under <disqus>; each post names its thread and
+ * parent through a dsq:id attribute.
+ */
+
+const isTrue = (value: string) => value.toLowerCase() === 'true';
+
+const parseDate = (value: string) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Disqus writes second precision
+const formatDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+export const parseDisqus = (source: string): MigrationThread[] => {
+  const root = childElement(parseXml(source), 'disqus');
+  if (!root) throw new UnreadableExportError('Not a Disqus export: no <disqus> element');
+
+  const threads = new Map<string, MigrationThread>();
+  for (const element of childElements(root, 'thread')) {
+    const id = attributeValue(element, 'id');
+    if (!id) continue;
+    threads.set(id, {
+      sourceId: id,
+      title: childText(element, 'title'),
+      url: childText(element, 'link') || undefined,
+      comments: [],
+    });
+  }
+
+  for (const element of childElements(root, 'post')) {
+    const sourceId = attributeValue(element, 'id');
+    if (!sourceId) continue;
+    // Posts of a thread missing from the file still show up in the report
+    const threadId = attributeValue(childElement(element, 'thread'), 'id');
+    const thread = threads.get(threadId) ?? { sourceId: threadId, title: '', comments: [] };
+    threads.set(threadId, thread);
+
+    const author = childElement(element, 'author');
+    const status: MigrationComment['status'] = isTrue(childText(element, 'isDeleted'))
+      ? 'deleted'
+      : isTrue(childText(element, 'isSpam'))
+        ? 'spam'
+        : childText(element, 'isApproved').toLowerCase() === 'false' ? 'pending' : 'approved';
+    thread.comments.push({
+      sourceId,
+      parentSourceId: attributeValue(childElement(element, 'parent'), 'id') || undefined,
+      authorName: childText(author, 'name') || childText(author, 'username'),
+      authorEmail: childText(author, 'email') || undefined,
+      authorWebsite: childText(author, 'link') || undefined,
+      ipAddress: childText(element, 'ipAddress') || undefined,
+      content: childText(element, 'message'),
+      createdAt: parseDate(childText(element, 'createdAt')),
+      status,
+      isPingback: false,
+    });
+  }
+
+  return [...threads.values()].filter((thread) => thread.comments.length > 0);
+};
+
+export const buildDisqus = (site: ExportSite, threads: ExportThread[]) => {
+  let forum = 'site';
+  try {
+    forum = new URL(site.url).hostname.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || forum;
+  } catch {
+    // keep the placeholder
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<disqus xmlns="http://disqus.com" xmlns:dsq="http://disqus.com/disqus-internals">',
+    '\t<category dsq:id="1">',
+    `\t\t<forum>${forum}</forum>`,
+    '\t\t<title>General</title>',
+    '\t\t<isDefault>true</isDefault>',
+    '\t</category>',
+  ];
+
+  for (const thread of threads) {
+    lines.push(
+      `\t<thread dsq:id="${escapeXml(thread.postId)}">`,
+      `\t\t<id>${escapeXml(thread.postId)}</id>`,
+      `\t\t<forum>${forum}</forum>`,
+      '\t\t<category dsq:id="1"/>',
+      `\t\t<link>${escapeXml(thread.url)}</link>`,
+      `\t\t<title>${escapeXml(thread.title)}</title>`,
+      '\t\t<message/>',
+    );
+    if (thread.publishedAt) lines.push(`\t\t<createdAt>${formatDate(thread.publishedAt)}</createdAt>`);
+    lines.push(
+      `\t\t<isClosed>${!thread.commentsOpen}</isClosed>`,
+      '\t\t<isDeleted>false</isDeleted>',
+      '\t</thread>',
+    );
+  }
+
+  for (const thread of threads) {
+    for (const comment of thread.comments) {
+      lines.push(
+        `\t<post dsq:id="${escapeXml(comment.id)}">`,
+        `\t\t<id>${escapeXml(comment.id)}</id>`,
+        `\t\t<message>${cdata(commentTextToHtml(comment.content))}</message>`,
+        `\t\t<createdAt>${formatDate(comment.createdAt)}</createdAt>`,
+        '\t\t<isDeleted>false</isDeleted>',
+        `\t\t<isSpam>${comment.isSpam}</isSpam>`,
+        `\t\t<isApproved>${comment.isApproved}</isApproved>`,
+        '\t\t<author>',
+        `\t\t\t<name>${escapeXml(comment.authorName)}</name>`,
+        ...(comment.authorEmail ? [`\t\t\t<email>${escapeXml(comment.authorEmail)}</email>`] : []),
+        ...(comment.authorWebsite ? [`\t\t\t<link>${escapeXml(comment.authorWebsite)}</link>`] : []),
+        '\t\t\t<isAnonymous>true</isAnonymous>',
+        '\t\t</author>',
+        ...(comment.ipAddress ? [`\t\t<ipAddress>${escapeXml(comment.ipAddress)}</ipAddress>`] : []),
+        `\t\t<thread dsq:id="${escapeXml(thread.postId)}"/>`,
+        ...(comment.parentId ? [`\t\t<parent dsq:id="${escapeXml(comment.parentId)}"/>`] : []),
+        '\t</post>',
+      );
+    }
+  }
+
+  lines.push('</disqus>', '');
+  return lines.join('\n');
+};
@@ -0,0 +1,10 @@
+/**
+ * The uploaded file is not a WordPress or Disqus export this importer can
+ * read. Retrying will not help.
+ */
+export class UnreadableExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnreadableExportError';
+  }
+}
@@ -0,0 +1,189 @@
+import { ExportComment, ExportThread } from '../interfaces/comment-migration.interface';
+import { UnreadableExportError } from './migration.errors';
+import { buildWxr, parseWxr } from './wxr.format';
+
+const SITE = { title: 'Paint & Decor', url: 'https://paint.example' };
+
+const wxrComment = (fields: Record<string, string>) => [
+  '<wp:comment>',
+  ...Object.entries(fields).map(([name, value]) => `<wp:${name}>${value}</wp:${name}>`),
+  '</wp:comment>',
+].join('');
+
+const wxr = (items: string[]) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<rss version="2.0" xmlns:wp="http://wordpress.org/export/1.2/"><channel><title>Old blog</title>',
+  ...items,
+  '</channel></rss>',
+].join('\n');
+
+const exportComment = (overrides: Partial<ExportComment> = {}): ExportComment => ({
+  id: 'c1',
+  parentId: null,
+  authorName: 'Sam',
+  authorEmail: 'sam@example.com',
+  authorWebsite: null,
+  ipAddress: '203.0.113.7',
+  content: 'Great guide',
+  createdAt: new Date('2024-05-01T12:30:00.000Z'),
+  isApproved: true,
+  isSpam: false,
+  ...overrides,
+});
+
+const exportThread = (overrides: Partial<ExportThread> = {}): ExportThread => ({
+  postId: 'post-1',
+  title: 'Priming <new> plaster',
+  slug: 'priming-new-plaster',
+  url: 'https://paint.example/blog/priming-new-plaster',
+  publishedAt: new Date('2024-04-30T08:00:00.000Z'),
+  commentsOpen: true,
+  comments: [exportComment()],
+  ...overrides,
+});
+
+describe('parseWxr', () => {
+  it('reads posts with their comments, threads and authors', () => {
+    const threads = parseWxr(wxr([
+      '<item><title>Priming plaster</title><link>https://old.example/?p=12</link>',
+      '<wp:post_id>12</wp:post_id><wp:post_name><![CDATA[priming-plaster]]></wp:post_name>',
+      wxrComment({
+        comment_id: '5',
+        comment_author: '<![CDATA[Sam & Alex]]>',
+        comment_author_email: 'sam@example.com',
+        comment_author_url: 'https://sam.example',
+        comment_author_IP: '203.0.113.7',
+        comment_date: '2019-06-01 14:00:00',
+        comment_date_gmt: '2019-06-01 13:00:00',
+        comment_content: '<![CDATA[<p>Thanks!</p>]]>',
+        comment_approved: '1',
+        comment_parent: '0',
+      }),
+      wxrComment({ comment_id: '6', comment_author: 'Jo', comment_content: 'Agreed', comment_approved: '0', comment_parent: '5' }),
+      '</item>',
+    ]));
+
+    expect(threads).toEqual([{
+      sourceId: '12',
+      title: 'Priming plaster',
+      url: 'https://old.example/?p=12',
+      slug: 'priming-plaster',
+      comments: [
+        {
+          sourceId: '5',
+          parentSourceId: undefined,
+          authorName: 'Sam & Alex',
+          authorEmail: 'sam@example.com',
+          authorWebsite: 'https://sam.example',
+          ipAddress: '203.0.113.7',
+          content: '<p>Thanks!</p>',
+          createdAt: new Date('2019-06-01T13:00:00.000Z'),
+          status: 'approved',
+          isPingback: false,
+        },
+        expect.objectContaining({ sourceId: '6', parentSourceId: '5', authorEmail: undefined, status: 'pending', createdAt: null }),
+      ],
+    }]);
+  });
+
+  it('falls back to the local date, read as UTC, when the GMT date is missing', () => {
+    const [thread] = parseWxr(wxr([
+      '<item><wp:post_id>1</wp:post_id>',
+      wxrComment({ comment_id: '1', comment_date: '2019-06-01 14:00:00', comment_date_gmt: '0000-00-00 00:00:00' }),
+      wxrComment({ comment_id: '2', comment_date: 'yesterday' }),
+      '</item>',
+    ]));
+
+    expect(thread.comments.map((comment) => comment.createdAt)).toEqual([new Date('2019-06-01T14:00:00.000Z'), null]);
+  });
+
+  it.each([
+    ['1', 'approved'],
+    ['0', 'pending'],
+    ['spam', 'spam'],
+    ['trash', 'deleted'],
+    ['post-trashed', 'deleted'],
+  ])('maps comment_approved %s to %s', (approved, status) => {
+    const [thread] = parseWxr(wxr([`<item><wp:post_id>1</wp:post_id>${wxrComment({ comment_id: '1', comment_approved: approved })}</item>`]));
+
+    expect(thread.comments[0].status).toBe(status);
+  });
+
+  it('flags pingbacks and trackbacks', () => {
+    const [thread] = parseWxr(wxr([
+      '<item><wp:post_id>1</wp:post_id>',
+      wxrComment({ comment_id: '1', comment_type: 'pingback' }),
+      wxrComment({ comment_id: '2', comment_type: 'trackback' }),
+      wxrComment({ comment_id: '3', comment_type: 'comment' }),
+      '</item>',
+    ]));
+
+    expect(thread.comments.map((comment) => comment.isPingback)).toEqual([true, true, false]);
+  });
+
+  it('skips comments without an ID and posts without comments, and falls back to the guid', () => {
+    const threads = parseWxr(wxr([
+      '<item><wp:post_id>1</wp:post_id><title>No comments</title></item>',
+      `<item><guid>https://old.example/?p=2</guid>${wxrComment({ comment_id: '' })}${wxrComment({ comment_id: '9' })}</item>`,
+    ]));
+
+    expect(threads.map((thread) => [thread.sourceId, thread.comments.map((comment) => comment.sourceId)]))
+      .toEqual([['https://old.example/?p=2', ['9']]]);
+  });
+
+  it('rejects files that are not WordPress exports', () => {
+    expect(() => parseWxr('<disqus></disqus>')).toThrow(UnreadableExportError);
+    expect(() => parseWxr('<rss><channel>')).toThrow('Malformed XML: Unclosed <channel>');
+  });
+});
+
+describe('buildWxr', () => {
+  it('numbers posts and comments in export order and links replies to their parent', () => {
+    const xml = buildWxr(SITE, [
+      exportThread({ comments: [exportComment({ id: 'a' }), exportComment({ id: 'b', parentId: 'a' })] }),
+      exportThread({ postId: 'post-2', comments: [exportComment({ id: 'c', parentId: 'gone' })] }),
+    ]);
+
+    expect(xml).toContain('<title>Paint &amp; Decor</title>');
+    expect(xml).toContain('<title>Priming &lt;new&gt; plaster</title>');
+    expect(xml.match(/<wp:post_id>\d+<\/wp:post_id>/g)).toEqual(['<wp:post_id>1</wp:post_id>', '<wp:post_id>2</wp:post_id>']);
+    expect(xml.match(/<wp:comment_parent>\d+<\/wp:comment_parent>/g)).toEqual([
+      '<wp:comment_parent>0</wp:comment_parent>',
+      '<wp:comment_parent>1</wp:comment_parent>',
+      // A parent outside the export becomes a top-level comment
+      '<wp:comment_parent>0</wp:comment_parent>',
+    ]);
+  });
+
+  it('reads back what it writes', () => {
+    const comments = [
+      exportComment({ id: 'a', content: 'Use a mist coat ]]> first' }),
+      exportComment({ id: 'b', parentId: 'a', authorEmail: null, ipAddress: null, isApproved: false }),
+      exportComment({ id: 'c', isApproved: false, isSpam: true }),
+    ];
+    const [thread] = parseWxr(buildWxr(SITE, [exportThread({ comments })]));
+
+    expect(thread).toMatchObject({
+      sourceId: '1',
+      title: 'Priming <new> plaster',
+      url: 'https://paint.example/blog/priming-new-plaster',
+      slug: 'priming-new-plaster',
+    });
+    expect(thread.comments).toEqual([
+      {
+        sourceId: '1',
+        parentSourceId: undefined,
+        authorName: 'Sam',
+        authorEmail: 'sam@example.com',
+        authorWebsite: undefined,
+        ipAddress: '203.0.113.7',
+        content: 'Use a mist coat ]]> first',
+        createdAt: new Date('2024-05-01T12:30:00.000Z'),
+        status: 'approved',
+        isPingback: false,
+      },
+      expect.objectContaining({ sourceId: '2', parentSourceId: '1', authorEmail: undefined, ipAddress: undefined, status: 'pending' }),
+      expect.objectContaining({ sourceId: '3', status: 'spam' }),
+    ]);
+  });
+});
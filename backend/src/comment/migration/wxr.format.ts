@@ -0,0 +1,136 @@
+import {
+  ExportSite,
+  ExportThread,
+  MigrationComment,
+  MigrationThread,
+} from '../interfaces/comment-migration.interface';
+import { UnreadableExportError } from './migration.errors';
+import { cdata, childElement, childElements, childText, escapeXml, parseXml, XmlElement } from './xml';
+
+/**
+ * WordPress eXtended RSS (WXR), the format of Tools → Export in WordPress
+ * and of most blog platforms' WordPress-compatible exports. Comments sit
+ * inside the <item> of their post as <wp:comment> elements.
+ */
+
+const WXR_DATE = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/;
+
+// "0000-00-00 00:00:00" marks a missing GMT date in WordPress
+const parseWxrDate = (value: string) => {
+  const match = WXR_DATE.exec(value);
+  if (!match || match[1] === '0000') return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const formatWxrDate = (date: Date) => date.toISOString().slice(0, 19).replace('T', ' ');
+
+const statusOf = (approved: string): MigrationComment['status'] => {
+  if (approved === '1') return 'approved';
+  if (approved === 'spam') return 'spam';
+  if (approved === 'trash' || approved === 'post-trashed') return 'deleted';
+  return 'pending';
+};
+
+const parseWxrComment = (element: XmlElement): MigrationComment => {
+  const parentId = childText(element, 'comment_parent');
+  const type = childText(element, 'comment_type');
+  return {
+    sourceId: childText(element, 'comment_id'),
+    parentSourceId: parentId && parentId !== '0' ? parentId : undefined,
+    authorName: childText(element, 'comment_author'),
+    authorEmail: childText(element, 'comment_author_email') || undefined,
+    authorWebsite: childText(element, 'comment_author_url') || undefined,
+    ipAddress: childText(element, 'comment_author_IP') || undefined,
+    content: childText(element, 'comment_content'),
+    // The local date has no zone; it is only a fallback and read as UTC
+    createdAt: parseWxrDate(childText(element, 'comment_date_gmt')) ?? parseWxrDate(childText(element, 'comment_date')),
+    status: statusOf(childText(element, 'comment_approved')),
+    isPingback: type === 'pingback' || type === 'trackback',
+  };
+};
+
+export const parseWxr = (source: string): MigrationThread[] => {
+  const channel = childElement(childElement(parseXml(source), 'rss'), 'channel');
+  if (!channel) throw new UnreadableExportError('Not a WordPress export: no <rss><channel> element');
+
+  return childElements(channel, 'item')
+    .map((item) => ({
+      sourceId: childText(item, 'post_id') || childText(item, 'guid'),
+      title: childText(item, 'title'),
+      url: childText(item, 'link') || undefined,
+      slug: childText(item, 'post_name') || undefined,
+      comments: childElements(item, 'comment')
+        .map(parseWxrComment)
+        .filter((comment) => comment.sourceId),
+    }))
+    .filter((thread) => thread.comments.length > 0);
+};
+
+export const buildWxr = (site: ExportSite, threads: ExportThread[]) => {
+  // WordPress expects numeric IDs, so posts and comments are numbered in export order
+  const commentNumbers = new Map<string, number>();
+  for (const thread of threads) {
+    for (const comment of thread.comments) commentNumbers.set(comment.id, commentNumbers.size + 1);
+  }
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0"',
+    '\txmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"',
+    '\txmlns:content="http://purl.org/rss/1.0/modules/content/"',
+    '\txmlns:wfw="http://wellformedweb.org/CommentAPI/"',
+    '\txmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '\txmlns:wp="http://wordpress.org/export/1.2/">',
+    '<channel>',
+    `\t<title>${escapeXml(site.title)}</title>`,
+    `\t<link>${escapeXml(site.url)}</link>`,
+    '\t<wp:wxr_version>1.2</wp:wxr_version>',
+    `\t<wp:base_site_url>${escapeXml(site.url)}</wp:base_site_url>`,
+    `\t<wp:base_blog_url>${escapeXml(site.url)}</wp:base_blog_url>`,
+  ];
+
+  threads.forEach((thread, index) => {
+    lines.push(
+      '\t<item>',
+      `\t\t<title>${escapeXml(thread.title)}</title>`,
+      `\t\t<link>${escapeXml(thread.url)}</link>`,
+      `\t\t<guid isPermaLink="false">${escapeXml(thread.postId)}</guid>`,
+      `\t\t<wp:post_id>${index + 1}</wp:post_id>`,
+    );
+    if (thread.publishedAt) {
+      lines.push(`\t\t<wp:post_date_gmt>${formatWxrDate(thread.publishedAt)}</wp:post_date_gmt>`);
+    }
+    lines.push(
+      `\t\t<wp:post_name>${cdata(thread.slug)}</wp:post_name>`,
+      '\t\t<wp:status>publish</wp:status>',
+      '\t\t<wp:post_type>post</wp:post_type>',
+      `\t\t<wp:comment_status>${thread.commentsOpen ? 'open' : 'closed'}</wp:comment_status>`,
+    );
+    for (const comment of thread.comments) {
+      const date = formatWxrDate(comment.createdAt);
+      const parent = comment.parentId ? commentNumbers.get(comment.parentId) ?? 0 : 0;
+      lines.push(
+        '\t\t<wp:comment>',
+        `\t\t\t<wp:comment_id>${commentNumbers.get(comment.id)}</wp:comment_id>`,
+        `\t\t\t<wp:comment_author>${cdata(comment.authorName)}</wp:comment_author>`,
+        `\t\t\t<wp:comment_author_email>${escapeXml(comment.authorEmail ?? '')}</wp:comment_author_email>`,
+        `\t\t\t<wp:comment_author_url>${escapeXml(comment.authorWebsite ?? '')}</wp:comment_author_url>`,
+        `\t\t\t<wp:comment_author_IP>${escapeXml(comment.ipAddress ?? '')}</wp:comment_author_IP>`,
+        `\t\t\t<wp:comment_date>${date}</wp:comment_date>`,
+        `\t\t\t<wp:comment_date_gmt>${date}</wp:comment_date_gmt>`,
+        `\t\t\t<wp:comment_content>${cdata(comment.content)}</wp:comment_content>`,
+        `\t\t\t<wp:comment_approved>${comment.isSpam ? 'spam' : comment.isApproved ? '1' : '0'}</wp:comment_approved>`,
+        '\t\t\t<wp:comment_type>comment</wp:comment_type>',
+        `\t\t\t<wp:comment_parent>${parent}</wp:comment_parent>`,
+        '\t\t\t<wp:comment_user_id>0</wp:comment_user_id>',
+        '\t\t</wp:comment>',
+      );
+    }
+    lines.push('\t</item>');
+  });
+
+  lines.push('</channel>', '</rss>', '');
+  return lines.join('\n');
+};
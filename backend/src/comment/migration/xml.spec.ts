@@ -0,0 +1,78 @@
+import { UnreadableExportError } from './migration.errors';
+import { attributeValue, cdata, childElement, childElements, childText, decodeXmlEntities, escapeXml, parseXml } from './xml';
+
+describe('decodeXmlEntities', () => {
+  it('decodes predefined and numeric entities', () => {
+    expect(decodeXmlEntities('&lt;b&gt; &amp; &quot;x&quot; &apos;y&apos; &#233; &#x1F600; &#X41;')).toBe('<b> & "x" \'y\' é 😀 A');
+  });
+
+  it('leaves unknown and out-of-range entities alone', () => {
+    expect(decodeXmlEntities('&nbsp; &#0; &#x110000; & plain')).toBe('&nbsp; &#0; &#x110000; & plain');
+  });
+});
+
+describe('parseXml', () => {
+  it('builds elements with attributes and decoded text', () => {
+    const document = parseXml('<?xml version="1.0"?>\n<root a="1 &amp; 2" b=\'x > y\'><item>Tom &amp; Jerry</item><empty/></root>');
+    const root = childElement(document, 'root');
+
+    expect(document.name).toBe('#document');
+    expect(root?.attributes).toEqual({ a: '1 & 2', b: 'x > y' });
+    expect(childText(root, 'item')).toBe('Tom & Jerry');
+    expect(childElement(root, 'empty')).toEqual({ name: 'empty', attributes: {}, children: [], text: '' });
+  });
+
+  it('keeps CDATA verbatim and skips comments, processing instructions and the doctype', () => {
+    const document = parseXml([
+      '\ufeff<!DOCTYPE rss [<!ENTITY x "y">]>',
+      '<rss><!-- <not-an-element> --><?php echo 1; ?>',
+      '<body><![CDATA[<p>Fish &amp; chips</p>]]> and &amp; more</body>',
+      '</rss>',
+    ].join('\n'));
+    const rss = childElement(document, 'rss');
+
+    expect(rss?.children.map((child) => child.name)).toEqual(['body']);
+    expect(childText(rss, 'body')).toBe('<p>Fish &amp; chips</p> and & more');
+  });
+
+  it('ignores text outside the document element', () => {
+    expect(parseXml('stray <a>in</a> trailing').text).toBe('');
+  });
+
+  it('matches elements and attributes by local name', () => {
+    const item = childElement(parseXml('<item><wp:comment dsq:id="7">one</wp:comment><comment>two</comment></item>'), 'item');
+
+    expect(childElements(item, 'comment').map((comment) => comment.text)).toEqual(['one', 'two']);
+    expect(attributeValue(childElement(item, 'comment'), 'id')).toBe('7');
+    expect(attributeValue(childElement(item, 'missing'), 'id')).toBe('');
+    expect(childText(item, 'missing')).toBe('');
+  });
+
+  it.each([
+    ['a mismatched closing tag', '<a><b></a></b>', 'Malformed XML: Unexpected </a> at character 6'],
+    ['a stray closing tag', '</a>', 'Malformed XML: Unexpected </a> at character 0'],
+    ['an unclosed element', '<a><b></b>', 'Malformed XML: Unclosed <a> at character 10'],
+    ['an unterminated tag', '<a title="x>', 'Malformed XML: Unterminated tag at character 1'],
+    ['an unterminated CDATA section', '<a><![CDATA[x</a>', 'Malformed XML: Unterminated CDATA section at character 12'],
+    ['a missing element name', '< a/>', 'Malformed XML: Missing element name at character 0'],
+  ])('rejects %s', (_, source, message) => {
+    expect(() => parseXml(source)).toThrow(new UnreadableExportError(message));
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup characters and drops characters XML cannot hold', () => {
+    expect(escapeXml('<a href="x">Tom & Jerry\'s</a>\u0000\u000b\tok')).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;\tok',
+    );
+  });
+});
+
+describe('cdata', () => {
+  it('splits a literal "]]>" across two sections', () => {
+    const section = cdata('a]]>b\u0001');
+
+    expect(section).toBe('<![CDATA[a]]]]><![CDATA[>b]]>');
+    expect(childText(parseXml(`<x>${section}</x>`), 'x')).toBe('a]]>b');
+  });
+});
@@ -0,0 +1,148 @@
+import { UnreadableExportError } from './migration.errors';
+
+/**
+ * Just enough XML for WordPress and Disqus exports: elements, attributes,
+ * text, CDATA and the predefined and numeric entities. Comments, processing
+ * instructions and the doctype are skipped; namespaces are matched by local
+ * name, so `wp:comment` and `comment` are the same element to the helpers.
+ */
+
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Text and CDATA directly inside the element, entities decoded */
+  text: string;
+};
+
+const parseError = (message: string, position: number) => (
+  new UnreadableExportError(`Malformed XML: ${message} at character ${position}`)
+);
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+export const decodeXmlEntities = (value: string) => (
+  value.indexOf('&') === -1
+    ? value
+    : value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity[0] !== '#') return ENTITIES[entity] ?? match;
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    })
+);
+
+const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+// The closing '>' of a tag, ignoring any inside quoted attribute values
+const findTagEnd = (source: string, start: number) => {
+  let quote = '';
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  throw parseError('Unterminated tag', start);
+};
+
+const skipPast = (source: string, marker: string, from: number, what: string) => {
+  const index = source.indexOf(marker, from);
+  if (index === -1) throw parseError(`Unterminated ${what}`, from);
+  return index + marker.length;
+};
+
+/** Parse a document; the returned element is a synthetic root holding the document element */
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  let pos = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (pos < source.length) {
+    const current = stack[stack.length - 1];
+    const lt = source.indexOf('<', pos);
+    const textEnd = lt === -1 ? source.length : lt;
+    if (textEnd > pos && stack.length > 1) current.text += decodeXmlEntities(source.slice(pos, textEnd));
+    if (lt === -1) break;
+
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = skipPast(source, ']]>', lt + 9, 'CDATA section');
+      current.text += source.slice(lt + 9, end - 3);
+      pos = end;
+    } else if (source.startsWith('<!--', lt)) {
+      pos = skipPast(source, '-->', lt + 4, 'comment');
+    } else if (source.startsWith('<?', lt)) {
+      pos = skipPast(source, '?>', lt + 2, 'processing instruction');
+    } else if (source.startsWith('<!', lt)) {
+      // Doctype, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', lt);
+      const gt = findTagEnd(source, lt + 2);
+      pos = bracket !== -1 && bracket < gt ? skipPast(source, ']>', bracket, 'doctype') : gt + 1;
+    } else if (source[lt + 1] === '/') {
+      const gt = findTagEnd(source, lt + 2);
+      const name = source.slice(lt + 2, gt).trim();
+      if (stack.length === 1 || current.name !== name) {
+        throw parseError(`Unexpected </${name}>`, lt);
+      }
+      stack.pop();
+      pos = gt + 1;
+    } else {
+      const gt = findTagEnd(source, lt + 1);
+      const selfClosing = source[gt - 1] === '/';
+      const body = source.slice(lt + 1, selfClosing ? gt - 1 : gt);
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      if (!nameMatch) throw parseError('Missing element name', lt);
+
+      const element: XmlElement = { name: nameMatch[0], attributes: {}, children: [], text: '' };
+      for (const match of body.slice(nameMatch[0].length).matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      pos = gt + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw parseError(`Unclosed <${stack[stack.length - 1].name}>`, source.length);
+  }
+  return root;
+};
+
+export const childElement = (element: XmlElement | undefined, name: string) => (
+  element?.children.find((child) => localName(child.name) === name)
+);
+
+export const childElements = (element: XmlElement | undefined, name: string) => (
+  element ? element.children.filter((child) => localName(child.name) === name) : []
+);
+
+/** Trimmed text of the first child with this name, or '' */
+export const childText = (element: XmlElement | undefined, name: string) => (
+  childElement(element, name)?.text.trim() ?? ''
+);
+
+export const attributeValue = (element: XmlElement | undefined, name: string) => {
+  if (!element) return '';
+  const key = Object.keys(element.attributes).find((attribute) => localName(attribute) === name);
+  return key ? element.attributes[key] : '';
+};
+
+// Characters XML 1.0 does not allow anywhere, even escaped
+const stripInvalidChars = (value: string) => value.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '');
+
+export const escapeXml = (value: string) => stripInvalidChars(value).replace(/[<>&'"]/g, (char) => {
+  switch (char) {
+    case '<': return '&lt;';
+    case '>': return '&gt;';
+    case '&': return '&amp;';
+    case "'": return '&apos;';
+    default: return '&quot;';
+  }
+});
+
+/** A CDATA section; a literal "]]>" is split across two sections */
+export const cdata = (value: string) => `<![CDATA[${stripInvalidChars(value).replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
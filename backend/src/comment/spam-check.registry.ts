@@ -0,0 +1,24 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { SpamCheck } from './interfaces/spam-check.interface';
+
+/**
+ * Spam Check Registry
+ * Checks register themselves on module init, the same way as the AI and
+ * embedding provider registries; CommentSpamService runs them in order.
+ */
+@Injectable()
+export class SpamCheckRegistry {
+  private readonly logger = new Logger(SpamCheckRegistry.name);
+  private readonly checks = new Map<string, SpamCheck>();
+
+  register(check: SpamCheck) {
+    if (this.checks.has(check.id)) {
+      this.logger.warn(`Spam check ${check.id} replaced`);
+    }
+    this.checks.set(check.id, check);
+  }
+
+  list(): SpamCheck[] {
+    return Array.from(this.checks.values());
+  }
+}
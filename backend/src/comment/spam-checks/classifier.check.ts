@@ -0,0 +1,30 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SpamCheck, SpamCheckInput, SpamSignal } from '../interfaces/spam-check.interface';
+import { SpamCheckRegistry } from '../spam-check.registry';
+import { CommentSpamClassifierService } from '../comment-spam-classifier.service';
+
+/** Naive Bayes classifier trained on moderator verdicts; abstains until it has enough examples */
+@Injectable()
+export class ClassifierSpamCheck implements SpamCheck, OnModuleInit {
+  readonly id = 'classifier';
+  readonly label = 'Learned classifier';
+  readonly defaultWeight = 4;
+
+  constructor(
+    private registry: SpamCheckRegistry,
+    private classifier: CommentSpamClassifierService,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  async evaluate(input: SpamCheckInput): Promise<SpamSignal | null> {
+    const probability = await this.classifier.probability(input);
+    if (probability === null) return null;
+    return {
+      strength: (probability - 0.5) * 2,
+      detail: `${Math.round(probability * 100)}% likely spam based on past moderation`,
+    };
+  }
+}
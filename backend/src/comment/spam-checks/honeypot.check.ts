@@ -0,0 +1,22 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SpamCheck, SpamCheckInput, SpamSignal } from '../interfaces/spam-check.interface';
+import { SpamCheckRegistry } from '../spam-check.registry';
+
+/** The comment form has a field hidden from people; bots fill in every field */
+@Injectable()
+export class HoneypotSpamCheck implements SpamCheck, OnModuleInit {
+  readonly id = 'honeypot';
+  readonly label = 'Hidden field filled in';
+  readonly defaultWeight = 10;
+
+  constructor(private registry: SpamCheckRegistry) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  async evaluate(input: SpamCheckInput): Promise<SpamSignal | null> {
+    if (!input.honeypot?.trim()) return null;
+    return { strength: 1, detail: 'The hidden form field was filled in' };
+  }
+}
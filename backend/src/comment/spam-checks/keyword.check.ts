@@ -0,0 +1,24 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SpamCheck, SpamCheckInput, SpamCheckSettings, SpamSignal } from '../interfaces/spam-check.interface';
+import { SpamCheckRegistry } from '../spam-check.registry';
+
+/** Keywords and phrases from the admin-editable list; two or more hits count in full */
+@Injectable()
+export class KeywordSpamCheck implements SpamCheck, OnModuleInit {
+  readonly id = 'keywords';
+  readonly label = 'Spam keywords';
+  readonly defaultWeight = 3;
+
+  constructor(private registry: SpamCheckRegistry) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  async evaluate(input: SpamCheckInput, settings: SpamCheckSettings): Promise<SpamSignal | null> {
+    const text = `${input.content} ${input.authorName ?? ''} ${input.authorWebsite ?? ''}`.toLowerCase();
+    const hits = settings.keywords.filter((keyword) => keyword && text.includes(keyword.toLowerCase()));
+    if (hits.length === 0) return null;
+    return { strength: Math.min(1, hits.length / 2), detail: `Contains ${hits.map((hit) => `"${hit}"`).join(', ')}` };
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SpamCheck, SpamCheckInput, SpamSignal } from '../interfaces/spam-check.interface';
+import { SpamCheckRegistry } from '../spam-check.registry';
+
+// Links per word above which a comment reads like a link drop
+const DENSE_LINKS_PER_WORD = 0.1;
+
+/** Many links, or little text around them */
+@Injectable()
+export class LinkDensitySpamCheck implements SpamCheck, OnModuleInit {
+  readonly id = 'links';
+  readonly label = 'Link density';
+  readonly defaultWeight = 2;
+
+  constructor(private registry: SpamCheckRegistry) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  async evaluate(input: SpamCheckInput): Promise<SpamSignal | null> {
+    const links = (input.content.match(/(?:https?:\/\/|www\.)\S+/gi) ?? []).length;
+    if (links === 0) return null;
+    const words = (input.content.match(/[\p{L}\p{N}]+/gu) ?? []).length;
+    const density = links / Math.max(words, 1);
+    const strength = Math.min(1, links / 4 + (density > DENSE_LINKS_PER_WORD ? 0.5 : 0));
+    return { strength, detail: `${links} link${links === 1 ? '' : 's'} in ${words} words` };
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SpamCheck, SpamCheckInput, SpamSignal } from '../interfaces/spam-check.interface';
+import { SpamCheckRegistry } from '../spam-check.registry';
+
+/**
+ * Past verdicts on comments from the same account, email address or IP
+ * address. Approved history lowers the score, spam history raises it.
+ */
+@Injectable()
+export class ReputationSpamCheck implements SpamCheck, OnModuleInit {
+  readonly id = 'reputation';
+  readonly label = 'Sender reputation';
+  readonly defaultWeight = 4;
+
+  constructor(
+    private registry: SpamCheckRegistry,
+    private prisma: PrismaService,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  async evaluate(input: SpamCheckInput): Promise<SpamSignal | null> {
+    const senders: Prisma.CommentWhereInput[] = [];
+    if (input.userId) senders.push({ userId: input.userId });
+    if (input.authorEmail) senders.push({ authorEmail: input.authorEmail });
+    if (input.ipAddress) senders.push({ ipAddress: input.ipAddress });
+    if (senders.length === 0) return null;
+
+    const [spam, approved] = await Promise.all([
+      this.prisma.comment.count({ where: { OR: senders, isSpam: true } }),
+      this.prisma.comment.count({ where: { OR: senders, isApproved: true, isSpam: false } }),
+    ]);
+    if (spam + approved === 0) return null;
+
+    // One more verdict's worth of doubt, so a single past verdict is not decisive
+    const strength = (spam - approved) / (spam + approved + 1);
+    return { strength, detail: `${spam} spam and ${approved} approved comments from this sender` };
+  }
+}
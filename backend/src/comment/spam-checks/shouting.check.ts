@@ -0,0 +1,24 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SpamCheck, SpamCheckInput, SpamSignal } from '../interfaces/spam-check.interface';
+import { SpamCheckRegistry } from '../spam-check.registry';
+
+/** Mostly capital letters */
+@Injectable()
+export class ShoutingSpamCheck implements SpamCheck, OnModuleInit {
+  readonly id = 'shouting';
+  readonly label = 'Excessive capitals';
+  readonly defaultWeight = 1.5;
+
+  constructor(private registry: SpamCheckRegistry) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  async evaluate(input: SpamCheckInput): Promise<SpamSignal | null> {
+    const letters = (input.content.match(/\p{L}/gu) ?? []).length;
+    const capitals = (input.content.match(/\p{Lu}/gu) ?? []).length;
+    if (letters <= 20 || capitals / letters <= 0.5) return null;
+    return { strength: 1, detail: `${Math.round((capitals / letters) * 100)}% capital letters` };
+  }
+}
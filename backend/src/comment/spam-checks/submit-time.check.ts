@@ -0,0 +1,26 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SpamCheck, SpamCheckInput, SpamCheckSettings, SpamSignal } from '../interfaces/spam-check.interface';
+import { SpamCheckRegistry } from '../spam-check.registry';
+
+/** Comments submitted faster than a person could type them, or without loading the form */
+@Injectable()
+export class SubmitTimeSpamCheck implements SpamCheck, OnModuleInit {
+  readonly id = 'submitTime';
+  readonly label = 'Time to submit';
+  readonly defaultWeight = 3;
+
+  constructor(private registry: SpamCheckRegistry) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  async evaluate(input: SpamCheckInput, settings: SpamCheckSettings): Promise<SpamSignal | null> {
+    if (input.elapsedMs === undefined) {
+      return { strength: 0.5, detail: 'Submitted without a valid form token' };
+    }
+    const seconds = input.elapsedMs / 1000;
+    if (seconds >= settings.minSubmitSeconds) return null;
+    return { strength: 1, detail: `Submitted ${seconds.toFixed(1)}s after the form loaded` };
+  }
+}
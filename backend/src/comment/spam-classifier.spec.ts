@@ -0,0 +1,73 @@
+import { spamProbability, spamTokens, TokenCounts } from './spam-classifier';
+
+describe('spamTokens', () => {
+  it('collects distinct lower-case words', () => {
+    expect(spamTokens({ content: 'Great tips, great results! A 10% discount' }))
+      .toEqual(['great', 'tips', 'results', '10', 'discount']);
+  });
+
+  it('keeps linked domains apart from the words of the text', () => {
+    const tokens = spamTokens({ content: 'Visit https://www.cheap-pills.example/buy?now and www.other.example today' });
+
+    expect(tokens).toEqual(expect.arrayContaining(['link:cheap-pills.example', 'link:other.example', 'visit', 'today']));
+    expect(tokens).not.toContain('buy');
+    expect(tokens).not.toContain('cheap');
+  });
+
+  it('adds the author name and the domains of the email and website', () => {
+    const tokens = spamTokens({
+      content: 'Nice post',
+      authorName: 'Casino Bonus',
+      authorEmail: 'someone@Mail.Example',
+      authorWebsite: 'http://www.casino.example/page',
+    });
+
+    expect(tokens).toEqual(expect.arrayContaining(['casino', 'bonus', 'email:mail.example', 'site:casino.example']));
+  });
+
+  it('ignores single characters and very long runs', () => {
+    expect(spamTokens({ content: `a b ${'x'.repeat(31)} ok` })).toEqual(['ok']);
+  });
+});
+
+describe('spamProbability', () => {
+  const totals = { spam: 10, ham: 10 };
+  const counts = new Map<string, TokenCounts>([
+    ['viagra', { spam: 9, ham: 0 }],
+    ['link:pills.example', { spam: 8, ham: 0 }],
+    ['primer', { spam: 0, ham: 7 }],
+    ['the', { spam: 5, ham: 5 }],
+  ]);
+
+  it('is undecided when no token has been seen', () => {
+    expect(spamProbability(['unknown', 'words'], counts, totals)).toBe(0.5);
+  });
+
+  it('leans towards spam for tokens seen in spam', () => {
+    expect(spamProbability(['viagra', 'link:pills.example', 'the'], counts, totals)).toBeGreaterThan(0.95);
+  });
+
+  it('leans towards ham for tokens seen in ham', () => {
+    expect(spamProbability(['primer', 'the'], counts, totals)).toBeLessThan(0.2);
+  });
+
+  it('weighs tokens against each label total rather than the overall mix', () => {
+    // Seen in every spam comment and in 1 of 100 ham comments
+    const skewed = new Map<string, TokenCounts>([['offer', { spam: 5, ham: 1 }]]);
+
+    expect(spamProbability(['offer'], skewed, { spam: 5, ham: 100 })).toBeGreaterThan(0.9);
+  });
+
+  it('uses only the most decisive tokens', () => {
+    const many = new Map<string, TokenCounts>([['viagra', { spam: 9, ham: 0 }]]);
+    const tokens = ['viagra'];
+    for (let i = 0; i < 40; i++) {
+      many.set(`ham${i}`, { spam: 4, ham: 6 });
+      tokens.push(`ham${i}`);
+    }
+
+    const withNoise = spamProbability(tokens, many, totals);
+    const top20 = spamProbability(tokens.slice(0, 20), many, totals);
+    expect(withNoise).toBeCloseTo(top20, 10);
+  });
+});
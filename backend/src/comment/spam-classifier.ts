@@ -0,0 +1,66 @@
+// Tokens that sway the verdict most; the rest of a long comment adds noise
+const DECISIVE_TOKENS = 20;
+const MAX_TOKENS = 300;
+
+export type TokenCounts = { spam: number; ham: number };
+
+export type TrainingTotals = { spam: number; ham: number };
+
+type TokenSource = {
+  content: string;
+  authorName?: string | null;
+  authorEmail?: string | null;
+  authorWebsite?: string | null;
+};
+
+const domainOf = (url: string): string | null => {
+  const match = /^(?:https?:\/\/)?(?:www\.)?([^/:?#\s]+)/i.exec(url.trim());
+  return match ? match[1].toLowerCase() : null;
+};
+
+/**
+ * Distinct features of a comment: its words, the domains it links to and
+ * the domains of the author's email and website. Prefixed features keep a
+ * linked domain apart from the same word in the text.
+ */
+export function spamTokens(source: TokenSource): string[] {
+  const tokens = new Set<string>();
+  const text = `${source.content} ${source.authorName ?? ''}`.toLowerCase();
+
+  for (const url of text.match(/(?:https?:\/\/|www\.)[^\s<>"')]+/g) ?? []) {
+    const domain = domainOf(url);
+    if (domain) tokens.add(`link:${domain}`);
+  }
+  for (const word of text.replace(/(?:https?:\/\/|www\.)[^\s<>"')]+/g, ' ').match(/[\p{L}\p{N}$€£]+/gu) ?? []) {
+    if (word.length >= 2 && word.length <= 30) tokens.add(word);
+  }
+
+  const emailDomain = source.authorEmail?.split('@')[1];
+  if (emailDomain) tokens.add(`email:${emailDomain.toLowerCase()}`);
+  const websiteDomain = source.authorWebsite ? domainOf(source.authorWebsite) : null;
+  if (websiteDomain) tokens.add(`site:${websiteDomain}`);
+
+  return Array.from(tokens).slice(0, MAX_TOKENS);
+}
+
+/**
+ * Naive Bayes probability that a comment is spam, from how many spam and
+ * ham training comments contained each token. Uses equal priors so a
+ * training set with far more ham than spam does not bias every verdict,
+ * Laplace smoothing, and only the most decisive known tokens.
+ */
+export function spamProbability(tokens: string[], counts: Map<string, TokenCounts>, totals: TrainingTotals): number {
+  const ratios = tokens
+    .flatMap((token) => {
+      const count = counts.get(token);
+      if (!count || count.spam + count.ham === 0) return [];
+      const inSpam = (count.spam + 1) / (totals.spam + 2);
+      const inHam = (count.ham + 1) / (totals.ham + 2);
+      return [Math.log(inSpam) - Math.log(inHam)];
+    })
+    .sort((a, b) => Math.abs(b) - Math.abs(a))
+    .slice(0, DECISIVE_TOKENS);
+
+  const logOdds = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  return 1 / (1 + Math.exp(-logOdds));
+}
@@ -1,13 +1,15 @@
 // src/contact/contact.controller.ts
-import { Body, Controller, Get, Post, UseGuards, BadRequestException, Request } from '@nestjs/common';
+import { Body, Controller, Get, Param, Post, UseGuards, BadRequestException, Request } from '@nestjs/common';
 import { Request as ExpressRequest } from 'express';
 import { ContactService } from './contact.service';
 import { Public } from '../auth/public.decorator';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { CaptchaService } from '../captcha/captcha.service';
 import { ContactMessageDto } from './dto/contact-message.dto';
+import { ContactReplyDto } from './dto/contact-reply.dto';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
 
 @Controller('contact')
 export class ContactController {
@@ -43,4 +45,11 @@ export class ContactController {
   getMessages() {
     return this.contactService.getAllMessages();
   }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Post(':id/replies')
+  replyToMessage(@Param('id') id: string, @Body() dto: ContactReplyDto, @Request() req: AuthenticatedRequest) {
+    return this.contactService.replyToMessage(id, dto, req.user?.id || req.user?.userId);
+  }
 }
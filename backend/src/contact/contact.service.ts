@@ -1,11 +1,22 @@
 // src/contact/contact.service.ts
-import { Injectable, BadRequestException } from '@nestjs/common';
+import { Injectable, BadRequestException, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
 import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { ContactReplyDto } from './dto/contact-reply.dto';
+
+const REPLY_INCLUDE = {
+  author: { select: { id: true, username: true, firstName: true, lastName: true } },
+};
 
 @Injectable()
 export class ContactService {
-  constructor(private prisma: PrismaService) {}
+  private readonly logger = new Logger(ContactService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+  ) {}
 
   async createMessage(data: { name: string; email: string; subject?: string; message: string }) {
     const name = SanitizationUtil.sanitizeText(data.name);
@@ -29,6 +40,36 @@ export class ContactService {
   async getAllMessages() {
     return this.prisma.contactMessage.findMany({
       orderBy: { createdAt: 'desc' },
+      include: { replies: { orderBy: { createdAt: 'asc' }, include: REPLY_INCLUDE } },
+    });
+  }
+
+  async replyToMessage(id: string, data: ContactReplyDto, authorId?: string) {
+    const message = SanitizationUtil.sanitizeText(data.message).slice(0, 5000);
+    if (!message) {
+      throw new BadRequestException('Reply message is required');
+    }
+    const contactMessage = await this.prisma.contactMessage.findUnique({ where: { id } });
+    if (!contactMessage) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const reply = await this.prisma.enquiryReply.create({
+      data: { contactMessageId: id, authorId: authorId || null, message },
+      include: REPLY_INCLUDE,
     });
+    await this.prisma.contactMessage.update({ where: { id }, data: { read: true } });
+
+    try {
+      await this.mailService.sendEnquiryReplyEmail(
+        contactMessage.email,
+        { subject: contactMessage.subject ? `Re: ${contactMessage.subject}` : 'Reply to your message', message },
+        contactMessage.name,
+      );
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Reply on message ${id} saved but email failed: ${reason}`);
+    }
+    return reply;
   }
 }
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ContactReplyDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Reply message is required' })
+  @MaxLength(5000)
+  message: string;
+}
@@ -0,0 +1,348 @@
+import PDFDocument from 'pdfkit';
+
+export type DocumentBranding = {
+  siteName: string;
+  primaryColor: string;
+  textColor: string;
+  // Data URI for local logos so the HTML stays self-contained; remote URLs are used as-is
+  logoSrc: string | null;
+  // PNG bytes for the PDF renderer (local logos only)
+  logoPng: Buffer | null;
+  contact: {
+    phone: string | null;
+    email: string | null;
+    address: string | null;
+  };
+};
+
+export type DocumentLineItem = {
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  amount: number;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Shape check for line items read back from the SalesDocument.lineItems JSON column */
+export const isDocumentLineItem = (value: unknown): value is DocumentLineItem => {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const item = value as Record<string, unknown>;
+  return typeof item.description === 'string'
+    && isFiniteNumber(item.quantity)
+    && typeof item.unit === 'string'
+    && isFiniteNumber(item.unitPrice)
+    && isFiniteNumber(item.amount);
+};
+
+export type RenderableDocument = {
+  type: 'ESTIMATE' | 'INVOICE';
+  number: string;
+  version: number;
+  status: string;
+  customerName: string;
+  customerEmail: string | null;
+  customerPhone: string | null;
+  customerAddress: string | null;
+  lineItems: DocumentLineItem[];
+  currency: string;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  notes: string | null;
+  issuedAt: Date;
+  validUntil: Date | null;
+  dueDate: Date | null;
+  // Present once the customer has accepted the estimate in the portal
+  signature: {
+    name: string;
+    signedAt: Date;
+    image: string | null;
+  } | null;
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const safeColor = (value: unknown, fallback: string) => (
+  typeof value === 'string' && HEX_COLOR.test(value.trim()) ? value.trim() : fallback
+);
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatMoney = (amount: number, currency: string) => (
+  `${currency} ${amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`
+);
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const PNG_DATA_URL = /^data:image\/png;base64,([A-Za-z0-9+/=]+)$/;
+
+const signaturePng = (image: string | null) => {
+  const match = image ? PNG_DATA_URL.exec(image) : null;
+  return match ? Buffer.from(match[1], 'base64') : null;
+};
+
+export const documentTitle = (doc: Pick<RenderableDocument, 'type'>) => (
+  doc.type === 'INVOICE' ? 'Invoice' : 'Estimate'
+);
+
+export const documentReference = (doc: Pick<RenderableDocument, 'number' | 'version'>) => (
+  doc.version > 1 ? `${doc.number} rev. ${doc.version}` : doc.number
+);
+
+const dateLines = (doc: RenderableDocument): Array<[string, string]> => {
+  const lines: Array<[string, string]> = [['Date', formatDate(doc.issuedAt)]];
+  if (doc.type === 'ESTIMATE' && doc.validUntil) lines.push(['Valid until', formatDate(doc.validUntil)]);
+  if (doc.type === 'INVOICE' && doc.dueDate) lines.push(['Due date', formatDate(doc.dueDate)]);
+  return lines;
+};
+
+const contactLines = (branding: DocumentBranding) => [
+  branding.contact.address,
+  branding.contact.phone,
+  branding.contact.email,
+].filter((line): line is string => !!line);
+
+const customerLines = (doc: RenderableDocument) => [
+  doc.customerName,
+  doc.customerAddress,
+  doc.customerPhone,
+  doc.customerEmail,
+].filter((line): line is string => !!line);
+
+/**
+ * Renders a standalone HTML document with inline styles so it can be
+ * printed from the browser or attached to an email.
+ */
+export function renderDocumentHtml(doc: RenderableDocument, branding: DocumentBranding): string {
+  const title = documentTitle(doc);
+  const reference = documentReference(doc);
+  const primary = branding.primaryColor;
+
+  const rows = doc.lineItems.map((item) => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="num">${item.quantity} ${escapeHtml(item.unit)}</td>
+          <td class="num">${formatMoney(item.unitPrice, doc.currency)}</td>
+          <td class="num">${formatMoney(item.amount, doc.currency)}</td>
+        </tr>`).join('');
+
+  const logo = branding.logoSrc
+    ? `<img class="logo" src="${escapeHtml(branding.logoSrc)}" alt="${escapeHtml(branding.siteName)}" />`
+    : `<div class="brand">${escapeHtml(branding.siteName)}</div>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${title} ${escapeHtml(reference)} - ${escapeHtml(branding.siteName)}</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: Helvetica, Arial, sans-serif; color: ${branding.textColor}; margin: 0; padding: 40px; font-size: 14px; }
+    .sheet { max-width: 800px; margin: 0 auto; }
+    header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 4px solid ${primary}; padding-bottom: 20px; }
+    .logo { max-height: 70px; max-width: 240px; }
+    .brand { font-size: 24px; font-weight: bold; color: ${primary}; }
+    .company { text-align: right; font-size: 12px; line-height: 1.5; }
+    h1 { color: ${primary}; margin: 30px 0 4px; font-size: 28px; letter-spacing: 1px; text-transform: uppercase; }
+    .meta { display: flex; justify-content: space-between; margin: 20px 0 30px; }
+    .meta h3 { margin: 0 0 6px; font-size: 12px; text-transform: uppercase; color: #6b7280; }
+    .meta p { margin: 0; line-height: 1.5; }
+    table { width: 100%; border-collapse: collapse; }
+    th { background: ${primary}; color: #ffffff; text-align: left; padding: 10px; font-size: 12px; text-transform: uppercase; }
+    td { padding: 10px; border-bottom: 1px solid #e5e7eb; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { margin-left: auto; margin-top: 20px; width: 300px; }
+    .totals div { display: flex; justify-content: space-between; padding: 6px 0; }
+    .totals .grand { border-top: 2px solid ${primary}; font-size: 18px; font-weight: bold; }
+    .notes { margin-top: 30px; padding: 16px; background: #f9fafb; border-left: 4px solid ${primary}; white-space: pre-wrap; }
+    .signature { margin-top: 30px; }
+    .signature img { display: block; max-height: 80px; margin-bottom: 6px; }
+    footer { margin-top: 40px; font-size: 11px; color: #6b7280; text-align: center; }
+    @media print { body { padding: 0; } }
+  </style>
+</head>
+<body>
+  <div class="sheet">
+    <header>
+      ${logo}
+      <div class="company">
+        <strong>${escapeHtml(branding.siteName)}</strong><br />
+        ${contactLines(branding).map(escapeHtml).join('<br />')}
+      </div>
+    </header>
+
+    <h1>${title}</h1>
+    <div>${escapeHtml(reference)}</div>
+
+    <div class="meta">
+      <div>
+        <h3>Prepared for</h3>
+        <p>${customerLines(doc).map(escapeHtml).join('<br />')}</p>
+      </div>
+      <div>
+        <p>${dateLines(doc).map(([label, value]) => `<strong>${label}:</strong> ${value}`).join('<br />')}</p>
+      </div>
+    </div>
+
+    <table>
+      <thead>
+        <tr><th>Description</th><th class="num">Qty</th><th class="num">Rate</th><th class="num">Amount</th></tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+    </table>
+
+    <div class="totals">
+      <div><span>Subtotal</span><span>${formatMoney(doc.subtotal, doc.currency)}</span></div>
+      <div><span>Tax (${Math.round(doc.taxRate * 1000) / 10}%)</span><span>${formatMoney(doc.taxAmount, doc.currency)}</span></div>
+      <div class="grand"><span>Total</span><span>${formatMoney(doc.total, doc.currency)}</span></div>
+    </div>
+
+    ${doc.notes ? `<div class="notes">${escapeHtml(doc.notes)}</div>` : ''}
+
+    ${doc.signature ? `<div class="signature">
+      ${signaturePng(doc.signature.image) ? `<img src="${doc.signature.image}" alt="Signature" />` : ''}
+      <strong>Accepted by ${escapeHtml(doc.signature.name)}</strong> on ${formatDate(doc.signature.signedAt)}
+    </div>` : ''}
+
+    <footer>Thank you for choosing ${escapeHtml(branding.siteName)}.</footer>
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Renders the same layout as a PDF using the built-in Helvetica fonts.
+ */
+export function renderDocumentPdf(doc: RenderableDocument, branding: DocumentBranding): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    const primary = branding.primaryColor;
+    const left = pdf.page.margins.left;
+    const right = pdf.page.width - pdf.page.margins.right;
+    const width = right - left;
+
+    // Header: logo or name on the left, company contact on the right
+    if (branding.logoPng) {
+      try {
+        pdf.image(branding.logoPng, left, 45, { fit: [180, 60] });
+      } catch {
+        pdf.font('Helvetica-Bold').fontSize(20).fillColor(primary).text(branding.siteName, left, 50);
+      }
+    } else {
+      pdf.font('Helvetica-Bold').fontSize(20).fillColor(primary).text(branding.siteName, left, 50, { width: width / 2 });
+    }
+    pdf.font('Helvetica-Bold').fontSize(10).fillColor(branding.textColor)
+      .text(branding.siteName, left + width / 2, 50, { width: width / 2, align: 'right' });
+    pdf.font('Helvetica').fontSize(9)
+      .text(contactLines(branding).join('\n'), { width: width / 2, align: 'right' });
+    pdf.moveTo(left, 115).lineTo(right, 115).lineWidth(3).strokeColor(primary).stroke();
+
+    pdf.font('Helvetica-Bold').fontSize(24).fillColor(primary)
+      .text(documentTitle(doc).toUpperCase(), left, 135);
+    pdf.font('Helvetica').fontSize(11).fillColor(branding.textColor).text(documentReference(doc));
+
+    const metaTop = 195;
+    pdf.font('Helvetica-Bold').fontSize(9).fillColor('#6b7280').text('PREPARED FOR', left, metaTop);
+    pdf.font('Helvetica').fontSize(10).fillColor(branding.textColor)
+      .text(customerLines(doc).join('\n'), left, metaTop + 14, { width: width / 2 });
+    pdf.text(
+      dateLines(doc).map(([label, value]) => `${label}: ${value}`).join('\n'),
+      left + width / 2,
+      metaTop + 14,
+      { width: width / 2, align: 'right' },
+    );
+
+    // Line items table
+    const columns = [
+      { label: 'Description', x: left, width: width * 0.46, align: 'left' as const },
+      { label: 'Qty', x: left + width * 0.46, width: width * 0.16, align: 'right' as const },
+      { label: 'Rate', x: left + width * 0.62, width: width * 0.18, align: 'right' as const },
+      { label: 'Amount', x: left + width * 0.8, width: width * 0.2, align: 'right' as const },
+    ];
+    let y = 290;
+    pdf.rect(left, y, width, 22).fill(primary);
+    pdf.font('Helvetica-Bold').fontSize(9).fillColor('#ffffff');
+    columns.forEach((column) => {
+      pdf.text(column.label.toUpperCase(), column.x + 6, y + 7, { width: column.width - 12, align: column.align });
+    });
+    y += 28;
+
+    pdf.font('Helvetica').fontSize(10).fillColor(branding.textColor);
+    doc.lineItems.forEach((item) => {
+      const cells = [
+        item.description,
+        `${item.quantity} ${item.unit}`,
+        formatMoney(item.unitPrice, doc.currency),
+        formatMoney(item.amount, doc.currency),
+      ];
+      const rowHeight = Math.max(
+        18,
+        pdf.heightOfString(item.description, { width: columns[0].width - 12 }) + 8,
+      );
+      if (y + rowHeight > pdf.page.height - 150) {
+        pdf.addPage();
+        y = pdf.page.margins.top;
+      }
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        pdf.text(cell, column.x + 6, y, { width: column.width - 12, align: column.align });
+      });
+      y += rowHeight;
+      pdf.moveTo(left, y - 4).lineTo(right, y - 4).lineWidth(0.5).strokeColor('#e5e7eb').stroke();
+    });
+
+    // Totals
+    y += 10;
+    const totalsX = right - 220;
+    const totals: Array<[string, string, boolean]> = [
+      ['Subtotal', formatMoney(doc.subtotal, doc.currency), false],
+      [`Tax (${Math.round(doc.taxRate * 1000) / 10}%)`, formatMoney(doc.taxAmount, doc.currency), false],
+      ['Total', formatMoney(doc.total, doc.currency), true],
+    ];
+    totals.forEach(([label, value, grand]) => {
+      if (grand) {
+        pdf.moveTo(totalsX, y - 3).lineTo(right, y - 3).lineWidth(1.5).strokeColor(primary).stroke();
+      }
+      pdf.font(grand ? 'Helvetica-Bold' : 'Helvetica').fontSize(grand ? 13 : 10).fillColor(branding.textColor);
+      pdf.text(label, totalsX, y, { width: 110 });
+      pdf.text(value, totalsX + 110, y, { width: 110, align: 'right' });
+      y += grand ? 22 : 16;
+    });
+
+    if (doc.notes) {
+      y += 20;
+      pdf.font('Helvetica').fontSize(10).fillColor(branding.textColor).text(doc.notes, left, y, { width });
+      y = pdf.y;
+    }
+
+    if (doc.signature) {
+      y += 24;
+      const png = signaturePng(doc.signature.image);
+      if (png) {
+        pdf.image(png, left, y, { fit: [200, 60] });
+        y += 66;
+      }
+      pdf.font('Helvetica-Bold').fontSize(10).fillColor(branding.textColor)
+        .text(`Accepted by ${doc.signature.name} on ${formatDate(doc.signature.signedAt)}`, left, y, { width });
+    }
+
+    pdf.font('Helvetica').fontSize(8).fillColor('#6b7280')
+      .text(`Thank you for choosing ${branding.siteName}.`, left, pdf.page.height - 70, { width, align: 'center' });
+
+    pdf.end();
+  });
+}
@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Request,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { DocumentsService } from './documents.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import {
+  CreateDocumentDto,
+  DocumentStatusDto,
+  ListDocumentsQueryDto,
+  SendDocumentDto,
+  UpdateDocumentDto,
+} from './dto/document.dto';
+
+@Controller('documents')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+export class DocumentsController {
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  @Get()
+  listDocuments(@Query() query: ListDocumentsQueryDto) {
+    return this.documentsService.listDocuments(query);
+  }
+
+  @Post()
+  createDocument(@Body() dto: CreateDocumentDto, @Request() req: AuthenticatedRequest) {
+    return this.documentsService.createDocument(dto, req.user?.id || req.user?.userId);
+  }
+
+  @Get(':id')
+  getDocument(@Param('id') id: string) {
+    return this.documentsService.getDocument(id);
+  }
+
+  @Put(':id')
+  updateDocument(@Param('id') id: string, @Body() dto: UpdateDocumentDto) {
+    return this.documentsService.updateDocument(id, dto);
+  }
+
+  @Post(':id/revise')
+  reviseDocument(@Param('id') id: string, @Body() dto: UpdateDocumentDto, @Request() req: AuthenticatedRequest) {
+    return this.documentsService.reviseDocument(id, dto, req.user?.id || req.user?.userId);
+  }
+
+  @Patch(':id/status')
+  updateStatus(@Param('id') id: string, @Body() dto: DocumentStatusDto) {
+    return this.documentsService.updateStatus(id, dto);
+  }
+
+  @Post(':id/invoice')
+  convertToInvoice(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.documentsService.convertToInvoice(id, req.user?.id || req.user?.userId);
+  }
+
+  @Post(':id/send')
+  sendDocument(@Param('id') id: string, @Body() dto: SendDocumentDto) {
+    return this.documentsService.sendDocument(id, dto);
+  }
+
+  @Get(':id/html')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  renderHtml(@Param('id') id: string) {
+    return this.documentsService.renderHtml(id);
+  }
+
+  @Get(':id/pdf')
+  async renderPdf(@Param('id') id: string) {
+    const { buffer, filename } = await this.documentsService.renderPdf(id);
+    return new StreamableFile(buffer, {
+      type: 'application/pdf',
+      disposition: `inline; filename="${filename}"`,
+    });
+  }
+}
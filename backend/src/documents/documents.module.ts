@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { DocumentsService } from './documents.service';
+import { DocumentsController } from './documents.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+
+@Module({
+  imports: [PrismaModule, SettingsModule],
+  controllers: [DocumentsController],
+  providers: [DocumentsService],
+  exports: [DocumentsService],
+})
+export class DocumentsModule {}
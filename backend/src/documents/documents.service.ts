@@ -0,0 +1,632 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { DocumentStatus, DocumentType, Prisma, QuoteStatus, SalesDocument } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { MailService } from '../mail/mail.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { parseRateCard } from '../estimate/estimate.calculator';
+import {
+  DocumentBranding,
+  DocumentLineItem,
+  RenderableDocument,
+  documentReference,
+  documentTitle,
+  isDocumentLineItem,
+  renderDocumentHtml,
+  renderDocumentPdf,
+  safeColor,
+} from './document-renderer';
+import {
+  CreateDocumentDto,
+  DocumentStatusDto,
+  ListDocumentsQueryDto,
+  SendDocumentDto,
+  SignEstimateDto,
+  UpdateDocumentDto,
+} from './dto/document.dto';
+
+const MAX_PAGE_SIZE = 100;
+const MAX_LINE_ITEMS = 100;
+const ESTIMATE_VALID_DAYS = 30;
+const INVOICE_DUE_DAYS = 14;
+// Drawn signatures arrive as PNG data URLs from the portal canvas
+const SIGNATURE_DATA_URL = /^data:image\/png;base64,[A-Za-z0-9+/=]+$/;
+const MAX_SIGNATURE_LENGTH = 200_000;
+
+const NUMBER_PREFIX: Record<DocumentType, string> = {
+  [DocumentType.ESTIMATE]: 'EST',
+  [DocumentType.INVOICE]: 'INV',
+};
+
+const STATUS_TRANSITIONS: Record<DocumentStatus, DocumentStatus[]> = {
+  [DocumentStatus.DRAFT]: [DocumentStatus.SENT, DocumentStatus.VOID],
+  [DocumentStatus.SENT]: [DocumentStatus.ACCEPTED, DocumentStatus.DECLINED, DocumentStatus.PAID, DocumentStatus.VOID],
+  [DocumentStatus.ACCEPTED]: [DocumentStatus.VOID],
+  [DocumentStatus.DECLINED]: [DocumentStatus.VOID],
+  [DocumentStatus.PAID]: [],
+  [DocumentStatus.VOID]: [],
+};
+
+type LineItemInput = Pick<DocumentLineItem, 'description' | 'quantity' | 'unitPrice'> & { unit?: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+/**
+ * Documents Service
+ * Issues numbered estimates and invoices, keeps a version trail when an
+ * estimate is revised and renders branded HTML/PDF copies for customers.
+ */
+@Injectable()
+export class DocumentsService {
+  private readonly logger = new Logger(DocumentsService.name);
+  private readonly publicDir = path.resolve(process.cwd(), '..', 'frontend', 'public');
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+    private mailService: MailService,
+  ) {}
+
+  private optionalText(value: string | null | undefined, maxLength: number): string | null {
+    if (!value) return null;
+    const text = SanitizationUtil.sanitizeText(value).slice(0, maxLength);
+    return text || null;
+  }
+
+  private parseDate(value: string | null | undefined): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return null;
+    return date;
+  }
+
+  private parseLineItems(items: LineItemInput[] | undefined): DocumentLineItem[] {
+    if (!items || items.length === 0) {
+      throw new BadRequestException('At least one line item is required');
+    }
+    if (items.length > MAX_LINE_ITEMS) {
+      throw new BadRequestException(`A maximum of ${MAX_LINE_ITEMS} line items is allowed`);
+    }
+    return items.map((item) => {
+      const description = this.optionalText(item.description, 500);
+      if (!description) {
+        throw new BadRequestException('Each line item needs a description');
+      }
+      return {
+        description,
+        quantity: item.quantity,
+        unit: this.optionalText(item.unit, 20) || '',
+        unitPrice: roundMoney(item.unitPrice),
+        amount: roundMoney(item.quantity * item.unitPrice),
+      };
+    });
+  }
+
+  /** Line items read back from a JSON column; a malformed row is refused rather than priced or rendered */
+  private checkedLineItems(value: Prisma.JsonValue, label: string): DocumentLineItem[] {
+    const items = Array.isArray(value) ? value : [];
+    if (!items.every(isDocumentLineItem)) {
+      this.logger.error(`${label} has malformed line items`);
+      throw new InternalServerErrorException(`${label} has malformed line items`);
+    }
+    return items;
+  }
+
+  private storedLineItems(document: SalesDocument): DocumentLineItem[] {
+    return this.checkedLineItems(document.lineItems, `Document ${document.number} v${document.version}`);
+  }
+
+  private computeTotals(lineItems: DocumentLineItem[], taxRate: number) {
+    const subtotal = roundMoney(lineItems.reduce((sum, item) => sum + item.amount, 0));
+    const taxAmount = roundMoney(subtotal * taxRate);
+    return { subtotal, taxAmount, total: roundMoney(subtotal + taxAmount) };
+  }
+
+  private async nextNumber(tx: Prisma.TransactionClient, type: DocumentType) {
+    const sequence = await tx.documentSequence.upsert({
+      where: { type },
+      create: { type, lastValue: 1 },
+      update: { lastValue: { increment: 1 } },
+    });
+    return `${NUMBER_PREFIX[type]}-${String(sequence.lastValue).padStart(6, '0')}`;
+  }
+
+  private toRenderable(document: SalesDocument): RenderableDocument {
+    const lineItems = this.storedLineItems(document);
+    return {
+      type: document.type,
+      number: document.number,
+      version: document.version,
+      status: document.status,
+      customerName: document.customerName,
+      customerEmail: document.customerEmail,
+      customerPhone: document.customerPhone,
+      customerAddress: document.customerAddress,
+      lineItems,
+      currency: document.currency,
+      subtotal: document.subtotal,
+      taxRate: document.taxRate,
+      taxAmount: document.taxAmount,
+      total: document.total,
+      notes: document.notes,
+      issuedAt: document.issuedAt,
+      validUntil: document.validUntil,
+      dueDate: document.dueDate,
+      signature: document.signatureName && document.signedAt
+        ? { name: document.signatureName, signedAt: document.signedAt, image: document.signatureImage }
+        : null,
+    };
+  }
+
+  private async loadLogo(logo: string | null): Promise<{ src: string | null; png: Buffer | null }> {
+    if (!logo) return { src: null, png: null };
+    if (/^https?:\/\//i.test(logo)) {
+      return { src: logo, png: null };
+    }
+
+    // Only read files that live inside the public folder
+    const filePath = path.resolve(this.publicDir, `.${path.posix.normalize(`/${logo}`)}`);
+    if (!filePath.startsWith(this.publicDir + path.sep) || !fs.existsSync(filePath)) {
+      return { src: null, png: null };
+    }
+
+    try {
+      const png = await sharp(filePath).resize({ width: 480, withoutEnlargement: true }).png().toBuffer();
+      return { src: `data:image/png;base64,${png.toString('base64')}`, png };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Could not load logo for documents: ${message}`);
+      return { src: null, png: null };
+    }
+  }
+
+  async getBranding(): Promise<DocumentBranding> {
+    const settings = await this.settingsService.getSettings();
+    const appearance = isRecord(settings.appearanceSettings) ? settings.appearanceSettings : {};
+    const colors = isRecord(appearance.colors) ? appearance.colors : {};
+    let contactInfo: unknown = settings.contactInfo;
+    if (typeof contactInfo === 'string') {
+      try {
+        contactInfo = JSON.parse(contactInfo);
+      } catch {
+        contactInfo = {};
+      }
+    }
+    const contact = isRecord(contactInfo) ? contactInfo : {};
+    const contactValue = (key: string) => (typeof contact[key] === 'string' && contact[key] ? String(contact[key]) : null);
+
+    const logo = await this.loadLogo(settings.logo);
+
+    return {
+      siteName: settings.siteName || process.env.SITE_NAME || 'Wall Painting Services',
+      primaryColor: safeColor(colors.primary, '#3B82F6'),
+      textColor: safeColor(colors.text, '#1F2937'),
+      logoSrc: logo.src,
+      logoPng: logo.png,
+      contact: {
+        phone: contactValue('phone'),
+        email: contactValue('email'),
+        address: contactValue('address'),
+      },
+    };
+  }
+
+  private parseCustomer(body: UpdateDocumentDto, fallback: Partial<Record<'name' | 'email' | 'phone' | 'address', string | null>> = {}) {
+    const customerName = this.optionalText(body.customerName, 150) || fallback.name || null;
+    if (!customerName) {
+      throw new BadRequestException('Customer name is required');
+    }
+    const rawEmail = body.customerEmail?.trim() ? body.customerEmail : fallback.email;
+    const customerEmail = rawEmail ? SanitizationUtil.sanitizeEmail(rawEmail) : null;
+    if (rawEmail && !customerEmail) {
+      throw new BadRequestException('Invalid customer email address');
+    }
+    return {
+      customerName,
+      customerEmail,
+      customerPhone: this.optionalText(body.customerPhone, 40) || fallback.phone || null,
+      customerAddress: this.optionalText(body.customerAddress, 500) || fallback.address || null,
+    };
+  }
+
+  async createDocument(body: CreateDocumentDto, userId?: string) {
+    const type = body.type ?? DocumentType.ESTIMATE;
+    const rateCard = parseRateCard((await this.settingsService.getSettings()).estimateRateCard);
+
+    let estimateId: string | null = null;
+    let quoteRequestId = body.quoteRequestId || null;
+    let fallbackCustomer: Partial<Record<'name' | 'email' | 'phone', string | null>> = {};
+    let lineItemsSource: LineItemInput[] | undefined = body.lineItems;
+    let currency = rateCard.currency;
+
+    // Start from a saved calculator estimate when one is given
+    if (body.estimateId) {
+      const estimate = await this.prisma.estimate.findUnique({
+        where: { id: body.estimateId },
+        include: { quoteRequest: { select: { phone: true } } },
+      });
+      if (!estimate) throw new NotFoundException('Estimate not found');
+      estimateId = estimate.id;
+      quoteRequestId = quoteRequestId || estimate.quoteRequestId;
+      fallbackCustomer = {
+        name: estimate.customerName,
+        email: estimate.customerEmail,
+        phone: estimate.quoteRequest?.phone ?? null,
+      };
+      if (!lineItemsSource?.length) {
+        lineItemsSource = this.checkedLineItems(estimate.lineItems, `Estimate ${estimate.id}`);
+      }
+      currency = estimate.currency;
+    } else if (quoteRequestId) {
+      const quote = await this.prisma.quoteRequest.findUnique({
+        where: { id: quoteRequestId },
+        select: { name: true, email: true, phone: true },
+      });
+      if (!quote) throw new NotFoundException('Quote request not found');
+      fallbackCustomer = { name: quote.name, email: quote.email, phone: quote.phone };
+    }
+
+    const lineItems = this.parseLineItems(lineItemsSource);
+    const taxRate = Math.min(1, Math.max(0, body.taxRate ?? rateCard.taxRate));
+    const issuedAt = new Date();
+
+    const created = await this.prisma.$transaction(async (tx) => {
+      const number = await this.nextNumber(tx, type);
+      return tx.salesDocument.create({
+        data: {
+          type,
+          number,
+          ...this.parseCustomer(body, fallbackCustomer),
+          lineItems,
+          currency: this.optionalText(body.currency, 3)?.toUpperCase() || currency,
+          taxRate,
+          ...this.computeTotals(lineItems, taxRate),
+          notes: this.optionalText(body.notes, 5000),
+          issuedAt,
+          validUntil: type === DocumentType.ESTIMATE
+            ? this.parseDate(body.validUntil) || addDays(issuedAt, ESTIMATE_VALID_DAYS)
+            : null,
+          dueDate: type === DocumentType.INVOICE
+            ? this.parseDate(body.dueDate) || addDays(issuedAt, INVOICE_DUE_DAYS)
+            : null,
+          estimateId,
+          quoteRequestId,
+          createdById: userId || null,
+        },
+      });
+    });
+
+    this.logger.log(`Created ${created.type.toLowerCase()} ${created.number}`);
+    return created;
+  }
+
+  async listDocuments(query: ListDocumentsQueryDto) {
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? 20));
+    const search = query.search?.trim() || '';
+
+    const where: Prisma.SalesDocumentWhereInput = {};
+    if (query.type) {
+      where.type = query.type;
+    }
+    if (query.status) {
+      where.status = query.status;
+    }
+    if (query.quoteRequestId) {
+      where.quoteRequestId = query.quoteRequestId;
+    }
+    // Older versions are only listed when explicitly requested
+    if (query.includeSuperseded !== 'true') {
+      where.supersededAt = null;
+    }
+    if (search) {
+      where.OR = [
+        { number: { contains: search, mode: 'insensitive' } },
+        { customerName: { contains: search, mode: 'insensitive' } },
+        { customerEmail: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.salesDocument.findMany({
+        where,
+        orderBy: [{ issuedAt: 'desc' }, { version: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.salesDocument.count({ where }),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  private async findDocument(id: string) {
+    const document = await this.prisma.salesDocument.findUnique({ where: { id } });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+    return document;
+  }
+
+  async getDocument(id: string) {
+    const document = await this.findDocument(id);
+    const versions = await this.prisma.salesDocument.findMany({
+      where: { type: document.type, number: document.number },
+      orderBy: { version: 'desc' },
+      select: { id: true, version: true, status: true, total: true, createdAt: true, supersededAt: true },
+    });
+    return { ...document, versions };
+  }
+
+  async updateDocument(id: string, body: UpdateDocumentDto) {
+    const document = await this.findDocument(id);
+    if (document.supersededAt) {
+      throw new BadRequestException('This version has been superseded and can no longer be edited');
+    }
+    if (document.status !== DocumentStatus.DRAFT) {
+      throw new BadRequestException(
+        document.type === DocumentType.ESTIMATE
+          ? 'Estimates that have been sent must be revised instead of edited'
+          : 'Only draft invoices can be edited',
+      );
+    }
+
+    const lineItems = body.lineItems !== undefined
+      ? this.parseLineItems(body.lineItems)
+      : this.storedLineItems(document);
+    const taxRate = body.taxRate !== undefined
+      ? Math.min(1, Math.max(0, body.taxRate))
+      : document.taxRate;
+
+    return this.prisma.salesDocument.update({
+      where: { id },
+      data: {
+        ...this.parseCustomer(body, {
+          name: document.customerName,
+          email: document.customerEmail,
+          phone: document.customerPhone,
+          address: document.customerAddress,
+        }),
+        lineItems,
+        taxRate,
+        ...this.computeTotals(lineItems, taxRate),
+        notes: body.notes !== undefined ? this.optionalText(body.notes, 5000) : document.notes,
+        validUntil: body.validUntil !== undefined ? this.parseDate(body.validUntil) : document.validUntil,
+        dueDate: body.dueDate !== undefined ? this.parseDate(body.dueDate) : document.dueDate,
+      },
+    });
+  }
+
+  /**
+   * Creates the next version of an estimate. The previous version is kept for
+   * reference and marked as superseded.
+   */
+  async reviseDocument(id: string, changes: UpdateDocumentDto, userId?: string) {
+    const document = await this.findDocument(id);
+    if (document.type !== DocumentType.ESTIMATE) {
+      throw new BadRequestException('Only estimates can be revised');
+    }
+    if (document.supersededAt) {
+      throw new BadRequestException('Revise the latest version of this estimate');
+    }
+
+    const lineItems = changes.lineItems !== undefined
+      ? this.parseLineItems(changes.lineItems)
+      : this.storedLineItems(document);
+    const taxRate = changes.taxRate !== undefined
+      ? Math.min(1, Math.max(0, changes.taxRate))
+      : document.taxRate;
+    const issuedAt = new Date();
+
+    const revised = await this.prisma.$transaction(async (tx) => {
+      await tx.salesDocument.update({
+        where: { id },
+        data: { supersededAt: issuedAt },
+      });
+      return tx.salesDocument.create({
+        data: {
+          type: document.type,
+          number: document.number,
+          version: document.version + 1,
+          ...this.parseCustomer(changes, {
+            name: document.customerName,
+            email: document.customerEmail,
+            phone: document.customerPhone,
+            address: document.customerAddress,
+          }),
+          lineItems,
+          currency: document.currency,
+          taxRate,
+          ...this.computeTotals(lineItems, taxRate),
+          notes: changes.notes !== undefined ? this.optionalText(changes.notes, 5000) : document.notes,
+          issuedAt,
+          validUntil: this.parseDate(changes.validUntil) || addDays(issuedAt, ESTIMATE_VALID_DAYS),
+          estimateId: document.estimateId,
+          quoteRequestId: document.quoteRequestId,
+          createdById: userId || document.createdById,
+        },
+      });
+    });
+
+    this.logger.log(`Revised ${document.number} to version ${revised.version}`);
+    return revised;
+  }
+
+  async updateStatus(id: string, { status: next }: DocumentStatusDto) {
+    const document = await this.findDocument(id);
+    if (next === document.status) return document;
+    if (!STATUS_TRANSITIONS[document.status].includes(next)) {
+      throw new BadRequestException(`Cannot move a document from ${document.status} to ${next}`);
+    }
+    if (next === DocumentStatus.PAID && document.type !== DocumentType.INVOICE) {
+      throw new BadRequestException('Only invoices can be marked as paid');
+    }
+    if ((next === DocumentStatus.ACCEPTED || next === DocumentStatus.DECLINED) && document.type !== DocumentType.ESTIMATE) {
+      throw new BadRequestException('Only estimates can be accepted or declined');
+    }
+    return this.prisma.salesDocument.update({
+      where: { id },
+      data: {
+        status: next,
+        sentAt: next === DocumentStatus.SENT ? document.sentAt || new Date() : document.sentAt,
+      },
+    });
+  }
+
+  /**
+   * Accepts a sent estimate on the customer's behalf, keeping the typed name,
+   * drawn signature and IP address as the acceptance record.
+   */
+  async signEstimate(id: string, payload: SignEstimateDto, signer: { userId?: string; ipAddress?: string }) {
+    const signatureName = this.optionalText(payload.signatureName, 120);
+    if (!signatureName) {
+      throw new BadRequestException('Type your full name to sign');
+    }
+    const signatureImage = payload.signatureImage.trim();
+    if (!SIGNATURE_DATA_URL.test(signatureImage) || signatureImage.length > MAX_SIGNATURE_LENGTH) {
+      throw new BadRequestException('Draw your signature to accept the estimate');
+    }
+
+    const document = await this.findDocument(id);
+    if (document.type !== DocumentType.ESTIMATE) {
+      throw new BadRequestException('Only estimates can be signed');
+    }
+    if (document.supersededAt) {
+      throw new BadRequestException('A newer version of this estimate is available');
+    }
+    if (document.validUntil && document.validUntil.getTime() < Date.now()) {
+      throw new BadRequestException('This estimate has expired. Contact us for an updated quote');
+    }
+
+    // Guard on status so a double submit cannot overwrite the first signature
+    const { count } = await this.prisma.salesDocument.updateMany({
+      where: { id, status: DocumentStatus.SENT },
+      data: {
+        status: DocumentStatus.ACCEPTED,
+        signatureName,
+        signatureImage,
+        signedAt: new Date(),
+        signedIp: signer.ipAddress || null,
+        signedById: signer.userId || null,
+      },
+    });
+    if (count === 0) {
+      throw new BadRequestException(
+        document.status === DocumentStatus.ACCEPTED
+          ? 'This estimate has already been accepted'
+          : 'This estimate cannot be accepted',
+      );
+    }
+
+    if (document.quoteRequestId) {
+      await this.prisma.quoteRequest.updateMany({
+        where: { id: document.quoteRequestId, status: QuoteStatus.ESTIMATED },
+        data: { status: QuoteStatus.WON, statusChangedAt: new Date() },
+      });
+    }
+
+    this.logger.log(`Estimate ${documentReference(document)} accepted by ${signatureName}`);
+    return this.findDocument(id);
+  }
+
+  async convertToInvoice(id: string, userId?: string) {
+    const document = await this.findDocument(id);
+    if (document.type !== DocumentType.ESTIMATE) {
+      throw new BadRequestException('Only estimates can be converted to invoices');
+    }
+    if (document.supersededAt) {
+      throw new BadRequestException('Convert the latest version of this estimate');
+    }
+    const invoice = await this.createDocument(
+      {
+        type: DocumentType.INVOICE,
+        customerName: document.customerName,
+        customerEmail: document.customerEmail,
+        customerPhone: document.customerPhone,
+        customerAddress: document.customerAddress,
+        lineItems: this.storedLineItems(document),
+        currency: document.currency,
+        taxRate: document.taxRate,
+        notes: document.notes,
+        quoteRequestId: document.quoteRequestId,
+      },
+      userId,
+    );
+    return this.prisma.salesDocument.update({
+      where: { id: invoice.id },
+      data: { sourceDocumentId: document.id, estimateId: document.estimateId },
+    });
+  }
+
+  async renderHtml(id: string) {
+    const document = await this.findDocument(id);
+    return renderDocumentHtml(this.toRenderable(document), await this.getBranding());
+  }
+
+  async renderPdf(id: string) {
+    const document = await this.findDocument(id);
+    const buffer = await renderDocumentPdf(this.toRenderable(document), await this.getBranding());
+    return { buffer, filename: `${documentReference(document).replace(/[^A-Za-z0-9-]+/g, '-')}.pdf` };
+  }
+
+  async sendDocument(id: string, options: SendDocumentDto) {
+    const document = await this.findDocument(id);
+    if (document.status === DocumentStatus.VOID) {
+      throw new BadRequestException('Void documents cannot be sent');
+    }
+    const email = options.email ? SanitizationUtil.sanitizeEmail(options.email) : document.customerEmail;
+    if (!email) {
+      throw new BadRequestException('The customer does not have an email address');
+    }
+
+    const branding = await this.getBranding();
+    const renderable = this.toRenderable(document);
+    const title = documentTitle(renderable);
+    const reference = documentReference(renderable);
+    const html = renderDocumentHtml(renderable, branding);
+    const pdf = await renderDocumentPdf(renderable, branding);
+    const message = this.optionalText(options.message, 2000);
+
+    await this.mailService.sendDocumentEmail(email, {
+      subject: `${branding.siteName} ${title} ${reference}`,
+      text: `Hi ${document.customerName},\n\n${message || `Please find your ${title.toLowerCase()} ${reference} attached.`}\n\nThanks,\n${branding.siteName} Team`,
+      html,
+      attachments: [
+        {
+          filename: `${reference.replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`,
+          content: pdf,
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+
+    return this.prisma.salesDocument.update({
+      where: { id },
+      data: {
+        sentAt: new Date(),
+        status: document.status === DocumentStatus.DRAFT ? DocumentStatus.SENT : document.status,
+      },
+    });
+  }
+}
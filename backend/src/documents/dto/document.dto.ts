@@ -0,0 +1,165 @@
+import {
+  IsArray,
+  IsBooleanString,
+  IsDateString,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DocumentStatus, DocumentType } from '@prisma/client';
+
+const isPresent = (_: unknown, value: unknown) => value !== null && value !== undefined;
+
+export class DocumentLineItemDto {
+  @IsString()
+  @MaxLength(500)
+  description: string;
+
+  @IsNumber()
+  @Min(0)
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  unit?: string;
+
+  @IsNumber()
+  unitPrice: number;
+}
+
+/** Fields left out keep their current value on update and revise */
+export class UpdateDocumentDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(150)
+  customerName?: string;
+
+  // An empty string falls back to the enquiry's address, so the format is checked by the service
+  @IsOptional()
+  @IsString()
+  customerEmail?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  customerPhone?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  customerAddress?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DocumentLineItemDto)
+  lineItems?: DocumentLineItemDto[];
+
+  @IsOptional()
+  @IsNumber()
+  taxRate?: number;
+
+  // null clears the notes
+  @ValidateIf(isPresent)
+  @IsString()
+  @MaxLength(5000)
+  notes?: string | null;
+
+  @ValidateIf(isPresent)
+  @IsDateString()
+  validUntil?: string | null;
+
+  @ValidateIf(isPresent)
+  @IsDateString()
+  dueDate?: string | null;
+}
+
+/** Starts from a saved calculator estimate or a quote request when one is given */
+export class CreateDocumentDto extends UpdateDocumentDto {
+  @IsOptional()
+  @IsEnum(DocumentType)
+  type?: DocumentType;
+
+  @IsOptional()
+  @IsString()
+  estimateId?: string;
+
+  @IsOptional()
+  @IsString()
+  quoteRequestId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(3)
+  currency?: string;
+}
+
+export class ListDocumentsQueryDto {
+  @IsOptional()
+  @IsInt()
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsEnum(DocumentType)
+  type?: DocumentType;
+
+  @IsOptional()
+  @IsEnum(DocumentStatus)
+  status?: DocumentStatus;
+
+  @IsOptional()
+  @IsString()
+  quoteRequestId?: string;
+
+  // Kept as a 'true' / 'false' string: implicit conversion would turn 'false' into true
+  @IsOptional()
+  @IsBooleanString()
+  includeSuperseded?: string;
+}
+
+export class DocumentStatusDto {
+  @IsEnum(DocumentStatus, { message: 'Invalid document status' })
+  status: DocumentStatus;
+}
+
+export class SendDocumentDto {
+  /** Defaults to the customer's email address */
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  message?: string;
+}
+
+/** Sent from the customer portal when accepting an estimate */
+export class SignEstimateDto {
+  @IsString({ message: 'Type your full name to sign' })
+  @IsNotEmpty({ message: 'Type your full name to sign' })
+  @MaxLength(120)
+  signatureName: string;
+
+  // A PNG data URL drawn on the portal canvas; its format is checked by the service
+  @IsString({ message: 'Draw your signature to accept the estimate' })
+  signatureImage: string;
+}
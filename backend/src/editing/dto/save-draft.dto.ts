@@ -0,0 +1,11 @@
+import { IsDateString, IsObject } from 'class-validator';
+
+export class SaveDraftDto {
+  /** The editor fields; stored as-is until the user saves or discards them */
+  @IsObject({ message: 'data must be an object' })
+  data: Record<string, unknown>;
+
+  /** The `updatedAt` the editor loaded */
+  @IsDateString({}, { message: 'baseVersion must be an ISO date' })
+  baseVersion: string;
+}
@@ -0,0 +1,63 @@
+import { Body, Controller, Delete, Get, Param, Post, Put, Request, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import { EditingService, parseEditResource } from './editing.service';
+import { SaveDraftDto } from './dto/save-draft.dto';
+
+/** Autosave drafts and presence for the post and page editors; `:resource` is `posts` or `pages` */
+@Controller('editing')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('AUTHOR', 'EDITOR', 'ADMINISTRATOR', 'SUPER_ADMIN')
+export class EditingController {
+  constructor(private readonly editingService: EditingService) {}
+
+  /**
+   * The current user's autosaved draft, if any
+   * GET /editing/:resource/:id/draft
+   */
+  @Get(':resource/:id/draft')
+  async getDraft(@Param('resource') resource: string, @Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.editingService.getDraft(parseEditResource(resource), id, req.user.id);
+  }
+
+  /**
+   * Autosave the editor fields
+   * PUT /editing/:resource/:id/draft
+   */
+  @Put(':resource/:id/draft')
+  async saveDraft(
+    @Param('resource') resource: string,
+    @Param('id') id: string,
+    @Body() dto: SaveDraftDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.editingService.saveDraft(parseEditResource(resource), id, req.user.id, dto);
+  }
+
+  /**
+   * DELETE /editing/:resource/:id/draft
+   */
+  @Delete(':resource/:id/draft')
+  async discardDraft(@Param('resource') resource: string, @Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.editingService.discardDraft(parseEditResource(resource), id, req.user.id);
+  }
+
+  /**
+   * Heartbeat from an open editor; returns the other editors and the current version
+   * POST /editing/:resource/:id/presence
+   */
+  @Post(':resource/:id/presence')
+  async heartbeat(@Param('resource') resource: string, @Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.editingService.heartbeat(parseEditResource(resource), id, req.user.id);
+  }
+
+  /**
+   * DELETE /editing/:resource/:id/presence
+   */
+  @Delete(':resource/:id/presence')
+  async leave(@Param('resource') resource: string, @Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.editingService.leave(parseEditResource(resource), id, req.user.id);
+  }
+}
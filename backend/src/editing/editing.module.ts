@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { EditingController } from './editing.controller';
+import { EditingService } from './editing.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [EditingController],
+  providers: [EditingService],
+  exports: [EditingService],
+})
+export class EditingModule {}
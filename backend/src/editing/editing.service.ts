@@ -0,0 +1,255 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { EditResource, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SaveDraftDto } from './dto/save-draft.dto';
+
+/** Editors that have not sent a heartbeat for this long are no longer shown */
+const PRESENCE_TTL_MS = 45 * 1000;
+/** Heartbeat rows older than this are deleted on the next heartbeat for the same resource */
+const PRESENCE_CLEANUP_MS = 10 * 60 * 1000;
+const MAX_DRAFT_LENGTH = 1_000_000;
+
+const USER_SELECT = { id: true, username: true, displayName: true } as const;
+
+const RESOURCE_PATHS: Record<string, EditResource> = {
+  posts: EditResource.POST,
+  pages: EditResource.PAGE,
+};
+
+const RESOURCE_LABELS: Record<EditResource, string> = {
+  [EditResource.POST]: 'post',
+  [EditResource.PAGE]: 'page',
+};
+
+export type EditUser = { id: string; name: string };
+
+const toEditUser = (user: { id: string; username: string; displayName: string | null } | null): EditUser | null => (
+  user ? { id: user.id, name: user.displayName || user.username } : null
+);
+
+/** Map the `posts` / `pages` route segment to a resource */
+export const parseEditResource = (value: string): EditResource => {
+  const resource = RESOURCE_PATHS[value];
+  if (!resource) {
+    throw new BadRequestException('Unknown resource; expected posts or pages');
+  }
+  return resource;
+};
+
+/** Read a version token (the `updatedAt` the editor loaded); undefined when absent */
+export const parseBaseVersion = (value: unknown): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new BadRequestException('baseVersion must be an ISO date');
+  }
+  return date;
+};
+
+@Injectable()
+export class EditingService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Optimistic concurrency for post/page saves. The version is claimed with a
+   * conditional write (bumping `updatedAt` only where it still equals the
+   * editor's version) before `save` runs, so of two saves from the same
+   * version only one gets through. The other gets a 409 carrying the saved
+   * fields, so the client can show a merge view. Saves without a version
+   * token are allowed.
+   */
+  async saveIfCurrent<T>(
+    resource: EditResource,
+    resourceId: string,
+    baseVersion: unknown,
+    save: () => Promise<T>,
+  ): Promise<T> {
+    const base = parseBaseVersion(baseVersion);
+    if (!base) return save();
+
+    const claimed = new Date();
+    if (!(await this.moveVersion(resource, resourceId, base, claimed))) {
+      await this.throwConflict(resource, resourceId);
+    }
+    try {
+      return await save();
+    } catch (error) {
+      // Nothing was saved, so hand the version back unless someone else saved since
+      await this.moveVersion(resource, resourceId, claimed, base);
+      throw error;
+    }
+  }
+
+  async getDraft(resource: EditResource, resourceId: string, userId: string) {
+    const { updatedAt } = await this.getSnapshot(resource, resourceId);
+    const draft = await this.prisma.editDraft.findUnique({
+      where: { resource_resourceId_userId: { resource, resourceId, userId } },
+    });
+    if (!draft) return { draft: null };
+
+    return {
+      draft: {
+        data: draft.data,
+        baseVersion: draft.baseVersion,
+        savedAt: draft.updatedAt,
+        // Someone saved since the draft was started; restoring it needs a merge
+        stale: draft.baseVersion.getTime() !== updatedAt.getTime(),
+      },
+    };
+  }
+
+  async saveDraft(resource: EditResource, resourceId: string, userId: string, body: SaveDraftDto) {
+    if (JSON.stringify(body.data).length > MAX_DRAFT_LENGTH) {
+      throw new BadRequestException('Draft is too large to autosave');
+    }
+    const baseVersion = new Date(body.baseVersion);
+    await this.getSnapshot(resource, resourceId);
+
+    const data = body.data as Prisma.InputJsonObject;
+    const draft = await this.prisma.editDraft.upsert({
+      where: { resource_resourceId_userId: { resource, resourceId, userId } },
+      create: { resource, resourceId, userId, data, baseVersion },
+      update: { data, baseVersion },
+    });
+    return { savedAt: draft.updatedAt };
+  }
+
+  async discardDraft(resource: EditResource, resourceId: string, userId: string) {
+    await this.prisma.editDraft.deleteMany({ where: { resource, resourceId, userId } });
+    return { success: true };
+  }
+
+  /**
+   * Record that the user has the editor open and list the other editors.
+   * Also returns the current version so clients notice saves made elsewhere.
+   */
+  async heartbeat(resource: EditResource, resourceId: string, userId: string) {
+    const { updatedAt } = await this.getSnapshot(resource, resourceId);
+    const now = new Date();
+
+    await this.prisma.editPresence.upsert({
+      where: { resource_resourceId_userId: { resource, resourceId, userId } },
+      create: { resource, resourceId, userId, startedAt: now, lastSeenAt: now },
+      update: { lastSeenAt: now },
+    });
+    await this.prisma.editPresence.deleteMany({
+      where: { resource, resourceId, lastSeenAt: { lt: new Date(now.getTime() - PRESENCE_CLEANUP_MS) } },
+    });
+
+    const others = await this.prisma.editPresence.findMany({
+      where: {
+        resource,
+        resourceId,
+        userId: { not: userId },
+        lastSeenAt: { gte: new Date(now.getTime() - PRESENCE_TTL_MS) },
+      },
+      orderBy: { startedAt: 'asc' },
+      include: { user: { select: USER_SELECT } },
+    });
+
+    return {
+      version: updatedAt,
+      editors: others.map((presence) => ({
+        ...toEditUser(presence.user),
+        startedAt: presence.startedAt,
+        lastSeenAt: presence.lastSeenAt,
+      })),
+    };
+  }
+
+  async leave(resource: EditResource, resourceId: string, userId: string) {
+    await this.prisma.editPresence.deleteMany({ where: { resource, resourceId, userId } });
+    return { success: true };
+  }
+
+  /** Set `updatedAt` to `to` if it is still `from`; false when the record moved on */
+  private async moveVersion(resource: EditResource, resourceId: string, from: Date, to: Date) {
+    const where = { id: resourceId, updatedAt: from };
+    const { count } = resource === EditResource.POST
+      ? await this.prisma.post.updateMany({ where, data: { updatedAt: to } })
+      : await this.prisma.page.updateMany({ where, data: { updatedAt: to } });
+    return count > 0;
+  }
+
+  private async throwConflict(resource: EditResource, resourceId: string): Promise<never> {
+    const current = await this.getSnapshot(resource, resourceId);
+    const updatedBy = await this.getLastEditor(resource, resourceId);
+    const label = RESOURCE_LABELS[resource];
+    throw new ConflictException({
+      statusCode: 409,
+      error: 'Conflict',
+      message: updatedBy
+        ? `${updatedBy.name} saved this ${label} after you opened it`
+        : `This ${label} was changed after you opened it`,
+      current,
+      updatedBy,
+    });
+  }
+
+  /** Saved fields of the record that an editor can change, with its version */
+  private async getSnapshot(resource: EditResource, resourceId: string) {
+    if (resource === EditResource.POST) {
+      const post = await this.prisma.post.findUnique({
+        where: { id: resourceId },
+        select: {
+          title: true,
+          slug: true,
+          excerpt: true,
+          content: true,
+          status: true,
+          updatedAt: true,
+          categories: { select: { id: true } },
+          tags: { select: { id: true } },
+        },
+      });
+      if (!post) {
+        throw new NotFoundException('Post not found');
+      }
+      const { categories, tags, ...fields } = post;
+      return {
+        ...fields,
+        categoryIds: categories.map((category) => category.id),
+        tagIds: tags.map((tag) => tag.id),
+      };
+    }
+
+    const page = await this.prisma.page.findUnique({
+      where: { id: resourceId },
+      select: {
+        title: true,
+        slug: true,
+        content: true,
+        status: true,
+        seoTitle: true,
+        seoDescription: true,
+        seoKeywords: true,
+        updatedAt: true,
+      },
+    });
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+    return page;
+  }
+
+  /** Author of the latest post revision or page version */
+  private async getLastEditor(resource: EditResource, resourceId: string): Promise<EditUser | null> {
+    if (resource === EditResource.POST) {
+      const revision = await this.prisma.postRevision.findFirst({
+        where: { postId: resourceId },
+        orderBy: { revisionNumber: 'desc' },
+        select: { author: { select: USER_SELECT } },
+      });
+      return toEditUser(revision?.author ?? null);
+    }
+
+    const version = await this.prisma.pageVersion.findFirst({
+      where: { pageId: resourceId },
+      orderBy: { versionNumber: 'desc' },
+      select: { createdById: true },
+    });
+    if (!version) return null;
+    const user = await this.prisma.user.findUnique({ where: { id: version.createdById }, select: USER_SELECT });
+    return toEditUser(user);
+  }
+}
@@ -0,0 +1,175 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SURFACE_CONDITIONS, SurfaceCondition } from '../estimate.calculator';
+
+/** Width and height in metres; range limits are applied by the calculator */
+export class DimensionDto {
+  @IsNumber()
+  width: number;
+
+  @IsNumber()
+  height: number;
+
+  @IsOptional()
+  @IsNumber()
+  quantity?: number;
+}
+
+export class EstimateInputDto {
+  @IsArray({ message: 'Walls must be a list' })
+  @ArrayNotEmpty({ message: 'At least one wall is required' })
+  @ValidateNested({ each: true })
+  @Type(() => DimensionDto)
+  walls: DimensionDto[];
+
+  @IsOptional()
+  @IsArray({ message: 'Openings must be a list' })
+  @ValidateNested({ each: true })
+  @Type(() => DimensionDto)
+  openings?: DimensionDto[];
+
+  @IsOptional()
+  @IsIn(SURFACE_CONDITIONS)
+  surfaceCondition?: SurfaceCondition;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Coats must be a number' })
+  coats?: number;
+
+  @IsOptional()
+  @IsString()
+  productId?: string;
+}
+
+/** At least one of contactMessageId and quoteRequestId is required */
+export class SaveEstimateDto extends EstimateInputDto {
+  @IsOptional()
+  @IsString()
+  contactMessageId?: string;
+
+  @IsOptional()
+  @IsString()
+  quoteRequestId?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ListEstimatesQueryDto {
+  @IsOptional()
+  @IsInt()
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  contactMessageId?: string;
+
+  @IsOptional()
+  @IsString()
+  quoteRequestId?: string;
+}
+
+export class PaintProductDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsNumber()
+  @Min(0)
+  pricePerLitre: number;
+
+  @IsNumber()
+  @IsPositive()
+  coverageSqmPerLitre: number;
+}
+
+export class ConditionMultipliersDto {
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  good?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  fair?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  poor?: number;
+}
+
+/** Fields left out fall back to the defaults, as with a partially configured stored card */
+export class UpdateRateCardDto {
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  taxRate?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  labourRatePerHour?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  sqmPerLabourHour?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ConditionMultipliersDto)
+  conditionMultipliers?: ConditionMultipliersDto;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  materialsPerSqm?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  wastageFactor?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumCharge?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxCoats?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PaintProductDto)
+  products?: PaintProductDto[];
+}
@@ -0,0 +1,180 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DEFAULT_RATE_CARD,
+  EstimateInput,
+  calculateEstimate,
+  parseEstimateInput,
+  parseRateCard,
+} from './estimate.calculator';
+
+const input = (overrides: Partial<EstimateInput> = {}): EstimateInput => ({
+  walls: [{ width: 4, height: 2.5, quantity: 2 }],
+  openings: [{ width: 1, height: 2, quantity: 1 }],
+  surfaceCondition: 'good',
+  coats: 2,
+  productId: 'standard-emulsion',
+  ...overrides,
+});
+
+describe('parseRateCard', () => {
+  it('falls back to the defaults when nothing is stored', () => {
+    expect(parseRateCard(null)).toEqual(DEFAULT_RATE_CARD);
+    expect(parseRateCard('not a card')).toEqual(DEFAULT_RATE_CARD);
+  });
+
+  it('merges a partial card over the defaults', () => {
+    const card = parseRateCard({ currency: ' gbp ', labourRatePerHour: '30', conditionMultipliers: { poor: 2 } });
+
+    expect(card.currency).toBe('GBP');
+    expect(card.labourRatePerHour).toBe(30);
+    expect(card.conditionMultipliers).toEqual({ good: 1, fair: 1.25, poor: 2 });
+    expect(card.sqmPerLabourHour).toBe(DEFAULT_RATE_CARD.sqmPerLabourHour);
+    expect(card.products).toEqual(DEFAULT_RATE_CARD.products);
+  });
+
+  it('ignores out-of-range values', () => {
+    const card = parseRateCard({
+      taxRate: -0.2,
+      wastageFactor: 3,
+      sqmPerLabourHour: 0,
+      conditionMultipliers: { fair: 0 },
+      maxCoats: 0,
+    });
+
+    expect(card.taxRate).toBe(DEFAULT_RATE_CARD.taxRate);
+    expect(card.wastageFactor).toBe(1);
+    expect(card.sqmPerLabourHour).toBe(DEFAULT_RATE_CARD.sqmPerLabourHour);
+    expect(card.conditionMultipliers.fair).toBe(DEFAULT_RATE_CARD.conditionMultipliers.fair);
+    expect(card.maxCoats).toBe(1);
+  });
+
+  it('drops invalid products and keeps the defaults when none are left', () => {
+    const valid = { id: 'trade', name: 'Trade Matt', pricePerLitre: 12, coverageSqmPerLitre: 10 };
+
+    expect(parseRateCard({ products: [valid, { id: 'free', name: 'No coverage', pricePerLitre: 0, coverageSqmPerLitre: 0 }] }).products)
+      .toEqual([valid]);
+    expect(parseRateCard({ products: [{ id: '', name: 'Nameless' }] }).products).toEqual(DEFAULT_RATE_CARD.products);
+  });
+});
+
+describe('parseEstimateInput', () => {
+  it('applies the defaults', () => {
+    expect(parseEstimateInput({ walls: [{ width: 3, height: 2.4 }] }, DEFAULT_RATE_CARD)).toEqual({
+      walls: [{ width: 3, height: 2.4, quantity: 1 }],
+      openings: [],
+      surfaceCondition: 'good',
+      coats: 2,
+      productId: 'standard-emulsion',
+    });
+  });
+
+  it('rounds quantities and coats down to whole numbers', () => {
+    const parsed = parseEstimateInput({ walls: [{ width: 3, height: 2, quantity: 2.7 }], coats: 3.9 }, DEFAULT_RATE_CARD);
+
+    expect(parsed.walls[0].quantity).toBe(2);
+    expect(parsed.coats).toBe(3);
+  });
+
+  it.each([
+    ['no walls', { walls: [] }, 'At least one wall is required'],
+    ['a zero width', { walls: [{ width: 0, height: 2 }] }, 'Walls need a width and height between 0 and 100 metres'],
+    ['an oversized wall', { walls: [{ width: 101, height: 2 }] }, 'Walls need a width and height between 0 and 100 metres'],
+    ['a zero quantity', { walls: [{ width: 3, height: 2, quantity: 0 }] }, 'Walls quantity must be between 1 and 100'],
+    [
+      'a negative opening',
+      { walls: [{ width: 3, height: 2 }], openings: [{ width: 1, height: -1 }] },
+      'Openings need a width and height between 0 and 100 metres',
+    ],
+    ['too many walls', { walls: Array.from({ length: 51 }, () => ({ width: 1, height: 1 })) }, 'A maximum of 50 walls can be estimated'],
+    ['too many coats', { walls: [{ width: 3, height: 2 }], coats: 5 }, 'Coats must be between 1 and 4'],
+    ['an unknown product', { walls: [{ width: 3, height: 2 }], productId: 'gloss' }, 'Unknown paint product'],
+  ])('rejects %s', (_, request, message) => {
+    expect(() => parseEstimateInput(request, DEFAULT_RATE_CARD)).toThrow(new BadRequestException(message));
+  });
+
+  it('limits coats to the rate card maximum', () => {
+    const rateCard = { ...DEFAULT_RATE_CARD, maxCoats: 6 };
+
+    expect(parseEstimateInput({ walls: [{ width: 3, height: 2 }], coats: 5 }, rateCard).coats).toBe(5);
+  });
+});
+
+describe('calculateEstimate', () => {
+  it('itemises labour, paint, materials and tax', () => {
+    const result = calculateEstimate(
+      input({ walls: [{ width: 10, height: 3, quantity: 4 }], openings: [], surfaceCondition: 'poor' }),
+      DEFAULT_RATE_CARD,
+    );
+
+    expect(result).toMatchObject({
+      currency: 'AED',
+      wallAreaSqm: 120,
+      openingAreaSqm: 0,
+      paintableAreaSqm: 120,
+      // 240 sqm of coats at 12 sqm per hour, with 1.6x prep for a poor surface
+      labourHours: 32,
+      // 240 sqm at 12 sqm per litre plus 10% wastage
+      litres: 22,
+      subtotal: 2016,
+      taxRate: 0.05,
+      taxAmount: 100.8,
+      total: 2116.8,
+    });
+    expect(result.lineItems.map(({ code, amount }) => [code, amount])).toEqual([
+      ['LABOUR', 1440],
+      ['PAINT', 396],
+      ['MATERIALS', 180],
+    ]);
+    expect(result.lineItems[0].description).toBe('Labour (2 coats, poor surface)');
+  });
+
+  it('subtracts openings from the wall area', () => {
+    const result = calculateEstimate(input(), DEFAULT_RATE_CARD);
+
+    expect(result.wallAreaSqm).toBe(20);
+    expect(result.openingAreaSqm).toBe(2);
+    expect(result.paintableAreaSqm).toBe(18);
+  });
+
+  it('never lets openings exceed the wall area', () => {
+    const result = calculateEstimate(
+      input({ walls: [{ width: 1, height: 1, quantity: 1 }], openings: [{ width: 2, height: 2, quantity: 1 }] }),
+      DEFAULT_RATE_CARD,
+    );
+
+    expect(result.openingAreaSqm).toBe(1);
+    expect(result.paintableAreaSqm).toBe(0);
+  });
+
+  it('rounds labour up to quarter hours and paint up to half litres', () => {
+    const result = calculateEstimate(
+      input({ walls: [{ width: 1, height: 1, quantity: 1 }], openings: [], coats: 1 }),
+      DEFAULT_RATE_CARD,
+    );
+
+    expect(result.labourHours).toBe(0.25);
+    expect(result.litres).toBe(0.5);
+    expect(result.lineItems[0].description).toBe('Labour (1 coat, good surface)');
+  });
+
+  it('tops small jobs up to the minimum charge', () => {
+    const result = calculateEstimate(input(), DEFAULT_RATE_CARD);
+
+    // Labour 135 + paint 63 + materials 27 = 225, below the 350 minimum
+    expect(result.lineItems.find((item) => item.code === 'MINIMUM')).toMatchObject({ quantity: 1, amount: 125 });
+    expect(result.subtotal).toBe(350);
+    expect(result.taxAmount).toBe(17.5);
+    expect(result.total).toBe(367.5);
+  });
+
+  it('prices paint from the chosen product', () => {
+    const result = calculateEstimate(
+      input({ walls: [{ width: 10, height: 3, quantity: 4 }], openings: [], productId: 'exterior-masonry' }),
+      DEFAULT_RATE_CARD,
+    );
+    const paint = result.lineItems.find((item) => item.code === 'PAINT');
+
+    // 240 sqm at 8 sqm per litre plus 10% wastage = 33 litres at 28
+    expect(paint).toMatchObject({ description: 'Exterior Masonry', quantity: 33, unitPrice: 28, amount: 924 });
+  });
+});
@@ -0,0 +1,276 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type SurfaceCondition = 'good' | 'fair' | 'poor';
+
+export type PaintProduct = {
+  id: string;
+  name: string;
+  pricePerLitre: number;
+  coverageSqmPerLitre: number;
+};
+
+export type RateCard = {
+  currency: string;
+  taxRate: number; // e.g. 0.05 for 5% VAT
+  labourRatePerHour: number;
+  sqmPerLabourHour: number; // Painting speed for a single coat on a good surface
+  conditionMultipliers: Record<SurfaceCondition, number>; // Extra labour for prep work
+  materialsPerSqm: number; // Tape, sheeting, filler, sundries
+  wastageFactor: number; // Extra paint ordered on top of the theoretical amount
+  minimumCharge: number;
+  maxCoats: number;
+  products: PaintProduct[];
+};
+
+export type Dimension = {
+  width: number;
+  height: number;
+  quantity: number;
+};
+
+export type DimensionRequest = {
+  width: number;
+  height: number;
+  quantity?: number;
+};
+
+export type EstimateRequest = {
+  walls: DimensionRequest[];
+  openings?: DimensionRequest[];
+  surfaceCondition?: SurfaceCondition;
+  coats?: number;
+  productId?: string;
+};
+
+export type EstimateInput = {
+  walls: Dimension[];
+  openings: Dimension[];
+  surfaceCondition: SurfaceCondition;
+  coats: number;
+  productId: string;
+};
+
+export type EstimateLineItem = {
+  code: 'LABOUR' | 'PAINT' | 'MATERIALS' | 'MINIMUM';
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  amount: number;
+};
+
+export type EstimateResult = {
+  currency: string;
+  wallAreaSqm: number;
+  openingAreaSqm: number;
+  paintableAreaSqm: number;
+  labourHours: number;
+  litres: number;
+  lineItems: EstimateLineItem[];
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+};
+
+export const SURFACE_CONDITIONS: SurfaceCondition[] = ['good', 'fair', 'poor'];
+const MAX_DIMENSIONS = 50;
+const MAX_DIMENSION_METRES = 100;
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  currency: 'AED',
+  taxRate: 0.05,
+  labourRatePerHour: 45,
+  sqmPerLabourHour: 12,
+  conditionMultipliers: { good: 1, fair: 1.25, poor: 1.6 },
+  materialsPerSqm: 1.5,
+  wastageFactor: 0.1,
+  minimumCharge: 350,
+  maxCoats: 4,
+  products: [
+    { id: 'standard-emulsion', name: 'Standard Emulsion', pricePerLitre: 18, coverageSqmPerLitre: 12 },
+    { id: 'premium-washable', name: 'Premium Washable Matt', pricePerLitre: 32, coverageSqmPerLitre: 14 },
+    { id: 'exterior-masonry', name: 'Exterior Masonry', pricePerLitre: 28, coverageSqmPerLitre: 8 },
+  ],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const toNumber = (value: unknown, fallback: number) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return fallback;
+};
+
+const nonNegative = (value: unknown, fallback: number) => {
+  const parsed = toNumber(value, fallback);
+  return parsed >= 0 ? parsed : fallback;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+const roundUpTo = (value: number, step: number) => Math.ceil(value / step - 1e-9) * step;
+
+const parseProduct = (value: unknown): PaintProduct | null => {
+  if (!isRecord(value)) return null;
+  const id = typeof value.id === 'string' ? value.id.trim() : '';
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  const pricePerLitre = toNumber(value.pricePerLitre, NaN);
+  const coverageSqmPerLitre = toNumber(value.coverageSqmPerLitre, NaN);
+  if (!id || !name || !(pricePerLitre >= 0) || !(coverageSqmPerLitre > 0)) return null;
+  return { id, name, pricePerLitre, coverageSqmPerLitre };
+};
+
+/**
+ * Merges a stored rate card over the defaults so a partially configured
+ * card still produces a usable estimate.
+ */
+export function parseRateCard(value: unknown): RateCard {
+  if (!isRecord(value)) return DEFAULT_RATE_CARD;
+
+  const multipliers = isRecord(value.conditionMultipliers) ? value.conditionMultipliers : {};
+  const products = Array.isArray(value.products)
+    ? value.products.map(parseProduct).filter((product): product is PaintProduct => !!product)
+    : [];
+  const sqmPerLabourHour = toNumber(value.sqmPerLabourHour, DEFAULT_RATE_CARD.sqmPerLabourHour);
+
+  return {
+    currency: typeof value.currency === 'string' && value.currency.trim()
+      ? value.currency.trim().toUpperCase()
+      : DEFAULT_RATE_CARD.currency,
+    taxRate: Math.min(1, nonNegative(value.taxRate, DEFAULT_RATE_CARD.taxRate)),
+    labourRatePerHour: nonNegative(value.labourRatePerHour, DEFAULT_RATE_CARD.labourRatePerHour),
+    sqmPerLabourHour: sqmPerLabourHour > 0 ? sqmPerLabourHour : DEFAULT_RATE_CARD.sqmPerLabourHour,
+    conditionMultipliers: SURFACE_CONDITIONS.reduce((acc, condition) => {
+      const multiplier = toNumber(multipliers[condition], DEFAULT_RATE_CARD.conditionMultipliers[condition]);
+      acc[condition] = multiplier > 0 ? multiplier : DEFAULT_RATE_CARD.conditionMultipliers[condition];
+      return acc;
+    }, {} as Record<SurfaceCondition, number>),
+    materialsPerSqm: nonNegative(value.materialsPerSqm, DEFAULT_RATE_CARD.materialsPerSqm),
+    wastageFactor: Math.min(1, nonNegative(value.wastageFactor, DEFAULT_RATE_CARD.wastageFactor)),
+    minimumCharge: nonNegative(value.minimumCharge, DEFAULT_RATE_CARD.minimumCharge),
+    maxCoats: Math.max(1, Math.floor(toNumber(value.maxCoats, DEFAULT_RATE_CARD.maxCoats))),
+    products: products.length > 0 ? products : DEFAULT_RATE_CARD.products,
+  };
+}
+
+const parseDimensions = (value: DimensionRequest[] | undefined, label: string): Dimension[] => {
+  if (!value) return [];
+  if (value.length > MAX_DIMENSIONS) {
+    throw new BadRequestException(`A maximum of ${MAX_DIMENSIONS} ${label.toLowerCase()} can be estimated`);
+  }
+  return value.map((item) => {
+    const { width, height } = item;
+    const quantity = Math.floor(item.quantity ?? 1);
+    if (!(width > 0) || !(height > 0) || width > MAX_DIMENSION_METRES || height > MAX_DIMENSION_METRES) {
+      throw new BadRequestException(`${label} need a width and height between 0 and ${MAX_DIMENSION_METRES} metres`);
+    }
+    if (quantity < 1 || quantity > 100) {
+      throw new BadRequestException(`${label} quantity must be between 1 and 100`);
+    }
+    return { width, height, quantity };
+  });
+};
+
+/**
+ * Applies defaults and the limits that depend on the rate card to a request
+ * whose shape has already been validated.
+ */
+export function parseEstimateInput(request: EstimateRequest, rateCard: RateCard): EstimateInput {
+  const walls = parseDimensions(request.walls, 'Walls');
+  if (walls.length === 0) {
+    throw new BadRequestException('At least one wall is required');
+  }
+  const openings = parseDimensions(request.openings, 'Openings');
+
+  const surfaceCondition = request.surfaceCondition ?? 'good';
+
+  const coats = Math.floor(request.coats ?? 2);
+  if (coats < 1 || coats > rateCard.maxCoats) {
+    throw new BadRequestException(`Coats must be between 1 and ${rateCard.maxCoats}`);
+  }
+
+  const productId = request.productId || rateCard.products[0].id;
+  if (!rateCard.products.some((product) => product.id === productId)) {
+    throw new BadRequestException('Unknown paint product');
+  }
+
+  return { walls, openings, surfaceCondition, coats, productId };
+}
+
+const sumArea = (items: Dimension[]) => items.reduce((sum, item) => sum + item.width * item.height * item.quantity, 0);
+
+export function calculateEstimate(input: EstimateInput, rateCard: RateCard): EstimateResult {
+  const product = rateCard.products.find((item) => item.id === input.productId) || rateCard.products[0];
+
+  const wallAreaSqm = roundMoney(sumArea(input.walls));
+  const openingAreaSqm = roundMoney(Math.min(sumArea(input.openings), wallAreaSqm));
+  const paintableAreaSqm = roundMoney(wallAreaSqm - openingAreaSqm);
+  const coatAreaSqm = paintableAreaSqm * input.coats;
+
+  const multiplier = rateCard.conditionMultipliers[input.surfaceCondition];
+  const labourHours = roundUpTo((coatAreaSqm / rateCard.sqmPerLabourHour) * multiplier, 0.25);
+  // Paint is sold by the half litre at minimum
+  const litres = roundUpTo((coatAreaSqm / product.coverageSqmPerLitre) * (1 + rateCard.wastageFactor), 0.5);
+
+  const lineItems: EstimateLineItem[] = [
+    {
+      code: 'LABOUR',
+      description: `Labour (${input.coats} coat${input.coats === 1 ? '' : 's'}, ${input.surfaceCondition} surface)`,
+      quantity: labourHours,
+      unit: 'hours',
+      unitPrice: rateCard.labourRatePerHour,
+      amount: roundMoney(labourHours * rateCard.labourRatePerHour),
+    },
+    {
+      code: 'PAINT',
+      description: product.name,
+      quantity: litres,
+      unit: 'litres',
+      unitPrice: product.pricePerLitre,
+      amount: roundMoney(litres * product.pricePerLitre),
+    },
+    {
+      code: 'MATERIALS',
+      description: 'Preparation materials and sundries',
+      quantity: paintableAreaSqm,
+      unit: 'sqm',
+      unitPrice: rateCard.materialsPerSqm,
+      amount: roundMoney(paintableAreaSqm * rateCard.materialsPerSqm),
+    },
+  ];
+
+  let subtotal = roundMoney(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  if (subtotal < rateCard.minimumCharge) {
+    const adjustment = roundMoney(rateCard.minimumCharge - subtotal);
+    lineItems.push({
+      code: 'MINIMUM',
+      description: 'Minimum job charge adjustment',
+      quantity: 1,
+      unit: 'job',
+      unitPrice: adjustment,
+      amount: adjustment,
+    });
+    subtotal = roundMoney(rateCard.minimumCharge);
+  }
+
+  const taxAmount = roundMoney(subtotal * rateCard.taxRate);
+
+  return {
+    currency: rateCard.currency,
+    wallAreaSqm,
+    openingAreaSqm,
+    paintableAreaSqm,
+    labourHours,
+    litres,
+    lineItems,
+    subtotal,
+    taxRate: rateCard.taxRate,
+    taxAmount,
+    total: roundMoney(subtotal + taxAmount),
+  };
+}
@@ -0,0 +1,90 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { EstimateService } from './estimate.service';
+import { Public } from '../auth/public.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import {
+  EstimateInputDto,
+  ListEstimatesQueryDto,
+  SaveEstimateDto,
+  UpdateRateCardDto,
+} from './dto/estimate.dto';
+
+@Controller('estimates')
+export class EstimateController {
+  constructor(private readonly estimateService: EstimateService) {}
+
+  @Public()
+  @Get('options')
+  getOptions() {
+    return this.estimateService.getPublicOptions();
+  }
+
+  @Public()
+  @Post('instant')
+  instantEstimate(@Body() dto: EstimateInputDto) {
+    return this.estimateService.instantEstimate(dto);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get('rate-card')
+  getRateCard() {
+    return this.estimateService.getRateCard();
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Put('rate-card')
+  updateRateCard(@Body() dto: UpdateRateCardDto) {
+    return this.estimateService.updateRateCard(dto);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Post('calculate')
+  calculate(@Body() dto: EstimateInputDto) {
+    return this.estimateService.calculate(dto);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get()
+  listEstimates(@Query() query: ListEstimatesQueryDto) {
+    return this.estimateService.listEstimates(query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Post()
+  saveEstimate(@Body() dto: SaveEstimateDto, @Request() req: AuthenticatedRequest) {
+    return this.estimateService.saveEstimate(dto, req.user?.id || req.user?.userId);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get(':id')
+  getEstimate(@Param('id') id: string) {
+    return this.estimateService.getEstimate(id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Delete(':id')
+  deleteEstimate(@Param('id') id: string) {
+    return this.estimateService.deleteEstimate(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { EstimateService } from './estimate.service';
+import { EstimateController } from './estimate.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SettingsModule } from '../settings/settings.module';
+
+@Module({
+  imports: [PrismaModule, SettingsModule],
+  controllers: [EstimateController],
+  providers: [EstimateService],
+  exports: [EstimateService],
+})
+export class EstimateModule {}
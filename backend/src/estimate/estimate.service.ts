@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import {
+  EstimateRequest,
+  RateCard,
+  calculateEstimate,
+  parseEstimateInput,
+  parseRateCard,
+} from './estimate.calculator';
+import { ListEstimatesQueryDto, SaveEstimateDto, UpdateRateCardDto } from './dto/estimate.dto';
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Estimate Service
+ * Prices painting jobs from the admin-editable rate card stored on SiteSettings
+ * and keeps saved estimates against the enquiry they were produced for.
+ */
+@Injectable()
+export class EstimateService {
+  private readonly logger = new Logger(EstimateService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private settingsService: SettingsService,
+  ) {}
+
+  async getRateCard(): Promise<RateCard> {
+    const settings = await this.settingsService.getSettings();
+    return parseRateCard(settings.estimateRateCard);
+  }
+
+  async updateRateCard(dto: UpdateRateCardDto) {
+    const rateCard = parseRateCard(dto);
+    await this.settingsService.updateSettings({
+      estimateRateCard: rateCard,
+    });
+    this.logger.log('Estimate rate card updated');
+    return rateCard;
+  }
+
+  /**
+   * Product and condition options for the public calculator. Internal rates stay private.
+   */
+  async getPublicOptions() {
+    const rateCard = await this.getRateCard();
+    return {
+      currency: rateCard.currency,
+      maxCoats: rateCard.maxCoats,
+      conditions: Object.keys(rateCard.conditionMultipliers),
+      products: rateCard.products.map((product) => ({ id: product.id, name: product.name })),
+    };
+  }
+
+  async calculate(request: EstimateRequest) {
+    const rateCard = await this.getRateCard();
+    const input = parseEstimateInput(request, rateCard);
+    return { input, result: calculateEstimate(input, rateCard) };
+  }
+
+  async instantEstimate(request: EstimateRequest) {
+    const { result } = await this.calculate(request);
+    return result;
+  }
+
+  async saveEstimate(dto: SaveEstimateDto, userId?: string) {
+    const contactMessageId = dto.contactMessageId || null;
+    const quoteRequestId = dto.quoteRequestId || null;
+    if (!contactMessageId && !quoteRequestId) {
+      throw new BadRequestException('An estimate must be saved against a contact message or quote request');
+    }
+
+    let customerName: string | null = null;
+    let customerEmail: string | null = null;
+    if (contactMessageId) {
+      const message = await this.prisma.contactMessage.findUnique({
+        where: { id: contactMessageId },
+        select: { name: true, email: true },
+      });
+      if (!message) throw new NotFoundException('Contact message not found');
+      customerName = message.name;
+      customerEmail = message.email;
+    }
+    if (quoteRequestId) {
+      const quote = await this.prisma.quoteRequest.findUnique({
+        where: { id: quoteRequestId },
+        select: { name: true, email: true },
+      });
+      if (!quote) throw new NotFoundException('Quote request not found');
+      customerName = customerName || quote.name;
+      customerEmail = customerEmail || quote.email;
+    }
+
+    const { input, result } = await this.calculate(dto);
+    const notes = dto.notes ? SanitizationUtil.sanitizeText(dto.notes).slice(0, 5000) : '';
+
+    return this.prisma.estimate.create({
+      data: {
+        contactMessageId,
+        quoteRequestId,
+        customerName,
+        customerEmail,
+        input,
+        lineItems: result.lineItems,
+        currency: result.currency,
+        subtotal: result.subtotal,
+        taxAmount: result.taxAmount,
+        total: result.total,
+        notes: notes || null,
+        createdById: userId || null,
+      },
+    });
+  }
+
+  async listEstimates(query: ListEstimatesQueryDto) {
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? 20));
+
+    const where: Prisma.EstimateWhereInput = {};
+    if (query.contactMessageId) {
+      where.contactMessageId = query.contactMessageId;
+    }
+    if (query.quoteRequestId) {
+      where.quoteRequestId = query.quoteRequestId;
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.estimate.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          createdBy: { select: { id: true, username: true, displayName: true } },
+        },
+      }),
+      this.prisma.estimate.count({ where }),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getEstimate(id: string) {
+    const estimate = await this.prisma.estimate.findUnique({
+      where: { id },
+      include: {
+        contactMessage: true,
+        quoteRequest: { select: { id: true, name: true, email: true, serviceType: true, status: true } },
+        createdBy: { select: { id: true, username: true, displayName: true } },
+      },
+    });
+    if (!estimate) {
+      throw new NotFoundException('Estimate not found');
+    }
+    return estimate;
+  }
+
+  async deleteEstimate(id: string) {
+    const existing = await this.prisma.estimate.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      throw new NotFoundException('Estimate not found');
+    }
+    await this.prisma.estimate.delete({ where: { id } });
+    return { success: true };
+  }
+}
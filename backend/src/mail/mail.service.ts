@@ -103,12 +103,14 @@ export class MailService {
       actionUrl?: string;
       category?: string;
       priority?: string;
+      attachments?: Array<{ filename: string; content: Buffer | string; contentType?: string }>;
     },
     name?: string,
   ) {
     if (!this.isConfigured || !this.transporter || !this.fromAddress) {
       if (process.env.NODE_ENV !== 'production') {
-        this.logger.log(`[DEV] Notification email to ${email}: ${payload.title}`);
+        const files = (payload.attachments || []).map((attachment) => attachment.filename).join(', ');
+        this.logger.log(`[DEV] Notification email to ${email}: ${payload.title}${files ? ` (${files})` : ''}`);
         return;
       }
       this.logger.error('Email service is not configured');
@@ -126,6 +128,7 @@ export class MailService {
       to: email,
       subject: `${siteName} Notification: ${payload.title}`,
       text: `${greeting}\n\n${payload.message}${actionLine}\n\nCategory: ${payload.category || 'ALERT'}\nPriority: ${payload.priority || 'NORMAL'}\n\nThanks,\n${siteName} Team`,
+      attachments: payload.attachments,
     });
   }
 
@@ -189,4 +192,167 @@ ${siteName} Team`;
       text: message,
     });
   }
+
+  async sendBookingEmail(
+    email: string,
+    payload: {
+      kind: 'REQUEST' | 'CONFIRMATION' | 'REMINDER';
+      title: string;
+      when: string;
+      address?: string | null;
+      /** Link that confirms a REQUEST */
+      confirmUrl?: string;
+    },
+    name?: string | null,
+  ) {
+    if (!this.isConfigured || !this.transporter || !this.fromAddress) {
+      if (process.env.NODE_ENV !== 'production') {
+        this.logger.log(`[DEV] Booking ${payload.kind.toLowerCase()} email to ${email}: ${payload.title} (${payload.when})${payload.confirmUrl ? ` ${payload.confirmUrl}` : ''}`);
+        return;
+      }
+      this.logger.error('Email service is not configured');
+      throw new ServiceUnavailableException('Email service is not configured');
+    }
+
+    const siteName = process.env.SITE_NAME || 'Wall Painting Services';
+    const greeting = name ? `Hi ${name},` : 'Hello,';
+    const intro = {
+      REQUEST: 'Please confirm your appointment using the link below. We hold the time for you until then.',
+      CONFIRMATION: 'Your appointment is confirmed.',
+      REMINDER: 'This is a reminder of your upcoming appointment with us.',
+    }[payload.kind];
+    const subject = {
+      REQUEST: `${siteName}: please confirm your ${payload.title.toLowerCase()}`,
+      CONFIRMATION: `${siteName}: ${payload.title} confirmed`,
+      REMINDER: `Reminder: ${payload.title} on ${payload.when}`,
+    }[payload.kind];
+    const addressLine = payload.address ? `\nAddress: ${payload.address}` : '';
+    const confirmLine = payload.confirmUrl ? `\n\nConfirm your appointment: ${payload.confirmUrl}` : '';
+
+    await this.transporter.sendMail({
+      from: this.fromAddress,
+      to: email,
+      subject,
+      text: `${greeting}\n\n${intro}\n\n${payload.title}\nWhen: ${payload.when}${addressLine}${confirmLine}\n\nIf you need to reschedule, just reply to this email.\n\nThanks,\n${siteName} Team`,
+    });
+  }
+
+  async sendEnquiryReplyEmail(
+    email: string,
+    payload: {
+      subject: string;
+      message: string;
+    },
+    name?: string | null,
+  ) {
+    if (!this.isConfigured || !this.transporter || !this.fromAddress) {
+      if (process.env.NODE_ENV !== 'production') {
+        this.logger.log(`[DEV] Enquiry reply email to ${email}: ${payload.subject}`);
+        return;
+      }
+      this.logger.error('Email service is not configured');
+      throw new ServiceUnavailableException('Email service is not configured');
+    }
+
+    const siteName = process.env.SITE_NAME || 'Wall Painting Services';
+    const greeting = name ? `Hi ${name},` : 'Hello,';
+    const accountUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/account`;
+
+    await this.transporter.sendMail({
+      from: this.fromAddress,
+      to: email,
+      subject: `${siteName}: ${payload.subject}`,
+      text: `${greeting}\n\n${payload.message}\n\nYou can see the full conversation, documents and photos in your account: ${accountUrl}\n\nThanks,\n${siteName} Team`,
+    });
+  }
+
+  async sendCommentSubscriptionConfirmation(
+    email: string,
+    payload: {
+      postTitle: string;
+      scope: 'post' | 'thread';
+      confirmUrl: string;
+    },
+  ) {
+    if (!this.isConfigured || !this.transporter || !this.fromAddress) {
+      if (process.env.NODE_ENV !== 'production') {
+        this.logger.log(`[DEV] Comment subscription confirmation for ${email}: ${payload.confirmUrl}`);
+        return;
+      }
+      this.logger.error('Email service is not configured');
+      throw new ServiceUnavailableException('Email service is not configured');
+    }
+
+    const siteName = process.env.SITE_NAME || 'Wall Painting Services';
+    const what = payload.scope === 'thread' ? 'replies to a comment thread' : 'new comments';
+
+    await this.transporter.sendMail({
+      from: this.fromAddress,
+      to: email,
+      subject: `${siteName}: Confirm your comment subscription`,
+      text: `Hello,\n\nPlease confirm that you want to be emailed about ${what} on "${payload.postTitle}":\n${payload.confirmUrl}\n\nIf you did not ask for this, ignore this email and you will not hear from us.\n\nThanks,\n${siteName} Team`,
+    });
+  }
+
+  /** Reply notifications and digests; the unsubscribe URL supports RFC 8058 one-click */
+  async sendCommentNotificationEmail(
+    email: string,
+    payload: {
+      subject: string;
+      text: string;
+      unsubscribeUrl: string;
+      oneClickUnsubscribeUrl: string;
+    },
+  ) {
+    if (!this.isConfigured || !this.transporter || !this.fromAddress) {
+      if (process.env.NODE_ENV !== 'production') {
+        this.logger.log(`[DEV] Comment notification email to ${email}: ${payload.subject}`);
+        return;
+      }
+      this.logger.error('Email service is not configured');
+      throw new ServiceUnavailableException('Email service is not configured');
+    }
+
+    const siteName = process.env.SITE_NAME || 'Wall Painting Services';
+
+    await this.transporter.sendMail({
+      from: this.fromAddress,
+      to: email,
+      subject: `${siteName}: ${payload.subject}`,
+      text: `${payload.text}\n\nUnsubscribe: ${payload.unsubscribeUrl}\n\nThanks,\n${siteName} Team`,
+      headers: {
+        'List-Unsubscribe': `<${payload.oneClickUnsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+  }
+
+  async sendDocumentEmail(
+    email: string,
+    payload: {
+      subject: string;
+      text: string;
+      html?: string;
+      attachments?: Array<{ filename: string; content: Buffer | string; contentType?: string }>;
+    },
+  ) {
+    if (!this.isConfigured || !this.transporter || !this.fromAddress) {
+      if (process.env.NODE_ENV !== 'production') {
+        const files = (payload.attachments || []).map((attachment) => attachment.filename).join(', ');
+        this.logger.log(`[DEV] Document email to ${email}: ${payload.subject}${files ? ` (${files})` : ''}`);
+        return;
+      }
+      this.logger.error('Email service is not configured');
+      throw new ServiceUnavailableException('Email service is not configured');
+    }
+
+    await this.transporter.sendMail({
+      from: this.fromAddress,
+      to: email,
+      subject: payload.subject,
+      text: payload.text,
+      html: payload.html,
+      attachments: payload.attachments,
+    });
+  }
 }
@@ -0,0 +1,166 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsBooleanString,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import {
+  NotificationAudience,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPriority,
+  NotificationStatus,
+  NotificationType,
+  Role,
+} from '@prisma/client';
+
+const isPresent = (_: unknown, value: unknown) => value !== null && value !== undefined;
+
+class NotificationFieldsDto {
+  @IsOptional()
+  @IsEnum(NotificationCategory)
+  category?: NotificationCategory;
+
+  @IsOptional()
+  @IsEnum(NotificationType)
+  type?: NotificationType;
+
+  @IsOptional()
+  @IsEnum(NotificationPriority)
+  priority?: NotificationPriority;
+
+  @IsOptional()
+  @IsEnum(NotificationStatus)
+  status?: NotificationStatus;
+
+  @IsOptional()
+  @IsEnum(NotificationAudience)
+  audience?: NotificationAudience;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationChannel, { each: true })
+  channels?: NotificationChannel[];
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Role, { each: true })
+  targetRoles?: Role[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  targetUserIds?: string[];
+
+  // null clears the action button
+  @ValidateIf(isPresent)
+  @IsString()
+  @MaxLength(100)
+  actionLabel?: string | null;
+
+  @ValidateIf(isPresent)
+  @IsString()
+  @MaxLength(500)
+  actionUrl?: string | null;
+
+  @ValidateIf(isPresent)
+  @IsDateString()
+  sendAt?: string | null;
+
+  @ValidateIf(isPresent)
+  @IsDateString()
+  expiresAt?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  isSticky?: boolean;
+}
+
+export class CreateNotificationDto extends NotificationFieldsDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Title is required' })
+  @MaxLength(200)
+  title: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'Message is required' })
+  @MaxLength(5000)
+  message: string;
+}
+
+/** Fields left out keep their current value */
+export class UpdateNotificationDto extends NotificationFieldsDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  message?: string;
+}
+
+export class AdminNotificationsQueryDto {
+  @IsOptional()
+  @IsInt()
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsEnum(NotificationStatus)
+  status?: NotificationStatus;
+
+  @IsOptional()
+  @IsEnum(NotificationCategory)
+  category?: NotificationCategory;
+
+  @IsOptional()
+  @IsEnum(NotificationType)
+  type?: NotificationType;
+
+  @IsOptional()
+  @IsEnum(NotificationPriority)
+  priority?: NotificationPriority;
+
+  @IsOptional()
+  @IsEnum(NotificationAudience)
+  audience?: NotificationAudience;
+
+  @IsOptional()
+  @IsEnum(NotificationChannel)
+  channel?: NotificationChannel;
+}
+
+export class UserNotificationsQueryDto {
+  @IsOptional()
+  @IsInt()
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  // Kept as 'true' / 'false' strings: implicit conversion would turn 'false' into true
+  @IsOptional()
+  @IsBooleanString()
+  unreadOnly?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  includeDismissed?: string;
+}
@@ -15,6 +15,12 @@ import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
 import { AuthenticatedRequest } from '../common/types';
+import {
+  AdminNotificationsQueryDto,
+  CreateNotificationDto,
+  UpdateNotificationDto,
+  UserNotificationsQueryDto,
+} from './dto/notification.dto';
 
 @Controller('notifications')
 export class NotificationsController {
@@ -24,7 +30,7 @@ export class NotificationsController {
   @Get()
   async getUserNotifications(
     @Request() req: AuthenticatedRequest,
-    @Query() query: Record<string, unknown>,
+    @Query() query: UserNotificationsQueryDto,
   ) {
     return this.notificationsService.getUserNotifications(req.user?.id || '', req.user?.role || '', query);
   }
@@ -56,7 +62,7 @@ export class NotificationsController {
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
   @Get('admin')
-  async getAdminNotifications(@Query() query: Record<string, unknown>) {
+  async getAdminNotifications(@Query() query: AdminNotificationsQueryDto) {
     return this.notificationsService.getAdminNotifications(query);
   }
 
@@ -71,7 +77,7 @@ export class NotificationsController {
   @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
   @Post('admin')
   async createNotification(
-    @Body() body: unknown,
+    @Body() body: CreateNotificationDto,
     @Request() req: AuthenticatedRequest,
   ) {
     return this.notificationsService.createNotification(body, req.user?.id || '');
@@ -82,7 +88,7 @@ export class NotificationsController {
   @Patch('admin/:id')
   async updateNotification(
     @Param('id') id: string,
-    @Body() body: unknown,
+    @Body() body: UpdateNotificationDto,
   ) {
     return this.notificationsService.updateNotification(id, body);
   }
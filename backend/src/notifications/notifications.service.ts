@@ -15,22 +15,15 @@ import {
   Role,
 } from '@prisma/client';
 import { MailService } from '../mail/mail.service';
+import {
+  AdminNotificationsQueryDto,
+  CreateNotificationDto,
+  UpdateNotificationDto,
+  UserNotificationsQueryDto,
+} from './dto/notification.dto';
 
 const MAX_PAGE_SIZE = 100;
 
-const toNumber = (value: unknown, fallback: number) => {
-  if (typeof value === 'number' && Number.isFinite(value)) return value;
-  if (typeof value === 'string' && value.trim()) {
-    const parsed = Number(value);
-    if (Number.isFinite(parsed)) return parsed;
-  }
-  return fallback;
-};
-
-const isRecord = (value: unknown): value is Record<string, unknown> => (
-  value !== null && typeof value === 'object' && !Array.isArray(value)
-);
-
 @Injectable()
 export class NotificationsService {
   constructor(
@@ -45,43 +38,11 @@ export class NotificationsService {
     return date;
   }
 
-  private normalizeStringArray(value: unknown): string[] {
-    if (Array.isArray(value)) {
-      return value
-        .filter((item) => typeof item === 'string')
-        .map((item) => item.trim())
-        .filter(Boolean);
-    }
-    if (typeof value === 'string') {
-      return value
-        .split(',')
-        .map((item) => item.trim())
-        .filter(Boolean);
-    }
-    return [];
-  }
-
-  private parseRoles(value: unknown): Role[] {
-    const roles = this.normalizeStringArray(value) as Role[];
-    const roleValues = new Set(Object.values(Role));
-    return roles.filter((role) => roleValues.has(role));
+  private normalizeStringArray(value: string[] | undefined): string[] {
+    return (value ?? []).map((item) => item.trim()).filter(Boolean);
   }
 
-  private parseChannels(value: unknown): NotificationChannel[] {
-    const channels = this.normalizeStringArray(value) as NotificationChannel[];
-    const channelValues = new Set(Object.values(NotificationChannel));
-    return channels.filter((channel) => channelValues.has(channel));
-  }
-
-  private parseEnum<T extends string>(value: unknown, enumValues: T[]): T | null {
-    if (typeof value === 'string' && enumValues.includes(value as T)) {
-      return value as T;
-    }
-    return null;
-  }
-
-  private normalizeBoolean(value: unknown, fallback = false): boolean {
-    if (typeof value === 'boolean') return value;
+  private normalizeBoolean(value: string | undefined, fallback = false): boolean {
     if (typeof value === 'string') {
       if (value.toLowerCase() === 'true') return true;
       if (value.toLowerCase() === 'false') return false;
@@ -248,20 +209,15 @@ export class NotificationsService {
     return { total, draft, scheduled, sent, archived };
   }
 
-  async getAdminNotifications(query: Record<string, unknown>) {
+  async getAdminNotifications(query: AdminNotificationsQueryDto) {
     await this.syncScheduledNotifications();
-    const page = Math.max(1, toNumber(query.page, 1));
-    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, toNumber(query.limit, 20)));
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? 20));
     const skip = (page - 1) * limit;
 
     const where: Record<string, unknown> = {};
-    const search = typeof query.search === 'string' ? query.search.trim() : '';
-    const status = this.parseEnum(query.status, Object.values(NotificationStatus));
-    const category = this.parseEnum(query.category, Object.values(NotificationCategory));
-    const type = this.parseEnum(query.type, Object.values(NotificationType));
-    const priority = this.parseEnum(query.priority, Object.values(NotificationPriority));
-    const audience = this.parseEnum(query.audience, Object.values(NotificationAudience));
-    const channel = this.parseEnum(query.channel, Object.values(NotificationChannel));
+    const search = query.search?.trim() ?? '';
+    const { status, category, type, priority, audience, channel } = query;
 
     if (status) where.status = status;
     if (category) where.category = category;
@@ -342,27 +298,17 @@ export class NotificationsService {
     };
   }
 
-  async createNotification(payload: unknown, createdById: string) {
-    if (!isRecord(payload)) {
-      throw new BadRequestException('Invalid notification payload');
-    }
-
-    const title = typeof payload.title === 'string' ? payload.title.trim() : '';
-    const message = typeof payload.message === 'string' ? payload.message.trim() : '';
+  async createNotification(payload: CreateNotificationDto, createdById: string) {
+    const title = payload.title.trim();
+    const message = payload.message.trim();
     if (!title) throw new BadRequestException('Title is required');
     if (!message) throw new BadRequestException('Message is required');
 
-    const type =
-      this.parseEnum(payload.type, Object.values(NotificationType)) ||
-      NotificationType.INFO;
-    const priority =
-      this.parseEnum(payload.priority, Object.values(NotificationPriority)) ||
-      NotificationPriority.NORMAL;
-    const audience =
-      this.parseEnum(payload.audience, Object.values(NotificationAudience)) ||
-      NotificationAudience.ALL;
-
-    const targetRoles = this.parseRoles(payload.targetRoles);
+    const type = payload.type || NotificationType.INFO;
+    const priority = payload.priority || NotificationPriority.NORMAL;
+    const audience = payload.audience || NotificationAudience.ALL;
+
+    const targetRoles = payload.targetRoles ?? [];
     const targetUserIds = this.normalizeStringArray(payload.targetUserIds);
     this.ensureAudienceTargets(audience, targetRoles, targetUserIds);
 
@@ -373,9 +319,7 @@ export class NotificationsService {
       throw new BadRequestException('Expires at must be after send time');
     }
 
-    let status =
-      this.parseEnum(payload.status, Object.values(NotificationStatus)) ||
-      NotificationStatus.DRAFT;
+    let status = payload.status || NotificationStatus.DRAFT;
 
     const now = new Date();
     if (sendAt && status === NotificationStatus.DRAFT) {
@@ -392,19 +336,17 @@ export class NotificationsService {
       data: {
         title,
         message,
-        category: this.parseEnum(payload.category, Object.values(NotificationCategory)) || NotificationCategory.ALERT,
+        category: payload.category || NotificationCategory.ALERT,
         type,
         priority,
         status,
         audience,
-        channels: this.parseChannels(payload.channels).length > 0
-          ? this.parseChannels(payload.channels)
-          : [NotificationChannel.IN_APP],
+        channels: payload.channels?.length ? payload.channels : [NotificationChannel.IN_APP],
         targetRoles,
         targetUserIds,
-        actionLabel: typeof payload.actionLabel === 'string' ? payload.actionLabel.trim() : undefined,
-        actionUrl: typeof payload.actionUrl === 'string' ? payload.actionUrl.trim() : undefined,
-        isSticky: this.normalizeBoolean(payload.isSticky),
+        actionLabel: payload.actionLabel?.trim(),
+        actionUrl: payload.actionUrl?.trim(),
+        isSticky: payload.isSticky ?? false,
         sendAt,
         expiresAt,
         createdById,
@@ -418,36 +360,26 @@ export class NotificationsService {
     return notification;
   }
 
-  async updateNotification(id: string, payload: unknown) {
-    if (!isRecord(payload)) {
-      throw new BadRequestException('Invalid notification payload');
-    }
-
+  async updateNotification(id: string, payload: UpdateNotificationDto) {
     const existing = await this.prisma.notification.findUnique({ where: { id } });
     if (!existing) throw new NotFoundException('Notification not found');
 
     const title = Object.prototype.hasOwnProperty.call(payload, 'title')
-      ? typeof payload.title === 'string' ? payload.title.trim() : ''
+      ? payload.title?.trim() ?? ''
       : existing.title;
     const message = Object.prototype.hasOwnProperty.call(payload, 'message')
-      ? typeof payload.message === 'string' ? payload.message.trim() : ''
+      ? payload.message?.trim() ?? ''
       : existing.message;
 
     if (!title) throw new BadRequestException('Title is required');
     if (!message) throw new BadRequestException('Message is required');
 
-    const type =
-      this.parseEnum(payload.type, Object.values(NotificationType)) ||
-      existing.type;
-    const priority =
-      this.parseEnum(payload.priority, Object.values(NotificationPriority)) ||
-      existing.priority;
-    const audience =
-      this.parseEnum(payload.audience, Object.values(NotificationAudience)) ||
-      existing.audience;
+    const type = payload.type || existing.type;
+    const priority = payload.priority || existing.priority;
+    const audience = payload.audience || existing.audience;
 
     const targetRoles = Object.prototype.hasOwnProperty.call(payload, 'targetRoles')
-      ? this.parseRoles(payload.targetRoles)
+      ? payload.targetRoles ?? []
       : existing.targetRoles;
     const targetUserIds = Object.prototype.hasOwnProperty.call(payload, 'targetUserIds')
       ? this.normalizeStringArray(payload.targetUserIds)
@@ -466,9 +398,7 @@ export class NotificationsService {
       throw new BadRequestException('Expires at must be after send time');
     }
 
-    let status =
-      this.parseEnum(payload.status, Object.values(NotificationStatus)) ||
-      existing.status;
+    let status = payload.status || existing.status;
 
     const now = new Date();
     if (sendAt && status === NotificationStatus.DRAFT) {
@@ -487,25 +417,25 @@ export class NotificationsService {
         title,
         message,
         category: Object.prototype.hasOwnProperty.call(payload, 'category')
-          ? this.parseEnum(payload.category, Object.values(NotificationCategory)) || existing.category
+          ? payload.category || existing.category
           : existing.category,
         type,
         priority,
         status,
         audience,
         channels: Object.prototype.hasOwnProperty.call(payload, 'channels')
-          ? (this.parseChannels(payload.channels).length > 0 ? this.parseChannels(payload.channels) : existing.channels)
+          ? (payload.channels?.length ? payload.channels : existing.channels)
           : existing.channels,
         targetRoles,
         targetUserIds,
         actionLabel: Object.prototype.hasOwnProperty.call(payload, 'actionLabel')
-          ? (typeof payload.actionLabel === 'string' ? payload.actionLabel.trim() : null)
+          ? payload.actionLabel?.trim() ?? null
           : existing.actionLabel,
         actionUrl: Object.prototype.hasOwnProperty.call(payload, 'actionUrl')
-          ? (typeof payload.actionUrl === 'string' ? payload.actionUrl.trim() : null)
+          ? payload.actionUrl?.trim() ?? null
           : existing.actionUrl,
         isSticky: Object.prototype.hasOwnProperty.call(payload, 'isSticky')
-          ? this.normalizeBoolean(payload.isSticky)
+          ? payload.isSticky ?? false
           : existing.isSticky,
         sendAt,
         expiresAt,
@@ -587,10 +517,10 @@ export class NotificationsService {
     return false;
   }
 
-  async getUserNotifications(userId: string, role: string, query: Record<string, unknown>) {
+  async getUserNotifications(userId: string, role: string, query: UserNotificationsQueryDto) {
     await this.syncScheduledNotifications();
-    const page = Math.max(1, toNumber(query.page, 1));
-    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, toNumber(query.limit, 10)));
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? 10));
     const skip = (page - 1) * limit;
 
     const notificationConfig = await this.getNotificationConfig();
@@ -270,6 +270,11 @@ export class UpdatePageDto {
   @IsOptional()
   @IsBoolean()
   enableSharing?: boolean;
+
+  // updatedAt the editor loaded; a save against a newer page is rejected with 409
+  @IsOptional()
+  @IsDateString()
+  baseVersion?: string;
 }
 
 export class CreateComponentDto {
@@ -19,13 +19,17 @@ import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
 import { Public } from '../auth/public.decorator';
 import { AuthenticatedRequest } from '../common/types';
-import { Prisma } from '@prisma/client';
+import { EditResource, Prisma } from '@prisma/client';
+import { EditingService } from '../editing/editing.service';
 
 @Controller('pages')
 export class PageBuilderController {
   private readonly logger = new Logger(PageBuilderController.name);
   
-  constructor(private readonly pageBuilderService: PageBuilderService) {}
+  constructor(
+    private readonly pageBuilderService: PageBuilderService,
+    private readonly editingService: EditingService,
+  ) {}
 
   // ========== PROTECTED ENDPOINTS ==========
   // NOTE: Specific routes must come BEFORE parameterized routes in NestJS
@@ -132,7 +136,12 @@ export class PageBuilderController {
     @Body() dto: UpdatePageDto,
     @Request() req: AuthenticatedRequest,
   ) {
-    return this.pageBuilderService.updatePage(id, dto, req.user.userId);
+    const page = await this.editingService.saveIfCurrent(EditResource.PAGE, id, dto.baseVersion, () => (
+      this.pageBuilderService.updatePage(id, dto, req.user.userId)
+    ));
+    // The autosaved draft is now part of the page
+    await this.editingService.discardDraft(EditResource.PAGE, id, req.user.id);
+    return page;
   }
 
   @UseGuards(JwtAuthGuard, RolesGuard)
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { PageBuilderController } from './page-builder.controller';
 import { PageBuilderService } from './page-builder.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { EditingModule } from '../editing/editing.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, EditingModule],
   controllers: [PageBuilderController],
   providers: [PageBuilderService],
   exports: [PageBuilderService],
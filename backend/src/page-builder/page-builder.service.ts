@@ -234,8 +234,8 @@ export class PageBuilderService {
       }
     }
 
-    // Destructure to exclude parentId from spreading
-    const { parentId, allowedRoles, ...dtoWithoutRelations } = dto;
+    // Destructure to exclude parentId (and the version token) from spreading
+    const { parentId, allowedRoles, baseVersion: _baseVersion, ...dtoWithoutRelations } = dto;
     
     // Sanitize content if provided
     if (dto.content) {
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class PortalReplyDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Message is required' })
+  @MaxLength(5000)
+  message: string;
+}
@@ -0,0 +1,66 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  Param,
+  Post,
+  Request,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { PortalService } from './portal.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AuthenticatedRequest } from '../common/types';
+import { SignEstimateDto } from '../documents/dto/document.dto';
+import { PortalReplyDto } from './dto/portal.dto';
+
+@Controller('portal')
+@UseGuards(JwtAuthGuard)
+export class PortalController {
+  constructor(private readonly portalService: PortalService) {}
+
+  @Get('enquiries')
+  getEnquiries(@Request() req: AuthenticatedRequest) {
+    return this.portalService.getEnquiries(req.user?.id || req.user?.userId);
+  }
+
+  @Post('enquiries/:kind/:id/replies')
+  addReply(
+    @Param('kind') kind: string,
+    @Param('id') id: string,
+    @Body() dto: PortalReplyDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.portalService.addReply(req.user?.id || req.user?.userId, kind, id, dto);
+  }
+
+  @Get('documents')
+  getDocuments(@Request() req: AuthenticatedRequest) {
+    return this.portalService.getDocuments(req.user?.id || req.user?.userId);
+  }
+
+  @Get('documents/:id/html')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  renderHtml(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    return this.portalService.renderDocumentHtml(req.user?.id || req.user?.userId, id);
+  }
+
+  @Get('documents/:id/pdf')
+  async renderPdf(@Param('id') id: string, @Request() req: AuthenticatedRequest) {
+    const { buffer, filename } = await this.portalService.renderDocumentPdf(req.user?.id || req.user?.userId, id);
+    return new StreamableFile(buffer, {
+      type: 'application/pdf',
+      disposition: `inline; filename="${filename}"`,
+    });
+  }
+
+  @Post('documents/:id/sign')
+  signDocument(@Param('id') id: string, @Body() dto: SignEstimateDto, @Request() req: AuthenticatedRequest) {
+    const ip =
+      (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() ||
+      req.ip ||
+      req.socket?.remoteAddress;
+    return this.portalService.signDocument(req.user?.id || req.user?.userId, id, dto, ip);
+  }
+}
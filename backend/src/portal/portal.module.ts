@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PortalService } from './portal.service';
+import { PortalController } from './portal.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [PrismaModule, DocumentsModule, NotificationsModule],
+  controllers: [PortalController],
+  providers: [PortalService],
+})
+export class PortalModule {}
@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { DocumentStatus, Prisma, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DocumentsService } from '../documents/documents.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { SignEstimateDto } from '../documents/dto/document.dto';
+import { PortalReplyDto } from './dto/portal.dto';
+
+const PHOTO_SELECT = { id: true, url: true, variants: true, originalName: true } as const;
+
+// Staff names only; customers never see staff emails or roles
+const REPLY_SELECT = {
+  id: true,
+  message: true,
+  fromCustomer: true,
+  createdAt: true,
+  author: { select: { firstName: true, lastName: true, username: true } },
+} satisfies Prisma.EnquiryReplySelect;
+
+// Everything the customer may see on a quote; staff notes and IP stay internal
+const PORTAL_QUOTE_SELECT = {
+  id: true,
+  serviceType: true,
+  propertyType: true,
+  roomCount: true,
+  areaSqm: true,
+  surfaces: true,
+  preferredDates: true,
+  message: true,
+  status: true,
+  createdAt: true,
+  photos: { select: PHOTO_SELECT },
+  replies: { orderBy: { createdAt: 'asc' }, select: REPLY_SELECT },
+  projectPhotos: {
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, stage: true, caption: true, createdAt: true, media: { select: PHOTO_SELECT } },
+  },
+  bookings: {
+    where: { status: { not: 'CANCELLED' } },
+    orderBy: { startsAt: 'asc' },
+    select: { id: true, type: true, status: true, title: true, startsAt: true, endsAt: true, address: true },
+  },
+} satisfies Prisma.QuoteRequestSelect;
+
+const PORTAL_DOCUMENT_SELECT = {
+  id: true,
+  type: true,
+  number: true,
+  version: true,
+  status: true,
+  currency: true,
+  total: true,
+  issuedAt: true,
+  validUntil: true,
+  dueDate: true,
+  signatureName: true,
+  signedAt: true,
+  quoteRequestId: true,
+} satisfies Prisma.SalesDocumentSelect;
+
+// Drafts are still being prepared and void documents were withdrawn
+const HIDDEN_DOCUMENT_STATUSES: DocumentStatus[] = [DocumentStatus.DRAFT, DocumentStatus.VOID];
+
+const STAFF_ROLES: Role[] = [Role.ADMINISTRATOR, Role.SUPER_ADMIN, Role.EDITOR];
+
+type PortalCustomer = {
+  id: string;
+  email: string;
+  isEmailVerified: boolean;
+};
+
+/**
+ * Portal Service
+ * Customer-facing view of quote requests, contact messages, estimates,
+ * invoices and project photos, scoped to the signed-in user.
+ */
+@Injectable()
+export class PortalService {
+  private readonly logger = new Logger(PortalService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private documentsService: DocumentsService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Loads the customer and claims any enquiries sent from their email address.
+   * Claiming waits for email verification so nobody can read another person's
+   * enquiries by registering with their address.
+   */
+  private async resolveCustomer(userId?: string): Promise<PortalCustomer> {
+    if (!userId) {
+      throw new UnauthorizedException('Sign in to view your account');
+    }
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, isEmailVerified: true },
+    });
+    if (!user) {
+      throw new UnauthorizedException('Sign in to view your account');
+    }
+
+    if (user.isEmailVerified) {
+      const unclaimed = { userId: null, email: { equals: user.email, mode: 'insensitive' as const } };
+      const [quotes, messages] = await Promise.all([
+        this.prisma.quoteRequest.updateMany({ where: unclaimed, data: { userId: user.id } }),
+        this.prisma.contactMessage.updateMany({ where: unclaimed, data: { userId: user.id } }),
+      ]);
+      if (quotes.count || messages.count) {
+        this.logger.log(`Linked ${quotes.count} quote(s) and ${messages.count} message(s) to user ${user.id}`);
+      }
+    }
+    return user;
+  }
+
+  private documentScope(customer: PortalCustomer): Prisma.SalesDocumentWhereInput {
+    const owners: Prisma.SalesDocumentWhereInput[] = [{ quoteRequest: { userId: customer.id } }];
+    if (customer.isEmailVerified) {
+      owners.push({ customerEmail: { equals: customer.email, mode: 'insensitive' } });
+    }
+    return {
+      OR: owners,
+      supersededAt: null,
+      status: { notIn: HIDDEN_DOCUMENT_STATUSES },
+    };
+  }
+
+  private async findOwnedDocument(customer: PortalCustomer, id: string) {
+    const document = await this.prisma.salesDocument.findFirst({
+      where: { id, ...this.documentScope(customer) },
+      select: PORTAL_DOCUMENT_SELECT,
+    });
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+    return document;
+  }
+
+  async getEnquiries(userId?: string) {
+    const customer = await this.resolveCustomer(userId);
+    const [quotes, messages] = await Promise.all([
+      this.prisma.quoteRequest.findMany({
+        where: { userId: customer.id },
+        orderBy: { createdAt: 'desc' },
+        select: PORTAL_QUOTE_SELECT,
+      }),
+      this.prisma.contactMessage.findMany({
+        where: { userId: customer.id },
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          subject: true,
+          message: true,
+          createdAt: true,
+          replies: { orderBy: { createdAt: 'asc' }, select: REPLY_SELECT },
+        },
+      }),
+    ]);
+    return { emailVerified: customer.isEmailVerified, quotes, messages };
+  }
+
+  async getDocuments(userId?: string) {
+    const customer = await this.resolveCustomer(userId);
+    const documents = await this.prisma.salesDocument.findMany({
+      where: this.documentScope(customer),
+      orderBy: { issuedAt: 'desc' },
+      select: PORTAL_DOCUMENT_SELECT,
+    });
+    return { documents };
+  }
+
+  async renderDocumentHtml(userId: string | undefined, id: string) {
+    const customer = await this.resolveCustomer(userId);
+    await this.findOwnedDocument(customer, id);
+    return this.documentsService.renderHtml(id);
+  }
+
+  async renderDocumentPdf(userId: string | undefined, id: string) {
+    const customer = await this.resolveCustomer(userId);
+    await this.findOwnedDocument(customer, id);
+    return this.documentsService.renderPdf(id);
+  }
+
+  async signDocument(userId: string | undefined, id: string, body: SignEstimateDto, ipAddress?: string) {
+    const customer = await this.resolveCustomer(userId);
+    await this.findOwnedDocument(customer, id);
+    const signed = await this.documentsService.signEstimate(id, body, { userId: customer.id, ipAddress });
+
+    await this.notifyStaff(customer.id, {
+      title: `Estimate ${signed.number} accepted`,
+      message: `${signed.signatureName} signed and accepted ${signed.number} (${signed.currency} ${signed.total.toFixed(2)}).`,
+      actionLabel: 'Open documents',
+      actionUrl: '/dashboard/documents',
+    });
+    return this.findOwnedDocument(customer, id);
+  }
+
+  /**
+   * Adds a customer follow-up to one of their own quote requests or contact
+   * messages and lets staff know.
+   */
+  async addReply(userId: string | undefined, kind: string, id: string, body: PortalReplyDto) {
+    const customer = await this.resolveCustomer(userId);
+    const message = SanitizationUtil.sanitizeText(body.message).slice(0, 5000);
+    if (!message) {
+      throw new BadRequestException('Message is required');
+    }
+
+    if (kind === 'quotes') {
+      const quote = await this.prisma.quoteRequest.findFirst({
+        where: { id, userId: customer.id },
+        select: { id: true, name: true, serviceType: true },
+      });
+      if (!quote) {
+        throw new NotFoundException('Quote request not found');
+      }
+      const reply = await this.prisma.enquiryReply.create({
+        data: { quoteRequestId: quote.id, authorId: customer.id, fromCustomer: true, message },
+        select: REPLY_SELECT,
+      });
+      await this.notifyStaff(customer.id, {
+        title: `New message from ${quote.name}`,
+        message: `About their ${quote.serviceType} quote: ${message.slice(0, 200)}`,
+        actionLabel: 'Open quotes',
+        actionUrl: '/dashboard/quotes',
+      });
+      return reply;
+    }
+
+    if (kind === 'messages') {
+      const contactMessage = await this.prisma.contactMessage.findFirst({
+        where: { id, userId: customer.id },
+        select: { id: true, name: true },
+      });
+      if (!contactMessage) {
+        throw new NotFoundException('Message not found');
+      }
+      const [reply] = await this.prisma.$transaction([
+        this.prisma.enquiryReply.create({
+          data: { contactMessageId: contactMessage.id, authorId: customer.id, fromCustomer: true, message },
+          select: REPLY_SELECT,
+        }),
+        // Surface the thread again in the admin inbox
+        this.prisma.contactMessage.update({ where: { id: contactMessage.id }, data: { read: false } }),
+      ]);
+      await this.notifyStaff(customer.id, {
+        title: `New message from ${contactMessage.name}`,
+        message: message.slice(0, 200),
+      });
+      return reply;
+    }
+
+    throw new BadRequestException('Unknown enquiry type');
+  }
+
+  private async notifyStaff(
+    customerId: string,
+    payload: { title: string; message: string; actionLabel?: string; actionUrl?: string },
+  ) {
+    try {
+      await this.notificationsService.createNotification({
+        ...payload,
+        type: 'INFO',
+        priority: 'NORMAL',
+        status: 'SENT',
+        channels: ['IN_APP'],
+        audience: 'ROLE',
+        targetRoles: STAFF_ROLES,
+        category: 'UPDATE',
+      }, customerId);
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Staff notification "${payload.title}" failed: ${reason}`);
+    }
+  }
+}
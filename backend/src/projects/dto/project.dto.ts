@@ -0,0 +1,162 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsBooleanString,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ProjectStatus } from '@prisma/client';
+
+const isPresent = (_: unknown, value: unknown) => value !== null && value !== undefined;
+const isFilled = (_: unknown, value: unknown) => value !== null && value !== undefined && value !== '';
+
+export class ProjectImagePairDto {
+  @IsString()
+  @IsNotEmpty()
+  beforeId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  afterId: string;
+
+  @IsOptional()
+  @IsString()
+  caption?: string;
+}
+
+/**
+ * Fields left out keep their current value on update; a title is required on create.
+ * Text fields are trimmed to their column limits by the service.
+ */
+export class ProjectDto {
+  @IsOptional()
+  @IsString()
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  slug?: string;
+
+  @IsOptional()
+  @IsEnum(ProjectStatus, { message: 'Invalid project status' })
+  status?: ProjectStatus;
+
+  @IsOptional()
+  @IsBoolean()
+  featured?: boolean;
+
+  @IsOptional()
+  @IsString()
+  summary?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @IsOptional()
+  @IsString()
+  serviceType?: string;
+
+  @IsOptional()
+  @IsString()
+  propertyType?: string;
+
+  // A list or a comma-separated string
+  @IsOptional()
+  @IsString({ each: true })
+  coloursUsed?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  paintBrands?: string | string[];
+
+  // null clears the duration
+  @ValidateIf(isPresent)
+  @IsNumber({}, { message: 'Duration must be a positive number of days' })
+  durationDays?: number | null;
+
+  // null or '' clears the completion date
+  @ValidateIf(isFilled)
+  @IsDateString({}, { message: 'Invalid completion date' })
+  completedAt?: string | null;
+
+  @IsOptional()
+  @IsString()
+  customerName?: string;
+
+  @IsOptional()
+  @IsString()
+  customerQuote?: string;
+
+  @IsOptional()
+  @IsString()
+  seoTitle?: string;
+
+  @IsOptional()
+  @IsString()
+  seoDescription?: string;
+
+  /** Replaces every before/after pair, in display order */
+  @IsOptional()
+  @IsArray({ message: 'Image pairs must be a list' })
+  @ValidateNested({ each: true })
+  @Type(() => ProjectImagePairDto)
+  imagePairs?: ProjectImagePairDto[];
+}
+
+export class ListPublishedProjectsQueryDto {
+  @IsOptional()
+  @IsInt()
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  serviceType?: string;
+
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @IsOptional()
+  @IsString()
+  colour?: string;
+
+  @IsOptional()
+  @IsString()
+  brand?: string;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  // Kept as a 'true' / 'false' string: implicit conversion would turn 'false' into true
+  @IsOptional()
+  @IsBooleanString()
+  featured?: string;
+}
+
+export class ListProjectsQueryDto {
+  @IsOptional()
+  @IsEnum(ProjectStatus)
+  status?: ProjectStatus;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
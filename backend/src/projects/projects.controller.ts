@@ -0,0 +1,77 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ProjectsService } from './projects.service';
+import { Public } from '../auth/public.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import { ListProjectsQueryDto, ListPublishedProjectsQueryDto, ProjectDto } from './dto/project.dto';
+
+@Controller('projects')
+export class ProjectsController {
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  @Public()
+  @Get()
+  listPublished(@Query() query: ListPublishedProjectsQueryDto) {
+    return this.projectsService.listPublished(query);
+  }
+
+  @Public()
+  @Get('filters')
+  getFilterOptions() {
+    return this.projectsService.getFilterOptions();
+  }
+
+  @Public()
+  @Get('slug/:slug')
+  getBySlug(@Param('slug') slug: string) {
+    return this.projectsService.getPublishedBySlug(slug);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get('admin')
+  listAll(@Query() query: ListProjectsQueryDto) {
+    return this.projectsService.listAll(query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Post()
+  createProject(@Body() dto: ProjectDto, @Request() req: AuthenticatedRequest) {
+    return this.projectsService.createProject(dto, req.user?.id || req.user?.userId);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get(':id')
+  getProject(@Param('id') id: string) {
+    return this.projectsService.getProject(id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Put(':id')
+  updateProject(@Param('id') id: string, @Body() dto: ProjectDto) {
+    return this.projectsService.updateProject(id, dto);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Delete(':id')
+  deleteProject(@Param('id') id: string) {
+    return this.projectsService.deleteProject(id);
+  }
+}
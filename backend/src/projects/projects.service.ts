@@ -0,0 +1,308 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, ProjectStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import {
+  ListProjectsQueryDto,
+  ListPublishedProjectsQueryDto,
+  ProjectDto,
+  ProjectImagePairDto,
+} from './dto/project.dto';
+
+const MAX_PAGE_SIZE = 48;
+const MAX_IMAGE_PAIRS = 20;
+const MAX_LIST_ITEMS = 12;
+
+const IMAGE_SELECT = { id: true, url: true, variants: true, altText: true, width: true, height: true } as const;
+
+const PROJECT_INCLUDE = {
+  imagePairs: {
+    orderBy: { position: 'asc' },
+    include: { before: { select: IMAGE_SELECT }, after: { select: IMAGE_SELECT } },
+  },
+} satisfies Prisma.ProjectInclude;
+
+// Listings only need the cover pair
+const PROJECT_CARD_INCLUDE = {
+  imagePairs: {
+    orderBy: { position: 'asc' },
+    take: 1,
+    include: { before: { select: IMAGE_SELECT }, after: { select: IMAGE_SELECT } },
+  },
+} satisfies Prisma.ProjectInclude;
+
+type ProjectImagePairInput = {
+  beforeId: string;
+  afterId: string;
+  caption: string | null;
+};
+
+/**
+ * Projects Service
+ * Portfolio of finished jobs with before/after photo pairs from the media
+ * library, published to the public /projects pages and page-builder grids.
+ */
+@Injectable()
+export class ProjectsService {
+  private readonly logger = new Logger(ProjectsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  private optionalText(value: string | null | undefined, maxLength: number): string | null {
+    if (!value) return null;
+    const text = SanitizationUtil.sanitizeText(value).slice(0, maxLength);
+    return text || null;
+  }
+
+  private normalizeStringArray(value: string | string[]): string[] {
+    const items = Array.isArray(value) ? value : value.split(',');
+    return Array.from(
+      new Set(items.map((item) => SanitizationUtil.sanitizeText(item).slice(0, 60)).filter(Boolean)),
+    ).slice(0, MAX_LIST_ITEMS);
+  }
+
+  private parseImagePairs(pairs: ProjectImagePairDto[]): ProjectImagePairInput[] {
+    if (pairs.length > MAX_IMAGE_PAIRS) {
+      throw new BadRequestException(`A project can have at most ${MAX_IMAGE_PAIRS} before/after pairs`);
+    }
+    return pairs.map((pair) => ({
+      beforeId: pair.beforeId,
+      afterId: pair.afterId,
+      caption: this.optionalText(pair.caption, 200),
+    }));
+  }
+
+  private async assertMediaExists(pairs: ProjectImagePairInput[]) {
+    const ids = Array.from(new Set(pairs.flatMap((pair) => [pair.beforeId, pair.afterId])));
+    if (!ids.length) return;
+    const found = await this.prisma.media.count({ where: { id: { in: ids } } });
+    if (found !== ids.length) {
+      throw new BadRequestException('One or more images no longer exist in the media library');
+    }
+  }
+
+  private async uniqueSlug(source: string, excludeId?: string) {
+    const base = SanitizationUtil.sanitizeSlug(source) || 'project';
+    let slug = base;
+    for (let counter = 2; ; counter += 1) {
+      const existing = await this.prisma.project.findUnique({ where: { slug }, select: { id: true } });
+      if (!existing || existing.id === excludeId) return slug;
+      slug = `${base}-${counter}`;
+    }
+  }
+
+  private buildData(body: ProjectDto): Prisma.ProjectUncheckedUpdateInput {
+    const data: Prisma.ProjectUncheckedUpdateInput = {};
+    if (body.title !== undefined) {
+      const title = this.optionalText(body.title, 160);
+      if (!title) throw new BadRequestException('Title is required');
+      data.title = title;
+    }
+    if (body.summary !== undefined) data.summary = this.optionalText(body.summary, 500);
+    if (body.description !== undefined) {
+      data.description = body.description?.trim() ? SanitizationUtil.sanitizeHTML(body.description) : null;
+    }
+    if (body.featured !== undefined) data.featured = body.featured;
+    if (body.location !== undefined) data.location = this.optionalText(body.location, 120);
+    if (body.serviceType !== undefined) data.serviceType = this.optionalText(body.serviceType, 80);
+    if (body.propertyType !== undefined) data.propertyType = this.optionalText(body.propertyType, 80);
+    if (body.coloursUsed !== undefined) data.coloursUsed = this.normalizeStringArray(body.coloursUsed);
+    if (body.paintBrands !== undefined) data.paintBrands = this.normalizeStringArray(body.paintBrands);
+    if (body.durationDays !== undefined) {
+      if (body.durationDays === null) {
+        data.durationDays = null;
+      } else {
+        const days = Math.round(body.durationDays);
+        if (days <= 0) {
+          throw new BadRequestException('Duration must be a positive number of days');
+        }
+        data.durationDays = days;
+      }
+    }
+    if (body.completedAt !== undefined) data.completedAt = body.completedAt ? new Date(body.completedAt) : null;
+    if (body.customerName !== undefined) data.customerName = this.optionalText(body.customerName, 120);
+    if (body.customerQuote !== undefined) data.customerQuote = this.optionalText(body.customerQuote, 1000);
+    if (body.seoTitle !== undefined) data.seoTitle = this.optionalText(body.seoTitle, 70);
+    if (body.seoDescription !== undefined) data.seoDescription = this.optionalText(body.seoDescription, 170);
+    return data;
+  }
+
+  // -----------------------------------------------------------------------
+  // Public
+  // -----------------------------------------------------------------------
+
+  async listPublished(query: ListPublishedProjectsQueryDto) {
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? 12));
+    const where: Prisma.ProjectWhereInput = { status: ProjectStatus.PUBLISHED };
+
+    const serviceType = query.serviceType?.trim() || '';
+    const location = query.location?.trim() || '';
+    const colour = query.colour?.trim() || '';
+    const brand = query.brand?.trim() || '';
+    const search = query.search?.trim() || '';
+
+    if (serviceType) where.serviceType = { equals: serviceType, mode: 'insensitive' };
+    if (location) where.location = { contains: location, mode: 'insensitive' };
+    if (colour) where.coloursUsed = { has: colour };
+    if (brand) where.paintBrands = { has: brand };
+    if (query.featured === 'true') where.featured = true;
+    if (search) {
+      where.OR = [
+        { title: { contains: search, mode: 'insensitive' } },
+        { summary: { contains: search, mode: 'insensitive' } },
+        { location: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.project.findMany({
+        where,
+        orderBy: [{ featured: 'desc' }, { completedAt: { sort: 'desc', nulls: 'last' } }, { publishedAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+        include: PROJECT_CARD_INCLUDE,
+      }),
+      this.prisma.project.count({ where }),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Distinct values across published projects, used to build filter menus.
+   */
+  async getFilterOptions() {
+    const projects = await this.prisma.project.findMany({
+      where: { status: ProjectStatus.PUBLISHED },
+      select: { serviceType: true, location: true, coloursUsed: true, paintBrands: true },
+    });
+    const collect = (values: Array<string | null>) => Array.from(
+      new Set(values.filter((value): value is string => !!value)),
+    ).sort((a, b) => a.localeCompare(b));
+
+    return {
+      serviceTypes: collect(projects.map((project) => project.serviceType)),
+      locations: collect(projects.map((project) => project.location)),
+      colours: collect(projects.flatMap((project) => project.coloursUsed)),
+      brands: collect(projects.flatMap((project) => project.paintBrands)),
+    };
+  }
+
+  async getPublishedBySlug(slug: string) {
+    const project = await this.prisma.project.findFirst({
+      where: { slug, status: ProjectStatus.PUBLISHED },
+      include: PROJECT_INCLUDE,
+    });
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    return project;
+  }
+
+  // -----------------------------------------------------------------------
+  // Admin
+  // -----------------------------------------------------------------------
+
+  async listAll(query: ListProjectsQueryDto) {
+    const search = query.search?.trim() || '';
+    const where: Prisma.ProjectWhereInput = {};
+    if (query.status) where.status = query.status;
+    if (search) where.title = { contains: search, mode: 'insensitive' };
+
+    return this.prisma.project.findMany({
+      where,
+      orderBy: { updatedAt: 'desc' },
+      include: PROJECT_CARD_INCLUDE,
+    });
+  }
+
+  async getProject(id: string) {
+    const project = await this.prisma.project.findUnique({ where: { id }, include: PROJECT_INCLUDE });
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+    return project;
+  }
+
+  async createProject(body: ProjectDto, userId?: string) {
+    const data = this.buildData(body);
+    if (!data.title) {
+      throw new BadRequestException('Title is required');
+    }
+    const pairs = body.imagePairs !== undefined ? this.parseImagePairs(body.imagePairs) : [];
+    await this.assertMediaExists(pairs);
+    const status = body.status || ProjectStatus.DRAFT;
+    const slugSource = body.slug?.trim() ? body.slug : String(data.title);
+
+    const project = await this.prisma.project.create({
+      data: {
+        ...(data as Prisma.ProjectUncheckedCreateInput),
+        title: String(data.title),
+        slug: await this.uniqueSlug(slugSource),
+        status,
+        publishedAt: status === ProjectStatus.PUBLISHED ? new Date() : null,
+        createdById: userId || null,
+        imagePairs: { create: pairs.map((pair, position) => ({ ...pair, position })) },
+      },
+      include: PROJECT_INCLUDE,
+    });
+    this.logger.log(`Project "${project.title}" created (${project.status})`);
+    return project;
+  }
+
+  async updateProject(id: string, body: ProjectDto) {
+    const existing = await this.prisma.project.findUnique({
+      where: { id },
+      select: { id: true, status: true, publishedAt: true },
+    });
+    if (!existing) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const data = this.buildData(body);
+    if (body.slug?.trim()) {
+      data.slug = await this.uniqueSlug(body.slug, id);
+    }
+    if (body.status) {
+      data.status = body.status;
+      // Keep the first publication date when a project is re-published
+      if (body.status === ProjectStatus.PUBLISHED && !existing.publishedAt) {
+        data.publishedAt = new Date();
+      }
+    }
+
+    const pairs = body.imagePairs !== undefined ? this.parseImagePairs(body.imagePairs) : null;
+    if (pairs) await this.assertMediaExists(pairs);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (pairs) {
+        await tx.projectImagePair.deleteMany({ where: { projectId: id } });
+        await tx.projectImagePair.createMany({
+          data: pairs.map((pair, position) => ({ ...pair, position, projectId: id })),
+        });
+      }
+      return tx.project.update({ where: { id }, data, include: PROJECT_INCLUDE });
+    });
+  }
+
+  async deleteProject(id: string) {
+    const existing = await this.prisma.project.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      throw new NotFoundException('Project not found');
+    }
+    await this.prisma.project.delete({ where: { id } });
+    return { success: true };
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { JobStatus } from '@prisma/client';
+
+const STATUS_LIST = new RegExp(`^(${Object.values(JobStatus).join('|')})(,(${Object.values(JobStatus).join('|')}))*$`);
+
+export class ListJobsQueryDto {
+  @IsOptional()
+  @IsInt()
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  /** One or more statuses, comma separated */
+  @IsOptional()
+  @Matches(STATUS_LIST, { message: 'Invalid job status' })
+  status?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'Invalid from date' })
+  from?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'Invalid to date' })
+  to?: string;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
+
+export class QueueStatsQueryDto {
+  @IsOptional()
+  @IsInt()
+  days?: number;
+}
+
+/** Deletes completed jobs unless other finished statuses are given */
+export class PurgeJobsDto {
+  @IsOptional()
+  @IsArray()
+  @IsEnum(JobStatus, { each: true })
+  statuses?: JobStatus[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  olderThanDays?: number;
+
+  @IsOptional()
+  @IsString()
+  type?: string;
+}
+
+export class RequeueDeadLettersDto {
+  @IsOptional()
+  @IsString()
+  type?: string;
+}
@@ -0,0 +1,55 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { SocialService } from '../../social/social.service';
+import { JsonValue } from '../../common/types/json';
+import { JobHandler } from '../interfaces/job-handler.interface';
+import { PermanentJobError } from '../queue.errors';
+import { QueueRegistry } from '../queue.registry';
+
+export type DistributePostPayload = {
+  postId: string;
+  channels: string[];
+};
+
+const isRecord = (value: unknown): value is Record<string, JsonValue> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+/**
+ * DISTRIBUTE_POST
+ * Shares a published post to the configured social channels.
+ */
+@Injectable()
+export class DistributePostHandler implements JobHandler<DistributePostPayload>, OnModuleInit {
+  readonly type = 'DISTRIBUTE_POST';
+  readonly maxAttempts = 5;
+  readonly concurrency = 2;
+  readonly backoff = { baseDelayMs: 30_000, maxDelayMs: 60 * 60 * 1000 };
+
+  constructor(
+    private socialService: SocialService,
+    private registry: QueueRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  parse(value: Prisma.JsonValue): DistributePostPayload {
+    const payload = isRecord(value) ? value : {};
+    if (typeof payload.postId !== 'string' || !payload.postId) {
+      throw new PermanentJobError('Missing postId in DISTRIBUTE_POST payload');
+    }
+    return {
+      postId: payload.postId,
+      channels: Array.isArray(payload.channels)
+        ? payload.channels.filter((channel): channel is string => typeof channel === 'string')
+        : [],
+    };
+  }
+
+  async handle(payload: DistributePostPayload): Promise<Prisma.InputJsonValue> {
+    await this.socialService.distributePost(payload.postId, payload.channels);
+    return { success: true, channels: payload.channels };
+  }
+}
@@ -0,0 +1,181 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { PostRevisionSource, Prisma, QueueJob } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AiService } from '../../ai/ai.service';
+import { AiBudgetExceededError } from '../../ai/ai.errors';
+import { BlogService } from '../../blog/blog.service';
+import { SEOAuditService } from '../../blog/seo-audit.service';
+import { PromptTemplateService } from '../../ai/prompt-template.service';
+import { JsonValue } from '../../common/types/json';
+import { JobHandler } from '../interfaces/job-handler.interface';
+import { PermanentJobError } from '../queue.errors';
+import { QueueRegistry } from '../queue.registry';
+
+type AiGeneratedPost = {
+  title: string;
+  content: string;
+  summary?: string;
+  seoTitle?: string;
+  seoDescription?: string;
+  tags?: string[];
+};
+
+export type GeneratePostPayload = {
+  topic: string;
+  userId?: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, JsonValue> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const parseGeneratedPost = (value: unknown): AiGeneratedPost | null => {
+  if (!isRecord(value)) return null;
+
+  const title = typeof value.title === 'string' ? value.title : '';
+  const content = typeof value.content === 'string' ? value.content : '';
+
+  if (!title || !content) return null;
+
+  return {
+    title,
+    content,
+    summary: typeof value.summary === 'string' ? value.summary : undefined,
+    seoTitle: typeof value.seoTitle === 'string' ? value.seoTitle : undefined,
+    seoDescription: typeof value.seoDescription === 'string' ? value.seoDescription : undefined,
+    tags: Array.isArray(value.tags)
+      ? value.tags.filter((tag): tag is string => typeof tag === 'string')
+      : undefined,
+  };
+};
+
+/**
+ * GENERATE_POST
+ * Generates an article with the AI provider and saves it as a draft post.
+ */
+@Injectable()
+export class GeneratePostHandler implements JobHandler<GeneratePostPayload>, OnModuleInit {
+  readonly type = 'GENERATE_POST';
+  readonly maxAttempts = 3;
+  // Provider rate limits make parallel generations fail more than they help
+  readonly concurrency = 1;
+  readonly lockTimeoutMs = 10 * 60 * 1000;
+  readonly backoff = { baseDelayMs: 60_000, maxDelayMs: 30 * 60 * 1000 };
+
+  private readonly logger = new Logger(GeneratePostHandler.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private aiService: AiService,
+    private blogService: BlogService,
+    private seoAuditService: SEOAuditService,
+    private promptTemplates: PromptTemplateService,
+    private registry: QueueRegistry,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  parse(value: Prisma.JsonValue): GeneratePostPayload {
+    const payload = isRecord(value) ? value : {};
+    const topic = typeof payload.topic === 'string' ? payload.topic.trim() : '';
+    if (!topic) {
+      throw new PermanentJobError('Missing topic in GENERATE_POST payload');
+    }
+    return {
+      topic,
+      userId: typeof payload.userId === 'string' ? payload.userId : undefined,
+    };
+  }
+
+  async handle(payload: GeneratePostPayload, job: QueueJob): Promise<Prisma.InputJsonValue> {
+    const { prompt, versionId } = await this.promptTemplates.render('generatePost', { topic: payload.topic });
+    let rawResult: unknown;
+    try {
+      rawResult = await this.aiService.generatePost(
+        { topic: payload.topic, prompt },
+        { jobId: job.id, userId: payload.userId },
+      );
+    } catch (error) {
+      // Retrying within the backoff window would hit the same budget
+      if (error instanceof AiBudgetExceededError) throw new PermanentJobError(error.message);
+      throw error;
+    }
+    const parsedResult = parseGeneratedPost(rawResult);
+    if (!parsedResult) {
+      // Model output varies between calls, so this is worth retrying
+      throw new Error('AI generation returned invalid content');
+    }
+
+    // AUTOMATICALLY SAVE TO BLOG
+    // Use payload.userId if available, otherwise fallback to first admin
+    let authorId = payload.userId;
+
+    if (!authorId) {
+      const admin = await this.prisma.user.findFirst();
+      authorId = admin?.id;
+    }
+
+    if (authorId) {
+      const tags = Array.isArray(parsedResult.tags) ? parsedResult.tags : [];
+      const baseSlugSource = parsedResult.seoTitle || parsedResult.title || payload.topic || 'post';
+      const slug = baseSlugSource
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-') + '-' + Date.now();
+
+      const tagConnections = tags.map((tag) => ({
+        where: { slug: tag.toLowerCase().replace(/ /g, '-') },
+        create: { name: tag, slug: tag.toLowerCase().replace(/ /g, '-') },
+      }));
+
+      // Extract keywords from content for SEO
+      const content = parsedResult.content;
+      const plainText = content.replace(/<[^>]*>/g, '');
+      const words = plainText.toLowerCase().match(/\b\w{4,}\b/g) || [];
+      const wordFreq: Record<string, number> = {};
+      for (const word of words) {
+        wordFreq[word] = (wordFreq[word] || 0) + 1;
+      }
+      const entries = Object.entries(wordFreq) as Array<[string, number]>;
+      const topKeywords = entries
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 10)
+        .map(([word]) => word);
+
+      // Calculate reading time (200 words per minute)
+      const wordCount = plainText.split(/\s+/).length;
+      const readingTime = Math.ceil(wordCount / 200);
+
+      // Generate excerpt from first paragraph
+      const firstPara = content.match(/<p[^>]*>([^<]+)<\/p>/)?.[1] || parsedResult.summary || '';
+      const excerpt = firstPara.length > 160 ? `${firstPara.substring(0, 157)}...` : firstPara;
+
+      const post = await this.blogService.createPost({
+        title: parsedResult.title,
+        content,
+        excerpt: excerpt,
+        slug: slug,
+        author: { connect: { id: authorId } },
+        status: 'DRAFT',
+        seoTitle: parsedResult.seoTitle,
+        seoDescription: parsedResult.seoDescription,
+        seoKeywords: [...topKeywords, ...tags.map((tag) => tag.toLowerCase())],
+        readingTime: readingTime,
+        ogTitle: parsedResult.seoTitle,
+        ogDescription: parsedResult.seoDescription,
+        twitterCard: 'summary_large_image',
+        tags: { connectOrCreate: tagConnections },
+        aiMetadata: isRecord(rawResult) ? rawResult : { generatedAt: new Date().toISOString() },
+        aiPrompt: prompt,
+        ...(versionId ? { promptVersion: { connect: { id: versionId } } } : {}),
+      }, { source: PostRevisionSource.AI, reason: 'Generated from queued job' });
+      await this.seoAuditService.recordGenerationScore(post.id);
+      this.logger.log(`Blog post draft created: ${slug}`);
+    } else {
+      this.logger.warn('No user found to assign post to.');
+    }
+
+    return isRecord(rawResult) ? rawResult : { success: true };
+  }
+}
@@ -0,0 +1,38 @@
+import { Prisma, QueueJob } from '@prisma/client';
+
+export interface JobBackoff {
+  /** Delay before the first retry; doubles on every further attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single retry delay */
+  maxDelayMs: number;
+}
+
+export interface JobHandler<TPayload = unknown> {
+  /** Value stored in QueueJob.type */
+  readonly type: string;
+  /** Default attempts for new jobs of this type (QueueJob.maxAttempts) */
+  readonly maxAttempts?: number;
+  /** Max jobs of this type processing at once across all workers */
+  readonly concurrency?: number;
+  /** Lock age after which a PROCESSING job is considered abandoned */
+  readonly lockTimeoutMs?: number;
+  readonly backoff?: JobBackoff;
+
+  /**
+   * Validate the stored payload. Throw a PermanentJobError when the job
+   * can never succeed so it is dead-lettered without retrying.
+   */
+  parse(payload: Prisma.JsonValue): TPayload;
+
+  /** Run the job; the returned value is stored in QueueJob.result */
+  handle(payload: TPayload, job: QueueJob): Promise<Prisma.InputJsonValue>;
+}
+
+export interface AddJobOptions {
+  /** Higher priority jobs are claimed first (default 0) */
+  priority?: number;
+  /** Earliest time the job may run (default now) */
+  runAt?: Date;
+  /** Overrides the handler's maxAttempts */
+  maxAttempts?: number;
+}
@@ -1,6 +1,9 @@
-import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
 import { QueueService } from './queue.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { ListJobsQueryDto, PurgeJobsDto, QueueStatsQueryDto, RequeueDeadLettersDto } from './dto/queue.dto';
 
 @Controller('queue')
 export class QueueController {
@@ -18,4 +21,59 @@ export class QueueController {
       message: 'Job queued successfully',
     };
   }
+
+  /**
+   * Browse jobs by type, status (comma separated) and created date range
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get('jobs')
+  async listJobs(@Query() query: ListJobsQueryDto) {
+    return this.queueService.listJobs(query);
+  }
+
+  /**
+   * Status totals, per-type counts and throughput/failure-rate series
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Get('stats')
+  async getStats(@Query() query: QueueStatsQueryDto) {
+    return this.queueService.getStats(query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get('jobs/:id')
+  async getJob(@Param('id') id: string) {
+    return this.queueService.getJobOrFail(id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Post('jobs/purge')
+  async purgeJobs(@Body() dto: PurgeJobsDto) {
+    return this.queueService.purge(dto);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Post('jobs/:id/requeue')
+  async requeueJob(@Param('id') id: string) {
+    return this.queueService.requeue(id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Post('jobs/:id/cancel')
+  async cancelJob(@Param('id') id: string) {
+    return this.queueService.cancel(id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Post('dead-letter/requeue')
+  async requeueDeadLetters(@Body() dto: RequeueDeadLettersDto) {
+    return this.queueService.requeueDeadLetters(dto.type || undefined);
+  }
 }
@@ -0,0 +1,10 @@
+/**
+ * Thrown by job handlers for failures that retrying cannot fix
+ * (invalid payload, missing records). The job goes straight to DEAD_LETTER.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
@@ -2,6 +2,9 @@ import { Module, forwardRef } from '@nestjs/common';
 import { QueueService } from './queue.service';
 import { QueueWorker } from './queue.worker';
 import { QueueController } from './queue.controller';
+import { QueueRegistry } from './queue.registry';
+import { GeneratePostHandler } from './handlers/generate-post.handler';
+import { DistributePostHandler } from './handlers/distribute-post.handler';
 import { AiModule } from '../ai/ai.module';
 import { BlogModule } from '../blog/blog.module';
 import { SocialModule } from '../social/social.module';
@@ -13,7 +16,7 @@ import { SocialModule } from '../social/social.module';
     forwardRef(() => SocialModule) // Break circular dependency if present
   ],
   controllers: [QueueController],
-  providers: [QueueService, QueueWorker],
-  exports: [QueueService],
+  providers: [QueueService, QueueRegistry, QueueWorker, GeneratePostHandler, DistributePostHandler],
+  exports: [QueueService, QueueRegistry],
 })
 export class QueueModule {}
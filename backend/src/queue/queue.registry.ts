@@ -0,0 +1,46 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { JobHandler } from './interfaces/job-handler.interface';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const DEFAULT_BACKOFF = { baseDelayMs: 30_000, maxDelayMs: 60 * 60 * 1000 };
+
+/**
+ * Queue Registry
+ * Maps QueueJob.type to the handler that processes it. Handlers register
+ * themselves on module init, so feature modules can add job types without
+ * touching the worker.
+ */
+@Injectable()
+export class QueueRegistry {
+  private readonly logger = new Logger(QueueRegistry.name);
+  private readonly handlers = new Map<string, JobHandler>();
+
+  register(handler: JobHandler) {
+    if (this.handlers.has(handler.type)) {
+      this.logger.warn(`Job handler for ${handler.type} replaced`);
+    }
+    this.handlers.set(handler.type, handler);
+  }
+
+  get(type: string): JobHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  list(): JobHandler[] {
+    return Array.from(this.handlers.values());
+  }
+
+  getMaxAttempts(type: string): number {
+    return this.handlers.get(type)?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Exponential backoff with jitter: base * 2^(attempt - 1), capped, +/- 20%
+   */
+  getRetryDelay(type: string, attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.handlers.get(type)?.backoff ?? DEFAULT_BACKOFF;
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+    const jitter = delay * 0.2 * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(delay + jitter));
+  }
+}
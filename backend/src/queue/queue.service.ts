@@ -1,20 +1,80 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { JobStatus, Prisma } from '@prisma/client';
+import { AddJobOptions } from './interfaces/job-handler.interface';
+import { QueueRegistry } from './queue.registry';
+import { ListJobsQueryDto, PurgeJobsDto, QueueStatsQueryDto } from './dto/queue.dto';
+
+const MAX_PAGE_SIZE = 100;
+const MAX_STATS_DAYS = 90;
+
+// Finished jobs that may be deleted; PENDING/PROCESSING are never purged
+const PURGEABLE_STATUSES: JobStatus[] = [JobStatus.COMPLETED, JobStatus.CANCELLED, JobStatus.DEAD_LETTER];
+// Jobs that can be put back in the queue
+const REQUEUEABLE_STATUSES: JobStatus[] = [JobStatus.DEAD_LETTER, JobStatus.CANCELLED];
+
+// List rows leave out the result, which can be a whole generated article
+const JOB_LIST_SELECT = {
+  id: true,
+  type: true,
+  payload: true,
+  status: true,
+  error: true,
+  priority: true,
+  attempts: true,
+  maxAttempts: true,
+  runAt: true,
+  lockedAt: true,
+  lockedBy: true,
+  processedAt: true,
+  createdAt: true,
+} satisfies Prisma.QueueJobSelect;
+
+const REQUEUE_DATA = {
+  status: JobStatus.PENDING,
+  attempts: 0,
+  error: null,
+  lockedAt: null,
+  lockedBy: null,
+  processedAt: null,
+} satisfies Prisma.QueueJobUpdateManyMutationInput;
+
+const emptyStatusCounts = () => Object.fromEntries(
+  Object.values(JobStatus).map((status) => [status, 0]),
+) as Record<JobStatus, number>;
+
+type ThroughputRow = {
+  bucket: Date;
+  completed: number;
+  deadLettered: number;
+  retried: number;
+};
 
 @Injectable()
 export class QueueService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private registry: QueueRegistry,
+  ) {}
+
+  private parseStatuses(value: string | undefined): JobStatus[] {
+    return (value ? value.split(',') : []).filter((item): item is JobStatus => (
+      (Object.values(JobStatus) as string[]).includes(item)
+    ));
+  }
 
   /**
    * Add a job to the Postgres Queue
    */
-  async addJob(type: string, payload: Prisma.InputJsonValue) {
+  async addJob(type: string, payload: Prisma.InputJsonValue, options: AddJobOptions = {}) {
     return this.prisma.queueJob.create({
       data: {
         type,
         payload,
         status: JobStatus.PENDING,
+        priority: Math.trunc(options.priority ?? 0),
+        runAt: options.runAt ?? new Date(),
+        maxAttempts: Math.max(1, Math.trunc(options.maxAttempts ?? this.registry.getMaxAttempts(type))),
       },
     });
   }
@@ -27,4 +87,235 @@ export class QueueService {
       where: { id },
     });
   }
+
+  // -----------------------------------------------------------------------
+  // Admin console
+  // -----------------------------------------------------------------------
+
+  async listJobs(query: ListJobsQueryDto) {
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? 25));
+    const where: Prisma.QueueJobWhereInput = {};
+
+    const type = query.type?.trim() || '';
+    const statuses = this.parseStatuses(query.status);
+    const from = query.from ? new Date(query.from) : null;
+    const to = query.to ? new Date(query.to) : null;
+    const search = query.search?.trim() || '';
+
+    if (type) where.type = type;
+    if (statuses.length > 0) where.status = { in: statuses };
+    if (from || to) {
+      where.createdAt = {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lte: to } : {}),
+      };
+    }
+    if (search) {
+      where.OR = [
+        { id: { startsWith: search } },
+        { error: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.queueJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: JOB_LIST_SELECT,
+      }),
+      this.prisma.queueJob.count({ where }),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getJobOrFail(id: string) {
+    const job = await this.getJob(id);
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+    return job;
+  }
+
+  /**
+   * Put a dead-lettered or cancelled job back in the queue with a fresh set of attempts
+   */
+  async requeue(id: string) {
+    const job = await this.getJobOrFail(id);
+    if (!REQUEUEABLE_STATUSES.includes(job.status)) {
+      throw new BadRequestException('Only dead-lettered or cancelled jobs can be requeued');
+    }
+
+    return this.prisma.queueJob.update({
+      where: { id },
+      data: { ...REQUEUE_DATA, runAt: new Date() },
+    });
+  }
+
+  /**
+   * Requeue every dead-lettered job, optionally only of one type
+   */
+  async requeueDeadLetters(type?: string) {
+    const result = await this.prisma.queueJob.updateMany({
+      where: { status: JobStatus.DEAD_LETTER, ...(type ? { type } : {}) },
+      data: { ...REQUEUE_DATA, runAt: new Date() },
+    });
+    return { requeued: result.count };
+  }
+
+  /**
+   * Withdraw a job that has not started yet. Running jobs cannot be stopped.
+   */
+  async cancel(id: string) {
+    const result = await this.prisma.queueJob.updateMany({
+      where: { id, status: JobStatus.PENDING },
+      data: {
+        status: JobStatus.CANCELLED,
+        error: 'Cancelled by an administrator',
+        processedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      const job = await this.getJobOrFail(id);
+      throw new BadRequestException(`A ${job.status.toLowerCase()} job cannot be cancelled`);
+    }
+
+    return this.getJobOrFail(id);
+  }
+
+  /**
+   * Delete finished jobs. Defaults to COMPLETED jobs of any age.
+   */
+  async purge(input: PurgeJobsDto) {
+    const statuses = input.statuses?.length ? input.statuses : [JobStatus.COMPLETED];
+
+    if (statuses.some((status) => !PURGEABLE_STATUSES.includes(status))) {
+      throw new BadRequestException('Only completed, cancelled or dead-lettered jobs can be purged');
+    }
+
+    const olderThanDays = Math.floor(input.olderThanDays ?? 0);
+    const type = input.type?.trim() || '';
+    const where: Prisma.QueueJobWhereInput = { status: { in: statuses } };
+    if (type) where.type = type;
+    if (olderThanDays > 0) {
+      where.createdAt = { lt: new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000) };
+    }
+
+    const result = await this.prisma.queueJob.deleteMany({ where });
+    return { deleted: result.count };
+  }
+
+  /**
+   * Status totals, per-type breakdown and completed/dead-lettered throughput
+   * bucketed by hour (up to 2 days) or day.
+   */
+  async getStats(query: QueueStatsQueryDto) {
+    const days = Math.min(MAX_STATS_DAYS, Math.max(1, query.days ?? 14));
+    const bucket = days <= 2 ? 'hour' : 'day';
+    const bucketMs = bucket === 'hour' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [byStatus, byType, rows, latency] = await Promise.all([
+      this.prisma.queueJob.groupBy({
+        by: ['status'],
+        _count: { _all: true },
+      }),
+      this.prisma.queueJob.groupBy({
+        by: ['type', 'status'],
+        _count: { _all: true },
+      }),
+      this.prisma.$queryRaw<ThroughputRow[]>`
+        SELECT date_trunc(${bucket}, "processedAt") AS bucket,
+               COUNT(*) FILTER (WHERE status = 'COMPLETED')::int AS completed,
+               COUNT(*) FILTER (WHERE status = 'DEAD_LETTER')::int AS "deadLettered",
+               COUNT(*) FILTER (WHERE status = 'COMPLETED' AND attempts > 1)::int AS retried
+        FROM "QueueJob"
+        WHERE "processedAt" >= ${since}
+          AND status IN ('COMPLETED', 'DEAD_LETTER')
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      this.prisma.$queryRaw<Array<{ avgMs: number | null }>>`
+        SELECT (AVG(EXTRACT(EPOCH FROM ("processedAt" - "createdAt"))) * 1000)::float AS "avgMs"
+        FROM "QueueJob"
+        WHERE status = 'COMPLETED' AND "processedAt" >= ${since}
+      `,
+    ]);
+
+    const statusCounts = emptyStatusCounts();
+    for (const row of byStatus) {
+      statusCounts[row.status] = row._count._all;
+    }
+
+    // Registered types show up even before their first job
+    const types = new Map<string, Record<JobStatus, number>>(
+      this.registry.list().map((handler) => [handler.type, emptyStatusCounts()]),
+    );
+    for (const row of byType) {
+      const counts = types.get(row.type) ?? emptyStatusCounts();
+      counts[row.status] = row._count._all;
+      types.set(row.type, counts);
+    }
+
+    // Fill empty buckets so charts have a continuous axis
+    const byBucket = new Map(rows.map((row) => [new Date(row.bucket).getTime(), row]));
+    const start = bucket === 'hour'
+      ? new Date(Math.floor(since.getTime() / bucketMs) * bucketMs)
+      : new Date(Date.UTC(since.getUTCFullYear(), since.getUTCMonth(), since.getUTCDate()));
+    const series: Array<{ bucket: string; completed: number; deadLettered: number; retried: number; failureRate: number }> = [];
+    for (let time = start.getTime(); time <= Date.now(); time += bucketMs) {
+      const row = byBucket.get(time);
+      const completed = row?.completed ?? 0;
+      const deadLettered = row?.deadLettered ?? 0;
+      const finished = completed + deadLettered;
+      series.push({
+        bucket: new Date(time).toISOString(),
+        completed,
+        deadLettered,
+        retried: row?.retried ?? 0,
+        failureRate: finished > 0 ? Math.round((deadLettered / finished) * 1000) / 10 : 0,
+      });
+    }
+
+    const completed = series.reduce((sum, point) => sum + point.completed, 0);
+    const deadLettered = series.reduce((sum, point) => sum + point.deadLettered, 0);
+
+    return {
+      days,
+      bucket,
+      statuses: statusCounts,
+      types: Array.from(types.entries())
+        .map(([type, counts]) => {
+          const handler = this.registry.get(type);
+          return {
+            type,
+            registered: Boolean(handler),
+            maxAttempts: handler?.maxAttempts ?? null,
+            concurrency: handler?.concurrency ?? null,
+            counts,
+          };
+        })
+        .sort((a, b) => a.type.localeCompare(b.type)),
+      totals: {
+        completed,
+        deadLettered,
+        retried: series.reduce((sum, point) => sum + point.retried, 0),
+        failureRate: completed + deadLettered > 0
+          ? Math.round((deadLettered / (completed + deadLettered)) * 1000) / 10
+          : 0,
+        avgCompletionMs: latency[0]?.avgMs != null ? Math.round(latency[0].avgMs) : null,
+      },
+      series,
+    };
+  }
 }
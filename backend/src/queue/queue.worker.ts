@@ -1,29 +1,12 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as os from 'os';
 import { PrismaService } from '../prisma/prisma.service';
-import { AiService } from '../ai/ai.service';
-import { BlogService } from '../blog/blog.service';
-import { SocialService } from '../social/social.service';
-import { JobStatus, QueueJob } from '@prisma/client';
-import { JsonValue } from '../common/types/json';
-
-type AiGeneratedPost = {
-  title: string;
-  content: string;
-  summary?: string;
-  seoTitle?: string;
-  seoDescription?: string;
-  tags?: string[];
-};
-
-type GeneratePostPayload = {
-  topic: string;
-  userId?: string;
-};
+import { JobStatus, Prisma, QueueJob } from '@prisma/client';
+import { PermanentJobError } from './queue.errors';
+import { QueueRegistry } from './queue.registry';
 
-type DistributePostPayload = {
-  postId: string;
-  channels?: string[];
-};
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
 
 const getErrorMessage = (error: unknown): string => (
   error instanceof Error ? error.message : String(error)
@@ -33,244 +16,86 @@ const getErrorStack = (error: unknown): string | undefined => (
   error instanceof Error ? error.stack : undefined
 );
 
-const isRecord = (value: unknown): value is Record<string, JsonValue> => (
-  value !== null && typeof value === 'object' && !Array.isArray(value)
-);
-
-const parsePayload = (value: unknown): Record<string, JsonValue> => (
-  isRecord(value) ? value : {}
-);
-
-const parseGeneratePostPayload = (value: unknown): GeneratePostPayload => {
-  const payload = parsePayload(value);
-  return {
-    topic: typeof payload.topic === 'string' ? payload.topic : '',
-    userId: typeof payload.userId === 'string' ? payload.userId : undefined,
-  };
-};
-
-const parseDistributePostPayload = (value: unknown): DistributePostPayload => {
-  const payload = parsePayload(value);
-  return {
-    postId: typeof payload.postId === 'string' ? payload.postId : '',
-    channels: Array.isArray(payload.channels)
-      ? payload.channels.filter((channel): channel is string => typeof channel === 'string')
-      : undefined,
-  };
-};
-
-const parseGeneratedPost = (value: unknown): AiGeneratedPost | null => {
-  if (!isRecord(value)) return null;
-
-  const title = typeof value.title === 'string' ? value.title : '';
-  const content = typeof value.content === 'string' ? value.content : '';
-
-  if (!title || !content) return null;
-
-  return {
-    title,
-    content,
-    summary: typeof value.summary === 'string' ? value.summary : undefined,
-    seoTitle: typeof value.seoTitle === 'string' ? value.seoTitle : undefined,
-    seoDescription: typeof value.seoDescription === 'string' ? value.seoDescription : undefined,
-    tags: Array.isArray(value.tags)
-      ? value.tags.filter((tag): tag is string => typeof tag === 'string')
-      : undefined,
-  };
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
 };
 
+/**
+ * Queue Worker
+ * Claims due jobs from the Postgres queue (priority first, then runAt) and
+ * dispatches them to the registered handlers. Failed jobs are retried with
+ * exponential backoff until their attempts run out, then dead-lettered.
+ * Jobs left in PROCESSING by a crashed worker are reclaimed once their lock
+ * expires.
+ */
 @Injectable()
-export class QueueWorker implements OnModuleInit {
+export class QueueWorker implements OnApplicationBootstrap, OnModuleDestroy {
   private readonly logger = new Logger(QueueWorker.name);
-  private isProcessing = false;
+  private readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+  private readonly concurrency = readPositiveInt(process.env.QUEUE_CONCURRENCY, 2);
+  private readonly pollIntervalMs = readPositiveInt(process.env.QUEUE_POLL_INTERVAL_MS, 2000);
+  private readonly lockTimeoutMs = readPositiveInt(process.env.QUEUE_LOCK_TIMEOUT_MS, 15 * 60 * 1000);
+
+  private readonly active = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private stopped = false;
+  private lastStaleCheck = 0;
 
   constructor(
     private prisma: PrismaService,
-    private aiService: AiService,
-    private blogService: BlogService,
-    private socialService: SocialService,
+    private registry: QueueRegistry,
   ) {}
 
-  onModuleInit() {
-    // Start the polling loop
-    this.poll();
+  onApplicationBootstrap() {
+    // Handlers register during module init, so start once everything is wired
+    this.logger.log(
+      `Queue worker ${this.workerId} started (concurrency ${this.concurrency}, ` +
+      `handlers: ${this.registry.list().map((handler) => handler.type).join(', ') || 'none'})`,
+    );
+    this.schedule(0);
   }
 
-  async poll() {
-    if (this.isProcessing) return;
+  onModuleDestroy() {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.active.size > 0) {
+      // Their locks expire and another worker picks them up
+      this.logger.warn(`Shutting down with ${this.active.size} job(s) in flight`);
+    }
+  }
 
-    // Simple polling interval - in production can use more sophisticated backoff
-    setInterval(async () => {
-      await this.processNextJob();
-    }, 5000);
+  private schedule(delayMs: number) {
+    if (this.stopped) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.tick();
+    }, delayMs);
   }
 
-  async processNextJob() {
-    if (this.isProcessing) return;
-    this.isProcessing = true;
+  private async tick() {
+    if (this.ticking || this.stopped) return;
+    this.ticking = true;
 
     try {
-      // Atomic claim: use a transaction so multiple workers don't pick the same job
-      const job = await this.prisma.$transaction(async (tx) => {
-        const jobs = await tx.$queryRaw<QueueJob[]>`
-          SELECT * FROM "QueueJob"
-          WHERE status = 'PENDING'
-          ORDER BY "createdAt" ASC
-          LIMIT 1
-          FOR UPDATE SKIP LOCKED
-        `;
-
-        if (jobs.length === 0) {
-          return null;
-        }
-
-        const claimed = jobs[0];
-        await tx.queueJob.update({
-          where: { id: claimed.id },
-          data: {
-            status: JobStatus.PROCESSING,
-            lockedAt: new Date(),
-            attempts: { increment: 1 },
-          },
-        });
-
-        return claimed;
-      });
-
-      if (!job) {
-        return;
+      if (Date.now() - this.lastStaleCheck >= STALE_CHECK_INTERVAL_MS) {
+        this.lastStaleCheck = Date.now();
+        await this.recoverStaleJobs();
       }
 
-      this.logger.log(`Processing job [${job.id}] type: ${job.type}`);
-
-      // REROUTE TO HANDLER
-      let result: JsonValue | null = null;
-      try {
-        switch (job.type) {
-          case 'GENERATE_POST': {
-            const payload = parseGeneratePostPayload(job.payload);
-            if (!payload.topic) {
-              throw new Error('Missing topic in GENERATE_POST payload');
-            }
-
-            const rawResult = await this.aiService.generatePost(payload.topic);
-            const parsedResult = parseGeneratedPost(rawResult);
-            if (!parsedResult) {
-              throw new Error('AI generation returned invalid content');
-            }
-
-            // AUTOMATICALLY SAVE TO BLOG
-            // Use payload.userId if available, otherwise fallback to first admin
-            let authorId = payload.userId;
-
-            if (!authorId) {
-              const admin = await this.prisma.user.findFirst();
-              authorId = admin?.id;
-            }
-
-            if (authorId) {
-              const tags = Array.isArray(parsedResult.tags) ? parsedResult.tags : [];
-              const baseSlugSource = parsedResult.seoTitle || parsedResult.title || payload.topic || 'post';
-              const slug = baseSlugSource
-                .toLowerCase()
-                .replace(/[^a-z0-9]+/g, '-') + '-' + Date.now();
-
-              const tagConnections = tags.map((tag) => ({
-                where: { slug: tag.toLowerCase().replace(/ /g, '-') },
-                create: { name: tag, slug: tag.toLowerCase().replace(/ /g, '-') },
-              }));
-
-              // Extract keywords from content for SEO
-              const content = parsedResult.content;
-              const plainText = content.replace(/<[^>]*>/g, '');
-              const words = plainText.toLowerCase().match(/\b\w{4,}\b/g) || [];
-              const wordFreq: Record<string, number> = {};
-              for (const word of words) {
-                wordFreq[word] = (wordFreq[word] || 0) + 1;
-              }
-              const entries = Object.entries(wordFreq) as Array<[string, number]>;
-              const topKeywords = entries
-                .sort((a, b) => b[1] - a[1])
-                .slice(0, 10)
-                .map(([word]) => word);
-
-              // Calculate reading time (200 words per minute)
-              const wordCount = plainText.split(/\s+/).length;
-              const readingTime = Math.ceil(wordCount / 200);
-
-              // Generate excerpt from first paragraph
-              const firstPara = content.match(/<p[^>]*>([^<]+)<\/p>/)?.[1] || parsedResult.summary || '';
-              const excerpt = firstPara.length > 160 ? `${firstPara.substring(0, 157)}...` : firstPara;
-
-              await this.blogService.createPost({
-                title: parsedResult.title,
-                content,
-                excerpt: excerpt,
-                slug: slug,
-                author: { connect: { id: authorId } },
-                status: 'DRAFT',
-                seoTitle: parsedResult.seoTitle,
-                seoDescription: parsedResult.seoDescription,
-                seoKeywords: [...topKeywords, ...tags.map((tag) => tag.toLowerCase())],
-                readingTime: readingTime,
-                ogTitle: parsedResult.seoTitle,
-                ogDescription: parsedResult.seoDescription,
-                twitterCard: 'summary_large_image',
-                tags: { connectOrCreate: tagConnections },
-                aiMetadata: isRecord(rawResult) ? rawResult : { generatedAt: new Date().toISOString() },
-              });
-              this.logger.log(`Blog post draft created: ${slug}`);
-            } else {
-              this.logger.warn('No user found to assign post to.');
-            }
-
-            result = isRecord(rawResult) ? rawResult : { success: true };
-            break;
-          }
-
-          case 'DISTRIBUTE_POST': {
-            const distPayload = parseDistributePostPayload(job.payload);
-            if (!distPayload.postId) {
-              throw new Error('Missing postId in DISTRIBUTE_POST payload');
-            }
-
-            await this.socialService.distributePost(
-              distPayload.postId,
-              distPayload.channels || [],
-            );
-            result = { success: true, channels: distPayload.channels || [] };
-            break;
-          }
-
-          case 'SEO_OPTIMIZE':
-            // ...
-            result = { success: false, message: 'SEO_OPTIMIZE not implemented' };
-            break;
-          default:
-            throw new Error(`Unknown job type: ${job.type}`);
-        }
-
-        // Success
-        await this.prisma.queueJob.update({
-          where: { id: job.id },
-          data: {
-            status: JobStatus.COMPLETED,
-            result: result || {},
-            processedAt: new Date(),
-          },
-        });
-        this.logger.log(`Job [${job.id}] completed`);
-      } catch (err) {
-        this.logger.error(
-          `Job [${job.id}] failed: ${getErrorMessage(err)}`,
-          getErrorStack(err),
-        );
-        await this.prisma.queueJob.update({
-          where: { id: job.id },
-          data: {
-            status: JobStatus.FAILED,
-            error: getErrorMessage(err),
-          },
+      while (!this.stopped && this.active.size < this.concurrency) {
+        const job = await this.claimNextJob();
+        if (!job) break;
+        this.active.add(job.id);
+        void this.runJob(job).finally(() => {
+          this.active.delete(job.id);
+          // A slot freed up; look for more work right away
+          this.schedule(0);
         });
       }
     } catch (error) {
@@ -279,7 +104,169 @@ export class QueueWorker implements OnModuleInit {
         getErrorStack(error),
       );
     } finally {
-      this.isProcessing = false;
+      this.ticking = false;
+      if (!this.timer) this.schedule(this.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Types that already have as many PROCESSING jobs as their handler allows.
+   * Counted across all workers; the limit is best-effort under races.
+   */
+  private async getSaturatedTypes(): Promise<string[]> {
+    const limited = this.registry.list().filter((handler) => handler.concurrency);
+    if (limited.length === 0) return [];
+
+    const counts = await this.prisma.queueJob.groupBy({
+      by: ['type'],
+      where: { status: JobStatus.PROCESSING, type: { in: limited.map((handler) => handler.type) } },
+      _count: { _all: true },
+    });
+
+    return counts
+      .filter((row) => row._count._all >= (this.registry.get(row.type)?.concurrency ?? Infinity))
+      .map((row) => row.type);
+  }
+
+  /**
+   * Atomic claim: SKIP LOCKED so concurrent workers never pick the same job
+   */
+  private async claimNextJob(): Promise<QueueJob | null> {
+    const saturated = await this.getSaturatedTypes();
+    const typeFilter = saturated.length > 0
+      ? Prisma.sql`AND type NOT IN (${Prisma.join(saturated)})`
+      : Prisma.empty;
+
+    const jobs = await this.prisma.$queryRaw<QueueJob[]>`
+      UPDATE "QueueJob"
+      SET status = 'PROCESSING',
+          "lockedAt" = NOW(),
+          "lockedBy" = ${this.workerId},
+          attempts = attempts + 1
+      WHERE id = (
+        SELECT id FROM "QueueJob"
+        WHERE status = 'PENDING' AND "runAt" <= NOW() ${typeFilter}
+        ORDER BY priority DESC, "runAt" ASC, "createdAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    return jobs[0] ?? null;
+  }
+
+  private async runJob(job: QueueJob) {
+    this.logger.log(`Processing job [${job.id}] type: ${job.type} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      const handler = this.registry.get(job.type);
+      if (!handler) {
+        throw new PermanentJobError(`Unknown job type: ${job.type}`);
+      }
+
+      const payload = handler.parse(job.payload);
+      const result = await handler.handle(payload, job);
+
+      const updated = await this.prisma.queueJob.updateMany({
+        where: { id: job.id, status: JobStatus.PROCESSING, lockedBy: this.workerId, lockedAt: job.lockedAt },
+        data: {
+          status: JobStatus.COMPLETED,
+          result,
+          error: null,
+          lockedAt: null,
+          lockedBy: null,
+          processedAt: new Date(),
+        },
+      });
+
+      if (updated.count === 0) {
+        this.logger.warn(`Job [${job.id}] completed after its lock was reclaimed; result discarded`);
+      } else {
+        this.logger.log(`Job [${job.id}] completed`);
+      }
+    } catch (error) {
+      await this.failJob(job, error).catch((updateError) => {
+        this.logger.error(
+          `Could not record failure of job [${job.id}]: ${getErrorMessage(updateError)}`,
+          getErrorStack(updateError),
+        );
+      });
+    }
+  }
+
+  private async failJob(job: QueueJob, error: unknown) {
+    const message = getErrorMessage(error);
+    const permanent = error instanceof PermanentJobError;
+    const exhausted = job.attempts >= job.maxAttempts;
+    const lockGuard = { id: job.id, status: JobStatus.PROCESSING, lockedBy: this.workerId, lockedAt: job.lockedAt };
+
+    if (permanent || exhausted) {
+      this.logger.error(
+        `Job [${job.id}] dead-lettered after ${job.attempts} attempt(s): ${message}`,
+        permanent ? undefined : getErrorStack(error),
+      );
+      await this.prisma.queueJob.updateMany({
+        where: lockGuard,
+        data: {
+          status: JobStatus.DEAD_LETTER,
+          error: message,
+          lockedAt: null,
+          lockedBy: null,
+          processedAt: new Date(),
+        },
+      });
+      return;
+    }
+
+    const delayMs = this.registry.getRetryDelay(job.type, job.attempts);
+    this.logger.warn(`Job [${job.id}] failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delayMs / 1000)}s: ${message}`);
+    await this.prisma.queueJob.updateMany({
+      where: lockGuard,
+      data: {
+        status: JobStatus.PENDING,
+        error: message,
+        runAt: new Date(Date.now() + delayMs),
+        lockedAt: null,
+        lockedBy: null,
+      },
+    });
+  }
+
+  /**
+   * Return PROCESSING jobs whose lock outlived the handler's timeout to the
+   * queue (counts as a failed attempt), or dead-letter them if exhausted.
+   */
+  private async recoverStaleJobs() {
+    const timeouts = this.registry.list().map((handler) => handler.lockTimeoutMs ?? this.lockTimeoutMs);
+    const minTimeout = Math.min(this.lockTimeoutMs, ...timeouts);
+    const now = Date.now();
+
+    const candidates = await this.prisma.queueJob.findMany({
+      where: {
+        status: JobStatus.PROCESSING,
+        OR: [{ lockedAt: null }, { lockedAt: { lt: new Date(now - minTimeout) } }],
+      },
+      select: { id: true, type: true, attempts: true, maxAttempts: true, lockedAt: true, lockedBy: true },
+      take: 100,
+    });
+
+    for (const job of candidates) {
+      const timeout = this.registry.get(job.type)?.lockTimeoutMs ?? this.lockTimeoutMs;
+      if (job.lockedAt && now - job.lockedAt.getTime() < timeout) continue;
+
+      const exhausted = job.attempts >= job.maxAttempts;
+      const error = `Lock held by ${job.lockedBy || 'unknown worker'} expired; worker crashed or job timed out`;
+      const updated = await this.prisma.queueJob.updateMany({
+        where: { id: job.id, status: JobStatus.PROCESSING, lockedAt: job.lockedAt },
+        data: exhausted
+          ? { status: JobStatus.DEAD_LETTER, error, lockedAt: null, lockedBy: null, processedAt: new Date() }
+          : { status: JobStatus.PENDING, error, runAt: new Date(), lockedAt: null, lockedBy: null },
+      });
+
+      if (updated.count > 0) {
+        this.logger.warn(`Reclaimed stale job [${job.id}] type: ${job.type}${exhausted ? ' (dead-lettered)' : ''}`);
+      }
     }
   }
 }
@@ -0,0 +1,122 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ProjectPhotoStage, QuoteStatus } from '@prisma/client';
+
+/** Sent as multipart form data, so numbers arrive as strings and lists may be comma-separated */
+export class SubmitQuoteDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(120)
+  name: string;
+
+  @IsEmail()
+  @MaxLength(150)
+  email: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  phone?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(80)
+  serviceType: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  propertyType?: string;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Room count must be a number' })
+  @IsPositive({ message: 'Room count must be a positive number' })
+  roomCount?: number;
+
+  @IsOptional()
+  @IsNumber({}, { message: 'Area must be a number' })
+  @IsPositive({ message: 'Area must be a positive number' })
+  areaSqm?: number;
+
+  @IsOptional()
+  @IsString({ each: true })
+  surfaces?: string | string[];
+
+  @IsOptional()
+  @IsString({ each: true })
+  preferredDates?: string | string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  message?: string;
+
+  @IsOptional()
+  @IsString()
+  captchaToken?: string;
+
+  @IsOptional()
+  @IsString()
+  captchaId?: string;
+
+  @IsOptional()
+  @IsString()
+  captchaType?: string;
+}
+
+export class ListQuotesQueryDto {
+  @IsOptional()
+  @IsInt()
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  @IsOptional()
+  @IsEnum(QuoteStatus)
+  status?: QuoteStatus;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
+
+export class UpdateQuoteDto {
+  @IsOptional()
+  @IsEnum(QuoteStatus, { message: 'Invalid quote status' })
+  status?: QuoteStatus;
+
+  // null clears the notes
+  @ValidateIf((_, value) => value !== null && value !== undefined)
+  @IsString()
+  @MaxLength(5000)
+  staffNotes?: string | null;
+}
+
+export class QuoteReplyDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Reply message is required' })
+  @MaxLength(5000)
+  message: string;
+}
+
+export class ProjectPhotosDto {
+  @IsEnum(ProjectPhotoStage, { message: 'Stage must be BEFORE or AFTER' })
+  stage: ProjectPhotoStage;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  caption?: string;
+}
@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { Request as ExpressRequest } from 'express';
+import { QuoteService } from './quote.service';
+import { AuthenticatedRequest } from '../common/types';
+import { Public } from '../auth/public.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CaptchaService } from '../captcha/captcha.service';
+import { ListQuotesQueryDto, ProjectPhotosDto, QuoteReplyDto, SubmitQuoteDto, UpdateQuoteDto } from './dto/quote.dto';
+
+@Controller('quotes')
+export class QuoteController {
+  constructor(
+    private readonly quoteService: QuoteService,
+    private readonly captchaService: CaptchaService,
+  ) {}
+
+  @Public()
+  @Post()
+  @UseInterceptors(FilesInterceptor('photos', 6))
+  async submitQuote(
+    @Body() body: SubmitQuoteDto,
+    @UploadedFiles() photos: Express.Multer.File[],
+    @Request() req: ExpressRequest,
+  ) {
+    const ip =
+      (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() ||
+      req.ip ||
+      req.connection?.remoteAddress ||
+      '0.0.0.0';
+
+    if (body.captchaToken) {
+      const valid = await this.captchaService.verify(body.captchaToken, ip, body.captchaId, body.captchaType);
+      if (!valid) throw new BadRequestException('Invalid Captcha');
+    }
+
+    const submission = this.quoteService.parseSubmission(body);
+    return this.quoteService.createQuote(submission, photos || [], { ipAddress: ip });
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get()
+  listQuotes(@Query() query: ListQuotesQueryDto) {
+    return this.quoteService.listQuotes(query);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get('summary')
+  getSummary() {
+    return this.quoteService.getPipelineSummary();
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Get(':id')
+  getQuote(@Param('id') id: string) {
+    return this.quoteService.getQuote(id);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Patch(':id')
+  updateQuote(@Param('id') id: string, @Body() body: UpdateQuoteDto) {
+    return this.quoteService.updateQuote(id, body);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Post(':id/replies')
+  addReply(@Param('id') id: string, @Body() body: QuoteReplyDto, @Request() req: AuthenticatedRequest) {
+    return this.quoteService.addReply(id, body, req.user?.id || req.user?.userId);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Post(':id/project-photos')
+  @UseInterceptors(FilesInterceptor('photos', 10))
+  addProjectPhotos(
+    @Param('id') id: string,
+    @UploadedFiles() photos: Express.Multer.File[],
+    @Body() body: ProjectPhotosDto,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.quoteService.addProjectPhotos(id, photos || [], body, req.user?.id || req.user?.userId);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR')
+  @Delete(':id/project-photos/:photoId')
+  deleteProjectPhoto(@Param('id') id: string, @Param('photoId') photoId: string) {
+    return this.quoteService.deleteProjectPhoto(id, photoId);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN')
+  @Delete(':id')
+  deleteQuote(@Param('id') id: string) {
+    return this.quoteService.deleteQuote(id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { QuoteService } from './quote.service';
+import { QuoteController } from './quote.controller';
+import { CaptchaModule } from '../captcha/captcha.module';
+import { PrismaModule } from '../prisma/prisma.module';
+import { MediaModule } from '../media/media.module';
+
+@Module({
+  imports: [CaptchaModule, PrismaModule, MediaModule],
+  controllers: [QuoteController],
+  providers: [QuoteService],
+  exports: [QuoteService],
+})
+export class QuoteModule {}
@@ -0,0 +1,352 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, QuoteStatus, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { MediaService } from '../media/media.service';
+import { MailService } from '../mail/mail.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { ListQuotesQueryDto, ProjectPhotosDto, QuoteReplyDto, SubmitQuoteDto, UpdateQuoteDto } from './dto/quote.dto';
+
+const MAX_PAGE_SIZE = 100;
+const MAX_PHOTOS = 6;
+const MAX_PREFERRED_DATES = 5;
+const MAX_PROJECT_PHOTOS_PER_UPLOAD = 10;
+
+const PHOTO_SELECT = { id: true, url: true, variants: true, originalName: true } as const;
+
+// Conversation and before/after photos shown alongside a quote
+const QUOTE_DETAIL_INCLUDE = {
+  photos: { select: PHOTO_SELECT },
+  replies: {
+    orderBy: { createdAt: 'asc' },
+    include: { author: { select: { id: true, username: true, firstName: true, lastName: true } } },
+  },
+  projectPhotos: {
+    orderBy: { createdAt: 'asc' },
+    include: { media: { select: PHOTO_SELECT } },
+  },
+} satisfies Prisma.QuoteRequestInclude;
+
+// Allowed moves through the pipeline. WON/LOST can be reopened to ESTIMATED.
+const STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  [QuoteStatus.NEW]: [QuoteStatus.SITE_VISIT_BOOKED, QuoteStatus.ESTIMATED, QuoteStatus.LOST],
+  [QuoteStatus.SITE_VISIT_BOOKED]: [QuoteStatus.NEW, QuoteStatus.ESTIMATED, QuoteStatus.LOST],
+  [QuoteStatus.ESTIMATED]: [QuoteStatus.SITE_VISIT_BOOKED, QuoteStatus.WON, QuoteStatus.LOST],
+  [QuoteStatus.WON]: [QuoteStatus.ESTIMATED],
+  [QuoteStatus.LOST]: [QuoteStatus.NEW, QuoteStatus.ESTIMATED],
+};
+
+export type QuoteSubmission = {
+  name: string;
+  email: string;
+  phone: string | null;
+  serviceType: string;
+  propertyType: string | null;
+  roomCount: number | null;
+  areaSqm: number | null;
+  surfaces: string[];
+  preferredDates: Date[];
+  message: string | null;
+};
+
+/**
+ * Quote Service
+ * Stores structured quote requests from get-quote and moves them through the
+ * NEW -> SITE_VISIT_BOOKED -> ESTIMATED -> WON/LOST pipeline.
+ */
+@Injectable()
+export class QuoteService {
+  private readonly logger = new Logger(QuoteService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private mediaService: MediaService,
+    private mailService: MailService,
+  ) {}
+
+  /** Multipart lists arrive as one comma-separated string */
+  private normalizeStringArray(value: string | string[] | undefined): string[] {
+    const items = Array.isArray(value) ? value : (value ?? '').split(',');
+    return items.map((item) => item.trim()).filter(Boolean);
+  }
+
+  private optionalText(value: string | null | undefined, maxLength: number): string | null {
+    if (typeof value !== 'string') return null;
+    const text = SanitizationUtil.sanitizeText(value).slice(0, maxLength);
+    return text || null;
+  }
+
+  private optionalPositive(value: number | undefined, integer: boolean): number | null {
+    if (value === undefined) return null;
+    return integer ? Math.round(value) : Math.round(value * 100) / 100;
+  }
+
+  parseSubmission(body: SubmitQuoteDto): QuoteSubmission {
+    const name = this.optionalText(body.name, 120);
+    if (!name) {
+      throw new BadRequestException('Name is required');
+    }
+    const email = SanitizationUtil.sanitizeEmail(body.email);
+    if (!email) {
+      throw new BadRequestException('Invalid email address');
+    }
+    const serviceType = this.optionalText(body.serviceType, 80);
+    if (!serviceType) {
+      throw new BadRequestException('Service type is required');
+    }
+
+    const surfaces = Array.from(
+      new Set(this.normalizeStringArray(body.surfaces).map((item) => SanitizationUtil.sanitizeText(item).slice(0, 40))),
+    ).filter(Boolean);
+
+    const preferredDates = this.normalizeStringArray(body.preferredDates)
+      .map((item) => new Date(item))
+      .filter((date) => !Number.isNaN(date.getTime()))
+      .slice(0, MAX_PREFERRED_DATES);
+
+    return {
+      name,
+      email,
+      phone: this.optionalText(body.phone, 40),
+      serviceType,
+      propertyType: this.optionalText(body.propertyType, 80),
+      roomCount: this.optionalPositive(body.roomCount, true),
+      areaSqm: this.optionalPositive(body.areaSqm, false),
+      surfaces,
+      preferredDates,
+      message: this.optionalText(body.message, 2000),
+    };
+  }
+
+  private async resolveUploaderId() {
+    // Anonymous customers have no user record, so photos are filed under an admin
+    const admin = await this.prisma.user.findFirst({
+      where: { role: { in: [Role.SUPER_ADMIN, Role.ADMINISTRATOR] } },
+      select: { id: true },
+    });
+    return admin?.id;
+  }
+
+  async createQuote(
+    submission: QuoteSubmission,
+    photos: Express.Multer.File[] = [],
+    meta: { ipAddress?: string } = {},
+  ) {
+    if (photos.length > MAX_PHOTOS) {
+      throw new BadRequestException(`A maximum of ${MAX_PHOTOS} photos can be attached`);
+    }
+
+    const photoIds: string[] = [];
+    if (photos.length > 0) {
+      const uploaderId = await this.resolveUploaderId();
+      if (!uploaderId) {
+        throw new BadRequestException('Photo uploads are not available right now');
+      }
+      for (const photo of photos) {
+        const media = await this.mediaService.uploadFile(photo, uploaderId, 'quotes');
+        photoIds.push(media.id);
+      }
+    }
+
+    const quote = await this.prisma.quoteRequest.create({
+      data: {
+        ...submission,
+        ipAddress: meta.ipAddress,
+        photos: photoIds.length ? { connect: photoIds.map((id) => ({ id })) } : undefined,
+      },
+      select: { id: true, status: true, createdAt: true },
+    });
+
+    this.logger.log(`Quote request ${quote.id} received (${submission.serviceType})`);
+    return quote;
+  }
+
+  async listQuotes(query: ListQuotesQueryDto) {
+    const page = Math.max(1, query.page ?? 1);
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? 20));
+    const status = query.status;
+    const search = query.search?.trim() ?? '';
+
+    const where: Prisma.QuoteRequestWhereInput = {};
+    if (status) where.status = status;
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } },
+        { phone: { contains: search } },
+        { serviceType: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      this.prisma.quoteRequest.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          photos: { select: { id: true, url: true, variants: true, originalName: true } },
+        },
+      }),
+      this.prisma.quoteRequest.count({ where }),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getPipelineSummary() {
+    const grouped = await this.prisma.quoteRequest.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
+    const summary = Object.values(QuoteStatus).reduce<Record<string, number>>((acc, status) => {
+      acc[status] = 0;
+      return acc;
+    }, {});
+    grouped.forEach((row) => {
+      summary[row.status] = row._count._all;
+    });
+    return summary;
+  }
+
+  async getQuote(id: string) {
+    const quote = await this.prisma.quoteRequest.findUnique({
+      where: { id },
+      include: QUOTE_DETAIL_INCLUDE,
+    });
+    if (!quote) {
+      throw new NotFoundException('Quote request not found');
+    }
+    return quote;
+  }
+
+  async updateQuote(id: string, body: UpdateQuoteDto) {
+    const existing = await this.prisma.quoteRequest.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+    if (!existing) {
+      throw new NotFoundException('Quote request not found');
+    }
+
+    const data: Prisma.QuoteRequestUpdateInput = {};
+
+    if (body.status !== undefined) {
+      const status = body.status;
+      if (status !== existing.status) {
+        if (!STATUS_TRANSITIONS[existing.status].includes(status)) {
+          throw new BadRequestException(`Cannot move a quote from ${existing.status} to ${status}`);
+        }
+        data.status = status;
+        data.statusChangedAt = new Date();
+      }
+    }
+
+    if (body.staffNotes !== undefined) {
+      data.staffNotes = this.optionalText(body.staffNotes, 5000);
+    }
+
+    return this.prisma.quoteRequest.update({
+      where: { id },
+      data,
+      include: {
+        photos: { select: { id: true, url: true, variants: true, originalName: true } },
+      },
+    });
+  }
+
+  /**
+   * Adds a staff reply to the quote conversation and emails the customer a
+   * pointer to their account.
+   */
+  async addReply(id: string, body: QuoteReplyDto, authorId?: string) {
+    const message = this.optionalText(body.message, 5000);
+    if (!message) {
+      throw new BadRequestException('Reply message is required');
+    }
+    const quote = await this.prisma.quoteRequest.findUnique({
+      where: { id },
+      select: { id: true, name: true, email: true, serviceType: true },
+    });
+    if (!quote) {
+      throw new NotFoundException('Quote request not found');
+    }
+
+    const reply = await this.prisma.enquiryReply.create({
+      data: { quoteRequestId: quote.id, authorId: authorId || null, message },
+      include: QUOTE_DETAIL_INCLUDE.replies.include,
+    });
+
+    try {
+      await this.mailService.sendEnquiryReplyEmail(
+        quote.email,
+        { subject: `Update on your ${quote.serviceType} quote`, message },
+        quote.name,
+      );
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.warn(`Reply on quote ${quote.id} saved but email failed: ${reason}`);
+    }
+    return reply;
+  }
+
+  async addProjectPhotos(id: string, files: Express.Multer.File[], body: ProjectPhotosDto, uploaderId?: string) {
+    const { stage } = body;
+    if (!files.length) {
+      throw new BadRequestException('No photos provided');
+    }
+    if (files.length > MAX_PROJECT_PHOTOS_PER_UPLOAD) {
+      throw new BadRequestException(`A maximum of ${MAX_PROJECT_PHOTOS_PER_UPLOAD} photos can be uploaded at once`);
+    }
+    if (!uploaderId) {
+      throw new BadRequestException('Uploader is required');
+    }
+    const quote = await this.prisma.quoteRequest.findUnique({ where: { id }, select: { id: true } });
+    if (!quote) {
+      throw new NotFoundException('Quote request not found');
+    }
+
+    const caption = this.optionalText(body.caption, 200);
+    const created = [];
+    for (const file of files) {
+      const media = await this.mediaService.uploadFile(file, uploaderId, 'projects');
+      created.push(await this.prisma.projectPhoto.create({
+        data: { quoteRequestId: quote.id, mediaId: media.id, stage, caption },
+        include: QUOTE_DETAIL_INCLUDE.projectPhotos.include,
+      }));
+    }
+    return created;
+  }
+
+  async deleteProjectPhoto(id: string, photoId: string) {
+    const photo = await this.prisma.projectPhoto.findFirst({
+      where: { id: photoId, quoteRequestId: id },
+      select: { id: true },
+    });
+    if (!photo) {
+      throw new NotFoundException('Project photo not found');
+    }
+    // The media item stays in the library; only the link to this project is removed
+    await this.prisma.projectPhoto.delete({ where: { id: photo.id } });
+    return { success: true };
+  }
+
+  async deleteQuote(id: string) {
+    const existing = await this.prisma.quoteRequest.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      throw new NotFoundException('Quote request not found');
+    }
+    await this.prisma.quoteRequest.delete({ where: { id } });
+    return { success: true };
+  }
+}
@@ -0,0 +1,38 @@
+import { IsBoolean, IsEnum, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { ReviewCommentStatus } from '@prisma/client';
+
+// Text is trimmed and truncated by PostReviewService
+
+export class CreateReviewCommentDto {
+  /** Index into the post's top-level HTML blocks; the upper bound is checked by the service */
+  @IsInt({ message: 'blockIndex must point at a paragraph of the post' })
+  @Min(0, { message: 'blockIndex must point at a paragraph of the post' })
+  blockIndex: number;
+
+  @IsString({ message: 'Comment text is required' })
+  body: string;
+
+  /** Replacement text the author can apply in one click */
+  @IsOptional()
+  @IsString()
+  suggestion?: string;
+}
+
+export class ReviewCommentStatusDto {
+  @IsEnum(ReviewCommentStatus, { message: 'status must be OPEN or RESOLVED' })
+  status: ReviewCommentStatus;
+}
+
+/** Notes are required when rejecting */
+export class ReviewDecisionDto {
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class ApproveReviewDto extends ReviewDecisionDto {
+  /** Approves despite blocking checklist items */
+  @IsOptional()
+  @IsBoolean()
+  override?: boolean;
+}
@@ -0,0 +1,99 @@
+import { Body, Controller, Get, Param, Patch, Post, Request, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import { PostReviewService } from './post-review.service';
+import { ApproveReviewDto, CreateReviewCommentDto, ReviewCommentStatusDto, ReviewDecisionDto } from './dto/post-review.dto';
+
+@Controller('blog/review')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('EDITOR', 'ADMINISTRATOR', 'SUPER_ADMIN')
+export class PostReviewController {
+  constructor(private readonly postReviewService: PostReviewService) {}
+
+  /**
+   * Posts awaiting AI review
+   * GET /blog/review
+   */
+  @Get()
+  async getQueue() {
+    return this.postReviewService.getQueue();
+  }
+
+  /**
+   * Post with its prompt, comments, checklist and audit trail
+   * GET /blog/review/:postId
+   */
+  @Get(':postId')
+  async getReview(@Param('postId') postId: string) {
+    return this.postReviewService.getReview(postId);
+  }
+
+  /**
+   * GET /blog/review/:postId/checklist
+   */
+  @Get(':postId/checklist')
+  async getChecklist(@Param('postId') postId: string) {
+    return this.postReviewService.getChecklist(postId);
+  }
+
+  /**
+   * Comment on a paragraph, optionally with replacement text
+   * POST /blog/review/:postId/comments
+   */
+  @Post(':postId/comments')
+  async addComment(@Param('postId') postId: string, @Body() dto: CreateReviewCommentDto, @Request() req: AuthenticatedRequest) {
+    return this.postReviewService.addComment(postId, dto, req.user.id);
+  }
+
+  /**
+   * Resolve or reopen a comment
+   * PATCH /blog/review/:postId/comments/:commentId
+   */
+  @Patch(':postId/comments/:commentId')
+  async updateComment(
+    @Param('postId') postId: string,
+    @Param('commentId') commentId: string,
+    @Body() dto: ReviewCommentStatusDto,
+  ) {
+    return this.postReviewService.updateComment(postId, commentId, dto);
+  }
+
+  /**
+   * POST /blog/review/:postId/comments/:commentId/apply
+   */
+  @Post(':postId/comments/:commentId/apply')
+  async applySuggestion(
+    @Param('postId') postId: string,
+    @Param('commentId') commentId: string,
+    @Request() req: AuthenticatedRequest,
+  ) {
+    return this.postReviewService.applySuggestion(postId, commentId, req.user.id);
+  }
+
+  /**
+   * POST /blog/review/:postId/approve
+   */
+  @Post(':postId/approve')
+  async approve(@Param('postId') postId: string, @Body() dto: ApproveReviewDto, @Request() req: AuthenticatedRequest) {
+    return this.postReviewService.approve(postId, dto, req.user.id);
+  }
+
+  /**
+   * POST /blog/review/:postId/reject
+   */
+  @Post(':postId/reject')
+  async reject(@Param('postId') postId: string, @Body() dto: ReviewDecisionDto, @Request() req: AuthenticatedRequest) {
+    return this.postReviewService.reject(postId, dto, req.user.id);
+  }
+
+  /**
+   * Queue an AI revision of the commented paragraphs
+   * POST /blog/review/:postId/request-changes
+   */
+  @Post(':postId/request-changes')
+  async requestChanges(@Param('postId') postId: string, @Body() dto: ReviewDecisionDto, @Request() req: AuthenticatedRequest) {
+    return this.postReviewService.requestChanges(postId, dto, req.user.id);
+  }
+}
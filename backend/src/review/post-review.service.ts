@@ -0,0 +1,364 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PostRevisionSource, PostStatus, Prisma, ReviewAction, ReviewCommentStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueService } from '../queue/queue.service';
+import { AiBlogService } from '../blog/ai-blog.service';
+import { SEOAuditService } from '../blog/seo-audit.service';
+import { PostRevisionService } from '../blog/post-revision.service';
+import { blockText, findBlock, joinHtmlBlocks, splitHtmlBlocks } from '../blog/html-blocks';
+import { REVISE_POST_JOB, RevisePostPayload } from './revise-post.handler';
+import { ApproveReviewDto, CreateReviewCommentDto, ReviewCommentStatusDto, ReviewDecisionDto } from './dto/post-review.dto';
+
+const MAX_NOTES_LENGTH = 2000;
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_SUGGESTION_LENGTH = 5000;
+
+const USER_SELECT = { id: true, username: true, displayName: true } as const;
+
+/** Events that open or close a revision; the latest one tells whether a revision is queued */
+const REVISION_ACTIONS: ReviewAction[] = [ReviewAction.CHANGES_REQUESTED, ReviewAction.REVISED, ReviewAction.REVISION_FAILED];
+
+export type ReviewChecklist = {
+  requirements: { valid: boolean; errors: string[] };
+  seo: {
+    score: number;
+    checks: Array<{ category: string; name: string; status: string; message: string }>;
+  } | null;
+  /** Problems that stop approval unless the reviewer overrides them */
+  blocking: string[];
+};
+
+const optionalText = (value: string | undefined, maxLength: number): string | undefined => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : undefined;
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Editorial review of AI posts (status AI_REVIEW): paragraph comments and
+ * suggestions, a checklist from validatePostRequirements and auditPost,
+ * and decisions recorded in PostReviewEvent. Requesting changes queues a
+ * REVISE_POST job that rewrites only the commented blocks.
+ */
+@Injectable()
+export class PostReviewService {
+  private readonly logger = new Logger(PostReviewService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private queueService: QueueService,
+    private aiBlogService: AiBlogService,
+    private seoAuditService: SEOAuditService,
+    private postRevisionService: PostRevisionService,
+  ) {}
+
+  async getQueue() {
+    const posts = await this.prisma.post.findMany({
+      where: { status: PostStatus.AI_REVIEW },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        createdAt: true,
+        aiModel: true,
+        wordCount: true,
+        author: { select: USER_SELECT },
+        promptVersion: { select: { version: true, template: { select: { name: true } } } },
+        _count: { select: { reviewComments: { where: { status: ReviewCommentStatus.OPEN } } } },
+        reviewEvents: { orderBy: { createdAt: 'desc' }, take: 1, select: { action: true, createdAt: true } },
+      },
+    });
+    const revisions = await this.prisma.postReviewEvent.findMany({
+      where: { postId: { in: posts.map((post) => post.id) }, action: { in: REVISION_ACTIONS } },
+      orderBy: { createdAt: 'desc' },
+      distinct: ['postId'],
+      select: { postId: true, action: true },
+    });
+    const pending = new Set(revisions
+      .filter((event) => event.action === ReviewAction.CHANGES_REQUESTED)
+      .map((event) => event.postId));
+
+    return posts.map(({ _count, reviewEvents, ...post }) => ({
+      ...post,
+      openComments: _count.reviewComments,
+      lastEvent: reviewEvents[0] ?? null,
+      revisionPending: pending.has(post.id),
+    }));
+  }
+
+  async getReview(postId: string) {
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId },
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        status: true,
+        content: true,
+        excerpt: true,
+        aiGenerated: true,
+        aiModel: true,
+        aiPrompt: true,
+        reviewNotes: true,
+        reviewedAt: true,
+        reviewedBy: true,
+        createdAt: true,
+        promptVersion: { select: { id: true, version: true, template: { select: { id: true, name: true } } } },
+      },
+    });
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+
+    const [comments, events, checklist] = await Promise.all([
+      this.prisma.postReviewComment.findMany({
+        where: { postId },
+        orderBy: { createdAt: 'asc' },
+        include: { author: { select: USER_SELECT } },
+      }),
+      this.prisma.postReviewEvent.findMany({
+        where: { postId },
+        orderBy: { createdAt: 'desc' },
+        include: { actor: { select: USER_SELECT } },
+      }),
+      this.getChecklist(postId),
+    ]);
+
+    // Comments follow their paragraph when blocks are added or removed above it
+    const blocks = splitHtmlBlocks(post.content);
+    return {
+      post,
+      comments: comments.map((comment) => ({
+        ...comment,
+        blockIndex: findBlock(blocks, comment.blockIndex, comment.quote),
+      })),
+      events,
+      checklist,
+      revisionPending: events.find((event) => REVISION_ACTIONS.includes(event.action))?.action === ReviewAction.CHANGES_REQUESTED,
+    };
+  }
+
+  async getChecklist(postId: string): Promise<ReviewChecklist> {
+    const requirements = await this.aiBlogService.validatePostRequirements(postId);
+    let seo: ReviewChecklist['seo'] = null;
+    try {
+      const audit = await this.seoAuditService.auditPost(postId);
+      seo = {
+        score: audit.score,
+        checks: audit.checks.map(({ category, name, status, message }) => ({ category, name, status, message })),
+      };
+    } catch (error) {
+      this.logger.warn(`SEO audit failed for post ${postId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const blocking = [
+      ...requirements.errors,
+      ...(seo?.checks ?? [])
+        .filter((check) => check.category === 'Critical' && check.status === 'fail')
+        .map((check) => `${check.name}: ${check.message}`),
+    ];
+    return { requirements, seo, blocking };
+  }
+
+  async addComment(postId: string, body: CreateReviewCommentDto, userId: string) {
+    const post = await this.getReviewablePost(postId);
+    const blocks = splitHtmlBlocks(post.content);
+    const { blockIndex } = body;
+    if (blockIndex >= blocks.length) {
+      throw new BadRequestException('blockIndex must point at a paragraph of the post');
+    }
+    const text = optionalText(body.body, MAX_COMMENT_LENGTH);
+    if (!text) {
+      throw new BadRequestException('Comment text is required');
+    }
+
+    const comment = await this.prisma.postReviewComment.create({
+      data: {
+        postId,
+        authorId: userId,
+        blockIndex,
+        quote: blockText(blocks[blockIndex]),
+        body: text,
+        suggestion: optionalText(body.suggestion, MAX_SUGGESTION_LENGTH),
+      },
+      include: { author: { select: USER_SELECT } },
+    });
+    await this.recordEvent(postId, userId, ReviewAction.COMMENTED, undefined, { commentId: comment.id, blockIndex });
+    return comment;
+  }
+
+  /** Resolve or reopen a comment */
+  async updateComment(postId: string, commentId: string, body: ReviewCommentStatusDto) {
+    await this.getComment(postId, commentId);
+    return this.prisma.postReviewComment.update({
+      where: { id: commentId },
+      data: {
+        status: body.status,
+        resolvedAt: body.status === ReviewCommentStatus.RESOLVED ? new Date() : null,
+      },
+      include: { author: { select: USER_SELECT } },
+    });
+  }
+
+  /** Replace the commented paragraph's text with the suggestion, keeping its tag */
+  async applySuggestion(postId: string, commentId: string, userId: string) {
+    const comment = await this.getComment(postId, commentId);
+    if (!comment.suggestion) {
+      throw new BadRequestException('This comment has no suggestion');
+    }
+    const post = await this.getReviewablePost(postId);
+    const blocks = splitHtmlBlocks(post.content);
+    const index = findBlock(blocks, comment.blockIndex, comment.quote);
+    if (index === -1) {
+      throw new BadRequestException('The commented paragraph no longer exists');
+    }
+
+    const before = blocks[index];
+    const tag = before.match(/^<([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/);
+    const inner = escapeHtml(comment.suggestion);
+    blocks[index] = tag && before.endsWith(`</${tag[1]}>`)
+      ? `${tag[0]}${inner}</${tag[1]}>`
+      : `<p>${inner}</p>`;
+
+    await this.postRevisionService.ensureBaseline(postId);
+    await this.prisma.$transaction([
+      this.prisma.post.update({ where: { id: postId }, data: { content: joinHtmlBlocks(blocks) } }),
+      this.prisma.postReviewComment.update({
+        where: { id: commentId },
+        data: { status: ReviewCommentStatus.RESOLVED, resolvedAt: new Date(), blockIndex: index, quote: blockText(blocks[index]) },
+      }),
+    ]);
+    await this.postRevisionService.record(postId, {
+      source: PostRevisionSource.REVIEW,
+      reason: 'Review suggestion applied',
+      authorId: userId,
+    });
+    await this.recordEvent(postId, userId, ReviewAction.SUGGESTION_APPLIED, undefined, {
+      commentId,
+      changes: [{ index, before, after: blocks[index] }],
+    });
+    return this.getReview(postId);
+  }
+
+  /** Move to APPROVED_DRAFT. Blocking checklist items need `override: true`. */
+  async approve(postId: string, input: ApproveReviewDto, userId: string) {
+    await this.getReviewablePost(postId);
+    const checklist = await this.getChecklist(postId);
+    const override = input.override ?? false;
+    if (checklist.blocking.length > 0 && !override) {
+      throw new BadRequestException(`Checklist has ${checklist.blocking.length} blocking item(s); approve with override to continue`);
+    }
+    const notes = optionalText(input.notes, MAX_NOTES_LENGTH);
+    await this.decide(postId, userId, PostStatus.APPROVED_DRAFT, ReviewAction.APPROVED, notes, {
+      override,
+      blocking: checklist.blocking,
+      seoScore: checklist.seo?.score ?? null,
+    });
+    return this.getReview(postId);
+  }
+
+  /** Back to DRAFT; counted as a rejection in prompt version outcomes */
+  async reject(postId: string, input: ReviewDecisionDto, userId: string) {
+    await this.getReviewablePost(postId);
+    const notes = optionalText(input.notes, MAX_NOTES_LENGTH);
+    if (!notes) {
+      throw new BadRequestException('Explain why the post is rejected');
+    }
+    await this.decide(postId, userId, PostStatus.DRAFT, ReviewAction.REJECTED, notes);
+    return this.getReview(postId);
+  }
+
+  /**
+   * Queue a REVISE_POST job for the blocks with open comments. With no open
+   * comments the whole post is revised against the notes.
+   */
+  async requestChanges(postId: string, input: ReviewDecisionDto, userId: string) {
+    await this.getReviewablePost(postId);
+    const latest = await this.prisma.postReviewEvent.findFirst({
+      where: { postId, action: { in: REVISION_ACTIONS } },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (latest?.action === ReviewAction.CHANGES_REQUESTED) {
+      throw new BadRequestException('A revision is already queued for this post');
+    }
+
+    const notes = optionalText(input.notes, MAX_NOTES_LENGTH);
+    const comments = await this.prisma.postReviewComment.findMany({
+      where: { postId, status: ReviewCommentStatus.OPEN },
+      select: { id: true },
+    });
+    if (comments.length === 0 && !notes) {
+      throw new BadRequestException('Add paragraph comments or notes describing the changes');
+    }
+
+    const payload: RevisePostPayload = { postId, commentIds: comments.map((comment) => comment.id), notes, requestedBy: userId };
+    const job = await this.queueService.addJob(REVISE_POST_JOB, payload);
+    await this.prisma.post.update({
+      where: { id: postId },
+      data: { reviewNotes: notes ?? null, reviewedBy: userId, reviewedAt: new Date() },
+    });
+    await this.recordEvent(postId, userId, ReviewAction.CHANGES_REQUESTED, notes, {
+      jobId: job.id,
+      commentIds: payload.commentIds,
+    });
+    this.logger.log(`Changes requested on post ${postId}; revision job ${job.id} queued`);
+    return this.getReview(postId);
+  }
+
+  async recordEvent(
+    postId: string,
+    actorId: string | null,
+    action: ReviewAction,
+    notes?: string,
+    details?: Prisma.InputJsonValue,
+  ) {
+    return this.prisma.postReviewEvent.create({
+      data: { postId, actorId, action, notes, details },
+    });
+  }
+
+  private async decide(
+    postId: string,
+    userId: string,
+    status: PostStatus,
+    action: ReviewAction,
+    notes: string | undefined,
+    details?: Prisma.InputJsonValue,
+  ) {
+    await this.prisma.$transaction([
+      this.prisma.post.update({
+        where: { id: postId },
+        data: { status, reviewedBy: userId, reviewedAt: new Date(), reviewNotes: notes ?? null },
+      }),
+      this.prisma.postReviewEvent.create({
+        data: { postId, actorId: userId, action, notes, details },
+      }),
+    ]);
+    this.logger.log(`Post ${postId} ${action.toLowerCase()} by ${userId}`);
+  }
+
+  private async getReviewablePost(postId: string) {
+    const post = await this.prisma.post.findUnique({ where: { id: postId }, select: { id: true, status: true, content: true } });
+    if (!post) {
+      throw new NotFoundException('Post not found');
+    }
+    if (post.status !== PostStatus.AI_REVIEW) {
+      throw new BadRequestException('Only posts awaiting AI review can be reviewed');
+    }
+    return post;
+  }
+
+  private async getComment(postId: string, commentId: string) {
+    const comment = await this.prisma.postReviewComment.findFirst({ where: { id: commentId, postId } });
+    if (!comment) {
+      throw new NotFoundException('Review comment not found');
+    }
+    return comment;
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AiModule } from '../ai/ai.module';
+import { BlogModule } from '../blog/blog.module';
+import { QueueModule } from '../queue/queue.module';
+import { PostReviewController } from './post-review.controller';
+import { PostReviewService } from './post-review.service';
+import { RevisePostHandler } from './revise-post.handler';
+
+// Separate from BlogModule because QueueModule already depends on BlogModule
+@Module({
+  imports: [PrismaModule, AiModule, BlogModule, QueueModule],
+  controllers: [PostReviewController],
+  providers: [PostReviewService, RevisePostHandler],
+})
+export class ReviewModule {}
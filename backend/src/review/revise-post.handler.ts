@@ -0,0 +1,175 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { PostRevisionSource, PostStatus, Prisma, QueueJob, ReviewAction, ReviewCommentStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AiService } from '../ai/ai.service';
+import { AiBudgetExceededError } from '../ai/ai.errors';
+import { countHtmlWords, findBlock, joinHtmlBlocks, splitHtmlBlocks } from '../blog/html-blocks';
+import { PostRevisionService } from '../blog/post-revision.service';
+import { SanitizationUtil } from '../common/utils/sanitization.util';
+import { JobHandler } from '../queue/interfaces/job-handler.interface';
+import { PermanentJobError } from '../queue/queue.errors';
+import { QueueRegistry } from '../queue/queue.registry';
+
+export const REVISE_POST_JOB = 'REVISE_POST';
+
+export type RevisePostPayload = {
+  postId: string;
+  /** Open comments the revision should address */
+  commentIds: string[];
+  notes?: string;
+  requestedBy?: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+/**
+ * REVISE_POST
+ * Rewrites the blocks of an AI_REVIEW post that reviewers commented on and
+ * records a REVISED review event with the before/after of each block.
+ */
+@Injectable()
+export class RevisePostHandler implements JobHandler<RevisePostPayload>, OnModuleInit {
+  readonly type = REVISE_POST_JOB;
+  readonly maxAttempts = 3;
+  readonly concurrency = 1;
+  readonly lockTimeoutMs = 10 * 60 * 1000;
+  readonly backoff = { baseDelayMs: 60_000, maxDelayMs: 30 * 60 * 1000 };
+
+  private readonly logger = new Logger(RevisePostHandler.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private aiService: AiService,
+    private registry: QueueRegistry,
+    private postRevisionService: PostRevisionService,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register(this);
+  }
+
+  parse(value: Prisma.JsonValue): RevisePostPayload {
+    const payload = isRecord(value) ? value : {};
+    if (typeof payload.postId !== 'string' || !payload.postId) {
+      throw new PermanentJobError('Missing postId in REVISE_POST payload');
+    }
+    return {
+      postId: payload.postId,
+      commentIds: Array.isArray(payload.commentIds)
+        ? payload.commentIds.filter((id): id is string => typeof id === 'string')
+        : [],
+      notes: typeof payload.notes === 'string' ? payload.notes : undefined,
+      requestedBy: typeof payload.requestedBy === 'string' ? payload.requestedBy : undefined,
+    };
+  }
+
+  async handle(payload: RevisePostPayload, job: QueueJob): Promise<Prisma.InputJsonValue> {
+    try {
+      return await this.revise(payload, job);
+    } catch (error) {
+      const permanent = error instanceof PermanentJobError || error instanceof AiBudgetExceededError;
+      if (permanent || job.attempts >= job.maxAttempts) {
+        const message = error instanceof Error ? error.message : String(error);
+        await this.prisma.postReviewEvent.create({
+          data: {
+            postId: payload.postId,
+            action: ReviewAction.REVISION_FAILED,
+            notes: message,
+            details: { jobId: job.id },
+          },
+        }).catch(() => undefined); // the post may be gone
+      }
+      // Retrying within the backoff window would hit the same budget
+      if (error instanceof AiBudgetExceededError) throw new PermanentJobError(error.message);
+      throw error;
+    }
+  }
+
+  private async revise(payload: RevisePostPayload, job: QueueJob): Promise<Prisma.InputJsonValue> {
+    const post = await this.prisma.post.findUnique({
+      where: { id: payload.postId },
+      select: { id: true, title: true, content: true, status: true },
+    });
+    if (!post) {
+      throw new PermanentJobError(`Post ${payload.postId} not found`);
+    }
+    if (post.status !== PostStatus.AI_REVIEW) {
+      throw new PermanentJobError(`Post ${post.id} is no longer awaiting review`);
+    }
+
+    const comments = await this.prisma.postReviewComment.findMany({
+      where: { id: { in: payload.commentIds }, postId: post.id, status: ReviewCommentStatus.OPEN },
+    });
+    const blocks = splitHtmlBlocks(post.content);
+    const feedback = new Map<number, string[]>();
+    for (const comment of comments) {
+      const index = findBlock(blocks, comment.blockIndex, comment.quote);
+      if (index === -1) continue;
+      const notes = feedback.get(index) ?? [];
+      notes.push(comment.suggestion ? `${comment.body}\nSuggested text: ${comment.suggestion}` : comment.body);
+      feedback.set(index, notes);
+    }
+    // Notes without paragraph comments apply to the whole post
+    if (feedback.size === 0 && payload.notes) {
+      blocks.forEach((_, index) => feedback.set(index, []));
+    }
+    if (feedback.size === 0) {
+      throw new PermanentJobError('Nothing to revise: the commented paragraphs no longer exist');
+    }
+
+    const result = await this.aiService.reviseBlocks({
+      title: post.title,
+      notes: payload.notes,
+      blocks: [...feedback.entries()].map(([index, notes]) => ({ index, html: blocks[index], feedback: notes })),
+    }, { postId: post.id, jobId: job.id, userId: payload.requestedBy });
+
+    const changes: Array<{ index: number; before: string; after: string }> = [];
+    for (const revised of result.blocks) {
+      const html = SanitizationUtil.sanitizeHTML(revised.html).trim();
+      if (!html || html === blocks[revised.index]) continue;
+      changes.push({ index: revised.index, before: blocks[revised.index], after: html });
+      blocks[revised.index] = html;
+    }
+    if (changes.length === 0) {
+      // Model output varies between calls, so this is worth retrying
+      throw new Error('The AI provider returned no changes');
+    }
+
+    const content = joinHtmlBlocks(blocks);
+    const wordCount = countHtmlWords(content);
+    await this.postRevisionService.ensureBaseline(post.id);
+    await this.prisma.$transaction([
+      this.prisma.post.update({
+        where: { id: post.id },
+        data: {
+          content,
+          wordCount,
+          readingTime: Math.ceil(wordCount / 200),
+          generationAttempts: { increment: 1 },
+          lastGeneratedAt: new Date(),
+        },
+      }),
+      this.prisma.postReviewComment.updateMany({
+        where: { id: { in: comments.map((comment) => comment.id) } },
+        data: { status: ReviewCommentStatus.RESOLVED, resolvedAt: new Date() },
+      }),
+      this.prisma.postReviewEvent.create({
+        data: {
+          postId: post.id,
+          action: ReviewAction.REVISED,
+          details: { jobId: job.id, changes },
+        },
+      }),
+    ]);
+    await this.postRevisionService.record(post.id, {
+      source: PostRevisionSource.AI,
+      reason: `Revised ${changes.length} block(s) from review comments`,
+      authorId: payload.requestedBy,
+    });
+
+    this.logger.log(`Revised ${changes.length} block(s) of post ${post.id}`);
+    return { postId: post.id, revisedBlocks: changes.map((change) => change.index) };
+  }
+}
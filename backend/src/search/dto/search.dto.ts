@@ -0,0 +1,43 @@
+import { IsEnum, IsIn, IsInt, IsOptional, IsString } from 'class-validator';
+import { PostStatus } from '@prisma/client';
+import { SEARCH_TYPES, SearchType } from '../search.service';
+
+/** Text filters are trimmed and truncated by the service */
+export class SearchQueryDto {
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @IsOptional()
+  @IsIn(SEARCH_TYPES)
+  type?: SearchType;
+
+  @IsOptional()
+  @IsInt()
+  page?: number;
+
+  @IsOptional()
+  @IsInt()
+  limit?: number;
+
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
+  @IsOptional()
+  @IsString()
+  author?: string;
+
+  @IsOptional()
+  @IsString()
+  language?: string;
+
+  // Only applied to admin searches
+  @IsOptional()
+  @IsEnum(PostStatus)
+  status?: PostStatus;
+}
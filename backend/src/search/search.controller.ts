@@ -0,0 +1,28 @@
+import { Controller, Get, Query, Request, UseGuards } from '@nestjs/common';
+import { SearchService } from './search.service';
+import { Public } from '../auth/public.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthenticatedRequest } from '../common/types';
+import { SearchQueryDto } from './dto/search.dto';
+
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Public()
+  @Get()
+  search(@Query() query: SearchQueryDto) {
+    return this.searchService.search(query);
+  }
+
+  // Admin: includes drafts and scheduled content; authors only see their own posts
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR', 'AUTHOR')
+  @Get('admin')
+  searchAdmin(@Query() query: SearchQueryDto, @Request() req: AuthenticatedRequest) {
+    const authorId = req.user?.role === 'AUTHOR' ? req.user.id || req.user.userId : undefined;
+    return this.searchService.search(query, { admin: true, authorId });
+  }
+}
@@ -0,0 +1,389 @@
+import { Injectable } from '@nestjs/common';
+import { PostStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchQueryDto } from './dto/search.dto';
+
+export const SEARCH_TYPES = ['all', 'posts', 'pages', 'categories', 'tags'] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 200;
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+// Secondary result groups shown alongside posts when searching everything
+const SIDE_GROUP_SIZE = 5;
+const MAX_FACET_VALUES = 15;
+// Minimum trigram similarity for a "did you mean" suggestion
+const SUGGESTION_THRESHOLD = 0.2;
+
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const SNIPPET_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+const readParam = (value: string | undefined, maxLength = 100) => (value ?? '').trim().slice(0, maxLength);
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (match) => `\\${match}`);
+
+export type SearchScope = {
+  // Admin searches include unpublished content
+  admin: boolean;
+  // Restricts post results to one author (used for the AUTHOR role)
+  authorId?: string;
+};
+
+type SearchParams = {
+  term: string;
+  type: SearchType;
+  page: number;
+  limit: number;
+  category: string;
+  tag: string;
+  author: string;
+  language: string;
+  status: PostStatus | null;
+};
+
+type RankedRow = { id: string; rank: number; total: bigint | number };
+type HighlightRow = { id: string; titleHighlight: string; snippet: string };
+type FacetRow = { facet: 'category' | 'tag' | 'author'; value: string; label: string; count: number };
+type TaxonomyRow = { id: string; slug: string; name: string; description: string | null; postCount: number; rank: number };
+
+export type SearchFacetValue = { value: string; label: string; count: number };
+
+/**
+ * Search Service
+ * PostgreSQL full-text search over posts, pages, categories and tags.
+ * Posts and pages are matched against generated tsvector columns (weighted
+ * title > excerpt/description > body, stemmed per post language) and fall back
+ * to pg_trgm similarity on titles so misspelt queries still find results.
+ */
+@Injectable()
+export class SearchService {
+  constructor(private prisma: PrismaService) {}
+
+  private parseParams(query: SearchQueryDto): SearchParams {
+    return {
+      term: readParam(query.q, MAX_TERM_LENGTH).replace(/\s+/g, ' '),
+      type: query.type ?? 'all',
+      page: Math.max(1, query.page ?? 1),
+      limit: Math.min(MAX_PAGE_SIZE, Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE)),
+      category: readParam(query.category),
+      tag: readParam(query.tag),
+      author: readParam(query.author),
+      language: readParam(query.language, 10).toLowerCase(),
+      status: query.status ?? null,
+    };
+  }
+
+  async search(query: SearchQueryDto, scope: SearchScope = { admin: false }) {
+    const params = this.parseParams(query);
+    const empty = { total: 0, items: [] };
+    const result = {
+      query: params.term,
+      type: params.type,
+      page: params.page,
+      limit: params.limit,
+      posts: { ...empty, totalPages: 0 },
+      pages: { ...empty },
+      categories: { ...empty },
+      tags: { ...empty },
+      facets: { categories: [] as SearchFacetValue[], tags: [] as SearchFacetValue[], authors: [] as SearchFacetValue[] },
+      suggestion: null as string | null,
+    };
+
+    if (params.term.length < MIN_TERM_LENGTH) {
+      return result;
+    }
+
+    const wants = (type: SearchType) => params.type === 'all' || params.type === type;
+    const sideLimit = params.type === 'all' ? SIDE_GROUP_SIZE : params.limit;
+
+    if (wants('posts')) {
+      const postQuery = await this.buildPostQuery(params.term, params.language);
+      const where = this.postFilters(params, scope, postQuery);
+      const [posts, facets] = await Promise.all([
+        this.searchPosts(params, where, postQuery),
+        this.postFacets(where),
+      ]);
+      result.posts = { ...posts, totalPages: Math.ceil(posts.total / params.limit) };
+      result.facets = facets;
+    }
+    if (wants('pages')) {
+      result.pages = await this.searchPages(params.term, scope, params.type === 'pages' ? params : { page: 1, limit: sideLimit });
+    }
+    if (wants('categories')) {
+      result.categories = await this.searchTaxonomy('Category', params.term, sideLimit);
+    }
+    if (wants('tags')) {
+      result.tags = await this.searchTaxonomy('Tag', params.term, sideLimit);
+    }
+
+    const found = result.posts.total + result.pages.total + result.categories.total + result.tags.total;
+    if (found === 0) {
+      result.suggestion = await this.suggest(params.term);
+    }
+    return result;
+  }
+
+  // -----------------------------------------------------------------------
+  // Posts
+  // -----------------------------------------------------------------------
+
+  /**
+   * One tsquery per language in use, OR-ed together, so each post is
+   * matched with the stemmer its search vector was built with.
+   */
+  private async buildPostQuery(term: string, language: string): Promise<Prisma.Sql> {
+    let languages = language ? [language] : [];
+    if (!languages.length) {
+      const rows = await this.prisma.$queryRaw<Array<{ language: string }>>`
+        SELECT DISTINCT "language" FROM "Post" WHERE "status" = 'PUBLISHED'
+      `;
+      languages = rows.map((row) => row.language);
+    }
+    if (!languages.length) languages = ['en'];
+    return Prisma.sql`(${Prisma.join(
+      languages.map((code) => Prisma.sql`websearch_to_tsquery(search_config(${code}), ${term})`),
+      ' || ',
+    )})`;
+  }
+
+  private postFilters(params: SearchParams, scope: SearchScope, tsQuery: Prisma.Sql): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`(p."searchVector" @@ ${tsQuery} OR p."title" % ${params.term} OR ${params.term} <% p."title")`,
+    ];
+    if (!scope.admin) {
+      conditions.push(Prisma.sql`p."status" = 'PUBLISHED'`);
+    } else if (params.status) {
+      conditions.push(Prisma.sql`p."status" = ${params.status}::"PostStatus"`);
+    }
+    if (scope.authorId) {
+      conditions.push(Prisma.sql`p."authorId" = ${scope.authorId}`);
+    }
+    if (params.language) {
+      conditions.push(Prisma.sql`p."language" = ${params.language}`);
+    }
+    if (params.category) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "_CategoryToPost" cp JOIN "Category" c ON c."id" = cp."A"
+        WHERE cp."B" = p."id" AND c."slug" = ${params.category}
+      )`);
+    }
+    if (params.tag) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "_PostToTag" pt JOIN "Tag" t ON t."id" = pt."B"
+        WHERE pt."A" = p."id" AND t."slug" = ${params.tag}
+      )`);
+    }
+    if (params.author) {
+      conditions.push(Prisma.sql`p."authorId" IN (SELECT u."id" FROM "User" u WHERE u."username" = ${params.author})`);
+    }
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private async searchPosts(params: SearchParams, where: Prisma.Sql, tsQuery: Prisma.Sql) {
+    const offset = (params.page - 1) * params.limit;
+    const ranked = await this.prisma.$queryRaw<RankedRow[]>`
+      SELECT p."id",
+        (ts_rank_cd(p."searchVector", ${tsQuery}) + similarity(p."title", ${params.term}))::float AS "rank",
+        count(*) OVER () AS "total"
+      FROM "Post" p
+      WHERE ${where}
+      ORDER BY "rank" DESC, p."publishedAt" DESC NULLS LAST
+      LIMIT ${params.limit} OFFSET ${offset}
+    `;
+    if (!ranked.length) {
+      return { total: 0, items: [] };
+    }
+
+    const ids = ranked.map((row) => row.id);
+    // Headlines are expensive, so they are only built for the current page
+    const [highlights, posts] = await Promise.all([
+      this.prisma.$queryRaw<HighlightRow[]>`
+        SELECT p."id",
+          ts_headline(search_config(p."language"), p."title", ${tsQuery}, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+          ts_headline(search_config(p."language"), search_strip_html(p."content"), ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS}) AS "snippet"
+        FROM "Post" p
+        WHERE p."id" IN (${Prisma.join(ids)})
+      `,
+      this.prisma.post.findMany({
+        where: { id: { in: ids } },
+        select: {
+          id: true,
+          slug: true,
+          title: true,
+          excerpt: true,
+          featuredImage: true,
+          status: true,
+          language: true,
+          publishedAt: true,
+          createdAt: true,
+          author: { select: { id: true, username: true, displayName: true } },
+          categories: { select: { id: true, slug: true, name: true } },
+          tags: { select: { id: true, slug: true, name: true } },
+        },
+      }),
+    ]);
+
+    const highlightById = new Map(highlights.map((row) => [row.id, row]));
+    const postById = new Map(posts.map((post) => [post.id, post]));
+    const items = ranked.flatMap((row) => {
+      const post = postById.get(row.id);
+      if (!post) return [];
+      const highlight = highlightById.get(row.id);
+      return [{
+        ...post,
+        url: `/blog/${post.slug}`,
+        rank: Number(row.rank),
+        titleHighlight: highlight?.titleHighlight || post.title,
+        snippet: highlight?.snippet || post.excerpt || '',
+      }];
+    });
+    return { total: Number(ranked[0].total), items };
+  }
+
+  private async postFacets(where: Prisma.Sql) {
+    const rows = await this.prisma.$queryRaw<FacetRow[]>`
+      WITH matches AS (
+        SELECT p."id", p."authorId" FROM "Post" p WHERE ${where}
+      )
+      SELECT 'category' AS "facet", c."slug" AS "value", c."name" AS "label", count(*)::int AS "count"
+      FROM matches m
+      JOIN "_CategoryToPost" cp ON cp."B" = m."id"
+      JOIN "Category" c ON c."id" = cp."A"
+      GROUP BY c."slug", c."name"
+      UNION ALL
+      SELECT 'tag', t."slug", t."name", count(*)::int
+      FROM matches m
+      JOIN "_PostToTag" pt ON pt."A" = m."id"
+      JOIN "Tag" t ON t."id" = pt."B"
+      GROUP BY t."slug", t."name"
+      UNION ALL
+      SELECT 'author', u."username", coalesce(u."displayName", u."username"), count(*)::int
+      FROM matches m
+      JOIN "User" u ON u."id" = m."authorId"
+      GROUP BY u."username", u."displayName"
+      ORDER BY "count" DESC, "label" ASC
+    `;
+    const pick = (facet: FacetRow['facet']) => rows
+      .filter((row) => row.facet === facet)
+      .slice(0, MAX_FACET_VALUES)
+      .map(({ value, label, count }) => ({ value, label, count: Number(count) }));
+    return { categories: pick('category'), tags: pick('tag'), authors: pick('author') };
+  }
+
+  // -----------------------------------------------------------------------
+  // Pages, categories and tags
+  // -----------------------------------------------------------------------
+
+  private async searchPages(term: string, scope: SearchScope, paging: { page: number; limit: number }) {
+    const tsQuery = Prisma.sql`websearch_to_tsquery('english', ${term})`;
+    const visibility = scope.admin
+      ? Prisma.empty
+      : Prisma.sql`AND p."status" = 'PUBLISHED' AND p."isProtected" = false`;
+    const offset = (paging.page - 1) * paging.limit;
+
+    const rows = await this.prisma.$queryRaw<Array<{
+      id: string;
+      slug: string;
+      title: string;
+      status: string;
+      pageType: string;
+      rank: number;
+      titleHighlight: string;
+      snippet: string;
+      total: bigint | number;
+    }>>`
+      SELECT ranked.*,
+        ts_headline('english', ranked."title", ${tsQuery}, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+        ts_headline('english', search_strip_html(coalesce(ranked."description", ranked."seoDescription", '')), ${tsQuery}, ${SNIPPET_HEADLINE_OPTIONS}) AS "snippet"
+      FROM (
+        SELECT p."id", p."slug", p."title", p."status"::text AS "status", p."pageType"::text AS "pageType",
+          p."description", p."seoDescription",
+          (ts_rank_cd(p."searchVector", ${tsQuery}) + similarity(p."title", ${term}))::float AS "rank",
+          count(*) OVER () AS "total"
+        FROM "Page" p
+        WHERE (p."searchVector" @@ ${tsQuery} OR p."title" % ${term} OR ${term} <% p."title") ${visibility}
+        ORDER BY "rank" DESC
+        LIMIT ${paging.limit} OFFSET ${offset}
+      ) ranked
+      ORDER BY ranked."rank" DESC
+    `;
+
+    return {
+      total: rows.length ? Number(rows[0].total) : 0,
+      items: rows.map((row) => ({
+        id: row.id,
+        slug: row.slug,
+        title: row.title,
+        status: row.status,
+        pageType: row.pageType,
+        url: row.slug === '(home)' ? '/' : `/${row.slug}`,
+        rank: Number(row.rank),
+        titleHighlight: row.titleHighlight || row.title,
+        snippet: row.snippet || '',
+      })),
+    };
+  }
+
+  /**
+   * Categories and tags are short names, so they are matched by substring,
+   * trigram similarity and a simple (unstemmed) text query on the description.
+   */
+  private async searchTaxonomy(table: 'Category' | 'Tag', term: string, limit: number) {
+    const like = `%${escapeLike(term)}%`;
+    const rows = table === 'Category'
+      ? await this.prisma.$queryRaw<TaxonomyRow[]>`
+          SELECT c."id", c."slug", c."name", c."description",
+            (SELECT count(*)::int FROM "_CategoryToPost" cp JOIN "Post" p ON p."id" = cp."B"
+              WHERE cp."A" = c."id" AND p."status" = 'PUBLISHED') AS "postCount",
+            similarity(c."name", ${term})::float AS "rank"
+          FROM "Category" c
+          WHERE c."name" ILIKE ${like} OR c."name" % ${term} OR ${term} <% c."name"
+            OR to_tsvector('simple', coalesce(c."description", '')) @@ websearch_to_tsquery('simple', ${term})
+          ORDER BY "rank" DESC, c."name" ASC
+          LIMIT ${limit}
+        `
+      : await this.prisma.$queryRaw<TaxonomyRow[]>`
+          SELECT t."id", t."slug", t."name", t."description",
+            (SELECT count(*)::int FROM "_PostToTag" pt JOIN "Post" p ON p."id" = pt."A"
+              WHERE pt."B" = t."id" AND p."status" = 'PUBLISHED') AS "postCount",
+            similarity(t."name", ${term})::float AS "rank"
+          FROM "Tag" t
+          WHERE t."name" ILIKE ${like} OR t."name" % ${term} OR ${term} <% t."name"
+            OR to_tsvector(search_config(t."language"), coalesce(t."description", '')) @@ websearch_to_tsquery(search_config(t."language"), ${term})
+          ORDER BY "rank" DESC, t."usageCount" DESC
+          LIMIT ${limit}
+        `;
+    const basePath = table === 'Category' ? '/blog/category' : '/blog/tag';
+    return {
+      total: rows.length,
+      items: rows.map((row) => ({
+        ...row,
+        postCount: Number(row.postCount),
+        rank: Number(row.rank),
+        url: `${basePath}/${row.slug}`,
+      })),
+    };
+  }
+
+  /**
+   * "Did you mean" candidate for queries that found nothing: the closest
+   * tag, category or published post title by trigram similarity.
+   */
+  private async suggest(term: string): Promise<string | null> {
+    const rows = await this.prisma.$queryRaw<Array<{ candidate: string; score: number }>>`
+      SELECT "candidate", "score" FROM (
+        SELECT t."name" AS "candidate", similarity(t."name", ${term}) AS "score" FROM "Tag" t
+        UNION ALL
+        SELECT c."name", similarity(c."name", ${term}) FROM "Category" c
+        UNION ALL
+        SELECT p."title", word_similarity(${term}, p."title") FROM "Post" p WHERE p."status" = 'PUBLISHED'
+      ) candidates
+      WHERE "score" >= ${SUGGESTION_THRESHOLD}
+      ORDER BY "score" DESC
+      LIMIT 1
+    `;
+    const candidate = rows[0]?.candidate;
+    return candidate && candidate.toLowerCase() !== term.toLowerCase() ? candidate : null;
+  }
+}
@@ -1,4 +1,5 @@
-import { IsString, IsOptional, IsBoolean, IsObject, IsArray, IsInt, Min, Max } from 'class-validator';
+import { IsString, IsOptional, IsBoolean, IsObject, IsArray, IsInt, IsIn, IsNumber, IsEnum, Min, Max, ArrayMaxSize, MaxLength } from 'class-validator';
+import { Role } from '@prisma/client';
 import { JsonValue } from '../../common/types/json';
 
 export class UpdateSettingsDto {
@@ -148,6 +149,26 @@ export class UpdateSettingsDto {
   @IsObject()
   sitemapConfig?: Record<string, JsonValue>;
 
+  @IsOptional()
+  @IsObject()
+  estimateRateCard?: Record<string, JsonValue>;
+
+  @IsOptional()
+  @IsObject()
+  bookingConfig?: Record<string, JsonValue>;
+
+  @IsOptional()
+  @IsIn(['openai', 'anthropic', 'custom', 'local', 'mock'])
+  aiProvider?: string;
+
+  @IsOptional()
+  @IsString()
+  aiModel?: string;
+
+  @IsOptional()
+  @IsObject()
+  aiTaskModels?: Record<string, JsonValue>;
+
   @IsOptional()
   @IsString()
   aiMode?: string;
@@ -161,4 +182,110 @@ export class UpdateSettingsDto {
   @IsOptional()
   @IsBoolean()
   aiSelfLearningEnabled?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  maxInterlinksPerParagraph?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(720)
+  refreshRollbackHours?: number;
+
+  @IsOptional()
+  @IsIn(['auto', 'builtin', 'local', 'openai'])
+  embeddingProvider?: string;
+
+  @IsOptional()
+  @IsString()
+  embeddingModel?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  similarityThreshold?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(12)
+  @IsString({ each: true })
+  @MaxLength(16, { each: true })
+  commentReactions?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  anonymousVotingEnabled?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  commentSpamKeywords?: string[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(100)
+  commentSpamThreshold?: number;
+
+  @IsOptional()
+  @IsObject()
+  commentSpamWeights?: Record<string, JsonValue>;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  commentMinSubmitSeconds?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(Role, { each: true })
+  commentTrustedRoles?: Role[];
+
+  @IsOptional()
+  @IsBoolean()
+  commentRequireApproval?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  commentHoldFirstTime?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  commentAutoApproveAfter?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  commentBlockedWords?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @MaxLength(253, { each: true })
+  commentBlockedDomains?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  @MaxLength(64, { each: true })
+  commentBlockedIps?: string[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3650)
+  commentAutoCloseDays?: number;
 }
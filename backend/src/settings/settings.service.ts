@@ -1,11 +1,11 @@
 // src/settings/settings.service.ts
 import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
-import { SiteSettings } from '@prisma/client';
+import { Prisma, SiteSettings } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { UploadVerificationFileDto } from './dto/verification-file.dto';
 import { JsonValue } from '../common/types/json';
 
-type SettingsUpdate = Partial<Omit<SiteSettings, 'id' | 'updatedAt'>>;
+type SettingsUpdate = Prisma.SiteSettingsUpdateInput;
 
 type VerificationFileEntry = {
   filename: string;
@@ -83,15 +83,19 @@ export class SettingsService {
         'contactInfo', 'menuStructure', 'widgetConfig', 'appearanceSettings',
         'googleSiteVerification', 'bingSiteVerification', 'yandexSiteVerification',
         'pinterestVerification', 'facebookDomainVerification', 'customVerificationTag',
-        'verificationFiles', 'aiEnabled', 'aiProvider', 'aiModel', 'aiBatchSize',
+        'verificationFiles', 'aiEnabled', 'aiProvider', 'aiModel', 'aiTaskModels', 'aiBatchSize',
         'aiMinWordCount', 'aiMaxWordCount', 'aiAutoApprove', 'aiGenerationSchedule',
         'siteKeywords', 'targetAudience', 'contentTone', 'contentFocus',
         'autoTaggingEnabled', 'minTagsPerPost', 'maxTagsPerPost',
-        'autoInterlinkEnabled', 'minInterlinksPerPost', 'maxInterlinksPerPost', 'interlinkingSchedule',
-        'contentRefreshEnabled', 'refreshAfterDays', 'refreshCheckSchedule'
+        'autoInterlinkEnabled', 'minInterlinksPerPost', 'maxInterlinksPerPost', 'maxInterlinksPerParagraph', 'interlinkingSchedule',
+        'contentRefreshEnabled', 'refreshAfterDays', 'refreshCheckSchedule', 'refreshRollbackHours',
+        'embeddingProvider', 'embeddingModel', 'similarityThreshold', 'commentReactions', 'anonymousVotingEnabled',
+        'commentSpamKeywords', 'commentSpamThreshold', 'commentSpamWeights', 'commentMinSubmitSeconds',
+        'commentTrustedRoles', 'commentRequireApproval', 'commentHoldFirstTime', 'commentAutoApproveAfter',
+        'commentBlockedWords', 'commentBlockedDomains', 'commentBlockedIps', 'commentAutoCloseDays'
         , 'cookieConsentEnabled', 'cookieConsentConfig', 'notificationConfig',
         'aiMode', 'aiLearningLevel', 'aiSelfLearningEnabled',
-        'sitemapConfig'
+        'sitemapConfig', 'estimateRateCard', 'bookingConfig', 'aiBudget'
       ]);
       
       (Object.keys(data) as Array<keyof SettingsUpdate>).forEach((key) => {
@@ -29,12 +29,14 @@ type SitemapConfig = {
     categories: boolean;
     tags: boolean;
     pages: boolean;
+    projects: boolean;
   };
   exclude: {
     posts: string[];
     categories: string[];
     tags: string[];
     pages: string[];
+    projects: string[];
   };
   staticUrls: SitemapCustomUrl[];
   customUrls: SitemapCustomUrl[];
@@ -84,12 +86,14 @@ export class SitemapService {
         categories: true,
         tags: true,
         pages: true,
+        projects: true,
       },
       exclude: {
         posts: [],
         categories: [],
         tags: [],
         pages: [],
+        projects: [],
       },
       staticUrls: [],
       customUrls: [],
@@ -135,12 +139,14 @@ export class SitemapService {
         categories: typeof includeRaw.categories === 'boolean' ? includeRaw.categories : defaultConfig.include.categories,
         tags: typeof includeRaw.tags === 'boolean' ? includeRaw.tags : defaultConfig.include.tags,
         pages: typeof includeRaw.pages === 'boolean' ? includeRaw.pages : defaultConfig.include.pages,
+        projects: typeof includeRaw.projects === 'boolean' ? includeRaw.projects : defaultConfig.include.projects,
       },
       exclude: {
         posts: parseStringArray(excludeRaw.posts),
         categories: parseStringArray(excludeRaw.categories),
         tags: parseStringArray(excludeRaw.tags),
         pages: parseStringArray(excludeRaw.pages),
+        projects: parseStringArray(excludeRaw.projects),
       },
       staticUrls,
       customUrls,
@@ -199,6 +205,7 @@ export class SitemapService {
     const excludedCategories = new Set(config.exclude.categories);
     const excludedTags = new Set(config.exclude.tags);
     const excludedPages = new Set(config.exclude.pages);
+    const excludedProjects = new Set(config.exclude.projects);
 
     // Static pages
     if (config.include.staticPages) {
@@ -221,6 +228,12 @@ export class SitemapService {
           changefreq: 'monthly',
           priority: 0.8,
         },
+        {
+          loc: `${baseUrl}/projects`,
+          lastmod: new Date().toISOString(),
+          changefreq: 'weekly',
+          priority: 0.8,
+        },
       );
     }
 
@@ -336,6 +349,30 @@ export class SitemapService {
       }
     }
 
+    // Portfolio projects (published only)
+    if (config.include.projects) {
+      const projects = await this.prisma.project.findMany({
+        where: { status: 'PUBLISHED' },
+        select: {
+          slug: true,
+          updatedAt: true,
+          featured: true,
+        },
+        orderBy: { publishedAt: 'desc' },
+      });
+
+      for (const project of projects) {
+        if (excludedProjects.has(project.slug)) continue;
+
+        urls.push({
+          loc: `${baseUrl}/projects/${project.slug}`,
+          lastmod: project.updatedAt.toISOString(),
+          changefreq: 'monthly',
+          priority: project.featured ? 0.8 : 0.7,
+        });
+      }
+    }
+
     if (config.customUrls.length > 0) {
       urls.push(...this.normalizeCustomUrls(config.customUrls, baseUrl, { changefreq: 'monthly', priority: 0.5 }));
     }
@@ -444,6 +481,7 @@ export class SitemapService {
         categories: 0,
         tags: 0,
         pages: 0,
+        projects: 0,
         customUrls: config.customUrls.length,
         staticCustomUrls: config.staticUrls.length,
         lastGenerated: new Date().toISOString(),
@@ -456,8 +494,9 @@ export class SitemapService {
     const excludedCategories = config.exclude.categories;
     const excludedTags = config.exclude.tags;
     const excludedPages = config.exclude.pages;
+    const excludedProjects = config.exclude.projects;
 
-    const [postsCount, categoriesCount, tagsCount, pagesCount] = await Promise.all([
+    const [postsCount, categoriesCount, tagsCount, pagesCount, projectsCount] = await Promise.all([
       config.include.blogPosts
         ? this.prisma.post.count({
             where: {
@@ -486,12 +525,20 @@ export class SitemapService {
             },
           })
         : Promise.resolve(0),
+      config.include.projects
+        ? this.prisma.project.count({
+            where: {
+              status: 'PUBLISHED',
+              slug: excludedProjects.length > 0 ? { notIn: excludedProjects } : undefined,
+            },
+          })
+        : Promise.resolve(0),
     ]);
 
-    const staticPages = config.include.staticPages ? 3 : 0;
+    const staticPages = config.include.staticPages ? 4 : 0;
     const staticCustomUrls = config.staticUrls.length;
     const customUrls = config.customUrls.length;
-    const totalUrls = staticPages + staticCustomUrls + customUrls + postsCount + categoriesCount + tagsCount + pagesCount;
+    const totalUrls = staticPages + staticCustomUrls + customUrls + postsCount + categoriesCount + tagsCount + pagesCount + projectsCount;
 
     return {
       totalUrls,
@@ -500,6 +547,7 @@ export class SitemapService {
       categories: categoriesCount,
       tags: tagsCount,
       pages: pagesCount,
+      projects: projectsCount,
       customUrls,
       staticCustomUrls,
       lastGenerated: new Date().toISOString(),
@@ -8,6 +8,8 @@ import { CommentModule } from '../comment/comment.module';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AiModule } from '../ai/ai.module';
 import { SocialModule } from '../social/social.module';
+import { BookingsModule } from '../bookings/bookings.module';
+import { CalendarModule } from '../calendar/calendar.module';
 
 @Module({
   imports: [
@@ -17,6 +19,8 @@ import { SocialModule } from '../social/social.module';
     PrismaModule,
     AiModule,
     SocialModule,
+    BookingsModule,
+    CalendarModule,
   ],
   controllers: [TasksController],
   providers: [TasksService, SitemapService],
@@ -2,11 +2,15 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { EnhancedBlogService } from '../blog/enhanced-blog.service';
 import { AiBlogService } from '../blog/ai-blog.service';
+import { ContentRefreshService } from '../blog/content-refresh.service';
 import { SitemapService } from './sitemap.service';
 import { CommentModerationService } from '../comment/comment-moderation.service';
+import { CommentNotificationService } from '../comment/comment-notification.service';
 import { AiService } from '../ai/ai.service';
 import { SocialService } from '../social/social.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { BookingsService } from '../bookings/bookings.service';
+import { CalendarService } from '../calendar/calendar.service';
 import { JsonValue } from '../common/types/json';
 
 type AiMetadata = Record<string, JsonValue>;
@@ -63,11 +67,15 @@ export class TasksService {
   constructor(
     private readonly enhancedBlogService: EnhancedBlogService,
     private readonly aiBlogService: AiBlogService,
+    private readonly contentRefreshService: ContentRefreshService,
     private readonly sitemapService: SitemapService,
     private readonly commentModerationService: CommentModerationService,
+    private readonly commentNotificationService: CommentNotificationService,
     private readonly aiService: AiService,
     private readonly socialService: SocialService,
     private readonly prisma: PrismaService,
+    private readonly bookingsService: BookingsService,
+    private readonly calendarService: CalendarService,
   ) {}
 
   /**
@@ -94,6 +102,26 @@ export class TasksService {
     }
   }
 
+  /**
+   * BLOG: Scheduled Publication Notices
+   * Runs every 5 minutes to email authors an .ics for newly scheduled or moved content
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async handleScheduleNotices() {
+    try {
+      const sentCount = await this.calendarService.sendScheduledPublicationNotices();
+
+      if (sentCount > 0) {
+        this.logger.log(`[OK] [BLOG] Sent ${sentCount} scheduled publication notice(s)`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `[BLOG] Error sending scheduled publication notices: ${getErrorMessage(error)}`,
+        getErrorStack(error),
+      );
+    }
+  }
+
   /**
    * BLOG: Trending Tags Update
    * Runs daily at 3:00 AM to analyze tag usage and update trending flags
@@ -177,7 +205,7 @@ export class TasksService {
       let analyzedCount = 0;
       for (const post of candidates) {
         // Skip if recently optimized (check not yet in schema, simpler fallback)
-        const analysis = await this.aiService.optimizeSeo(post.content);
+        const analysis = await this.aiService.optimizeSeo(post.content, { postId: post.id });
 
         // Save analysis to AI Metadata
         const currentMeta = parseAiMetadata(post.aiMetadata);
@@ -327,6 +355,81 @@ export class TasksService {
     }
   }
 
+  /**
+   * COMMENTS: Reply Notifications
+   * Runs every 5 minutes to email instant subscribers; replies arriving
+   * within one run are batched into a single email
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async handleCommentNotifications() {
+    try {
+      const sentCount = await this.commentNotificationService.sendDue('instant');
+
+      if (sentCount > 0) {
+        this.logger.log(`[OK] [COMMENTS] Sent ${sentCount} comment notification email(s)`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `[COMMENTS] Error sending comment notifications: ${getErrorMessage(error)}`,
+        getErrorStack(error),
+      );
+    }
+  }
+
+  /**
+   * COMMENTS: Daily Digest
+   * Runs daily at 8:00 AM to email digest subscribers and purge old
+   * notifications and unconfirmed subscriptions
+   */
+  @Cron('0 8 * * *')
+  async handleCommentDigest() {
+    this.logger.log('[COMMENTS] Sending daily comment digests...');
+
+    try {
+      const sentCount = await this.commentNotificationService.sendDue('daily');
+      const purged = await this.commentNotificationService.purge();
+
+      this.logger.log(
+        `[OK] [COMMENTS] Sent ${sentCount} digest(s), purged ${purged.notifications} notification(s) and ${purged.subscriptions} unconfirmed subscription(s)`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `[COMMENTS] Error sending comment digests: ${getErrorMessage(error)}`,
+        getErrorStack(error),
+      );
+    }
+  }
+
+  /**
+   * BOOKINGS: Appointment Reminders
+   * Runs every 15 minutes to remind customers and crew leads of upcoming bookings
+   * and to release site visits the customer never confirmed
+   */
+  @Cron('*/15 * * * *')
+  async handleBookingReminders() {
+    this.logger.log('[BOOKINGS] Checking for upcoming bookings to remind...');
+
+    try {
+      const expiredCount = await this.bookingsService.expireUnconfirmedSiteVisits();
+      if (expiredCount > 0) {
+        this.logger.log(`[OK] [BOOKINGS] Released ${expiredCount} unconfirmed site visit(s)`);
+      }
+
+      const sentCount = await this.bookingsService.sendDueReminders();
+
+      if (sentCount > 0) {
+        this.logger.log(`[OK] [BOOKINGS] Sent ${sentCount} booking reminder(s)`);
+      } else {
+        this.logger.debug('[BOOKINGS] No booking reminders due');
+      }
+    } catch (error) {
+      this.logger.error(
+        `[BOOKINGS] Error sending booking reminders: ${getErrorMessage(error)}`,
+        getErrorStack(error),
+      );
+    }
+  }
+
   /**
    * Get all cron jobs info
    */
@@ -343,6 +446,17 @@ export class TasksService {
         lastRun: null,
         nextRun: this.getNextCronRun('*/5 * * * *'),
       },
+      {
+        id: 'schedule-notices',
+        name: 'Scheduled Publication Notices',
+        category: 'BLOG',
+        schedule: 'Every 5 minutes',
+        cronExpression: '*/5 * * * *',
+        description: 'Emails authors a calendar invite when their content is scheduled or rescheduled',
+        status: 'active',
+        lastRun: null,
+        nextRun: this.getNextCronRun('*/5 * * * *'),
+      },
       {
         id: 'trending-tags',
         name: 'Trending Tags Update',
@@ -409,6 +523,39 @@ export class TasksService {
         lastRun: null,
         nextRun: this.getNextCronRun('0 1 * * 0'),
       },
+      {
+        id: 'booking-reminders',
+        name: 'Booking Reminders',
+        category: 'BOOKINGS',
+        schedule: 'Every 15 minutes',
+        cronExpression: '*/15 * * * *',
+        description: 'Emails customers and notifies crew leads before upcoming bookings',
+        status: 'active',
+        lastRun: null,
+        nextRun: this.getNextCronRun('*/15 * * * *'),
+      },
+      {
+        id: 'comment-notifications',
+        name: 'Comment Reply Notifications',
+        category: 'COMMENTS',
+        schedule: 'Every 5 minutes',
+        cronExpression: '*/5 * * * *',
+        description: 'Emails subscribers about new comments, replies and moderator responses',
+        status: 'active',
+        lastRun: null,
+        nextRun: this.getNextCronRun('*/5 * * * *'),
+      },
+      {
+        id: 'comment-digest',
+        name: 'Comment Daily Digest',
+        category: 'COMMENTS',
+        schedule: 'Daily at 8:00 AM',
+        cronExpression: '0 8 * * *',
+        description: 'Emails daily digest subscribers and purges unconfirmed subscriptions',
+        status: 'active',
+        lastRun: null,
+        nextRun: this.getNextCronRun('0 8 * * *'),
+      },
       {
         id: 'social-distribution',
         name: 'Social Media Distribution',
@@ -437,6 +584,13 @@ export class TasksService {
       return next.toISOString();
     }
 
+    if (cronExpression === '*/15 * * * *') {
+      const next = new Date(now);
+      next.setMinutes(Math.ceil(now.getMinutes() / 15) * 15);
+      next.setSeconds(0);
+      return next.toISOString();
+    }
+
     if (cronExpression === '0 3 * * *') {
       const next = new Date(now);
       next.setHours(3, 0, 0, 0);
@@ -458,6 +612,13 @@ export class TasksService {
       return next.toISOString();
     }
 
+    if (cronExpression === '0 8 * * *') {
+      const next = new Date(now);
+      next.setHours(8, 0, 0, 0);
+      if (next <= now) next.setDate(next.getDate() + 1);
+      return next.toISOString();
+    }
+
     if (cronExpression === '30 4 * * *') {
       const next = new Date(now);
       next.setHours(4, 30, 0, 0);
@@ -560,4 +721,23 @@ export class TasksService {
       );
     }
   }
+
+  /**
+   * AI BLOG: Refresh Rollback Window
+   * Runs hourly to roll back applied refreshes whose SEO score dropped
+   */
+  @Cron('15 * * * *')
+  async handleRefreshRollbackCheck() {
+    try {
+      const count = await this.contentRefreshService.checkRollbackWindows();
+      if (count > 0) {
+        this.logger.warn(`[AI-BLOG] Rolled back ${count} content refresh(es) after an SEO regression`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `[AI-BLOG] Error checking refresh rollback windows: ${getErrorMessage(error)}`,
+        getErrorStack(error),
+      );
+    }
+  }
 }
@@ -33,9 +33,14 @@ declare namespace NodeJS {
 
     // AI/LLM
     AI_API_KEY: string;
-    AI_PROVIDER?: 'openai' | 'anthropic' | 'cohere';
+    AI_PROVIDER?: 'openai' | 'anthropic' | 'cohere' | 'mock';
     AI_MODEL?: string;
+    OPENAI_BASE_URL?: string;
     ANTHROPIC_API_KEY?: string;
+    CUSTOM_AI_BASE_URL?: string;
+    CUSTOM_AI_API_KEY?: string;
+    LOCAL_AI_BASE_URL?: string;
+    LOCAL_AI_API_KEY?: string;
     COHERE_API_KEY?: string;
 
     // CAPTCHA
@@ -9,15 +9,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Input } from '@/components/ui/Input';
 import { Sparkles, Loader, CheckCircle, Clock, FileText, Zap, Settings as SettingsIcon } from 'lucide-react';
 import AISettings from '@/components/admin/AISettings';
+import AiUsageReport from '@/components/admin/AiUsageReport';
+import PromptTemplates from '@/components/admin/PromptTemplates';
 import { fetchAPI } from '@/lib/api';
-
-interface GenerationJob {
-  id: string;
-  topic: string;
-  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
-  createdAt: string;
-  result?: unknown;
-}
+import { describeJobPayload, parseQueueJobList, type QueueJob } from '@/lib/queue';
 
 export default function AIContentPage() {
   const router = useRouter();
@@ -26,15 +21,15 @@ export default function AIContentPage() {
   const [tone, setTone] = useState('professional');
   const [length, setLength] = useState('medium');
   const [loading, setLoading] = useState(false);
-  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
   const [message, setMessage] = useState('');
   const [messageTone, setMessageTone] = useState<'success' | 'error' | null>(null);
-  const [activeTab, setActiveTab] = useState<'generate' | 'settings'>('generate');
+  const [activeTab, setActiveTab] = useState<'generate' | 'prompts' | 'usage' | 'settings'>('generate');
 
   const fetchJobs = useCallback(async () => {
     try {
-      const data = await fetchAPI('/queue/jobs', { redirectOn401: false, cache: 'no-store' });
-      setJobs(Array.isArray(data) ? data : []);
+      const data = await fetchAPI('/queue/jobs?type=GENERATE_POST', { redirectOn401: false, cache: 'no-store' });
+      setJobs(parseQueueJobList(data).jobs);
     } catch (error: unknown) {
       logger.error('Error fetching jobs', error, { component: 'AIContentPage' });
     }
@@ -86,7 +81,7 @@ export default function AIContentPage() {
         return <CheckCircle size={16} className="text-green-600" />;
       case 'PROCESSING':
         return <Loader size={16} className="text-blue-600 animate-spin" />;
-      case 'FAILED':
+      case 'DEAD_LETTER':
         return <FileText size={16} className="text-red-600" />;
       default:
         return <Clock size={16} className="text-slate-400" />;
@@ -99,7 +94,7 @@ export default function AIContentPage() {
         return 'bg-green-100 text-green-700';
       case 'PROCESSING':
         return 'bg-blue-100 text-blue-700';
-      case 'FAILED':
+      case 'DEAD_LETTER':
         return 'bg-red-100 text-red-700';
       default:
         return 'bg-slate-100 text-slate-700';
@@ -131,6 +126,26 @@ export default function AIContentPage() {
         >
           Generator
         </button>
+        <button
+          onClick={() => setActiveTab('prompts')}
+          className={`pb-2 px-1 font-medium text-sm transition-colors relative ${
+            activeTab === 'prompts'
+              ? 'text-blue-600 border-b-2 border-blue-600'
+              : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          Prompts
+        </button>
+        <button
+          onClick={() => setActiveTab('usage')}
+          className={`pb-2 px-1 font-medium text-sm transition-colors relative ${
+            activeTab === 'usage'
+              ? 'text-blue-600 border-b-2 border-blue-600'
+              : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          Usage &amp; Budget
+        </button>
         <button
           onClick={() => setActiveTab('settings')}
           className={`pb-2 px-1 font-medium text-sm transition-colors relative ${
@@ -145,6 +160,10 @@ export default function AIContentPage() {
 
       {activeTab === 'settings' ? (
         <AISettings />
+      ) : activeTab === 'prompts' ? (
+        <PromptTemplates />
+      ) : activeTab === 'usage' ? (
+        <AiUsageReport />
       ) : (
       <>
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
@@ -277,10 +296,12 @@ export default function AIContentPage() {
                   <div className="flex items-center gap-3 flex-1">
                     {getStatusIcon(job.status)}
                     <div>
-                      <h4 className="font-medium text-slate-900">{job.topic}</h4>
-                      <p className="text-xs text-slate-500">
-                        {new Date(job.createdAt).toLocaleString()}
-                      </p>
+                      <h4 className="font-medium text-slate-900">{describeJobPayload(job.payload) || job.id}</h4>
+                      {job.createdAt && (
+                        <p className="text-xs text-slate-500">
+                          {new Date(job.createdAt).toLocaleString()}
+                        </p>
+                      )}
                     </div>
                   </div>
                   <span className={`px-3 py-1 text-xs rounded-full ${getStatusColor(job.status)}`}>
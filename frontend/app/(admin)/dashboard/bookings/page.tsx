@@ -0,0 +1,874 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Save, Trash2, Users, Ban, Settings } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { useAdminSession } from '@/contexts/AdminSessionContext';
+import { CalendarFeedCard } from '@/components/calendar/CalendarFeedCard';
+
+type BookingType = 'SITE_VISIT' | 'JOB';
+type BookingStatus = 'TENTATIVE' | 'CONFIRMED' | 'COMPLETED' | 'CANCELLED';
+type CalendarView = 'week' | 'month';
+
+interface CrewSummary {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface DayHours {
+  start: string;
+  end: string;
+}
+
+interface Crew extends CrewSummary {
+  members: string[];
+  active: boolean;
+  takesSiteVisits: boolean;
+  workingHours: Record<string, DayHours | null>;
+}
+
+interface Booking {
+  id: string;
+  type: BookingType;
+  status: BookingStatus;
+  title: string;
+  crewId: string;
+  crew: CrewSummary | null;
+  quoteRequestId: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  address: string;
+  notes: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+interface Blackout {
+  id: string;
+  crewId: string | null;
+  crewName: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+interface BookingConfig {
+  timezone: string;
+  siteVisitMinutes: number;
+  slotIntervalMinutes: number;
+  minNoticeHours: number;
+  horizonDays: number;
+  reminderHours: number;
+}
+
+interface BookingForm {
+  type: BookingType;
+  status: BookingStatus;
+  crewId: string;
+  title: string;
+  quoteRequestId: string;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  address: string;
+  notes: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+interface CrewForm {
+  id: string;
+  name: string;
+  color: string;
+  members: string;
+  active: boolean;
+  takesSiteVisits: boolean;
+  workingHours: Record<string, DayHours | null>;
+}
+
+const STATUSES: BookingStatus[] = ['TENTATIVE', 'CONFIRMED', 'COMPLETED', 'CANCELLED'];
+
+const STATUS_BADGES: Record<BookingStatus, 'default' | 'info' | 'success' | 'error' | 'warning' | 'outline'> = {
+  TENTATIVE: 'warning',
+  CONFIRMED: 'info',
+  COMPLETED: 'success',
+  CANCELLED: 'outline',
+};
+
+// Mirrors the transitions enforced by the bookings service
+const NEXT_STATUSES: Record<BookingStatus, BookingStatus[]> = {
+  TENTATIVE: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['TENTATIVE', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: ['CONFIRMED'],
+  CANCELLED: ['TENTATIVE', 'CONFIRMED'],
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_HOURS: Record<string, DayHours | null> = {
+  0: null,
+  1: { start: '08:00', end: '17:00' },
+  2: { start: '08:00', end: '17:00' },
+  3: { start: '08:00', end: '17:00' },
+  4: { start: '08:00', end: '17:00' },
+  5: { start: '08:00', end: '17:00' },
+  6: { start: '08:00', end: '17:00' },
+};
+
+const EMPTY_CREW: CrewForm = {
+  id: '',
+  name: '',
+  color: '#3B82F6',
+  members: '',
+  active: true,
+  takesSiteVisits: true,
+  workingHours: DEFAULT_HOURS,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : '');
+const readNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local calendar date key (YYYY-MM-DD)
+const dateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Value for <input type="datetime-local"> in the browser's timezone
+const toLocalInput = (iso: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${dateKey(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const startOfWeek = (date: Date) => {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  // Weeks start on Monday
+  result.setDate(result.getDate() - ((result.getDay() + 6) % 7));
+  return result;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const parseCrewSummary = (value: unknown): CrewSummary | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return { id: value.id, name: readString(value.name), color: readString(value.color) || '#3B82F6' };
+};
+
+const parseHours = (value: unknown): Record<string, DayHours | null> => {
+  const hours: Record<string, DayHours | null> = {};
+  for (let day = 0; day < 7; day += 1) {
+    const entry = isRecord(value) ? value[String(day)] : null;
+    hours[String(day)] = isRecord(entry) && typeof entry.start === 'string' && typeof entry.end === 'string'
+      ? { start: entry.start, end: entry.end }
+      : null;
+  }
+  return hours;
+};
+
+const parseCrew = (value: unknown): Crew | null => {
+  const summary = parseCrewSummary(value);
+  if (!summary || !isRecord(value)) return null;
+  return {
+    ...summary,
+    members: Array.isArray(value.members) ? value.members.filter((item): item is string => typeof item === 'string') : [],
+    active: value.active !== false,
+    takesSiteVisits: value.takesSiteVisits !== false,
+    workingHours: parseHours(value.workingHours),
+  };
+};
+
+const parseBooking = (value: unknown): Booking | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return {
+    id: value.id,
+    type: value.type === 'JOB' ? 'JOB' : 'SITE_VISIT',
+    status: STATUSES.includes(value.status as BookingStatus) ? (value.status as BookingStatus) : 'CONFIRMED',
+    title: readString(value.title),
+    crewId: readString(value.crewId),
+    crew: parseCrewSummary(value.crew),
+    quoteRequestId: readString(value.quoteRequestId),
+    customerName: readString(value.customerName),
+    customerEmail: readString(value.customerEmail),
+    customerPhone: readString(value.customerPhone),
+    address: readString(value.address),
+    notes: readString(value.notes),
+    startsAt: readString(value.startsAt),
+    endsAt: readString(value.endsAt),
+  };
+};
+
+const parseBlackout = (value: unknown): Blackout | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  const crew = parseCrewSummary(value.crew);
+  return {
+    id: value.id,
+    crewId: typeof value.crewId === 'string' ? value.crewId : null,
+    crewName: crew?.name || 'All crews',
+    startDate: readString(value.startDate).slice(0, 10),
+    endDate: readString(value.endDate).slice(0, 10),
+    reason: readString(value.reason),
+  };
+};
+
+const parseConfig = (value: unknown): BookingConfig | null => {
+  if (!isRecord(value)) return null;
+  return {
+    timezone: readString(value.timezone),
+    siteVisitMinutes: readNumber(value.siteVisitMinutes),
+    slotIntervalMinutes: readNumber(value.slotIntervalMinutes),
+    minNoticeHours: readNumber(value.minNoticeHours),
+    horizonDays: readNumber(value.horizonDays),
+    reminderHours: readNumber(value.reminderHours),
+  };
+};
+
+const emptyForm = (crewId = ''): BookingForm => ({
+  type: 'JOB',
+  status: 'CONFIRMED',
+  crewId,
+  title: '',
+  quoteRequestId: '',
+  customerName: '',
+  customerEmail: '',
+  customerPhone: '',
+  address: '',
+  notes: '',
+  startsAt: '',
+  endsAt: '',
+});
+
+const toForm = (booking: Booking): BookingForm => ({
+  type: booking.type,
+  status: booking.status,
+  crewId: booking.crewId,
+  title: booking.title,
+  quoteRequestId: booking.quoteRequestId,
+  customerName: booking.customerName,
+  customerEmail: booking.customerEmail,
+  customerPhone: booking.customerPhone,
+  address: booking.address,
+  notes: booking.notes,
+  startsAt: toLocalInput(booking.startsAt),
+  endsAt: toLocalInput(booking.endsAt),
+});
+
+const toCrewForm = (crew: Crew): CrewForm => ({
+  id: crew.id,
+  name: crew.name,
+  color: crew.color,
+  members: crew.members.join(', '),
+  active: crew.active,
+  takesSiteVisits: crew.takesSiteVisits,
+  workingHours: crew.workingHours,
+});
+
+export default function BookingsPage() {
+  const searchParams = useSearchParams();
+  const { role } = useAdminSession();
+  const isAdmin = role === 'ADMINISTRATOR' || role === 'SUPER_ADMIN';
+
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [crewFilter, setCrewFilter] = useState('');
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [crews, setCrews] = useState<Crew[]>([]);
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+  const [config, setConfig] = useState<BookingConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Booking | null>(null);
+  const [form, setForm] = useState<BookingForm>(emptyForm());
+  const [conflict, setConflict] = useState('');
+  const [crewForm, setCrewForm] = useState<CrewForm>(EMPTY_CREW);
+  const [blackoutForm, setBlackoutForm] = useState({ crewId: '', startDate: '', endDate: '', reason: '' });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const rangeStart = view === 'week'
+    ? startOfWeek(anchor)
+    : startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  const dayCount = view === 'week' ? 7 : 42;
+  const days = Array.from({ length: dayCount }, (_, i) => addDays(rangeStart, i));
+  const rangeEnd = addDays(rangeStart, dayCount);
+
+  const loadCalendar = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ from: rangeStart.toISOString(), to: rangeEnd.toISOString() });
+      if (crewFilter) params.set('crewId', crewFilter);
+      const [bookingData, blackoutData] = await Promise.all([
+        fetchAPI(`/bookings?${params.toString()}`, { redirectOn401: false, cache: 'no-store' }),
+        fetchAPI(`/bookings/blackouts?from=${dateKey(addDays(rangeStart, -1))}`, { redirectOn401: false, cache: 'no-store' }),
+      ]);
+      const rows = isRecord(bookingData) && Array.isArray(bookingData.data) ? bookingData.data : [];
+      setBookings(rows.map(parseBooking).filter((booking): booking is Booking => !!booking));
+      setBlackouts(Array.isArray(blackoutData)
+        ? blackoutData.map(parseBlackout).filter((blackout): blackout is Blackout => !!blackout)
+        : []);
+    } catch (err) {
+      logger.error('Failed to load bookings', err, { component: 'BookingsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load bookings') });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadCrews = async () => {
+    try {
+      const [crewData, configData] = await Promise.all([
+        fetchAPI('/bookings/crews?includeInactive=true', { redirectOn401: false, cache: 'no-store' }),
+        fetchAPI('/bookings/config', { redirectOn401: false, cache: 'no-store' }),
+      ]);
+      const parsed = Array.isArray(crewData) ? crewData.map(parseCrew).filter((crew): crew is Crew => !!crew) : [];
+      setCrews(parsed);
+      setConfig(parseConfig(configData));
+      setForm((current) => (current.crewId ? current : { ...current, crewId: parsed.find((crew) => crew.active)?.id || '' }));
+    } catch (err) {
+      logger.error('Failed to load crews', err, { component: 'BookingsPage' });
+    }
+  };
+
+  useEffect(() => {
+    loadCrews();
+  }, []);
+
+  useEffect(() => {
+    loadCalendar();
+  }, [view, anchor, crewFilter]);
+
+  // Allow deep links from the quotes pipeline (?quoteRequestId=...&name=...)
+  useEffect(() => {
+    const quoteRequestId = searchParams.get('quoteRequestId');
+    if (!quoteRequestId) return;
+    setSelected(null);
+    setForm((current) => ({
+      ...current,
+      type: 'SITE_VISIT',
+      quoteRequestId,
+      customerName: searchParams.get('name') || current.customerName,
+      customerEmail: searchParams.get('email') || current.customerEmail,
+    }));
+  }, [searchParams]);
+
+  const runAction = async (action: () => Promise<void>, successText: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ type: 'success', text: successText });
+      await loadCalendar();
+    } catch (err) {
+      logger.error('Booking action failed', err, { component: 'BookingsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Action failed') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openBooking = (booking: Booking) => {
+    setSelected(booking);
+    setForm(toForm(booking));
+    setConflict('');
+  };
+
+  const startNew = (date?: Date) => {
+    setSelected(null);
+    setConflict('');
+    const base = emptyForm(crewFilter || crews.find((crew) => crew.active)?.id || '');
+    if (date) {
+      base.startsAt = `${dateKey(date)}T08:00`;
+      base.endsAt = `${dateKey(date)}T17:00`;
+    }
+    setForm(base);
+  };
+
+  const handleSave = async (force = false) => {
+    setBusy(true);
+    setMessage(null);
+    setConflict('');
+    try {
+      const payload = JSON.stringify({
+        ...form,
+        startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : '',
+        endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : '',
+        quoteRequestId: form.quoteRequestId || null,
+        force,
+      });
+      const saved = parseBooking(selected
+        ? await fetchAPI(`/bookings/${selected.id}`, { method: 'PUT', body: payload, redirectOn401: false })
+        : await fetchAPI('/bookings', { method: 'POST', body: payload, redirectOn401: false }));
+      if (saved) openBooking(saved);
+      setMessage({ type: 'success', text: selected ? 'Booking updated.' : 'Booking created.' });
+      await loadCalendar();
+    } catch (err) {
+      const text = getErrorMessage(err, 'Failed to save booking');
+      // Conflicts can be overridden deliberately, other errors cannot
+      if (text.startsWith('Booking conflicts')) {
+        setConflict(text);
+      } else {
+        logger.error('Failed to save booking', err, { component: 'BookingsPage' });
+        setMessage({ type: 'error', text });
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStatus = (status: BookingStatus) => runAction(async () => {
+    if (!selected) return;
+    const updated = parseBooking(await fetchAPI(`/bookings/${selected.id}/status`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+      redirectOn401: false,
+    }));
+    if (updated) openBooking(updated);
+  }, `Marked as ${status.toLowerCase()}.`);
+
+  const handleDelete = () => runAction(async () => {
+    if (!selected || !confirm('Delete this booking?')) return;
+    await fetchAPI(`/bookings/${selected.id}`, { method: 'DELETE', redirectOn401: false });
+    startNew();
+  }, 'Booking deleted.');
+
+  const handleSaveCrew = () => runAction(async () => {
+    const payload = JSON.stringify({
+      name: crewForm.name,
+      color: crewForm.color,
+      members: crewForm.members.split(',').map((member) => member.trim()).filter(Boolean),
+      active: crewForm.active,
+      takesSiteVisits: crewForm.takesSiteVisits,
+      workingHours: crewForm.workingHours,
+    });
+    await fetchAPI(crewForm.id ? `/bookings/crews/${crewForm.id}` : '/bookings/crews', {
+      method: crewForm.id ? 'PUT' : 'POST',
+      body: payload,
+      redirectOn401: false,
+    });
+    setCrewForm(EMPTY_CREW);
+    await loadCrews();
+  }, crewForm.id ? 'Crew updated.' : 'Crew added.');
+
+  const handleDeleteCrew = (id: string) => runAction(async () => {
+    if (!confirm('Delete this crew?')) return;
+    await fetchAPI(`/bookings/crews/${id}`, { method: 'DELETE', redirectOn401: false });
+    setCrewForm(EMPTY_CREW);
+    await loadCrews();
+  }, 'Crew deleted.');
+
+  const handleAddBlackout = () => runAction(async () => {
+    await fetchAPI('/bookings/blackouts', {
+      method: 'POST',
+      body: JSON.stringify({ ...blackoutForm, crewId: blackoutForm.crewId || null }),
+      redirectOn401: false,
+    });
+    setBlackoutForm({ crewId: '', startDate: '', endDate: '', reason: '' });
+  }, 'Blackout added.');
+
+  const handleDeleteBlackout = (id: string) => runAction(async () => {
+    await fetchAPI(`/bookings/blackouts/${id}`, { method: 'DELETE', redirectOn401: false });
+  }, 'Blackout removed.');
+
+  const handleSaveConfig = () => runAction(async () => {
+    if (!config) return;
+    setConfig(parseConfig(await fetchAPI('/bookings/config', {
+      method: 'PUT',
+      body: JSON.stringify(config),
+      redirectOn401: false,
+    })));
+  }, 'Booking settings saved.');
+
+  const updateCrewHours = (day: string, hours: DayHours | null) => {
+    setCrewForm({ ...crewForm, workingHours: { ...crewForm.workingHours, [day]: hours } });
+  };
+
+  const shift = (direction: number) => {
+    setAnchor(view === 'week'
+      ? addDays(anchor, direction * 7)
+      : new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1));
+  };
+
+  const bookingsOn = (day: Date) => {
+    const start = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    const end = addDays(start, 1);
+    return bookings.filter((booking) => new Date(booking.startsAt) < end && new Date(booking.endsAt) > start);
+  };
+
+  const blackoutsOn = (day: Date) => {
+    const key = dateKey(day);
+    return blackouts.filter((blackout) => (
+      blackout.startDate <= key
+      && blackout.endDate >= key
+      && (!crewFilter || !blackout.crewId || blackout.crewId === crewFilter)
+    ));
+  };
+
+  const todayKey = dateKey(new Date());
+  const title = view === 'week'
+    ? `${rangeStart.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} – ${addDays(rangeStart, 6).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`
+    : anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const selectClassName = 'rounded-md border border-slate-300 px-2 py-2 text-sm';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Bookings</h1>
+          <p className="text-slate-600">
+            Schedule site visits and jobs for each crew.
+            {config?.timezone ? ` Customer slots are offered in ${config.timezone}.` : ''}
+          </p>
+        </div>
+        <Button onClick={() => startNew()}>
+          <Plus className="w-4 h-4 mr-2" /> New Booking
+        </Button>
+      </div>
+
+      {message && (
+        <div className={`rounded-md p-4 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => shift(-1)} aria-label="Previous">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <CardTitle>{title}</CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => shift(1)} aria-label="Next">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>Today</Button>
+            </div>
+            <div className="flex gap-2">
+              <select value={crewFilter} onChange={(e) => setCrewFilter(e.target.value)} className={selectClassName}>
+                <option value="">All crews</option>
+                {crews.map((crew) => (
+                  <option key={crew.id} value={crew.id}>{crew.name}{crew.active ? '' : ' (inactive)'}</option>
+                ))}
+              </select>
+              <select value={view} onChange={(e) => setView(e.target.value as CalendarView)} className={selectClassName}>
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-10"><LoadingSpinner /></div>
+          ) : (
+            <div className="grid grid-cols-7 gap-px overflow-hidden rounded-md border border-slate-200 bg-slate-200">
+              {days.slice(0, 7).map((day) => (
+                <div key={`head-${dateKey(day)}`} className="bg-slate-50 px-2 py-1 text-xs font-semibold uppercase text-slate-500">
+                  {WEEKDAYS[day.getDay()]}
+                </div>
+              ))}
+              {days.map((day) => {
+                const key = dateKey(day);
+                const dayBlackouts = blackoutsOn(day);
+                const outside = view === 'month' && day.getMonth() !== anchor.getMonth();
+                return (
+                  <div
+                    key={key}
+                    className={`bg-white p-1 ${view === 'week' ? 'min-h-[220px]' : 'min-h-[110px]'} ${outside ? 'opacity-50' : ''} ${dayBlackouts.length > 0 ? 'bg-slate-100' : ''}`}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => startNew(day)}
+                      className={`mb-1 text-xs font-semibold ${key === todayKey ? 'rounded bg-blue-600 px-1 text-white' : 'text-slate-600'}`}
+                      title="New booking on this day"
+                    >
+                      {day.getDate()}
+                    </button>
+                    {dayBlackouts.map((blackout) => (
+                      <p key={blackout.id} className="mb-1 truncate text-[11px] text-slate-500">
+                        <Ban className="mr-1 inline w-3 h-3" />{blackout.crewId ? `${blackout.crewName}: ` : ''}{blackout.reason || 'Unavailable'}
+                      </p>
+                    ))}
+                    {bookingsOn(day).map((booking) => (
+                      <button
+                        key={booking.id}
+                        type="button"
+                        onClick={() => openBooking(booking)}
+                        className={`mb-1 block w-full truncate rounded px-1 py-0.5 text-left text-[11px] text-white ${booking.status === 'TENTATIVE' ? 'opacity-70' : ''} ${selected?.id === booking.id ? 'ring-2 ring-slate-900' : ''}`}
+                        style={{ backgroundColor: booking.crew?.color || '#3B82F6' }}
+                        title={`${booking.title} · ${booking.crew?.name || ''}`}
+                      >
+                        {dateKey(new Date(booking.startsAt)) === key ? `${formatTime(booking.startsAt)} ` : '↳ '}
+                        {booking.title}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="w-5 h-5" /> {selected ? selected.title : 'New Booking'}
+              </CardTitle>
+              {selected && <Badge variant={STATUS_BADGES[selected.status]}>{selected.status}</Badge>}
+            </div>
+            {form.quoteRequestId && <CardDescription>Linked to quote request {form.quoteRequestId.slice(0, 8)}</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-2">
+              <select value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as BookingType })} className={selectClassName}>
+                <option value="SITE_VISIT">Site visit</option>
+                <option value="JOB">Job</option>
+              </select>
+              <select value={form.crewId} onChange={(e) => setForm({ ...form, crewId: e.target.value })} className={selectClassName}>
+                <option value="">Select crew</option>
+                {crews.filter((crew) => crew.active || crew.id === form.crewId).map((crew) => (
+                  <option key={crew.id} value={crew.id}>{crew.name}</option>
+                ))}
+              </select>
+              <Input placeholder="Title (optional)" value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} />
+              {!selected && (
+                <select value={form.status} onChange={(e) => setForm({ ...form, status: e.target.value as BookingStatus })} className={selectClassName}>
+                  <option value="CONFIRMED">Confirmed</option>
+                  <option value="TENTATIVE">Tentative</option>
+                </select>
+              )}
+              <Input placeholder="Customer name" value={form.customerName} onChange={(e) => setForm({ ...form, customerName: e.target.value })} />
+              <Input placeholder="Customer email" type="email" value={form.customerEmail} onChange={(e) => setForm({ ...form, customerEmail: e.target.value })} />
+              <Input placeholder="Customer phone" value={form.customerPhone} onChange={(e) => setForm({ ...form, customerPhone: e.target.value })} />
+              <Input placeholder="Address" value={form.address} onChange={(e) => setForm({ ...form, address: e.target.value })} />
+              <label className="space-y-1 text-xs font-semibold uppercase text-slate-500">
+                Starts
+                <Input type="datetime-local" value={form.startsAt} onChange={(e) => setForm({ ...form, startsAt: e.target.value })} />
+              </label>
+              <label className="space-y-1 text-xs font-semibold uppercase text-slate-500">
+                Ends
+                <Input type="datetime-local" value={form.endsAt} onChange={(e) => setForm({ ...form, endsAt: e.target.value })} />
+              </label>
+            </div>
+            <textarea
+              rows={3}
+              placeholder="Notes for the crew"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+            />
+
+            {conflict && (
+              <div className="space-y-2 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                <p>{conflict}</p>
+                <Button variant="warning" size="sm" disabled={busy} onClick={() => handleSave(true)}>Save anyway</Button>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => handleSave()} disabled={busy}>
+                <Save className="w-4 h-4 mr-2" /> {selected ? 'Save Changes' : 'Create Booking'}
+              </Button>
+              {selected && NEXT_STATUSES[selected.status].map((status) => (
+                <Button key={status} variant="outline" disabled={busy} onClick={() => handleStatus(status)}>
+                  Mark {status.toLowerCase()}
+                </Button>
+              ))}
+              {selected && isAdmin && (
+                <Button variant="danger" disabled={busy} onClick={handleDelete}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2"><Ban className="w-5 h-5" /> Blackout Days</CardTitle>
+            <CardDescription>Public holidays, leave and other days a crew cannot be booked.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2 md:grid-cols-2">
+              <select value={blackoutForm.crewId} onChange={(e) => setBlackoutForm({ ...blackoutForm, crewId: e.target.value })} className={selectClassName}>
+                <option value="">All crews</option>
+                {crews.map((crew) => <option key={crew.id} value={crew.id}>{crew.name}</option>)}
+              </select>
+              <Input placeholder="Reason" value={blackoutForm.reason} onChange={(e) => setBlackoutForm({ ...blackoutForm, reason: e.target.value })} />
+              <Input type="date" value={blackoutForm.startDate} onChange={(e) => setBlackoutForm({ ...blackoutForm, startDate: e.target.value })} />
+              <Input type="date" value={blackoutForm.endDate} onChange={(e) => setBlackoutForm({ ...blackoutForm, endDate: e.target.value })} />
+            </div>
+            <Button variant="outline" disabled={busy || !blackoutForm.startDate} onClick={handleAddBlackout}>
+              <Plus className="w-4 h-4 mr-2" /> Add Blackout
+            </Button>
+            {blackouts.length === 0 ? (
+              <p className="text-sm text-slate-500">No upcoming blackout days.</p>
+            ) : (
+              <div className="divide-y divide-slate-200 text-sm">
+                {blackouts.map((blackout) => (
+                  <div key={blackout.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="font-medium text-slate-900">
+                        {blackout.startDate}{blackout.endDate !== blackout.startDate ? ` → ${blackout.endDate}` : ''}
+                      </p>
+                      <p className="text-xs text-slate-500">{blackout.crewName}{blackout.reason ? ` · ${blackout.reason}` : ''}</p>
+                    </div>
+                    <Button variant="ghost" size="sm" disabled={busy} onClick={() => handleDeleteBlackout(blackout.id)} aria-label="Remove blackout">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {isAdmin && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2"><Users className="w-5 h-5" /> Crews</CardTitle>
+              <CardDescription>Working hours decide which site-visit slots customers can pick.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {crews.map((crew) => (
+                  <button
+                    key={crew.id}
+                    type="button"
+                    onClick={() => setCrewForm(toCrewForm(crew))}
+                    className={`flex items-center gap-2 rounded-full border px-3 py-1 text-sm ${crewForm.id === crew.id ? 'border-slate-900' : 'border-slate-300'} ${crew.active ? '' : 'opacity-50'}`}
+                  >
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: crew.color }} />
+                    {crew.name}
+                  </button>
+                ))}
+                <Button variant="ghost" size="sm" onClick={() => setCrewForm(EMPTY_CREW)}>
+                  <Plus className="w-4 h-4 mr-1" /> New crew
+                </Button>
+              </div>
+
+              <div className="grid gap-2 md:grid-cols-[1fr_auto]">
+                <Input placeholder="Crew name" value={crewForm.name} onChange={(e) => setCrewForm({ ...crewForm, name: e.target.value })} />
+                <input
+                  type="color"
+                  value={crewForm.color}
+                  onChange={(e) => setCrewForm({ ...crewForm, color: e.target.value })}
+                  className="h-10 w-16 rounded-md border border-slate-300"
+                  aria-label="Crew colour"
+                />
+              </div>
+              <Input placeholder="Members (comma separated)" value={crewForm.members} onChange={(e) => setCrewForm({ ...crewForm, members: e.target.value })} />
+              <div className="flex flex-wrap gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={crewForm.active} onChange={(e) => setCrewForm({ ...crewForm, active: e.target.checked })} />
+                  Active
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={crewForm.takesSiteVisits} onChange={(e) => setCrewForm({ ...crewForm, takesSiteVisits: e.target.checked })} />
+                  Takes site visits
+                </label>
+              </div>
+
+              <div className="space-y-1">
+                {WEEKDAYS.map((label, index) => {
+                  const day = String(index);
+                  const hours = crewForm.workingHours[day];
+                  return (
+                    <div key={day} className="grid grid-cols-[4rem_auto_1fr_1fr] items-center gap-2 text-sm">
+                      <span>{label}</span>
+                      <input
+                        type="checkbox"
+                        checked={!!hours}
+                        onChange={(e) => updateCrewHours(day, e.target.checked ? { start: '08:00', end: '17:00' } : null)}
+                        aria-label={`Works on ${label}`}
+                      />
+                      <Input type="time" disabled={!hours} value={hours?.start || ''} onChange={(e) => hours && updateCrewHours(day, { ...hours, start: e.target.value })} />
+                      <Input type="time" disabled={!hours} value={hours?.end || ''} onChange={(e) => hours && updateCrewHours(day, { ...hours, end: e.target.value })} />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex gap-2">
+                <Button onClick={handleSaveCrew} disabled={busy || !crewForm.name.trim()}>
+                  <Save className="w-4 h-4 mr-2" /> {crewForm.id ? 'Save Crew' : 'Add Crew'}
+                </Button>
+                {crewForm.id && (
+                  <Button variant="danger" disabled={busy} onClick={() => handleDeleteCrew(crewForm.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {config && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2"><Settings className="w-5 h-5" /> Booking Settings</CardTitle>
+                <CardDescription>Controls the slots offered on the quote form and when reminders go out.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-3 md:grid-cols-2">
+                  <label className="space-y-1 text-sm">
+                    <span className="font-medium text-slate-700">Timezone</span>
+                    <Input value={config.timezone} onChange={(e) => setConfig({ ...config, timezone: e.target.value })} placeholder="Asia/Dubai" />
+                  </label>
+                  <label className="space-y-1 text-sm">
+                    <span className="font-medium text-slate-700">Site visit length (minutes)</span>
+                    <Input type="number" min={15} value={config.siteVisitMinutes} onChange={(e) => setConfig({ ...config, siteVisitMinutes: Number(e.target.value) })} />
+                  </label>
+                  <label className="space-y-1 text-sm">
+                    <span className="font-medium text-slate-700">Slot interval (minutes)</span>
+                    <Input type="number" min={15} value={config.slotIntervalMinutes} onChange={(e) => setConfig({ ...config, slotIntervalMinutes: Number(e.target.value) })} />
+                  </label>
+                  <label className="space-y-1 text-sm">
+                    <span className="font-medium text-slate-700">Minimum notice (hours)</span>
+                    <Input type="number" min={0} value={config.minNoticeHours} onChange={(e) => setConfig({ ...config, minNoticeHours: Number(e.target.value) })} />
+                  </label>
+                  <label className="space-y-1 text-sm">
+                    <span className="font-medium text-slate-700">Booking horizon (days)</span>
+                    <Input type="number" min={1} value={config.horizonDays} onChange={(e) => setConfig({ ...config, horizonDays: Number(e.target.value) })} />
+                  </label>
+                  <label className="space-y-1 text-sm">
+                    <span className="font-medium text-slate-700">Reminder lead time (hours)</span>
+                    <Input type="number" min={1} value={config.reminderHours} onChange={(e) => setConfig({ ...config, reminderHours: Number(e.target.value) })} />
+                  </label>
+                </div>
+                <Button onClick={handleSaveConfig} disabled={busy}>
+                  <Save className="w-4 h-4 mr-2" /> Save Settings
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <CalendarFeedCard />
+    </div>
+  );
+}
@@ -14,6 +14,12 @@ import { Badge } from '@/components/ui/Badge';
 import { LoadingSkeleton } from '@/components/ui/LoadingSpinner';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { InlineMessage } from '@/components/ui/InlineMessage';
+import CommentSettings from '@/components/admin/CommentSettings';
+import CommentHistory from '@/components/admin/CommentHistory';
+import ModerationActivity from '@/components/admin/ModerationActivity';
+import CommentMigration from '@/components/admin/CommentMigration';
+import { useAdminSession } from '@/contexts/AdminSessionContext';
+import { formatSpamPoints, parseSpamReasons, parseSpamScore, type SpamReason } from '@/lib/comment-spam';
 import { 
   MessageSquare, 
   CheckCircle, 
@@ -32,7 +38,9 @@ import {
   CheckSquare,
   X,
   Pin,
-  CheckCircle2
+  CheckCircle2,
+  Pencil,
+  History
 } from 'lucide-react';
 import { getErrorMessage } from '@/lib/error-utils';
 import { useSearchParams } from 'next/navigation';
@@ -53,6 +61,8 @@ type CommentType = {
   isResolved?: boolean;
   upvotes?: number;
   downvotes?: number;
+  spamScore: number | null;
+  spamReasons: SpamReason[];
   post: { id: string; title: string; slug: string };
   user?: { username: string; displayName: string };
   replies?: CommentType[];
@@ -148,6 +158,8 @@ const parseComment = (value: unknown): CommentType | null => {
     isResolved: parseBoolean(value.isResolved),
     upvotes: parseNumber(value.upvotes),
     downvotes: parseNumber(value.downvotes),
+    spamScore: parseSpamScore(value.spamScore),
+    spamReasons: parseSpamReasons(value.spamReasons),
     post,
     user: parseUserSummary(value.user),
     replies,
@@ -176,6 +188,8 @@ const parseStats = (value: unknown): CommentStats => {
 export default function CommentModerationPage() {
   const { success, error: showError, warning, info } = useToast();
   const { dialog, confirm } = useConfirmDialog();
+  const { role } = useAdminSession();
+  const canMigrate = role === 'ADMINISTRATOR' || role === 'SUPER_ADMIN';
   const searchParams = useSearchParams();
   const [activeTab, setActiveTab] = useState<Tab>('approved');
   const [comments, setComments] = useState<CommentType[]>([]);
@@ -186,6 +200,11 @@ export default function CommentModerationPage() {
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest' | 'most-upvoted'>('newest');
   const [postFilter, setPostFilter] = useState<string>('all');
   const [collapsedReplies, setCollapsedReplies] = useState<Record<string, boolean>>({});
+  const [openHistory, setOpenHistory] = useState<Record<string, boolean>>({});
+  // Bumped after every action so open histories show it
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
   const errorShownRef = useRef<{ [key: string]: boolean }>({});
 
   const fetchComments = useCallback(async () => {
@@ -194,6 +213,7 @@ export default function CommentModerationPage() {
       const endpoint = `/comments/moderation/${activeTab}`;
       const data = await fetchAPI(endpoint, { redirectOn401: false, cache: 'no-store' });
       setComments(parseCommentsList(data));
+      setHistoryVersion((version) => version + 1);
       errorShownRef.current['comments'] = false; // Reset on success
     } catch (error: unknown) {
       const errorMsg = getErrorMessage(error, 'Failed to fetch comments');
@@ -297,6 +317,27 @@ const fetchStats = useCallback(async () => {
     }
   };
 
+  const handleSaveEdit = async () => {
+    if (!editing || !editing.content.trim()) return;
+    setSavingEdit(true);
+    try {
+      await fetchAPI(`/comments/${editing.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ content: editing.content }),
+        redirectOn401: false,
+        cache: 'no-store',
+      });
+      success('Comment updated');
+      setEditing(null);
+      fetchComments();
+    } catch (error: unknown) {
+      logger.error('Error editing comment:', error);
+      showError(getErrorMessage(error, 'Failed to edit comment'));
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
   const handleBulkApprove = async () => {
     if (selectedComments.size === 0) {
       info('No comments selected');
@@ -403,6 +444,10 @@ const fetchStats = useCallback(async () => {
     setCollapsedReplies((prev) => ({ ...prev, [id]: !prev[id] }));
   };
 
+  const toggleHistory = (id: string) => {
+    setOpenHistory((prev) => ({ ...prev, [id]: !prev[id] }));
+  };
+
   return (
     <div className="p-6">
       <div className="mb-6">
@@ -623,9 +668,29 @@ const fetchStats = useCallback(async () => {
                         </div>
                       </div>
 
-                      <div className="text-slate-700 dark:text-slate-300 mb-2">
-                        {comment.content}
-                      </div>
+                      {editing?.id === comment.id ? (
+                        <div className="mb-2 space-y-2">
+                          <textarea
+                            value={editing.content}
+                            onChange={(e) => setEditing({ id: comment.id, content: e.target.value })}
+                            rows={4}
+                            maxLength={3000}
+                            className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-600 dark:bg-slate-800"
+                          />
+                          <div className="flex gap-2">
+                            <Button size="sm" onClick={handleSaveEdit} isLoading={savingEdit} disabled={!editing.content.trim()}>
+                              Save
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setEditing(null)} disabled={savingEdit}>
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="text-slate-700 dark:text-slate-300 mb-2">
+                          {comment.content}
+                        </div>
+                      )}
 
                       <div className="flex items-center gap-3 text-sm flex-wrap">
                         <Badge variant="outline" size="sm">
@@ -634,6 +699,13 @@ const fetchStats = useCallback(async () => {
                         <Badge variant="outline" size="sm">
                           <ThumbsDown className="w-3 h-3 mr-1" /> {comment.downvotes || 0}
                         </Badge>
+                        <button
+                          onClick={() => toggleHistory(comment.id)}
+                          className="inline-flex items-center text-xs text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+                        >
+                          <History className="w-3 h-3 mr-1" />
+                          {openHistory[comment.id] ? 'Hide history' : 'History'}
+                        </button>
                         {comment.replies && comment.replies.length > 0 && (
                           <button
                             onClick={() => toggleReplies(comment.id)}
@@ -666,7 +738,31 @@ const fetchStats = useCallback(async () => {
                             Flagged: {comment.flagReason}
                           </Badge>
                         )}
+                        {comment.spamScore !== null && (
+                          <Badge variant={comment.isSpam ? 'error' : comment.spamScore > 0 ? 'warning' : 'default'} size="sm">
+                            Spam score {comment.spamScore.toFixed(1)}
+                          </Badge>
+                        )}
                       </div>
+
+                      {comment.spamReasons.length > 0 && (
+                        <ul className="mt-2 space-y-0.5 text-xs text-slate-500 dark:text-slate-400">
+                          {comment.spamReasons.map((reason) => (
+                            <li key={reason.check}>
+                              <span className={reason.points > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                                {formatSpamPoints(reason.points)}
+                              </span>{' '}
+                              {reason.label}: {reason.detail}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+
+                      {openHistory[comment.id] && (
+                        <div className="mt-3 rounded-md bg-slate-50 p-3 dark:bg-slate-800/60">
+                          <CommentHistory commentId={comment.id} refreshKey={historyVersion} />
+                        </div>
+                      )}
                     </div>
 
                     {/* Actions */}
@@ -708,6 +804,15 @@ const fetchStats = useCallback(async () => {
                           <CheckCircle2 className="w-4 h-4" />
                         </Button>
                       </Tooltip>
+                      <Tooltip content="Edit comment">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setEditing({ id: comment.id, content: comment.content })}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                      </Tooltip>
                     </div>
                   </div>
 
@@ -728,6 +833,20 @@ const fetchStats = useCallback(async () => {
           )}
         </CardContent>
       </Card>
+
+      <div className="mt-6">
+        <ModerationActivity />
+      </div>
+
+      <div className="mt-6">
+        <CommentSettings />
+      </div>
+
+      {canMigrate && (
+        <div className="mt-6">
+          <CommentMigration />
+        </div>
+      )}
       {dialog}
     </div>
   );
@@ -0,0 +1,519 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { API_URL, fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { FileText, Plus, Trash2, Send, Printer, Download, GitBranch, Receipt, Save } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { formatMoney } from '@/components/estimate/EstimateCalculator';
+
+type DocumentType = 'ESTIMATE' | 'INVOICE';
+type DocumentStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'DECLINED' | 'PAID' | 'VOID';
+
+interface LineItemDraft {
+  description: string;
+  quantity: string;
+  unit: string;
+  unitPrice: string;
+}
+
+interface DocumentVersion {
+  id: string;
+  version: number;
+  status: DocumentStatus;
+  total: number;
+}
+
+interface SalesDocument {
+  id: string;
+  type: DocumentType;
+  number: string;
+  version: number;
+  status: DocumentStatus;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  customerAddress: string;
+  lineItems: LineItemDraft[];
+  currency: string;
+  taxRate: number;
+  total: number;
+  notes: string;
+  issuedAt: string;
+  supersededAt: string | null;
+  versions: DocumentVersion[];
+}
+
+interface DocumentForm {
+  type: DocumentType;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  customerAddress: string;
+  taxRate: string;
+  notes: string;
+  lineItems: LineItemDraft[];
+}
+
+const STATUSES: DocumentStatus[] = ['DRAFT', 'SENT', 'ACCEPTED', 'DECLINED', 'PAID', 'VOID'];
+
+const STATUS_BADGES: Record<DocumentStatus, 'default' | 'info' | 'success' | 'error' | 'warning' | 'outline'> = {
+  DRAFT: 'default',
+  SENT: 'info',
+  ACCEPTED: 'success',
+  DECLINED: 'error',
+  PAID: 'success',
+  VOID: 'outline',
+};
+
+// Mirrors the transitions enforced by the documents service
+const NEXT_STATUSES: Record<DocumentStatus, DocumentStatus[]> = {
+  DRAFT: ['SENT', 'VOID'],
+  SENT: ['ACCEPTED', 'DECLINED', 'PAID', 'VOID'],
+  ACCEPTED: ['VOID'],
+  DECLINED: ['VOID'],
+  PAID: [],
+  VOID: [],
+};
+
+const EMPTY_LINE: LineItemDraft = { description: '', quantity: '1', unit: '', unitPrice: '0' };
+
+const EMPTY_FORM: DocumentForm = {
+  type: 'ESTIMATE',
+  customerName: '',
+  customerEmail: '',
+  customerPhone: '',
+  customerAddress: '',
+  taxRate: '0.05',
+  notes: '',
+  lineItems: [EMPTY_LINE],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : '');
+const readNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const isStatus = (value: unknown): value is DocumentStatus => (
+  typeof value === 'string' && STATUSES.includes(value as DocumentStatus)
+);
+
+const parseDocument = (value: unknown): SalesDocument | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return {
+    id: value.id,
+    type: value.type === 'INVOICE' ? 'INVOICE' : 'ESTIMATE',
+    number: readString(value.number),
+    version: readNumber(value.version) || 1,
+    status: isStatus(value.status) ? value.status : 'DRAFT',
+    customerName: readString(value.customerName),
+    customerEmail: readString(value.customerEmail),
+    customerPhone: readString(value.customerPhone),
+    customerAddress: readString(value.customerAddress),
+    lineItems: Array.isArray(value.lineItems)
+      ? value.lineItems.filter(isRecord).map((item) => ({
+          description: readString(item.description),
+          quantity: String(readNumber(item.quantity)),
+          unit: readString(item.unit),
+          unitPrice: String(readNumber(item.unitPrice)),
+        }))
+      : [],
+    currency: readString(value.currency),
+    taxRate: readNumber(value.taxRate),
+    total: readNumber(value.total),
+    notes: readString(value.notes),
+    issuedAt: readString(value.issuedAt) || new Date().toISOString(),
+    supersededAt: typeof value.supersededAt === 'string' ? value.supersededAt : null,
+    versions: Array.isArray(value.versions)
+      ? value.versions.filter(isRecord).map((version) => ({
+          id: readString(version.id),
+          version: readNumber(version.version),
+          status: isStatus(version.status) ? version.status : 'DRAFT',
+          total: readNumber(version.total),
+        }))
+      : [],
+  };
+};
+
+const toForm = (document: SalesDocument): DocumentForm => ({
+  type: document.type,
+  customerName: document.customerName,
+  customerEmail: document.customerEmail,
+  customerPhone: document.customerPhone,
+  customerAddress: document.customerAddress,
+  taxRate: String(document.taxRate),
+  notes: document.notes,
+  lineItems: document.lineItems.length > 0 ? document.lineItems : [EMPTY_LINE],
+});
+
+const toPayload = (form: DocumentForm) => ({
+  type: form.type,
+  customerName: form.customerName,
+  customerEmail: form.customerEmail,
+  customerPhone: form.customerPhone,
+  customerAddress: form.customerAddress,
+  taxRate: Number(form.taxRate),
+  notes: form.notes,
+  lineItems: form.lineItems
+    .filter((item) => item.description.trim())
+    .map((item) => ({
+      description: item.description,
+      quantity: Number(item.quantity),
+      unit: item.unit,
+      unitPrice: Number(item.unitPrice),
+    })),
+});
+
+export default function DocumentsPage() {
+  const searchParams = useSearchParams();
+  const [documents, setDocuments] = useState<SalesDocument[]>([]);
+  const [typeFilter, setTypeFilter] = useState<DocumentType | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<SalesDocument | null>(null);
+  const [form, setForm] = useState<DocumentForm>(EMPTY_FORM);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadDocuments = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ limit: '100' });
+      if (typeFilter) params.set('type', typeFilter);
+      const data = await fetchAPI(`/documents?${params.toString()}`, { redirectOn401: false, cache: 'no-store' });
+      const rows = isRecord(data) && Array.isArray(data.data) ? data.data : [];
+      setDocuments(rows.map(parseDocument).filter((doc): doc is SalesDocument => !!doc));
+    } catch (err) {
+      logger.error('Failed to load documents', err, { component: 'DocumentsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load documents') });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDocuments();
+  }, [typeFilter]);
+
+  const openDocument = async (id: string) => {
+    try {
+      const data = parseDocument(await fetchAPI(`/documents/${id}`, { redirectOn401: false, cache: 'no-store' }));
+      if (data) {
+        setSelected(data);
+        setForm(toForm(data));
+      }
+    } catch (err) {
+      logger.error('Failed to load document', err, { component: 'DocumentsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load document') });
+    }
+  };
+
+  // Allow deep links from the estimates tool (?estimateId=...)
+  useEffect(() => {
+    const estimateId = searchParams.get('estimateId');
+    if (!estimateId) return;
+    runAction(async () => {
+      const created = parseDocument(await fetchAPI('/documents', {
+        method: 'POST',
+        body: JSON.stringify({ type: 'ESTIMATE', estimateId }),
+        redirectOn401: false,
+      }));
+      if (created) await openDocument(created.id);
+    }, 'Estimate document created from the saved calculation.');
+  }, [searchParams]);
+
+  const runAction = async (action: () => Promise<void>, successText: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ type: 'success', text: successText });
+      await loadDocuments();
+    } catch (err) {
+      logger.error('Document action failed', err, { component: 'DocumentsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Action failed') });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startNew = (type: DocumentType) => {
+    setSelected(null);
+    setForm({ ...EMPTY_FORM, type });
+  };
+
+  const handleSave = () => runAction(async () => {
+    const payload = JSON.stringify(toPayload(form));
+    const saved = parseDocument(selected
+      ? await fetchAPI(`/documents/${selected.id}`, { method: 'PUT', body: payload, redirectOn401: false })
+      : await fetchAPI('/documents', { method: 'POST', body: payload, redirectOn401: false }));
+    if (saved) await openDocument(saved.id);
+  }, selected ? 'Document updated.' : 'Document created.');
+
+  const handleRevise = () => runAction(async () => {
+    if (!selected) return;
+    const revised = parseDocument(await fetchAPI(`/documents/${selected.id}/revise`, {
+      method: 'POST',
+      body: JSON.stringify(toPayload(form)),
+      redirectOn401: false,
+    }));
+    if (revised) await openDocument(revised.id);
+  }, 'New estimate version created.');
+
+  const handleStatus = (status: DocumentStatus) => runAction(async () => {
+    if (!selected) return;
+    await fetchAPI(`/documents/${selected.id}/status`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status }),
+      redirectOn401: false,
+    });
+    await openDocument(selected.id);
+  }, `Marked as ${status.toLowerCase()}.`);
+
+  const handleInvoice = () => runAction(async () => {
+    if (!selected) return;
+    const invoice = parseDocument(await fetchAPI(`/documents/${selected.id}/invoice`, { method: 'POST', redirectOn401: false }));
+    if (invoice) await openDocument(invoice.id);
+  }, 'Invoice created from estimate.');
+
+  const handleSend = () => runAction(async () => {
+    if (!selected) return;
+    await fetchAPI(`/documents/${selected.id}/send`, { method: 'POST', body: JSON.stringify({}), redirectOn401: false });
+    await openDocument(selected.id);
+  }, `Sent to ${form.customerEmail || 'the customer'}.`);
+
+  const updateLine = (index: number, field: keyof LineItemDraft, value: string) => {
+    setForm({
+      ...form,
+      lineItems: form.lineItems.map((item, i) => (i === index ? { ...item, [field]: value } : item)),
+    });
+  };
+
+  const previewSubtotal = form.lineItems.reduce(
+    (sum, item) => sum + (Number(item.quantity) || 0) * (Number(item.unitPrice) || 0),
+    0,
+  );
+  const previewTotal = previewSubtotal * (1 + (Number(form.taxRate) || 0));
+  const isEditable = !selected || (selected.status === 'DRAFT' && !selected.supersededAt);
+  const canRevise = !!selected && selected.type === 'ESTIMATE' && !selected.supersededAt && selected.status !== 'VOID';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Estimates &amp; Invoices</h1>
+          <p className="text-slate-600">Issue branded, numbered documents and email them to customers.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => startNew('ESTIMATE')}>
+            <FileText className="w-4 h-4 mr-2" /> New Estimate
+          </Button>
+          <Button onClick={() => startNew('INVOICE')}>
+            <Receipt className="w-4 h-4 mr-2" /> New Invoice
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`rounded-md p-4 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[2fr_3fr]">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Documents</CardTitle>
+              <select
+                value={typeFilter}
+                onChange={(e) => setTypeFilter(e.target.value as DocumentType | '')}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              >
+                <option value="">All</option>
+                <option value="ESTIMATE">Estimates</option>
+                <option value="INVOICE">Invoices</option>
+              </select>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="flex justify-center py-10"><LoadingSpinner /></div>
+            ) : documents.length === 0 ? (
+              <p className="p-6 text-center text-sm text-slate-500">No documents yet.</p>
+            ) : (
+              <div className="divide-y divide-slate-200">
+                {documents.map((doc) => (
+                  <button
+                    key={doc.id}
+                    type="button"
+                    onClick={() => openDocument(doc.id)}
+                    className={`flex w-full items-center justify-between gap-3 px-6 py-3 text-left hover:bg-slate-50 ${selected?.number === doc.number && selected?.type === doc.type ? 'bg-slate-50' : ''}`}
+                  >
+                    <div>
+                      <p className="font-semibold text-slate-900">
+                        {doc.number}{doc.version > 1 ? ` rev. ${doc.version}` : ''}
+                      </p>
+                      <p className="text-xs text-slate-500">{doc.customerName} · {new Date(doc.issuedAt).toLocaleDateString()}</p>
+                    </div>
+                    <div className="text-right">
+                      <Badge variant={STATUS_BADGES[doc.status]} size="sm">{doc.status}</Badge>
+                      <p className="mt-1 text-sm text-slate-700">{formatMoney(doc.total, doc.currency)}</p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle>
+                  {selected
+                    ? `${selected.type === 'INVOICE' ? 'Invoice' : 'Estimate'} ${selected.number}${selected.version > 1 ? ` rev. ${selected.version}` : ''}`
+                    : `New ${form.type === 'INVOICE' ? 'Invoice' : 'Estimate'}`}
+                </CardTitle>
+                {selected?.supersededAt && (
+                  <CardDescription>This version has been superseded by a newer revision.</CardDescription>
+                )}
+              </div>
+              {selected && <Badge variant={STATUS_BADGES[selected.status]}>{selected.status}</Badge>}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <div className="grid gap-3 md:grid-cols-2">
+              <Input placeholder="Customer name" value={form.customerName} disabled={!isEditable && !canRevise} onChange={(e) => setForm({ ...form, customerName: e.target.value })} />
+              <Input placeholder="Customer email" type="email" value={form.customerEmail} disabled={!isEditable && !canRevise} onChange={(e) => setForm({ ...form, customerEmail: e.target.value })} />
+              <Input placeholder="Customer phone" value={form.customerPhone} disabled={!isEditable && !canRevise} onChange={(e) => setForm({ ...form, customerPhone: e.target.value })} />
+              <Input placeholder="Customer address" value={form.customerAddress} disabled={!isEditable && !canRevise} onChange={(e) => setForm({ ...form, customerAddress: e.target.value })} />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase text-slate-500">Line Items</p>
+              {form.lineItems.map((item, index) => (
+                <div key={index} className="grid grid-cols-[3fr_1fr_1fr_1fr_auto] gap-2">
+                  <Input placeholder="Description" value={item.description} disabled={!isEditable && !canRevise} onChange={(e) => updateLine(index, 'description', e.target.value)} />
+                  <Input type="number" step="0.25" placeholder="Qty" value={item.quantity} disabled={!isEditable && !canRevise} onChange={(e) => updateLine(index, 'quantity', e.target.value)} />
+                  <Input placeholder="Unit" value={item.unit} disabled={!isEditable && !canRevise} onChange={(e) => updateLine(index, 'unit', e.target.value)} />
+                  <Input type="number" step="0.01" placeholder="Rate" value={item.unitPrice} disabled={!isEditable && !canRevise} onChange={(e) => updateLine(index, 'unitPrice', e.target.value)} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={(!isEditable && !canRevise) || form.lineItems.length <= 1}
+                    onClick={() => setForm({ ...form, lineItems: form.lineItems.filter((_, i) => i !== index) })}
+                    aria-label="Remove line item"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              {(isEditable || canRevise) && (
+                <Button variant="outline" size="sm" onClick={() => setForm({ ...form, lineItems: [...form.lineItems, EMPTY_LINE] })}>
+                  <Plus className="w-4 h-4 mr-1" /> Add Line
+                </Button>
+              )}
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-[1fr_2fr]">
+              <label className="space-y-1 text-xs text-slate-600">
+                Tax rate (0.05 = 5%)
+                <Input type="number" step="0.01" value={form.taxRate} disabled={!isEditable && !canRevise} onChange={(e) => setForm({ ...form, taxRate: e.target.value })} />
+              </label>
+              <label className="space-y-1 text-xs text-slate-600">
+                Notes / terms
+                <textarea
+                  rows={3}
+                  value={form.notes}
+                  disabled={!isEditable && !canRevise}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                />
+              </label>
+            </div>
+
+            <p className="text-right text-lg font-bold text-slate-900">
+              Total: {formatMoney(Math.round(previewTotal * 100) / 100, selected?.currency || '')}
+            </p>
+
+            <div className="flex flex-wrap gap-2">
+              {isEditable && (
+                <Button onClick={handleSave} disabled={busy}>
+                  <Save className="w-4 h-4 mr-2" /> {selected ? 'Save Draft' : 'Create'}
+                </Button>
+              )}
+              {canRevise && selected?.status !== 'DRAFT' && (
+                <Button variant="outline" onClick={handleRevise} disabled={busy}>
+                  <GitBranch className="w-4 h-4 mr-2" /> Save as New Version
+                </Button>
+              )}
+              {selected && (
+                <>
+                  <Button variant="outline" onClick={() => window.open(`${API_URL}/documents/${selected.id}/html`, '_blank')}>
+                    <Printer className="w-4 h-4 mr-2" /> Print View
+                  </Button>
+                  <Button variant="outline" onClick={() => window.open(`${API_URL}/documents/${selected.id}/pdf`, '_blank')}>
+                    <Download className="w-4 h-4 mr-2" /> PDF
+                  </Button>
+                  {selected.status !== 'VOID' && !selected.supersededAt && (
+                    <Button variant="secondary" onClick={handleSend} disabled={busy || !selected.customerEmail}>
+                      <Send className="w-4 h-4 mr-2" /> Email to Customer
+                    </Button>
+                  )}
+                  {selected.type === 'ESTIMATE' && selected.status === 'ACCEPTED' && !selected.supersededAt && (
+                    <Button variant="success" onClick={handleInvoice} disabled={busy}>
+                      <Receipt className="w-4 h-4 mr-2" /> Create Invoice
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+
+            {selected && !selected.supersededAt && NEXT_STATUSES[selected.status].length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-semibold uppercase text-slate-500">Mark as</span>
+                {NEXT_STATUSES[selected.status]
+                  .filter((status) => (selected.type === 'INVOICE'
+                    ? status !== 'ACCEPTED' && status !== 'DECLINED'
+                    : status !== 'PAID'))
+                  .map((status) => (
+                    <Button key={status} size="sm" variant="ghost" disabled={busy} onClick={() => handleStatus(status)}>
+                      {status}
+                    </Button>
+                  ))}
+              </div>
+            )}
+
+            {selected && selected.versions.length > 1 && (
+              <div>
+                <p className="mb-2 text-xs font-semibold uppercase text-slate-500">Versions</p>
+                <div className="flex flex-wrap gap-2">
+                  {selected.versions.map((version) => (
+                    <Button
+                      key={version.id}
+                      size="sm"
+                      variant={version.id === selected.id ? 'primary' : 'outline'}
+                      onClick={() => openDocument(version.id)}
+                    >
+                      v{version.version} · {formatMoney(version.total, selected.currency)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,412 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  EstimateCalculator,
+  EstimateRequest,
+  EstimateResult,
+  formatMoney,
+} from '@/components/estimate/EstimateCalculator';
+import { useAdminSession } from '@/contexts/AdminSessionContext';
+
+interface Enquiry {
+  key: string;
+  kind: 'contact' | 'quote';
+  id: string;
+  label: string;
+}
+
+interface SavedEstimate {
+  id: string;
+  customerName: string;
+  currency: string;
+  total: number;
+  createdAt: string;
+}
+
+interface RateCardProduct {
+  id: string;
+  name: string;
+  pricePerLitre: number;
+  coverageSqmPerLitre: number;
+}
+
+interface RateCard {
+  currency: string;
+  taxRate: number;
+  labourRatePerHour: number;
+  sqmPerLabourHour: number;
+  conditionMultipliers: { good: number; fair: number; poor: number };
+  materialsPerSqm: number;
+  wastageFactor: number;
+  minimumCharge: number;
+  maxCoats: number;
+  products: RateCardProduct[];
+}
+
+type RateCardNumberField = 'taxRate' | 'labourRatePerHour' | 'sqmPerLabourHour' | 'materialsPerSqm' | 'wastageFactor' | 'minimumCharge' | 'maxCoats';
+
+const RATE_FIELDS: Array<{ key: RateCardNumberField; label: string; step: string }> = [
+  { key: 'labourRatePerHour', label: 'Labour rate per hour', step: '0.5' },
+  { key: 'sqmPerLabourHour', label: 'Sqm painted per hour (one coat)', step: '0.5' },
+  { key: 'materialsPerSqm', label: 'Materials per sqm', step: '0.1' },
+  { key: 'wastageFactor', label: 'Paint wastage (0.1 = 10%)', step: '0.01' },
+  { key: 'minimumCharge', label: 'Minimum job charge', step: '1' },
+  { key: 'taxRate', label: 'Tax rate (0.05 = 5%)', step: '0.01' },
+  { key: 'maxCoats', label: 'Maximum coats', step: '1' },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const toNumber = (value: unknown, fallback = 0): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+);
+
+const parseRateCard = (value: unknown): RateCard | null => {
+  if (!isRecord(value)) return null;
+  const multipliers = isRecord(value.conditionMultipliers) ? value.conditionMultipliers : {};
+  return {
+    currency: typeof value.currency === 'string' ? value.currency : 'AED',
+    taxRate: toNumber(value.taxRate),
+    labourRatePerHour: toNumber(value.labourRatePerHour),
+    sqmPerLabourHour: toNumber(value.sqmPerLabourHour, 1),
+    conditionMultipliers: {
+      good: toNumber(multipliers.good, 1),
+      fair: toNumber(multipliers.fair, 1),
+      poor: toNumber(multipliers.poor, 1),
+    },
+    materialsPerSqm: toNumber(value.materialsPerSqm),
+    wastageFactor: toNumber(value.wastageFactor),
+    minimumCharge: toNumber(value.minimumCharge),
+    maxCoats: toNumber(value.maxCoats, 3),
+    products: Array.isArray(value.products)
+      ? value.products.filter(isRecord).map((product) => ({
+          id: typeof product.id === 'string' ? product.id : '',
+          name: typeof product.name === 'string' ? product.name : '',
+          pricePerLitre: toNumber(product.pricePerLitre),
+          coverageSqmPerLitre: toNumber(product.coverageSqmPerLitre, 1),
+        }))
+      : [],
+  };
+};
+
+const parseEnquiries = (messages: unknown, quotes: unknown): Enquiry[] => {
+  const contactRows = Array.isArray(messages) ? messages.filter(isRecord) : [];
+  const quoteRows = isRecord(quotes) && Array.isArray(quotes.data) ? quotes.data.filter(isRecord) : [];
+  const toLabel = (row: Record<string, unknown>, detail: unknown) => {
+    const name = typeof row.name === 'string' ? row.name : 'Unknown';
+    const date = typeof row.createdAt === 'string' ? new Date(row.createdAt).toLocaleDateString() : '';
+    return `${name} — ${typeof detail === 'string' && detail ? detail : 'No subject'} (${date})`;
+  };
+  return [
+    ...quoteRows
+      .filter((row) => typeof row.id === 'string')
+      .map((row) => ({ key: `quote:${row.id}`, kind: 'quote' as const, id: row.id as string, label: toLabel(row, row.serviceType) })),
+    ...contactRows
+      .filter((row) => typeof row.id === 'string')
+      .map((row) => ({ key: `contact:${row.id}`, kind: 'contact' as const, id: row.id as string, label: toLabel(row, row.subject) })),
+  ];
+};
+
+const parseSavedEstimates = (value: unknown): SavedEstimate[] => {
+  const rows = isRecord(value) && Array.isArray(value.data) ? value.data.filter(isRecord) : [];
+  return rows
+    .filter((row) => typeof row.id === 'string')
+    .map((row) => ({
+      id: row.id as string,
+      customerName: typeof row.customerName === 'string' ? row.customerName : 'Unknown',
+      currency: typeof row.currency === 'string' ? row.currency : '',
+      total: toNumber(row.total),
+      createdAt: typeof row.createdAt === 'string' ? row.createdAt : new Date().toISOString(),
+    }));
+};
+
+export default function EstimatesPage() {
+  const searchParams = useSearchParams();
+  const { role } = useAdminSession();
+  const canEditRates = role === 'ADMINISTRATOR' || role === 'SUPER_ADMIN';
+
+  const [enquiries, setEnquiries] = useState<Enquiry[]>([]);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [latest, setLatest] = useState<{ request: EstimateRequest; result: EstimateResult } | null>(null);
+  const [notes, setNotes] = useState('');
+  const [saved, setSaved] = useState<SavedEstimate[]>([]);
+  const [rateCard, setRateCard] = useState<RateCard | null>(null);
+  const [savingEstimate, setSavingEstimate] = useState(false);
+  const [savingRates, setSavingRates] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [messages, quotes, card] = await Promise.all([
+          fetchAPI('/contact', { redirectOn401: false, cache: 'no-store' }).catch(() => []),
+          fetchAPI('/quotes?limit=100', { redirectOn401: false, cache: 'no-store' }).catch(() => null),
+          fetchAPI('/estimates/rate-card', { redirectOn401: false, cache: 'no-store' }),
+        ]);
+        const list = parseEnquiries(messages, quotes);
+        setEnquiries(list);
+        setRateCard(parseRateCard(card));
+
+        const quoteId = searchParams.get('quoteRequestId');
+        const contactId = searchParams.get('contactMessageId');
+        if (quoteId) setSelectedKey(`quote:${quoteId}`);
+        else if (contactId) setSelectedKey(`contact:${contactId}`);
+      } catch (err) {
+        logger.error('Failed to load estimate tools', err, { component: 'EstimatesPage' });
+        setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load estimate tools') });
+      }
+    };
+    load();
+  }, [searchParams]);
+
+  const selected = enquiries.find((enquiry) => enquiry.key === selectedKey) || null;
+
+  const loadSaved = async (enquiry: Enquiry | null) => {
+    if (!enquiry) {
+      setSaved([]);
+      return;
+    }
+    try {
+      const param = enquiry.kind === 'quote' ? 'quoteRequestId' : 'contactMessageId';
+      const data = await fetchAPI(`/estimates?${param}=${encodeURIComponent(enquiry.id)}`, { redirectOn401: false, cache: 'no-store' });
+      setSaved(parseSavedEstimates(data));
+    } catch (err) {
+      logger.error('Failed to load saved estimates', err, { component: 'EstimatesPage' });
+    }
+  };
+
+  useEffect(() => {
+    loadSaved(selected);
+  }, [selectedKey, enquiries.length]);
+
+  const handleSaveEstimate = async () => {
+    if (!selected || !latest) return;
+    setSavingEstimate(true);
+    setMessage(null);
+    try {
+      await fetchAPI('/estimates', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...latest.request,
+          [selected.kind === 'quote' ? 'quoteRequestId' : 'contactMessageId']: selected.id,
+          notes,
+        }),
+        redirectOn401: false,
+      });
+      setMessage({ type: 'success', text: 'Estimate saved.' });
+      setNotes('');
+      await loadSaved(selected);
+    } catch (err) {
+      logger.error('Failed to save estimate', err, { component: 'EstimatesPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to save estimate') });
+    } finally {
+      setSavingEstimate(false);
+    }
+  };
+
+  const updateProduct = (index: number, field: keyof RateCardProduct, value: string) => {
+    if (!rateCard) return;
+    const products = rateCard.products.map((product, i) => {
+      if (i !== index) return product;
+      if (field === 'id' || field === 'name') return { ...product, [field]: value };
+      return { ...product, [field]: Number(value) };
+    });
+    setRateCard({ ...rateCard, products });
+  };
+
+  const handleSaveRates = async () => {
+    if (!rateCard) return;
+    setSavingRates(true);
+    setMessage(null);
+    try {
+      const updated = await fetchAPI('/estimates/rate-card', {
+        method: 'PUT',
+        body: JSON.stringify(rateCard),
+        redirectOn401: false,
+      });
+      setRateCard(parseRateCard(updated));
+      setMessage({ type: 'success', text: 'Rate card saved.' });
+    } catch (err) {
+      logger.error('Failed to save rate card', err, { component: 'EstimatesPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to save rate card') });
+    } finally {
+      setSavingRates(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Estimates</h1>
+        <p className="text-slate-600">Price jobs from the rate card and save estimates against the customer enquiry.</p>
+      </div>
+
+      {message && (
+        <div className={`rounded-md p-4 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Calculator</CardTitle>
+            <CardDescription>Measurements are in metres. Openings are subtracted from the wall area.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <EstimateCalculator mode="admin" onCalculated={(request, result) => setLatest({ request, result })} />
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Save to Enquiry</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <select
+                value={selectedKey}
+                onChange={(e) => setSelectedKey(e.target.value)}
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              >
+                <option value="">Select an enquiry…</option>
+                {enquiries.map((enquiry) => (
+                  <option key={enquiry.key} value={enquiry.key}>
+                    {enquiry.kind === 'quote' ? '[Quote] ' : '[Contact] '}{enquiry.label}
+                  </option>
+                ))}
+              </select>
+              <textarea
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes for this estimate (optional)"
+                className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+              />
+              <Button onClick={handleSaveEstimate} disabled={!selected || !latest || savingEstimate}>
+                <Save className="w-4 h-4 mr-2" /> {savingEstimate ? 'Saving...' : 'Save Estimate'}
+              </Button>
+              {!latest && <p className="text-xs text-slate-500">Calculate an estimate before saving.</p>}
+
+              {saved.length > 0 && (
+                <div className="divide-y divide-slate-200 rounded-md border border-slate-200">
+                  {saved.map((estimate) => (
+                    <div key={estimate.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span className="text-slate-600">{new Date(estimate.createdAt).toLocaleString()}</span>
+                      <span className="flex items-center gap-3">
+                        <span className="font-semibold text-slate-900">{formatMoney(estimate.total, estimate.currency)}</span>
+                        <Link href={`/dashboard/documents?estimateId=${estimate.id}`} className="text-xs text-blue-600 hover:underline">
+                          Issue document
+                        </Link>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {rateCard && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Rate Card</CardTitle>
+                <CardDescription>Stored with the site settings and used by the public instant estimate.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="space-y-1 text-xs text-slate-600">
+                    Currency
+                    <Input
+                      value={rateCard.currency}
+                      disabled={!canEditRates}
+                      onChange={(e) => setRateCard({ ...rateCard, currency: e.target.value })}
+                    />
+                  </label>
+                  {RATE_FIELDS.map((field) => (
+                    <label key={field.key} className="space-y-1 text-xs text-slate-600">
+                      {field.label}
+                      <Input
+                        type="number"
+                        step={field.step}
+                        value={String(rateCard[field.key])}
+                        disabled={!canEditRates}
+                        onChange={(e) => setRateCard({ ...rateCard, [field.key]: Number(e.target.value) })}
+                      />
+                    </label>
+                  ))}
+                  {(['good', 'fair', 'poor'] as const).map((condition) => (
+                    <label key={condition} className="space-y-1 text-xs text-slate-600">
+                      Labour multiplier ({condition})
+                      <Input
+                        type="number"
+                        step="0.05"
+                        value={String(rateCard.conditionMultipliers[condition])}
+                        disabled={!canEditRates}
+                        onChange={(e) => setRateCard({
+                          ...rateCard,
+                          conditionMultipliers: { ...rateCard.conditionMultipliers, [condition]: Number(e.target.value) },
+                        })}
+                      />
+                    </label>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase text-slate-500">Paint Products</p>
+                  {rateCard.products.map((product, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_1.5fr_1fr_1fr_auto] gap-2">
+                      <Input placeholder="id" value={product.id} disabled={!canEditRates} onChange={(e) => updateProduct(index, 'id', e.target.value)} />
+                      <Input placeholder="Name" value={product.name} disabled={!canEditRates} onChange={(e) => updateProduct(index, 'name', e.target.value)} />
+                      <Input type="number" step="0.5" placeholder="Price / L" value={String(product.pricePerLitre)} disabled={!canEditRates} onChange={(e) => updateProduct(index, 'pricePerLitre', e.target.value)} />
+                      <Input type="number" step="0.5" placeholder="Sqm / L" value={String(product.coverageSqmPerLitre)} disabled={!canEditRates} onChange={(e) => updateProduct(index, 'coverageSqmPerLitre', e.target.value)} />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!canEditRates || rateCard.products.length <= 1}
+                        onClick={() => setRateCard({ ...rateCard, products: rateCard.products.filter((_, i) => i !== index) })}
+                        aria-label="Remove product"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {canEditRates && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRateCard({
+                        ...rateCard,
+                        products: [...rateCard.products, { id: '', name: '', pricePerLitre: 0, coverageSqmPerLitre: 10 }],
+                      })}
+                    >
+                      <Plus className="w-4 h-4 mr-1" /> Add Product
+                    </Button>
+                  )}
+                </div>
+
+                {canEditRates && (
+                  <Button onClick={handleSaveRates} disabled={savingRates}>
+                    <Save className="w-4 h-4 mr-2" /> {savingRates ? 'Saving...' : 'Save Rate Card'}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,10 +9,14 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Save, ArrowLeft, Eye } from 'lucide-react';
 import RichTextEditor from '@/components/editor/RichTextEditor';
+import EditSessionStatus from '@/components/editor/EditSessionStatus';
+import EditConflictDialog, { type MergeField, type MergedValues } from '@/components/editor/EditConflictDialog';
+import { useEditSession } from '@/components/editor/useEditSession';
 import { FieldLabel } from '@/components/ui/HelpText';
 import { useToast } from '@/components/ui/Toast';
 import { fetchAPI } from '@/lib/api';
 import { getErrorMessage } from '@/lib/error-utils';
+import { readEditConflict, type EditConflict } from '@/lib/editing';
 
 type PageStatus = 'DRAFT' | 'PUBLISHED';
 
@@ -78,6 +82,26 @@ const parsePageResponse = (value: unknown): PageFormData | null => {
   };
 };
 
+/** Form fields from an autosaved draft or merge, falling back to the loaded page */
+const parseFormDraft = (data: Record<string, unknown>, fallback: PageFormData): PageFormData => ({
+  title: parseString(data.title, fallback.title),
+  slug: parseString(data.slug, fallback.slug),
+  content: parseString(data.content, fallback.content),
+  status: data.status === undefined ? fallback.status : parseStatus(data.status),
+  seoTitle: parseString(data.seoTitle, fallback.seoTitle),
+  seoDescription: parseString(data.seoDescription, fallback.seoDescription),
+  seoKeywords: Array.isArray(data.seoKeywords) ? parseStringArray(data.seoKeywords) : fallback.seoKeywords,
+});
+
+const buildMergeFields = (current: Record<string, unknown>, data: PageFormData): MergeField[] => [
+  { key: 'title', label: 'Title', kind: 'text', mine: data.title, theirs: parseString(current.title) },
+  { key: 'slug', label: 'Slug', kind: 'text', mine: data.slug, theirs: parseString(current.slug) },
+  { key: 'content', label: 'Content', kind: 'html', mine: data.content, theirs: parsePageContent(current.content) },
+  { key: 'seoTitle', label: 'SEO title', kind: 'text', mine: data.seoTitle, theirs: parseString(current.seoTitle) },
+  { key: 'seoDescription', label: 'SEO description', kind: 'text', mine: data.seoDescription, theirs: parseString(current.seoDescription) },
+  { key: 'seoKeywords', label: 'SEO keywords', kind: 'list', mine: data.seoKeywords, theirs: parseStringArray(current.seoKeywords) },
+];
+
 export default function PageEditPage() {
   const router = useRouter();
   const params = useParams();
@@ -98,6 +122,17 @@ export default function PageEditPage() {
     seoKeywords: [],
   });
   const [customSlug, setCustomSlug] = useState(false);
+  // updatedAt of the loaded page, sent with saves so concurrent edits are detected
+  const [version, setVersion] = useState<string | null>(null);
+  // Bumped to remount the editor when its content is replaced (draft restore, merge)
+  const [editorKey, setEditorKey] = useState(0);
+  const [conflict, setConflict] = useState<{ conflict: EditConflict; fields: MergeField[]; publish: boolean } | null>(null);
+  const session = useEditSession({
+    resource: 'pages',
+    resourceId: pageId,
+    baseVersion: isNew ? null : version,
+    data: formData,
+  });
   const seoTitleLength = formData.seoTitle.length;
   const seoDescriptionLength = formData.seoDescription.length;
 
@@ -133,6 +168,7 @@ export default function PageEditPage() {
       const parsed = parsePageResponse(data);
       if (parsed) {
         setFormData(parsed);
+        setVersion(isRecord(data) ? parseString(data.updatedAt) || null : null);
         setCustomSlug(false);
       } else {
         showError('Failed to load page data.');
@@ -194,13 +230,27 @@ export default function PageEditPage() {
     });
   };
 
-  const handleSave = async (publish: boolean = false) => {
-    if (!formData.title.trim()) {
+  const replaceFormData = (data: PageFormData) => {
+    setFormData(data);
+    setEditorKey(key => key + 1);
+  };
+
+  const restoreDraft = () => {
+    const draft = session.takeDraft();
+    if (!draft) return;
+    replaceFormData(parseFormDraft(draft.data, formData));
+    setCustomSlug(true);
+    // Saving a draft started before someone else's save goes through the merge view
+    if (draft.baseVersion) setVersion(draft.baseVersion);
+  };
+
+  const handleSave = async (publish: boolean = false, data: PageFormData = formData, baseVersion: string | null = version) => {
+    if (!data.title.trim()) {
       showError('Page title is required');
       return;
     }
 
-    if (!formData.slug.trim()) {
+    if (!data.slug.trim()) {
       showError('Page slug is required');
       return;
     }
@@ -208,15 +258,15 @@ export default function PageEditPage() {
     setSaving(true);
     try {
       const pageData = {
-        title: formData.title,
-        slug: formData.slug,
-        content: formData.content,
-        status: publish ? 'PUBLISHED' : formData.status,
+        title: data.title,
+        slug: data.slug,
+        content: data.content,
+        status: publish ? 'PUBLISHED' : data.status,
         pageType: 'STATIC',
         usePageBuilder: false,
-        seoTitle: formData.seoTitle || formData.title,
-        seoDescription: formData.seoDescription || formData.title,
-        seoKeywords: formData.seoKeywords,
+        seoTitle: data.seoTitle || data.title,
+        seoDescription: data.seoDescription || data.title,
+        seoKeywords: data.seoKeywords,
         publishedAt: publish ? new Date().toISOString() : undefined,
       };
 
@@ -237,14 +287,20 @@ export default function PageEditPage() {
       } else {
         await fetchAPI(`/pages/${pageId}`, {
           method: 'PUT',
-          body: JSON.stringify(pageData),
+          body: JSON.stringify({ ...pageData, baseVersion: baseVersion ?? undefined }),
           redirectOn401: false,
           cache: 'no-store',
         });
+        setConflict(null);
         success(publish ? 'Page published successfully!' : 'Page saved');
         fetchPage();
       }
     } catch (error: unknown) {
+      const editConflict = readEditConflict(error);
+      if (editConflict) {
+        setConflict({ conflict: editConflict, fields: buildMergeFields(editConflict.current, data), publish });
+        return;
+      }
       logger.error('Error saving page:', error);
       showError(getErrorMessage(error, 'Failed to save page'));
     } finally {
@@ -252,6 +308,15 @@ export default function PageEditPage() {
     }
   };
 
+  const saveMerged = async (merged: MergedValues) => {
+    if (!conflict) return;
+    const data = parseFormDraft(merged, formData);
+    const mergedVersion = parseString(conflict.conflict.current.updatedAt) || null;
+    replaceFormData(data);
+    setVersion(mergedVersion);
+    await handleSave(conflict.publish, data, mergedVersion);
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -294,6 +359,18 @@ export default function PageEditPage() {
         </div>
       </div>
 
+      {!isNew && (
+        <EditSessionStatus
+          editors={session.editors}
+          remoteChanged={session.remoteChanged}
+          pendingDraft={session.pendingDraft}
+          autosavedAt={session.autosavedAt}
+          autosaveFailed={session.autosaveFailed}
+          onRestoreDraft={restoreDraft}
+          onDiscardDraft={session.discardDraft}
+        />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -356,6 +433,7 @@ export default function PageEditPage() {
                 <FieldLabel label="Page Content" htmlFor="content" />
                 <div className="mt-2">
                   <RichTextEditor
+                    key={editorKey}
                     content={formData.content}
                     onChange={handleEditorChange}
                     onImageUpload={handleImageUpload}
@@ -459,6 +537,16 @@ export default function PageEditPage() {
           </Card>
         </div>
       </div>
+
+      {conflict && (
+        <EditConflictDialog
+          conflict={conflict.conflict}
+          fields={conflict.fields}
+          saving={saving}
+          onCancel={() => setConflict(null)}
+          onSave={saveMerged}
+        />
+      )}
     </div>
   );
 }
@@ -2,16 +2,24 @@
 
 import logger from '@/lib/logger';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Plus, X, Tag, Folder } from 'lucide-react';
-import RichTextEditor from '@/components/editor/RichTextEditor';
+import RichTextEditor, { type RichTextEditorHandle } from '@/components/editor/RichTextEditor';
+import AiDraftAssistant from '@/components/editor/AiDraftAssistant';
+import PostRevisionHistory from '@/components/editor/PostRevisionHistory';
+import InterlinkPanel from '@/components/editor/InterlinkPanel';
+import PostCommentSettings from '@/components/editor/PostCommentSettings';
+import EditSessionStatus from '@/components/editor/EditSessionStatus';
+import EditConflictDialog, { type MergeField, type MergedValues } from '@/components/editor/EditConflictDialog';
+import { useEditSession } from '@/components/editor/useEditSession';
 import { useToast } from '@/components/ui/Toast';
 import { fetchAPI } from '@/lib/api';
 import { getErrorMessage } from '@/lib/error-utils';
+import { readEditConflict, type EditConflict } from '@/lib/editing';
 
 type PostStatus = 'DRAFT' | 'PUBLISHED' | 'SCHEDULED';
 
@@ -72,6 +80,23 @@ const parseIdList = (value: unknown): string[] => (
     : []
 );
 
+const parseStringList = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+/** Form fields from an autosaved draft, falling back to the loaded post */
+const parseFormDraft = (data: Record<string, unknown>, fallback: EditPostFormData): EditPostFormData => ({
+  title: parseString(data.title, fallback.title),
+  slug: parseString(data.slug, fallback.slug),
+  excerpt: parseString(data.excerpt, fallback.excerpt),
+  content: parseString(data.content, fallback.content),
+  featuredImage: parseString(data.featuredImage, fallback.featuredImage),
+  status: data.status === undefined ? fallback.status : parseStatus(data.status),
+  scheduledFor: parseString(data.scheduledFor, fallback.scheduledFor),
+  categories: Array.isArray(data.categories) ? parseStringList(data.categories) : fallback.categories,
+  tags: Array.isArray(data.tags) ? parseStringList(data.tags) : fallback.tags,
+});
+
 const parseStatus = (value: unknown): PostStatus => (
   value === 'PUBLISHED' || value === 'SCHEDULED' ? value : 'DRAFT'
 );
@@ -105,6 +130,7 @@ export default function EditPostPage() {
     setOrigin(window.location.origin);
   }, []);
 
+  const editorRef = useRef<RichTextEditorHandle>(null);
   const [formData, setFormData] = useState<EditPostFormData>({
     title: '',
     slug: '',
@@ -128,6 +154,13 @@ export default function EditPostPage() {
   const [showNewTag, setShowNewTag] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newTagName, setNewTagName] = useState('');
+  const [revisionNote, setRevisionNote] = useState('');
+  // updatedAt of the loaded post, sent with saves so concurrent edits are detected
+  const [version, setVersion] = useState<string | null>(null);
+  // Bumped to remount the editor when its content is replaced (draft restore, merge)
+  const [editorKey, setEditorKey] = useState(0);
+  const [conflict, setConflict] = useState<{ conflict: EditConflict; fields: MergeField[] } | null>(null);
+  const session = useEditSession({ resource: 'posts', resourceId: postId, baseVersion: version, data: formData });
 
   const fetchPost = useCallback(async () => {
     try {
@@ -153,6 +186,7 @@ export default function EditPostPage() {
         categories: parseIdList(post.categories),
         tags: parseIdList(post.tags),
       });
+      setVersion(parseString(post.updatedAt) || null);
       setSeoPreview({
         title: parseString(post.title).substring(0, 60),
         description: parseString(post.excerpt).substring(0, 155),
@@ -320,30 +354,65 @@ export default function EditPostPage() {
 
 
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  /** Replace the form (and editor content) with restored or merged values */
+  const replaceFormData = (data: EditPostFormData) => {
+    setFormData(data);
+    setSeoPreview(prev => ({ ...prev, title: data.title.substring(0, 60) }));
+    setEditorKey(key => key + 1);
+  };
+
+  const restoreDraft = () => {
+    const draft = session.takeDraft();
+    if (!draft) return;
+    replaceFormData(parseFormDraft(draft.data, formData));
+    // Saving a draft started before someone else's save goes through the merge view
+    if (draft.baseVersion) setVersion(draft.baseVersion);
+  };
+
+  const buildMergeFields = (current: Record<string, unknown>, data: EditPostFormData): MergeField[] => {
+    const categoryLabels = Object.fromEntries(availableCategories.map(item => [item.id, item.name]));
+    const tagLabels = Object.fromEntries(availableTags.map(item => [item.id, item.name]));
+    return [
+      { key: 'title', label: 'Title', kind: 'text', mine: data.title, theirs: parseString(current.title) },
+      { key: 'slug', label: 'Slug', kind: 'text', mine: data.slug, theirs: parseString(current.slug) },
+      { key: 'excerpt', label: 'Excerpt', kind: 'text', mine: data.excerpt, theirs: parseString(current.excerpt) },
+      { key: 'content', label: 'Content', kind: 'html', mine: data.content, theirs: parseString(current.content) },
+      { key: 'categories', label: 'Categories', kind: 'list', mine: data.categories, theirs: parseStringList(current.categoryIds), labels: categoryLabels },
+      { key: 'tags', label: 'Tags', kind: 'list', mine: data.tags, theirs: parseStringList(current.tagIds), labels: tagLabels },
+    ];
+  };
+
+  const savePost = async (data: EditPostFormData, baseVersion: string | null) => {
     setLoading(true);
 
     try {
       await fetchAPI(`/blog/${postId}`, {
         method: 'PUT',
         body: JSON.stringify({
-          title: formData.title,
-          slug: formData.slug,
-          excerpt: formData.excerpt,
-          content: formData.content,
-          featuredImage: formData.featuredImage,
-          status: formData.status,
-          scheduledFor: formData.scheduledFor ? new Date(formData.scheduledFor).toISOString() : null,
-          categoryIds: formData.categories,
-          tagIds: formData.tags,
+          title: data.title,
+          slug: data.slug,
+          excerpt: data.excerpt,
+          content: data.content,
+          featuredImage: data.featuredImage,
+          status: data.status,
+          scheduledFor: data.scheduledFor ? new Date(data.scheduledFor).toISOString() : null,
+          categoryIds: data.categories,
+          tagIds: data.tags,
+          revisionNote: revisionNote.trim() || undefined,
+          baseVersion: baseVersion ?? undefined,
         }),
         redirectOn401: false,
       });
 
+      setConflict(null);
       success('Post updated successfully!');
       router.push('/dashboard/posts');
     } catch (error: unknown) {
+      const editConflict = readEditConflict(error);
+      if (editConflict) {
+        setConflict({ conflict: editConflict, fields: buildMergeFields(editConflict.current, data) });
+        return;
+      }
       logger.error('Error updating post:', error);
       showError(getErrorMessage(error, 'Failed to update post. Please try again.'));
     } finally {
@@ -351,6 +420,20 @@ export default function EditPostPage() {
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await savePost(formData, version);
+  };
+
+  const saveMerged = async (merged: MergedValues) => {
+    if (!conflict) return;
+    const data = parseFormDraft(merged, formData);
+    const mergedVersion = parseString(conflict.conflict.current.updatedAt) || null;
+    replaceFormData(data);
+    setVersion(mergedVersion);
+    await savePost(data, mergedVersion);
+  };
+
   if (loadingPost) {
     return (
       <div className="p-8">
@@ -371,6 +454,18 @@ export default function EditPostPage() {
           </p>
         </div>
 
+        <div className="mb-6">
+          <EditSessionStatus
+            editors={session.editors}
+            remoteChanged={session.remoteChanged}
+            pendingDraft={session.pendingDraft}
+            autosavedAt={session.autosavedAt}
+            autosaveFailed={session.autosaveFailed}
+            onRestoreDraft={restoreDraft}
+            onDiscardDraft={session.discardDraft}
+          />
+        </div>
+
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Basic Info Card */}
           <Card>
@@ -431,14 +526,19 @@ export default function EditPostPage() {
                   Content *
                 </label>
                 
-                <RichTextEditor
-                  content={formData.content}
-                  onChange={handleEditorChange}
-                  onImageUpload={handleImageUpload}
-                  placeholder="Write your blog post content here..."
-                  minHeight="400px"
-                  className="border-slate-300 dark:border-slate-600"
-                />
+                <AiDraftAssistant editor={editorRef} title={formData.title} />
+                <div className="mt-3">
+                  <RichTextEditor
+                    key={editorKey}
+                    ref={editorRef}
+                    content={formData.content}
+                    onChange={handleEditorChange}
+                    onImageUpload={handleImageUpload}
+                    placeholder="Write your blog post content here..."
+                    minHeight="400px"
+                    className="border-slate-300 dark:border-slate-600"
+                  />
+                </div>
               </div>
 
               {/* Featured Image */}
@@ -649,6 +749,47 @@ export default function EditPostPage() {
             </CardContent>
           </Card>
 
+          {/* Internal Links */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Internal Links</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <InterlinkPanel
+                postId={postId}
+                content={formData.content}
+                onApply={(content) => replaceFormData({ ...formData, content })}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Comments */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Comments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PostCommentSettings postId={postId} />
+            </CardContent>
+          </Card>
+
+          {/* Revision History */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Revision History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PostRevisionHistory
+                postId={postId}
+                current={{ title: formData.title, content: formData.content, excerpt: formData.excerpt }}
+                onRestored={() => {
+                  success('Revision restored');
+                  fetchPost();
+                }}
+              />
+            </CardContent>
+          </Card>
+
           {/* Publishing Options */}
           <Card>
             <CardHeader>
@@ -771,6 +912,16 @@ export default function EditPostPage() {
 
           {/* Action Buttons */}
           <div className="flex gap-3 justify-end">
+            <div className="flex-1 max-w-sm">
+              <Input
+                type="text"
+                value={revisionNote}
+                onChange={(e) => setRevisionNote(e.target.value)}
+                placeholder="Revision note (optional)"
+                aria-label="Revision note"
+                maxLength={200}
+              />
+            </div>
             <Button
               type="button"
               variant="outline"
@@ -802,6 +953,16 @@ export default function EditPostPage() {
             </Button>
           </div>
         </form>
+
+        {conflict && (
+          <EditConflictDialog
+            conflict={conflict.conflict}
+            fields={conflict.fields}
+            saving={loading}
+            onCancel={() => setConflict(null)}
+            onSave={saveMerged}
+          />
+        )}
       </div>
     </div>
   );
@@ -2,13 +2,14 @@
 
 import logger from '@/lib/logger';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Plus, X, Tag, Folder } from 'lucide-react';
-import RichTextEditor from '@/components/editor/RichTextEditor';
+import RichTextEditor, { type RichTextEditorHandle } from '@/components/editor/RichTextEditor';
+import AiDraftAssistant from '@/components/editor/AiDraftAssistant';
 import { FieldLabel, InlineHelp } from '@/components/ui/HelpText';
 import { useToast } from '@/components/ui/Toast';
 import { fetchAPI } from '@/lib/api';
@@ -81,6 +82,7 @@ export default function NewPostPage() {
   useEffect(() => {
     setOrigin(window.location.origin);
   }, []);
+  const editorRef = useRef<RichTextEditorHandle>(null);
   const [formData, setFormData] = useState<NewPostFormData>({
     title: '',
     slug: '',
@@ -366,14 +368,18 @@ export default function NewPostPage() {
                 helpText="Your blog post content. Use the rich text editor to format text, add images, videos, code blocks, and more. Aim for at least 300 words for better SEO."
               />
               
-              <RichTextEditor
-                content={formData.content}
-                onChange={handleEditorChange}
-                onImageUpload={handleImageUpload}
-                placeholder="Start writing your blog post here..."
-                minHeight="400px"
-                maxHeight="800px"
-              />
+              <AiDraftAssistant editor={editorRef} title={formData.title} />
+              <div className="mt-3">
+                <RichTextEditor
+                  ref={editorRef}
+                  content={formData.content}
+                  onChange={handleEditorChange}
+                  onImageUpload={handleImageUpload}
+                  placeholder="Start writing your blog post here..."
+                  minHeight="400px"
+                  maxHeight="800px"
+                />
+              </div>
             </div>
 
             {/* Featured Image */}
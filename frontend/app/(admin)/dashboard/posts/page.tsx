@@ -12,10 +12,11 @@ import { Badge } from '@/components/ui/Badge';
 import { LoadingSpinner, LoadingSkeleton } from '@/components/ui/LoadingSpinner';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { Tooltip } from '@/components/ui/Tooltip';
-import { Trash2, Eye, Edit, Plus, Calendar, User, FileText, Clock, MessageSquare } from 'lucide-react';
+import { Trash2, Eye, Edit, Plus, Calendar, User, FileText, Clock, MessageSquare, Search, X } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { fetchAPI } from '@/lib/api';
 import { getErrorMessage } from '@/lib/error-utils';
+import { SafeHtml } from '@/components/SafeHtml';
 
 interface Post {
   id: string;
@@ -112,6 +113,20 @@ const parsePostsList = (value: unknown): Post[] => (
 type FilterStatus = 'all' | 'PUBLISHED' | 'DRAFT' | 'SCHEDULED';
 type SortOrder = 'latest' | 'oldest';
 
+// Full-text matches keyed by post id, in relevance order
+type SearchHit = { order: number; snippet: string };
+
+const parseSearchHits = (value: unknown): Map<string, SearchHit> => {
+  const items = isRecord(value) && isRecord(value.posts) && Array.isArray(value.posts.items) ? value.posts.items : [];
+  const hits = new Map<string, SearchHit>();
+  items.filter(isRecord).forEach((item, index) => {
+    if (typeof item.id === 'string') {
+      hits.set(item.id, { order: index, snippet: typeof item.snippet === 'string' ? item.snippet : '' });
+    }
+  });
+  return hits;
+};
+
 export default function PostsPage() {
   const router = useRouter();
   const { success, warning, error: showError } = useToast();
@@ -124,6 +139,9 @@ export default function PostsPage() {
   const [authors, setAuthors] = useState<Array<{ id: string; name: string }>>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchHits, setSearchHits] = useState<Map<string, SearchHit> | null>(null);
+  const [searching, setSearching] = useState(false);
 
   const fetchPosts = useCallback(async () => {
     setLoading(true);
@@ -172,7 +190,31 @@ export default function PostsPage() {
   // NOTE: We no longer refetch on filter changes; filters are applied client-side
   useEffect(() => {
     setCurrentPage(1);
-  }, [filterStatus, filterAuthor, sortOrder, pageSize, posts.length]);
+  }, [filterStatus, filterAuthor, sortOrder, pageSize, posts.length, searchHits]);
+
+  // Search runs server-side (full-text with typo tolerance); results narrow the loaded list
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (term.length < 2) {
+      setSearchHits(null);
+      setSearching(false);
+      return;
+    }
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: term, type: 'posts', limit: '50' });
+        const data = await fetchAPI(`/search/admin?${params.toString()}`, { redirectOn401: false, cache: 'no-store' });
+        setSearchHits(parseSearchHits(data));
+      } catch (error: unknown) {
+        logger.error('Error searching posts:', error);
+        showError(getErrorMessage(error, 'Search failed'));
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, showError]);
 
   const handleDelete = async (id: string, title: string) => {
     confirm(
@@ -237,7 +279,7 @@ export default function PostsPage() {
   };
 
   // Apply filters client-side for a consistent UX
-  let filteredPosts = postsArray;
+  let filteredPosts = searchHits ? postsArray.filter((p) => searchHits.has(p.id)) : postsArray;
   if (filterStatus === 'PUBLISHED') {
     filteredPosts = filteredPosts.filter(
       (p) => p.status === 'PUBLISHED' || !!p.publishedAt,
@@ -259,6 +301,9 @@ export default function PostsPage() {
   }
 
   const sortedPosts = [...filteredPosts].sort((a, b) => {
+    if (searchHits) {
+      return (searchHits.get(a.id)?.order ?? 0) - (searchHits.get(b.id)?.order ?? 0);
+    }
     const aDate = new Date(a.createdAt).getTime();
     const bDate = new Date(b.createdAt).getTime();
     return sortOrder === 'oldest' ? aDate - bDate : bDate - aDate;
@@ -304,6 +349,31 @@ export default function PostsPage() {
 
       {/* Filter Tabs */}
       <div className="mb-6 space-y-4">
+        {/* Search */}
+        <div className="relative">
+          <Search className="absolute left-3 top-2.5 w-5 h-5 text-slate-400" />
+          <input
+            type="search"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search titles, excerpts and content..."
+            className="w-full pl-10 pr-10 py-2 rounded-lg border border-slate-300 dark:border-slate-600 
+                     bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100
+                     focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {searchTerm && (
+            <button
+              type="button"
+              onClick={() => setSearchTerm('')}
+              className="absolute right-3 top-2.5 text-slate-400 hover:text-slate-600"
+              aria-label="Clear search"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          )}
+          {searching && <p className="mt-1 text-xs text-slate-500">Searching...</p>}
+        </div>
+
         {/* Status Filter */}
         <div>
           <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">
@@ -374,8 +444,10 @@ export default function PostsPage() {
       {sortedPosts.length === 0 ? (
         <EmptyState
           icon={<FileText className="w-16 h-16" />}
-          title={filterStatus === 'all' ? 'No posts yet' : `No ${filterStatus.toLowerCase()} posts`}
-          description={filterStatus === 'all' 
+          title={searchHits ? 'No matching posts' : filterStatus === 'all' ? 'No posts yet' : `No ${filterStatus.toLowerCase()} posts`}
+          description={searchHits
+            ? `Nothing matches "${searchTerm.trim()}". Try different words or clear the search.`
+            : filterStatus === 'all' 
             ? "Start creating engaging content for your audience. Your first post is just a click away!" 
             : `You don't have ${filterStatus.toLowerCase()} posts at the moment.`}
           action={{
@@ -439,7 +511,15 @@ export default function PostsPage() {
                       </h2>
                       {getStatusBadge(post)}
                     </div>
-                    <p className="text-slate-600 dark:text-slate-400 mb-3">{post.excerpt}</p>
+                    {searchHits?.get(post.id)?.snippet ? (
+                      <SafeHtml
+                        html={searchHits.get(post.id)?.snippet || ''}
+                        as="p"
+                        className="text-slate-600 dark:text-slate-400 mb-3 [&_mark]:bg-yellow-200 [&_mark]:text-slate-900"
+                      />
+                    ) : (
+                      <p className="text-slate-600 dark:text-slate-400 mb-3">{post.excerpt}</p>
+                    )}
                     <div className="flex items-center gap-4 text-sm text-slate-500 dark:text-slate-400">
                       <Tooltip content="Author">
                         <div className="flex items-center gap-1">
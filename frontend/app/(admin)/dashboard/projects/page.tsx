@@ -0,0 +1,579 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import RichTextEditor from '@/components/editor/RichTextEditor';
+import { ExternalLink, ImagePlus, Plus, Save, Star, Trash2, X } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { useAdminSession } from '@/contexts/AdminSessionContext';
+import {
+  PROJECT_STATUSES,
+  parseProject,
+  parseProjectList,
+  type Project,
+  type ProjectImage,
+  type ProjectStatus,
+} from '@/lib/projects';
+
+type PairDraft = {
+  key: string;
+  caption: string;
+  before: ProjectImage | null;
+  after: ProjectImage | null;
+};
+
+type ProjectForm = {
+  title: string;
+  slug: string;
+  status: ProjectStatus;
+  featured: boolean;
+  summary: string;
+  description: string;
+  location: string;
+  serviceType: string;
+  propertyType: string;
+  coloursUsed: string;
+  paintBrands: string;
+  durationDays: string;
+  completedAt: string;
+  customerName: string;
+  customerQuote: string;
+  seoTitle: string;
+  seoDescription: string;
+  pairs: PairDraft[];
+};
+
+type PickerTarget = { key: string; side: 'before' | 'after' };
+
+const STATUS_VARIANTS: Record<ProjectStatus, 'default' | 'success' | 'warning'> = {
+  DRAFT: 'warning',
+  PUBLISHED: 'success',
+  ARCHIVED: 'default',
+};
+
+const EMPTY_FORM: ProjectForm = {
+  title: '',
+  slug: '',
+  status: 'DRAFT',
+  featured: false,
+  summary: '',
+  description: '',
+  location: '',
+  serviceType: '',
+  propertyType: '',
+  coloursUsed: '',
+  paintBrands: '',
+  durationDays: '',
+  completedAt: '',
+  customerName: '',
+  customerQuote: '',
+  seoTitle: '',
+  seoDescription: '',
+  pairs: [],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const newPairKey = () => `pair-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const parseMediaImages = (value: unknown): ProjectImage[] => {
+  const list = Array.isArray(value) ? value : isRecord(value) && Array.isArray(value.items) ? value.items : [];
+  return list
+    .filter(isRecord)
+    .filter((item) => typeof item.mimeType !== 'string' || item.mimeType.startsWith('image/'))
+    .filter((item) => typeof item.id === 'string' && typeof item.url === 'string')
+    .map((item) => ({
+      id: item.id as string,
+      url: item.url as string,
+      altText: typeof item.altText === 'string' ? item.altText : typeof item.originalName === 'string' ? item.originalName : '',
+    }));
+};
+
+const toForm = (project: Project): ProjectForm => ({
+  title: project.title,
+  slug: project.slug,
+  status: project.status,
+  featured: project.featured,
+  summary: project.summary,
+  description: project.description,
+  location: project.location,
+  serviceType: project.serviceType,
+  propertyType: project.propertyType,
+  coloursUsed: project.coloursUsed.join(', '),
+  paintBrands: project.paintBrands.join(', '),
+  durationDays: project.durationDays ? String(project.durationDays) : '',
+  completedAt: project.completedAt ? project.completedAt.slice(0, 10) : '',
+  customerName: project.customerName,
+  customerQuote: project.customerQuote,
+  seoTitle: project.seoTitle,
+  seoDescription: project.seoDescription,
+  pairs: project.imagePairs.map((pair) => ({
+    key: pair.id || newPairKey(),
+    caption: pair.caption,
+    before: pair.before,
+    after: pair.after,
+  })),
+});
+
+export default function ProjectsPage() {
+  const { role } = useAdminSession();
+  const canDelete = role === 'ADMINISTRATOR' || role === 'SUPER_ADMIN';
+
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ProjectStatus | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProjectForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [mediaImages, setMediaImages] = useState<ProjectImage[]>([]);
+  const [picker, setPicker] = useState<PickerTarget | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = statusFilter ? `?status=${statusFilter}` : '';
+      const data = await fetchAPI(`/projects/admin${params}`, { redirectOn401: false, cache: 'no-store' });
+      setProjects(parseProjectList(data).projects);
+    } catch (err) {
+      logger.error('Failed to load projects', err, { component: 'ProjectsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load projects') });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const loadMedia = async () => {
+    if (mediaImages.length > 0) return;
+    try {
+      const data = await fetchAPI('/media?limit=200&page=1', { redirectOn401: false, cache: 'no-store' });
+      setMediaImages(parseMediaImages(data));
+    } catch (err) {
+      logger.error('Failed to load media library', err, { component: 'ProjectsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load the media library') });
+    }
+  };
+
+  const startCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, pairs: [] });
+    setPicker(null);
+    setMessage(null);
+  };
+
+  const startEdit = async (id: string) => {
+    setMessage(null);
+    setPicker(null);
+    try {
+      const data = await fetchAPI(`/projects/${id}`, { redirectOn401: false, cache: 'no-store' });
+      const project = parseProject(data);
+      if (!project) throw new Error('Project not found');
+      setEditingId(project.id);
+      setForm(toForm(project));
+    } catch (err) {
+      logger.error('Failed to load project', err, { component: 'ProjectsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load project') });
+    }
+  };
+
+  const updateForm = <K extends keyof ProjectForm>(key: K, value: ProjectForm[K]) => {
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const updatePair = (key: string, changes: Partial<PairDraft>) => {
+    setForm((prev) => (prev ? {
+      ...prev,
+      pairs: prev.pairs.map((pair) => (pair.key === key ? { ...pair, ...changes } : pair)),
+    } : prev));
+  };
+
+  const addPair = () => {
+    setForm((prev) => (prev ? {
+      ...prev,
+      pairs: [...prev.pairs, { key: newPairKey(), caption: '', before: null, after: null }],
+    } : prev));
+  };
+
+  const removePair = (key: string) => {
+    setForm((prev) => (prev ? { ...prev, pairs: prev.pairs.filter((pair) => pair.key !== key) } : prev));
+    if (picker?.key === key) setPicker(null);
+  };
+
+  const openPicker = (target: PickerTarget) => {
+    setPicker(target);
+    loadMedia();
+  };
+
+  const chooseImage = (image: ProjectImage) => {
+    if (!picker) return;
+    updatePair(picker.key, { [picker.side]: image });
+    setPicker(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (form.pairs.some((pair) => !pair.before || !pair.after)) {
+      setMessage({ type: 'error', text: 'Every pair needs both a before and an after image.' });
+      return;
+    }
+    setSaving(true);
+    setMessage(null);
+    try {
+      const payload = {
+        title: form.title,
+        slug: form.slug,
+        status: form.status,
+        featured: form.featured,
+        summary: form.summary,
+        description: form.description,
+        location: form.location,
+        serviceType: form.serviceType,
+        propertyType: form.propertyType,
+        coloursUsed: form.coloursUsed,
+        paintBrands: form.paintBrands,
+        durationDays: form.durationDays || null,
+        completedAt: form.completedAt,
+        customerName: form.customerName,
+        customerQuote: form.customerQuote,
+        seoTitle: form.seoTitle,
+        seoDescription: form.seoDescription,
+        imagePairs: form.pairs.map((pair) => ({
+          beforeId: pair.before?.id,
+          afterId: pair.after?.id,
+          caption: pair.caption,
+        })),
+      };
+      const saved = await fetchAPI(editingId ? `/projects/${editingId}` : '/projects', {
+        method: editingId ? 'PUT' : 'POST',
+        body: JSON.stringify(payload),
+        redirectOn401: false,
+      });
+      const project = parseProject(saved);
+      if (project) {
+        setEditingId(project.id);
+        setForm(toForm(project));
+      }
+      setMessage({ type: 'success', text: 'Project saved.' });
+      await loadProjects();
+    } catch (err) {
+      logger.error('Failed to save project', err, { component: 'ProjectsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to save project') });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!confirm(`Delete "${project.title}"? This cannot be undone.`)) return;
+    try {
+      await fetchAPI(`/projects/${project.id}`, { method: 'DELETE', redirectOn401: false });
+      if (editingId === project.id) {
+        setEditingId(null);
+        setForm(null);
+      }
+      await loadProjects();
+    } catch (err) {
+      logger.error('Failed to delete project', err, { component: 'ProjectsPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to delete project') });
+    }
+  };
+
+  const renderSlot = (pair: PairDraft, side: 'before' | 'after') => {
+    const image = pair[side];
+    const active = picker?.key === pair.key && picker.side === side;
+    return (
+      <button
+        type="button"
+        onClick={() => openPicker({ key: pair.key, side })}
+        className={`relative flex h-32 w-full items-center justify-center overflow-hidden rounded-md border-2 border-dashed text-sm text-slate-500 ${
+          active ? 'border-blue-500' : 'border-slate-300'
+        }`}
+      >
+        {image ? (
+          <img src={image.url} alt={image.altText || side} className="h-full w-full object-cover" />
+        ) : (
+          <span className="flex items-center gap-1"><ImagePlus className="w-4 h-4" /> Choose image</span>
+        )}
+        <span className="absolute left-1 top-1 rounded bg-black/60 px-1.5 text-xs uppercase text-white">{side}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Projects</h1>
+          <p className="text-slate-600">Portfolio of finished jobs with before and after photos from the media library.</p>
+        </div>
+        <Button onClick={startCreate}>
+          <Plus className="w-4 h-4 mr-2" /> New Project
+        </Button>
+      </div>
+
+      {message && (
+        <div className={`rounded-md p-4 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[2fr_3fr]">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>All Projects</CardTitle>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as ProjectStatus | '')}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              >
+                <option value="">All statuses</option>
+                {PROJECT_STATUSES.map((status) => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <LoadingSpinner message="Loading projects..." />
+            ) : projects.length === 0 ? (
+              <p className="text-sm text-slate-500">No projects yet.</p>
+            ) : (
+              <div className="divide-y divide-slate-200">
+                {projects.map((project) => (
+                  <div
+                    key={project.id}
+                    className={`flex items-center gap-3 py-3 ${editingId === project.id ? 'bg-blue-50' : ''}`}
+                  >
+                    {project.imagePairs[0] ? (
+                      <img src={project.imagePairs[0].after.url} alt="" className="h-12 w-16 rounded object-cover" />
+                    ) : (
+                      <div className="h-12 w-16 rounded bg-slate-100" />
+                    )}
+                    <button type="button" className="flex-1 text-left" onClick={() => startEdit(project.id)}>
+                      <div className="flex items-center gap-2 font-medium text-slate-900">
+                        {project.title}
+                        {project.featured && <Star className="w-3 h-3 text-amber-500" />}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {[project.serviceType, project.location].filter(Boolean).join(' · ') || project.slug}
+                      </div>
+                    </button>
+                    <Badge variant={STATUS_VARIANTS[project.status]} size="sm">{project.status}</Badge>
+                    {canDelete && (
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(project)} aria-label="Delete project">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {form ? (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <CardTitle>{editingId ? 'Edit Project' : 'New Project'}</CardTitle>
+                  <CardDescription>Colours and paint brands are comma separated.</CardDescription>
+                </div>
+                {editingId && form.status === 'PUBLISHED' && (
+                  <Link href={`/projects/${form.slug}`} target="_blank" className="text-sm text-blue-600 hover:underline">
+                    <ExternalLink className="inline w-4 h-4 mr-1" /> View
+                  </Link>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1 md:col-span-2">
+                  <label className="text-sm font-medium">Title</label>
+                  <Input value={form.title} onChange={(e) => updateForm('title', e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Slug</label>
+                  <Input value={form.slug} placeholder="Generated from the title" onChange={(e) => updateForm('slug', e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Status</label>
+                  <select
+                    value={form.status}
+                    onChange={(e) => updateForm('status', e.target.value as ProjectStatus)}
+                    className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  >
+                    {PROJECT_STATUSES.map((status) => (
+                      <option key={status} value={status}>{status}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Service type</label>
+                  <Input value={form.serviceType} placeholder="Interior painting" onChange={(e) => updateForm('serviceType', e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Property type</label>
+                  <Input value={form.propertyType} placeholder="Villa" onChange={(e) => updateForm('propertyType', e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Location</label>
+                  <Input value={form.location} placeholder="Dubai Marina" onChange={(e) => updateForm('location', e.target.value)} />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Duration (days)</label>
+                    <Input type="number" min={1} value={form.durationDays} onChange={(e) => updateForm('durationDays', e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Completed</label>
+                    <Input type="date" value={form.completedAt} onChange={(e) => updateForm('completedAt', e.target.value)} />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Colours used</label>
+                  <Input value={form.coloursUsed} placeholder="Swiss Coffee, Hale Navy" onChange={(e) => updateForm('coloursUsed', e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Paint brands</label>
+                  <Input value={form.paintBrands} placeholder="Jotun, Dulux" onChange={(e) => updateForm('paintBrands', e.target.value)} />
+                </div>
+                <label className="flex items-center gap-2 text-sm md:col-span-2">
+                  <input type="checkbox" checked={form.featured} onChange={(e) => updateForm('featured', e.target.checked)} />
+                  Feature this project at the top of listings
+                </label>
+                <div className="space-y-1 md:col-span-2">
+                  <label className="text-sm font-medium">Summary</label>
+                  <textarea
+                    rows={2}
+                    value={form.summary}
+                    onChange={(e) => updateForm('summary', e.target.value)}
+                    className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <label className="text-sm font-medium">Description</label>
+                <RichTextEditor
+                  key={editingId || 'new'}
+                  content={form.description}
+                  onChange={(html) => updateForm('description', html)}
+                  minHeight="200px"
+                />
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold">Before / after pairs</h3>
+                  <Button size="sm" variant="outline" onClick={addPair}>
+                    <Plus className="w-4 h-4 mr-1" /> Add Pair
+                  </Button>
+                </div>
+                {form.pairs.length === 0 && (
+                  <p className="text-sm text-slate-500">Add at least one pair. The first pair is used as the cover image.</p>
+                )}
+                {form.pairs.map((pair, index) => (
+                  <div key={pair.key} className="space-y-2 rounded-md border border-slate-200 p-3">
+                    <div className="flex items-center justify-between text-xs font-semibold uppercase text-slate-500">
+                      Pair {index + 1}{index === 0 ? ' (cover)' : ''}
+                      <Button size="sm" variant="ghost" onClick={() => removePair(pair.key)} aria-label="Remove pair">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      {renderSlot(pair, 'before')}
+                      {renderSlot(pair, 'after')}
+                    </div>
+                    <Input
+                      value={pair.caption}
+                      placeholder="Caption (optional)"
+                      onChange={(e) => updatePair(pair.key, { caption: e.target.value })}
+                    />
+                  </div>
+                ))}
+
+                {picker && (
+                  <div className="rounded-md border border-blue-200 bg-blue-50/50 p-3">
+                    <div className="mb-2 flex items-center justify-between text-sm">
+                      <span>Select the <strong>{picker.side}</strong> image</span>
+                      <Button size="sm" variant="ghost" onClick={() => setPicker(null)}>Cancel</Button>
+                    </div>
+                    {mediaImages.length === 0 ? (
+                      <p className="text-sm text-slate-500">
+                        No images found. Upload photos in the <Link href="/dashboard/media" className="text-blue-600 hover:underline">media library</Link> first.
+                      </p>
+                    ) : (
+                      <div className="grid max-h-72 grid-cols-4 gap-2 overflow-y-auto md:grid-cols-6">
+                        {mediaImages.map((image) => (
+                          <button key={image.id} type="button" onClick={() => chooseImage(image)} className="overflow-hidden rounded border border-slate-200 hover:ring-2 hover:ring-blue-500">
+                            <img src={image.url} alt={image.altText} className="h-20 w-full object-cover" />
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">Customer name</label>
+                  <Input value={form.customerName} onChange={(e) => updateForm('customerName', e.target.value)} />
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <label className="text-sm font-medium">Customer quote</label>
+                  <textarea
+                    rows={3}
+                    value={form.customerQuote}
+                    onChange={(e) => updateForm('customerQuote', e.target.value)}
+                    className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">SEO title</label>
+                  <Input value={form.seoTitle} maxLength={70} onChange={(e) => updateForm('seoTitle', e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-sm font-medium">SEO description</label>
+                  <Input value={form.seoDescription} maxLength={170} onChange={(e) => updateForm('seoDescription', e.target.value)} />
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => { setForm(null); setEditingId(null); setPicker(null); }}>
+                  Close
+                </Button>
+                <Button onClick={handleSave} disabled={saving || !form.title.trim()}>
+                  <Save className="w-4 h-4 mr-2" /> {saving ? 'Saving...' : 'Save Project'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center text-sm text-slate-500">
+              Select a project to edit, or create a new one.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
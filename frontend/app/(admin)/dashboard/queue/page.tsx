@@ -0,0 +1,601 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { Ban, RefreshCw, RotateCcw, Search, Trash2, X } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  JOB_STATUSES,
+  PURGEABLE_JOB_STATUSES,
+  describeJobPayload,
+  parseQueueJob,
+  parseQueueJobList,
+  parseQueueStats,
+  type JobStatus,
+  type QueueJob,
+  type QueueStats,
+} from '@/lib/queue';
+
+const STATUS_VARIANTS: Record<JobStatus, 'default' | 'info' | 'success' | 'error' | 'warning'> = {
+  PENDING: 'info',
+  PROCESSING: 'warning',
+  COMPLETED: 'success',
+  DEAD_LETTER: 'error',
+  CANCELLED: 'default',
+};
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  PENDING: 'Pending',
+  PROCESSING: 'Processing',
+  COMPLETED: 'Completed',
+  DEAD_LETTER: 'Dead letter',
+  CANCELLED: 'Cancelled',
+};
+
+const RANGE_OPTIONS = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 14, label: 'Last 14 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+type Filters = {
+  type: string;
+  status: JobStatus | '';
+  from: string;
+  to: string;
+  search: string;
+};
+
+const EMPTY_FILTERS: Filters = { type: '', status: '', from: '', to: '', search: '' };
+
+const formatDate = (value: string | null) => {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${(ms / 60_000).toFixed(1)} min`;
+};
+
+const formatBucket = (bucket: string, unit: QueueStats['bucket']) => {
+  const date = new Date(bucket);
+  if (Number.isNaN(date.getTime())) return bucket;
+  return unit === 'hour'
+    ? date.toLocaleString(undefined, { day: 'numeric', hour: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const formatJson = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+export default function QueuePage() {
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [searchInput, setSearchInput] = useState('');
+  const [days, setDays] = useState(14);
+  const [stats, setStats] = useState<QueueStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<QueueJob | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeStatuses, setPurgeStatuses] = useState<JobStatus[]>(['COMPLETED']);
+  const [purgeDays, setPurgeDays] = useState('7');
+  const [purging, setPurging] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: String(page), limit: '25' });
+      if (filters.type) params.set('type', filters.type);
+      if (filters.status) params.set('status', filters.status);
+      // Date inputs are local calendar days; widen "to" to the end of that day
+      if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+      if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+      if (filters.search) params.set('search', filters.search);
+      const data = await fetchAPI(`/queue/jobs?${params.toString()}`, { redirectOn401: false, cache: 'no-store' });
+      const list = parseQueueJobList(data);
+      setJobs(list.jobs);
+      setTotalPages(Math.max(1, list.totalPages));
+      setTotal(list.total);
+    } catch (err) {
+      logger.error('Failed to load queue jobs', err, { component: 'QueuePage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load queue jobs') });
+    } finally {
+      setLoading(false);
+    }
+  }, [page, filters]);
+
+  const loadStats = useCallback(async () => {
+    try {
+      const data = await fetchAPI(`/queue/stats?days=${days}`, { redirectOn401: false, cache: 'no-store' });
+      setStats(parseQueueStats(data));
+    } catch (err) {
+      logger.error('Failed to load queue stats', err, { component: 'QueuePage' });
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const updateFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const refresh = () => {
+    loadJobs();
+    loadStats();
+  };
+
+  const openJob = async (id: string) => {
+    try {
+      const data = await fetchAPI(`/queue/jobs/${id}`, { redirectOn401: false, cache: 'no-store' });
+      setSelected(parseQueueJob(data));
+    } catch (err) {
+      logger.error('Failed to load queue job', err, { component: 'QueuePage', jobId: id });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load job') });
+    }
+  };
+
+  const runAction = async (job: QueueJob, action: 'requeue' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel this ${job.type} job?`)) return;
+    setBusyId(job.id);
+    try {
+      const data = await fetchAPI(`/queue/jobs/${job.id}/${action}`, { method: 'POST', redirectOn401: false });
+      const updated = parseQueueJob(data);
+      if (updated && selected?.id === job.id) setSelected(updated);
+      setMessage({ type: 'success', text: action === 'requeue' ? 'Job queued for another run' : 'Job cancelled' });
+      refresh();
+    } catch (err) {
+      logger.error(`Failed to ${action} queue job`, err, { component: 'QueuePage', jobId: job.id });
+      setMessage({ type: 'error', text: getErrorMessage(err, `Failed to ${action} job`) });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const requeueDeadLetters = async () => {
+    if (!confirm(filters.type ? `Requeue every dead-lettered ${filters.type} job?` : 'Requeue every dead-lettered job?')) return;
+    try {
+      const data = await fetchAPI('/queue/dead-letter/requeue', {
+        method: 'POST',
+        body: JSON.stringify(filters.type ? { type: filters.type } : {}),
+        redirectOn401: false,
+      });
+      const requeued = data && typeof data === 'object' && 'requeued' in data ? Number(data.requeued) : 0;
+      setMessage({ type: 'success', text: `${requeued} job${requeued === 1 ? '' : 's'} requeued` });
+      refresh();
+    } catch (err) {
+      logger.error('Failed to requeue dead letters', err, { component: 'QueuePage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to requeue dead-lettered jobs') });
+    }
+  };
+
+  const purge = async () => {
+    if (purgeStatuses.length === 0) return;
+    const olderThanDays = Math.max(0, Number(purgeDays) || 0);
+    const age = olderThanDays > 0 ? ` older than ${olderThanDays} day${olderThanDays === 1 ? '' : 's'}` : '';
+    const scope = purgeStatuses.map((status) => STATUS_LABELS[status].toLowerCase()).join(', ');
+    if (!confirm(`Permanently delete ${scope} jobs${age}?`)) return;
+    setPurging(true);
+    try {
+      const data = await fetchAPI('/queue/jobs/purge', {
+        method: 'POST',
+        body: JSON.stringify({ statuses: purgeStatuses, olderThanDays, ...(filters.type ? { type: filters.type } : {}) }),
+        redirectOn401: false,
+      });
+      const deleted = data && typeof data === 'object' && 'deleted' in data ? Number(data.deleted) : 0;
+      setMessage({ type: 'success', text: `${deleted} job${deleted === 1 ? '' : 's'} deleted` });
+      if (selected && purgeStatuses.includes(selected.status)) setSelected(null);
+      refresh();
+    } catch (err) {
+      logger.error('Failed to purge queue jobs', err, { component: 'QueuePage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to purge jobs') });
+    } finally {
+      setPurging(false);
+    }
+  };
+
+  const togglePurgeStatus = (status: JobStatus) => {
+    setPurgeStatuses((prev) => (
+      prev.includes(status) ? prev.filter((item) => item !== status) : [...prev, status]
+    ));
+  };
+
+  const renderActions = (job: QueueJob) => (
+    <>
+      {(job.status === 'DEAD_LETTER' || job.status === 'CANCELLED') && (
+        <Button size="sm" variant="outline" isLoading={busyId === job.id} onClick={() => runAction(job, 'requeue')}>
+          <RotateCcw className="w-4 h-4 mr-1" /> Retry
+        </Button>
+      )}
+      {job.status === 'PENDING' && (
+        <Button size="sm" variant="ghost" isLoading={busyId === job.id} onClick={() => runAction(job, 'cancel')}>
+          <Ban className="w-4 h-4 mr-1" /> Cancel
+        </Button>
+      )}
+    </>
+  );
+
+  const maxFinished = stats ? Math.max(1, ...stats.series.map((point) => point.completed + point.deadLettered)) : 1;
+  const types = stats?.types.map((item) => item.type) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Job Queue</h1>
+          <p className="text-slate-600">Background jobs processed by the queue worker, with retries and dead letters.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={refresh}>
+            <RefreshCw className="w-4 h-4 mr-2" /> Refresh
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`rounded-md p-4 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+            {JOB_STATUSES.map((status) => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => updateFilter('status', filters.status === status ? '' : status)}
+                className={`rounded-lg border p-4 text-left transition-colors ${
+                  filters.status === status ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <p className="text-sm text-slate-500">{STATUS_LABELS[status]}</p>
+                <p className="text-2xl font-bold text-slate-900">{stats.statuses[status]}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+            <Card>
+              <CardHeader>
+                <CardTitle>Throughput</CardTitle>
+                <CardDescription>
+                  {stats.totals.completed} completed, {stats.totals.deadLettered} dead-lettered,
+                  {' '}{stats.totals.retried} needed a retry · failure rate {stats.totals.failureRate}%
+                  {' '}· avg time to complete {formatDuration(stats.totals.avgCompletionMs)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex h-40 items-end gap-px">
+                  {stats.series.map((point) => {
+                    const finished = point.completed + point.deadLettered;
+                    return (
+                      <div
+                        key={point.bucket}
+                        className="flex h-full flex-1 flex-col justify-end"
+                        title={`${formatBucket(point.bucket, stats.bucket)}: ${point.completed} completed, ${point.deadLettered} dead-lettered`}
+                      >
+                        <div className="bg-red-400" style={{ height: `${(point.deadLettered / maxFinished) * 100}%` }} />
+                        <div className="bg-green-500" style={{ height: `${(point.completed / maxFinished) * 100}%` }} />
+                        {finished === 0 && <div className="h-px bg-slate-200" />}
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="mt-4 mb-1 text-xs font-medium text-slate-500">Failure rate</p>
+                <div className="flex h-16 items-end gap-px">
+                  {stats.series.map((point) => (
+                    <div
+                      key={point.bucket}
+                      className="flex h-full flex-1 flex-col justify-end"
+                      title={`${formatBucket(point.bucket, stats.bucket)}: ${point.failureRate}%`}
+                    >
+                      <div className="bg-amber-400" style={{ height: `${point.failureRate}%` }} />
+                    </div>
+                  ))}
+                </div>
+                {stats.series.length > 0 && (
+                  <div className="mt-2 flex justify-between text-xs text-slate-500">
+                    <span>{formatBucket(stats.series[0].bucket, stats.bucket)}</span>
+                    <span>{formatBucket(stats.series[stats.series.length - 1].bucket, stats.bucket)}</span>
+                  </div>
+                )}
+                <div className="mt-3 flex gap-4 text-xs text-slate-600">
+                  <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-green-500" /> Completed</span>
+                  <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-red-400" /> Dead-lettered</span>
+                  <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm bg-amber-400" /> Failure rate</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Job Types</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500">
+                      <th className="pb-2 font-medium">Type</th>
+                      <th className="pb-2 font-medium">Pending</th>
+                      <th className="pb-2 font-medium">Done</th>
+                      <th className="pb-2 font-medium">Dead</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {stats.types.map((item) => (
+                      <tr key={item.type}>
+                        <td className="py-2">
+                          <button type="button" className="text-left font-medium text-slate-900 hover:underline" onClick={() => updateFilter('type', item.type)}>
+                            {item.type}
+                          </button>
+                          <div className="text-xs text-slate-500">
+                            {item.registered
+                              ? `${item.maxAttempts} attempts${item.concurrency ? ` · ${item.concurrency} at a time` : ''}`
+                              : 'No handler registered'}
+                          </div>
+                        </td>
+                        <td className="py-2">{item.counts.PENDING + item.counts.PROCESSING}</td>
+                        <td className="py-2">{item.counts.COMPLETED}</td>
+                        <td className={`py-2 ${item.counts.DEAD_LETTER > 0 ? 'font-semibold text-red-600' : ''}`}>{item.counts.DEAD_LETTER}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle>Jobs ({total})</CardTitle>
+              <Button size="sm" variant="outline" onClick={requeueDeadLetters}>
+                <RotateCcw className="w-4 h-4 mr-1" /> Retry dead letters
+              </Button>
+            </div>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <select
+                value={filters.type}
+                onChange={(e) => updateFilter('type', e.target.value)}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              >
+                <option value="">All types</option>
+                {types.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+              <select
+                value={filters.status}
+                onChange={(e) => updateFilter('status', e.target.value as JobStatus | '')}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+              >
+                <option value="">All statuses</option>
+                {JOB_STATUSES.map((status) => (
+                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+                aria-label="Created from"
+              />
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+                aria-label="Created to"
+              />
+              <form
+                className="flex items-center gap-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  updateFilter('search', searchInput.trim());
+                }}
+              >
+                <Input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Job id or error"
+                  className="h-8 w-40"
+                />
+                <Button type="submit" size="sm" variant="ghost" aria-label="Search jobs">
+                  <Search className="w-4 h-4" />
+                </Button>
+              </form>
+              {(filters.type || filters.status || filters.from || filters.to || filters.search) && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setFilters(EMPTY_FILTERS);
+                    setSearchInput('');
+                    setPage(1);
+                  }}
+                >
+                  <X className="w-4 h-4 mr-1" /> Clear
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <LoadingSpinner message="Loading jobs..." />
+            ) : jobs.length === 0 ? (
+              <p className="text-sm text-slate-500">No jobs match these filters.</p>
+            ) : (
+              <div className="divide-y divide-slate-200">
+                {jobs.map((job) => (
+                  <div
+                    key={job.id}
+                    className={`flex items-center gap-3 py-3 ${selected?.id === job.id ? 'bg-blue-50' : ''}`}
+                  >
+                    <button type="button" className="min-w-0 flex-1 text-left" onClick={() => openJob(job.id)}>
+                      <div className="flex items-center gap-2 font-medium text-slate-900">
+                        {job.type}
+                        {job.priority !== 0 && <span className="text-xs text-slate-500">p{job.priority}</span>}
+                      </div>
+                      <div className="truncate text-xs text-slate-500">
+                        {describeJobPayload(job.payload) || job.id} · {formatDate(job.createdAt)} · attempt {job.attempts}/{job.maxAttempts}
+                      </div>
+                      {job.error && <div className="truncate text-xs text-red-600">{job.error}</div>}
+                    </button>
+                    <Badge variant={STATUS_VARIANTS[job.status]} size="sm">{STATUS_LABELS[job.status]}</Badge>
+                    {renderActions(job)}
+                  </div>
+                ))}
+              </div>
+            )}
+            {totalPages > 1 && (
+              <div className="mt-4 flex items-center justify-between text-sm text-slate-600">
+                <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage((prev) => prev - 1)}>
+                  Previous
+                </Button>
+                <span>Page {page} of {totalPages}</span>
+                <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage((prev) => prev + 1)}>
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          {selected ? (
+            <Card>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <CardTitle>{selected.type}</CardTitle>
+                    <CardDescription className="truncate">{selected.id}</CardDescription>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => setSelected(null)} aria-label="Close job details">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[selected.status]} size="sm">{STATUS_LABELS[selected.status]}</Badge>
+                  {renderActions(selected)}
+                </div>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+                  <dt className="text-slate-500">Attempts</dt>
+                  <dd>{selected.attempts} of {selected.maxAttempts}</dd>
+                  <dt className="text-slate-500">Priority</dt>
+                  <dd>{selected.priority}</dd>
+                  <dt className="text-slate-500">Created</dt>
+                  <dd>{formatDate(selected.createdAt)}</dd>
+                  <dt className="text-slate-500">Next run</dt>
+                  <dd>{selected.status === 'PENDING' ? formatDate(selected.runAt) : '—'}</dd>
+                  <dt className="text-slate-500">Locked</dt>
+                  <dd>{selected.lockedAt ? `${formatDate(selected.lockedAt)} by ${selected.lockedBy || 'unknown'}` : '—'}</dd>
+                  <dt className="text-slate-500">Finished</dt>
+                  <dd>{formatDate(selected.processedAt)}</dd>
+                </dl>
+                {selected.error && (
+                  <div>
+                    <p className="mb-1 font-medium text-slate-700">Error</p>
+                    <pre className="whitespace-pre-wrap break-words rounded bg-red-50 p-3 text-xs text-red-700">{selected.error}</pre>
+                  </div>
+                )}
+                <div>
+                  <p className="mb-1 font-medium text-slate-700">Payload</p>
+                  <pre className="max-h-64 overflow-auto rounded bg-slate-50 p-3 text-xs text-slate-700">{formatJson(selected.payload)}</pre>
+                </div>
+                <div>
+                  <p className="mb-1 font-medium text-slate-700">Result</p>
+                  <pre className="max-h-64 overflow-auto rounded bg-slate-50 p-3 text-xs text-slate-700">{formatJson(selected.result)}</pre>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-6 text-sm text-slate-500">
+                Select a job to see its payload, result and last error.
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Purge Jobs</CardTitle>
+              <CardDescription>
+                Delete finished jobs{filters.type ? ` of type ${filters.type}` : ''}. Pending and running jobs are never purged.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div className="flex flex-wrap gap-3">
+                {PURGEABLE_JOB_STATUSES.map((status) => (
+                  <label key={status} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={purgeStatuses.includes(status)}
+                      onChange={() => togglePurgeStatus(status)}
+                    />
+                    {STATUS_LABELS[status]}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2">
+                Older than
+                <Input
+                  type="number"
+                  min={0}
+                  value={purgeDays}
+                  onChange={(e) => setPurgeDays(e.target.value)}
+                  className="h-8 w-20"
+                />
+                days
+              </label>
+              <Button variant="danger" size="sm" isLoading={purging} disabled={purgeStatuses.length === 0} onClick={purge}>
+                <Trash2 className="w-4 h-4 mr-1" /> Purge
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,528 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import Link from 'next/link';
+import { Search, RefreshCw, Calendar, Mail, Phone, Home, Image as ImageIcon, Calculator, CalendarDays, Upload } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { EnquiryReply, EnquiryThread, parseReplies } from '@/components/portal/EnquiryThread';
+import {
+  PROJECT_PHOTO_STAGES,
+  ProjectPhoto,
+  ProjectPhotoGallery,
+  ProjectPhotoStage,
+  parseProjectPhotos,
+} from '@/components/portal/ProjectPhotoGallery';
+
+type QuoteStatus = 'NEW' | 'SITE_VISIT_BOOKED' | 'ESTIMATED' | 'WON' | 'LOST';
+
+interface QuotePhoto {
+  id: string;
+  url: string;
+  originalName: string;
+}
+
+interface QuoteRequest {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  serviceType: string;
+  propertyType: string | null;
+  roomCount: number | null;
+  areaSqm: number | null;
+  surfaces: string[];
+  preferredDates: string[];
+  message: string | null;
+  status: QuoteStatus;
+  staffNotes: string | null;
+  createdAt: string;
+  photos: QuotePhoto[];
+}
+
+const STATUSES: QuoteStatus[] = ['NEW', 'SITE_VISIT_BOOKED', 'ESTIMATED', 'WON', 'LOST'];
+
+const STATUS_LABELS: Record<QuoteStatus, string> = {
+  NEW: 'New',
+  SITE_VISIT_BOOKED: 'Site Visit Booked',
+  ESTIMATED: 'Estimated',
+  WON: 'Won',
+  LOST: 'Lost',
+};
+
+const STATUS_BADGES: Record<QuoteStatus, 'info' | 'purple' | 'warning' | 'success' | 'error'> = {
+  NEW: 'info',
+  SITE_VISIT_BOOKED: 'purple',
+  ESTIMATED: 'warning',
+  WON: 'success',
+  LOST: 'error',
+};
+
+// Mirrors the transitions enforced by the quote service
+const NEXT_STATUSES: Record<QuoteStatus, QuoteStatus[]> = {
+  NEW: ['SITE_VISIT_BOOKED', 'ESTIMATED', 'LOST'],
+  SITE_VISIT_BOOKED: ['NEW', 'ESTIMATED', 'LOST'],
+  ESTIMATED: ['SITE_VISIT_BOOKED', 'WON', 'LOST'],
+  WON: ['ESTIMATED'],
+  LOST: ['NEW', 'ESTIMATED'],
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const isQuoteStatus = (value: unknown): value is QuoteStatus => (
+  typeof value === 'string' && STATUSES.includes(value as QuoteStatus)
+);
+
+const parseStringArray = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+const parseQuote = (value: unknown): QuoteRequest | null => {
+  if (!isRecord(value)) return null;
+  const id = typeof value.id === 'string' ? value.id : '';
+  if (!id) return null;
+  const photos = Array.isArray(value.photos)
+    ? value.photos
+        .filter(isRecord)
+        .map((photo) => ({
+          id: typeof photo.id === 'string' ? photo.id : '',
+          url: typeof photo.url === 'string' ? photo.url : '',
+          originalName: typeof photo.originalName === 'string' ? photo.originalName : 'Photo',
+        }))
+        .filter((photo) => photo.id && photo.url)
+    : [];
+  return {
+    id,
+    name: typeof value.name === 'string' ? value.name : 'Unknown',
+    email: typeof value.email === 'string' ? value.email : '',
+    phone: typeof value.phone === 'string' ? value.phone : null,
+    serviceType: typeof value.serviceType === 'string' ? value.serviceType : 'Other',
+    propertyType: typeof value.propertyType === 'string' ? value.propertyType : null,
+    roomCount: typeof value.roomCount === 'number' ? value.roomCount : null,
+    areaSqm: typeof value.areaSqm === 'number' ? value.areaSqm : null,
+    surfaces: parseStringArray(value.surfaces),
+    preferredDates: parseStringArray(value.preferredDates),
+    message: typeof value.message === 'string' ? value.message : null,
+    status: isQuoteStatus(value.status) ? value.status : 'NEW',
+    staffNotes: typeof value.staffNotes === 'string' ? value.staffNotes : null,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : new Date().toISOString(),
+    photos,
+  };
+};
+
+const parseSummary = (value: unknown): Record<QuoteStatus, number> => {
+  const summary = { NEW: 0, SITE_VISIT_BOOKED: 0, ESTIMATED: 0, WON: 0, LOST: 0 };
+  if (!isRecord(value)) return summary;
+  STATUSES.forEach((status) => {
+    const count = value[status];
+    if (typeof count === 'number') summary[status] = count;
+  });
+  return summary;
+};
+
+export default function QuotesPage() {
+  const [quotes, setQuotes] = useState<QuoteRequest[]>([]);
+  const [summary, setSummary] = useState<Record<QuoteStatus, number>>(parseSummary(null));
+  const [statusFilter, setStatusFilter] = useState<QuoteStatus | ''>('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [replies, setReplies] = useState<EnquiryReply[]>([]);
+  const [projectPhotos, setProjectPhotos] = useState<ProjectPhoto[]>([]);
+  const [photoStage, setPhotoStage] = useState<ProjectPhotoStage>('BEFORE');
+  const [uploading, setUploading] = useState(false);
+
+  const loadQuotes = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ limit: '100' });
+      if (statusFilter) params.set('status', statusFilter);
+      if (search.trim()) params.set('search', search.trim());
+      const [list, counts] = await Promise.all([
+        fetchAPI(`/quotes?${params.toString()}`, { redirectOn401: false, cache: 'no-store' }),
+        fetchAPI('/quotes/summary', { redirectOn401: false, cache: 'no-store' }),
+      ]);
+      const rows = isRecord(list) && Array.isArray(list.data) ? list.data : [];
+      setQuotes(rows.map(parseQuote).filter((quote): quote is QuoteRequest => !!quote));
+      setSummary(parseSummary(counts));
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load quote requests', err, { component: 'QuotesPage' });
+      setError(getErrorMessage(err, 'Failed to load quote requests'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Search is applied on submit, not on every keystroke
+  useEffect(() => {
+    loadQuotes();
+  }, [statusFilter]);
+
+  const selected = quotes.find((quote) => quote.id === selectedId) || null;
+
+  // The list omits the conversation and project photos, so load them per quote
+  useEffect(() => {
+    setReplies([]);
+    setProjectPhotos([]);
+    if (!selectedId) return;
+    fetchAPI(`/quotes/${selectedId}`, { redirectOn401: false, cache: 'no-store' })
+      .then((data) => {
+        if (!isRecord(data)) return;
+        setReplies(parseReplies(data.replies));
+        setProjectPhotos(parseProjectPhotos(data.projectPhotos));
+      })
+      .catch((err) => logger.error('Failed to load quote details', err, { component: 'QuotesPage' }));
+  }, [selectedId]);
+
+  const selectQuote = (quote: QuoteRequest) => {
+    setSelectedId(quote.id);
+    setNotesDraft(quote.staffNotes || '');
+  };
+
+  const sendReply = async (message: string) => {
+    if (!selectedId) return;
+    const reply = await fetchAPI(`/quotes/${selectedId}/replies`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+      redirectOn401: false,
+    });
+    setReplies((prev) => [...prev, ...parseReplies([reply])]);
+  };
+
+  const uploadProjectPhotos = async (files: FileList | null) => {
+    if (!selectedId || !files || files.length === 0) return;
+    try {
+      setUploading(true);
+      const payload = new FormData();
+      payload.append('stage', photoStage);
+      Array.from(files).forEach((file) => payload.append('photos', file));
+      const created = await fetchAPI(`/quotes/${selectedId}/project-photos`, {
+        method: 'POST',
+        body: payload,
+        redirectOn401: false,
+      });
+      setProjectPhotos((prev) => [...prev, ...parseProjectPhotos(created)]);
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to upload project photos', err, { component: 'QuotesPage' });
+      setError(getErrorMessage(err, 'Failed to upload project photos'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removeProjectPhoto = async (photo: ProjectPhoto) => {
+    if (!selectedId || !confirm('Remove this photo from the project?')) return;
+    try {
+      await fetchAPI(`/quotes/${selectedId}/project-photos/${photo.id}`, { method: 'DELETE', redirectOn401: false });
+      setProjectPhotos((prev) => prev.filter((item) => item.id !== photo.id));
+    } catch (err) {
+      logger.error('Failed to remove project photo', err, { component: 'QuotesPage' });
+      setError(getErrorMessage(err, 'Failed to remove project photo'));
+    }
+  };
+
+  const updateQuote = async (id: string, payload: { status?: QuoteStatus; staffNotes?: string }) => {
+    try {
+      setSaving(true);
+      const updated = parseQuote(
+        await fetchAPI(`/quotes/${id}`, {
+          method: 'PATCH',
+          body: JSON.stringify(payload),
+          redirectOn401: false,
+        }),
+      );
+      if (updated) {
+        setQuotes((prev) => prev.map((quote) => (quote.id === id ? updated : quote)));
+      }
+      if (payload.status) {
+        const counts = await fetchAPI('/quotes/summary', { redirectOn401: false, cache: 'no-store' });
+        setSummary(parseSummary(counts));
+      }
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to update quote request', err, { component: 'QuotesPage' });
+      setError(getErrorMessage(err, 'Failed to update quote request'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Quote Requests</h1>
+          <p className="text-slate-600">Work enquiries from first contact through site visit, estimate and close.</p>
+        </div>
+        <Button variant="outline" onClick={loadQuotes}>
+          <RefreshCw className="w-4 h-4 mr-2" /> Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+        {STATUSES.map((status) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => setStatusFilter(statusFilter === status ? '' : status)}
+            className={`rounded-lg border p-4 text-left transition ${
+              statusFilter === status ? 'border-blue-500 bg-blue-50' : 'border-slate-200 bg-white hover:bg-slate-50'
+            }`}
+          >
+            <p className="text-xs uppercase tracking-wide text-slate-500">{STATUS_LABELS[status]}</p>
+            <p className="text-2xl font-bold text-slate-900">{summary[status]}</p>
+          </button>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <form
+            className="relative"
+            onSubmit={(e) => {
+              e.preventDefault();
+              loadQuotes();
+            }}
+          >
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name, email, phone or service"
+              className="pl-10"
+            />
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card>
+          <CardContent className="p-6 text-red-600">{error}</CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : quotes.length === 0 ? (
+        <Card>
+          <CardContent className="p-10 text-center text-slate-500">
+            No quote requests found.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[2fr_3fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle>Pipeline ({quotes.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="divide-y divide-slate-200">
+                {quotes.map((quote) => (
+                  <button
+                    key={quote.id}
+                    type="button"
+                    onClick={() => selectQuote(quote)}
+                    className={`flex w-full flex-col gap-1 px-6 py-4 text-left hover:bg-slate-50 ${
+                      selectedId === quote.id ? 'bg-slate-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-slate-900">{quote.name}</span>
+                      <Badge variant={STATUS_BADGES[quote.status]} size="sm">{STATUS_LABELS[quote.status]}</Badge>
+                    </div>
+                    <span className="text-sm text-slate-600">{quote.serviceType}</span>
+                    <span className="flex items-center gap-1 text-xs text-slate-500">
+                      <Calendar className="w-3 h-3" /> {new Date(quote.createdAt).toLocaleDateString()}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {selected ? (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle>{selected.name}</CardTitle>
+                  <Badge variant={STATUS_BADGES[selected.status]}>{STATUS_LABELS[selected.status]}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                <div className="grid gap-2 text-sm text-slate-700 md:grid-cols-2">
+                  <span className="flex items-center gap-2"><Mail className="w-4 h-4" /> {selected.email}</span>
+                  {selected.phone && (
+                    <span className="flex items-center gap-2"><Phone className="w-4 h-4" /> {selected.phone}</span>
+                  )}
+                  <span className="flex items-center gap-2">
+                    <Home className="w-4 h-4" /> {selected.propertyType || 'Property not specified'}
+                  </span>
+                  <span>
+                    {selected.roomCount ? `${selected.roomCount} rooms` : 'Rooms not specified'}
+                    {selected.areaSqm ? ` · ${selected.areaSqm} m²` : ''}
+                  </span>
+                </div>
+
+                <div>
+                  <p className="text-xs font-semibold uppercase text-slate-500">Service</p>
+                  <p className="text-slate-900">{selected.serviceType}</p>
+                </div>
+
+                {selected.surfaces.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {selected.surfaces.map((surface) => (
+                      <Badge key={surface} variant="outline" size="sm">{surface}</Badge>
+                    ))}
+                  </div>
+                )}
+
+                {selected.preferredDates.length > 0 && (
+                  <div>
+                    <p className="text-xs font-semibold uppercase text-slate-500">Preferred Dates</p>
+                    <p className="text-sm text-slate-700">
+                      {selected.preferredDates.map((date) => new Date(date).toLocaleDateString()).join(', ')}
+                    </p>
+                  </div>
+                )}
+
+                {selected.message && (
+                  <div>
+                    <p className="text-xs font-semibold uppercase text-slate-500">Project Details</p>
+                    <p className="whitespace-pre-wrap text-sm text-slate-700">{selected.message}</p>
+                  </div>
+                )}
+
+                {selected.photos.length > 0 && (
+                  <div>
+                    <p className="mb-2 flex items-center gap-1 text-xs font-semibold uppercase text-slate-500">
+                      <ImageIcon className="w-4 h-4" /> Photos
+                    </p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {selected.photos.map((photo) => (
+                        <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer">
+                          <img src={photo.url} alt={photo.originalName} className="h-24 w-full rounded object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <Link
+                  href={`/dashboard/estimates?quoteRequestId=${selected.id}`}
+                  className="inline-flex items-center gap-2 text-sm font-medium text-blue-600 hover:underline"
+                >
+                  <Calculator className="w-4 h-4" /> Prepare estimate
+                </Link>
+
+                <Link
+                  href={`/dashboard/bookings?quoteRequestId=${selected.id}&name=${encodeURIComponent(selected.name)}&email=${encodeURIComponent(selected.email)}`}
+                  className="ml-4 inline-flex items-center gap-2 text-sm font-medium text-blue-600 hover:underline"
+                >
+                  <CalendarDays className="w-4 h-4" /> Book site visit
+                </Link>
+
+                <div>
+                  <p className="mb-2 text-xs font-semibold uppercase text-slate-500">Move To</p>
+                  <div className="flex flex-wrap gap-2">
+                    {NEXT_STATUSES[selected.status].map((status) => (
+                      <Button
+                        key={status}
+                        size="sm"
+                        variant={status === 'WON' ? 'success' : status === 'LOST' ? 'danger' : 'outline'}
+                        disabled={saving}
+                        onClick={() => updateQuote(selected.id, { status })}
+                      >
+                        {STATUS_LABELS[status]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <p className="mb-2 text-xs font-semibold uppercase text-slate-500">Customer Conversation</p>
+                  <EnquiryThread
+                    replies={replies}
+                    viewer="staff"
+                    onSend={sendReply}
+                    placeholder="Reply to the customer. They get an email and see it in their account."
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase text-slate-500">Before / After Photos</p>
+                  <ProjectPhotoGallery photos={projectPhotos} onDelete={removeProjectPhoto} />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={photoStage}
+                      onChange={(e) => setPhotoStage(e.target.value === 'AFTER' ? 'AFTER' : 'BEFORE')}
+                      className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+                      aria-label="Photo stage"
+                    >
+                      {PROJECT_PHOTO_STAGES.map((stage) => (
+                        <option key={stage} value={stage}>{stage === 'BEFORE' ? 'Before' : 'After'}</option>
+                      ))}
+                    </select>
+                    <label className={`inline-flex cursor-pointer items-center gap-2 rounded-md border border-slate-300 px-3 py-1 text-sm ${uploading ? 'opacity-50' : 'hover:bg-slate-50'}`}>
+                      <Upload className="w-4 h-4" /> {uploading ? 'Uploading...' : 'Upload photos'}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="hidden"
+                        disabled={uploading}
+                        onChange={(e) => {
+                          uploadProjectPhotos(e.target.files);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="staffNotes" className="text-xs font-semibold uppercase text-slate-500">Staff Notes</label>
+                  <textarea
+                    id="staffNotes"
+                    rows={4}
+                    value={notesDraft}
+                    onChange={(e) => setNotesDraft(e.target.value)}
+                    className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+                  />
+                  <Button
+                    size="sm"
+                    disabled={saving || notesDraft === (selected.staffNotes || '')}
+                    onClick={() => updateQuote(selected.id, { staffNotes: notesDraft })}
+                  >
+                    Save Notes
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-10 text-center text-slate-500">
+                Select a quote request to see its details.
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { SafeHtml } from '@/components/SafeHtml';
+import { ArrowLeft, Check, RotateCcw, Trash2, X } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { diffHtmlBlocks, type DiffRow } from '@/lib/html-diff';
+import {
+  REFRESH_STATUS_LABELS,
+  parseRefreshDetail,
+  type RefreshDetail,
+  type RefreshSection,
+  type SectionDecision,
+} from '@/lib/content-refresh';
+
+const ROW_STYLES: Record<DiffRow['kind'], { before: string; after: string }> = {
+  same: { before: 'text-slate-500', after: 'text-slate-500' },
+  changed: { before: 'bg-red-50', after: 'bg-green-50' },
+  added: { before: '', after: 'bg-green-50' },
+  removed: { before: 'bg-red-50', after: '' },
+};
+
+const DECISION_VARIANTS: Record<SectionDecision, 'default' | 'success' | 'error'> = {
+  pending: 'default',
+  accepted: 'success',
+  rejected: 'error',
+};
+
+const formatDate = (value: string | null) => {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+};
+
+const describeSection = (section: RefreshSection) => {
+  if (section.before === null) return 'New section';
+  if (section.after === null) return 'Removed by the refresh';
+  if (section.before === section.after) return 'Unchanged';
+  return 'Updated';
+};
+
+function SectionDiff({ section }: { section: RefreshSection }) {
+  const rows = useMemo(() => diffHtmlBlocks(section.before ?? '', section.after ?? ''), [section.before, section.after]);
+  return (
+    <div className="overflow-hidden rounded-md border border-slate-200">
+      <div className="grid grid-cols-2 border-b border-slate-200 bg-slate-50 text-xs font-medium text-slate-500">
+        <div className="px-3 py-2">Current</div>
+        <div className="border-l border-slate-200 px-3 py-2">Refreshed</div>
+      </div>
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-2 border-b border-slate-100 last:border-0">
+          <div className={`px-3 py-2 ${ROW_STYLES[row.kind].before}`}>
+            {row.before && <SafeHtml html={row.before} className="prose prose-sm max-w-none" />}
+          </div>
+          <div className={`border-l border-slate-200 px-3 py-2 ${ROW_STYLES[row.kind].after}`}>
+            {row.after && <SafeHtml html={row.after} className="prose prose-sm max-w-none" />}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ContentRefreshReviewPage() {
+  const params = useParams();
+  const refreshId = params.id as string;
+  const [refresh, setRefresh] = useState<RefreshDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadRefresh = useCallback(async () => {
+    try {
+      const data = await fetchAPI(`/blog/refreshes/${refreshId}`, { redirectOn401: false, cache: 'no-store' });
+      setRefresh(parseRefreshDetail(data));
+    } catch (err) {
+      logger.error('Failed to load content refresh', err, { component: 'ContentRefreshReviewPage', refreshId });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load refresh') });
+    } finally {
+      setLoading(false);
+    }
+  }, [refreshId]);
+
+  useEffect(() => {
+    loadRefresh();
+  }, [loadRefresh]);
+
+  const send = async (key: string, url: string, init: { method: string; body?: string }, success?: string) => {
+    setBusy(key);
+    try {
+      const data = await fetchAPI(url, { ...init, redirectOn401: false });
+      setRefresh(parseRefreshDetail(data));
+      if (success) setMessage({ type: 'success', text: success });
+    } catch (err) {
+      logger.error('Content refresh action failed', err, { component: 'ContentRefreshReviewPage', refreshId, action: key });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Action failed') });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const decide = (decisions: Record<string, SectionDecision>, key: string) => send(key, `/blog/refreshes/${refreshId}/sections`, {
+    method: 'PATCH',
+    body: JSON.stringify({ decisions }),
+  });
+
+  const decideAll = (decision: SectionDecision) => {
+    if (!refresh) return;
+    const decisions = Object.fromEntries(
+      refresh.sections.filter((section) => section.before !== section.after).map((section) => [section.key, decision]),
+    );
+    decide(decisions, `all-${decision}`);
+  };
+
+  const apply = () => {
+    if (!confirm('Apply the accepted sections to the post? Undecided sections keep their current text.')) return;
+    send('apply', `/blog/refreshes/${refreshId}/apply`, { method: 'POST' }, 'Refresh applied');
+  };
+
+  const discard = () => {
+    if (!confirm('Discard this refresh? The post stays as it is.')) return;
+    send('discard', `/blog/refreshes/${refreshId}/discard`, { method: 'POST' }, 'Refresh discarded');
+  };
+
+  const rollback = () => {
+    if (!confirm('Restore the post as it was before this refresh?')) return;
+    send('rollback', `/blog/refreshes/${refreshId}/rollback`, { method: 'POST' }, 'Post restored');
+  };
+
+  if (loading) {
+    return <div className="flex justify-center py-24"><LoadingSpinner /></div>;
+  }
+
+  if (!refresh) {
+    return (
+      <div className="space-y-4">
+        <Link href="/dashboard/refresh" className="inline-flex items-center text-sm text-blue-600 hover:underline">
+          <ArrowLeft className="w-4 h-4 mr-1" /> Back to content refresh
+        </Link>
+        <p className="text-slate-600">{message?.text || 'Refresh not found.'}</p>
+      </div>
+    );
+  }
+
+  const pending = refresh.status === 'PENDING';
+  const accepted = refresh.sections.filter((section) => section.decision === 'accepted' && section.before !== section.after).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Link href="/dashboard/refresh" className="mb-2 inline-flex items-center text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back to content refresh
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900">{refresh.post.title}</h1>
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <Badge size="sm" variant={pending ? 'warning' : 'default'}>{REFRESH_STATUS_LABELS[refresh.status]}</Badge>
+            <span>Generated {formatDate(refresh.createdAt)}</span>
+            {refresh.reviewedBy && <span>· Reviewed by {refresh.reviewedBy}</span>}
+            {refresh.seoScoreBefore !== null && refresh.seoScoreAfter !== null && (
+              <span>· SEO {refresh.seoScoreBefore} → {refresh.seoScoreAfter}</span>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {pending && (
+            <>
+              <Button variant="success" onClick={apply} isLoading={busy === 'apply'} disabled={accepted === 0 || refresh.stale}>
+                <Check className="w-4 h-4 mr-2" /> Apply {accepted} section{accepted === 1 ? '' : 's'}
+              </Button>
+              <Button variant="ghost" onClick={discard} isLoading={busy === 'discard'}>
+                <Trash2 className="w-4 h-4 mr-2" /> Discard
+              </Button>
+            </>
+          )}
+          {refresh.canRollback && (
+            <Button variant="warning" onClick={rollback} isLoading={busy === 'rollback'}>
+              <RotateCcw className="w-4 h-4 mr-2" /> Roll back
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div className={`rounded-md px-4 py-3 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {refresh.stale && (
+        <div className="rounded-md bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          The post was edited after this refresh was generated. Discard it and generate a new refresh.
+        </div>
+      )}
+      {refresh.canRollback && (
+        <div className="rounded-md bg-blue-50 px-4 py-3 text-sm text-blue-800">
+          Applied {formatDate(refresh.appliedAt)}. It can be rolled back until {formatDate(refresh.rollbackUntil)}, and is
+          rolled back automatically if the post&apos;s SEO score drops during that time.
+        </div>
+      )}
+      {refresh.status === 'ROLLED_BACK' && refresh.rollbackReason && (
+        <div className="rounded-md bg-slate-100 px-4 py-3 text-sm text-slate-700">
+          Rolled back automatically: {refresh.rollbackReason}
+        </div>
+      )}
+
+      {(refresh.proposedExcerpt || refresh.proposedSeoDescription) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Proposed summary</CardTitle>
+            <CardDescription>Replaces the excerpt and meta description when the refresh is applied</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm text-slate-700">
+            {refresh.proposedExcerpt && <p><span className="font-medium">Excerpt:</span> {refresh.proposedExcerpt}</p>}
+            {refresh.proposedSeoDescription && <p><span className="font-medium">Meta description:</span> {refresh.proposedSeoDescription}</p>}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <CardTitle>Sections</CardTitle>
+              <CardDescription>Accepted sections take the refreshed text; rejected and undecided sections keep the current text.</CardDescription>
+            </div>
+            {pending && (
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => decideAll('accepted')} isLoading={busy === 'all-accepted'}>
+                  Accept all
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => decideAll('rejected')} isLoading={busy === 'all-rejected'}>
+                  Reject all
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {refresh.sections.map((section) => {
+            const changed = section.before !== section.after;
+            const preservedCount = section.preserved.links.length + section.preserved.images.length;
+            return (
+              <div key={section.key} className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <h3 className="font-semibold text-slate-900">{section.heading || 'Introduction'}</h3>
+                    <span className="text-xs text-slate-500">{describeSection(section)}</span>
+                    {changed && <Badge size="sm" variant={DECISION_VARIANTS[section.decision]}>{section.decision}</Badge>}
+                    {preservedCount > 0 && (
+                      <Badge size="sm" variant="info">
+                        Kept {section.preserved.links.length} link{section.preserved.links.length === 1 ? '' : 's'},{' '}
+                        {section.preserved.images.length} image{section.preserved.images.length === 1 ? '' : 's'}
+                      </Badge>
+                    )}
+                  </div>
+                  {pending && changed && (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant={section.decision === 'accepted' ? 'success' : 'outline'}
+                        onClick={() => decide({ [section.key]: section.decision === 'accepted' ? 'pending' : 'accepted' }, section.key)}
+                        isLoading={busy === section.key}
+                      >
+                        <Check className="w-4 h-4 mr-1" /> Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={section.decision === 'rejected' ? 'danger' : 'outline'}
+                        onClick={() => decide({ [section.key]: section.decision === 'rejected' ? 'pending' : 'rejected' }, section.key)}
+                        isLoading={busy === section.key}
+                      >
+                        <X className="w-4 h-4 mr-1" /> Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {changed ? (
+                  <SectionDiff section={section} />
+                ) : (
+                  <p className="text-sm text-slate-500">No changes proposed.</p>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { RefreshCw, Wand2 } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  REFRESH_STATUSES,
+  REFRESH_STATUS_LABELS,
+  parseRefreshList,
+  type RefreshCandidate,
+  type RefreshStatus,
+  type RefreshSummary,
+} from '@/lib/content-refresh';
+
+const STATUS_VARIANTS: Record<RefreshStatus, 'default' | 'info' | 'success' | 'warning'> = {
+  PENDING: 'warning',
+  APPLIED: 'success',
+  DISCARDED: 'default',
+  ROLLED_BACK: 'info',
+};
+
+const formatDate = (value: string | null) => {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+};
+
+export default function ContentRefreshPage() {
+  const [refreshes, setRefreshes] = useState<RefreshSummary[]>([]);
+  const [candidates, setCandidates] = useState<RefreshCandidate[]>([]);
+  const [status, setStatus] = useState<RefreshStatus | ''>('PENDING');
+  const [loading, setLoading] = useState(true);
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadRefreshes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const query = status ? `?status=${status}` : '';
+      const data = await fetchAPI(`/blog/refreshes${query}`, { redirectOn401: false, cache: 'no-store' });
+      const list = parseRefreshList(data);
+      setRefreshes(list.refreshes);
+      setCandidates(list.candidates);
+    } catch (err) {
+      logger.error('Failed to load content refreshes', err, { component: 'ContentRefreshPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load content refreshes') });
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadRefreshes();
+  }, [loadRefreshes]);
+
+  const checkForStalePosts = async () => {
+    setChecking(true);
+    try {
+      const data = await fetchAPI('/blog/ai/check-refresh', { method: 'POST', redirectOn401: false });
+      const marked = data && typeof data === 'object' && 'postsMarked' in data ? Number(data.postsMarked) : 0;
+      setMessage({ type: 'success', text: `${marked} post${marked === 1 ? '' : 's'} flagged for refresh` });
+      loadRefreshes();
+    } catch (err) {
+      logger.error('Failed to check for stale posts', err, { component: 'ContentRefreshPage' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to check for stale posts') });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const generate = async (candidate: RefreshCandidate) => {
+    setGeneratingId(candidate.id);
+    try {
+      const data = await fetchAPI(`/blog/ai/refresh/${candidate.id}`, { method: 'POST', redirectOn401: false });
+      const result = data && typeof data === 'object' ? data as { success?: boolean; error?: string } : {};
+      if (!result.success) {
+        throw new Error(result.error || 'Refresh failed');
+      }
+      setMessage({ type: 'success', text: `Refresh of "${candidate.title}" is ready for review` });
+      loadRefreshes();
+    } catch (err) {
+      logger.error('Failed to generate content refresh', err, { component: 'ContentRefreshPage', postId: candidate.id });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to generate refresh') });
+    } finally {
+      setGeneratingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Content Refresh</h1>
+          <p className="text-slate-600">AI updates of older posts, reviewed section by section before they go live.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={checkForStalePosts} isLoading={checking}>
+            Find stale posts
+          </Button>
+          <Button variant="outline" onClick={loadRefreshes} isLoading={loading}>
+            <RefreshCw className="w-4 h-4 mr-2" /> Refresh
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`rounded-md px-4 py-3 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Flagged for refresh</CardTitle>
+            <CardDescription>Generating a refresh does not change the post until it is reviewed and applied.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {candidates.map((candidate) => (
+                <li key={candidate.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                  <div>
+                    <p className="font-medium text-slate-900">{candidate.title}</p>
+                    <p className="text-xs text-slate-500">
+                      {candidate.refreshReason || 'Flagged for refresh'} · {candidate.contentAge} days since last update
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => generate(candidate)}
+                    isLoading={generatingId === candidate.id}
+                    disabled={generatingId !== null && generatingId !== candidate.id}
+                  >
+                    <Wand2 className="w-4 h-4 mr-1" /> Generate refresh
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <CardTitle>Refreshes</CardTitle>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as RefreshStatus | '')}
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+            >
+              <option value="">All statuses</option>
+              {REFRESH_STATUSES.map((item) => (
+                <option key={item} value={item}>{REFRESH_STATUS_LABELS[item]}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && refreshes.length === 0 ? (
+            <div className="flex justify-center py-12"><LoadingSpinner /></div>
+          ) : refreshes.length === 0 ? (
+            <p className="py-12 text-center text-slate-500">No refreshes.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-slate-500">
+                    <th className="py-2 pr-4 font-medium">Post</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium">Sections</th>
+                    <th className="py-2 pr-4 font-medium">SEO score</th>
+                    <th className="py-2 font-medium">Created</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {refreshes.map((refresh) => (
+                    <tr key={refresh.id} className="border-b last:border-0 hover:bg-slate-50">
+                      <td className="py-3 pr-4">
+                        <Link href={`/dashboard/refresh/${refresh.id}`} className="font-medium text-blue-600 hover:underline">
+                          {refresh.post.title}
+                        </Link>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <Badge variant={STATUS_VARIANTS[refresh.status]} size="sm">{REFRESH_STATUS_LABELS[refresh.status]}</Badge>
+                        {refresh.canRollback && (
+                          <div className="mt-1 text-xs text-slate-500">Rollback until {formatDate(refresh.rollbackUntil)}</div>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-600">
+                        {refresh.sectionCount}
+                        {refresh.status === 'PENDING' && refresh.pendingSections > 0 && ` (${refresh.pendingSections} undecided)`}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-600">
+                        {refresh.seoScoreBefore !== null && refresh.seoScoreAfter !== null
+                          ? `${refresh.seoScoreBefore} → ${refresh.seoScoreAfter}`
+                          : '—'}
+                      </td>
+                      <td className="py-3 text-slate-600">{formatDate(refresh.createdAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,473 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { SafeHtml } from '@/components/SafeHtml';
+import { ArrowLeft, Check, CheckCircle2, MessageSquare, RotateCcw, Wand2, X, XCircle } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { splitHtmlBlocks } from '@/lib/html-blocks';
+import {
+  REVIEW_ACTION_LABELS,
+  parsePostReview,
+  type PostReview,
+  type ReviewAction,
+  type ReviewComment,
+} from '@/lib/post-review';
+
+// A queued revision finishes in the background; poll until it is recorded
+const REVISION_POLL_MS = 10_000;
+
+const ACTION_VARIANTS: Record<ReviewAction, 'default' | 'info' | 'success' | 'error' | 'warning' | 'purple'> = {
+  COMMENTED: 'default',
+  SUGGESTION_APPLIED: 'info',
+  CHANGES_REQUESTED: 'warning',
+  REVISED: 'purple',
+  REVISION_FAILED: 'error',
+  APPROVED: 'success',
+  REJECTED: 'error',
+};
+
+const CHECK_VARIANTS: Record<string, 'success' | 'warning' | 'error'> = {
+  pass: 'success',
+  warning: 'warning',
+  fail: 'error',
+};
+
+const textareaClass = 'w-full rounded-md border border-slate-300 px-3 py-2 text-sm';
+
+const formatDate = (value: string | null) => {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+};
+
+type Decision = 'approve' | 'reject' | 'request-changes';
+
+export default function PostReviewPage() {
+  const params = useParams();
+  const postId = params.id as string;
+  const [review, setReview] = useState<PostReview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedBlock, setSelectedBlock] = useState<number | null>(null);
+  const [commentBody, setCommentBody] = useState('');
+  const [suggestion, setSuggestion] = useState('');
+  const [notes, setNotes] = useState('');
+  const [override, setOverride] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadReview = useCallback(async () => {
+    try {
+      const data = await fetchAPI(`/blog/review/${postId}`, { redirectOn401: false, cache: 'no-store' });
+      setReview(parsePostReview(data));
+    } catch (err) {
+      logger.error('Failed to load post review', err, { component: 'PostReviewPage', postId });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load review') });
+    } finally {
+      setLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    loadReview();
+  }, [loadReview]);
+
+  const revisionPending = review?.revisionPending ?? false;
+  useEffect(() => {
+    if (!revisionPending) return;
+    const timer = setInterval(loadReview, REVISION_POLL_MS);
+    return () => clearInterval(timer);
+  }, [revisionPending, loadReview]);
+
+  const blocks = useMemo(() => splitHtmlBlocks(review?.post.content ?? ''), [review?.post.content]);
+
+  const commentsByBlock = useMemo(() => {
+    const map = new Map<number, ReviewComment[]>();
+    for (const comment of review?.comments ?? []) {
+      const list = map.get(comment.blockIndex) ?? [];
+      list.push(comment);
+      map.set(comment.blockIndex, list);
+    }
+    return map;
+  }, [review?.comments]);
+
+  const detachedComments = commentsByBlock.get(-1) ?? [];
+  const editable = review?.post.status === 'AI_REVIEW';
+
+  const send = async (key: string, url: string, init: { method: string; body?: string }, success: string) => {
+    setBusy(key);
+    try {
+      const data = await fetchAPI(url, { ...init, redirectOn401: false });
+      const updated = parsePostReview(data);
+      // Comment endpoints return the comment rather than the whole review
+      if (updated) {
+        setReview(updated);
+      } else {
+        await loadReview();
+      }
+      setMessage({ type: 'success', text: success });
+      return true;
+    } catch (err) {
+      logger.error('Review action failed', err, { component: 'PostReviewPage', postId, action: key });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Review action failed') });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addComment = async () => {
+    if (selectedBlock === null || !commentBody.trim()) return;
+    const ok = await send('comment', `/blog/review/${postId}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ blockIndex: selectedBlock, body: commentBody, suggestion: suggestion || undefined }),
+    }, 'Comment added');
+    if (ok) {
+      setCommentBody('');
+      setSuggestion('');
+    }
+  };
+
+  const setCommentStatus = (comment: ReviewComment, status: ReviewComment['status']) => send(
+    comment.id,
+    `/blog/review/${postId}/comments/${comment.id}`,
+    { method: 'PATCH', body: JSON.stringify({ status }) },
+    status === 'RESOLVED' ? 'Comment resolved' : 'Comment reopened',
+  );
+
+  const applySuggestion = (comment: ReviewComment) => send(
+    comment.id,
+    `/blog/review/${postId}/comments/${comment.id}/apply`,
+    { method: 'POST' },
+    'Suggestion applied',
+  );
+
+  const decide = async (decision: Decision) => {
+    if (decision === 'reject' && !confirm('Reject this post and send it back to drafts?')) return;
+    const labels: Record<Decision, string> = {
+      approve: 'Post approved',
+      reject: 'Post rejected',
+      'request-changes': 'Revision queued; the post updates when it finishes',
+    };
+    const ok = await send(decision, `/blog/review/${postId}/${decision}`, {
+      method: 'POST',
+      body: JSON.stringify({ notes: notes || undefined, override }),
+    }, labels[decision]);
+    if (ok) {
+      setNotes('');
+      setOverride(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center py-24"><LoadingSpinner /></div>;
+  }
+
+  if (!review) {
+    return (
+      <div className="space-y-4">
+        <Link href="/dashboard/review" className="inline-flex items-center text-sm text-blue-600 hover:underline">
+          <ArrowLeft className="w-4 h-4 mr-1" /> Back to review queue
+        </Link>
+        <p className="text-slate-600">{message?.text || 'Post not found.'}</p>
+      </div>
+    );
+  }
+
+  const openComments = review.comments.filter((comment) => comment.status === 'OPEN').length;
+  const { checklist } = review;
+
+  const renderComment = (comment: ReviewComment) => (
+    <div key={comment.id} className={`rounded-md border p-3 text-sm ${comment.status === 'RESOLVED' ? 'border-slate-200 bg-slate-50 text-slate-500' : 'border-amber-200 bg-amber-50'}`}>
+      <div className="mb-1 flex items-center justify-between gap-2 text-xs text-slate-500">
+        <span>{comment.author?.name ?? 'Unknown'} · {formatDate(comment.createdAt)}</span>
+        {comment.status === 'RESOLVED' && <Badge size="sm">Resolved</Badge>}
+      </div>
+      <p className="whitespace-pre-wrap text-slate-800">{comment.body}</p>
+      {comment.suggestion && (
+        <p className="mt-2 rounded bg-white px-2 py-1 text-slate-700">
+          <span className="font-medium">Suggestion:</span> {comment.suggestion}
+        </p>
+      )}
+      {editable && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {comment.status === 'OPEN' && comment.suggestion && comment.blockIndex !== -1 && (
+            <Button size="sm" variant="outline" isLoading={busy === comment.id} onClick={() => applySuggestion(comment)}>
+              <Check className="w-4 h-4 mr-1" /> Apply suggestion
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            isLoading={busy === comment.id}
+            onClick={() => setCommentStatus(comment, comment.status === 'OPEN' ? 'RESOLVED' : 'OPEN')}
+          >
+            {comment.status === 'OPEN' ? 'Resolve' : 'Reopen'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <Link href="/dashboard/review" className="mb-2 inline-flex items-center text-sm text-blue-600 hover:underline">
+            <ArrowLeft className="w-4 h-4 mr-1" /> Back to review queue
+          </Link>
+          <h1 className="text-3xl font-bold text-slate-900">{review.post.title || 'Untitled'}</h1>
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <Badge variant={editable ? 'warning' : 'default'} size="sm">{review.post.status.replace(/_/g, ' ')}</Badge>
+            {review.post.aiModel && <span>{review.post.aiModel}</span>}
+            {review.post.promptLabel && <span>· {review.post.promptLabel}</span>}
+            {revisionPending && <Badge variant="info" size="sm">Revision in progress</Badge>}
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`rounded-md px-4 py-3 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Prompt</CardTitle>
+              <CardDescription>What the model was asked to write</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {review.post.aiPrompt ? (
+                <details>
+                  <summary className="cursor-pointer text-sm text-blue-600">Show prompt</summary>
+                  <pre className="mt-3 max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-slate-50 p-3 text-xs text-slate-700">
+                    {review.post.aiPrompt}
+                  </pre>
+                </details>
+              ) : (
+                <p className="text-sm text-slate-500">No prompt was stored for this post.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Draft</CardTitle>
+              <CardDescription>
+                {editable ? 'Click a paragraph to comment on it or suggest replacement text.' : 'Review is closed for this post.'}
+                {openComments > 0 && ` ${openComments} open comment${openComments === 1 ? '' : 's'}.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {blocks.map((block, index) => {
+                const comments = commentsByBlock.get(index) ?? [];
+                const open = comments.filter((comment) => comment.status === 'OPEN').length;
+                const selected = selectedBlock === index;
+                return (
+                  <div key={`${index}-${block.length}`} className={`rounded-md border ${selected ? 'border-blue-400' : open > 0 ? 'border-amber-300' : 'border-transparent hover:border-slate-200'}`}>
+                    <div
+                      role="button"
+                      tabIndex={0}
+                      onClick={() => setSelectedBlock(selected ? null : index)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') setSelectedBlock(selected ? null : index);
+                      }}
+                      className="relative cursor-pointer px-3 py-2"
+                    >
+                      {comments.length > 0 && (
+                        <span className="absolute right-2 top-2">
+                          <Badge variant={open > 0 ? 'warning' : 'default'} size="sm" icon={<MessageSquare className="w-3 h-3" />}>
+                            {comments.length}
+                          </Badge>
+                        </span>
+                      )}
+                      <SafeHtml html={block} className="prose prose-slate max-w-none pr-12" />
+                    </div>
+                    {selected && (
+                      <div className="space-y-3 border-t border-slate-200 bg-slate-50 p-3">
+                        {comments.map(renderComment)}
+                        {editable && (
+                          <div className="space-y-2">
+                            <textarea
+                              value={commentBody}
+                              onChange={(e) => setCommentBody(e.target.value)}
+                              placeholder="What should change in this paragraph?"
+                              rows={3}
+                              className={textareaClass}
+                            />
+                            <textarea
+                              value={suggestion}
+                              onChange={(e) => setSuggestion(e.target.value)}
+                              placeholder="Suggested replacement text (optional)"
+                              rows={3}
+                              className={textareaClass}
+                            />
+                            <div className="flex gap-2">
+                              <Button size="sm" onClick={addComment} isLoading={busy === 'comment'} disabled={!commentBody.trim()}>
+                                Add comment
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => setSelectedBlock(null)}>
+                                Cancel
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {detachedComments.length > 0 && (
+                <div className="space-y-2 pt-4">
+                  <p className="text-sm font-medium text-slate-700">Comments on removed paragraphs</p>
+                  {detachedComments.map(renderComment)}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Checklist</CardTitle>
+              <CardDescription>
+                {checklist.seoScore !== null ? `SEO score ${checklist.seoScore}/100` : 'SEO audit unavailable'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {checklist.requirementErrors.length === 0 ? (
+                <p className="flex items-center gap-2 text-green-700">
+                  <CheckCircle2 className="w-4 h-4" /> Post requirements met
+                </p>
+              ) : checklist.requirementErrors.map((error) => (
+                <p key={error} className="flex items-start gap-2 text-red-700">
+                  <XCircle className="mt-0.5 w-4 h-4 shrink-0" /> {error}
+                </p>
+              ))}
+              {checklist.seoChecks.length > 0 && (
+                <ul className="space-y-2 border-t border-slate-200 pt-3">
+                  {checklist.seoChecks.map((check) => (
+                    <li key={`${check.category}-${check.name}`} className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium text-slate-800">{check.name}</p>
+                        <p className="text-xs text-slate-500">{check.message}</p>
+                      </div>
+                      <Badge variant={CHECK_VARIANTS[check.status] ?? 'warning'} size="sm">{check.status}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          {editable && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Decision</CardTitle>
+                <CardDescription>Recorded in the audit trail with your notes</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Notes for the author or the AI revision"
+                  rows={4}
+                  className={textareaClass}
+                />
+                {checklist.blocking.length > 0 && (
+                  <label className="flex items-start gap-2 text-sm text-slate-700">
+                    <input type="checkbox" checked={override} onChange={(e) => setOverride(e.target.checked)} className="mt-1" />
+                    Approve despite {checklist.blocking.length} blocking checklist item{checklist.blocking.length === 1 ? '' : 's'}
+                  </label>
+                )}
+                <div className="flex flex-col gap-2">
+                  <Button
+                    variant="success"
+                    onClick={() => decide('approve')}
+                    isLoading={busy === 'approve'}
+                    disabled={revisionPending || (checklist.blocking.length > 0 && !override)}
+                  >
+                    <Check className="w-4 h-4 mr-2" /> Approve
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => decide('request-changes')}
+                    isLoading={busy === 'request-changes'}
+                    disabled={revisionPending || (openComments === 0 && !notes.trim())}
+                  >
+                    <Wand2 className="w-4 h-4 mr-2" /> Request changes
+                  </Button>
+                  <Button
+                    variant="danger"
+                    onClick={() => decide('reject')}
+                    isLoading={busy === 'reject'}
+                    disabled={!notes.trim()}
+                  >
+                    <X className="w-4 h-4 mr-2" /> Reject
+                  </Button>
+                </div>
+                <p className="text-xs text-slate-500">
+                  Request changes rewrites the paragraphs with open comments, or the whole post when only notes are given.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Audit trail</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {review.events.length === 0 ? (
+                <p className="text-sm text-slate-500">No review activity yet.</p>
+              ) : (
+                <ol className="space-y-4">
+                  {review.events.map((event) => (
+                    <li key={event.id} className="text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={ACTION_VARIANTS[event.action]} size="sm">{REVIEW_ACTION_LABELS[event.action]}</Badge>
+                        {event.override && <Badge variant="error" size="sm">Override</Badge>}
+                        <span className="text-xs text-slate-500">
+                          {event.actor?.name ?? 'System'} · {formatDate(event.createdAt)}
+                        </span>
+                      </div>
+                      {event.notes && <p className="mt-1 whitespace-pre-wrap text-slate-700">{event.notes}</p>}
+                      {event.changes.length > 0 && (
+                        <details className="mt-2">
+                          <summary className="cursor-pointer text-xs text-blue-600">
+                            <RotateCcw className="mr-1 inline w-3 h-3" />
+                            {event.changes.length} paragraph{event.changes.length === 1 ? '' : 's'} changed
+                          </summary>
+                          <div className="mt-2 space-y-2">
+                            {event.changes.map((change) => (
+                              <div key={change.index} className="grid grid-cols-2 gap-2 text-xs">
+                                <SafeHtml html={change.before} className="rounded bg-red-50 p-2 text-red-900 line-through decoration-red-300" />
+                                <SafeHtml html={change.after} className="rounded bg-green-50 p-2 text-green-900" />
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
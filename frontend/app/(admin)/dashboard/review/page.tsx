@@ -0,0 +1,125 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { ClipboardCheck, MessageSquare, RefreshCw } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { REVIEW_ACTION_LABELS, parseReviewQueue, type ReviewQueueItem } from '@/lib/post-review';
+
+const formatDate = (value: string | null) => {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+};
+
+export default function ReviewQueuePage() {
+  const [posts, setPosts] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await fetchAPI('/blog/review', { redirectOn401: false, cache: 'no-store' });
+      setPosts(parseReviewQueue(data));
+      setError('');
+    } catch (err) {
+      logger.error('Failed to load review queue', err, { component: 'ReviewQueuePage' });
+      setError(getErrorMessage(err, 'Failed to load review queue'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">AI Review</h1>
+          <p className="text-slate-600">AI drafts waiting for an editor to approve, reject or request changes.</p>
+        </div>
+        <Button variant="outline" onClick={loadQueue} isLoading={loading}>
+          <RefreshCw className="w-4 h-4 mr-2" /> Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Review queue</CardTitle>
+          <CardDescription>{posts.length} post{posts.length === 1 ? '' : 's'} awaiting review, oldest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading && posts.length === 0 ? (
+            <div className="flex justify-center py-12"><LoadingSpinner /></div>
+          ) : posts.length === 0 ? (
+            <div className="py-12 text-center text-slate-500">
+              <ClipboardCheck className="mx-auto mb-3 h-10 w-10 text-slate-300" />
+              Nothing to review.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-slate-500">
+                    <th className="py-2 pr-4 font-medium">Post</th>
+                    <th className="py-2 pr-4 font-medium">Prompt</th>
+                    <th className="py-2 pr-4 font-medium">Words</th>
+                    <th className="py-2 pr-4 font-medium">Comments</th>
+                    <th className="py-2 pr-4 font-medium">Last activity</th>
+                    <th className="py-2 font-medium">Created</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {posts.map((post) => (
+                    <tr key={post.id} className="border-b last:border-0 hover:bg-slate-50">
+                      <td className="py-3 pr-4">
+                        <Link href={`/dashboard/review/${post.id}`} className="font-medium text-blue-600 hover:underline">
+                          {post.title}
+                        </Link>
+                        {post.aiModel && <div className="text-xs text-slate-500">{post.aiModel}</div>}
+                      </td>
+                      <td className="py-3 pr-4 text-slate-600">{post.promptLabel || '—'}</td>
+                      <td className="py-3 pr-4 text-slate-600">{post.wordCount.toLocaleString()}</td>
+                      <td className="py-3 pr-4">
+                        {post.openComments > 0 ? (
+                          <Badge variant="warning" size="sm" icon={<MessageSquare className="w-3 h-3" />}>
+                            {post.openComments} open
+                          </Badge>
+                        ) : '—'}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {post.revisionPending ? (
+                          <Badge variant="info" size="sm">Revision queued</Badge>
+                        ) : post.lastAction ? (
+                          <span className="text-slate-600">{REVIEW_ACTION_LABELS[post.lastAction]}</span>
+                        ) : (
+                          <span className="text-slate-400">Not started</span>
+                        )}
+                      </td>
+                      <td className="py-3 text-slate-600">{formatDate(post.createdAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/Button';
 import { useToast } from '@/components/ui/Toast';
 import { fetchAPI } from '@/lib/api';
 import { getErrorMessage } from '@/lib/error-utils';
+import { CalendarFeedCard } from '@/components/calendar/CalendarFeedCard';
 
 type ScheduledPost = {
   id: string;
@@ -293,6 +294,10 @@ export default function ScheduledPostsPage() {
         </div>
       )}
 
+      <div className="mt-6">
+        <CalendarFeedCard />
+      </div>
+
       {/* Info Card */}
       <Card className="mt-6">
         <CardContent className="pt-6">
@@ -303,9 +308,12 @@ export default function ScheduledPostsPage() {
             <p className="mb-2">
               <strong>Manual Publishing:</strong> Click "Publish Due Posts Now" to immediately publish all posts scheduled for the past.
             </p>
-            <p>
+            <p className="mb-2">
               <strong>Edit Scheduling:</strong> To change the scheduled time, click "Edit" on any post and update the "Schedule Publishing" field.
             </p>
+            <p>
+              <strong>Calendar Invites:</strong> Authors are emailed an .ics file when their post or page is scheduled, and again if the time changes.
+            </p>
           </div>
         </CardContent>
       </Card>
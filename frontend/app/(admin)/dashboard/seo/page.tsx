@@ -20,12 +20,15 @@ import {
   AlertCircle,
   Link as LinkIcon,
   Bot,
-  User
+  User,
+  Eye,
+  Link2Off
 } from 'lucide-react';
 import { API_URL, fetchAPI } from '@/lib/api';
 import { useToast } from '@/components/ui/Toast';
 import { useConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { getErrorMessage } from '@/lib/error-utils';
+import { parseInterlinkRunPreview, type InterlinkRunPost } from '@/lib/interlinks';
 
 type TabType = 'audit' | 'tools' | 'interlinking' | 'sitemap';
 
@@ -100,6 +103,7 @@ type SitemapStats = {
   categories?: number;
   tags?: number;
   pages?: number;
+  projects?: number;
   customUrls?: number;
   staticCustomUrls?: number;
   baseUrl?: string;
@@ -122,12 +126,14 @@ type SitemapConfigState = {
     categories: boolean;
     tags: boolean;
     pages: boolean;
+    projects: boolean;
   };
   exclude: {
     posts: string;
     categories: string;
     tags: string;
     pages: string;
+    projects: string;
   };
   customUrls: SitemapCustomUrl[];
 };
@@ -164,12 +170,14 @@ const DEFAULT_SITEMAP_CONFIG: SitemapConfigState = {
     categories: true,
     tags: true,
     pages: true,
+    projects: true,
   },
   exclude: {
     posts: '',
     categories: '',
     tags: '',
     pages: '',
+    projects: '',
   },
   customUrls: [],
 };
@@ -347,6 +355,7 @@ const parseSitemapStats = (value: unknown): SitemapStats => {
     categories: parseNumber(value.categories),
     tags: parseNumber(value.tags),
     pages: parseNumber(value.pages),
+    projects: parseNumber(value.projects),
     customUrls: parseNumber(value.customUrls),
     staticCustomUrls: parseNumber(value.staticCustomUrls),
     baseUrl: parseString(value.baseUrl),
@@ -387,12 +396,14 @@ const parseSitemapConfig = (value: unknown): SitemapConfigState => {
       categories: typeof includeRaw.categories === 'boolean' ? includeRaw.categories : DEFAULT_SITEMAP_CONFIG.include.categories,
       tags: typeof includeRaw.tags === 'boolean' ? includeRaw.tags : DEFAULT_SITEMAP_CONFIG.include.tags,
       pages: typeof includeRaw.pages === 'boolean' ? includeRaw.pages : DEFAULT_SITEMAP_CONFIG.include.pages,
+      projects: typeof includeRaw.projects === 'boolean' ? includeRaw.projects : DEFAULT_SITEMAP_CONFIG.include.projects,
     },
     exclude: {
       posts: toCsv(excludeRaw.posts),
       categories: toCsv(excludeRaw.categories),
       tags: toCsv(excludeRaw.tags),
       pages: toCsv(excludeRaw.pages),
+      projects: toCsv(excludeRaw.projects),
     },
     customUrls,
   };
@@ -417,6 +428,8 @@ export default function SEOManagementPage() {
   const [interlinkingRunning, setInterlinkingRunning] = useState(false);
   const [interlinkingError, setInterlinkingError] = useState('');
   const [interlinkingSuccess, setInterlinkingSuccess] = useState('');
+  const [interlinkingPreview, setInterlinkingPreview] = useState<InterlinkRunPost[] | null>(null);
+  const [interlinkingPreviewing, setInterlinkingPreviewing] = useState(false);
 
   const [sitemapConfig, setSitemapConfig] = useState<SitemapConfigState>({ ...DEFAULT_SITEMAP_CONFIG });
   const [sitemapStats, setSitemapStats] = useState<SitemapStats | null>(null);
@@ -530,6 +543,7 @@ export default function SEOManagementPage() {
       
       const successMessage = isRecord(data) ? parseString(data.message) : '';
       setInterlinkingSuccess(successMessage || 'Interlinking process completed');
+      setInterlinkingPreview(null);
       loadInterlinkingData(); // Refresh data
     } catch (err: unknown) {
       logger.error('Error running interlinking:', err);
@@ -539,6 +553,54 @@ export default function SEOManagementPage() {
     }
   };
 
+  const handlePreviewInterlinking = async () => {
+    try {
+      setInterlinkingPreviewing(true);
+      setInterlinkingError('');
+      setInterlinkingSuccess('');
+
+      const data = await fetchAPI('/blog/ai/interlink/preview', {
+        method: 'POST',
+        redirectOn401: false,
+        cache: 'no-store',
+      });
+      setInterlinkingPreview(parseInterlinkRunPreview(data));
+    } catch (err: unknown) {
+      logger.error('Error previewing interlinking:', err);
+      setInterlinkingError(getErrorMessage(err, 'An error occurred while previewing interlinking'));
+    } finally {
+      setInterlinkingPreviewing(false);
+    }
+  };
+
+  function handleStripInterlinks() {
+    confirm(
+      'Remove Generated Links',
+      'This removes every automatically inserted link from all posts, keeping the linked text. Links added by authors are not touched. Continue?',
+      async () => {
+        try {
+          setInterlinkingRunning(true);
+          setInterlinkingError('');
+          const data = await fetchAPI('/blog/ai/interlink/strip', {
+            method: 'POST',
+            redirectOn401: false,
+            cache: 'no-store',
+          });
+          const successMessage = isRecord(data) ? parseString(data.message) : '';
+          setInterlinkingSuccess(successMessage || 'Generated links removed');
+          setInterlinkingPreview(null);
+          loadInterlinkingData();
+        } catch (err: unknown) {
+          logger.error('Error removing generated links:', err);
+          setInterlinkingError(getErrorMessage(err, 'An error occurred while removing generated links'));
+        } finally {
+          setInterlinkingRunning(false);
+        }
+      },
+      'danger'
+    );
+  }
+
   const parseCsvList = (value: string) => (
     value
       .split(',')
@@ -585,6 +647,7 @@ export default function SEOManagementPage() {
             categories: parseCsvList(sitemapConfig.exclude.categories),
             tags: parseCsvList(sitemapConfig.exclude.tags),
             pages: parseCsvList(sitemapConfig.exclude.pages),
+            projects: parseCsvList(sitemapConfig.exclude.projects),
           },
           customUrls: sitemapConfig.customUrls
             .filter((entry) => entry.loc.trim())
@@ -939,6 +1002,25 @@ export default function SEOManagementPage() {
                 <RefreshCw size={16} className="mr-2" />
                 Refresh
               </Button>
+              <Button
+                variant="outline"
+                onClick={handleStripInterlinks}
+                disabled={interlinkingRunning}
+                className='flex items-center'
+              >
+                <Link2Off size={16} className="mr-2" />
+                Remove Generated Links
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handlePreviewInterlinking}
+                isLoading={interlinkingPreviewing}
+                disabled={interlinkingRunning}
+                className='flex items-center'
+              >
+                <Eye size={16} className="mr-2" />
+                Preview Changes
+              </Button>
               <Button 
                 variant="primary" 
                 onClick={handleRunInterlinking} 
@@ -964,6 +1046,58 @@ export default function SEOManagementPage() {
             </div>
           )}
 
+          {interlinkingPreview && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Planned Changes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {interlinkingPreview.length === 0 ? (
+                  <p className="text-sm text-slate-500">All posts are up to date; running auto-interlinking would not change any content.</p>
+                ) : (
+                  <>
+                    <p className="text-sm text-slate-500">
+                      {interlinkingPreview.reduce((total, post) => total + post.links.length, 0)} links across {interlinkingPreview.length} posts.
+                      Generated links from earlier runs are replaced.
+                    </p>
+                    <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+                      {interlinkingPreview.map((post) => (
+                        <li key={post.postId} className="py-3">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-slate-900 dark:text-white">{post.title}</span>
+                            <Badge variant="info" size="sm">+{post.links.length}</Badge>
+                            {post.removed > 0 && <Badge variant="default" size="sm">{post.removed} replaced</Badge>}
+                          </div>
+                          {post.links.length > 0 && (
+                            <ul className="mt-1 space-y-1 text-sm">
+                              {post.links.map((link) => (
+                                <li key={link.targetPostId} className="text-slate-600 dark:text-slate-400">
+                                  <span className="text-blue-600 dark:text-blue-400">{link.anchorText}</span>
+                                  {' → '}
+                                  {link.targetTitle}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setInterlinkingPreview(null)}>
+                    Dismiss
+                  </Button>
+                  {interlinkingPreview.length > 0 && (
+                    <Button variant="primary" onClick={handleRunInterlinking} isLoading={interlinkingRunning}>
+                      Apply Changes
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Stats Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <Card className="p-4 border-l-4 border-blue-500">
@@ -1161,6 +1295,10 @@ export default function SEOManagementPage() {
                     <div className="text-muted-foreground">Pages</div>
                     <div className="text-2xl font-semibold">{sitemapStats.pages ?? 0}</div>
                   </div>
+                  <div>
+                    <div className="text-muted-foreground">Projects</div>
+                    <div className="text-2xl font-semibold">{sitemapStats.projects ?? 0}</div>
+                  </div>
                   <div>
                     <div className="text-muted-foreground">Custom URLs</div>
                     <div className="text-2xl font-semibold">{sitemapStats.customUrls ?? 0}</div>
@@ -1206,7 +1344,7 @@ export default function SEOManagementPage() {
                 />
               </div>
 
-              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
                 {Object.entries(sitemapConfig.include).map(([key, value]) => {
                   const includeKey = key as keyof SitemapConfigState['include'];
                   return (
@@ -1260,6 +1398,14 @@ export default function SEOManagementPage() {
                     onChange={(e) => setSitemapConfig((prev) => ({ ...prev, exclude: { ...prev.exclude, tags: e.target.value } }))}
                   />
                 </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Exclude projects (slugs)</label>
+                  <Input
+                    placeholder="victorian-hallway-repaint"
+                    value={sitemapConfig.exclude.projects}
+                    onChange={(e) => setSitemapConfig((prev) => ({ ...prev, exclude: { ...prev.exclude, projects: e.target.value } }))}
+                  />
+                </div>
               </div>
 
               <div className="space-y-3">
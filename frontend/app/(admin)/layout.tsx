@@ -61,11 +61,11 @@ function AdminLayoutContent({ children }: { children: React.ReactNode }) {
       return;
     }
 
-    // Redirect non-admin users to profile
+    // Redirect non-admin users to their customer account
     if (!isAdminRole) {
       hasRedirectedRef.current = true;
-      logger.debug('[AdminLayout] Non-admin user detected, redirecting to profile');
-      router.replace('/profile');
+      logger.debug('[AdminLayout] Non-admin user detected, redirecting to account');
+      router.replace('/account');
       return;
     }
   }, [loading, role, user, pathname, router]); // Stable: router from useRouter is stable
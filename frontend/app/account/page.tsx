@@ -0,0 +1,435 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { API_URL, fetchAPI } from '@/lib/api';
+import { useUserSession } from '@/contexts/UserSessionContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { CalendarDays, ClipboardList, FileText, Image as ImageIcon, Mail, MessageSquare, PenLine } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { EnquiryReply, EnquiryThread, parseReplies } from '@/components/portal/EnquiryThread';
+import { ProjectPhoto, ProjectPhotoGallery, parseProjectPhotos } from '@/components/portal/ProjectPhotoGallery';
+import { EstimateSignature } from '@/components/portal/EstimateSignature';
+
+type BadgeVariant = 'default' | 'success' | 'error' | 'warning' | 'info' | 'purple';
+
+interface PortalBooking {
+  id: string;
+  type: string;
+  status: string;
+  title: string;
+  startsAt: string;
+  address: string | null;
+}
+
+interface PortalQuote {
+  id: string;
+  serviceType: string;
+  message: string | null;
+  status: string;
+  createdAt: string;
+  photos: Array<{ id: string; url: string; originalName: string }>;
+  replies: EnquiryReply[];
+  projectPhotos: ProjectPhoto[];
+  bookings: PortalBooking[];
+}
+
+interface PortalMessage {
+  id: string;
+  subject: string | null;
+  message: string;
+  createdAt: string;
+  replies: EnquiryReply[];
+}
+
+interface PortalDocument {
+  id: string;
+  type: 'ESTIMATE' | 'INVOICE';
+  number: string;
+  version: number;
+  status: string;
+  currency: string;
+  total: number;
+  issuedAt: string;
+  validUntil: string | null;
+  dueDate: string | null;
+  signatureName: string | null;
+  signedAt: string | null;
+}
+
+// Customer-facing wording for the quote pipeline
+const QUOTE_STATUS: Record<string, { label: string; variant: BadgeVariant }> = {
+  NEW: { label: 'Received', variant: 'info' },
+  SITE_VISIT_BOOKED: { label: 'Site visit booked', variant: 'purple' },
+  ESTIMATED: { label: 'Estimate sent', variant: 'warning' },
+  WON: { label: 'Confirmed', variant: 'success' },
+  LOST: { label: 'Closed', variant: 'default' },
+};
+
+const DOCUMENT_STATUS: Record<string, { label: string; variant: BadgeVariant }> = {
+  SENT: { label: 'Awaiting you', variant: 'warning' },
+  ACCEPTED: { label: 'Accepted', variant: 'success' },
+  DECLINED: { label: 'Declined', variant: 'error' },
+  PAID: { label: 'Paid', variant: 'success' },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown, fallback = '') => (typeof value === 'string' ? value : fallback);
+const readOptionalString = (value: unknown) => (typeof value === 'string' ? value : null);
+
+const parseQuote = (value: unknown): PortalQuote | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return {
+    id: value.id,
+    serviceType: readString(value.serviceType, 'Painting'),
+    message: readOptionalString(value.message),
+    status: readString(value.status, 'NEW'),
+    createdAt: readString(value.createdAt),
+    photos: Array.isArray(value.photos)
+      ? value.photos.filter(isRecord).map((photo) => ({
+          id: readString(photo.id),
+          url: readString(photo.url),
+          originalName: readString(photo.originalName, 'Photo'),
+        })).filter((photo) => photo.id && photo.url)
+      : [],
+    replies: parseReplies(value.replies),
+    projectPhotos: parseProjectPhotos(value.projectPhotos),
+    bookings: Array.isArray(value.bookings)
+      ? value.bookings.filter(isRecord).map((booking) => ({
+          id: readString(booking.id),
+          type: readString(booking.type),
+          status: readString(booking.status),
+          title: readString(booking.title),
+          startsAt: readString(booking.startsAt),
+          address: readOptionalString(booking.address),
+        })).filter((booking) => booking.id && booking.startsAt)
+      : [],
+  };
+};
+
+const parseMessage = (value: unknown): PortalMessage | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return {
+    id: value.id,
+    subject: readOptionalString(value.subject),
+    message: readString(value.message),
+    createdAt: readString(value.createdAt),
+    replies: parseReplies(value.replies),
+  };
+};
+
+const parseDocument = (value: unknown): PortalDocument | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return {
+    id: value.id,
+    type: value.type === 'INVOICE' ? 'INVOICE' : 'ESTIMATE',
+    number: readString(value.number),
+    version: typeof value.version === 'number' ? value.version : 1,
+    status: readString(value.status),
+    currency: readString(value.currency),
+    total: typeof value.total === 'number' ? value.total : 0,
+    issuedAt: readString(value.issuedAt),
+    validUntil: readOptionalString(value.validUntil),
+    dueDate: readOptionalString(value.dueDate),
+    signatureName: readOptionalString(value.signatureName),
+    signedAt: readOptionalString(value.signedAt),
+  };
+};
+
+const documentReference = (document: PortalDocument) => (
+  document.version > 1 ? `${document.number} rev. ${document.version}` : document.number
+);
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '');
+
+export default function AccountPage() {
+  const router = useRouter();
+  const { user, role, loading: sessionLoading, logout } = useUserSession();
+  const [quotes, setQuotes] = useState<PortalQuote[]>([]);
+  const [messages, setMessages] = useState<PortalMessage[]>([]);
+  const [documents, setDocuments] = useState<PortalDocument[]>([]);
+  const [emailVerified, setEmailVerified] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [signingId, setSigningId] = useState<string | null>(null);
+  const [verificationSent, setVerificationSent] = useState(false);
+
+  useEffect(() => {
+    if (sessionLoading) return;
+    if (!role) {
+      router.replace('/login?next=/account');
+      return;
+    }
+    Promise.all([
+      fetchAPI('/portal/enquiries', { redirectOn401: false, cache: 'no-store' }),
+      fetchAPI('/portal/documents', { redirectOn401: false, cache: 'no-store' }),
+    ])
+      .then(([enquiries, docs]) => {
+        if (isRecord(enquiries)) {
+          setEmailVerified(enquiries.emailVerified !== false);
+          setQuotes(Array.isArray(enquiries.quotes)
+            ? enquiries.quotes.map(parseQuote).filter((quote): quote is PortalQuote => !!quote)
+            : []);
+          setMessages(Array.isArray(enquiries.messages)
+            ? enquiries.messages.map(parseMessage).filter((message): message is PortalMessage => !!message)
+            : []);
+        }
+        setDocuments(isRecord(docs) && Array.isArray(docs.documents)
+          ? docs.documents.map(parseDocument).filter((document): document is PortalDocument => !!document)
+          : []);
+      })
+      .catch((err) => {
+        logger.error('Failed to load customer account', err, { component: 'AccountPage' });
+        setError(getErrorMessage(err, 'Failed to load your account'));
+      })
+      .finally(() => setLoading(false));
+  }, [sessionLoading, role, router]);
+
+  const sendReply = async (kind: 'quotes' | 'messages', id: string, message: string) => {
+    const reply = await fetchAPI(`/portal/enquiries/${kind}/${id}/replies`, {
+      method: 'POST',
+      body: JSON.stringify({ message }),
+      redirectOn401: false,
+    });
+    const added = parseReplies([reply]);
+    if (kind === 'quotes') {
+      setQuotes((prev) => prev.map((quote) => (quote.id === id ? { ...quote, replies: [...quote.replies, ...added] } : quote)));
+    } else {
+      setMessages((prev) => prev.map((item) => (item.id === id ? { ...item, replies: [...item.replies, ...added] } : item)));
+    }
+  };
+
+  const requestVerification = async () => {
+    try {
+      await fetchAPI('/auth/verify-email/request', { method: 'POST', redirectOn401: false });
+      setVerificationSent(true);
+    } catch (err) {
+      logger.error('Failed to request email verification', err, { component: 'AccountPage' });
+      setError(getErrorMessage(err, 'Failed to send verification email'));
+    }
+  };
+
+  const handleSigned = (value: unknown) => {
+    const signed = parseDocument(value);
+    if (signed) {
+      setDocuments((prev) => prev.map((document) => (document.id === signed.id ? signed : document)));
+    }
+    setSigningId(null);
+  };
+
+  if (sessionLoading || loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const displayName = [user?.firstName, user?.lastName].filter(Boolean).join(' ') || user?.username || '';
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">My Account</h1>
+          <p className="text-muted-foreground">Your enquiries, estimates, invoices and project photos in one place.</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/get-quote">
+            <Button variant="outline">Request a Quote</Button>
+          </Link>
+          <Button variant="ghost" onClick={() => logout()}>Sign Out</Button>
+        </div>
+      </div>
+
+      {error && (
+        <Card>
+          <CardContent className="p-6 text-red-600">{error}</CardContent>
+        </Card>
+      )}
+
+      {!emailVerified && (
+        <Card>
+          <CardContent className="flex flex-col gap-3 p-6 md:flex-row md:items-center md:justify-between">
+            <p className="flex items-center gap-2 text-sm text-slate-700">
+              <Mail className="w-4 h-4" />
+              Verify {user?.email || 'your email'} to see enquiries and documents sent to that address.
+            </p>
+            <Button size="sm" onClick={requestVerification} disabled={verificationSent}>
+              {verificationSent ? 'Check your inbox' : 'Send verification email'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><FileText className="w-5 h-5" /> Estimates & Invoices</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {documents.length === 0 ? (
+            <p className="text-sm text-slate-500">No documents yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-200">
+              {documents.map((document) => {
+                const status = DOCUMENT_STATUS[document.status] || { label: document.status, variant: 'default' as const };
+                const reference = documentReference(document);
+                const canSign = document.type === 'ESTIMATE' && document.status === 'SENT';
+                return (
+                  <li key={document.id} className="space-y-3 py-4">
+                    <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                      <div>
+                        <p className="font-semibold text-foreground">
+                          {document.type === 'INVOICE' ? 'Invoice' : 'Estimate'} {reference}
+                        </p>
+                        <p className="text-sm text-slate-600">
+                          {document.currency} {document.total.toFixed(2)} · Issued {formatDate(document.issuedAt)}
+                          {document.type === 'ESTIMATE' && document.validUntil && ` · Valid until ${formatDate(document.validUntil)}`}
+                          {document.type === 'INVOICE' && document.dueDate && ` · Due ${formatDate(document.dueDate)}`}
+                        </p>
+                        {document.signatureName && (
+                          <p className="text-xs text-green-700">Signed by {document.signatureName} on {formatDate(document.signedAt)}</p>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={status.variant} size="sm">{status.label}</Badge>
+                        <Button size="sm" variant="outline" onClick={() => window.open(`${API_URL}/portal/documents/${document.id}/html`, '_blank')}>
+                          View
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => window.open(`${API_URL}/portal/documents/${document.id}/pdf`, '_blank')}>
+                          PDF
+                        </Button>
+                        {canSign && (
+                          <Button size="sm" onClick={() => setSigningId(signingId === document.id ? null : document.id)}>
+                            <PenLine className="w-4 h-4 mr-1" /> Review & Sign
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {canSign && signingId === document.id && (
+                      <EstimateSignature
+                        documentId={document.id}
+                        reference={reference}
+                        defaultName={displayName}
+                        onSigned={handleSigned}
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        <h2 className="flex items-center gap-2 text-xl font-semibold text-foreground"><ClipboardList className="w-5 h-5" /> Quote Requests</h2>
+        {quotes.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-sm text-slate-500">
+              No quote requests yet. <Link href="/get-quote" className="text-blue-600 hover:underline">Request a free quote</Link>.
+            </CardContent>
+          </Card>
+        ) : quotes.map((quote) => {
+          const status = QUOTE_STATUS[quote.status] || { label: quote.status, variant: 'default' as const };
+          return (
+            <Card key={quote.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle>{quote.serviceType}</CardTitle>
+                  <Badge variant={status.variant}>{status.label}</Badge>
+                </div>
+                <CardDescription>Requested {formatDate(quote.createdAt)}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                {quote.message && <p className="whitespace-pre-wrap text-sm text-slate-700">{quote.message}</p>}
+
+                {quote.bookings.length > 0 && (
+                  <div>
+                    <p className="mb-2 flex items-center gap-1 text-xs font-semibold uppercase text-slate-500">
+                      <CalendarDays className="w-4 h-4" /> Appointments
+                    </p>
+                    <ul className="space-y-1 text-sm text-slate-700">
+                      {quote.bookings.map((booking) => (
+                        <li key={booking.id}>
+                          {booking.type === 'SITE_VISIT' ? 'Site visit' : booking.title} · {new Date(booking.startsAt).toLocaleString()}
+                          {booking.address && ` · ${booking.address}`}
+                          {booking.status === 'COMPLETED' && ' · Completed'}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {quote.photos.length > 0 && (
+                  <div>
+                    <p className="mb-2 flex items-center gap-1 text-xs font-semibold uppercase text-slate-500">
+                      <ImageIcon className="w-4 h-4" /> Your Photos
+                    </p>
+                    <div className="grid grid-cols-3 gap-2 md:grid-cols-6">
+                      {quote.photos.map((photo) => (
+                        <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer">
+                          <img src={photo.url} alt={photo.originalName} className="h-20 w-full rounded object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {quote.projectPhotos.length > 0 && (
+                  <div>
+                    <p className="mb-2 text-xs font-semibold uppercase text-slate-500">Before & After</p>
+                    <ProjectPhotoGallery photos={quote.projectPhotos} />
+                  </div>
+                )}
+
+                <div>
+                  <p className="mb-2 flex items-center gap-1 text-xs font-semibold uppercase text-slate-500">
+                    <MessageSquare className="w-4 h-4" /> Conversation
+                  </p>
+                  <EnquiryThread
+                    replies={quote.replies}
+                    viewer="customer"
+                    onSend={(message) => sendReply('quotes', quote.id, message)}
+                    placeholder="Ask a question about this quote"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="flex items-center gap-2 text-xl font-semibold text-foreground"><Mail className="w-5 h-5" /> Messages</h2>
+          {messages.map((item) => (
+            <Card key={item.id}>
+              <CardHeader>
+                <CardTitle>{item.subject || 'Message'}</CardTitle>
+                <CardDescription>Sent {formatDate(item.createdAt)}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="whitespace-pre-wrap text-sm text-slate-700">{item.message}</p>
+                <EnquiryThread
+                  replies={item.replies}
+                  viewer="customer"
+                  onSend={(message) => sendReply('messages', item.id, message)}
+                />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
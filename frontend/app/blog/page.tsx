@@ -325,6 +325,7 @@ function SearchBar() {
                 <form action="/search" className="relative">
                     <input 
                         type="text" 
+                        name="q"
                         placeholder="Search articles..." 
                         className="w-full pl-4 pr-10 py-2 border rounded-lg focus:outline-none focus:border-blue-500"
                     />
@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { CalendarCheck, Loader2 } from 'lucide-react';
+import logger from '@/lib/logger';
+import { getErrorMessage } from '@/lib/error-utils';
+
+interface ConfirmedVisit {
+  label: string;
+  address: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const parseConfirmedVisit = (value: unknown): ConfirmedVisit => {
+  const record = isRecord(value) ? value : {};
+  return {
+    label: typeof record.label === 'string' ? record.label : '',
+    address: typeof record.address === 'string' ? record.address : '',
+  };
+};
+
+function ConfirmSiteVisitContent() {
+  const searchParams = useSearchParams();
+  const [visit, setVisit] = useState<ConfirmedVisit | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+  // The link is single-purpose; do not confirm twice when effects re-run
+  const attemptedRef = useRef(false);
+
+  useEffect(() => {
+    if (attemptedRef.current) return;
+    attemptedRef.current = true;
+
+    const id = searchParams.get('id');
+    const token = searchParams.get('token');
+    if (!id || !token) {
+      setErrorMessage('This confirmation link is incomplete.');
+      return;
+    }
+
+    fetchAPI(`/bookings/site-visit/${encodeURIComponent(id)}/confirm?token=${encodeURIComponent(token)}`, {
+      method: 'POST',
+      redirectOn401: false,
+    })
+      .then((data) => setVisit(parseConfirmedVisit(data)))
+      .catch((err: unknown) => {
+        logger.error('Site visit confirmation failed', err, { component: 'ConfirmSiteVisitPage' });
+        setErrorMessage(getErrorMessage(err, 'This confirmation link is invalid or has expired.'));
+      });
+  }, [searchParams]);
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Site Visit</CardTitle>
+        <CardDescription>
+          {visit
+            ? `Your site visit is confirmed${visit.label ? ` for ${visit.label}` : ''}.`
+            : errorMessage || 'Confirming your site visit...'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!visit && !errorMessage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+        {visit && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CalendarCheck className="h-4 w-4" />
+            {visit.address ? `We will see you at ${visit.address}.` : 'We will see you then.'}
+          </p>
+        )}
+        {errorMessage && (
+          <Link href="/get-quote" className="text-sm text-primary underline">
+            Request a new visit
+          </Link>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ConfirmSiteVisitPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Suspense fallback={
+        <div className="flex flex-col items-center gap-2">
+           <Loader2 className="h-8 w-8 animate-spin text-primary" />
+           <p className="text-muted-foreground">Loading...</p>
+        </div>
+      }>
+        <ConfirmSiteVisitContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Loader2 } from 'lucide-react';
+import logger from '@/lib/logger';
+import { getErrorMessage } from '@/lib/error-utils';
+import { parseSubscriptionConfirmation, type SubscriptionConfirmation } from '@/lib/comment-subscriptions';
+
+function ConfirmSubscriptionContent() {
+  const searchParams = useSearchParams();
+  const [confirmation, setConfirmation] = useState<SubscriptionConfirmation | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+  // The link is single-purpose; do not confirm twice when effects re-run
+  const attemptedRef = useRef(false);
+
+  useEffect(() => {
+    if (attemptedRef.current) return;
+    attemptedRef.current = true;
+
+    const id = searchParams.get('id');
+    const token = searchParams.get('token');
+    if (!id || !token) {
+      setErrorMessage('This confirmation link is incomplete.');
+      return;
+    }
+
+    fetchAPI(`/comments/subscriptions/${encodeURIComponent(id)}/confirm?token=${encodeURIComponent(token)}`, {
+      method: 'POST',
+      redirectOn401: false,
+    })
+      .then((data) => setConfirmation(parseSubscriptionConfirmation(data)))
+      .catch((err: unknown) => {
+        logger.error('Comment subscription confirmation failed', err, { component: 'ConfirmSubscriptionPage' });
+        setErrorMessage(getErrorMessage(err, 'This confirmation link is invalid or has expired.'));
+      });
+  }, [searchParams]);
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Comment Notifications</CardTitle>
+        <CardDescription>
+          {confirmation
+            ? `You're subscribed to ${confirmation.scope === 'thread' ? 'replies in the thread' : 'new comments'} on "${confirmation.postTitle}".`
+            : errorMessage || 'Confirming your subscription...'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!confirmation && !errorMessage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+        {confirmation?.postSlug && (
+          <Link href={`/blog/${confirmation.postSlug}`} className="text-sm text-primary underline">
+            Back to the discussion
+          </Link>
+        )}
+        {confirmation && (
+          <p className="mt-4 text-xs text-muted-foreground">
+            Every email has a link to unsubscribe with one click.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ConfirmSubscriptionPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Suspense fallback={
+        <div className="flex flex-col items-center gap-2">
+           <Loader2 className="h-8 w-8 animate-spin text-primary" />
+           <p className="text-muted-foreground">Loading...</p>
+        </div>
+      }>
+        <ConfirmSubscriptionContent />
+      </Suspense>
+    </div>
+  );
+}
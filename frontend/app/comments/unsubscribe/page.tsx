@@ -0,0 +1,85 @@
+'use client';
+
+import { useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { fetchAPI } from '@/lib/api';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { useToast } from '@/components/ui/Toast';
+import { Loader2 } from 'lucide-react';
+import logger from '@/lib/logger';
+import { getErrorMessage } from '@/lib/error-utils';
+import { parseRemovedCount } from '@/lib/comment-subscriptions';
+
+// A button rather than unsubscribing on load, so link scanners in mail
+// filters cannot unsubscribe people by visiting the page
+function UnsubscribeContent() {
+  const searchParams = useSearchParams();
+  const { error: showError } = useToast();
+  const [pending, setPending] = useState<'one' | 'all' | null>(null);
+  const [done, setDone] = useState<{ all: boolean; removed: number } | null>(null);
+
+  const id = searchParams.get('id');
+  const token = searchParams.get('token');
+
+  const handleUnsubscribe = async (all: boolean) => {
+    if (!id || !token) return;
+    setPending(all ? 'all' : 'one');
+    try {
+      const data = await fetchAPI(
+        `/comments/subscriptions/${encodeURIComponent(id)}/unsubscribe?token=${encodeURIComponent(token)}${all ? '&all=true' : ''}`,
+        { method: 'POST', redirectOn401: false },
+      );
+      setDone({ all, removed: parseRemovedCount(data) });
+    } catch (err: unknown) {
+      logger.error('Comment unsubscribe failed', err, { component: 'UnsubscribePage' });
+      showError(getErrorMessage(err, 'This unsubscribe link is invalid.'));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const description = !id || !token
+    ? 'This unsubscribe link is incomplete.'
+    : done
+      ? done.removed === 0
+        ? 'You were already unsubscribed.'
+        : done.all
+          ? 'You will not get any more comment emails from us.'
+          : 'You will not get any more emails about this discussion.'
+      : 'Stop emails about new comments and replies.';
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Unsubscribe</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      {id && token && !done && (
+        <CardContent className="space-y-3">
+          <Button className="w-full" onClick={() => handleUnsubscribe(false)} isLoading={pending === 'one'} disabled={pending !== null}>
+            Unsubscribe from this discussion
+          </Button>
+          <Button className="w-full" variant="outline" onClick={() => handleUnsubscribe(true)} isLoading={pending === 'all'} disabled={pending !== null}>
+            Unsubscribe from all comment emails
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <Suspense fallback={
+        <div className="flex flex-col items-center gap-2">
+           <Loader2 className="h-8 w-8 animate-spin text-primary" />
+           <p className="text-muted-foreground">Loading...</p>
+        </div>
+      }>
+        <UnsubscribeContent />
+      </Suspense>
+    </div>
+  );
+}
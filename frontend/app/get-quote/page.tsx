@@ -8,44 +8,81 @@ import { Input } from '@/components/ui/Input';
 import { CheckCircle, AlertCircle } from 'lucide-react';
 import logger from '@/lib/logger';
 import { getErrorMessage } from '@/lib/error-utils';
+import { EstimateCalculator } from '@/components/estimate/EstimateCalculator';
+import { SiteVisitPicker } from '@/components/booking/SiteVisitPicker';
+
+const SURFACE_OPTIONS = [
+  { value: 'walls', label: 'Walls' },
+  { value: 'ceilings', label: 'Ceilings' },
+  { value: 'trim', label: 'Trim & Skirting' },
+  { value: 'doors', label: 'Doors' },
+  { value: 'exterior', label: 'Exterior Facade' },
+];
+
+const MAX_PHOTOS = 6;
+
+const EMPTY_FORM = {
+  name: '',
+  email: '',
+  phone: '',
+  serviceType: 'Residential Painting',
+  propertyType: 'Apartment',
+  roomCount: '',
+  areaSqm: '',
+  preferredDate: '',
+  message: ''
+};
 
 export default function GetQuotePage() {
-  const [formData, setFormData] = useState({
-    name: '',
-    email: '',
-    phone: '',
-    serviceType: 'Residential Painting',
-    message: ''
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [surfaces, setSurfaces] = useState<string[]>(['walls']);
+  const [photos, setPhotos] = useState<File[]>([]);
   const [status, setStatus] = useState<'idle' | 'sending' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const [submitted, setSubmitted] = useState<{ id: string; name: string; email: string } | null>(null);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
   };
 
+  const toggleSurface = (value: string) => {
+    setSurfaces((prev) => (prev.includes(value) ? prev.filter((item) => item !== value) : [...prev, value]));
+  };
+
+  const handlePhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files ? Array.from(e.target.files) : [];
+    setPhotos(selected.slice(0, MAX_PHOTOS));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setStatus('sending');
     setErrorMessage('');
 
     try {
-      // Reusing the contact endpoint for now, but bundling the extra info into the message
-      // ideally we'd have a specific /quote endpoint, but this works for the "contact" schema
-      const payload = {
-          name: formData.name,
-          email: formData.email,
-          subject: `Quote Request: ${formData.serviceType}`,
-          message: `Phone: ${formData.phone}\nService: ${formData.serviceType}\n\nDetails:\n${formData.message}`
-      };
-
-      await fetchAPI('/contact', {
+      const payload = new FormData();
+      payload.append('name', formData.name);
+      payload.append('email', formData.email);
+      payload.append('phone', formData.phone);
+      payload.append('serviceType', formData.serviceType);
+      payload.append('propertyType', formData.propertyType);
+      if (formData.roomCount) payload.append('roomCount', formData.roomCount);
+      if (formData.areaSqm) payload.append('areaSqm', formData.areaSqm);
+      payload.append('surfaces', surfaces.join(','));
+      if (formData.preferredDate) payload.append('preferredDates', formData.preferredDate);
+      payload.append('message', formData.message);
+      photos.forEach((photo) => payload.append('photos', photo));
+
+      const data = await fetchAPI<{ id?: string }>('/quotes', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
+        body: payload,
       });
+      const quoteId = typeof data?.id === 'string' ? data.id : '';
+      setSubmitted(quoteId ? { id: quoteId, name: formData.name, email: formData.email } : null);
       setStatus('success');
-      setFormData({ name: '', email: '', phone: '', serviceType: 'Residential Painting', message: '' });
+      setFormData(EMPTY_FORM);
+      setSurfaces(['walls']);
+      setPhotos([]);
     } catch (error: unknown) {
       logger.error('Failed to submit quote request', error, { component: 'GetQuotePage' });
       setStatus('error');
@@ -72,7 +109,12 @@ export default function GetQuotePage() {
               <p className="text-muted-foreground mb-6">
                 Thank you for your interest. One of our painting experts will contact you shortly.
               </p>
-              <Button onClick={() => setStatus('idle')} className="bg-primary hover:bg-primary/90">
+              {submitted && (
+                <div className="mb-6 border-t border-border pt-6">
+                  <SiteVisitPicker quoteRequestId={submitted.id} name={submitted.name} email={submitted.email} />
+                </div>
+              )}
+              <Button onClick={() => { setStatus('idle'); setSubmitted(null); }} className="bg-primary hover:bg-primary/90">
                 Submit Another Request
               </Button>
             </div>
@@ -142,6 +184,93 @@ export default function GetQuotePage() {
                 </select>
               </div>
 
+              <div className="grid md:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                  <label htmlFor="propertyType" className="text-sm font-medium text-foreground">Property Type</label>
+                  <select
+                    id="propertyType"
+                    name="propertyType"
+                    value={formData.propertyType}
+                    onChange={handleChange}
+                    className="flex h-10 w-full rounded-md border border-input bg-input px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    <option value="Apartment">Apartment</option>
+                    <option value="Villa">Villa / House</option>
+                    <option value="Office">Office</option>
+                    <option value="Retail">Shop / Retail</option>
+                    <option value="Other">Other</option>
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="roomCount" className="text-sm font-medium text-foreground">Rooms</label>
+                  <Input
+                    id="roomCount"
+                    name="roomCount"
+                    type="number"
+                    min={1}
+                    placeholder="e.g. 3"
+                    value={formData.roomCount}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="areaSqm" className="text-sm font-medium text-foreground">Area (m²)</label>
+                  <Input
+                    id="areaSqm"
+                    name="areaSqm"
+                    type="number"
+                    min={1}
+                    step="0.1"
+                    placeholder="e.g. 120"
+                    value={formData.areaSqm}
+                    onChange={handleChange}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <span className="text-sm font-medium text-foreground">Surfaces to Paint</span>
+                <div className="flex flex-wrap gap-3">
+                  {SURFACE_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center gap-2 text-sm text-foreground">
+                      <input
+                        type="checkbox"
+                        checked={surfaces.includes(option.value)}
+                        onChange={() => toggleSurface(option.value)}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <label htmlFor="preferredDate" className="text-sm font-medium text-foreground">Preferred Start Date</label>
+                  <Input
+                    id="preferredDate"
+                    name="preferredDate"
+                    type="date"
+                    value={formData.preferredDate}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label htmlFor="photos" className="text-sm font-medium text-foreground">Photos (optional, up to {MAX_PHOTOS})</label>
+                  <Input
+                    id="photos"
+                    name="photos"
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={handlePhotos}
+                  />
+                  {photos.length > 0 && (
+                    <p className="text-xs text-muted-foreground">{photos.length} photo(s) selected</p>
+                  )}
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <label htmlFor="message" className="text-sm font-medium text-foreground">Project Details</label>
                 <textarea 
@@ -152,7 +281,6 @@ export default function GetQuotePage() {
                   value={formData.message} 
                   onChange={handleChange}
                   className="flex min-h-[80px] w-full rounded-md border border-input bg-input px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                  required
                 />
               </div>
 
@@ -163,6 +291,18 @@ export default function GetQuotePage() {
           )}
         </CardContent>
       </Card>
+
+      <Card className="mt-8 shadow-lg border-border">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-foreground">Instant Estimate</CardTitle>
+          <CardDescription>
+            Enter your wall measurements for a ballpark price. Your final quote is confirmed after a site visit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-8 pt-0">
+          <EstimateCalculator />
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,167 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, CalendarDays, Clock, Home, MapPin, Paintbrush, Quote } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { SafeHtml } from '@/components/SafeHtml';
+import { BeforeAfterSlider } from '@/components/projects/BeforeAfterSlider';
+import { API_URL } from '@/lib/api';
+import logger from '@/lib/logger';
+import { parseProject, type Project } from '@/lib/projects';
+
+async function getProject(slug: string): Promise<Project | null> {
+  try {
+    const res = await fetch(`${API_URL}/projects/slug/${encodeURIComponent(slug)}`, {
+      next: { revalidate: 120 } // Cache for 2 minutes
+    });
+    if (!res.ok) return null;
+    return parseProject(await res.json());
+  } catch (error) {
+    logger.error('Failed to load project', error, { component: 'ProjectPage' });
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }): Promise<Metadata> {
+  const { slug } = await params;
+  const project = await getProject(slug);
+  if (!project) return { title: 'Not Found' };
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+  const cover = project.imagePairs[0]?.after.url;
+  const description = project.seoDescription || project.summary || undefined;
+
+  return {
+    title: project.seoTitle || project.title,
+    description,
+    alternates: { canonical: `${siteUrl}/projects/${project.slug}` },
+    openGraph: {
+      title: project.seoTitle || project.title,
+      description,
+      url: `${siteUrl}/projects/${project.slug}`,
+      siteName: 'Wall Painting Services',
+      images: cover ? [{ url: cover, alt: project.title }] : [],
+      type: 'article',
+    },
+  };
+}
+
+export default async function ProjectPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const project = await getProject(slug);
+  if (!project) {
+    notFound();
+  }
+
+  const facts = [
+    { icon: MapPin, label: 'Location', value: project.location },
+    { icon: Paintbrush, label: 'Service', value: project.serviceType },
+    { icon: Home, label: 'Property', value: project.propertyType },
+    {
+      icon: Clock,
+      label: 'Duration',
+      value: project.durationDays ? `${project.durationDays} day${project.durationDays === 1 ? '' : 's'}` : '',
+    },
+    {
+      icon: CalendarDays,
+      label: 'Completed',
+      value: project.completedAt ? new Date(project.completedAt).toLocaleDateString(undefined, { month: 'long', year: 'numeric' }) : '',
+    },
+  ].filter((fact) => fact.value);
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <Link href="/projects" className="mb-6 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary">
+        <ArrowLeft className="h-4 w-4" /> All projects
+      </Link>
+
+      <header className="mb-8 max-w-3xl">
+        <h1 className="text-4xl font-bold text-foreground mb-3">{project.title}</h1>
+        {project.summary && <p className="text-xl text-muted-foreground">{project.summary}</p>}
+      </header>
+
+      <div className="grid gap-10 lg:grid-cols-3">
+        <div className="space-y-8 lg:col-span-2">
+          {project.imagePairs.length > 0 ? (
+            <div className="grid gap-6">
+              {project.imagePairs.map((pair) => (
+                <BeforeAfterSlider key={pair.id || pair.before.id} pair={pair} />
+              ))}
+            </div>
+          ) : (
+            <div className="bg-muted border border-dashed rounded-xl p-12 text-center text-muted-foreground">
+              Photos coming soon.
+            </div>
+          )}
+
+          {project.description && (
+            <SafeHtml html={project.description} as="div" className="prose max-w-none dark:prose-invert" />
+          )}
+
+          {project.customerQuote && (
+            <blockquote className="rounded-xl border border-border bg-card p-6">
+              <Quote className="mb-3 h-6 w-6 text-primary" />
+              <p className="text-lg italic text-foreground">{project.customerQuote}</p>
+              {project.customerName && (
+                <footer className="mt-3 text-sm font-medium text-muted-foreground">— {project.customerName}</footer>
+              )}
+            </blockquote>
+          )}
+        </div>
+
+        <aside className="space-y-6">
+          {facts.length > 0 && (
+            <dl className="space-y-4 rounded-xl border border-border bg-card p-6">
+              {facts.map(({ icon: Icon, label, value }) => (
+                <div key={label} className="flex items-start gap-3">
+                  <Icon className="mt-0.5 h-5 w-5 text-primary" />
+                  <div>
+                    <dt className="text-xs font-semibold uppercase text-muted-foreground">{label}</dt>
+                    <dd className="text-foreground">{value}</dd>
+                  </div>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          {(project.coloursUsed.length > 0 || project.paintBrands.length > 0) && (
+            <div className="space-y-4 rounded-xl border border-border bg-card p-6">
+              {project.coloursUsed.length > 0 && (
+                <div>
+                  <h2 className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Colours used</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {project.coloursUsed.map((colour) => (
+                      <Link key={colour} href={`/projects?colour=${encodeURIComponent(colour)}`} className="rounded-full bg-muted px-3 py-1 text-sm hover:bg-primary/10">
+                        {colour}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {project.paintBrands.length > 0 && (
+                <div>
+                  <h2 className="mb-2 text-xs font-semibold uppercase text-muted-foreground">Paint brands</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {project.paintBrands.map((brand) => (
+                      <Link key={brand} href={`/projects?brand=${encodeURIComponent(brand)}`} className="rounded-full bg-muted px-3 py-1 text-sm hover:bg-primary/10">
+                        {brand}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="rounded-xl bg-sidebar p-6 text-center text-sidebar-foreground shadow-lg border border-border">
+            <h2 className="font-bold text-xl mb-2">Want a result like this?</h2>
+            <p className="mb-4 text-sm text-muted-foreground">Tell us about your job and we will send you an estimate.</p>
+            <Link href="/get-quote">
+              <Button className="w-full">Get a Quote</Button>
+            </Link>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
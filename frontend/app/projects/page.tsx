@@ -0,0 +1,152 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { ProjectCard } from '@/components/projects/ProjectCard';
+import { API_URL } from '@/lib/api';
+import logger from '@/lib/logger';
+import {
+  PROJECT_FILTER_KEYS,
+  parseProjectFilters,
+  parseProjectList,
+  type ProjectFilterOptions,
+  type ProjectListResult,
+} from '@/lib/projects';
+
+type ProjectsSearchParams = Partial<Record<(typeof PROJECT_FILTER_KEYS)[number] | 'page', string>>;
+
+const PAGE_SIZE = 12;
+
+export const metadata: Metadata = {
+  title: 'Our Projects',
+  description: 'Before and after photos of painting jobs we have completed, with the colours and paints used.',
+  alternates: { canonical: '/projects' },
+};
+
+async function getProjects(params: URLSearchParams): Promise<ProjectListResult> {
+  try {
+    const res = await fetch(`${API_URL}/projects?${params.toString()}`, {
+      next: { revalidate: 120 } // Cache for 2 minutes
+    });
+    if (!res.ok) return parseProjectList([]);
+    return parseProjectList(await res.json());
+  } catch (error) {
+    logger.error('Failed to load projects', error, { component: 'ProjectsPage' });
+    return parseProjectList([]);
+  }
+}
+
+async function getFilters(): Promise<ProjectFilterOptions> {
+  try {
+    const res = await fetch(`${API_URL}/projects/filters`, {
+      next: { revalidate: 300 } // Cache for 5 minutes
+    });
+    if (!res.ok) return parseProjectFilters(null);
+    return parseProjectFilters(await res.json());
+  } catch (error) {
+    logger.error('Failed to load project filters', error, { component: 'ProjectsPage' });
+    return parseProjectFilters(null);
+  }
+}
+
+function FilterSelect({ name, label, options, value }: { name: string; label: string; options: string[]; value?: string }) {
+  if (options.length === 0) return null;
+  return (
+    <label className="flex flex-col gap-1 text-sm">
+      <span className="font-medium text-foreground">{label}</span>
+      <select
+        name={name}
+        defaultValue={value || ''}
+        className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+      >
+        <option value="">All</option>
+        {options.map((option) => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export default async function ProjectsPage({ searchParams }: { searchParams: Promise<ProjectsSearchParams> }) {
+  const filters = await searchParams;
+  const parsedPage = filters.page ? Number.parseInt(filters.page, 10) : 1;
+  const page = Number.isFinite(parsedPage) && parsedPage > 0 ? parsedPage : 1;
+
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), page: String(page) });
+  for (const key of PROJECT_FILTER_KEYS) {
+    const value = filters[key]?.trim();
+    if (value) params.set(key, value);
+  }
+
+  const [{ projects, totalPages, total }, options] = await Promise.all([getProjects(params), getFilters()]);
+  const hasFilters = PROJECT_FILTER_KEYS.some((key) => filters[key]);
+
+  const buildPageLink = (pageNumber: number) => {
+    const linkParams = new URLSearchParams();
+    for (const key of PROJECT_FILTER_KEYS) {
+      const value = filters[key];
+      if (value) linkParams.set(key, value);
+    }
+    if (pageNumber > 1) linkParams.set('page', pageNumber.toString());
+    const query = linkParams.toString();
+    return query ? `/projects?${query}` : '/projects';
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <div className="mb-10 text-center max-w-3xl mx-auto">
+        <h1 className="text-4xl font-bold text-foreground mb-4">Our Projects</h1>
+        <p className="text-xl text-muted-foreground">
+          Real homes and businesses we have painted. Drag through the before and after photos to see the difference.
+        </p>
+      </div>
+
+      <form action="/projects" className="mb-10 grid gap-4 rounded-xl border border-border bg-card p-4 md:grid-cols-5 md:items-end">
+        <FilterSelect name="serviceType" label="Service" options={options.serviceTypes} value={filters.serviceType} />
+        <FilterSelect name="location" label="Location" options={options.locations} value={filters.location} />
+        <FilterSelect name="colour" label="Colour" options={options.colours} value={filters.colour} />
+        <FilterSelect name="brand" label="Paint brand" options={options.brands} value={filters.brand} />
+        <div className="flex gap-2">
+          <Button type="submit" className="flex-1">Filter</Button>
+          {hasFilters && (
+            <Link href="/projects">
+              <Button type="button" variant="outline">Clear</Button>
+            </Link>
+          )}
+        </div>
+      </form>
+
+      {projects.length > 0 ? (
+        <>
+          <p className="mb-4 text-sm text-muted-foreground">{total} project{total === 1 ? '' : 's'}</p>
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {projects.map((project) => (
+              <ProjectCard key={project.id} project={project} />
+            ))}
+          </div>
+          {totalPages > 1 && (
+            <div className="mt-10 flex items-center justify-between border-t border-border pt-6">
+              <div className="text-sm text-muted-foreground">Page {page} of {totalPages}</div>
+              <div className="flex items-center gap-2">
+                {page > 1 ? (
+                  <Link href={buildPageLink(page - 1)}><Button variant="outline">Previous</Button></Link>
+                ) : (
+                  <Button variant="outline" disabled>Previous</Button>
+                )}
+                {page < totalPages ? (
+                  <Link href={buildPageLink(page + 1)}><Button>Next</Button></Link>
+                ) : (
+                  <Button disabled>Next</Button>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="bg-muted border border-dashed rounded-xl p-12 text-center text-muted-foreground">
+          <p className="text-lg">{hasFilters ? 'No projects match these filters.' : 'No projects published yet.'}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { FileText, Folder, Search, Tag, User, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { SafeHtml } from '@/components/SafeHtml';
+import { API_URL } from '@/lib/api';
+import logger from '@/lib/logger';
+
+type SearchType = 'all' | 'posts' | 'pages' | 'categories' | 'tags';
+
+type SearchPageParams = {
+  q?: string;
+  type?: string;
+  category?: string;
+  tag?: string;
+  author?: string;
+  page?: string;
+};
+
+type PostHit = {
+  id: string;
+  url: string;
+  titleHighlight: string;
+  snippet: string;
+  publishedAt: string | null;
+  author: string;
+  categories: string[];
+};
+
+type PageHit = { id: string; url: string; titleHighlight: string; snippet: string };
+
+type TermHit = { id: string; url: string; name: string; postCount: number };
+
+type FacetValue = { value: string; label: string; count: number };
+
+type SearchResults = {
+  posts: { total: number; totalPages: number; items: PostHit[] };
+  pages: { total: number; items: PageHit[] };
+  categories: TermHit[];
+  tags: TermHit[];
+  facets: { categories: FacetValue[]; tags: FacetValue[]; authors: FacetValue[] };
+  suggestion: string | null;
+};
+
+const SEARCH_TABS: Array<{ value: SearchType; label: string }> = [
+  { value: 'all', label: 'Everything' },
+  { value: 'posts', label: 'Articles' },
+  { value: 'pages', label: 'Pages' },
+  { value: 'categories', label: 'Categories' },
+  { value: 'tags', label: 'Tags' },
+];
+
+const FILTER_KEYS = ['category', 'tag', 'author'] as const;
+
+export const metadata: Metadata = {
+  title: 'Search',
+  robots: { index: false, follow: true },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const readItems = (value: unknown): Record<string, unknown>[] => (
+  isRecord(value) && Array.isArray(value.items) ? value.items.filter(isRecord) : []
+);
+
+const parseFacet = (value: unknown): FacetValue[] => (
+  Array.isArray(value)
+    ? value.filter(isRecord).map((item) => ({
+        value: readString(item.value),
+        label: readString(item.label) || readString(item.value),
+        count: readNumber(item.count),
+      })).filter((item) => item.value)
+    : []
+);
+
+const parseTermHits = (value: unknown): TermHit[] => readItems(value).map((item) => ({
+  id: readString(item.id),
+  url: readString(item.url),
+  name: readString(item.name),
+  postCount: readNumber(item.postCount),
+}));
+
+function parseResults(value: unknown): SearchResults {
+  const data = isRecord(value) ? value : {};
+  const posts = isRecord(data.posts) ? data.posts : {};
+  const pages = isRecord(data.pages) ? data.pages : {};
+  const facets = isRecord(data.facets) ? data.facets : {};
+  return {
+    posts: {
+      total: readNumber(posts.total),
+      totalPages: readNumber(posts.totalPages),
+      items: readItems(posts).map((item) => {
+        const author = isRecord(item.author) ? item.author : {};
+        return {
+          id: readString(item.id),
+          url: readString(item.url),
+          titleHighlight: readString(item.titleHighlight) || readString(item.title),
+          snippet: readString(item.snippet),
+          publishedAt: readString(item.publishedAt) || null,
+          author: readString(author.displayName) || readString(author.username),
+          categories: Array.isArray(item.categories)
+            ? item.categories.filter(isRecord).map((category) => readString(category.name)).filter(Boolean)
+            : [],
+        };
+      }),
+    },
+    pages: {
+      total: readNumber(pages.total),
+      items: readItems(pages).map((item) => ({
+        id: readString(item.id),
+        url: readString(item.url),
+        titleHighlight: readString(item.titleHighlight) || readString(item.title),
+        snippet: readString(item.snippet),
+      })),
+    },
+    categories: parseTermHits(data.categories),
+    tags: parseTermHits(data.tags),
+    facets: {
+      categories: parseFacet(facets.categories),
+      tags: parseFacet(facets.tags),
+      authors: parseFacet(facets.authors),
+    },
+    suggestion: readString(data.suggestion) || null,
+  };
+}
+
+async function runSearch(params: URLSearchParams): Promise<SearchResults> {
+  try {
+    const res = await fetch(`${API_URL}/search?${params.toString()}`, {
+      next: { revalidate: 60 } // Cache for 1 minute
+    });
+    if (!res.ok) return parseResults(null);
+    return parseResults(await res.json());
+  } catch (error) {
+    logger.error('Search request failed', error, { component: 'SearchPage' });
+    return parseResults(null);
+  }
+}
+
+export default async function SearchPage({ searchParams }: { searchParams: Promise<SearchPageParams> }) {
+  const current = await searchParams;
+  const term = (current.q || '').trim();
+  const type = SEARCH_TABS.find((tab) => tab.value === current.type)?.value ?? 'all';
+  const parsedPage = current.page ? Number.parseInt(current.page, 10) : 1;
+  const page = Number.isFinite(parsedPage) && parsedPage > 0 ? parsedPage : 1;
+
+  const buildHref = (changes: Partial<Record<keyof SearchPageParams, string | null>>) => {
+    const next = new URLSearchParams();
+    const merged: Partial<Record<keyof SearchPageParams, string | null>> = { ...current, page: null, ...changes };
+    for (const [key, value] of Object.entries(merged)) {
+      if (value && !(key === 'type' && value === 'all')) next.set(key, value);
+    }
+    const query = next.toString();
+    return query ? `/search?${query}` : '/search';
+  };
+
+  const apiParams = new URLSearchParams({ q: term, type, page: String(page) });
+  for (const key of FILTER_KEYS) {
+    if (current[key]) apiParams.set(key, current[key] as string);
+  }
+  const results = term.length >= 2 ? await runSearch(apiParams) : null;
+  const activeFilters = FILTER_KEYS.filter((key) => current[key]);
+  const hasFacets = results && (results.facets.categories.length + results.facets.tags.length + results.facets.authors.length) > 0;
+
+  const facetGroups: Array<{ key: (typeof FILTER_KEYS)[number]; label: string; values: FacetValue[] }> = results
+    ? [
+        { key: 'category', label: 'Category', values: results.facets.categories },
+        { key: 'tag', label: 'Tag', values: results.facets.tags },
+        { key: 'author', label: 'Author', values: results.facets.authors },
+      ]
+    : [];
+
+  const totalFound = results
+    ? results.posts.total + results.pages.total + results.categories.length + results.tags.length
+    : 0;
+
+  return (
+    <div className="container mx-auto px-4 py-12">
+      <div className="mx-auto mb-8 max-w-3xl">
+        <h1 className="text-4xl font-bold text-foreground mb-6 text-center">Search</h1>
+        <form action="/search" className="relative">
+          <input
+            type="search"
+            name="q"
+            defaultValue={term}
+            placeholder="Search articles, pages and topics..."
+            className="w-full rounded-xl border border-input bg-background py-3 pl-4 pr-12 text-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            autoFocus={!term}
+          />
+          {type !== 'all' && <input type="hidden" name="type" value={type} />}
+          <button type="submit" className="absolute right-3 top-3.5 text-muted-foreground hover:text-primary" aria-label="Search">
+            <Search className="h-5 w-5" />
+          </button>
+        </form>
+      </div>
+
+      {term && (
+        <div className="mx-auto mb-8 flex max-w-5xl flex-wrap justify-center gap-2">
+          {SEARCH_TABS.map((tab) => (
+            <Link
+              key={tab.value}
+              href={buildHref({ type: tab.value })}
+              className={`rounded-full px-4 py-1.5 text-sm font-medium ${
+                tab.value === type ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {tab.label}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {!term ? (
+        <p className="text-center text-muted-foreground">Type at least two characters to search.</p>
+      ) : !results ? (
+        <p className="text-center text-muted-foreground">Keep typing — search needs at least two characters.</p>
+      ) : (
+        <div className={`mx-auto grid max-w-5xl gap-8 ${hasFacets ? 'lg:grid-cols-[1fr_16rem]' : ''}`}>
+          <div className="space-y-10">
+            {activeFilters.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {activeFilters.map((key) => (
+                  <Link key={key} href={buildHref({ [key]: null })} className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-3 py-1 text-sm text-primary">
+                    {key}: {current[key]} <X className="h-3 w-3" />
+                  </Link>
+                ))}
+              </div>
+            )}
+
+            {totalFound === 0 && (
+              <div className="bg-muted border border-dashed rounded-xl p-12 text-center text-muted-foreground">
+                <p className="text-lg">No results for &ldquo;{term}&rdquo;.</p>
+                {results.suggestion && (
+                  <p className="mt-2">
+                    Did you mean{' '}
+                    <Link href={buildHref({ q: results.suggestion, category: null, tag: null, author: null })} className="font-medium text-primary hover:underline">
+                      {results.suggestion}
+                    </Link>
+                    ?
+                  </p>
+                )}
+              </div>
+            )}
+
+            {(results.categories.length > 0 || results.tags.length > 0) && (
+              <section className="flex flex-wrap gap-2">
+                {results.categories.map((category) => (
+                  <Link key={category.id} href={category.url} className="inline-flex items-center gap-1 rounded-full border border-border px-3 py-1 text-sm hover:border-primary">
+                    <Folder className="h-3.5 w-3.5" /> {category.name}
+                    <span className="text-xs text-muted-foreground">({category.postCount})</span>
+                  </Link>
+                ))}
+                {results.tags.map((tag) => (
+                  <Link key={tag.id} href={tag.url} className="inline-flex items-center gap-1 rounded-full border border-border px-3 py-1 text-sm hover:border-primary">
+                    <Tag className="h-3.5 w-3.5" /> {tag.name}
+                    <span className="text-xs text-muted-foreground">({tag.postCount})</span>
+                  </Link>
+                ))}
+              </section>
+            )}
+
+            {results.pages.items.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-sm font-semibold uppercase text-muted-foreground">Pages</h2>
+                {results.pages.items.map((hit) => (
+                  <Link key={hit.id} href={hit.url} className="block rounded-xl border border-border bg-card p-4 hover:shadow-elevation-2">
+                    <SafeHtml html={hit.titleHighlight} as="h3" className="font-semibold text-foreground" />
+                    {hit.snippet && <SafeHtml html={hit.snippet} as="p" className="mt-1 text-sm text-muted-foreground" />}
+                  </Link>
+                ))}
+              </section>
+            )}
+
+            {results.posts.items.length > 0 && (
+              <section className="space-y-4">
+                <h2 className="text-sm font-semibold uppercase text-muted-foreground">
+                  Articles ({results.posts.total})
+                </h2>
+                {results.posts.items.map((hit) => (
+                  <article key={hit.id} className="rounded-xl border border-border bg-card p-6 shadow-elevation-1">
+                    <Link href={hit.url} className="group block">
+                      <SafeHtml html={hit.titleHighlight} as="h3" className="text-xl font-bold text-foreground group-hover:text-primary" />
+                    </Link>
+                    {hit.snippet && <SafeHtml html={hit.snippet} as="p" className="mt-2 text-muted-foreground leading-relaxed" />}
+                    <div className="mt-3 flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                      {hit.author && <span className="flex items-center gap-1"><User className="h-3.5 w-3.5" /> {hit.author}</span>}
+                      {hit.publishedAt && <span>{new Date(hit.publishedAt).toLocaleDateString()}</span>}
+                      {hit.categories.length > 0 && (
+                        <span className="flex items-center gap-1"><FileText className="h-3.5 w-3.5" /> {hit.categories.join(', ')}</span>
+                      )}
+                    </div>
+                  </article>
+                ))}
+                {results.posts.totalPages > 1 && (
+                  <div className="flex items-center justify-between border-t border-border pt-6">
+                    <div className="text-sm text-muted-foreground">Page {page} of {results.posts.totalPages}</div>
+                    <div className="flex items-center gap-2">
+                      {page > 1 ? (
+                        <Link href={buildHref({ page: String(page - 1) })}><Button variant="outline">Previous</Button></Link>
+                      ) : (
+                        <Button variant="outline" disabled>Previous</Button>
+                      )}
+                      {page < results.posts.totalPages ? (
+                        <Link href={buildHref({ page: String(page + 1) })}><Button>Next</Button></Link>
+                      ) : (
+                        <Button disabled>Next</Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </section>
+            )}
+          </div>
+
+          {hasFacets && (
+            <aside className="space-y-6">
+              {facetGroups.filter((group) => group.values.length > 0).map((group) => (
+                <div key={group.key} className="rounded-xl border border-border bg-card p-4">
+                  <h2 className="mb-3 text-xs font-semibold uppercase text-muted-foreground">{group.label}</h2>
+                  <ul className="space-y-1.5 text-sm">
+                    {group.values.map((facet) => {
+                      const active = current[group.key] === facet.value;
+                      return (
+                        <li key={facet.value}>
+                          <Link
+                            href={buildHref({ [group.key]: active ? null : facet.value })}
+                            className={`flex justify-between gap-2 hover:text-primary ${active ? 'font-semibold text-primary' : 'text-foreground'}`}
+                          >
+                            <span className="truncate">{facet.label}</span>
+                            <span className="text-muted-foreground">{facet.count}</span>
+                          </Link>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </aside>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
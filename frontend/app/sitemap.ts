@@ -28,6 +28,13 @@ type SitemapPage = {
   pageType?: string;
 };
 
+type SitemapProject = {
+  slug: string;
+  updatedAt?: string;
+  publishedAt?: string;
+  featured?: boolean;
+};
+
 const isRecord = (value: unknown): value is Record<string, unknown> => (
   value !== null && typeof value === 'object' && !Array.isArray(value)
 );
@@ -91,6 +98,16 @@ const toPage = (value: unknown): SitemapPage | null => {
   };
 };
 
+const toProject = (value: unknown): SitemapProject | null => {
+  if (!isRecord(value) || typeof value.slug !== 'string') return null;
+  return {
+    slug: value.slug,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : undefined,
+    publishedAt: typeof value.publishedAt === 'string' ? value.publishedAt : undefined,
+    featured: value.featured === true,
+  };
+};
+
 async function getPosts(): Promise<unknown[]> {
   try {
     const res = await fetch(`${API_URL}/blog?status=PUBLISHED&take=1000`, {
@@ -140,6 +157,26 @@ async function getPages(): Promise<unknown[]> {
   }
 }
 
+// The public project listing is paginated (48 per page max)
+async function getProjects(): Promise<unknown[]> {
+  const projects: unknown[] = [];
+  try {
+    for (let page = 1; page <= 20; page += 1) {
+      const res = await fetch(`${API_URL}/projects?limit=48&page=${page}`, {
+        next: { revalidate: 3600 }
+      });
+      if (!res.ok) break;
+      const data: unknown = await res.json();
+      projects.push(...normalizeList(data));
+      const totalPages = isRecord(data) && typeof data.totalPages === 'number' ? data.totalPages : 1;
+      if (page >= totalPages) break;
+    }
+  } catch {
+    return projects;
+  }
+  return projects;
+}
+
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
   
@@ -147,6 +184,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const categories = (await getCategories()).map(toCategory).filter((category): category is SitemapCategory => category !== null);
   const tags = (await getTags()).map(toTag).filter((tag): tag is SitemapTag => tag !== null);
   const pages = (await getPages()).map(toPage).filter((page): page is SitemapPage => page !== null);
+  const projects = (await getProjects()).map(toProject).filter((project): project is SitemapProject => project !== null);
 
   // Static routes
   const routes: MetadataRoute.Sitemap = [
@@ -168,6 +206,12 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: 'monthly',
       priority: 0.8,
     },
+    {
+      url: `${siteUrl}/projects`,
+      lastModified: new Date(),
+      changeFrequency: 'weekly',
+      priority: 0.8,
+    },
   ];
 
   // Blog posts
@@ -204,5 +248,13 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       priority: page.pageType === 'HOMEPAGE' || page.pageType === 'LANDING' ? 0.9 : 0.7,
     }));
 
-  return [...routes, ...postUrls, ...categoryUrls, ...tagUrls, ...pageUrls];
+  // Portfolio projects
+  const projectUrls: MetadataRoute.Sitemap = projects.map((project) => ({
+    url: `${siteUrl}/projects/${project.slug}`,
+    lastModified: new Date(project.updatedAt || project.publishedAt || Date.now()),
+    changeFrequency: 'monthly' as const,
+    priority: project.featured ? 0.8 : 0.7,
+  }));
+
+  return [...routes, ...postUrls, ...categoryUrls, ...tagUrls, ...pageUrls, ...projectUrls];
 }
@@ -32,7 +32,15 @@ import {
   Palette,
   Menu as MenuIcon,
   Layout,
-  Phone
+  Phone,
+  ClipboardList,
+  Calculator,
+  Receipt,
+  CalendarDays,
+  GalleryHorizontal,
+  ListChecks,
+  ClipboardCheck,
+  History
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import { useState, createContext, useContext, useEffect } from 'react';
@@ -78,11 +86,19 @@ const navigation: NavItem[] = [
       { name: 'Add New Page', href: '/dashboard/pages/new/edit', icon: Plus },
     ]
   },
+  { name: 'Quotes', href: '/dashboard/quotes', icon: ClipboardList, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
+  { name: 'Estimates', href: '/dashboard/estimates', icon: Calculator, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
+  { name: 'Documents', href: '/dashboard/documents', icon: Receipt, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
+  { name: 'Bookings', href: '/dashboard/bookings', icon: CalendarDays, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
+  { name: 'Projects', href: '/dashboard/projects', icon: GalleryHorizontal, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
   { name: 'Comments', href: '/dashboard/comments', icon: MessageSquare },
   { name: 'Comms Hub', href: '/dashboard/notifications', icon: Bell, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
   { name: 'Distribution', href: '/dashboard/distribution', icon: Share2 },
   { name: 'Cron Jobs', href: '/dashboard/cron-jobs', icon: Clock, roles: ['ADMINISTRATOR', 'SUPER_ADMIN'] },
+  { name: 'Job Queue', href: '/dashboard/queue', icon: ListChecks, roles: ['ADMINISTRATOR', 'SUPER_ADMIN'] },
   { name: 'AI Content', href: '/dashboard/ai', icon: Sparkles, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
+  { name: 'AI Review', href: '/dashboard/review', icon: ClipboardCheck, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
+  { name: 'Content Refresh', href: '/dashboard/refresh', icon: History, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
   { name: 'SEO Management', href: '/dashboard/seo', icon: Search, roles: ['ADMINISTRATOR', 'SUPER_ADMIN', 'EDITOR'] },
   { 
     name: 'Appearance', 
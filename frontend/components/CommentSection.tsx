@@ -6,6 +6,18 @@ import { useToast } from '@/components/ui/Toast';
 import { ThumbsUp, ThumbsDown, Flag, CornerDownRight } from 'lucide-react';
 import logger from '@/lib/logger';
 import { getErrorMessage } from '@/lib/error-utils';
+import {
+  DEFAULT_COMMENT_REACTIONS,
+  parseCommentEngagement,
+  parseReactionSettings,
+  type CommentEngagement,
+  type VoteDirection,
+} from '@/lib/comment-engagement';
+import {
+  SUBSCRIPTION_FREQUENCIES,
+  parseSubscribeStatus,
+  type SubscriptionFrequency,
+} from '@/lib/comment-subscriptions';
 
 type CommentUser = {
   displayName?: string;
@@ -19,22 +31,52 @@ type Comment = {
   content?: string;
   upvotes?: number;
   downvotes?: number;
+  reactions?: Record<string, number> | null;
+  viewerVote?: VoteDirection;
+  viewerReactions?: string[];
   replies?: Comment[];
 };
 
+/** Apply a vote or reaction response to the comment it belongs to, wherever it sits in the thread */
+const withEngagement = (comments: Comment[], id: string, engagement: CommentEngagement): Comment[] => (
+  comments.map((comment) => (
+    comment.id === id
+      ? { ...comment, ...engagement }
+      : { ...comment, replies: comment.replies ? withEngagement(comment.replies, id, engagement) : comment.replies }
+  ))
+);
+
 export default function CommentSection({ postId }: { postId: string }) {
-  const { error: showError } = useToast();
+  const { success, error: showError } = useToast();
   const [comments, setComments] = useState<Comment[]>([]);
   const [form, setForm] = useState({ name: '', email: '', content: '', parentId: '' });
   const [loading, setLoading] = useState(false);
   const errorShownRef = useRef<string | null>(null);
   const [replyTo, setReplyTo] = useState<string | null>(null);
   const [busyId, setBusyId] = useState<string | null>(null);
+  const [reactionSet, setReactionSet] = useState<string[]>(DEFAULT_COMMENT_REACTIONS);
+  // Spam filter inputs: a field people never see, and when the form was loaded
+  const [honeypot, setHoneypot] = useState('');
+  const [formToken, setFormToken] = useState('');
+  const [notifyReplies, setNotifyReplies] = useState(false);
+  const [followEmail, setFollowEmail] = useState('');
+  const [followFrequency, setFollowFrequency] = useState<SubscriptionFrequency>('INSTANT');
+  const [following, setFollowing] = useState(false);
 
   useEffect(() => {
     loadComments();
   }, [postId]);
 
+  useEffect(() => {
+    loadFormToken();
+  }, []);
+
+  useEffect(() => {
+    fetchAPI('/comments/reactions')
+      .then((data) => setReactionSet(parseReactionSettings(data).reactions))
+      .catch((e: unknown) => logger.error('Failed to load comment reactions', e, { component: 'CommentSection' }));
+  }, []);
+
   async function loadComments() {
     try {
       errorShownRef.current = null; // Reset error tracking on new load
@@ -51,6 +93,15 @@ export default function CommentSection({ postId }: { postId: string }) {
     }
   }
 
+  async function loadFormToken() {
+    try {
+      const data = await fetchAPI<{ token?: string }>('/comments/form-token', { cache: 'no-store' });
+      setFormToken(typeof data?.token === 'string' ? data.token : '');
+    } catch (e: unknown) {
+      logger.error('Failed to load comment form token', e, { component: 'CommentSection' });
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setLoading(true);
@@ -58,10 +109,20 @@ export default function CommentSection({ postId }: { postId: string }) {
       await fetchAPI('/comments', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ...form, postId, parentId: replyTo || undefined })
+        body: JSON.stringify({
+          postId,
+          content: form.content,
+          authorName: form.name,
+          authorEmail: form.email,
+          parentId: replyTo || undefined,
+          honeypot: honeypot || undefined,
+          formToken: formToken || undefined,
+          subscribe: notifyReplies || undefined,
+        })
       });
       setForm({ name: '', email: '', content: '', parentId: '' });
       setReplyTo(null);
+      loadFormToken();
       errorShownRef.current = null; // Reset on success
       loadComments();
     } catch (e: unknown) {
@@ -76,15 +137,37 @@ export default function CommentSection({ postId }: { postId: string }) {
     }
   }
 
-  const handleVote = async (id: string, type: 'up' | 'down') => {
+  // Signed-in readers are subscribed at their account address; the email field is for guests
+  async function handleFollow(e: React.FormEvent) {
+    e.preventDefault();
+    setFollowing(true);
+    try {
+      const data = await fetchAPI('/comments/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ postId, email: followEmail || undefined, frequency: followFrequency }),
+      });
+      success(parseSubscribeStatus(data) === 'subscribed'
+        ? 'You will be emailed about new comments'
+        : 'Check your inbox to confirm your subscription');
+      setFollowEmail('');
+    } catch (e: unknown) {
+      showError(getErrorMessage(e, 'Failed to subscribe'));
+    } finally {
+      setFollowing(false);
+    }
+  }
+
+  // Voting the same way again withdraws the vote
+  const handleVote = async (id: string, direction: Exclude<VoteDirection, 'none'>) => {
     setBusyId(id);
     try {
-      await fetchAPI(`/comments/${id}/vote`, {
+      const data = await fetchAPI(`/comments/${id}/vote`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(type === 'up' ? { up: true } : { down: true }),
+        body: JSON.stringify({ direction }),
       });
-      loadComments();
+      setComments((prev) => withEngagement(prev, id, parseCommentEngagement(data)));
     } catch (e: unknown) {
       showError(getErrorMessage(e, 'Failed to vote'));
     } finally {
@@ -92,6 +175,22 @@ export default function CommentSection({ postId }: { postId: string }) {
     }
   };
 
+  const handleReact = async (id: string, emoji: string) => {
+    setBusyId(id);
+    try {
+      const data = await fetchAPI(`/comments/${id}/reactions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ emoji }),
+      });
+      setComments((prev) => withEngagement(prev, id, parseCommentEngagement(data)));
+    } catch (e: unknown) {
+      showError(getErrorMessage(e, 'Failed to react'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
   const handleFlag = async (id: string) => {
     setBusyId(id);
     try {
@@ -109,7 +208,7 @@ export default function CommentSection({ postId }: { postId: string }) {
   };
 
   const renderComment = (comment: Comment, depth = 0) => (
-    <div key={comment.id} className={`bg-muted/60 p-4 rounded-lg mb-3 ${depth > 0 ? 'ml-6 border-l-2 border-slate-200 dark:border-slate-700' : ''}`}>
+    <div key={comment.id} id={`comment-${comment.id}`} className={`bg-muted/60 p-4 rounded-lg mb-3 ${depth > 0 ? 'ml-6 border-l-2 border-slate-200 dark:border-slate-700' : ''}`}>
       <div className="flex justify-between mb-2">
         <div className="font-semibold">{comment.authorName || comment.user?.displayName || 'Anonymous'}</div>
         <div className="text-muted-foreground text-sm">{comment.createdAt ? new Date(comment.createdAt).toLocaleDateString() : ''}</div>
@@ -119,14 +218,16 @@ export default function CommentSection({ postId }: { postId: string }) {
         <button
           disabled={busyId === comment.id}
           onClick={() => handleVote(comment.id, 'up')}
-          className="flex items-center gap-1 hover:text-green-600"
+          aria-pressed={comment.viewerVote === 'up'}
+          className={`flex items-center gap-1 hover:text-green-600 ${comment.viewerVote === 'up' ? 'text-green-600' : ''}`}
         >
           <ThumbsUp size={16} /> {comment.upvotes || 0}
         </button>
         <button
           disabled={busyId === comment.id}
           onClick={() => handleVote(comment.id, 'down')}
-          className="flex items-center gap-1 hover:text-red-500"
+          aria-pressed={comment.viewerVote === 'down'}
+          className={`flex items-center gap-1 hover:text-red-500 ${comment.viewerVote === 'down' ? 'text-red-500' : ''}`}
         >
           <ThumbsDown size={16} /> {comment.downvotes || 0}
         </button>
@@ -145,6 +246,28 @@ export default function CommentSection({ postId }: { postId: string }) {
           <Flag size={16} /> Flag
         </button>
       </div>
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        {reactionSet.map((emoji) => {
+          const count = comment.reactions?.[emoji] || 0;
+          const reacted = comment.viewerReactions?.includes(emoji) ?? false;
+          return (
+            <button
+              key={emoji}
+              disabled={busyId === comment.id}
+              onClick={() => handleReact(comment.id, emoji)}
+              aria-pressed={reacted}
+              className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-sm ${
+                reacted
+                  ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/30'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800'
+              }`}
+            >
+              <span>{emoji}</span>
+              {count > 0 && <span className="text-xs text-slate-500">{count}</span>}
+            </button>
+          );
+        })}
+      </div>
       {comment.replies && comment.replies.length > 0 && (
         <div className="mt-3">
           {comment.replies.map((reply) => renderComment(reply, depth + 1))}
@@ -161,6 +284,29 @@ export default function CommentSection({ postId }: { postId: string }) {
         {comments.map((comment) => renderComment(comment))}
       </div>
 
+      <form onSubmit={handleFollow} className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+        <span className="font-medium">Follow this discussion:</span>
+        <input
+          type="email" placeholder="Email (not needed if signed in)"
+          className="border p-2 rounded"
+          value={followEmail}
+          onChange={e => setFollowEmail(e.target.value)}
+        />
+        <select
+          className="border p-2 rounded"
+          value={followFrequency}
+          onChange={e => setFollowFrequency(e.target.value as SubscriptionFrequency)}
+          aria-label="How often to email"
+        >
+          {SUBSCRIPTION_FREQUENCIES.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button disabled={following} className="border px-4 py-2 rounded disabled:opacity-50">
+          {following ? 'Subscribing...' : 'Subscribe'}
+        </button>
+      </form>
+
       <form onSubmit={handleSubmit} className="bg-card p-6 border rounded-xl shadow-sm">
         <h4 className="font-bold mb-4">{replyTo ? 'Reply to comment' : 'Leave a Reply'}</h4>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
@@ -177,12 +323,33 @@ export default function CommentSection({ postId }: { postId: string }) {
             onChange={e => setForm({...form, email: e.target.value})}
           />
         </div>
+        <div className="absolute -left-[9999px] h-0 w-0 overflow-hidden" aria-hidden="true">
+          <label>
+            Leave this field empty
+            <input
+              type="text"
+              name="website_url"
+              tabIndex={-1}
+              autoComplete="off"
+              value={honeypot}
+              onChange={e => setHoneypot(e.target.value)}
+            />
+          </label>
+        </div>
         <textarea 
           placeholder="Your comment..." required
           className="w-full border p-2 rounded h-24 mb-4"
           value={form.content}
           onChange={e => setForm({...form, content: e.target.value})}
         />
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 mb-4">
+          <input
+            type="checkbox"
+            checked={notifyReplies}
+            onChange={e => setNotifyReplies(e.target.checked)}
+          />
+          Email me when someone replies (guests get a confirmation email first)
+        </label>
         {replyTo && (
           <div className="flex items-center justify-between text-sm text-slate-500 mb-4">
             <span>Replying to comment</span>
@@ -5,10 +5,11 @@ import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { useEffect, useState, useMemo } from 'react';
 import { cn } from '@/lib/utils';
-import { LayoutDashboard, Newspaper, ShieldCheck } from 'lucide-react';
+import { LayoutDashboard, Newspaper, Search, ShieldCheck, UserRound } from 'lucide-react';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { Button } from '@/components/ui/Button';
 import { useUserSession } from '@/contexts/UserSessionContext';
+import { isAdminRole } from '@/lib/authClient';
 import { usePublicSettings } from '@/contexts/SettingsContext';
 
 type MenuLocations = {
@@ -121,6 +122,14 @@ export function Navbar() {
             </Button>
           </NavLink>
           <div className="w-px h-6 bg-border hidden sm:block" aria-hidden="true" />
+          <NavLink
+            href="/search"
+            onNavigate={router.push}
+            className="text-muted-foreground hover:text-primary transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded-md p-1"
+            ariaLabel="Search"
+          >
+            <Search size={20} aria-hidden="true" />
+          </NavLink>
           <ThemeToggle />
           
           {/* Auth Buttons: Login/Sign Up or Dashboard */}
@@ -130,6 +139,14 @@ export function Navbar() {
               <div className="h-9 w-20 bg-muted animate-pulse rounded" />
               <span className="sr-only">Loading...</span>
             </div>
+          ) : role && !isAdminRole(role) ? (
+            // Customer is logged in - show their account
+            <NavLink href="/account" onNavigate={router.push}>
+              <Button variant="outline" className="flex items-center gap-2" ariaLabel="Go to My Account">
+                <UserRound size={16} aria-hidden="true" />
+                <span className="hidden sm:inline">My Account</span>
+              </Button>
+            </NavLink>
           ) : role ? (
             // User is logged in - show Dashboard button
             <NavLink href="/dashboard" onNavigate={router.push}>
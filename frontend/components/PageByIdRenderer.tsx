@@ -5,6 +5,7 @@ import { API_URL } from '@/lib/api';
 import type { PageSection } from '@/lib/page-builder-types';
 import type { JsonValue } from '@/types/json';
 import { SafeHtml } from '@/components/SafeHtml';
+import { ProjectGridSection } from '@/components/projects/ProjectGridSection';
 import logger from '@/lib/logger';
 import { getErrorMessage } from '@/lib/error-utils';
 import type {
@@ -138,6 +139,8 @@ function SectionRenderer({ section }: { section: PageSection }) {
       return <StatsSection section={section} style={sectionStyle} />;
     case 'faq':
       return <FAQSection section={section} style={sectionStyle} />;
+    case 'projects':
+      return <ProjectGridSection section={section} style={sectionStyle} />;
     case 'divider':
       return <DividerSection section={section} style={sectionStyle} />;
     case 'spacer':
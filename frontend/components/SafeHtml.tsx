@@ -7,7 +7,7 @@ const sanitizeOptions: IOptions = {
     'p', 'br', 'strong', 'em', 'u', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
     'ul', 'ol', 'li', 'blockquote', 'code', 'pre',
     'a', 'img', 'table', 'thead', 'tbody', 'tr', 'th', 'td',
-    'span', 'div', 'section', 'article',
+    'span', 'div', 'section', 'article', 'mark',
   ],
   allowedAttributes: {
     a: ['href', 'title', 'target', 'rel'],
@@ -8,7 +8,7 @@ import { Input } from '@/components/ui/Input';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/Card';
 import { useToast } from '@/components/ui/Toast';
 import { Switch } from '../ui/Switch';
-import { Save, Plus, Key, Cpu, Zap, Gauge, Brain } from 'lucide-react';
+import { Save, Plus, Key, Cpu, Zap, Gauge, Brain, Network, RefreshCw } from 'lucide-react';
 import { fetchAPI } from '@/lib/api';
 
 // Fallback Switch if not exists
@@ -25,10 +25,50 @@ interface AIProviderConfig {
   apiKey: string;
   defaultModel: string;
   availableModels: string[];
+  baseUrl: string;
 }
 
 type AiMode = 'standard' | 'go' | 'god' | 'enterprise';
 
+type AiTask = 'generatePost' | 'generateBlogPost' | 'optimizeSeo' | 'draftPost' | 'editSelection' | 'reviseContent';
+
+// Providers the backend has an adapter for (SiteSettings.aiProvider)
+const ACTIVE_PROVIDER_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'anthropic', label: 'Anthropic (Claude)' },
+  { value: 'custom', label: 'Custom OpenAI-compatible endpoint' },
+  { value: 'local', label: 'Local server (Ollama / llama.cpp)' },
+  { value: 'mock', label: 'Offline mock (testing only)' },
+];
+
+const AI_TASK_OPTIONS: Array<{ value: AiTask; label: string; description: string }> = [
+  { value: 'generateBlogPost', label: 'Scheduled blog generation', description: 'Batch posts and content refresh.' },
+  { value: 'generatePost', label: 'Queued post generation', description: 'Posts requested from the AI Content page.' },
+  { value: 'optimizeSeo', label: 'SEO review', description: 'Scores and suggestions for existing posts.' },
+  { value: 'draftPost', label: 'Editor drafting', description: 'Outlines and sections streamed into the post editor.' },
+  { value: 'editSelection', label: 'Editor rewrites', description: 'Expand, shorten or rewrite a selection in the editor.' },
+  { value: 'reviseContent', label: 'Review revisions', description: 'Paragraphs regenerated when a reviewer requests changes.' },
+];
+
+// Embedding adapters (SiteSettings.embeddingProvider); keys and endpoints come from the provider cards below
+const EMBEDDING_PROVIDER_OPTIONS: Array<{ value: string; label: string; model: string }> = [
+  { value: 'auto', label: 'Automatic (AI provider, else built-in)', model: 'Provider default' },
+  { value: 'builtin', label: 'Built-in (no model needed)', model: 'hashed-bow-512' },
+  { value: 'local', label: 'Local server (Ollama)', model: 'nomic-embed-text' },
+  { value: 'openai', label: 'OpenAI', model: 'text-embedding-3-small' },
+];
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.35;
+const DEFAULT_ROLLBACK_HOURS = 72;
+const MAX_ROLLBACK_HOURS = 720;
+
+// Only these adapters accept a custom endpoint
+const BASE_URL_PLACEHOLDERS: Record<string, string> = {
+  openai: 'https://api.openai.com/v1',
+  custom: 'https://openrouter.ai/api/v1',
+  local: 'http://localhost:11434/v1',
+};
+
 const DEFAULT_PROVIDERS: AIProviderConfig[] = [
   {
     id: 'openai',
@@ -37,6 +77,7 @@ const DEFAULT_PROVIDERS: AIProviderConfig[] = [
     apiKey: '',
     defaultModel: 'gpt-4-turbo',
     availableModels: ['gpt-4-turbo', 'gpt-4o', 'gpt-3.5-turbo'],
+    baseUrl: '',
   },
   {
     id: 'anthropic',
@@ -45,6 +86,25 @@ const DEFAULT_PROVIDERS: AIProviderConfig[] = [
     apiKey: '',
     defaultModel: 'claude-3-opus',
     availableModels: ['claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku'],
+    baseUrl: '',
+  },
+  {
+    id: 'custom',
+    name: 'Custom OpenAI-compatible',
+    enabled: false,
+    apiKey: '',
+    defaultModel: 'gpt-4o-mini',
+    availableModels: ['gpt-4o-mini'],
+    baseUrl: '',
+  },
+  {
+    id: 'local',
+    name: 'Local (Ollama / llama.cpp)',
+    enabled: false,
+    apiKey: '',
+    defaultModel: 'llama3.1',
+    availableModels: ['llama3.1', 'mistral', 'qwen2.5'],
+    baseUrl: '',
   },
   {
     id: 'google',
@@ -53,6 +113,7 @@ const DEFAULT_PROVIDERS: AIProviderConfig[] = [
     apiKey: '',
     defaultModel: 'gemini-1.5-pro',
     availableModels: ['gemini-1.5-pro', 'gemini-pro', 'gemini-ultra'],
+    baseUrl: '',
   },
   {
     id: 'deepseek',
@@ -61,6 +122,7 @@ const DEFAULT_PROVIDERS: AIProviderConfig[] = [
     apiKey: '',
     defaultModel: 'deepseek-coder',
     availableModels: ['deepseek-coder', 'deepseek-chat'],
+    baseUrl: '',
   },
 ];
 
@@ -91,6 +153,26 @@ const parseBoolean = (value: unknown, fallback = false): boolean => (
   typeof value === 'boolean' ? value : fallback
 );
 
+const parseTaskModels = (value: unknown): Partial<Record<AiTask, string>> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const obj = value as Record<string, unknown>;
+  const models: Partial<Record<AiTask, string>> = {};
+  AI_TASK_OPTIONS.forEach(({ value: task }) => {
+    if (typeof obj[task] === 'string' && obj[task]) models[task] = obj[task] as string;
+  });
+  return models;
+};
+
+const parseThreshold = (value: unknown): number => (
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : DEFAULT_SIMILARITY_THRESHOLD
+);
+
+const parseRollbackHours = (value: unknown): number => (
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(MAX_ROLLBACK_HOURS, Math.max(0, Math.round(value)))
+    : DEFAULT_ROLLBACK_HOURS
+);
+
 const extractAiConfig = (value: unknown): AIProviderConfig[] => {
   if (!value || typeof value !== 'object') return [];
   const obj = value as Record<string, unknown>;
@@ -111,6 +193,7 @@ const toProviderConfig = (value: unknown): AIProviderConfig | null => {
     apiKey: typeof obj.apiKey === 'string' ? obj.apiKey : '',
     defaultModel: typeof obj.defaultModel === 'string' ? obj.defaultModel : '',
     availableModels: Array.isArray(obj.availableModels) ? obj.availableModels.filter((m) => typeof m === 'string') as string[] : [],
+    baseUrl: typeof obj.baseUrl === 'string' ? obj.baseUrl : '',
   };
 };
 
@@ -122,6 +205,14 @@ export default function AISettings() {
   const [aiMode, setAiMode] = useState<AiMode>('standard');
   const [aiLearningLevel, setAiLearningLevel] = useState(3);
   const [aiSelfLearningEnabled, setAiSelfLearningEnabled] = useState(false);
+  const [aiProvider, setAiProvider] = useState('openai');
+  const [aiModel, setAiModel] = useState('');
+  const [aiTaskModels, setAiTaskModels] = useState<Partial<Record<AiTask, string>>>({});
+  const [embeddingProvider, setEmbeddingProvider] = useState('auto');
+  const [embeddingModel, setEmbeddingModel] = useState('');
+  const [similarityThreshold, setSimilarityThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [reindexing, setReindexing] = useState(false);
+  const [refreshRollbackHours, setRefreshRollbackHours] = useState(DEFAULT_ROLLBACK_HOURS);
 
   useEffect(() => {
     loadSettings();
@@ -143,6 +234,13 @@ export default function AISettings() {
       setAiMode(parseAiMode(dataRecord.aiMode));
       setAiLearningLevel(parseLearningLevel(dataRecord.aiLearningLevel));
       setAiSelfLearningEnabled(parseBoolean(dataRecord.aiSelfLearningEnabled));
+      if (typeof dataRecord.aiProvider === 'string' && dataRecord.aiProvider) setAiProvider(dataRecord.aiProvider);
+      setAiModel(typeof dataRecord.aiModel === 'string' ? dataRecord.aiModel : '');
+      setAiTaskModels(parseTaskModels(dataRecord.aiTaskModels));
+      if (typeof dataRecord.embeddingProvider === 'string' && dataRecord.embeddingProvider) setEmbeddingProvider(dataRecord.embeddingProvider);
+      setEmbeddingModel(typeof dataRecord.embeddingModel === 'string' ? dataRecord.embeddingModel : '');
+      setSimilarityThreshold(parseThreshold(dataRecord.similarityThreshold));
+      setRefreshRollbackHours(parseRollbackHours(dataRecord.refreshRollbackHours));
     } catch (e: unknown) {
       logger.error('Failed to load AI settings', e, { component: 'AISettings' });
       showError('Failed to load AI settings');
@@ -161,6 +259,13 @@ export default function AISettings() {
           aiMode,
           aiLearningLevel,
           aiSelfLearningEnabled,
+          aiProvider,
+          aiModel,
+          aiTaskModels,
+          embeddingProvider,
+          embeddingModel,
+          similarityThreshold,
+          refreshRollbackHours,
         }),
       });
       success('AI configurations saved successfully');
@@ -170,6 +275,21 @@ export default function AISettings() {
     }
   };
 
+  const handleReindex = async () => {
+    setReindexing(true);
+    try {
+      const result = await fetchAPI<{ message?: string; failed?: number }>('/blog/ai/embeddings/reindex', { method: 'POST' });
+      const message = result?.message || 'Embeddings index updated';
+      if (result?.failed) showError(message);
+      else success(message);
+    } catch (e: unknown) {
+      logger.error('Failed to rebuild embeddings index', e, { component: 'AISettings' });
+      showError('Failed to rebuild the embeddings index');
+    } finally {
+      setReindexing(false);
+    }
+  };
+
   const updateProvider = (id: string, updates: Partial<AIProviderConfig>) => {
     setProviders(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
   };
@@ -198,6 +318,60 @@ export default function AISettings() {
         </Button>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Cpu size={18} /> Active Provider and Models
+          </CardTitle>
+          <CardDescription>
+            Which provider generates content. A task model overrides the provider&apos;s default model for that task only.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Provider</label>
+              <select
+                value={aiProvider}
+                onChange={(e) => setAiProvider(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md bg-input border-border text-foreground focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+              >
+                {ACTIVE_PROVIDER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Without an API key the backend falls back to the offline mock provider.
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Fallback Model</label>
+              <Input
+                value={aiModel}
+                onChange={(e) => setAiModel(e.target.value)}
+                placeholder="Used when the provider below has no default model"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {AI_TASK_OPTIONS.map((task) => (
+              <div key={task.value}>
+                <label className="text-sm font-medium mb-2 block">{task.label}</label>
+                <Input
+                  value={aiTaskModels[task.value] ?? ''}
+                  onChange={(e) => setAiTaskModels((prev) => ({ ...prev, [task.value]: e.target.value.trim() }))}
+                  placeholder="Provider default"
+                />
+                <p className="text-xs text-muted-foreground mt-1">{task.description}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -263,6 +437,96 @@ export default function AISettings() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Network size={18} /> Related Posts and Interlinking
+          </CardTitle>
+          <CardDescription>
+            Related posts and internal link targets are chosen by embedding similarity. Save before rebuilding after changing the provider or model.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Embedding Provider</label>
+              <select
+                value={embeddingProvider}
+                onChange={(e) => setEmbeddingProvider(e.target.value)}
+                className="w-full px-3 py-2 border rounded-md bg-input border-border text-foreground focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+              >
+                {EMBEDDING_PROVIDER_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Automatic uses the embedding model of your AI provider (or OpenAI) when it has a key. Built-in only matches shared wording.
+              </p>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Embedding Model</label>
+              <Input
+                value={embeddingModel}
+                onChange={(e) => setEmbeddingModel(e.target.value.trim())}
+                placeholder={EMBEDDING_PROVIDER_OPTIONS.find((option) => option.value === embeddingProvider)?.model ?? 'Provider default'}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Minimum Similarity</label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min={0}
+                  max={0.9}
+                  step={0.05}
+                  value={similarityThreshold}
+                  onChange={(e) => setSimilarityThreshold(Number(e.target.value))}
+                  className="flex-1"
+                />
+                <span className="text-sm font-semibold w-10 text-center">{similarityThreshold.toFixed(2)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Posts less similar than this are never suggested or linked.
+              </p>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="button" variant="outline" onClick={handleReindex} isLoading={reindexing} className="gap-2">
+              <RefreshCw size={16} /> Rebuild Index
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <RefreshCw size={18} /> Content Refresh
+          </CardTitle>
+          <CardDescription>
+            Applied refreshes are watched for this long; a refresh whose SEO score drops in that time is rolled back automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="max-w-xs">
+            <label htmlFor="refresh-rollback-hours" className="text-sm font-medium mb-2 block">Rollback Window (hours)</label>
+            <Input
+              id="refresh-rollback-hours"
+              type="number"
+              min={0}
+              max={MAX_ROLLBACK_HOURS}
+              value={refreshRollbackHours}
+              onChange={(e) => setRefreshRollbackHours(parseRollbackHours(Number(e.target.value)))}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Set to 0 to turn off rollback for newly applied refreshes.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 gap-6">
         {providers.map((provider) => (
           <Card key={provider.id} className={provider.enabled ? 'border-blue-500/50' : 'opacity-80'}>
@@ -299,6 +563,17 @@ export default function AISettings() {
                   </div>
                 </div>
 
+                {BASE_URL_PLACEHOLDERS[provider.id] !== undefined && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Base URL</label>
+                    <Input
+                      placeholder={BASE_URL_PLACEHOLDERS[provider.id]}
+                      value={provider.baseUrl}
+                      onChange={(e) => updateProvider(provider.id, { baseUrl: e.target.value })}
+                    />
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Default Model</label>
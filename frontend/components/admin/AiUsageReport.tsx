@@ -0,0 +1,464 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { RefreshCw, Save } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  AI_TASK_LABELS,
+  formatUsd,
+  parseAiBudget,
+  parseAiUsageReport,
+  type AiBudgetAction,
+  type AiUsageReport as AiUsageReportData,
+} from '@/lib/ai-usage';
+
+const RANGE_OPTIONS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+// Providers that have paid models worth degrading from
+const FALLBACK_PROVIDERS = ['openai', 'anthropic', 'custom'];
+
+type BudgetForm = {
+  monthlyLimit: string;
+  perUserMonthlyLimit: string;
+  onExceeded: AiBudgetAction;
+  fallbackModels: Record<string, string>;
+};
+
+const formatTokens = (value: number) => value.toLocaleString();
+
+const formatDate = (value: string) => new Date(`${value}T00:00:00Z`).toLocaleDateString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC',
+});
+
+export default function AiUsageReport() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<AiUsageReportData | null>(null);
+  const [form, setForm] = useState<BudgetForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchAPI(`/blog/ai/usage?days=${days}`, { redirectOn401: false, cache: 'no-store' });
+      const parsed = parseAiUsageReport(data);
+      setReport(parsed);
+      if (parsed) {
+        const { budget } = parsed;
+        setForm({
+          monthlyLimit: budget.monthlyLimit === null ? '' : String(budget.monthlyLimit),
+          perUserMonthlyLimit: budget.perUserMonthlyLimit === null ? '' : String(budget.perUserMonthlyLimit),
+          onExceeded: budget.onExceeded,
+          fallbackModels: { ...budget.fallbackModels },
+        });
+      }
+    } catch (err: unknown) {
+      logger.error('Failed to load AI usage', err, { component: 'AiUsageReport' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load AI usage') });
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const saveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const fallbackModels: Record<string, string> = {};
+      for (const provider of FALLBACK_PROVIDERS) {
+        fallbackModels[provider] = form.fallbackModels[provider]?.trim() ?? '';
+      }
+      const saved = await fetchAPI('/blog/ai/budget', {
+        method: 'PUT',
+        body: JSON.stringify({
+          monthlyLimit: form.monthlyLimit.trim() ? Number(form.monthlyLimit) : null,
+          perUserMonthlyLimit: form.perUserMonthlyLimit.trim() ? Number(form.perUserMonthlyLimit) : null,
+          onExceeded: form.onExceeded,
+          fallbackModels,
+        }),
+        redirectOn401: false,
+        cache: 'no-store',
+      });
+      const budget = parseAiBudget(saved);
+      setForm({
+        monthlyLimit: budget.monthlyLimit === null ? '' : String(budget.monthlyLimit),
+        perUserMonthlyLimit: budget.perUserMonthlyLimit === null ? '' : String(budget.perUserMonthlyLimit),
+        onExceeded: budget.onExceeded,
+        fallbackModels: { ...budget.fallbackModels },
+      });
+      setMessage({ type: 'success', text: 'AI budget saved' });
+      loadReport();
+    } catch (err: unknown) {
+      logger.error('Failed to save AI budget', err, { component: 'AiUsageReport' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to save AI budget') });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const maxCost = report ? Math.max(0.000001, ...report.daily.map((point) => point.cost)) : 1;
+  const budget = report?.budget;
+  const budgetPercent = budget?.monthlyLimit
+    ? Math.min(100, Math.round((budget.monthSpend / budget.monthlyLimit) * 100))
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-slate-600">Every AI provider call with its tokens, cost and latency.</p>
+        <div className="flex items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+          <Button variant="outline" onClick={loadReport} isLoading={loading}>
+            <RefreshCw className="w-4 h-4 mr-2" /> Refresh
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`rounded-md p-4 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {report && budget && (
+        <>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-slate-500">Spend this month</p>
+                <p className="text-2xl font-bold text-slate-900">{formatUsd(budget.monthSpend)}</p>
+                <p className="text-xs text-slate-500">
+                  {budget.monthlyLimit === null ? 'No monthly limit' : `of ${formatUsd(budget.monthlyLimit)}`}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-slate-500">Cost ({report.days} days)</p>
+                <p className="text-2xl font-bold text-slate-900">{formatUsd(report.totals.cost)}</p>
+                <p className="text-xs text-slate-500">{report.totals.calls} calls, {report.totals.failed} failed</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-slate-500">Tokens</p>
+                <p className="text-2xl font-bold text-slate-900">
+                  {formatTokens(report.totals.promptTokens + report.totals.completionTokens)}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {formatTokens(report.totals.promptTokens)} in / {formatTokens(report.totals.completionTokens)} out
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-slate-500">Average latency</p>
+                <p className="text-2xl font-bold text-slate-900">{(report.totals.avgLatencyMs / 1000).toFixed(1)}s</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {budgetPercent !== null && (
+            <div>
+              <div className="mb-1 flex justify-between text-xs text-slate-600">
+                <span>Monthly budget used</span>
+                <span>{budgetPercent}%</span>
+              </div>
+              <div className="h-2 rounded-full bg-slate-100">
+                <div
+                  className={`h-2 rounded-full ${budget.exceeded ? 'bg-red-500' : budgetPercent >= 80 ? 'bg-amber-400' : 'bg-green-500'}`}
+                  style={{ width: `${budgetPercent}%` }}
+                />
+              </div>
+              {budget.exceeded && (
+                <p className="mt-1 text-xs text-red-600">
+                  {budget.onExceeded === 'degrade'
+                    ? 'Budget reached: calls use the cheaper fallback models.'
+                    : 'Budget reached: AI calls are blocked until next month.'}
+                </p>
+              )}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Daily cost</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex h-32 items-end gap-px">
+                {report.daily.map((point) => (
+                  <div
+                    key={point.date}
+                    className="flex h-full flex-1 flex-col justify-end"
+                    title={`${formatDate(point.date)}: ${formatUsd(point.cost)}, ${point.calls} calls, ${formatTokens(point.tokens)} tokens`}
+                  >
+                    {point.cost > 0
+                      ? <div className="bg-purple-500" style={{ height: `${(point.cost / maxCost) * 100}%` }} />
+                      : <div className="h-px bg-slate-200" />}
+                  </div>
+                ))}
+              </div>
+              {report.daily.length > 0 && (
+                <div className="mt-2 flex justify-between text-xs text-slate-500">
+                  <span>{formatDate(report.daily[0].date)}</span>
+                  <span>{formatDate(report.daily[report.daily.length - 1].date)}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>By task</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.byTask.length === 0 ? (
+                  <p className="text-sm text-slate-500">No AI calls in this period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-500">
+                        <th className="py-1 font-medium">Task</th>
+                        <th className="py-1 text-right font-medium">Calls</th>
+                        <th className="py-1 text-right font-medium">Tokens</th>
+                        <th className="py-1 text-right font-medium">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.byTask.map((row) => (
+                        <tr key={row.task} className="border-t border-slate-100">
+                          <td className="py-1">{AI_TASK_LABELS[row.task] ?? row.task}</td>
+                          <td className="py-1 text-right">{row.calls}</td>
+                          <td className="py-1 text-right">{formatTokens(row.promptTokens + row.completionTokens)}</td>
+                          <td className="py-1 text-right">{formatUsd(row.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By model</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {report.byModel.length === 0 ? (
+                  <p className="text-sm text-slate-500">No AI calls in this period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-500">
+                        <th className="py-1 font-medium">Model</th>
+                        <th className="py-1 text-right font-medium">Calls</th>
+                        <th className="py-1 text-right font-medium">Tokens</th>
+                        <th className="py-1 text-right font-medium">Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.byModel.map((row) => (
+                        <tr key={`${row.provider}:${row.model}`} className="border-t border-slate-100">
+                          <td className="py-1">
+                            {row.model} <span className="text-xs text-slate-500">{row.provider}</span>
+                          </td>
+                          <td className="py-1 text-right">{row.calls}</td>
+                          <td className="py-1 text-right">{formatTokens(row.promptTokens + row.completionTokens)}</td>
+                          <td className="py-1 text-right">{formatUsd(row.cost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Top users</CardTitle>
+                <CardDescription>Calls made on a user&apos;s behalf, such as queued generations.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.topUsers.length === 0 ? (
+                  <p className="text-sm text-slate-500">No user-initiated calls in this period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-500">
+                        <th className="py-1 font-medium">User</th>
+                        <th className="py-1 text-right font-medium">Calls</th>
+                        <th className="py-1 text-right font-medium">Cost</th>
+                        <th className="py-1 text-right font-medium">This month</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.topUsers.map((row) => (
+                        <tr key={row.userId} className="border-t border-slate-100">
+                          <td className="py-1">{row.name}</td>
+                          <td className="py-1 text-right">{row.calls}</td>
+                          <td className="py-1 text-right">{formatUsd(row.cost)}</td>
+                          <td className="py-1 text-right">
+                            {formatUsd(row.monthSpend)}
+                            {budget.perUserMonthlyLimit !== null && row.monthSpend >= budget.perUserMonthlyLimit && (
+                              <Badge variant="error" size="sm" className="ml-2">Over limit</Badge>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            {form && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Budget</CardTitle>
+                  <CardDescription>Limits in USD per calendar month (UTC). Leave empty for no limit.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={saveBudget} className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="text-sm">
+                        <span className="mb-1 block font-medium text-slate-700">Monthly limit</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={form.monthlyLimit}
+                          onChange={(e) => setForm({ ...form, monthlyLimit: e.target.value })}
+                        />
+                      </label>
+                      <label className="text-sm">
+                        <span className="mb-1 block font-medium text-slate-700">Per-user limit</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={form.perUserMonthlyLimit}
+                          onChange={(e) => setForm({ ...form, perUserMonthlyLimit: e.target.value })}
+                        />
+                      </label>
+                    </div>
+                    <label className="block text-sm">
+                      <span className="mb-1 block font-medium text-slate-700">When a limit is reached</span>
+                      <select
+                        value={form.onExceeded}
+                        onChange={(e) => setForm({ ...form, onExceeded: e.target.value === 'degrade' ? 'degrade' : 'block' })}
+                        className="rounded-md border border-slate-300 px-2 py-1 text-sm"
+                      >
+                        <option value="block">Block AI calls</option>
+                        <option value="degrade">Switch to cheaper models</option>
+                      </select>
+                    </label>
+                    {form.onExceeded === 'degrade' && (
+                      <div className="space-y-2">
+                        {FALLBACK_PROVIDERS.map((provider) => (
+                          <label key={provider} className="flex items-center gap-3 text-sm">
+                            <span className="w-24 text-slate-600">{provider}</span>
+                            <Input
+                              value={form.fallbackModels[provider] ?? ''}
+                              placeholder="No fallback (block)"
+                              onChange={(e) => setForm({
+                                ...form,
+                                fallbackModels: { ...form.fallbackModels, [provider]: e.target.value },
+                              })}
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <Button type="submit" isLoading={saving}>
+                      <Save className="w-4 h-4 mr-2" /> Save budget
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent calls</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.recent.length === 0 ? (
+                <p className="text-sm text-slate-500">No AI calls in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-500">
+                        <th className="py-1 font-medium">Time</th>
+                        <th className="py-1 font-medium">Task</th>
+                        <th className="py-1 font-medium">Model</th>
+                        <th className="py-1 text-right font-medium">Tokens</th>
+                        <th className="py-1 text-right font-medium">Cost</th>
+                        <th className="py-1 text-right font-medium">Latency</th>
+                        <th className="py-1 font-medium">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.recent.map((call) => (
+                        <tr key={call.id} className="border-t border-slate-100 align-top">
+                          <td className="py-1 whitespace-nowrap">{new Date(call.createdAt).toLocaleString()}</td>
+                          <td className="py-1">{AI_TASK_LABELS[call.task] ?? call.task}</td>
+                          <td className="py-1">
+                            {call.model}
+                            {call.requestedModel && (
+                              <span className="block text-xs text-amber-600">downgraded from {call.requestedModel}</span>
+                            )}
+                          </td>
+                          <td className="py-1 text-right" title={call.estimated ? 'Estimated from text length' : undefined}>
+                            {call.estimated ? '~' : ''}{formatTokens(call.promptTokens + call.completionTokens)}
+                          </td>
+                          <td className="py-1 text-right">{formatUsd(call.cost)}</td>
+                          <td className="py-1 text-right">{(call.latencyMs / 1000).toFixed(1)}s</td>
+                          <td className="py-1">
+                            {call.success
+                              ? <Badge variant="success" size="sm">OK</Badge>
+                              : <Badge variant="error" size="sm"><span title={call.error}>Failed</span></Badge>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
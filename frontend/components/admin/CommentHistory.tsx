@@ -0,0 +1,59 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  moderationActionLabel,
+  moderatorName,
+  parseModerationEvents,
+  type ModerationEvent,
+} from '@/lib/comment-moderation';
+
+interface CommentHistoryProps {
+  commentId: string;
+  /** Bump to reload after an action on the comment */
+  refreshKey?: number;
+}
+
+/** What the moderation rules and each moderator did with one comment, oldest first */
+export default function CommentHistory({ commentId, refreshKey = 0 }: CommentHistoryProps) {
+  const [events, setEvents] = useState<ModerationEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAPI(`/comments/${commentId}/history`, { redirectOn401: false, cache: 'no-store' })
+      .then((data) => {
+        setEvents(parseModerationEvents(data));
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        logger.error('Failed to load comment history', err, { component: 'CommentHistory', commentId });
+        setError(getErrorMessage(err, 'Failed to load history'));
+      });
+  }, [commentId, refreshKey]);
+
+  if (error) return <p className="text-xs text-red-600 dark:text-red-400">{error}</p>;
+  if (!events) return <p className="text-xs text-slate-500">Loading history...</p>;
+  if (events.length === 0) return <p className="text-xs text-slate-500">No moderation history recorded.</p>;
+
+  return (
+    <ol className="space-y-1.5 text-xs text-slate-600 dark:text-slate-400">
+      {events.map((event) => (
+        <li key={event.id}>
+          <span className="text-slate-500">{new Date(event.createdAt).toLocaleString()}</span>{' '}
+          <span className="font-medium text-slate-800 dark:text-slate-200">{moderationActionLabel(event.action)}</span>{' '}
+          by {moderatorName(event.moderator)}
+          {event.reason && ` — ${event.reason}`}
+          {event.previousContent && (
+            <div className="mt-1 ml-4 border-l-2 border-slate-200 pl-2 text-slate-500 line-through dark:border-slate-700">
+              {event.previousContent}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { useToast } from '@/components/ui/Toast';
+import { useConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { API_URL, fetchAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  COMMENT_IMPORT_FORMATS,
+  formatLabel,
+  isImportActive,
+  parseCommentImport,
+  parseCommentImports,
+  type CommentImport,
+  type CommentImportFormat,
+  type CommentImportStatus,
+} from '@/lib/comment-migration';
+
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_BADGES: Record<CommentImportStatus, 'default' | 'info' | 'success' | 'error'> = {
+  QUEUED: 'default',
+  RUNNING: 'info',
+  COMPLETED: 'success',
+  FAILED: 'error',
+};
+
+const selectClassName = 'px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-sm';
+
+function ImportReport({ item }: { item: CommentImport }) {
+  const report = item.report;
+  if (!report) return null;
+  const { comments } = report;
+  const skipped = [
+    comments.alreadyImported > 0 && `${comments.alreadyImported} already imported`,
+    comments.unmatchedPost > 0 && `${comments.unmatchedPost} on posts not found here`,
+    comments.deleted > 0 && `${comments.deleted} deleted or trashed`,
+    comments.pingbacks > 0 && `${comments.pingbacks} pingbacks`,
+    comments.empty > 0 && `${comments.empty} empty`,
+  ].filter(Boolean);
+
+  return (
+    <div className="mt-2 space-y-2 text-xs text-slate-600 dark:text-slate-400">
+      <p>
+        {item.dryRun ? 'Would import' : 'Imported'} {comments.imported} of {comments.total} comments
+        ({comments.approved} approved, {comments.pending} pending, {comments.spam} spam)
+        into {report.posts.length} post{report.posts.length === 1 ? '' : 's'}.
+        {' '}{report.threads.matched} of {report.threads.total} threads matched a post.
+      </p>
+      {skipped.length > 0 && <p>Skipped: {skipped.join(', ')}.</p>}
+      {comments.reattached > 0 && (
+        <p>{comments.reattached} replies to skipped comments are attached to the nearest earlier comment.</p>
+      )}
+      <details>
+        <summary className="cursor-pointer text-slate-700 dark:text-slate-300">Details</summary>
+        <div className="mt-2 space-y-3">
+          {report.posts.length > 0 && (
+            <div>
+              <p className="font-medium text-slate-700 dark:text-slate-300">Posts</p>
+              <ul className="ml-4 list-disc">
+                {report.posts.map((post) => (
+                  <li key={post.postId}>
+                    <a href={`/blog/${post.slug}`} target="_blank" className="text-blue-600 dark:text-blue-400 hover:underline">
+                      {post.title}
+                    </a>: {post.comments}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {report.unmatchedThreads.length > 0 && (
+            <div>
+              <p className="font-medium text-slate-700 dark:text-slate-300">No matching post (by URL or slug)</p>
+              <ul className="ml-4 list-disc">
+                {report.unmatchedThreads.map((thread, index) => (
+                  <li key={`${thread.url}-${index}`}>
+                    {thread.title || thread.url || 'Untitled'} ({thread.comments})
+                    {thread.url && thread.title && <span className="text-slate-500"> — {thread.url}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {report.warnings.length > 0 && (
+            <div>
+              <p className="font-medium text-slate-700 dark:text-slate-300">Warnings</p>
+              <ul className="ml-4 list-disc">
+                {report.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+}
+
+/** Import comments from WordPress or Disqus exports, and export them in the same formats */
+export default function CommentMigration() {
+  const { success, error: showError } = useToast();
+  const { dialog, confirm } = useConfirmDialog();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [importFormat, setImportFormat] = useState<CommentImportFormat | ''>('');
+  const [dryRun, setDryRun] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [imports, setImports] = useState<CommentImport[]>([]);
+  const [exportFormat, setExportFormat] = useState(COMMENT_IMPORT_FORMATS[0].exportValue);
+  const [exporting, setExporting] = useState(false);
+
+  const loadImports = useCallback(async () => {
+    try {
+      const data = await fetchAPI('/comments/imports', { redirectOn401: false, cache: 'no-store' });
+      setImports(parseCommentImports(data));
+    } catch (err: unknown) {
+      logger.error('Failed to load comment imports', err, { component: 'CommentMigration' });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadImports();
+  }, [loadImports]);
+
+  const hasActive = imports.some(isImportActive);
+  useEffect(() => {
+    if (!hasActive) return;
+    const timer = setInterval(loadImports, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActive, loadImports]);
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      const body = new FormData();
+      body.append('file', file);
+      body.append('dryRun', String(dryRun));
+      if (importFormat) body.append('format', importFormat);
+      const created = parseCommentImport(await fetchAPI('/comments/imports', {
+        method: 'POST',
+        body,
+        redirectOn401: false,
+        timeout: 120000,
+      }));
+      success(dryRun ? 'Dry run started' : 'Import started');
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      if (created) setImports((prev) => [created, ...prev.filter((item) => item.id !== created.id)]);
+    } catch (err: unknown) {
+      logger.error('Failed to upload comment export', err, { component: 'CommentMigration' });
+      showError(getErrorMessage(err, 'Failed to upload the export'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleApply = (item: CommentImport) => {
+    confirm(
+      'Import Comments',
+      `Import ${item.report?.comments.imported ?? 0} comments from ${item.fileName}? Subscribers are not notified about imported comments.`,
+      async () => {
+        try {
+          const updated = parseCommentImport(await fetchAPI(`/comments/imports/${item.id}/apply`, {
+            method: 'POST',
+            redirectOn401: false,
+          }));
+          success('Import started');
+          if (updated) setImports((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)));
+        } catch (err: unknown) {
+          logger.error('Failed to apply comment import', err, { component: 'CommentMigration' });
+          showError(getErrorMessage(err, 'Failed to start the import'));
+        }
+      },
+      'success'
+    );
+  };
+
+  // A file download rather than JSON, so fetchAPI does not fit
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const res = await fetch(`${API_URL}/comments/export?format=${exportFormat}`, {
+        credentials: 'include',
+        cache: 'no-store',
+      });
+      if (!res.ok) throw new Error(`Export failed (${res.status})`);
+      const disposition = res.headers.get('Content-Disposition') || '';
+      const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] || `comments-${exportFormat}.xml`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      logger.error('Failed to export comments', err, { component: 'CommentMigration' });
+      showError(getErrorMessage(err, 'Failed to export comments'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import &amp; Export</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Import Comments</h3>
+        <p className="text-xs text-slate-500">
+          Upload a WordPress export (WXR) or a Disqus XML export. Threads are matched to posts by URL or slug;
+          replies, dates, author details and spam stay as they were. Comments imported before are skipped.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xml,application/xml,text/xml"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-sm"
+          />
+          <select
+            value={importFormat}
+            onChange={(e) => setImportFormat(e.target.value as CommentImportFormat | '')}
+            className={selectClassName}
+            aria-label="Import format"
+          >
+            <option value="">Detect format</option>
+            {COMMENT_IMPORT_FORMATS.map((format) => (
+              <option key={format.value} value={format.value}>{format.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+            <input type="checkbox" checked={dryRun} onChange={(e) => setDryRun(e.target.checked)} />
+            Dry run (report only)
+          </label>
+          <Button size="sm" onClick={handleUpload} isLoading={uploading} disabled={!file}>
+            <Upload className="w-4 h-4 mr-2" />
+            Upload
+          </Button>
+        </div>
+
+        {imports.length > 0 && (
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {imports.map((item) => (
+              <li key={item.id} className="py-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium text-slate-900 dark:text-white">{item.fileName}</span>
+                    <Badge size="sm" variant="outline">{formatLabel(item.format)}</Badge>
+                    {item.dryRun && <Badge size="sm" variant="purple">Dry run</Badge>}
+                    <Badge size="sm" variant={STATUS_BADGES[item.status]}>{item.status.toLowerCase()}</Badge>
+                    <span className="text-xs text-slate-500">
+                      {new Date(item.createdAt).toLocaleString()}
+                      {item.createdBy && ` by ${item.createdBy}`}
+                    </span>
+                  </div>
+                  {item.dryRun && item.status === 'COMPLETED' && (item.report?.comments.imported ?? 0) > 0 && (
+                    <Button size="sm" variant="outline" onClick={() => handleApply(item)}>
+                      Import these comments
+                    </Button>
+                  )}
+                </div>
+                {item.error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{item.error}</p>}
+                <ImportReport item={item} />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t border-slate-200 pt-4 dark:border-slate-700">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Export Comments</h3>
+          <p className="text-xs text-slate-500">
+            Every comment with its replies and status, in a format WordPress and Disqus can import.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value)}
+              className={selectClassName}
+              aria-label="Export format"
+            >
+              {COMMENT_IMPORT_FORMATS.map((format) => (
+                <option key={format.value} value={format.exportValue}>{format.label}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" onClick={handleExport} isLoading={exporting}>
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+      {dialog}
+    </Card>
+  );
+}
@@ -0,0 +1,376 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useToast } from '@/components/ui/Toast';
+import { fetchAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/error-utils';
+import { DEFAULT_COMMENT_REACTIONS, parseReactionList } from '@/lib/comment-engagement';
+import { parseSpamFilterInfo, type SpamFilterInfo } from '@/lib/comment-spam';
+import { DEFAULT_TRUSTED_ROLES, TRUSTED_ROLE_OPTIONS } from '@/lib/comment-moderation';
+
+const MAX_REACTIONS = 12;
+const DEFAULT_SPAM_THRESHOLD = 5;
+const DEFAULT_MIN_SUBMIT_SECONDS = 3;
+const DEFAULT_AUTO_APPROVE_AFTER = 3;
+
+const readStringList = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+const toLines = (value: string): string[] => value.split('\n').map((line) => line.trim()).filter(Boolean);
+
+/** Site-wide settings for comment moderation rules, votes, reactions and spam filtering */
+export default function CommentSettings() {
+  const { success, error: showError } = useToast();
+  const [reactions, setReactions] = useState(DEFAULT_COMMENT_REACTIONS.join(' '));
+  const [anonymousVoting, setAnonymousVoting] = useState(true);
+  const [spamKeywords, setSpamKeywords] = useState('');
+  const [spamThreshold, setSpamThreshold] = useState(DEFAULT_SPAM_THRESHOLD);
+  const [minSubmitSeconds, setMinSubmitSeconds] = useState(DEFAULT_MIN_SUBMIT_SECONDS);
+  const [spamWeights, setSpamWeights] = useState<Record<string, number>>({});
+  const [spamFilter, setSpamFilter] = useState<SpamFilterInfo | null>(null);
+  const [trustedRoles, setTrustedRoles] = useState<string[]>(DEFAULT_TRUSTED_ROLES);
+  const [requireApproval, setRequireApproval] = useState(true);
+  const [holdFirstTime, setHoldFirstTime] = useState(true);
+  const [autoApproveAfter, setAutoApproveAfter] = useState(DEFAULT_AUTO_APPROVE_AFTER);
+  const [blockedWords, setBlockedWords] = useState('');
+  const [blockedDomains, setBlockedDomains] = useState('');
+  const [blockedIps, setBlockedIps] = useState('');
+  const [autoCloseDays, setAutoCloseDays] = useState(0);
+  const [loading, setLoading] = useState(true);
+  // Saving over settings that failed to load would wipe them
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [training, setTraining] = useState(false);
+
+  const loadSpamFilter = async () => {
+    const info = parseSpamFilterInfo(await fetchAPI('/comments/moderation/spam-filter', { redirectOn401: false, cache: 'no-store' }));
+    setSpamFilter(info);
+    setSpamWeights(Object.fromEntries(info.checks.map((check) => [check.id, check.weight])));
+  };
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const data = await fetchAPI('/settings', { redirectOn401: false, cache: 'no-store' });
+        const record = data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+        const savedReactions = readStringList(record.commentReactions);
+        if (savedReactions.length > 0) setReactions(savedReactions.join(' '));
+        setAnonymousVoting(record.anonymousVotingEnabled !== false);
+        setSpamKeywords(readStringList(record.commentSpamKeywords).join('\n'));
+        if (typeof record.commentSpamThreshold === 'number') setSpamThreshold(record.commentSpamThreshold);
+        if (typeof record.commentMinSubmitSeconds === 'number') setMinSubmitSeconds(record.commentMinSubmitSeconds);
+        if (Array.isArray(record.commentTrustedRoles)) setTrustedRoles(readStringList(record.commentTrustedRoles));
+        setRequireApproval(record.commentRequireApproval !== false);
+        setHoldFirstTime(record.commentHoldFirstTime !== false);
+        if (typeof record.commentAutoApproveAfter === 'number') setAutoApproveAfter(record.commentAutoApproveAfter);
+        setBlockedWords(readStringList(record.commentBlockedWords).join('\n'));
+        setBlockedDomains(readStringList(record.commentBlockedDomains).join('\n'));
+        setBlockedIps(readStringList(record.commentBlockedIps).join('\n'));
+        if (typeof record.commentAutoCloseDays === 'number') setAutoCloseDays(record.commentAutoCloseDays);
+        await loadSpamFilter();
+        setLoaded(true);
+      } catch (e: unknown) {
+        logger.error('Failed to load comment settings', e, { component: 'CommentSettings' });
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const reactionList = parseReactionList(reactions);
+
+  const toggleTrustedRole = (role: string, trusted: boolean) => {
+    setTrustedRoles((prev) => (trusted ? [...prev, role] : prev.filter((item) => item !== role)));
+  };
+
+  const handleTrain = async () => {
+    setTraining(true);
+    try {
+      const data = await fetchAPI<{ trained?: number }>('/comments/moderation/spam-filter/train', { method: 'POST', redirectOn401: false });
+      success(`Spam filter trained on ${data?.trained ?? 0} moderated comments`);
+      await loadSpamFilter();
+    } catch (e: unknown) {
+      logger.error('Failed to train spam filter', e, { component: 'CommentSettings' });
+      showError(getErrorMessage(e, 'Failed to train the spam filter'));
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (reactionList.length === 0 || reactionList.length > MAX_REACTIONS) {
+      showError(`Choose between 1 and ${MAX_REACTIONS} reactions`);
+      return;
+    }
+    setSaving(true);
+    try {
+      await fetchAPI('/settings', {
+        method: 'PUT',
+        body: JSON.stringify({
+          commentReactions: reactionList,
+          anonymousVotingEnabled: anonymousVoting,
+          commentTrustedRoles: trustedRoles,
+          commentRequireApproval: requireApproval,
+          commentHoldFirstTime: holdFirstTime,
+          commentAutoApproveAfter: autoApproveAfter,
+          commentBlockedWords: toLines(blockedWords),
+          commentBlockedDomains: toLines(blockedDomains),
+          commentBlockedIps: toLines(blockedIps),
+          commentAutoCloseDays: autoCloseDays,
+          commentSpamKeywords: toLines(spamKeywords),
+          commentSpamThreshold: spamThreshold,
+          commentSpamWeights: spamWeights,
+          commentMinSubmitSeconds: minSubmitSeconds,
+        }),
+      });
+      success('Comment settings saved');
+    } catch (e: unknown) {
+      logger.error('Failed to save comment settings', e, { component: 'CommentSettings' });
+      showError(getErrorMessage(e, 'Failed to save comment settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comment Settings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Moderation Rules</h3>
+        <p className="text-xs text-slate-500">
+          Blocked comments go straight to Spam. Otherwise a comment is published when its post or the rules below allow it,
+          and held for review when they do not. Posts can override these rules from their editor.
+        </p>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Trusted roles</label>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            {TRUSTED_ROLE_OPTIONS.map((role) => (
+              <label key={role.value} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={trustedRoles.includes(role.value)}
+                  onChange={(e) => toggleTrustedRole(role.value, e.target.checked)}
+                  disabled={loading}
+                />
+                {role.label}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">Comments from these roles are published without review.</p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={holdFirstTime}
+            onChange={(e) => setHoldFirstTime(e.target.checked)}
+            disabled={loading}
+          />
+          <span className="text-sm text-slate-700 dark:text-slate-300">
+            Hold comments from first-time commenters
+          </span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={requireApproval}
+            onChange={(e) => setRequireApproval(e.target.checked)}
+            disabled={loading}
+          />
+          <span className="text-sm text-slate-700 dark:text-slate-300">
+            Hold every other comment for approval
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Auto-approve signed-in users after</label>
+            <Input
+              type="number"
+              min={0}
+              max={1000}
+              value={autoApproveAfter}
+              onChange={(e) => setAutoApproveAfter(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+              disabled={loading}
+            />
+            <p className="text-xs text-slate-500">Approved comments; 0 turns this off.</p>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Close comments after (days)</label>
+            <Input
+              type="number"
+              min={0}
+              max={3650}
+              value={autoCloseDays}
+              onChange={(e) => setAutoCloseDays(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+              disabled={loading}
+            />
+            <p className="text-xs text-slate-500">Counted from publication; 0 keeps comments open.</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Blocked words</label>
+              <textarea
+                value={blockedWords}
+                onChange={(e) => setBlockedWords(e.target.value)}
+                rows={4}
+                placeholder="One word or phrase per line"
+                className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-600 dark:bg-slate-800"
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Blocked domains</label>
+              <textarea
+                value={blockedDomains}
+                onChange={(e) => setBlockedDomains(e.target.value)}
+                rows={4}
+                placeholder="example.com"
+                className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-600 dark:bg-slate-800"
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Blocked IPs</label>
+              <textarea
+                value={blockedIps}
+                onChange={(e) => setBlockedIps(e.target.value)}
+                rows={4}
+                placeholder="203.0.113.7 or 203.0.113.0/24"
+                className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-600 dark:bg-slate-800"
+                disabled={loading}
+              />
+            </div>
+        </div>
+
+        <h3 className="border-t border-slate-200 pt-4 text-sm font-semibold text-slate-900 dark:border-slate-700 dark:text-white">Votes &amp; Reactions</h3>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Reactions</label>
+          <Input
+            value={reactions}
+            onChange={(e) => setReactions(e.target.value)}
+            placeholder={DEFAULT_COMMENT_REACTIONS.join(' ')}
+            disabled={loading}
+          />
+          <p className="text-xs text-slate-500">
+            Emoji separated by spaces, up to {MAX_REACTIONS}. Removing one hides it; existing reactions are kept.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={anonymousVoting}
+            onChange={(e) => setAnonymousVoting(e.target.checked)}
+            disabled={loading}
+          />
+          <span className="text-sm text-slate-700 dark:text-slate-300">
+            Allow votes and reactions without signing in (one per IP address)
+          </span>
+        </div>
+
+        <div className="space-y-4 border-t border-slate-200 pt-4 dark:border-slate-700">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Spam Filter</h3>
+          <p className="text-xs text-slate-500">
+            Each check adds its weight times how strongly it fires (negative for signs of a real person).
+            Comments scoring at least the threshold go to Spam. Set a weight to 0 to turn a check off.
+          </p>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Spam threshold</label>
+              <Input
+                type="number"
+                min={0.5}
+                max={100}
+                step={0.5}
+                value={spamThreshold}
+                onChange={(e) => setSpamThreshold(Number(e.target.value) || DEFAULT_SPAM_THRESHOLD)}
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Minimum seconds to submit</label>
+              <Input
+                type="number"
+                min={0}
+                max={60}
+                value={minSubmitSeconds}
+                onChange={(e) => setMinSubmitSeconds(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Spam keywords</label>
+            <textarea
+              value={spamKeywords}
+              onChange={(e) => setSpamKeywords(e.target.value)}
+              rows={5}
+              placeholder="One word or phrase per line"
+              className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm dark:border-slate-600 dark:bg-slate-800"
+              disabled={loading}
+            />
+          </div>
+
+          {spamFilter && spamFilter.checks.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Check weights</label>
+              <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+                {spamFilter.checks.map((check) => (
+                  <div key={check.id} className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-slate-700 dark:text-slate-300">{check.label}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={20}
+                      step={0.5}
+                      className="w-24"
+                      value={spamWeights[check.id] ?? check.defaultWeight}
+                      onChange={(e) => setSpamWeights((prev) => ({ ...prev, [check.id]: Math.max(0, Number(e.target.value) || 0) }))}
+                      aria-label={`${check.label} weight`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {spamFilter && (
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-md bg-slate-50 p-3 text-sm dark:bg-slate-800">
+              <span className="text-slate-600 dark:text-slate-400">
+                Classifier learned from {spamFilter.classifier.spamExamples} spam and {spamFilter.classifier.hamExamples} approved comments
+                {spamFilter.classifier.active
+                  ? '.'
+                  : ` — it starts scoring once it has ${spamFilter.classifier.minExamples} of each.`}
+              </span>
+              <Button size="sm" variant="outline" onClick={handleTrain} isLoading={training}>
+                Train from moderation history
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} isLoading={saving} disabled={loading || !loaded}>
+            Save Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
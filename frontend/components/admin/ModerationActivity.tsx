@@ -0,0 +1,129 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { fetchAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  moderationActionLabel,
+  moderatorName,
+  parseModerationActivity,
+  type ModerationActivity as ModerationActivityData,
+} from '@/lib/comment-moderation';
+
+const PAGE_SIZE = 20;
+
+/** Recent moderator actions across all comments, filterable by moderator */
+export default function ModerationActivity() {
+  const [moderatorId, setModeratorId] = useState('');
+  const [page, setPage] = useState(0);
+  const [activity, setActivity] = useState<ModerationActivityData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ skip: String(page * PAGE_SIZE), take: String(PAGE_SIZE) });
+      if (moderatorId) params.set('moderatorId', moderatorId);
+      const data = await fetchAPI(`/comments/moderation/history?${params.toString()}`, { redirectOn401: false, cache: 'no-store' });
+      setActivity(parseModerationActivity(data));
+      setError(null);
+    } catch (err: unknown) {
+      logger.error('Failed to load moderation activity', err, { component: 'ModerationActivity' });
+      setError(getErrorMessage(err, 'Failed to load moderation activity'));
+    } finally {
+      setLoading(false);
+    }
+  }, [moderatorId, page]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const pageCount = activity ? Math.max(1, Math.ceil(activity.total / PAGE_SIZE)) : 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle>Moderation Activity</CardTitle>
+          <select
+            value={moderatorId}
+            onChange={(e) => {
+              setModeratorId(e.target.value);
+              setPage(0);
+            }}
+            className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-sm"
+            aria-label="Filter by moderator"
+          >
+            <option value="">All moderators</option>
+            {activity?.moderators.map((moderator) => (
+              <option key={moderator.id} value={moderator.id}>
+                {moderatorName(moderator)} ({moderator.actions})
+              </option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {activity && activity.events.length === 0 && !loading && (
+          <p className="text-sm text-slate-500">No moderator actions recorded yet.</p>
+        )}
+        {activity && activity.events.length > 0 && (
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+            {activity.events.map((event) => (
+              <li key={event.id} className="py-2 text-sm">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <span>
+                    <span className="font-medium text-slate-900 dark:text-white">{moderatorName(event.moderator)}</span>{' '}
+                    <span className="text-slate-600 dark:text-slate-400">{moderationActionLabel(event.action).toLowerCase()}</span>{' '}
+                    {event.comment ? (
+                      <>
+                        a comment by {event.comment.authorName}
+                        {event.comment.post && (
+                          <>
+                            {' '}on{' '}
+                            <a
+                              href={`/blog/${event.comment.post.slug}#comment-${event.comment.id}`}
+                              target="_blank"
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              {event.comment.post.title}
+                            </a>
+                          </>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-slate-500">a deleted comment</span>
+                    )}
+                  </span>
+                  <span className="text-xs text-slate-500">{new Date(event.createdAt).toLocaleString()}</span>
+                </div>
+                {event.comment && (
+                  <p className="mt-1 line-clamp-2 text-xs text-slate-500">{event.comment.content}</p>
+                )}
+                {event.reason && <p className="mt-1 text-xs text-slate-500">Reason: {event.reason}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+        {activity && activity.total > PAGE_SIZE && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button size="sm" variant="outline" onClick={() => setPage((p) => p - 1)} disabled={page === 0 || loading}>
+              Previous
+            </Button>
+            <span className="text-slate-500">Page {page + 1} of {pageCount}</span>
+            <Button size="sm" variant="outline" onClick={() => setPage((p) => p + 1)} disabled={page + 1 >= pageCount || loading}>
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { Eye, Save, Split } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  parsePromptPreview,
+  parsePromptTemplateDetail,
+  parsePromptTemplateList,
+  type PromptPreview,
+  type PromptTemplateDetail,
+  type PromptTemplateSummary,
+} from '@/lib/prompt-templates';
+
+// Filled from SiteSettings, so the preview does not ask for them
+const SETTINGS_VARIABLES = ['siteKeywords', 'targetAudience', 'contentTone', 'contentFocus'];
+
+export default function PromptTemplates() {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [template, setTemplate] = useState<PromptTemplateDetail | null>(null);
+  const [draft, setDraft] = useState('');
+  const [notes, setNotes] = useState('');
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [sampleInput, setSampleInput] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  // Which action is running: 'save', 'preview', 'split', 'ab' or a version id
+  const [busy, setBusy] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const applyTemplate = (detail: PromptTemplateDetail | null) => {
+    setTemplate(detail);
+    if (!detail) return;
+    const active = detail.versions.find((version) => version.active) ?? detail.versions[0];
+    setDraft(active?.body ?? '');
+    setNotes('');
+    setPreview(null);
+    setWeights(Object.fromEntries(detail.versions.map((version) => [version.id, String(version.trafficWeight)])));
+  };
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const data = await fetchAPI('/ai/prompts', { redirectOn401: false, cache: 'no-store' });
+      const list = parsePromptTemplateList(data);
+      setTemplates(list);
+      setSelectedId((current) => current || list[0]?.id || '');
+    } catch (err: unknown) {
+      logger.error('Failed to load prompt templates', err, { component: 'PromptTemplates' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load prompt templates') });
+    }
+  }, []);
+
+  const loadTemplate = useCallback(async (id: string) => {
+    try {
+      const data = await fetchAPI(`/ai/prompts/${id}`, { redirectOn401: false, cache: 'no-store' });
+      applyTemplate(parsePromptTemplateDetail(data));
+    } catch (err: unknown) {
+      logger.error('Failed to load prompt template', err, { component: 'PromptTemplates' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load prompt template') });
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  useEffect(() => {
+    if (selectedId) loadTemplate(selectedId);
+  }, [selectedId, loadTemplate]);
+
+  const updateTemplate = async (body: Record<string, unknown>, key: string, success: string) => {
+    if (!template) return;
+    setBusy(key);
+    setMessage(null);
+    try {
+      const data = await fetchAPI(`/ai/prompts/${template.id}`, {
+        method: 'PUT',
+        body: JSON.stringify(body),
+        redirectOn401: false,
+        cache: 'no-store',
+      });
+      applyTemplate(parsePromptTemplateDetail(data));
+      setMessage({ type: 'success', text: success });
+      loadTemplates();
+    } catch (err: unknown) {
+      logger.error('Failed to update prompt template', err, { component: 'PromptTemplates' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to update prompt template') });
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const saveVersion = async () => {
+    if (!template || !draft.trim()) return;
+    setBusy('save');
+    setMessage(null);
+    try {
+      const data = await fetchAPI(`/ai/prompts/${template.id}/versions`, {
+        method: 'POST',
+        body: JSON.stringify({ body: draft, notes, activate: !template.abTestEnabled }),
+        redirectOn401: false,
+        cache: 'no-store',
+      });
+      const detail = parsePromptTemplateDetail(data);
+      applyTemplate(detail);
+      setMessage({
+        type: 'success',
+        text: template.abTestEnabled
+          ? `Saved as version ${detail?.versions[0]?.version ?? ''}. Give it a traffic weight to include it in the test.`
+          : `Saved as version ${detail?.versions[0]?.version ?? ''} and made active`,
+      });
+      loadTemplates();
+    } catch (err: unknown) {
+      logger.error('Failed to save prompt version', err, { component: 'PromptTemplates' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to save prompt version') });
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const runPreview = async () => {
+    if (!template) return;
+    setBusy('preview');
+    try {
+      const data = await fetchAPI(`/ai/prompts/${template.id}/preview`, {
+        method: 'POST',
+        body: JSON.stringify({ body: draft, variables: sampleInput }),
+        redirectOn401: false,
+        cache: 'no-store',
+      });
+      setPreview(parsePromptPreview(data));
+    } catch (err: unknown) {
+      logger.error('Failed to preview prompt', err, { component: 'PromptTemplates' });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to preview prompt') });
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const saveWeights = () => {
+    const trafficWeights = Object.fromEntries(
+      Object.entries(weights).map(([id, value]) => [id, Math.max(0, Math.round(Number(value) || 0))]),
+    );
+    return updateTemplate({ trafficWeights }, 'split', 'Traffic split saved');
+  };
+
+  const totalWeight = template?.versions.reduce((sum, version) => sum + (Number(weights[version.id]) || 0), 0) ?? 0;
+  const activeBody = template?.versions.find((version) => version.active)?.body ?? '';
+  const inputVariables = template?.variables.filter((name) => !SETTINGS_VARIABLES.includes(name)) ?? [];
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div className={`rounded-md p-4 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {templates.map((item) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => setSelectedId(item.id)}
+            className={`rounded-lg border px-4 py-2 text-left text-sm transition-colors ${
+              selectedId === item.id ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            <span className="block font-medium text-slate-900">{item.name}</span>
+            <span className="text-xs text-slate-500">
+              {item.versionCount} version{item.versionCount === 1 ? '' : 's'}
+              {item.abTestEnabled ? ' · A/B test running' : ''}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {template && (
+        <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle>{template.name}</CardTitle>
+              <CardDescription>
+                {template.description} Variables:{' '}
+                {template.variables.map((name) => (
+                  <code key={name} className="mr-1 rounded bg-slate-100 px-1 text-xs">{`{{${name}}}`}</code>
+                ))}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={18}
+                className="w-full rounded-md border border-slate-300 px-3 py-2 font-mono text-xs"
+              />
+              <p className="text-xs text-slate-500">
+                The JSON response format is added automatically after the prompt.
+              </p>
+              <Input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What changed in this version (optional)"
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  onClick={saveVersion}
+                  isLoading={busy === 'save'}
+                  disabled={!draft.trim() || draft.trim() === activeBody.trim()}
+                >
+                  <Save className="w-4 h-4 mr-2" /> Save as new version
+                </Button>
+                <Button variant="outline" onClick={runPreview} isLoading={busy === 'preview'}>
+                  <Eye className="w-4 h-4 mr-2" /> Preview
+                </Button>
+              </div>
+
+              {inputVariables.length > 0 && (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {inputVariables.map((name) => (
+                    <label key={name} className="text-xs text-slate-600">
+                      <span className="mb-1 block font-medium">{`{{${name}}}`} sample</span>
+                      <Input
+                        value={sampleInput[name] ?? ''}
+                        placeholder="Default sample"
+                        onChange={(e) => setSampleInput({ ...sampleInput, [name]: e.target.value })}
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {preview && (
+                <div className="space-y-2">
+                  {preview.unknown.length > 0 && (
+                    <p className="text-xs text-amber-700">
+                      Unknown variables (rendered empty): {preview.unknown.join(', ')}
+                    </p>
+                  )}
+                  {preview.missing.length > 0 && (
+                    <p className="text-xs text-amber-700">No value for: {preview.missing.join(', ')}</p>
+                  )}
+                  <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-slate-50 p-3 text-xs text-slate-800">
+                    {preview.prompt}
+                  </pre>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Versions</CardTitle>
+              <CardDescription>
+                Approval rate counts AI-reviewed posts that were approved versus sent back to draft or archived.
+                SEO score is the audit score when the post was generated.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={template.abTestEnabled}
+                  disabled={busy === 'ab'}
+                  onChange={(e) => updateTemplate(
+                    { abTestEnabled: e.target.checked },
+                    'ab',
+                    e.target.checked ? 'A/B test started' : 'A/B test stopped',
+                  )}
+                />
+                <Split className="w-4 h-4 text-slate-500" /> A/B test versions by traffic weight
+              </label>
+
+              <div className="space-y-3">
+                {template.versions.map((version) => (
+                  <div key={version.id} className="rounded-lg border border-slate-200 p-3 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">v{version.version}</span>
+                        {version.active && <Badge variant="success" size="sm">Active</Badge>}
+                        {template.abTestEnabled && totalWeight > 0 && Number(weights[version.id]) > 0 && (
+                          <Badge variant="info" size="sm">
+                            {Math.round(((Number(weights[version.id]) || 0) / totalWeight) * 100)}% of traffic
+                          </Badge>
+                        )}
+                      </div>
+                      <span className="text-xs text-slate-500">
+                        {version.createdAt ? new Date(version.createdAt).toLocaleDateString() : ''}
+                      </span>
+                    </div>
+                    {version.notes && <p className="mt-1 text-xs text-slate-600">{version.notes}</p>}
+                    <p className="mt-2 text-xs text-slate-600">
+                      {version.outcomes.posts} post{version.outcomes.posts === 1 ? '' : 's'}
+                      {' '}· approval {version.outcomes.approvalRate === null ? '—' : `${version.outcomes.approvalRate}%`}
+                      {' '}({version.outcomes.approved} approved, {version.outcomes.rejected} rejected,
+                      {' '}{version.outcomes.pendingReview} in review)
+                      {' '}· SEO {version.outcomes.avgSeoScore === null ? '—' : version.outcomes.avgSeoScore}
+                    </p>
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      {template.abTestEnabled && (
+                        <label className="flex items-center gap-1 text-xs text-slate-600">
+                          Weight
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={weights[version.id] ?? '0'}
+                            onChange={(e) => setWeights({ ...weights, [version.id]: e.target.value })}
+                            className="w-16 rounded-md border border-slate-300 px-2 py-1 text-sm"
+                          />
+                        </label>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => setDraft(version.body)}>
+                        Load into editor
+                      </Button>
+                      {!version.active && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          isLoading={busy === version.id}
+                          onClick={() => updateTemplate({ activeVersionId: version.id }, version.id, `Version ${version.version} is now active`)}
+                        >
+                          Make active
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {template.abTestEnabled && (
+                <Button variant="outline" onClick={saveWeights} isLoading={busy === 'split'}>
+                  Save traffic split
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { CalendarCheck, ChevronLeft, ChevronRight } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+
+interface SiteVisitSlot {
+  startsAt: string;
+  endsAt: string;
+  label: string;
+}
+
+interface SiteVisitDay {
+  date: string;
+  slots: SiteVisitSlot[];
+}
+
+interface SiteVisitPickerProps {
+  quoteRequestId: string;
+  name: string;
+  email: string;
+}
+
+const DAYS_PER_PAGE = 7;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const parseDays = (value: unknown): { timezone: string; days: SiteVisitDay[] } => {
+  if (!isRecord(value) || !Array.isArray(value.days)) return { timezone: '', days: [] };
+  return {
+    timezone: typeof value.timezone === 'string' ? value.timezone : '',
+    days: value.days.filter(isRecord).map((day) => ({
+      date: typeof day.date === 'string' ? day.date : '',
+      slots: Array.isArray(day.slots)
+        ? day.slots.filter(isRecord).map((slot) => ({
+            startsAt: typeof slot.startsAt === 'string' ? slot.startsAt : '',
+            endsAt: typeof slot.endsAt === 'string' ? slot.endsAt : '',
+            label: typeof slot.label === 'string' ? slot.label : '',
+          })).filter((slot) => slot.startsAt)
+        : [],
+    })).filter((day) => day.date),
+  };
+};
+
+const addDays = (date: string, days: number) => {
+  const base = new Date(`${date}T00:00:00Z`);
+  base.setUTCDate(base.getUTCDate() + days);
+  return base.toISOString().slice(0, 10);
+};
+
+const formatDay = (date: string) => new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, {
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+  timeZone: 'UTC',
+});
+
+const formatTime = (iso: string, timezone: string) => new Date(iso).toLocaleTimeString(undefined, {
+  hour: '2-digit',
+  minute: '2-digit',
+  timeZone: timezone || undefined,
+});
+
+export function SiteVisitPicker({ quoteRequestId, name, email }: SiteVisitPickerProps) {
+  const [from, setFrom] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  const [timezone, setTimezone] = useState('');
+  const [days, setDays] = useState<SiteVisitDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<SiteVisitSlot | null>(null);
+  const [address, setAddress] = useState('');
+  const [booking, setBooking] = useState(false);
+  const [bookedLabel, setBookedLabel] = useState('');
+  const [error, setError] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    setLoading(true);
+    const params = new URLSearchParams({ days: String(DAYS_PER_PAGE) });
+    if (from) params.set('from', from);
+    fetchAPI(`/bookings/site-visit-slots?${params.toString()}`, { redirectOn401: false, cache: 'no-store' })
+      .then((data) => {
+        const parsed = parseDays(data);
+        setTimezone(parsed.timezone);
+        setDays(parsed.days);
+      })
+      .catch((err) => {
+        logger.error('Failed to load site visit slots', err, { component: 'SiteVisitPicker' });
+        setError('Could not load available times. We will call you to arrange a visit.');
+      })
+      .finally(() => setLoading(false));
+  }, [from, reloadKey]);
+
+  const handleBook = async () => {
+    if (!selected) return;
+    setBooking(true);
+    setError('');
+    try {
+      const data = await fetchAPI('/bookings/site-visit', {
+        method: 'POST',
+        body: JSON.stringify({ quoteRequestId, name, email, address, startsAt: selected.startsAt }),
+        redirectOn401: false,
+      });
+      setBookedLabel(isRecord(data) && typeof data.label === 'string' ? data.label : selected.label);
+    } catch (err) {
+      logger.error('Failed to book site visit', err, { component: 'SiteVisitPicker' });
+      setError(getErrorMessage(err, 'Failed to book the visit. Please choose another time.'));
+      setSelected(null);
+      setReloadKey((key) => key + 1);
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  if (bookedLabel) {
+    return (
+      <div className="rounded-lg border border-green-200 bg-green-50 p-4 text-left text-green-800">
+        <p className="flex items-center gap-2 font-semibold"><CalendarCheck className="w-5 h-5" /> Site visit reserved</p>
+        <p className="mt-1 text-sm">{bookedLabel}. Please confirm it from the email we sent to {email}; unconfirmed visits are released after two hours.</p>
+      </div>
+    );
+  }
+
+  const lastDate = days.length > 0 ? days[days.length - 1].date : '';
+  const hasSlots = days.some((day) => day.slots.length > 0);
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-foreground">Book a free site visit</h4>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={history.length === 0 || loading}
+            onClick={() => {
+              setFrom(history[history.length - 1]);
+              setHistory(history.slice(0, -1));
+            }}
+            aria-label="Previous week"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={!lastDate || days.length < DAYS_PER_PAGE || loading}
+            onClick={() => {
+              setHistory([...history, from]);
+              setFrom(addDays(lastDate, 1));
+            }}
+            aria-label="Next week"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading available times...</p>
+      ) : !hasSlots ? (
+        <p className="text-sm text-muted-foreground">No free times this week. Try the next week or we will call you.</p>
+      ) : (
+        <div className="space-y-3">
+          {days.filter((day) => day.slots.length > 0).map((day) => (
+            <div key={day.date}>
+              <p className="mb-1 text-sm font-medium text-foreground">{formatDay(day.date)}</p>
+              <div className="flex flex-wrap gap-2">
+                {day.slots.map((slot) => (
+                  <Button
+                    key={slot.startsAt}
+                    type="button"
+                    size="sm"
+                    variant={selected?.startsAt === slot.startsAt ? 'primary' : 'outline'}
+                    onClick={() => setSelected(slot)}
+                  >
+                    {formatTime(slot.startsAt, timezone)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-2">
+          <label htmlFor="visit-address" className="text-sm font-medium text-foreground">Property address</label>
+          <Input id="visit-address" value={address} onChange={(e) => setAddress(e.target.value)} placeholder="Building, street, area" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Button type="button" onClick={handleBook} disabled={!selected || booking}>
+        <CalendarCheck className="w-4 h-4 mr-2" />
+        {booking ? 'Booking...' : selected ? `Book ${selected.label}` : 'Choose a time'}
+      </Button>
+    </div>
+  );
+}
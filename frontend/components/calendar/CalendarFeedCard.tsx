@@ -0,0 +1,158 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { CalendarPlus, Copy, RefreshCw, Trash2 } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+
+type FeedScope = 'includeContent' | 'includeCampaigns' | 'includeBookings';
+
+interface CalendarFeed {
+  url: string;
+  includeContent: boolean;
+  includeCampaigns: boolean;
+  includeBookings: boolean;
+  lastAccessedAt: string | null;
+}
+
+const SCOPE_LABELS: Record<FeedScope, string> = {
+  includeContent: 'Scheduled posts & pages',
+  includeCampaigns: 'Notification campaigns',
+  includeBookings: 'Site visits & jobs',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const parseFeed = (value: unknown): CalendarFeed | null => {
+  const feed = isRecord(value) ? value.feed : null;
+  if (!isRecord(feed) || typeof feed.url !== 'string') return null;
+  return {
+    url: feed.url,
+    includeContent: feed.includeContent !== false,
+    includeCampaigns: feed.includeCampaigns !== false,
+    includeBookings: feed.includeBookings !== false,
+    lastAccessedAt: typeof feed.lastAccessedAt === 'string' ? feed.lastAccessedAt : null,
+  };
+};
+
+/**
+ * Lets the signed-in user subscribe to their personal iCalendar feed from
+ * Google Calendar, Outlook or Apple Calendar.
+ */
+export function CalendarFeedCard() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchAPI('/calendar/feed', { redirectOn401: false, cache: 'no-store' })
+      .then((data) => setFeed(parseFeed(data)))
+      .catch((err) => logger.error('Failed to load calendar feed', err, { component: 'CalendarFeedCard' }))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const runAction = async (action: () => Promise<unknown>, successText: string) => {
+    setBusy(true);
+    setMessage('');
+    try {
+      await action();
+      setMessage(successText);
+    } catch (err) {
+      logger.error('Calendar feed action failed', err, { component: 'CalendarFeedCard' });
+      setMessage(getErrorMessage(err, 'Action failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRotate = () => {
+    if (feed && !confirm('Generate a new link? Calendars subscribed to the old link will stop updating.')) return;
+    runAction(async () => {
+      setFeed(parseFeed(await fetchAPI('/calendar/feed', { method: 'POST', body: JSON.stringify({}), redirectOn401: false })));
+    }, feed ? 'New link generated.' : 'Calendar link created.');
+  };
+
+  const handleScope = (scope: FeedScope, value: boolean) => runAction(async () => {
+    setFeed(parseFeed(await fetchAPI('/calendar/feed', {
+      method: 'PUT',
+      body: JSON.stringify({ [scope]: value }),
+      redirectOn401: false,
+    })));
+  }, 'Feed updated.');
+
+  const handleRevoke = () => {
+    if (!confirm('Turn off the calendar feed? Subscribed calendars will stop updating.')) return;
+    runAction(async () => {
+      await fetchAPI('/calendar/feed', { method: 'DELETE', redirectOn401: false });
+      setFeed(null);
+    }, 'Calendar feed turned off.');
+  };
+
+  const handleCopy = () => runAction(async () => {
+    if (feed) await navigator.clipboard.writeText(feed.url);
+  }, 'Link copied.');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><CalendarPlus className="w-5 h-5" /> Subscribe in Your Calendar</CardTitle>
+        <CardDescription>
+          A private link for Google Calendar, Outlook or Apple Calendar. Anyone with the link can read it, so keep it to yourself.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-slate-500">Loading...</p>
+        ) : !feed ? (
+          <Button onClick={handleRotate} disabled={busy}>
+            <CalendarPlus className="w-4 h-4 mr-2" /> Create Calendar Link
+          </Button>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} aria-label="Calendar feed URL" />
+              <Button variant="outline" onClick={handleCopy} disabled={busy} aria-label="Copy link">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-4 text-sm">
+              {(Object.keys(SCOPE_LABELS) as FeedScope[]).map((scope) => (
+                <label key={scope} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={feed[scope]}
+                    disabled={busy}
+                    onChange={(e) => handleScope(scope, e.target.checked)}
+                  />
+                  {SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500">
+              {feed.lastAccessedAt
+                ? `Last synced ${new Date(feed.lastAccessedAt).toLocaleString()}`
+                : 'Not synced by a calendar app yet.'}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleRotate} disabled={busy}>
+                <RefreshCw className="w-4 h-4 mr-2" /> New Link
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleRevoke} disabled={busy}>
+                <Trash2 className="w-4 h-4 mr-2" /> Turn Off
+              </Button>
+            </div>
+          </>
+        )}
+        {message && <p className="text-sm text-slate-600">{message}</p>}
+      </CardContent>
+    </Card>
+  );
+}
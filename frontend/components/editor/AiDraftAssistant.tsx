@@ -0,0 +1,385 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useRef, useState, type RefObject } from 'react';
+import { Check, Loader2, Play, RefreshCw, Sparkles, Square } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { streamAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  SELECTION_EDIT_ACTIONS,
+  readDraftEvents,
+  sanitizeDraftHtml,
+  type DraftEvent,
+  type SelectionEditAction,
+} from '@/lib/ai-draft';
+import type { RichTextEditorHandle } from './RichTextEditor';
+
+type RunKind = 'draft' | 'section' | SelectionEditAction;
+
+/** Element that streamed HTML is written into until the stream ends */
+type ActiveTarget = {
+  container: HTMLElement;
+  html: string;
+  /** Selection edits inside a paragraph lose their <p> wrappers when finished */
+  inline: boolean;
+};
+
+interface AiDraftAssistantProps {
+  editor: RefObject<RichTextEditorHandle | null>;
+  /** Post title, used as the topic when the topic field is empty */
+  title: string;
+}
+
+const isSectionHeading = (node: Node | null): node is HTMLElement => (
+  node instanceof HTMLElement && node.tagName === 'H2'
+);
+
+/** Nodes after a heading up to the next H2 */
+const sectionBody = (heading: HTMLElement): Node[] => {
+  const nodes: Node[] = [];
+  let node = heading.nextSibling;
+  while (node && !isSectionHeading(node)) {
+    nodes.push(node);
+    node = node.nextSibling;
+  }
+  return nodes;
+};
+
+/** Direct child of the editor root that contains the node */
+const topLevelBlock = (root: HTMLElement, node: Node): Node | null => {
+  let current: Node | null = node;
+  while (current && current.parentNode !== root) {
+    current = current.parentNode;
+  }
+  return current;
+};
+
+const findSectionHeading = (root: HTMLElement, range: Range | null): HTMLElement | null => {
+  let node = range ? topLevelBlock(root, range.startContainer) : null;
+  while (node && !isSectionHeading(node)) {
+    node = node.previousSibling;
+  }
+  return node;
+};
+
+const unwrap = (element: HTMLElement) => {
+  element.replaceWith(...Array.from(element.childNodes));
+};
+
+export default function AiDraftAssistant({ editor, title }: AiDraftAssistantProps) {
+  const [topic, setTopic] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [running, setRunning] = useState<RunKind | null>(null);
+  const [outlineText, setOutlineText] = useState('');
+  const [outline, setOutline] = useState<string[]>([]);
+  const [completed, setCompleted] = useState<number[]>([]);
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const activeRef = useRef<ActiveTarget | null>(null);
+  // Heading element of each draft section, so Continue can rewrite a stopped section in place
+  const headingsRef = useRef<Map<number, HTMLElement>>(new Map());
+
+  const effectiveTopic = topic.trim() || title.trim();
+  const nextSection = outline.findIndex((_, index) => !completed.includes(index));
+  const canContinue = outline.length > 0 && nextSection !== -1;
+
+  const writeActive = (html: string) => {
+    const target = activeRef.current;
+    if (!target) return;
+    target.html += html;
+    target.container.innerHTML = sanitizeDraftHtml(target.html);
+  };
+
+  const finishActive = () => {
+    const target = activeRef.current;
+    activeRef.current = null;
+    if (!target || !target.container.isConnected) return;
+    if (target.inline) {
+      target.container.querySelectorAll('p').forEach((paragraph) => {
+        paragraph.after(document.createTextNode(' '));
+        unwrap(paragraph);
+      });
+    }
+    unwrap(target.container);
+  };
+
+  const runStream = async (
+    kind: RunKind,
+    endpoint: string,
+    body: Record<string, unknown>,
+    onEvent: (event: DraftEvent) => void,
+  ) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(kind);
+    setMessage(null);
+    try {
+      const response = await streamAPI(endpoint, body, controller.signal);
+      for await (const event of readDraftEvents(response)) {
+        if (event.type === 'error') {
+          setMessage({ type: 'error', text: event.message });
+        } else {
+          onEvent(event);
+        }
+      }
+    } catch (err: unknown) {
+      if (!controller.signal.aborted) {
+        logger.error('AI draft stream failed', err, { component: 'AiDraftAssistant' });
+        setMessage({ type: 'error', text: getErrorMessage(err, 'AI draft generation failed') });
+      }
+    } finally {
+      abortRef.current = null;
+      finishActive();
+      editor.current?.commitChanges();
+      setCurrentIndex(null);
+      setRunning(null);
+    }
+  };
+
+  const generateDraft = async (continueDraft: boolean) => {
+    const root = editor.current?.getRoot();
+    if (!root) return;
+    if (!effectiveTopic) {
+      setMessage({ type: 'error', text: 'Enter a topic or a post title first' });
+      return;
+    }
+
+    if (!continueDraft) {
+      if (root.innerText.trim() && !confirm('Replace the current content with an AI draft? You can undo with Ctrl+Z.')) return;
+      editor.current?.commitChanges();
+      root.innerHTML = '';
+      headingsRef.current.clear();
+      setOutline([]);
+      setOutlineText('');
+      setCompleted([]);
+    }
+
+    await runStream('draft', '/blog/ai/draft', continueDraft
+      ? { topic: effectiveTopic, outline, startAt: nextSection }
+      : { topic: effectiveTopic }, (event) => {
+      switch (event.type) {
+        case 'outline-delta':
+          setOutlineText((prev) => prev + event.text);
+          break;
+        case 'outline':
+          setOutline(event.headings);
+          break;
+        case 'section-start': {
+          let heading = headingsRef.current.get(event.index);
+          if (heading && root.contains(heading)) {
+            sectionBody(heading).forEach((node) => node.parentNode?.removeChild(node));
+          } else {
+            heading = document.createElement('h2');
+            heading.textContent = event.heading;
+            root.appendChild(heading);
+            headingsRef.current.set(event.index, heading);
+          }
+          const container = document.createElement('div');
+          heading.after(container);
+          activeRef.current = { container, html: '', inline: false };
+          setCurrentIndex(event.index);
+          break;
+        }
+        case 'delta':
+          writeActive(event.html);
+          break;
+        case 'section-end':
+          finishActive();
+          editor.current?.commitChanges();
+          setCompleted((prev) => (prev.includes(event.index) ? prev : [...prev, event.index]));
+          break;
+        case 'done':
+          if (!event.stopped) setMessage({ type: 'success', text: 'Draft complete. Review and edit before publishing.' });
+          break;
+      }
+    });
+  };
+
+  const regenerateSection = async () => {
+    const root = editor.current?.getRoot();
+    if (!root) return;
+    const heading = findSectionHeading(root, editor.current?.getSelectionRange() ?? null);
+    if (!heading) {
+      setMessage({ type: 'error', text: 'Place the cursor in a section under an H2 heading first' });
+      return;
+    }
+    if (!effectiveTopic) {
+      setMessage({ type: 'error', text: 'Enter a topic or a post title first' });
+      return;
+    }
+
+    const headings = Array.from(root.querySelectorAll(':scope > h2'));
+    const headingText = heading.textContent?.trim() ?? '';
+    editor.current?.commitChanges();
+    sectionBody(heading).forEach((node) => node.parentNode?.removeChild(node));
+    const container = document.createElement('div');
+    heading.after(container);
+    activeRef.current = { container, html: '', inline: false };
+
+    await runStream('section', '/blog/ai/draft/section', {
+      topic: effectiveTopic,
+      heading: headingText,
+      outline: headings.map((item) => item.textContent?.trim() ?? '').filter(Boolean),
+      index: headings.indexOf(heading),
+      instructions: instructions.trim() || undefined,
+    }, (event) => {
+      if (event.type === 'delta') writeActive(event.html);
+    });
+  };
+
+  const editSelection = async (action: SelectionEditAction) => {
+    const root = editor.current?.getRoot();
+    const range = editor.current?.getSelectionRange();
+    if (!root || !range || range.collapsed || !range.toString().trim()) {
+      setMessage({ type: 'error', text: 'Select some text in the editor first' });
+      return;
+    }
+
+    // A selection across blocks, or a whole block, is replaced block by block
+    const startBlock = topLevelBlock(root, range.startContainer);
+    const endBlock = topLevelBlock(root, range.endContainer);
+    const inline = startBlock !== null
+      && startBlock === endBlock
+      && startBlock.nodeType === Node.ELEMENT_NODE
+      && range.toString().trim() !== (startBlock.textContent ?? '').trim();
+    if (!inline && startBlock && endBlock) {
+      range.setStartBefore(startBlock);
+      range.setEndAfter(endBlock);
+    }
+
+    const holder = document.createElement('div');
+    holder.appendChild(range.cloneContents());
+    const html = holder.innerHTML;
+
+    editor.current?.commitChanges();
+    const container = document.createElement(inline ? 'span' : 'div');
+    range.deleteContents();
+    range.insertNode(container);
+    activeRef.current = { container, html: '', inline };
+
+    await runStream(action, '/blog/ai/draft/selection', {
+      action,
+      html,
+      topic: effectiveTopic || undefined,
+    }, (event) => {
+      if (event.type === 'delta') writeActive(event.html);
+    });
+  };
+
+  const stop = () => {
+    abortRef.current?.abort();
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+      <div className="flex items-center gap-2">
+        <Sparkles className="h-4 w-4 text-purple-600" />
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-white">AI Draft Assistant</h3>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="min-w-[220px] flex-1">
+          <Input
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            placeholder={title.trim() || 'Topic of the post'}
+            aria-label="Draft topic"
+            disabled={running !== null}
+          />
+        </div>
+        {running === null ? (
+          <>
+            <Button type="button" size="sm" onClick={() => generateDraft(false)}>
+              <Sparkles className="mr-2 h-4 w-4" />
+              Generate draft
+            </Button>
+            {canContinue && (
+              <Button type="button" size="sm" variant="outline" onClick={() => generateDraft(true)}>
+                <Play className="mr-2 h-4 w-4" />
+                Continue
+              </Button>
+            )}
+          </>
+        ) : (
+          <Button type="button" size="sm" variant="danger" onClick={stop}>
+            <Square className="mr-2 h-4 w-4" />
+            Stop
+          </Button>
+        )}
+      </div>
+
+      {outline.length > 0 ? (
+        <ol className="space-y-1 text-sm">
+          {outline.map((heading, index) => (
+            <li key={`${index}-${heading}`} className="flex items-center gap-2 text-slate-700 dark:text-slate-300">
+              {completed.includes(index) ? (
+                <Check className="h-4 w-4 text-green-600" />
+              ) : currentIndex === index ? (
+                <Loader2 className="h-4 w-4 animate-spin text-purple-600" />
+              ) : (
+                <span className="inline-block h-4 w-4 text-center text-xs text-slate-400">{index + 1}</span>
+              )}
+              {heading}
+            </li>
+          ))}
+        </ol>
+      ) : outlineText && (
+        <pre className="whitespace-pre-wrap text-sm text-slate-600 dark:text-slate-400">{outlineText}</pre>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 border-t border-slate-200 dark:border-slate-700 pt-3">
+        <div className="min-w-[220px] flex-1">
+          <Input
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="Instructions for the section (optional)"
+            aria-label="Section instructions"
+            disabled={running !== null}
+          />
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={regenerateSection}
+          isLoading={running === 'section'}
+          disabled={running !== null}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Regenerate this section
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-slate-600 dark:text-slate-400">Selection:</span>
+        {SELECTION_EDIT_ACTIONS.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => editSelection(option.value)}
+            isLoading={running === option.value}
+            disabled={running !== null}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        Put the cursor in a section or select text in the editor, then choose an action. Ctrl+Z undoes AI changes.
+      </p>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { SafeHtml } from '@/components/SafeHtml';
+import { joinHtmlBlocks } from '@/lib/html-blocks';
+import { diffHtmlBlocks, type DiffRow } from '@/lib/html-diff';
+import type { EditConflict } from '@/lib/editing';
+
+type Side = 'mine' | 'theirs';
+
+export type MergeField =
+  | { key: string; label: string; kind: 'text' | 'html'; mine: string; theirs: string }
+  | { key: string; label: string; kind: 'list'; mine: string[]; theirs: string[]; labels?: Record<string, string> };
+
+export type MergedValues = Record<string, string | string[]>;
+
+interface EditConflictDialogProps {
+  conflict: EditConflict;
+  fields: MergeField[];
+  saving: boolean;
+  onCancel: () => void;
+  onSave: (merged: MergedValues) => void;
+}
+
+const sameValue = (field: MergeField) => (
+  field.kind === 'list'
+    ? [...field.mine].sort().join('\n') === [...field.theirs].sort().join('\n')
+    : field.mine === field.theirs
+);
+
+/** Merge content block by block: `before` of each row is the saved version, `after` is the user's */
+const mergeBlocks = (rows: DiffRow[], choices: Record<number, Side>) => joinHtmlBlocks(rows.flatMap((row, index) => {
+  if (row.kind === 'same') return row.after ? [row.after] : [];
+  const block = (choices[index] ?? 'mine') === 'mine' ? row.after : row.before;
+  return block ? [block] : [];
+}));
+
+function SideToggle({ value, onChange }: { value: Side; onChange: (side: Side) => void }) {
+  return (
+    <div className="inline-flex overflow-hidden rounded-md border border-slate-300 text-xs dark:border-slate-600">
+      {(['theirs', 'mine'] as Side[]).map((side) => (
+        <button
+          key={side}
+          type="button"
+          onClick={() => onChange(side)}
+          className={`px-2 py-1 ${value === side ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50 dark:bg-slate-800 dark:text-slate-300'}`}
+        >
+          {side === 'mine' ? 'Keep mine' : 'Use saved'}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Merge view for a save rejected because someone else saved first. Each
+ * differing field is taken from one side; content is merged block by block.
+ */
+export default function EditConflictDialog({ conflict, fields, saving, onCancel, onSave }: EditConflictDialogProps) {
+  const differing = useMemo(() => fields.filter((field) => !sameValue(field)), [fields]);
+  const contentRows = useMemo(() => {
+    const rows: Record<string, DiffRow[]> = {};
+    for (const field of differing) {
+      if (field.kind === 'html') rows[field.key] = diffHtmlBlocks(field.theirs, field.mine);
+    }
+    return rows;
+  }, [differing]);
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [blockChoices, setBlockChoices] = useState<Record<string, Record<number, Side>>>({});
+
+  const chooseAll = (side: Side) => {
+    setChoices(Object.fromEntries(differing.map((field) => [field.key, side])));
+    setBlockChoices(Object.fromEntries(Object.entries(contentRows).map(([key, rows]) => [
+      key,
+      Object.fromEntries(rows.map((_, index) => [index, side])),
+    ])));
+  };
+
+  const save = () => {
+    const merged: MergedValues = {};
+    for (const field of fields) {
+      if (field.kind === 'html' && contentRows[field.key]) {
+        merged[field.key] = mergeBlocks(contentRows[field.key], blockChoices[field.key] ?? {});
+      } else {
+        merged[field.key] = (choices[field.key] ?? 'mine') === 'mine' ? field.mine : field.theirs;
+      }
+    }
+    onSave(merged);
+  };
+
+  const savedBy = conflict.updatedBy?.name ?? 'another editor';
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <div className="flex max-h-[90vh] w-full max-w-5xl flex-col rounded-xl bg-white shadow-2xl dark:bg-slate-800">
+        <div className="flex items-start justify-between gap-4 border-b border-slate-200 p-6 dark:border-slate-700">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-slate-900 dark:text-white">
+              <GitMerge className="h-5 w-5 text-orange-500" /> Merge changes
+            </h3>
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+              {conflict.message}. Choose which version to keep for each difference, then save the merged result.
+            </p>
+          </div>
+          <button type="button" onClick={onCancel} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-6 overflow-y-auto p-6">
+          {differing.length === 0 && (
+            <p className="text-sm text-slate-500">Your changes match the saved version; saving keeps them.</p>
+          )}
+          {differing.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm font-medium text-slate-900 dark:text-white">{field.label}</p>
+                {field.kind !== 'html' && (
+                  <SideToggle
+                    value={choices[field.key] ?? 'mine'}
+                    onChange={(side) => setChoices((prev) => ({ ...prev, [field.key]: side }))}
+                  />
+                )}
+              </div>
+
+              {field.kind === 'html' ? (
+                <div className="overflow-hidden rounded-md border border-slate-200 dark:border-slate-700">
+                  <div className="grid grid-cols-[1fr_1fr_auto] border-b border-slate-200 bg-slate-50 text-xs font-medium text-slate-500 dark:border-slate-700 dark:bg-slate-900">
+                    <div className="px-3 py-2">Saved by {savedBy}</div>
+                    <div className="border-l border-slate-200 px-3 py-2 dark:border-slate-700">Yours</div>
+                    <div className="w-40" />
+                  </div>
+                  {contentRows[field.key].map((row, index) => (
+                    row.kind === 'same' ? null : (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto] items-start border-b border-slate-100 last:border-0 dark:border-slate-700">
+                        <div className="bg-red-50 px-3 py-2 dark:bg-red-900/20">
+                          {row.before ? <SafeHtml html={row.before} className="prose prose-sm max-w-none" /> : <span className="text-xs italic text-slate-400">Not in saved version</span>}
+                        </div>
+                        <div className="border-l border-slate-200 bg-green-50 px-3 py-2 dark:border-slate-700 dark:bg-green-900/20">
+                          {row.after ? <SafeHtml html={row.after} className="prose prose-sm max-w-none" /> : <span className="text-xs italic text-slate-400">Not in your version</span>}
+                        </div>
+                        <div className="w-40 px-3 py-2">
+                          <SideToggle
+                            value={blockChoices[field.key]?.[index] ?? 'mine'}
+                            onChange={(side) => setBlockChoices((prev) => ({
+                              ...prev,
+                              [field.key]: { ...prev[field.key], [index]: side },
+                            }))}
+                          />
+                        </div>
+                      </div>
+                    )
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div className="rounded-md bg-red-50 px-3 py-2 text-slate-700 dark:bg-red-900/20 dark:text-slate-300">
+                    <p className="mb-1 text-xs text-slate-500">Saved by {savedBy}</p>
+                    {field.kind === 'list'
+                      ? field.theirs.map((item) => field.labels?.[item] ?? item).join(', ') || '—'
+                      : field.theirs || '—'}
+                  </div>
+                  <div className="rounded-md bg-green-50 px-3 py-2 text-slate-700 dark:bg-green-900/20 dark:text-slate-300">
+                    <p className="mb-1 text-xs text-slate-500">Yours</p>
+                    {field.kind === 'list'
+                      ? field.mine.map((item) => field.labels?.[item] ?? item).join(', ') || '—'
+                      : field.mine || '—'}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-3 border-t border-slate-200 p-6 dark:border-slate-700">
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => chooseAll('theirs')}>Use saved for all</Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => chooseAll('mine')}>Keep mine for all</Button>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="ghost" onClick={onCancel} disabled={saving}>Cancel</Button>
+            <Button type="button" onClick={save} isLoading={saving}>Save merged version</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
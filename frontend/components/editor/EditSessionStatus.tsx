@@ -0,0 +1,82 @@
+'use client';
+
+import { AlertTriangle, CloudOff, Save, Users } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import type { EditDraft, EditPresence } from '@/lib/editing';
+
+interface EditSessionStatusProps {
+  editors: EditPresence[];
+  remoteChanged: boolean;
+  pendingDraft: EditDraft | null;
+  autosavedAt: string | null;
+  autosaveFailed: boolean;
+  onRestoreDraft: () => void;
+  onDiscardDraft: () => void;
+}
+
+const formatTime = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+const formatDateTime = (value: string | null) => {
+  if (!value) return 'earlier';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? 'earlier' : date.toLocaleString();
+};
+
+/** Presence, autosave state and the autosaved-draft prompt shown above a post or page editor */
+export default function EditSessionStatus({
+  editors,
+  remoteChanged,
+  pendingDraft,
+  autosavedAt,
+  autosaveFailed,
+  onRestoreDraft,
+  onDiscardDraft,
+}: EditSessionStatusProps) {
+  return (
+    <div className="space-y-3">
+      {pendingDraft && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-800 dark:border-blue-800 dark:bg-blue-900/20 dark:text-blue-200">
+          <span>
+            You have unsaved changes autosaved {formatDateTime(pendingDraft.savedAt)}.
+            {pendingDraft.stale && ' Someone has saved since then, so you will be asked to merge when you save.'}
+          </span>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={onRestoreDraft}>Restore</Button>
+            <Button type="button" size="sm" variant="outline" onClick={onDiscardDraft}>Discard</Button>
+          </div>
+        </div>
+      )}
+
+      {remoteChanged && (
+        <div className="flex items-center gap-2 rounded-md border border-yellow-200 bg-yellow-50 px-4 py-3 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          A newer version was saved while you were editing. Saving will ask you to merge your changes.
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs text-slate-500 dark:text-slate-400">
+        <div className="flex flex-wrap items-center gap-2">
+          {editors.length > 0 && (
+            <>
+              <Users className="h-4 w-4 text-orange-500" />
+              <span>Also editing:</span>
+              {editors.map((editor) => (
+                <Badge key={editor.id} variant="warning" size="sm">{editor.name}</Badge>
+              ))}
+            </>
+          )}
+        </div>
+        {autosaveFailed ? (
+          <span className="flex items-center gap-1 text-red-600"><CloudOff className="h-3 w-3" /> Autosave failed</span>
+        ) : autosavedAt ? (
+          <span className="flex items-center gap-1"><Save className="h-3 w-3" /> Autosaved at {formatTime(autosavedAt)}</span>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useState } from 'react';
+import { Link2, Link2Off } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { fetchAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  countAutoLinks,
+  parsePostInterlinkPreview,
+  stripAutoLinks,
+  type PostInterlinkPreview,
+} from '@/lib/interlinks';
+
+interface InterlinkPanelProps {
+  postId: string;
+  /** Unsaved editor HTML; links are previewed against it rather than the stored post */
+  content: string;
+  /** Replace the editor content; InternalLink records follow on the next save */
+  onApply: (content: string) => void;
+}
+
+export default function InterlinkPanel({ postId, content, onApply }: InterlinkPanelProps) {
+  const [preview, setPreview] = useState<PostInterlinkPreview | null>(null);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generatedCount = countAutoLinks(content);
+
+  const loadPreview = async (skip: string[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchAPI(`/blog/ai/interlink/preview/${postId}`, {
+        method: 'POST',
+        body: JSON.stringify({ content, skip }),
+        redirectOn401: false,
+      });
+      const parsed = parsePostInterlinkPreview(data);
+      if (!parsed) throw new Error('Unexpected preview response');
+      setPreview(parsed);
+      setSkipped(skip);
+    } catch (err) {
+      logger.error('Failed to preview internal links', err, { component: 'InterlinkPanel', postId });
+      setError(getErrorMessage(err, 'Failed to preview internal links'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const skipTarget = (targetPostId: string) => loadPreview([...skipped, targetPostId]);
+
+  const apply = () => {
+    if (!preview) return;
+    onApply(preview.content);
+    setPreview(null);
+    setSkipped([]);
+  };
+
+  const removeGenerated = () => {
+    onApply(stripAutoLinks(content));
+    setPreview(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600 dark:text-slate-400">
+        Links the first natural mention of related posts in the text. Inserting replaces the links generated earlier;
+        links you added yourself are never changed.
+      </p>
+
+      {error && <div className="rounded-md bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => loadPreview([])} isLoading={loading}>
+          <Link2 className="mr-2 h-4 w-4" />
+          {preview ? 'Refresh Preview' : 'Preview Links'}
+        </Button>
+        {generatedCount > 0 && (
+          <Button type="button" size="sm" variant="ghost" onClick={removeGenerated} disabled={loading}>
+            <Link2Off className="mr-2 h-4 w-4" />
+            Remove {generatedCount} generated link{generatedCount === 1 ? '' : 's'}
+          </Button>
+        )}
+      </div>
+
+      {preview && (
+        <div className="space-y-3 rounded-lg border border-slate-200 p-4 dark:border-slate-700">
+          {preview.links.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              No related post is mentioned in the text{preview.removed > 0 ? `; ${preview.removed} generated link(s) would be removed` : ''}.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {preview.links.map((link) => (
+                <li key={link.targetPostId} className="flex items-start justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-slate-900 dark:text-white">
+                      <span className="font-medium text-blue-600 dark:text-blue-400">{link.anchorText}</span>
+                      {' → '}
+                      {link.targetTitle}
+                    </p>
+                    <p className="truncate text-xs text-slate-500">…{link.context}…</p>
+                  </div>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => skipTarget(link.targetPostId)} disabled={loading}>
+                    Skip
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="flex gap-2">
+              {skipped.length > 0 && <Badge variant="default" size="sm">{skipped.length} skipped</Badge>}
+              {preview.removed > 0 && <Badge variant="info" size="sm">{preview.removed} replaced</Badge>}
+            </span>
+            <span className="flex gap-2">
+              <Button type="button" size="sm" variant="ghost" onClick={() => setPreview(null)}>
+                Dismiss
+              </Button>
+              <Button type="button" size="sm" onClick={apply} disabled={loading || preview.content === content}>
+                Insert Links
+              </Button>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useToast } from '@/components/ui/Toast';
+import { fetchAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/error-utils';
+import {
+  COMMENT_MODERATION_MODES,
+  parsePostCommentSettings,
+  type CommentModerationMode,
+  type PostCommentSettings as PostCommentSettingsValue,
+} from '@/lib/comment-moderation';
+
+interface PostCommentSettingsProps {
+  postId: string;
+}
+
+/** Per-post overrides of the site comment rules; saved on their own, apart from the post */
+export default function PostCommentSettings({ postId }: PostCommentSettingsProps) {
+  const { success, error: showError } = useToast();
+  const [settings, setSettings] = useState<PostCommentSettingsValue | null>(null);
+  const [allowComments, setAllowComments] = useState(true);
+  const [mode, setMode] = useState<CommentModerationMode>('SITE_DEFAULT');
+  // Empty follows the site setting
+  const [autoCloseDays, setAutoCloseDays] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const applySettings = (value: PostCommentSettingsValue) => {
+    setSettings(value);
+    setAllowComments(value.allowComments);
+    setMode(value.commentModeration);
+    setAutoCloseDays(value.commentAutoCloseDays === null ? '' : String(value.commentAutoCloseDays));
+  };
+
+  useEffect(() => {
+    fetchAPI(`/comments/moderation/posts/${postId}/settings`, { redirectOn401: false, cache: 'no-store' })
+      .then((data) => applySettings(parsePostCommentSettings(data)))
+      .catch((err: unknown) => {
+        logger.error('Failed to load post comment settings', err, { component: 'PostCommentSettings', postId });
+      });
+  }, [postId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const data = await fetchAPI(`/comments/moderation/posts/${postId}/settings`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          allowComments,
+          commentModeration: mode,
+          commentAutoCloseDays: autoCloseDays.trim() === '' ? null : Math.max(0, Math.round(Number(autoCloseDays) || 0)),
+        }),
+        redirectOn401: false,
+      });
+      applySettings(parsePostCommentSettings(data));
+      success('Comment settings saved');
+    } catch (err: unknown) {
+      logger.error('Failed to save post comment settings', err, { component: 'PostCommentSettings', postId });
+      showError(getErrorMessage(err, 'Failed to save comment settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return <p className="text-sm text-slate-500">Loading comment settings...</p>;
+  }
+
+  const closesAt = settings.closesAt ? new Date(settings.closesAt) : null;
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-300">
+        <input type="checkbox" checked={allowComments} onChange={(e) => setAllowComments(e.target.checked)} />
+        Allow comments
+      </label>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Moderation</label>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as CommentModerationMode)}
+          className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-sm"
+        >
+          {COMMENT_MODERATION_MODES.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Close comments after (days)</label>
+        <Input
+          type="number"
+          min={0}
+          max={3650}
+          value={autoCloseDays}
+          onChange={(e) => setAutoCloseDays(e.target.value)}
+          placeholder={settings.siteAutoCloseDays > 0 ? `Site default: ${settings.siteAutoCloseDays}` : 'Site default: never'}
+        />
+        <p className="text-xs text-slate-500">
+          Counted from publication. 0 keeps comments open; leave empty to follow the site setting.
+        </p>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {!settings.allowComments
+          ? 'Comments are turned off for this post.'
+          : closesAt
+            ? `${closesAt.getTime() <= Date.now() ? 'Comments closed' : 'Comments close'} on ${closesAt.toLocaleDateString()}.`
+            : 'Comments stay open.'}
+      </p>
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} isLoading={saving}>
+          Save Comment Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
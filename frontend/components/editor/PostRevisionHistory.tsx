@@ -0,0 +1,296 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
+import { fetchAPI } from '@/lib/api';
+import { getErrorMessage } from '@/lib/error-utils';
+import { blockText } from '@/lib/html-blocks';
+import { diffHtmlBlocks, diffWords, type WordDiffPart } from '@/lib/html-diff';
+import {
+  REVISION_SOURCE_LABELS,
+  parseRevisionDetail,
+  parseRevisionList,
+  type RevisionComparable,
+  type RevisionDetail,
+  type RevisionSource,
+  type RevisionSummary,
+} from '@/lib/post-revisions';
+
+type CompareMode = 'current' | 'previous';
+
+interface PostRevisionHistoryProps {
+  postId: string;
+  /** Unsaved state of the editor; SEO fields and taxonomy are only compared between revisions */
+  current: Pick<RevisionComparable, 'title' | 'content' | 'excerpt'>;
+  /** Called after a restore so the editor can reload the post */
+  onRestored: () => void;
+}
+
+const SOURCE_VARIANTS: Record<RevisionSource, 'default' | 'info' | 'purple' | 'warning' | 'success'> = {
+  EDITOR: 'default',
+  AI: 'purple',
+  REFRESH: 'info',
+  REVIEW: 'warning',
+  RESTORE: 'success',
+  INTERLINK: 'info',
+};
+
+const formatDate = (value: string | null) => {
+  if (!value) return '—';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+};
+
+function WordDiff({ parts }: { parts: WordDiffPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) => (
+        part.kind === 'same' ? (
+          <span key={index}>{part.text}</span>
+        ) : part.kind === 'removed' ? (
+          <del key={index} className="bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200">{part.text}</del>
+        ) : (
+          <ins key={index} className="bg-green-100 text-green-800 no-underline dark:bg-green-900/40 dark:text-green-200">{part.text}</ins>
+        )
+      ))}
+    </>
+  );
+}
+
+function FieldDiff({ label, before, after }: { label: string; before: string; after: string }) {
+  if (before === after) return null;
+  return (
+    <div>
+      <p className="text-xs font-medium uppercase text-slate-500">{label}</p>
+      <p className="text-sm text-slate-700 dark:text-slate-300">
+        <WordDiff parts={diffWords(before, after)} />
+      </p>
+    </div>
+  );
+}
+
+function ListDiff({ label, before, after }: { label: string; before: string[]; after: string[] }) {
+  const removed = before.filter((item) => !after.includes(item));
+  const added = after.filter((item) => !before.includes(item));
+  if (removed.length === 0 && added.length === 0) return null;
+  return (
+    <div>
+      <p className="text-xs font-medium uppercase text-slate-500">{label}</p>
+      <div className="mt-1 flex flex-wrap gap-1">
+        {removed.map((item) => <Badge key={`-${item}`} variant="error" size="sm">− {item}</Badge>)}
+        {added.map((item) => <Badge key={`+${item}`} variant="success" size="sm">+ {item}</Badge>)}
+      </div>
+    </div>
+  );
+}
+
+/** Block-by-block content diff; changed blocks get a word-level diff, unchanged runs are collapsed */
+function ContentDiff({ before, after }: { before: string; after: string }) {
+  const rows = useMemo(() => diffHtmlBlocks(before, after), [before, after]);
+  if (rows.every((row) => row.kind === 'same')) {
+    return <p className="text-sm text-slate-500">Content is unchanged.</p>;
+  }
+
+  const items: Array<{ key: string; unchanged?: number; parts?: WordDiffPart[] }> = [];
+  rows.forEach((row, index) => {
+    if (row.kind === 'same') {
+      const previous = items[items.length - 1];
+      if (previous?.unchanged) {
+        previous.unchanged += 1;
+      } else {
+        items.push({ key: `same-${index}`, unchanged: 1 });
+      }
+      return;
+    }
+    items.push({ key: `${row.kind}-${index}`, parts: diffWords(blockText(row.before ?? ''), blockText(row.after ?? '')) });
+  });
+
+  return (
+    <div className="space-y-2">
+      {items.map((item) => (
+        item.parts ? (
+          <p key={item.key} className="rounded border border-slate-200 p-2 text-sm leading-relaxed text-slate-700 dark:border-slate-700 dark:text-slate-300">
+            <WordDiff parts={item.parts} />
+          </p>
+        ) : (
+          <p key={item.key} className="text-xs italic text-slate-400">
+            {item.unchanged} unchanged block{item.unchanged === 1 ? '' : 's'}
+          </p>
+        )
+      ))}
+    </div>
+  );
+}
+
+export default function PostRevisionHistory({ postId, current, onRestored }: PostRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selected, setSelected] = useState<RevisionDetail | null>(null);
+  const [previous, setPrevious] = useState<RevisionDetail | null>(null);
+  const [mode, setMode] = useState<CompareMode>('current');
+  const [loading, setLoading] = useState(true);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await fetchAPI(`/blog/admin/posts/${postId}/revisions`, { redirectOn401: false, cache: 'no-store' });
+      setRevisions(parseRevisionList(data));
+    } catch (err) {
+      logger.error('Failed to load post revisions', err, { component: 'PostRevisionHistory', postId });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load revision history') });
+    } finally {
+      setLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const fetchRevision = async (revisionNumber: number) => (
+    parseRevisionDetail(await fetchAPI(`/blog/admin/posts/${postId}/revisions/${revisionNumber}`, {
+      redirectOn401: false,
+      cache: 'no-store',
+    }))
+  );
+
+  const selectRevision = async (revisionNumber: number) => {
+    if (selected?.revisionNumber === revisionNumber) {
+      setSelected(null);
+      return;
+    }
+    setLoadingDetail(true);
+    setMessage(null);
+    try {
+      // Revisions are listed newest first, so the one before is further down
+      const older = revisions.find((revision) => revision.revisionNumber < revisionNumber);
+      const [detail, olderDetail] = await Promise.all([
+        fetchRevision(revisionNumber),
+        older ? fetchRevision(older.revisionNumber) : Promise.resolve(null),
+      ]);
+      setSelected(detail);
+      setPrevious(olderDetail);
+    } catch (err) {
+      logger.error('Failed to load post revision', err, { component: 'PostRevisionHistory', postId, revisionNumber });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to load revision') });
+    } finally {
+      setLoadingDetail(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!selected) return;
+    if (!confirm(`Restore revision ${selected.revisionNumber}? Unsaved changes in the editor will be lost; the current version stays in the history.`)) return;
+    setRestoring(true);
+    try {
+      await fetchAPI(`/blog/admin/posts/${postId}/revisions/${selected.revisionNumber}/restore`, {
+        method: 'POST',
+        redirectOn401: false,
+      });
+      onRestored();
+    } catch (err) {
+      logger.error('Failed to restore post revision', err, { component: 'PostRevisionHistory', postId });
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to restore revision') });
+      setRestoring(false);
+    }
+  };
+
+  const comparison = selected && (mode === 'current'
+    ? { label: 'Changes since this revision', before: selected, after: current }
+    : { label: 'Changes made in this revision', before: previous, after: selected });
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div className={`rounded-md px-4 py-3 text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {loading && revisions.length === 0 ? (
+        <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-slate-500">No revisions yet. One is saved every time the post is updated.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+          {revisions.map((revision) => (
+            <li key={revision.revisionNumber}>
+              <button
+                type="button"
+                onClick={() => selectRevision(revision.revisionNumber)}
+                className={`flex w-full flex-wrap items-center justify-between gap-2 px-2 py-2 text-left text-sm hover:bg-slate-50 dark:hover:bg-slate-800 ${
+                  selected?.revisionNumber === revision.revisionNumber ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                }`}
+              >
+                <span className="flex items-center gap-2">
+                  <span className="font-medium text-slate-900 dark:text-white">#{revision.revisionNumber}</span>
+                  <Badge variant={SOURCE_VARIANTS[revision.source]} size="sm">{REVISION_SOURCE_LABELS[revision.source]}</Badge>
+                  <span className="text-slate-600 dark:text-slate-400">{revision.reason || revision.title}</span>
+                </span>
+                <span className="text-xs text-slate-500">
+                  {revision.author || 'System'} · {revision.wordCount} words · {formatDate(revision.createdAt)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {loadingDetail && <div className="flex justify-center py-4"><LoadingSpinner /></div>}
+
+      {selected && comparison && !loadingDetail && (
+        <div className="space-y-4 rounded-lg border border-slate-200 p-4 dark:border-slate-700">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <History className="h-4 w-4 text-slate-500" />
+              <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Revision #{selected.revisionNumber}</h3>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as CompareMode)}
+                className="rounded-md border border-slate-300 px-2 py-1 text-sm dark:border-slate-600 dark:bg-slate-800"
+                aria-label="Compare revision with"
+              >
+                <option value="current">Compare with editor</option>
+                <option value="previous">Compare with previous revision</option>
+              </select>
+            </div>
+            <Button type="button" size="sm" variant="outline" onClick={restore} isLoading={restoring}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Restore this revision
+            </Button>
+          </div>
+
+          <p className="text-xs text-slate-500">{comparison.label}</p>
+          {comparison.before ? (
+            <div className="space-y-3">
+              <FieldDiff label="Title" before={comparison.before.title} after={comparison.after.title} />
+              <FieldDiff label="Excerpt" before={comparison.before.excerpt} after={comparison.after.excerpt} />
+              {mode === 'previous' && previous && (
+                <>
+                  <FieldDiff label="SEO title" before={previous.seoTitle} after={selected.seoTitle} />
+                  <FieldDiff label="SEO description" before={previous.seoDescription} after={selected.seoDescription} />
+                  <ListDiff label="SEO keywords" before={previous.seoKeywords} after={selected.seoKeywords} />
+                  <ListDiff label="Categories" before={previous.categories} after={selected.categories} />
+                  <ListDiff label="Tags" before={previous.tags} after={selected.tags} />
+                </>
+              )}
+              <div>
+                <p className="mb-1 text-xs font-medium uppercase text-slate-500">Content</p>
+                <ContentDiff before={comparison.before.content} after={comparison.after.content} />
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">This is the first revision.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -27,7 +27,7 @@ import logger from '@/lib/logger';
  * ✅ Markdown-style shortcuts
  */
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState, useCallback } from 'react';
 import { 
   Bold, Italic, Underline, Strikethrough, Code, Link, 
   Image, Video, List, ListOrdered, CheckSquare,
@@ -50,7 +50,19 @@ interface RichTextEditorProps {
   readOnly?: boolean;
 }
 
-export default function RichTextEditor({
+/**
+ * Lets tools outside the toolbar (e.g. the AI draft assistant) edit the
+ * document directly. Call commitChanges() after changing the DOM so the
+ * parent's onChange and the undo history see the new content.
+ */
+export interface RichTextEditorHandle {
+  getRoot: () => HTMLDivElement | null;
+  /** Last selection made inside the editor; kept after focus moves elsewhere */
+  getSelectionRange: () => Range | null;
+  commitChanges: () => void;
+}
+
+const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(function RichTextEditor({
   content = '',
   onChange,
   onImageUpload,
@@ -59,8 +71,9 @@ export default function RichTextEditor({
   maxHeight = '600px',
   className = '',
   readOnly = false
-}: RichTextEditorProps) {
+}, ref) {
   const editorRef = useRef<HTMLDivElement>(null);
+  const selectionRef = useRef<Range | null>(null);
   const [wordCount, setWordCount] = useState(0);
   const [readingTime, setReadingTime] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -271,6 +284,33 @@ export default function RichTextEditor({
     setShowTableDialog(false);
   }, [tableRows, tableCols, executeCommand]);
 
+  // Remember the selection so it survives clicks on panels outside the editor
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const selection = window.getSelection();
+      if (!selection || selection.rangeCount === 0 || !editorRef.current) return;
+      const range = selection.getRangeAt(0);
+      if (editorRef.current.contains(range.commonAncestorContainer)) {
+        selectionRef.current = range.cloneRange();
+      }
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    getRoot: () => editorRef.current,
+    getSelectionRange: () => {
+      const range = selectionRef.current;
+      return range && editorRef.current?.contains(range.commonAncestorContainer) ? range.cloneRange() : null;
+    },
+    commitChanges: () => {
+      updateMetrics();
+      saveToHistory();
+    },
+  }), [updateMetrics, saveToHistory]);
+
   const toggleFullscreen = useCallback(() => {
     setIsFullscreen(prev => !prev);
   }, []);
@@ -817,5 +857,6 @@ export default function RichTextEditor({
       )}
     </div>
   );
-}
+});
 
+export default RichTextEditor;
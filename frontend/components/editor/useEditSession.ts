@@ -0,0 +1,139 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import {
+  parseEditDraft,
+  parseHeartbeat,
+  type EditDraft,
+  type EditPresence,
+  type EditResource,
+} from '@/lib/editing';
+
+const HEARTBEAT_MS = 20_000;
+const AUTOSAVE_MS = 30_000;
+
+interface EditSessionOptions<T> {
+  resource: EditResource;
+  resourceId: string;
+  /** updatedAt of the loaded record; the session stays idle while it is null */
+  baseVersion: string | null;
+  /** Current editor fields, autosaved when they change */
+  data: T;
+}
+
+/**
+ * Presence heartbeats and periodic server-side autosave for an open editor.
+ * The autosaved draft found on first load is offered through `pendingDraft`.
+ */
+export function useEditSession<T extends Record<string, unknown>>({
+  resource,
+  resourceId,
+  baseVersion,
+  data,
+}: EditSessionOptions<T>) {
+  const [editors, setEditors] = useState<EditPresence[]>([]);
+  const [remoteVersion, setRemoteVersion] = useState<string | null>(null);
+  const [pendingDraft, setPendingDraft] = useState<EditDraft | null>(null);
+  const [autosavedAt, setAutosavedAt] = useState<string | null>(null);
+  const [autosaveFailed, setAutosaveFailed] = useState(false);
+  const dataRef = useRef(data);
+  // Fields as last loaded or autosaved; autosave skips when nothing changed since
+  const savedRef = useRef<string | null>(null);
+  const draftCheckedRef = useRef(false);
+  const basePath = `/editing/${resource}/${resourceId}`;
+  const active = baseVersion !== null;
+
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
+  useEffect(() => {
+    if (baseVersion) savedRef.current = JSON.stringify(dataRef.current);
+  }, [baseVersion]);
+
+  useEffect(() => {
+    if (!active || draftCheckedRef.current) return;
+    draftCheckedRef.current = true;
+    fetchAPI(`${basePath}/draft`, { redirectOn401: false, cache: 'no-store' })
+      .then((response) => {
+        const draft = parseEditDraft(response);
+        // The editor reformats loaded HTML, so a draft can match what is already open
+        setPendingDraft(draft && JSON.stringify(draft.data) !== JSON.stringify(dataRef.current) ? draft : null);
+      })
+      .catch((err) => logger.warn('Failed to check for an autosaved draft', err, { component: 'useEditSession' }));
+  }, [active, basePath]);
+
+  useEffect(() => {
+    if (!active) return undefined;
+    const beat = async () => {
+      try {
+        const heartbeat = parseHeartbeat(await fetchAPI(`${basePath}/presence`, { method: 'POST', redirectOn401: false }));
+        setEditors(heartbeat.editors);
+        setRemoteVersion(heartbeat.version);
+      } catch (err) {
+        logger.warn('Editor heartbeat failed', err, { component: 'useEditSession' });
+      }
+    };
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_MS);
+    return () => {
+      clearInterval(timer);
+      fetchAPI(`${basePath}/presence`, { method: 'DELETE', redirectOn401: false, keepalive: true }).catch(() => undefined);
+    };
+  }, [active, basePath]);
+
+  const autosave = useCallback(async () => {
+    if (!baseVersion) return;
+    const json = JSON.stringify(dataRef.current);
+    if (json === savedRef.current) return;
+    try {
+      const response = await fetchAPI<{ savedAt?: string }>(`${basePath}/draft`, {
+        method: 'PUT',
+        body: JSON.stringify({ data: dataRef.current, baseVersion }),
+        redirectOn401: false,
+      });
+      savedRef.current = json;
+      setAutosavedAt(typeof response?.savedAt === 'string' ? response.savedAt : new Date().toISOString());
+      setAutosaveFailed(false);
+    } catch (err) {
+      logger.warn('Autosave failed', err, { component: 'useEditSession' });
+      setAutosaveFailed(true);
+    }
+  }, [basePath, baseVersion]);
+
+  useEffect(() => {
+    if (!baseVersion) return undefined;
+    const timer = setInterval(autosave, AUTOSAVE_MS);
+    return () => clearInterval(timer);
+  }, [autosave, baseVersion]);
+
+  /** Hand the pending draft to the caller and stop offering it */
+  const takeDraft = useCallback(() => {
+    const draft = pendingDraft;
+    setPendingDraft(null);
+    return draft;
+  }, [pendingDraft]);
+
+  const discardDraft = useCallback(async () => {
+    setPendingDraft(null);
+    try {
+      await fetchAPI(`${basePath}/draft`, { method: 'DELETE', redirectOn401: false });
+    } catch (err) {
+      logger.warn('Failed to discard autosaved draft', err, { component: 'useEditSession' });
+    }
+  }, [basePath]);
+
+  return {
+    editors,
+    /** Someone saved the record after this editor loaded it */
+    remoteChanged: Boolean(baseVersion && remoteVersion && remoteVersion !== baseVersion),
+    pendingDraft,
+    autosavedAt,
+    autosaveFailed,
+    takeDraft,
+    discardDraft,
+  };
+}
@@ -0,0 +1,306 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Calculator, Plus, Trash2 } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+
+export interface EstimateDimension {
+  width: string;
+  height: string;
+  quantity: string;
+}
+
+export interface EstimateRequest {
+  walls: Array<{ width: number; height: number; quantity: number }>;
+  openings: Array<{ width: number; height: number; quantity: number }>;
+  surfaceCondition: string;
+  coats: number;
+  productId: string;
+}
+
+export interface EstimateLineItem {
+  code: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface EstimateResult {
+  currency: string;
+  paintableAreaSqm: number;
+  labourHours: number;
+  litres: number;
+  lineItems: EstimateLineItem[];
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+}
+
+interface EstimateOptions {
+  currency: string;
+  maxCoats: number;
+  conditions: string[];
+  products: Array<{ id: string; name: string }>;
+}
+
+interface EstimateCalculatorProps {
+  // Public visitors use the instant endpoint; staff use the authenticated calculator
+  mode?: 'public' | 'admin';
+  onCalculated?: (request: EstimateRequest, result: EstimateResult) => void;
+}
+
+const CONDITION_LABELS: Record<string, string> = {
+  good: 'Good (minor prep)',
+  fair: 'Fair (some filling and sanding)',
+  poor: 'Poor (cracks, peeling, stains)',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const toNumber = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const parseOptions = (value: unknown): EstimateOptions | null => {
+  if (!isRecord(value)) return null;
+  const products = Array.isArray(value.products)
+    ? value.products
+        .filter(isRecord)
+        .map((product) => ({
+          id: typeof product.id === 'string' ? product.id : '',
+          name: typeof product.name === 'string' ? product.name : '',
+        }))
+        .filter((product) => product.id && product.name)
+    : [];
+  if (products.length === 0) return null;
+  return {
+    currency: typeof value.currency === 'string' ? value.currency : '',
+    maxCoats: typeof value.maxCoats === 'number' ? value.maxCoats : 3,
+    conditions: Array.isArray(value.conditions)
+      ? value.conditions.filter((item): item is string => typeof item === 'string')
+      : ['good', 'fair', 'poor'],
+    products,
+  };
+};
+
+export const parseEstimateResult = (value: unknown): EstimateResult | null => {
+  if (!isRecord(value) || !Array.isArray(value.lineItems)) return null;
+  return {
+    currency: typeof value.currency === 'string' ? value.currency : '',
+    paintableAreaSqm: toNumber(value.paintableAreaSqm),
+    labourHours: toNumber(value.labourHours),
+    litres: toNumber(value.litres),
+    lineItems: value.lineItems.filter(isRecord).map((item) => ({
+      code: typeof item.code === 'string' ? item.code : '',
+      description: typeof item.description === 'string' ? item.description : '',
+      quantity: toNumber(item.quantity),
+      unit: typeof item.unit === 'string' ? item.unit : '',
+      unitPrice: toNumber(item.unitPrice),
+      amount: toNumber(item.amount),
+    })),
+    subtotal: toNumber(value.subtotal),
+    taxRate: toNumber(value.taxRate),
+    taxAmount: toNumber(value.taxAmount),
+    total: toNumber(value.total),
+  };
+};
+
+export const formatMoney = (amount: number, currency: string) => (
+  `${currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+);
+
+const toDimensions = (rows: EstimateDimension[]) => rows
+  .map((row) => ({
+    width: Number(row.width),
+    height: Number(row.height),
+    quantity: Number(row.quantity) || 1,
+  }))
+  .filter((row) => row.width > 0 && row.height > 0);
+
+export function EstimateBreakdown({ result }: { result: EstimateResult }) {
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-left text-muted-foreground">
+              <th className="py-2 pr-2">Item</th>
+              <th className="py-2 pr-2 text-right">Qty</th>
+              <th className="py-2 pr-2 text-right">Rate</th>
+              <th className="py-2 text-right">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.lineItems.map((item) => (
+              <tr key={item.code} className="border-b border-border/50">
+                <td className="py-2 pr-2 text-foreground">{item.description}</td>
+                <td className="py-2 pr-2 text-right">{item.quantity} {item.unit}</td>
+                <td className="py-2 pr-2 text-right">{formatMoney(item.unitPrice, result.currency)}</td>
+                <td className="py-2 text-right">{formatMoney(item.amount, result.currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between"><span>Subtotal</span><span>{formatMoney(result.subtotal, result.currency)}</span></div>
+        <div className="flex justify-between">
+          <span>Tax ({Math.round(result.taxRate * 1000) / 10}%)</span>
+          <span>{formatMoney(result.taxAmount, result.currency)}</span>
+        </div>
+        <div className="flex justify-between text-base font-bold text-foreground">
+          <span>Total</span><span>{formatMoney(result.total, result.currency)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function DimensionRows({
+  label,
+  rows,
+  onChange,
+}: {
+  label: string;
+  rows: EstimateDimension[];
+  onChange: (rows: EstimateDimension[]) => void;
+}) {
+  const update = (index: number, field: keyof EstimateDimension, value: string) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-foreground">{label} (metres)</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...rows, { width: '', height: '', quantity: '1' }])}
+        >
+          <Plus className="w-4 h-4 mr-1" /> Add
+        </Button>
+      </div>
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_5rem_auto] gap-2">
+          <Input type="number" min={0} step="0.01" placeholder="Width" value={row.width} onChange={(e) => update(index, 'width', e.target.value)} />
+          <Input type="number" min={0} step="0.01" placeholder="Height" value={row.height} onChange={(e) => update(index, 'height', e.target.value)} />
+          <Input type="number" min={1} placeholder="Qty" value={row.quantity} onChange={(e) => update(index, 'quantity', e.target.value)} />
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(rows.filter((_, i) => i !== index))} aria-label={`Remove ${label.toLowerCase()} row`}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function EstimateCalculator({ mode = 'public', onCalculated }: EstimateCalculatorProps) {
+  const [options, setOptions] = useState<EstimateOptions | null>(null);
+  const [walls, setWalls] = useState<EstimateDimension[]>([{ width: '', height: '', quantity: '1' }]);
+  const [openings, setOpenings] = useState<EstimateDimension[]>([]);
+  const [surfaceCondition, setSurfaceCondition] = useState('good');
+  const [coats, setCoats] = useState('2');
+  const [productId, setProductId] = useState('');
+  const [result, setResult] = useState<EstimateResult | null>(null);
+  const [calculating, setCalculating] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchAPI('/estimates/options', { redirectOn401: false, cache: 'no-store' })
+      .then((data) => {
+        const parsed = parseOptions(data);
+        if (parsed) {
+          setOptions(parsed);
+          setProductId(parsed.products[0].id);
+        }
+      })
+      .catch((err) => logger.error('Failed to load estimate options', err, { component: 'EstimateCalculator' }));
+  }, []);
+
+  const handleCalculate = async () => {
+    const request: EstimateRequest = {
+      walls: toDimensions(walls),
+      openings: toDimensions(openings),
+      surfaceCondition,
+      coats: Number(coats) || 1,
+      productId,
+    };
+    if (request.walls.length === 0) {
+      setError('Add at least one wall with a width and height.');
+      return;
+    }
+
+    setCalculating(true);
+    setError('');
+    try {
+      const data = await fetchAPI(mode === 'admin' ? '/estimates/calculate' : '/estimates/instant', {
+        method: 'POST',
+        body: JSON.stringify(request),
+        redirectOn401: false,
+      });
+      const parsed = parseEstimateResult(mode === 'admin' && isRecord(data) ? data.result : data);
+      if (!parsed) throw new Error('Invalid estimate response');
+      setResult(parsed);
+      onCalculated?.(request, parsed);
+    } catch (err) {
+      logger.error('Failed to calculate estimate', err, { component: 'EstimateCalculator' });
+      setError(getErrorMessage(err, 'Failed to calculate estimate. Please check the measurements.'));
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-input px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary';
+
+  return (
+    <div className="space-y-5">
+      <DimensionRows label="Walls" rows={walls} onChange={setWalls} />
+      <DimensionRows label="Doors & Windows" rows={openings} onChange={setOpenings} />
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <label htmlFor="estimate-condition" className="text-sm font-medium text-foreground">Surface Condition</label>
+          <select id="estimate-condition" value={surfaceCondition} onChange={(e) => setSurfaceCondition(e.target.value)} className={selectClassName}>
+            {(options?.conditions || ['good', 'fair', 'poor']).map((condition) => (
+              <option key={condition} value={condition}>{CONDITION_LABELS[condition] || condition}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="estimate-coats" className="text-sm font-medium text-foreground">Coats</label>
+          <select id="estimate-coats" value={coats} onChange={(e) => setCoats(e.target.value)} className={selectClassName}>
+            {Array.from({ length: options?.maxCoats || 3 }, (_, i) => String(i + 1)).map((value) => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="estimate-product" className="text-sm font-medium text-foreground">Paint</label>
+          <select id="estimate-product" value={productId} onChange={(e) => setProductId(e.target.value)} className={selectClassName}>
+            {(options?.products || []).map((product) => (
+              <option key={product.id} value={product.id}>{product.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Button type="button" onClick={handleCalculate} disabled={calculating || !options}>
+        <Calculator className="w-4 h-4 mr-2" /> {calculating ? 'Calculating...' : 'Calculate Estimate'}
+      </Button>
+
+      {result && <EstimateBreakdown result={result} />}
+    </div>
+  );
+}
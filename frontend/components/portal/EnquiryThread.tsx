@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Send } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+
+export interface EnquiryReply {
+  id: string;
+  message: string;
+  fromCustomer: boolean;
+  authorName: string;
+  createdAt: string;
+}
+
+interface EnquiryThreadProps {
+  replies: EnquiryReply[];
+  // Whose side of the conversation renders on the right
+  viewer: 'staff' | 'customer';
+  onSend?: (message: string) => Promise<void>;
+  placeholder?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const authorName = (value: unknown, fromCustomer: boolean) => {
+  if (!isRecord(value)) return fromCustomer ? 'You' : 'Our team';
+  const fullName = [value.firstName, value.lastName].filter((part) => typeof part === 'string' && part).join(' ');
+  if (fullName) return fullName;
+  return typeof value.username === 'string' ? value.username : 'Our team';
+};
+
+export const parseReplies = (value: unknown): EnquiryReply[] => (
+  Array.isArray(value)
+    ? value.filter(isRecord).map((reply) => {
+        const fromCustomer = reply.fromCustomer === true;
+        return {
+          id: typeof reply.id === 'string' ? reply.id : '',
+          message: typeof reply.message === 'string' ? reply.message : '',
+          fromCustomer,
+          authorName: authorName(reply.author, fromCustomer),
+          createdAt: typeof reply.createdAt === 'string' ? reply.createdAt : '',
+        };
+      }).filter((reply) => reply.id)
+    : []
+);
+
+/**
+ * Conversation on a quote request or contact message, shared by the admin
+ * quotes screen and the customer account.
+ */
+export function EnquiryThread({ replies, viewer, onSend, placeholder }: EnquiryThreadProps) {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSend = async () => {
+    if (!onSend || !draft.trim()) return;
+    setSending(true);
+    setError('');
+    try {
+      await onSend(draft.trim());
+      setDraft('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to send message'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {replies.length === 0 ? (
+        <p className="text-sm text-slate-500">No messages yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {replies.map((reply) => {
+            const own = viewer === 'customer' ? reply.fromCustomer : !reply.fromCustomer;
+            return (
+              <li key={reply.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${own ? 'bg-blue-50 text-slate-800' : 'bg-slate-100 text-slate-800'}`}>
+                  <p className="mb-1 text-xs text-slate-500">
+                    {reply.fromCustomer ? (viewer === 'customer' ? 'You' : 'Customer') : reply.authorName}
+                    {reply.createdAt && ` · ${new Date(reply.createdAt).toLocaleString()}`}
+                  </p>
+                  <p className="whitespace-pre-wrap">{reply.message}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {onSend && (
+        <div className="space-y-2">
+          <textarea
+            rows={3}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={placeholder || 'Write a message'}
+            className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm"
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <Button size="sm" onClick={handleSend} disabled={sending || !draft.trim()}>
+            <Send className="w-4 h-4 mr-2" /> {sending ? 'Sending...' : 'Send'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
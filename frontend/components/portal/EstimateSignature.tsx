@@ -0,0 +1,70 @@
+'use client';
+
+import logger from '@/lib/logger';
+
+import { useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { PenLine } from 'lucide-react';
+import { getErrorMessage } from '@/lib/error-utils';
+import { SignaturePad } from '@/components/portal/SignaturePad';
+
+interface EstimateSignatureProps {
+  documentId: string;
+  reference: string;
+  defaultName: string;
+  onSigned: (document: unknown) => void;
+}
+
+/**
+ * Accept-and-sign form for a sent estimate in the customer account.
+ */
+export function EstimateSignature({ documentId, reference, defaultName, onSigned }: EstimateSignatureProps) {
+  const [signatureName, setSignatureName] = useState(defaultName);
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [agreed, setAgreed] = useState(false);
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSign = async () => {
+    setSigning(true);
+    setError('');
+    try {
+      const signed = await fetchAPI(`/portal/documents/${documentId}/sign`, {
+        method: 'POST',
+        body: JSON.stringify({ signatureName, signatureImage }),
+        redirectOn401: false,
+      });
+      onSigned(signed);
+    } catch (err) {
+      logger.error('Failed to sign estimate', err, { component: 'EstimateSignature' });
+      setError(getErrorMessage(err, 'Failed to accept the estimate'));
+    } finally {
+      setSigning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 p-4">
+      <div className="space-y-1">
+        <label htmlFor={`signature-name-${documentId}`} className="text-sm font-medium text-foreground">Full name</label>
+        <Input
+          id={`signature-name-${documentId}`}
+          value={signatureName}
+          onChange={(e) => setSignatureName(e.target.value)}
+          disabled={signing}
+        />
+      </div>
+      <SignaturePad onChange={setSignatureImage} disabled={signing} />
+      <label className="flex items-start gap-2 text-sm text-slate-700">
+        <input type="checkbox" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} disabled={signing} className="mt-1" />
+        I accept estimate {reference} and authorise the work described in it.
+      </label>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button onClick={handleSign} disabled={signing || !agreed || !signatureImage || !signatureName.trim()}>
+        <PenLine className="w-4 h-4 mr-2" /> {signing ? 'Signing...' : 'Sign & Accept'}
+      </Button>
+    </div>
+  );
+}
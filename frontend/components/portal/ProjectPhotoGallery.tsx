@@ -0,0 +1,92 @@
+'use client';
+
+import { Button } from '@/components/ui/Button';
+import { Trash2 } from 'lucide-react';
+
+export type ProjectPhotoStage = 'BEFORE' | 'AFTER';
+
+export interface ProjectPhoto {
+  id: string;
+  stage: ProjectPhotoStage;
+  caption: string | null;
+  url: string;
+  originalName: string;
+}
+
+interface ProjectPhotoGalleryProps {
+  photos: ProjectPhoto[];
+  onDelete?: (photo: ProjectPhoto) => void;
+}
+
+export const PROJECT_PHOTO_STAGES: ProjectPhotoStage[] = ['BEFORE', 'AFTER'];
+
+const STAGE_LABELS: Record<ProjectPhotoStage, string> = {
+  BEFORE: 'Before',
+  AFTER: 'After',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+export const parseProjectPhotos = (value: unknown): ProjectPhoto[] => (
+  Array.isArray(value)
+    ? value.filter(isRecord).map((photo) => {
+        const media = isRecord(photo.media) ? photo.media : {};
+        return {
+          id: typeof photo.id === 'string' ? photo.id : '',
+          stage: photo.stage === 'AFTER' ? 'AFTER' as const : 'BEFORE' as const,
+          caption: typeof photo.caption === 'string' ? photo.caption : null,
+          url: typeof media.url === 'string' ? media.url : '',
+          originalName: typeof media.originalName === 'string' ? media.originalName : 'Photo',
+        };
+      }).filter((photo) => photo.id && photo.url)
+    : []
+);
+
+/**
+ * Before and after photos side by side.
+ */
+export function ProjectPhotoGallery({ photos, onDelete }: ProjectPhotoGalleryProps) {
+  if (photos.length === 0) {
+    return <p className="text-sm text-slate-500">No project photos yet.</p>;
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {PROJECT_PHOTO_STAGES.map((stage) => {
+        const stagePhotos = photos.filter((photo) => photo.stage === stage);
+        return (
+          <div key={stage}>
+            <p className="mb-2 text-xs font-semibold uppercase text-slate-500">{STAGE_LABELS[stage]}</p>
+            {stagePhotos.length === 0 ? (
+              <p className="text-sm text-slate-400">None yet.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {stagePhotos.map((photo) => (
+                  <figure key={photo.id} className="relative">
+                    <a href={photo.url} target="_blank" rel="noreferrer">
+                      <img src={photo.url} alt={photo.caption || photo.originalName} className="h-28 w-full rounded object-cover" />
+                    </a>
+                    {photo.caption && <figcaption className="mt-1 text-xs text-slate-600">{photo.caption}</figcaption>}
+                    {onDelete && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="absolute right-1 top-1 bg-white/80"
+                        onClick={() => onDelete(photo)}
+                        aria-label="Remove photo"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </figure>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  // Receives a PNG data URL, or null once the pad is cleared
+  onChange: (dataUrl: string | null) => void;
+  disabled?: boolean;
+}
+
+const WIDTH = 480;
+const HEIGHT = 160;
+
+/**
+ * Canvas for drawing a signature with a mouse, pen or finger.
+ */
+export function SignaturePad({ onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const drawingRef = useRef(false);
+  const [hasInk, setHasInk] = useState(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+  }, []);
+
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const { x, y } = pointFor(event);
+    context.beginPath();
+    context.moveTo(x, y);
+    drawingRef.current = true;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    setHasInk(true);
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasInk(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="w-full max-w-[480px] touch-none rounded-md border border-dashed border-slate-400 bg-white"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        aria-label="Signature pad"
+      />
+      <div className="flex items-center justify-between max-w-[480px] text-xs text-slate-500">
+        <span>{hasInk ? 'Signature captured' : 'Sign above'}</span>
+        <Button type="button" size="sm" variant="ghost" onClick={handleClear} disabled={disabled || !hasInk}>
+          <Eraser className="w-4 h-4 mr-1" /> Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useState } from 'react';
+import type { ProjectImagePair } from '@/lib/projects';
+
+interface BeforeAfterSliderProps {
+  pair: ProjectImagePair;
+}
+
+/**
+ * Drag-to-compare view of one before/after photo pair.
+ */
+export function BeforeAfterSlider({ pair }: BeforeAfterSliderProps) {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <figure className="space-y-2">
+      <div className="relative aspect-[4/3] w-full overflow-hidden rounded-xl bg-muted select-none">
+        <img
+          src={pair.after.url}
+          alt={pair.after.altText || 'After'}
+          className="absolute inset-0 h-full w-full object-cover"
+        />
+        <div className="absolute inset-0 overflow-hidden" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+          <img
+            src={pair.before.url}
+            alt={pair.before.altText || 'Before'}
+            className="absolute inset-0 h-full w-full object-cover"
+          />
+        </div>
+        <div className="pointer-events-none absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }} />
+        <span className="absolute left-3 top-3 rounded bg-black/60 px-2 py-0.5 text-xs font-semibold uppercase text-white">Before</span>
+        <span className="absolute right-3 top-3 rounded bg-black/60 px-2 py-0.5 text-xs font-semibold uppercase text-white">After</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={position}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          className="absolute inset-0 h-full w-full cursor-ew-resize opacity-0"
+          aria-label="Compare before and after"
+        />
+      </div>
+      {pair.caption && <figcaption className="text-sm text-muted-foreground">{pair.caption}</figcaption>}
+    </figure>
+  );
+}
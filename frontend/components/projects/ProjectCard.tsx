@@ -0,0 +1,51 @@
+import Link from 'next/link';
+import { MapPin, Star } from 'lucide-react';
+import type { Project } from '@/lib/projects';
+
+interface ProjectCardProps {
+  project: Project;
+}
+
+/**
+ * Portfolio card showing the cover pair as a split before/after thumbnail.
+ */
+export function ProjectCard({ project }: ProjectCardProps) {
+  const cover = project.imagePairs[0];
+
+  return (
+    <Link
+      href={`/projects/${project.slug}`}
+      className="group flex flex-col overflow-hidden rounded-xl border border-border bg-card shadow-elevation-1 transition-shadow hover:shadow-elevation-2"
+    >
+      <div className="relative grid aspect-[4/3] grid-cols-2 bg-muted">
+        {cover ? (
+          <>
+            <img src={cover.before.url} alt={cover.before.altText || `${project.title} before`} className="h-full w-full object-cover" />
+            <img src={cover.after.url} alt={cover.after.altText || `${project.title} after`} className="h-full w-full object-cover" />
+            <span className="absolute bottom-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs font-semibold uppercase text-white">Before</span>
+            <span className="absolute bottom-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs font-semibold uppercase text-white">After</span>
+          </>
+        ) : (
+          <div className="col-span-2 flex items-center justify-center text-sm text-muted-foreground">No photos yet</div>
+        )}
+        {project.featured && (
+          <span className="absolute left-2 top-2 inline-flex items-center gap-1 rounded-full bg-amber-400 px-2 py-0.5 text-xs font-semibold text-amber-950">
+            <Star className="h-3 w-3" /> Featured
+          </span>
+        )}
+      </div>
+      <div className="flex flex-1 flex-col gap-2 p-5">
+        {project.serviceType && (
+          <span className="text-xs font-semibold uppercase tracking-wide text-primary">{project.serviceType}</span>
+        )}
+        <h3 className="text-lg font-semibold text-foreground group-hover:text-primary">{project.title}</h3>
+        {project.location && (
+          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+            <MapPin className="h-4 w-4" /> {project.location}
+          </p>
+        )}
+        {project.summary && <p className="line-clamp-2 text-sm text-muted-foreground">{project.summary}</p>}
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { fetchAPI } from '@/lib/api';
+import logger from '@/lib/logger';
+import type { PageSection } from '@/lib/page-builder-types';
+import type { ProjectGridContent } from '@/lib/page-renderer-content';
+import { parseProjectList, type Project } from '@/lib/projects';
+import { ProjectCard } from '@/components/projects/ProjectCard';
+
+const COLUMN_CLASSES: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-2 lg:grid-cols-3',
+  4: 'md:grid-cols-2 lg:grid-cols-4',
+};
+
+const readConfigString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Page-builder section embedding a filtered grid of published projects.
+ */
+export function ProjectGridSection({ section, style }: { section: PageSection; style: React.CSSProperties }) {
+  const { title, subtitle, buttonText } = section.content as ProjectGridContent;
+  const { config } = section;
+  const columns = typeof config.columns === 'number' && COLUMN_CLASSES[config.columns] ? config.columns : 3;
+  const limit = typeof config.limit === 'number' ? Math.min(Math.max(config.limit, 1), 24) : 6;
+  const serviceType = readConfigString(config.serviceType);
+  const location = readConfigString(config.location);
+  const featured = config.featured === true;
+
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (serviceType) params.set('serviceType', serviceType);
+  if (location) params.set('location', location);
+  if (featured) params.set('featured', 'true');
+  const query = params.toString();
+
+  useEffect(() => {
+    let active = true;
+    fetchAPI(`/projects?${query}`, { redirectOn401: false })
+      .then((data) => {
+        if (active) setProjects(parseProjectList(data).projects);
+      })
+      .catch((error: unknown) => {
+        logger.error('Failed to load project grid', error, { component: 'ProjectGridSection' });
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+    return () => {
+      active = false;
+    };
+  }, [query]);
+
+  const listingParams = new URLSearchParams();
+  if (serviceType) listingParams.set('serviceType', serviceType);
+  if (location) listingParams.set('location', location);
+  const listingHref = listingParams.toString() ? `/projects?${listingParams.toString()}` : '/projects';
+
+  if (!loading && projects.length === 0) return null;
+
+  return (
+    <section style={style}>
+      <div className="container mx-auto px-4">
+        {title && <h2 className="text-3xl font-bold text-center mb-4">{title}</h2>}
+        {subtitle && <p className="text-lg text-slate-600 text-center mb-12">{subtitle}</p>}
+        {loading ? (
+          <div className="text-center text-slate-500">Loading projects...</div>
+        ) : (
+          <div className={`grid gap-6 ${COLUMN_CLASSES[columns]}`}>
+            {projects.map((project) => (
+              <ProjectCard key={project.id} project={project} />
+            ))}
+          </div>
+        )}
+        {buttonText && (
+          <div className="mt-10 text-center">
+            <Link href={listingHref} className="inline-block px-8 py-3 bg-slate-900 text-white font-semibold rounded-lg hover:bg-slate-700 transition-colors">
+              {buttonText}
+            </Link>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
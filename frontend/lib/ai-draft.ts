@@ -0,0 +1,104 @@
+import sanitizeHtml from 'sanitize-html';
+
+export type SelectionEditAction = 'expand' | 'shorten' | 'rewrite';
+
+export const SELECTION_EDIT_ACTIONS: Array<{ value: SelectionEditAction; label: string }> = [
+  { value: 'expand', label: 'Expand' },
+  { value: 'shorten', label: 'Shorten' },
+  { value: 'rewrite', label: 'Rewrite' },
+];
+
+/** Events from the /blog/ai/draft endpoints */
+export type DraftEvent =
+  | { type: 'outline-delta'; text: string }
+  | { type: 'outline'; headings: string[] }
+  | { type: 'section-start'; index: number; heading: string }
+  | { type: 'delta'; index: number; html: string }
+  | { type: 'section-end'; index: number }
+  | { type: 'done'; stopped: boolean }
+  | { type: 'error'; message: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown, fallback = 0): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+);
+
+export const parseDraftEvent = (value: unknown): DraftEvent | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'outline-delta':
+      return { type: 'outline-delta', text: readString(value.text) };
+    case 'outline':
+      return {
+        type: 'outline',
+        headings: Array.isArray(value.headings)
+          ? value.headings.filter((item): item is string => typeof item === 'string')
+          : [],
+      };
+    case 'section-start':
+      return { type: 'section-start', index: readNumber(value.index), heading: readString(value.heading) };
+    case 'delta':
+      return { type: 'delta', index: readNumber(value.index), html: readString(value.html) };
+    case 'section-end':
+      return { type: 'section-end', index: readNumber(value.index) };
+    case 'done':
+      return { type: 'done', stopped: value.stopped === true };
+    case 'error':
+      return { type: 'error', message: readString(value.message) || 'Draft generation failed' };
+    default:
+      return null;
+  }
+};
+
+/** Read a server-sent event response from streamAPI as draft events */
+export async function* readDraftEvents(response: Response): AsyncGenerator<DraftEvent, void, undefined> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const chunks = buffer.split(/\r?\n\r?\n/);
+      buffer = chunks.pop() ?? '';
+      for (const chunk of chunks) {
+        const data = chunk
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (!data) continue;
+        try {
+          const event = parseDraftEvent(JSON.parse(data));
+          if (event) yield event;
+        } catch {
+          // Skip malformed events rather than dropping the whole draft
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Clean streamed HTML before it goes into the editor. Runs on partial HTML
+ * too; unclosed tags are closed so each render is well formed.
+ */
+export const sanitizeDraftHtml = (html: string): string => sanitizeHtml(
+  // Models sometimes wrap the reply in a code fence despite the prompt
+  html.replace(/^\s*```(?:html)?\s*/i, '').replace(/\s*```\s*$/, ''),
+  {
+    allowedTags: ['p', 'br', 'strong', 'em', 'u', 'h3', 'h4', 'ul', 'ol', 'li', 'blockquote', 'a', 'code'],
+    allowedAttributes: { a: ['href', 'title'] },
+    allowedSchemes: ['http', 'https', 'mailto'],
+  },
+);
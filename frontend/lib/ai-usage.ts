@@ -0,0 +1,179 @@
+export type AiBudgetAction = 'block' | 'degrade';
+
+export type AiBudget = {
+  monthlyLimit: number | null;
+  perUserMonthlyLimit: number | null;
+  onExceeded: AiBudgetAction;
+  fallbackModels: Record<string, string>;
+  pricing: Record<string, { input: number; output: number }>;
+};
+
+export type AiBudgetStatus = AiBudget & {
+  monthSpend: number;
+  remaining: number | null;
+  exceeded: boolean;
+};
+
+export type AiUsageBreakdown = {
+  calls: number;
+  cost: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type AiUsageCall = {
+  id: string;
+  task: string;
+  provider: string;
+  model: string;
+  requestedModel: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;
+  cost: number;
+  latencyMs: number;
+  success: boolean;
+  error: string;
+  postId: string;
+  jobId: string;
+  userId: string;
+  createdAt: string;
+};
+
+export type AiUsageReport = {
+  days: number;
+  budget: AiBudgetStatus;
+  totals: AiUsageBreakdown & { failed: number; avgLatencyMs: number };
+  byTask: Array<AiUsageBreakdown & { task: string }>;
+  byModel: Array<AiUsageBreakdown & { provider: string; model: string }>;
+  topUsers: Array<{ userId: string; name: string; calls: number; cost: number; monthSpend: number }>;
+  daily: Array<{ date: string; calls: number; cost: number; tokens: number }>;
+  recent: AiUsageCall[];
+};
+
+export const AI_TASK_LABELS: Record<string, string> = {
+  generatePost: 'Queued post generation',
+  generateBlogPost: 'Blog post generation',
+  optimizeSeo: 'SEO analysis',
+  draftPost: 'Editor drafting',
+  editSelection: 'Editor rewrites',
+  reviseContent: 'Review revisions',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown, fallback = 0): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+);
+
+const readLimit = (value: unknown): number | null => (
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+);
+
+const readBreakdown = (value: Record<string, unknown>): AiUsageBreakdown => ({
+  calls: readNumber(value.calls),
+  cost: readNumber(value.cost),
+  promptTokens: readNumber(value.promptTokens),
+  completionTokens: readNumber(value.completionTokens),
+});
+
+export const parseAiBudget = (value: unknown): AiBudget => {
+  const data = isRecord(value) ? value : {};
+  const fallbackModels: Record<string, string> = {};
+  if (isRecord(data.fallbackModels)) {
+    for (const [provider, model] of Object.entries(data.fallbackModels)) {
+      if (typeof model === 'string') fallbackModels[provider] = model;
+    }
+  }
+  const pricing: AiBudget['pricing'] = {};
+  if (isRecord(data.pricing)) {
+    for (const [model, price] of Object.entries(data.pricing)) {
+      if (isRecord(price)) pricing[model] = { input: readNumber(price.input), output: readNumber(price.output) };
+    }
+  }
+  return {
+    monthlyLimit: readLimit(data.monthlyLimit),
+    perUserMonthlyLimit: readLimit(data.perUserMonthlyLimit),
+    onExceeded: data.onExceeded === 'degrade' ? 'degrade' : 'block',
+    fallbackModels,
+    pricing,
+  };
+};
+
+export const parseAiUsageReport = (value: unknown): AiUsageReport | null => {
+  if (!isRecord(value)) return null;
+  const budget = isRecord(value.budget) ? value.budget : {};
+  const totals = isRecord(value.totals) ? value.totals : {};
+  return {
+    days: readNumber(value.days, 30),
+    budget: {
+      ...parseAiBudget(budget),
+      monthSpend: readNumber(budget.monthSpend),
+      remaining: readLimit(budget.remaining),
+      exceeded: budget.exceeded === true,
+    },
+    totals: {
+      ...readBreakdown(totals),
+      failed: readNumber(totals.failed),
+      avgLatencyMs: readNumber(totals.avgLatencyMs),
+    },
+    byTask: Array.isArray(value.byTask)
+      ? value.byTask.filter(isRecord).map((row) => ({ task: readString(row.task), ...readBreakdown(row) }))
+      : [],
+    byModel: Array.isArray(value.byModel)
+      ? value.byModel.filter(isRecord).map((row) => ({
+        provider: readString(row.provider),
+        model: readString(row.model),
+        ...readBreakdown(row),
+      }))
+      : [],
+    topUsers: Array.isArray(value.topUsers)
+      ? value.topUsers.filter(isRecord).map((row) => ({
+        userId: readString(row.userId),
+        name: readString(row.name),
+        calls: readNumber(row.calls),
+        cost: readNumber(row.cost),
+        monthSpend: readNumber(row.monthSpend),
+      }))
+      : [],
+    daily: Array.isArray(value.daily)
+      ? value.daily.filter(isRecord).map((point) => ({
+        date: readString(point.date),
+        calls: readNumber(point.calls),
+        cost: readNumber(point.cost),
+        tokens: readNumber(point.tokens),
+      }))
+      : [],
+    recent: Array.isArray(value.recent)
+      ? value.recent.filter(isRecord).map((row) => ({
+        id: readString(row.id),
+        task: readString(row.task),
+        provider: readString(row.provider),
+        model: readString(row.model),
+        requestedModel: readString(row.requestedModel),
+        promptTokens: readNumber(row.promptTokens),
+        completionTokens: readNumber(row.completionTokens),
+        estimated: row.estimated === true,
+        cost: readNumber(row.cost),
+        latencyMs: readNumber(row.latencyMs),
+        success: row.success !== false,
+        error: readString(row.error),
+        postId: readString(row.postId),
+        jobId: readString(row.jobId),
+        userId: readString(row.userId),
+        createdAt: readString(row.createdAt),
+      }))
+      : [],
+  };
+};
+
+/** Dollar amount with extra precision for sub-cent costs */
+export const formatUsd = (value: number): string => {
+  if (value === 0) return '$0.00';
+  if (Math.abs(value) < 0.01) return `$${value.toFixed(4)}`;
+  return `$${value.toFixed(2)}`;
+};
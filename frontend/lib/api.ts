@@ -68,6 +68,24 @@ function createRequestKey(endpoint: string, options: RequestInit): string {
   return `${method}:${endpoint}:${bodyKey}`;
 }
 
+function readCsrfToken(): string | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith('csrf-token='))
+    ?.split('=')[1];
+}
+
+/** Error response from the API; keeps the status and body for callers that need more than the message */
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly payload: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    // Keep instanceof working when classes are compiled down to ES5
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
 type RequestWithRetry = RequestInit & { __retried?: boolean; redirectOn401?: boolean; timeout?: number };
 type NextFetchOptions = { next?: { revalidate?: number } };
 type RequestOptions = RequestWithRetry & NextFetchOptions;
@@ -105,14 +123,9 @@ export async function fetchAPI<T = unknown>(
     if (!isFormDataBody && !headers.has('Content-Type')) {
       headers.set('Content-Type', 'application/json');
     }
-    if (typeof window !== 'undefined') {
-      const csrfToken = document.cookie
-        .split('; ')
-        .find((cookie) => cookie.startsWith('csrf-token='))
-        ?.split('=')[1];
-      if (csrfToken) {
-        headers.set('x-csrf-token', csrfToken);
-      }
+    const csrfToken = readCsrfToken();
+    if (csrfToken) {
+      headers.set('x-csrf-token', csrfToken);
     }
 
     let res: Response;
@@ -185,9 +198,9 @@ export async function fetchAPI<T = unknown>(
     if (!res.ok) {
       const errorPayload = await res.json().catch(() => ({ message: res.statusText }));
       if (errorPayload && typeof errorPayload === 'object' && 'message' in errorPayload && typeof errorPayload.message === 'string') {
-        throw new Error(errorPayload.message);
+        throw new ApiError(errorPayload.message, res.status, errorPayload);
       }
-      throw new Error(`API Error: ${res.statusText}`);
+      throw new ApiError(`API Error: ${res.statusText}`, res.status, errorPayload);
     }
 
     try {
@@ -219,5 +232,53 @@ export async function fetchAPI<T = unknown>(
   return fetchPromise;
 }
 
+/**
+ * POST to an endpoint that answers with server-sent events and return the
+ * open response for the caller to read. Browser only; refreshes the session
+ * once on 401 like fetchAPI. Abort `signal` to close the stream.
+ */
+export async function streamAPI(
+  endpoint: string,
+  body: unknown,
+  signal?: AbortSignal,
+  retried = false,
+): Promise<Response> {
+  const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+  const headers = new Headers({ 'Content-Type': 'application/json', Accept: 'text/event-stream' });
+  const csrfToken = readCsrfToken();
+  if (csrfToken) {
+    headers.set('x-csrf-token', csrfToken);
+  }
+
+  const res = await fetch(`${API_URL}${normalizedEndpoint}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal,
+    cache: 'no-store',
+    credentials: 'include',
+  });
+
+  if (res.status === 401 && !retried) {
+    const refreshRes = await fetch(`${API_URL}/auth/refresh`, {
+      method: 'POST',
+      credentials: 'include',
+      cache: 'no-store',
+    }).catch(() => null);
+    if (refreshRes?.ok) {
+      return streamAPI(endpoint, body, signal, true);
+    }
+  }
+
+  if (!res.ok || !res.body) {
+    const errorPayload = await res.json().catch(() => ({ message: res.statusText }));
+    if (errorPayload && typeof errorPayload === 'object' && 'message' in errorPayload && typeof errorPayload.message === 'string') {
+      throw new Error(errorPayload.message);
+    }
+    throw new Error(`API Error: ${res.statusText}`);
+  }
+  return res;
+}
+
 // Export as both fetchAPI and api for convenience
 export const api = fetchAPI;
@@ -50,7 +50,7 @@ export const isAdminRole = (role?: string | null): role is AdminRole =>
 
 export const resolvePostAuthDestination = (role?: string | null, next?: string | null) => {
   if (next) return next;
-  return isAdminRole(role) ? '/dashboard' : '/';
+  return isAdminRole(role) ? '/dashboard' : '/account';
 };
 
 type LoginPayload = {
@@ -0,0 +1,67 @@
+export type VoteDirection = 'up' | 'down' | 'none';
+
+export type CommentEngagement = {
+  upvotes: number;
+  downvotes: number;
+  /** Count per emoji */
+  reactions: Record<string, number>;
+  viewerVote: VoteDirection;
+  viewerReactions: string[];
+};
+
+export type ReactionSettings = {
+  reactions: string[];
+  anonymousVoting: boolean;
+};
+
+export const DEFAULT_COMMENT_REACTIONS = ['👍', '❤️', '😂', '🎉', '🤔'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readCount = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const readStrings = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : []
+);
+
+const parseReactionCounts = (value: unknown): Record<string, number> => {
+  if (!isRecord(value)) return {};
+  const counts: Record<string, number> = {};
+  Object.keys(value).forEach((emoji) => {
+    const count = readCount(value[emoji]);
+    if (count > 0) counts[emoji] = count;
+  });
+  return counts;
+};
+
+/** Engagement fields of a comment, or of a vote/reaction response */
+export const parseCommentEngagement = (value: unknown): CommentEngagement => {
+  const record = isRecord(value) ? value : {};
+  const vote = record.viewerVote;
+  return {
+    upvotes: readCount(record.upvotes),
+    downvotes: readCount(record.downvotes),
+    reactions: parseReactionCounts(record.reactions),
+    viewerVote: vote === 'up' || vote === 'down' ? vote : 'none',
+    viewerReactions: readStrings(record.viewerReactions),
+  };
+};
+
+export const parseReactionSettings = (value: unknown): ReactionSettings => {
+  const record = isRecord(value) ? value : {};
+  const reactions = readStrings(record.reactions);
+  return {
+    reactions: reactions.length > 0 ? reactions : DEFAULT_COMMENT_REACTIONS,
+    anonymousVoting: record.anonymousVoting !== false,
+  };
+};
+
+/** Split a settings input like "👍 ❤️ 🎉" or "👍, ❤️" into distinct reactions */
+export const parseReactionList = (value: string): string[] => (
+  value
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter((item, index, items) => item.length > 0 && items.indexOf(item) === index)
+);
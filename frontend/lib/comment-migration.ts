@@ -0,0 +1,127 @@
+export type CommentImportFormat = 'WXR' | 'DISQUS';
+
+export type CommentImportStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export type CommentImportReport = {
+  threads: { total: number; matched: number; unmatched: number };
+  unmatchedThreads: Array<{ title: string; url: string; comments: number }>;
+  posts: Array<{ postId: string; title: string; slug: string; comments: number }>;
+  comments: {
+    total: number;
+    /** Created, or that a dry run would create */
+    imported: number;
+    approved: number;
+    pending: number;
+    spam: number;
+    alreadyImported: number;
+    unmatchedPost: number;
+    deleted: number;
+    pingbacks: number;
+    empty: number;
+    reattached: number;
+  };
+  warnings: string[];
+};
+
+export type CommentImport = {
+  id: string;
+  format: CommentImportFormat;
+  fileName: string;
+  dryRun: boolean;
+  status: CommentImportStatus;
+  report: CommentImportReport | null;
+  error: string;
+  createdAt: string;
+  completedAt: string;
+  createdBy: string;
+};
+
+export const COMMENT_IMPORT_FORMATS: Array<{ value: CommentImportFormat; label: string; exportValue: string }> = [
+  { value: 'WXR', label: 'WordPress (WXR)', exportValue: 'wxr' },
+  { value: 'DISQUS', label: 'Disqus', exportValue: 'disqus' },
+];
+
+const IMPORT_STATUSES: CommentImportStatus[] = ['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED'];
+
+export const formatLabel = (format: CommentImportFormat): string => (
+  COMMENT_IMPORT_FORMATS.find((option) => option.value === format)?.label ?? format
+);
+
+/** Still waiting for the background job */
+export const isImportActive = (item: CommentImport): boolean => item.status === 'QUEUED' || item.status === 'RUNNING';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : 0
+);
+
+const parseReport = (value: unknown): CommentImportReport | null => {
+  if (!isRecord(value)) return null;
+  const threads = isRecord(value.threads) ? value.threads : {};
+  const comments = isRecord(value.comments) ? value.comments : {};
+  return {
+    threads: {
+      total: readNumber(threads.total),
+      matched: readNumber(threads.matched),
+      unmatched: readNumber(threads.unmatched),
+    },
+    unmatchedThreads: Array.isArray(value.unmatchedThreads)
+      ? value.unmatchedThreads.filter(isRecord).map((thread) => ({
+        title: readString(thread.title),
+        url: readString(thread.url),
+        comments: readNumber(thread.comments),
+      }))
+      : [],
+    posts: Array.isArray(value.posts)
+      ? value.posts.filter(isRecord).map((post) => ({
+        postId: readString(post.postId),
+        title: readString(post.title),
+        slug: readString(post.slug),
+        comments: readNumber(post.comments),
+      })).filter((post) => post.postId)
+      : [],
+    comments: {
+      total: readNumber(comments.total),
+      imported: readNumber(comments.imported),
+      approved: readNumber(comments.approved),
+      pending: readNumber(comments.pending),
+      spam: readNumber(comments.spam),
+      alreadyImported: readNumber(comments.alreadyImported),
+      unmatchedPost: readNumber(comments.unmatchedPost),
+      deleted: readNumber(comments.deleted),
+      pingbacks: readNumber(comments.pingbacks),
+      empty: readNumber(comments.empty),
+      reattached: readNumber(comments.reattached),
+    },
+    warnings: Array.isArray(value.warnings) ? value.warnings.filter((warning): warning is string => typeof warning === 'string') : [],
+  };
+};
+
+export const parseCommentImport = (value: unknown): CommentImport | null => {
+  if (!isRecord(value) || !readString(value.id)) return null;
+  const createdBy = isRecord(value.createdBy) ? value.createdBy : {};
+  const status = IMPORT_STATUSES.find((item) => item === value.status) ?? 'QUEUED';
+  return {
+    id: readString(value.id),
+    format: value.format === 'DISQUS' ? 'DISQUS' : 'WXR',
+    fileName: readString(value.fileName),
+    dryRun: value.dryRun !== false,
+    status,
+    report: parseReport(value.report),
+    error: readString(value.error),
+    createdAt: readString(value.createdAt),
+    completedAt: readString(value.completedAt),
+    createdBy: readString(createdBy.displayName) || readString(createdBy.username),
+  };
+};
+
+export const parseCommentImports = (value: unknown): CommentImport[] => (
+  Array.isArray(value)
+    ? value.map(parseCommentImport).filter((item): item is CommentImport => item !== null)
+    : []
+);
@@ -0,0 +1,143 @@
+import { USER_ROLES } from '@/lib/roles';
+
+export type CommentModerationMode = 'SITE_DEFAULT' | 'HOLD_ALL' | 'APPROVE_ALL';
+
+export type ModeratorSummary = {
+  id: string;
+  username: string;
+  displayName: string;
+};
+
+export type ModerationEvent = {
+  id: string;
+  commentId: string;
+  action: string;
+  reason: string;
+  createdAt: string;
+  /** Null when the moderation rules acted on their own */
+  moderator: ModeratorSummary | null;
+  /** The comment text before an edit, when the event is one */
+  previousContent: string;
+  comment: { id: string; content: string; authorName: string; post: { title: string; slug: string } | null } | null;
+};
+
+export type ModerationActivity = {
+  events: ModerationEvent[];
+  total: number;
+  moderators: Array<ModeratorSummary & { actions: number }>;
+};
+
+export type PostCommentSettings = {
+  allowComments: boolean;
+  commentModeration: CommentModerationMode;
+  /** null follows the site setting */
+  commentAutoCloseDays: number | null;
+  siteAutoCloseDays: number;
+  closesAt: string | null;
+};
+
+export const COMMENT_MODERATION_MODES: Array<{ value: CommentModerationMode; label: string }> = [
+  { value: 'SITE_DEFAULT', label: 'Use site rules' },
+  { value: 'HOLD_ALL', label: 'Hold every comment for review' },
+  { value: 'APPROVE_ALL', label: 'Publish every comment without review' },
+];
+
+export const TRUSTED_ROLE_OPTIONS = Object.entries(USER_ROLES).map(([value, role]) => ({ value, label: role.name }));
+
+export const DEFAULT_TRUSTED_ROLES = ['SUPER_ADMIN', 'ADMINISTRATOR', 'EDITOR'];
+
+const ACTION_LABELS: Record<string, string> = {
+  AUTO_APPROVED: 'Published automatically',
+  HELD: 'Held for review',
+  BLOCKED: 'Blocked',
+  MARKED_SPAM: 'Sent to spam',
+  APPROVED: 'Approved',
+  REJECTED: 'Marked as spam',
+  FLAGGED: 'Flagged',
+  PINNED: 'Pinned',
+  UNPINNED: 'Unpinned',
+  RESOLVED: 'Marked resolved',
+  UNRESOLVED: 'Marked unresolved',
+  EDITED: 'Edited',
+};
+
+export const moderationActionLabel = (action: string): string => ACTION_LABELS[action] ?? action;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown, fallback = 0): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+);
+
+const parseModerator = (value: unknown): ModeratorSummary | null => {
+  if (!isRecord(value) || !readString(value.id)) return null;
+  return {
+    id: readString(value.id),
+    username: readString(value.username),
+    displayName: readString(value.displayName),
+  };
+};
+
+export const moderatorName = (moderator: ModeratorSummary | null): string => (
+  moderator ? moderator.displayName || moderator.username : 'Moderation rules'
+);
+
+const parseEvent = (value: unknown): ModerationEvent | null => {
+  if (!isRecord(value) || !readString(value.id)) return null;
+  const details = isRecord(value.details) ? value.details : {};
+  const comment = isRecord(value.comment) ? value.comment : null;
+  const post = comment && isRecord(comment.post) ? comment.post : null;
+  return {
+    id: readString(value.id),
+    commentId: readString(value.commentId),
+    action: readString(value.action),
+    reason: readString(value.reason),
+    createdAt: readString(value.createdAt),
+    moderator: parseModerator(value.moderator),
+    previousContent: readString(details.previousContent),
+    comment: comment
+      ? {
+        id: readString(comment.id),
+        content: readString(comment.content),
+        authorName: readString(comment.authorName) || 'Anonymous',
+        post: post ? { title: readString(post.title), slug: readString(post.slug) } : null,
+      }
+      : null,
+  };
+};
+
+export const parseModerationEvents = (value: unknown): ModerationEvent[] => (
+  Array.isArray(value)
+    ? value.map(parseEvent).filter((event): event is ModerationEvent => event !== null)
+    : []
+);
+
+export const parseModerationActivity = (value: unknown): ModerationActivity => {
+  const record = isRecord(value) ? value : {};
+  return {
+    events: parseModerationEvents(record.events),
+    total: readNumber(record.total),
+    moderators: Array.isArray(record.moderators)
+      ? record.moderators.filter(isRecord).flatMap((moderator) => {
+        const summary = parseModerator(moderator);
+        return summary ? [{ ...summary, actions: readNumber(moderator.actions) }] : [];
+      })
+      : [],
+  };
+};
+
+export const parsePostCommentSettings = (value: unknown): PostCommentSettings => {
+  const record = isRecord(value) ? value : {};
+  const mode = COMMENT_MODERATION_MODES.find((option) => option.value === record.commentModeration);
+  return {
+    allowComments: record.allowComments !== false,
+    commentModeration: mode?.value ?? 'SITE_DEFAULT',
+    commentAutoCloseDays: typeof record.commentAutoCloseDays === 'number' ? record.commentAutoCloseDays : null,
+    siteAutoCloseDays: readNumber(record.siteAutoCloseDays),
+    closesAt: readString(record.closesAt) || null,
+  };
+};
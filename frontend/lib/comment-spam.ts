@@ -0,0 +1,76 @@
+export type SpamReason = {
+  check: string;
+  label: string;
+  /** Weighted contribution to the score; negative for signs of a legitimate comment */
+  points: number;
+  detail: string;
+};
+
+export type SpamCheckSummary = {
+  id: string;
+  label: string;
+  defaultWeight: number;
+  weight: number;
+};
+
+export type SpamClassifierStats = {
+  spamExamples: number;
+  hamExamples: number;
+  tokens: number;
+  active: boolean;
+  minExamples: number;
+};
+
+export type SpamFilterInfo = {
+  checks: SpamCheckSummary[];
+  classifier: SpamClassifierStats;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown, fallback = 0): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+);
+
+export const parseSpamScore = (value: unknown): number | null => (
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+);
+
+export const parseSpamReasons = (value: unknown): SpamReason[] => (
+  Array.isArray(value)
+    ? value.filter(isRecord).map((reason) => ({
+      check: readString(reason.check),
+      label: readString(reason.label) || readString(reason.check),
+      points: readNumber(reason.points),
+      detail: readString(reason.detail),
+    })).filter((reason) => reason.check)
+    : []
+);
+
+export const parseSpamFilterInfo = (value: unknown): SpamFilterInfo => {
+  const record = isRecord(value) ? value : {};
+  const classifier = isRecord(record.classifier) ? record.classifier : {};
+  return {
+    checks: Array.isArray(record.checks)
+      ? record.checks.filter(isRecord).map((check) => ({
+        id: readString(check.id),
+        label: readString(check.label) || readString(check.id),
+        defaultWeight: readNumber(check.defaultWeight),
+        weight: readNumber(check.weight, readNumber(check.defaultWeight)),
+      })).filter((check) => check.id)
+      : [],
+    classifier: {
+      spamExamples: readNumber(classifier.spamExamples),
+      hamExamples: readNumber(classifier.hamExamples),
+      tokens: readNumber(classifier.tokens),
+      active: classifier.active === true,
+      minExamples: readNumber(classifier.minExamples, 5),
+    },
+  };
+};
+
+export const formatSpamPoints = (points: number): string => `${points > 0 ? '+' : ''}${points.toFixed(1)}`;
@@ -0,0 +1,39 @@
+export type SubscriptionFrequency = 'INSTANT' | 'DAILY';
+
+export type SubscribeStatus = 'subscribed' | 'pending';
+
+export type SubscriptionConfirmation = {
+  scope: 'post' | 'thread';
+  postTitle: string;
+  postSlug: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+export const SUBSCRIPTION_FREQUENCIES: Array<{ value: SubscriptionFrequency; label: string }> = [
+  { value: 'INSTANT', label: 'As they happen' },
+  { value: 'DAILY', label: 'Daily digest' },
+];
+
+/** "pending" means a confirmation email was sent and nothing arrives until it is clicked */
+export const parseSubscribeStatus = (value: unknown): SubscribeStatus => (
+  isRecord(value) && value.status === 'subscribed' ? 'subscribed' : 'pending'
+);
+
+export const parseSubscriptionConfirmation = (value: unknown): SubscriptionConfirmation => {
+  const record = isRecord(value) ? value : {};
+  const post = isRecord(record.post) ? record.post : {};
+  return {
+    scope: record.scope === 'thread' ? 'thread' : 'post',
+    postTitle: readString(post.title),
+    postSlug: readString(post.slug),
+  };
+};
+
+export const parseRemovedCount = (value: unknown): number => (
+  isRecord(value) && typeof value.removed === 'number' ? value.removed : 0
+);
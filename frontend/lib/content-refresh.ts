@@ -0,0 +1,134 @@
+export type RefreshStatus = 'PENDING' | 'APPLIED' | 'DISCARDED' | 'ROLLED_BACK';
+
+export const REFRESH_STATUSES: RefreshStatus[] = ['PENDING', 'APPLIED', 'DISCARDED', 'ROLLED_BACK'];
+
+export const REFRESH_STATUS_LABELS: Record<RefreshStatus, string> = {
+  PENDING: 'Awaiting review',
+  APPLIED: 'Applied',
+  DISCARDED: 'Discarded',
+  ROLLED_BACK: 'Rolled back',
+};
+
+export type SectionDecision = 'pending' | 'accepted' | 'rejected';
+
+export type RefreshSection = {
+  key: string;
+  heading: string;
+  before: string | null;
+  after: string | null;
+  decision: SectionDecision;
+  preserved: { links: string[]; images: string[] };
+};
+
+type RefreshPost = { id: string; title: string; slug: string; status: string };
+
+export type RefreshSummary = {
+  id: string;
+  status: RefreshStatus;
+  post: RefreshPost;
+  sectionCount: number;
+  pendingSections: number;
+  seoScoreBefore: number | null;
+  seoScoreAfter: number | null;
+  appliedAt: string | null;
+  rollbackUntil: string | null;
+  rollbackReason: string;
+  canRollback: boolean;
+  createdAt: string | null;
+};
+
+export type RefreshCandidate = {
+  id: string;
+  title: string;
+  slug: string;
+  refreshReason: string;
+  contentAge: number;
+};
+
+export type RefreshDetail = RefreshSummary & {
+  sections: RefreshSection[];
+  proposedExcerpt: string;
+  proposedSeoDescription: string;
+  stale: boolean;
+  reviewedBy: string;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNullableString = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const readScore = (value: unknown): number | null => (
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+);
+
+const readStrings = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+const readPost = (value: unknown): RefreshPost => {
+  const post = isRecord(value) ? value : {};
+  return { id: readString(post.id), title: readString(post.title) || 'Untitled', slug: readString(post.slug), status: readString(post.status) };
+};
+
+const readSummary = (value: Record<string, unknown>): RefreshSummary => ({
+  id: readString(value.id),
+  status: REFRESH_STATUSES.find((status) => status === value.status) ?? 'PENDING',
+  post: readPost(value.post),
+  sectionCount: typeof value.sectionCount === 'number' ? value.sectionCount : 0,
+  pendingSections: typeof value.pendingSections === 'number' ? value.pendingSections : 0,
+  seoScoreBefore: readScore(value.seoScoreBefore),
+  seoScoreAfter: readScore(value.seoScoreAfter),
+  appliedAt: readNullableString(value.appliedAt),
+  rollbackUntil: readNullableString(value.rollbackUntil),
+  rollbackReason: readString(value.rollbackReason),
+  canRollback: value.canRollback === true,
+  createdAt: readNullableString(value.createdAt),
+});
+
+export const parseRefreshList = (value: unknown): { refreshes: RefreshSummary[]; candidates: RefreshCandidate[] } => {
+  const data = isRecord(value) ? value : {};
+  return {
+    refreshes: Array.isArray(data.refreshes)
+      ? data.refreshes.filter(isRecord).filter((item) => typeof item.id === 'string').map(readSummary)
+      : [],
+    candidates: Array.isArray(data.candidates)
+      ? data.candidates.filter(isRecord).filter((item) => typeof item.id === 'string').map((item) => ({
+        id: String(item.id),
+        title: readString(item.title) || 'Untitled',
+        slug: readString(item.slug),
+        refreshReason: readString(item.refreshReason),
+        contentAge: typeof item.contentAge === 'number' ? item.contentAge : 0,
+      }))
+      : [],
+  };
+};
+
+export const parseRefreshDetail = (value: unknown): RefreshDetail | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  const sections = Array.isArray(value.sections) ? value.sections.filter(isRecord) : [];
+  const reviewer = isRecord(value.reviewedBy) ? value.reviewedBy : null;
+  return {
+    ...readSummary(value),
+    sections: sections.map((section, index) => {
+      const preserved = isRecord(section.preserved) ? section.preserved : {};
+      return {
+        key: readString(section.key) || `s${index}`,
+        heading: readString(section.heading),
+        before: readNullableString(section.before),
+        after: readNullableString(section.after),
+        decision: section.decision === 'accepted' || section.decision === 'rejected' ? section.decision : 'pending',
+        preserved: { links: readStrings(preserved.links), images: readStrings(preserved.images) },
+      };
+    }),
+    sectionCount: sections.length,
+    pendingSections: sections.filter((section) => section.decision !== 'accepted' && section.decision !== 'rejected').length,
+    proposedExcerpt: readString(value.proposedExcerpt),
+    proposedSeoDescription: readString(value.proposedSeoDescription),
+    stale: value.stale === true,
+    reviewedBy: reviewer ? readString(reviewer.displayName) || readString(reviewer.username) : '',
+  };
+};
@@ -0,0 +1,78 @@
+import { ApiError } from '@/lib/api';
+
+/** Route segment of the edited resource in `/editing/:resource/:id/...` */
+export type EditResource = 'posts' | 'pages';
+
+export type EditUser = { id: string; name: string };
+
+export type EditPresence = EditUser & { startedAt: string | null };
+
+export type EditHeartbeat = {
+  /** updatedAt of the saved record */
+  version: string | null;
+  editors: EditPresence[];
+};
+
+export type EditDraft = {
+  data: Record<string, unknown>;
+  baseVersion: string | null;
+  savedAt: string | null;
+  /** The record was saved by someone else after the draft was started */
+  stale: boolean;
+};
+
+export type EditConflict = {
+  message: string;
+  /** Saved fields of the record, including its new `updatedAt` */
+  current: Record<string, unknown>;
+  updatedBy: EditUser | null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readDate = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const readUser = (value: unknown): EditUser | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return { id: value.id, name: readString(value.name) || 'Someone' };
+};
+
+export const parseHeartbeat = (value: unknown): EditHeartbeat => {
+  const data = isRecord(value) ? value : {};
+  return {
+    version: readDate(data.version),
+    editors: Array.isArray(data.editors)
+      ? data.editors.filter(isRecord).flatMap((editor) => {
+        const user = readUser(editor);
+        return user ? [{ ...user, startedAt: readDate(editor.startedAt) }] : [];
+      })
+      : [],
+  };
+};
+
+export const parseEditDraft = (value: unknown): EditDraft | null => {
+  const draft = isRecord(value) && isRecord(value.draft) ? value.draft : null;
+  if (!draft || !isRecord(draft.data)) return null;
+  return {
+    data: draft.data,
+    baseVersion: readDate(draft.baseVersion),
+    savedAt: readDate(draft.savedAt),
+    stale: draft.stale === true,
+  };
+};
+
+/** The 409 returned when saving over a newer version, or null for any other error */
+export const readEditConflict = (error: unknown): EditConflict | null => {
+  if (!(error instanceof ApiError) || error.status !== 409 || !isRecord(error.payload)) return null;
+  const { current } = error.payload;
+  if (!isRecord(current) || typeof current.updatedAt !== 'string') return null;
+  return {
+    message: error.message,
+    current,
+    updatedBy: readUser(error.payload.updatedBy),
+  };
+};
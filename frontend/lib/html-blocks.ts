@@ -0,0 +1,95 @@
+// Must match backend/src/blog/html-blocks.ts: review comments store block indexes
+// computed on one side and resolved on the other.
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b[^>]*?(\/?)>/g;
+
+const VOID_TAGS = new Set(['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Split post HTML into its top-level blocks (paragraphs, headings, lists,
+ * images...). Loose text between blocks becomes a block of its own.
+ * Joining the result with newlines gives equivalent HTML.
+ */
+export function splitHtmlBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  let depth = 0;
+  let blockStart = 0;
+  let cursor = 0;
+
+  const pushText = (text: string) => {
+    if (text.trim()) blocks.push(text.trim());
+  };
+
+  for (const match of Array.from(html.matchAll(TAG_PATTERN))) {
+    const [tag, closing, name, selfClosing] = match;
+    const index = match.index ?? 0;
+    const isVoid = VOID_TAGS.has(name.toLowerCase()) || selfClosing === '/';
+
+    if (depth === 0) {
+      pushText(html.slice(cursor, index));
+      cursor = index + tag.length;
+      if (closing) continue; // stray closing tag
+      if (isVoid) {
+        blocks.push(tag);
+        continue;
+      }
+      blockStart = index;
+      depth = 1;
+      continue;
+    }
+
+    if (isVoid) continue;
+    depth += closing ? -1 : 1;
+    if (depth === 0) {
+      cursor = index + tag.length;
+      blocks.push(html.slice(blockStart, cursor));
+    }
+  }
+
+  if (depth > 0) {
+    pushText(html.slice(blockStart));
+  } else {
+    pushText(html.slice(cursor));
+  }
+  return blocks;
+}
+
+export function joinHtmlBlocks(blocks: string[]): string {
+  return blocks.join('\n');
+}
+
+/** Plain text of a block with whitespace collapsed */
+export function blockText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the block a comment was made on. Uses the stored index when the
+ * text still matches, otherwise the first block with the same text.
+ */
+export function findBlock(blocks: string[], blockIndex: number, quote: string): number {
+  if (blockIndex >= 0 && blockIndex < blocks.length && blockText(blocks[blockIndex]) === quote) {
+    return blockIndex;
+  }
+  const moved = blocks.findIndex((block) => blockText(block) === quote);
+  if (moved !== -1) return moved;
+  return blockIndex < blocks.length ? blockIndex : -1;
+}
+
+export function countHtmlWords(html: string): number {
+  const text = blockText(html);
+  return text ? text.split(' ').length : 0;
+}
@@ -0,0 +1,111 @@
+import { blockText, splitHtmlBlocks } from '@/lib/html-blocks';
+
+export type DiffRow = {
+  kind: 'same' | 'changed' | 'added' | 'removed';
+  before: string | null;
+  after: string | null;
+};
+
+export type WordDiffPart = {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+/** Above this many token pairs a changed block is shown as a whole replacement */
+const MAX_WORD_DIFF_CELLS = 250_000;
+
+/** lengths[i][j] = length of the longest common subsequence of left[i..] and right[j..] */
+const lcsLengths = (left: string[], right: string[]): number[][] => {
+  const lengths = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = left[i] === right[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  return lengths;
+};
+
+/**
+ * Line up the blocks of two HTML fragments for a side-by-side view.
+ * Blocks are matched on their text (longest common subsequence); an
+ * unmatched removal directly followed by an addition is shown as a change.
+ */
+export const diffHtmlBlocks = (before: string, after: string): DiffRow[] => {
+  const left = splitHtmlBlocks(before);
+  const right = splitHtmlBlocks(after);
+  const leftText = left.map(blockText);
+  const rightText = right.map(blockText);
+  const lengths = lcsLengths(leftText, rightText);
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && leftText[i] === rightText[j]) {
+      rows.push({ kind: 'same', before: left[i], after: right[j] });
+      i += 1;
+      j += 1;
+    } else if (i < left.length && (j === right.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      rows.push({ kind: 'removed', before: left[i], after: null });
+      i += 1;
+    } else {
+      const previous = rows[rows.length - 1];
+      if (previous?.kind === 'removed') {
+        previous.kind = 'changed';
+        previous.after = right[j];
+      } else {
+        rows.push({ kind: 'added', before: null, after: right[j] });
+      }
+      j += 1;
+    }
+  }
+  return rows;
+};
+
+/**
+ * Word-level diff of two plain-text strings. Consecutive parts of the same
+ * kind are merged, and whitespace stays attached to the word before it.
+ */
+export const diffWords = (before: string, after: string): WordDiffPart[] => {
+  const left = before.match(/\S+\s*/g) ?? [];
+  const right = after.match(/\S+\s*/g) ?? [];
+  const parts: WordDiffPart[] = [];
+  const push = (kind: WordDiffPart['kind'], text: string) => {
+    const previous = parts[parts.length - 1];
+    if (previous?.kind === kind) {
+      previous.text += text;
+      return;
+    }
+    // The last word of a string has no trailing space to separate it from the next part
+    if (previous && !/\s$/.test(previous.text)) previous.text += ' ';
+    parts.push({ kind, text });
+  };
+
+  if (left.length * right.length > MAX_WORD_DIFF_CELLS) {
+    if (before) push('removed', before);
+    if (after) push('added', after);
+    return parts;
+  }
+
+  const leftWords = left.map((word) => word.trim());
+  const rightWords = right.map((word) => word.trim());
+  const lengths = lcsLengths(leftWords, rightWords);
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && leftWords[i] === rightWords[j]) {
+      push('same', right[j]);
+      i += 1;
+      j += 1;
+    } else if (i < left.length && (j === right.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      push('removed', left[i]);
+      i += 1;
+    } else {
+      push('added', right[j]);
+      j += 1;
+    }
+  }
+  return parts;
+};
@@ -0,0 +1,69 @@
+// Generated anchors carry data-interlink="<target post id>" (see backend/src/blog/interlink-engine.ts)
+const AUTO_LINK_PATTERN = /<a\b[^>]*\bdata-interlink="[^"]*"[^>]*>([\s\S]*?)<\/a>/gi;
+
+export type InterlinkPreviewLink = {
+  targetPostId: string;
+  targetTitle: string;
+  targetUrl: string;
+  anchorText: string;
+  context: string;
+};
+
+export type PostInterlinkPreview = {
+  /** Post HTML with the links inserted */
+  content: string;
+  links: InterlinkPreviewLink[];
+  /** Previously generated links that were replaced */
+  removed: number;
+};
+
+export type InterlinkRunPost = {
+  postId: string;
+  title: string;
+  slug: string;
+  links: InterlinkPreviewLink[];
+  removed: number;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readCount = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const parseLinks = (value: unknown): InterlinkPreviewLink[] => (
+  Array.isArray(value)
+    ? value.filter(isRecord).map((link) => ({
+      targetPostId: readString(link.targetPostId),
+      targetTitle: readString(link.targetTitle) || readString(link.anchorText),
+      targetUrl: readString(link.targetUrl),
+      anchorText: readString(link.anchorText),
+      context: readString(link.context),
+    })).filter((link) => link.targetPostId && link.anchorText)
+    : []
+);
+
+export const parsePostInterlinkPreview = (value: unknown): PostInterlinkPreview | null => {
+  if (!isRecord(value) || typeof value.content !== 'string') return null;
+  return { content: value.content, links: parseLinks(value.links), removed: readCount(value.removed) };
+};
+
+export const parseInterlinkRunPreview = (value: unknown): InterlinkRunPost[] => {
+  const posts = isRecord(value) && Array.isArray(value.posts) ? value.posts.filter(isRecord) : [];
+  return posts
+    .filter((post) => typeof post.postId === 'string')
+    .map((post) => ({
+      postId: post.postId as string,
+      title: readString(post.title) || 'Untitled post',
+      slug: readString(post.slug),
+      links: parseLinks(post.links),
+      removed: readCount(post.removed),
+    }));
+};
+
+export const countAutoLinks = (html: string): number => (html.match(AUTO_LINK_PATTERN) ?? []).length;
+
+/** Remove generated links, keeping their text */
+export const stripAutoLinks = (html: string): string => html.replace(AUTO_LINK_PATTERN, '$1');
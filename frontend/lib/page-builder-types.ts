@@ -421,6 +421,24 @@ export const COMPONENT_LIBRARY: ComponentDefinition[] = [
     },
   },
 
+  // PORTFOLIO
+  {
+    id: 'project-grid',
+    name: 'Project Grid',
+    type: 'projects',
+    category: 'Portfolio',
+    icon: '🖼️',
+    defaultConfig: { columns: 3, limit: 6, serviceType: '', location: '', featured: false },
+    defaultContent: {
+      title: 'Recent Projects',
+      subtitle: 'Before and after photos from jobs we have finished',
+      buttonText: 'View all projects',
+    },
+    defaultStyles: {
+      padding: { top: 80, bottom: 80 },
+    },
+  },
+
   // DIVIDERS
   {
     id: 'divider',
@@ -460,5 +478,6 @@ export const COMPONENT_CATEGORIES = [
   'Team',
   'Stats',
   'FAQ',
+  'Portfolio',
   'Elements',
 ];
@@ -101,3 +101,5 @@ export type FAQItem = { question?: string; answer?: string };
 export type FAQContent = { title?: string; faqs?: FAQItem[] };
 
 export type GenericContent = { title?: string; subtitle?: string; text?: string };
+
+export type ProjectGridContent = { title?: string; subtitle?: string; buttonText?: string };
@@ -0,0 +1,218 @@
+export type ReviewAction =
+  | 'COMMENTED'
+  | 'SUGGESTION_APPLIED'
+  | 'CHANGES_REQUESTED'
+  | 'REVISED'
+  | 'REVISION_FAILED'
+  | 'APPROVED'
+  | 'REJECTED';
+
+const REVIEW_ACTIONS: ReviewAction[] = [
+  'COMMENTED',
+  'SUGGESTION_APPLIED',
+  'CHANGES_REQUESTED',
+  'REVISED',
+  'REVISION_FAILED',
+  'APPROVED',
+  'REJECTED',
+];
+
+export const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  COMMENTED: 'Commented',
+  SUGGESTION_APPLIED: 'Suggestion applied',
+  CHANGES_REQUESTED: 'Changes requested',
+  REVISED: 'Revised by AI',
+  REVISION_FAILED: 'Revision failed',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+};
+
+export type ReviewUser = { id: string; name: string };
+
+export type ReviewQueueItem = {
+  id: string;
+  title: string;
+  createdAt: string | null;
+  aiModel: string;
+  wordCount: number;
+  author: ReviewUser | null;
+  promptLabel: string;
+  openComments: number;
+  lastAction: ReviewAction | null;
+  revisionPending: boolean;
+};
+
+export type ReviewComment = {
+  id: string;
+  /** Current position of the commented block, -1 when it was removed */
+  blockIndex: number;
+  quote: string;
+  body: string;
+  suggestion: string;
+  status: 'OPEN' | 'RESOLVED';
+  author: ReviewUser | null;
+  createdAt: string | null;
+};
+
+export type BlockChange = { index: number; before: string; after: string };
+
+export type ReviewEvent = {
+  id: string;
+  action: ReviewAction;
+  notes: string;
+  actor: ReviewUser | null;
+  createdAt: string | null;
+  /** Before/after of each rewritten block for REVISED and SUGGESTION_APPLIED */
+  changes: BlockChange[];
+  override: boolean;
+};
+
+export type ReviewChecklist = {
+  requirementErrors: string[];
+  seoScore: number | null;
+  seoChecks: Array<{ category: string; name: string; status: string; message: string }>;
+  blocking: string[];
+};
+
+export type PostReview = {
+  post: {
+    id: string;
+    title: string;
+    status: string;
+    content: string;
+    aiModel: string;
+    aiPrompt: string;
+    promptLabel: string;
+    reviewNotes: string;
+  };
+  comments: ReviewComment[];
+  events: ReviewEvent[];
+  checklist: ReviewChecklist;
+  revisionPending: boolean;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown, fallback = 0): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+);
+
+const readDate = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const readAction = (value: unknown): ReviewAction | null => REVIEW_ACTIONS.find((action) => action === value) ?? null;
+
+const readUser = (value: unknown): ReviewUser | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return { id: value.id, name: readString(value.displayName) || readString(value.username) || 'Unknown' };
+};
+
+const readPromptLabel = (value: unknown): string => {
+  if (!isRecord(value)) return '';
+  const template = isRecord(value.template) ? readString(value.template.name) : '';
+  return template ? `${template} v${readNumber(value.version, 1)}` : '';
+};
+
+const readChanges = (details: unknown): BlockChange[] => {
+  if (!isRecord(details) || !Array.isArray(details.changes)) return [];
+  return details.changes.filter(isRecord).map((change) => ({
+    index: readNumber(change.index),
+    before: readString(change.before),
+    after: readString(change.after),
+  }));
+};
+
+export const parseReviewQueue = (value: unknown): ReviewQueueItem[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).filter((item) => typeof item.id === 'string').map((item) => ({
+    id: String(item.id),
+    title: readString(item.title) || 'Untitled',
+    createdAt: readDate(item.createdAt),
+    aiModel: readString(item.aiModel),
+    wordCount: readNumber(item.wordCount),
+    author: readUser(item.author),
+    promptLabel: readPromptLabel(item.promptVersion),
+    openComments: readNumber(item.openComments),
+    lastAction: isRecord(item.lastEvent) ? readAction(item.lastEvent.action) : null,
+    revisionPending: item.revisionPending === true,
+  }));
+};
+
+export const parseReviewComment = (value: unknown): ReviewComment | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return {
+    id: value.id,
+    blockIndex: readNumber(value.blockIndex, -1),
+    quote: readString(value.quote),
+    body: readString(value.body),
+    suggestion: readString(value.suggestion),
+    status: value.status === 'RESOLVED' ? 'RESOLVED' : 'OPEN',
+    author: readUser(value.author),
+    createdAt: readDate(value.createdAt),
+  };
+};
+
+const parseReviewEvent = (value: unknown): ReviewEvent | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  const action = readAction(value.action);
+  if (!action) return null;
+  return {
+    id: value.id,
+    action,
+    notes: readString(value.notes),
+    actor: readUser(value.actor),
+    createdAt: readDate(value.createdAt),
+    changes: readChanges(value.details),
+    override: isRecord(value.details) && value.details.override === true,
+  };
+};
+
+const parseChecklist = (value: unknown): ReviewChecklist => {
+  const data = isRecord(value) ? value : {};
+  const requirements = isRecord(data.requirements) ? data.requirements : {};
+  const seo = isRecord(data.seo) ? data.seo : null;
+  const readStrings = (list: unknown) => (
+    Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : []
+  );
+  return {
+    requirementErrors: readStrings(requirements.errors),
+    seoScore: seo ? readNumber(seo.score) : null,
+    seoChecks: seo && Array.isArray(seo.checks)
+      ? seo.checks.filter(isRecord).map((check) => ({
+        category: readString(check.category),
+        name: readString(check.name),
+        status: readString(check.status),
+        message: readString(check.message),
+      }))
+      : [],
+    blocking: readStrings(data.blocking),
+  };
+};
+
+export const parsePostReview = (value: unknown): PostReview | null => {
+  if (!isRecord(value) || !isRecord(value.post) || typeof value.post.id !== 'string') return null;
+  const post = value.post;
+  return {
+    post: {
+      id: String(post.id),
+      title: readString(post.title),
+      status: readString(post.status),
+      content: readString(post.content),
+      aiModel: readString(post.aiModel),
+      aiPrompt: readString(post.aiPrompt),
+      promptLabel: readPromptLabel(post.promptVersion),
+      reviewNotes: readString(post.reviewNotes),
+    },
+    comments: Array.isArray(value.comments)
+      ? value.comments.map(parseReviewComment).filter((item): item is ReviewComment => item !== null)
+      : [],
+    events: Array.isArray(value.events)
+      ? value.events.map(parseReviewEvent).filter((item): item is ReviewEvent => item !== null)
+      : [],
+    checklist: parseChecklist(value.checklist),
+    revisionPending: value.revisionPending === true,
+  };
+};
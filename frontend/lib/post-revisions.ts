@@ -0,0 +1,88 @@
+export type RevisionSource = 'EDITOR' | 'AI' | 'REFRESH' | 'REVIEW' | 'RESTORE' | 'INTERLINK';
+
+const REVISION_SOURCES: RevisionSource[] = ['EDITOR', 'AI', 'REFRESH', 'REVIEW', 'RESTORE', 'INTERLINK'];
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  EDITOR: 'Edited',
+  AI: 'AI generated',
+  REFRESH: 'Content refresh',
+  REVIEW: 'Review',
+  RESTORE: 'Restored',
+  INTERLINK: 'Internal links',
+};
+
+export type RevisionSummary = {
+  revisionNumber: number;
+  title: string;
+  wordCount: number;
+  source: RevisionSource;
+  reason: string;
+  author: string;
+  createdAt: string | null;
+};
+
+export type RevisionDetail = RevisionSummary & {
+  content: string;
+  excerpt: string;
+  seoTitle: string;
+  seoDescription: string;
+  seoKeywords: string[];
+  categories: string[];
+  tags: string[];
+};
+
+/** Fields of the post being edited, compared against a revision */
+export type RevisionComparable = Pick<
+  RevisionDetail,
+  'title' | 'content' | 'excerpt' | 'seoTitle' | 'seoDescription' | 'seoKeywords' | 'categories' | 'tags'
+>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : 0
+);
+
+const readStrings = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+const readNames = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter(isRecord).map((item) => readString(item.name)).filter(Boolean) : []
+);
+
+const readSummary = (value: Record<string, unknown>): RevisionSummary => {
+  const author = isRecord(value.author) ? value.author : null;
+  return {
+    revisionNumber: readNumber(value.revisionNumber),
+    title: readString(value.title) || 'Untitled',
+    wordCount: readNumber(value.wordCount),
+    source: REVISION_SOURCES.find((source) => source === value.source) ?? 'EDITOR',
+    reason: readString(value.reason),
+    author: author ? readString(author.displayName) || readString(author.username) : '',
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : null,
+  };
+};
+
+export const parseRevisionList = (value: unknown): RevisionSummary[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).filter((item) => typeof item.revisionNumber === 'number').map(readSummary);
+};
+
+export const parseRevisionDetail = (value: unknown): RevisionDetail | null => {
+  if (!isRecord(value) || typeof value.revisionNumber !== 'number') return null;
+  return {
+    ...readSummary(value),
+    content: readString(value.content),
+    excerpt: readString(value.excerpt),
+    seoTitle: readString(value.seoTitle),
+    seoDescription: readString(value.seoDescription),
+    seoKeywords: readStrings(value.seoKeywords),
+    categories: readNames(value.categories),
+    tags: readNames(value.tags),
+  };
+};
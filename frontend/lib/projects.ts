@@ -0,0 +1,132 @@
+export type ProjectStatus = 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['DRAFT', 'PUBLISHED', 'ARCHIVED'];
+
+export type ProjectImage = {
+  id: string;
+  url: string;
+  altText: string;
+};
+
+export type ProjectImagePair = {
+  id: string;
+  caption: string;
+  before: ProjectImage;
+  after: ProjectImage;
+};
+
+export type Project = {
+  id: string;
+  title: string;
+  slug: string;
+  summary: string;
+  description: string;
+  status: ProjectStatus;
+  featured: boolean;
+  location: string;
+  serviceType: string;
+  propertyType: string;
+  coloursUsed: string[];
+  paintBrands: string[];
+  durationDays: number | null;
+  completedAt: string | null;
+  customerName: string;
+  customerQuote: string;
+  seoTitle: string;
+  seoDescription: string;
+  publishedAt: string | null;
+  updatedAt: string | null;
+  imagePairs: ProjectImagePair[];
+};
+
+export type ProjectFilterOptions = {
+  serviceTypes: string[];
+  locations: string[];
+  colours: string[];
+  brands: string[];
+};
+
+export type ProjectListResult = {
+  projects: Project[];
+  page: number;
+  totalPages: number;
+  total: number;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readStringList = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+const parseImage = (value: unknown): ProjectImage | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.url !== 'string') return null;
+  return { id: value.id, url: value.url, altText: readString(value.altText) };
+};
+
+const parsePair = (value: unknown): ProjectImagePair | null => {
+  if (!isRecord(value)) return null;
+  const before = parseImage(value.before);
+  const after = parseImage(value.after);
+  if (!before || !after) return null;
+  return { id: readString(value.id), caption: readString(value.caption), before, after };
+};
+
+export const parseProject = (value: unknown): Project | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.slug !== 'string') return null;
+  const status = PROJECT_STATUSES.find((item) => item === value.status) ?? 'DRAFT';
+  return {
+    id: value.id,
+    title: readString(value.title) || 'Untitled project',
+    slug: value.slug,
+    summary: readString(value.summary),
+    description: readString(value.description),
+    status,
+    featured: value.featured === true,
+    location: readString(value.location),
+    serviceType: readString(value.serviceType),
+    propertyType: readString(value.propertyType),
+    coloursUsed: readStringList(value.coloursUsed),
+    paintBrands: readStringList(value.paintBrands),
+    durationDays: typeof value.durationDays === 'number' ? value.durationDays : null,
+    completedAt: typeof value.completedAt === 'string' ? value.completedAt : null,
+    customerName: readString(value.customerName),
+    customerQuote: readString(value.customerQuote),
+    seoTitle: readString(value.seoTitle),
+    seoDescription: readString(value.seoDescription),
+    publishedAt: typeof value.publishedAt === 'string' ? value.publishedAt : null,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : null,
+    imagePairs: Array.isArray(value.imagePairs)
+      ? value.imagePairs.map(parsePair).filter((pair): pair is ProjectImagePair => pair !== null)
+      : [],
+  };
+};
+
+export const parseProjectList = (value: unknown): ProjectListResult => {
+  const list = Array.isArray(value) ? value : isRecord(value) && Array.isArray(value.data) ? value.data : [];
+  const projects = list.map(parseProject).filter((project): project is Project => project !== null);
+  const meta = isRecord(value) ? value : {};
+  return {
+    projects,
+    page: typeof meta.page === 'number' ? meta.page : 1,
+    totalPages: typeof meta.totalPages === 'number' ? meta.totalPages : 1,
+    total: typeof meta.total === 'number' ? meta.total : projects.length,
+  };
+};
+
+export const parseProjectFilters = (value: unknown): ProjectFilterOptions => {
+  const data = isRecord(value) ? value : {};
+  return {
+    serviceTypes: readStringList(data.serviceTypes),
+    locations: readStringList(data.locations),
+    colours: readStringList(data.colours),
+    brands: readStringList(data.brands),
+  };
+};
+
+// Query-string keys accepted by GET /projects
+export const PROJECT_FILTER_KEYS = ['serviceType', 'location', 'colour', 'brand', 'search'] as const;
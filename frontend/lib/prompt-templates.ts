@@ -0,0 +1,117 @@
+export type PromptTemplateSummary = {
+  id: string;
+  key: string;
+  name: string;
+  description: string;
+  abTestEnabled: boolean;
+  activeVersionId: string;
+  versionCount: number;
+  variables: string[];
+};
+
+export type PromptVersionOutcomes = {
+  posts: number;
+  pendingReview: number;
+  approved: number;
+  rejected: number;
+  approvalRate: number | null;
+  avgSeoScore: number | null;
+};
+
+export type PromptVersion = {
+  id: string;
+  version: number;
+  body: string;
+  notes: string;
+  trafficWeight: number;
+  active: boolean;
+  createdAt: string;
+  outcomes: PromptVersionOutcomes;
+};
+
+export type PromptTemplateDetail = PromptTemplateSummary & {
+  versions: PromptVersion[];
+};
+
+export type PromptPreview = {
+  prompt: string;
+  missing: string[];
+  unknown: string[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown, fallback = 0): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+);
+
+const readNullableNumber = (value: unknown): number | null => (
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+);
+
+const readStrings = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+);
+
+export const parsePromptTemplateSummary = (value: unknown): PromptTemplateSummary | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return {
+    id: value.id,
+    key: readString(value.key),
+    name: readString(value.name),
+    description: readString(value.description),
+    abTestEnabled: value.abTestEnabled === true,
+    activeVersionId: readString(value.activeVersionId),
+    versionCount: readNumber(value.versionCount, Array.isArray(value.versions) ? value.versions.length : 0),
+    variables: readStrings(value.variables),
+  };
+};
+
+export const parsePromptTemplateList = (value: unknown): PromptTemplateSummary[] => (
+  Array.isArray(value)
+    ? value.map(parsePromptTemplateSummary).filter((item): item is PromptTemplateSummary => item !== null)
+    : []
+);
+
+export const parsePromptTemplateDetail = (value: unknown): PromptTemplateDetail | null => {
+  const summary = parsePromptTemplateSummary(value);
+  if (!summary || !isRecord(value)) return null;
+  return {
+    ...summary,
+    versions: Array.isArray(value.versions)
+      ? value.versions.filter(isRecord).map((version) => {
+        const outcomes = isRecord(version.outcomes) ? version.outcomes : {};
+        return {
+          id: readString(version.id),
+          version: readNumber(version.version, 1),
+          body: readString(version.body),
+          notes: readString(version.notes),
+          trafficWeight: readNumber(version.trafficWeight),
+          active: version.active === true,
+          createdAt: readString(version.createdAt),
+          outcomes: {
+            posts: readNumber(outcomes.posts),
+            pendingReview: readNumber(outcomes.pendingReview),
+            approved: readNumber(outcomes.approved),
+            rejected: readNumber(outcomes.rejected),
+            approvalRate: readNullableNumber(outcomes.approvalRate),
+            avgSeoScore: readNullableNumber(outcomes.avgSeoScore),
+          },
+        };
+      })
+      : [],
+  };
+};
+
+export const parsePromptPreview = (value: unknown): PromptPreview => {
+  const data = isRecord(value) ? value : {};
+  return {
+    prompt: readString(data.prompt),
+    missing: readStrings(data.missing),
+    unknown: readStrings(data.unknown),
+  };
+};
@@ -0,0 +1,157 @@
+export type JobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'DEAD_LETTER' | 'CANCELLED';
+
+export const JOB_STATUSES: JobStatus[] = ['PENDING', 'PROCESSING', 'COMPLETED', 'DEAD_LETTER', 'CANCELLED'];
+
+// Statuses POST /queue/jobs/purge accepts
+export const PURGEABLE_JOB_STATUSES: JobStatus[] = ['COMPLETED', 'CANCELLED', 'DEAD_LETTER'];
+
+export type QueueJob = {
+  id: string;
+  type: string;
+  status: JobStatus;
+  payload: unknown;
+  result: unknown;
+  error: string;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string | null;
+  lockedAt: string | null;
+  lockedBy: string;
+  processedAt: string | null;
+  createdAt: string | null;
+};
+
+export type QueueJobList = {
+  jobs: QueueJob[];
+  page: number;
+  totalPages: number;
+  total: number;
+};
+
+export type QueueTypeStats = {
+  type: string;
+  registered: boolean;
+  maxAttempts: number | null;
+  concurrency: number | null;
+  counts: Record<JobStatus, number>;
+};
+
+export type QueueSeriesPoint = {
+  bucket: string;
+  completed: number;
+  deadLettered: number;
+  retried: number;
+  failureRate: number;
+};
+
+export type QueueStats = {
+  days: number;
+  bucket: 'hour' | 'day';
+  statuses: Record<JobStatus, number>;
+  types: QueueTypeStats[];
+  totals: {
+    completed: number;
+    deadLettered: number;
+    retried: number;
+    failureRate: number;
+    avgCompletionMs: number | null;
+  };
+  series: QueueSeriesPoint[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+);
+
+const readString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const readNumber = (value: unknown, fallback = 0): number => (
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+);
+
+const readDate = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+
+const readStatusCounts = (value: unknown): Record<JobStatus, number> => {
+  const data = isRecord(value) ? value : {};
+  return {
+    PENDING: readNumber(data.PENDING),
+    PROCESSING: readNumber(data.PROCESSING),
+    COMPLETED: readNumber(data.COMPLETED),
+    DEAD_LETTER: readNumber(data.DEAD_LETTER),
+    CANCELLED: readNumber(data.CANCELLED),
+  };
+};
+
+export const parseQueueJob = (value: unknown): QueueJob | null => {
+  if (!isRecord(value) || typeof value.id !== 'string') return null;
+  return {
+    id: value.id,
+    type: readString(value.type),
+    status: JOB_STATUSES.find((status) => status === value.status) ?? 'PENDING',
+    payload: value.payload ?? null,
+    result: value.result ?? null,
+    error: readString(value.error),
+    priority: readNumber(value.priority),
+    attempts: readNumber(value.attempts),
+    maxAttempts: readNumber(value.maxAttempts, 1),
+    runAt: readDate(value.runAt),
+    lockedAt: readDate(value.lockedAt),
+    lockedBy: readString(value.lockedBy),
+    processedAt: readDate(value.processedAt),
+    createdAt: readDate(value.createdAt),
+  };
+};
+
+export const parseQueueJobList = (value: unknown): QueueJobList => {
+  const list = Array.isArray(value) ? value : isRecord(value) && Array.isArray(value.data) ? value.data : [];
+  const jobs = list.map(parseQueueJob).filter((job): job is QueueJob => job !== null);
+  const meta = isRecord(value) ? value : {};
+  return {
+    jobs,
+    page: readNumber(meta.page, 1),
+    totalPages: readNumber(meta.totalPages, 1),
+    total: readNumber(meta.total, jobs.length),
+  };
+};
+
+export const parseQueueStats = (value: unknown): QueueStats | null => {
+  if (!isRecord(value)) return null;
+  const totals = isRecord(value.totals) ? value.totals : {};
+  return {
+    days: readNumber(value.days, 14),
+    bucket: value.bucket === 'hour' ? 'hour' : 'day',
+    statuses: readStatusCounts(value.statuses),
+    types: Array.isArray(value.types)
+      ? value.types.filter(isRecord).map((item) => ({
+        type: readString(item.type),
+        registered: item.registered === true,
+        maxAttempts: typeof item.maxAttempts === 'number' ? item.maxAttempts : null,
+        concurrency: typeof item.concurrency === 'number' ? item.concurrency : null,
+        counts: readStatusCounts(item.counts),
+      }))
+      : [],
+    totals: {
+      completed: readNumber(totals.completed),
+      deadLettered: readNumber(totals.deadLettered),
+      retried: readNumber(totals.retried),
+      failureRate: readNumber(totals.failureRate),
+      avgCompletionMs: typeof totals.avgCompletionMs === 'number' ? totals.avgCompletionMs : null,
+    },
+    series: Array.isArray(value.series)
+      ? value.series.filter(isRecord).map((point) => ({
+        bucket: readString(point.bucket),
+        completed: readNumber(point.completed),
+        deadLettered: readNumber(point.deadLettered),
+        retried: readNumber(point.retried),
+        failureRate: readNumber(point.failureRate),
+      }))
+      : [],
+  };
+};
+
+/** Short human label for a job payload, e.g. the GENERATE_POST topic */
+export const describeJobPayload = (payload: unknown): string => {
+  if (!isRecord(payload)) return '';
+  return readString(payload.topic) || readString(payload.postId) || readString(payload.title);
+};